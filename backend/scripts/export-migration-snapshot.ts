@@ -0,0 +1,56 @@
+/**
+ * @file Export a token migration snapshot
+ * @notice Writes the active token's holders, split-adjusted balances and allowlist from the
+ *         indexer database, for contracts/scripts/migration-helper.ts
+ *
+ * Usage: bun run migration:snapshot <company id> [output path] (default: ./migration-snapshot.json)
+ *        (company ids are listed by GET /api/companies)
+ *
+ * Stop issuing, transferring and approving on the old token before exporting: the migration
+ * helper verifies the snapshot against the chain and aborts if anything changed since.
+ */
+
+import { writeFileSync } from "fs";
+import { resolve } from "path";
+import { connect } from "../src/db/index";
+import { getLatestIndexedBlock } from "../src/services/db/blocks";
+import { getCompanyById } from "../src/services/db/companies";
+import { buildMigrationSnapshot } from "../src/services/db/tokens";
+
+async function main() {
+  const companyId = Number(process.argv[2]);
+  const outputPath = resolve(process.argv[3] ?? "migration-snapshot.json");
+  const db = connect();
+
+  const company = Number.isInteger(companyId)
+    ? getCompanyById(db, companyId)
+    : null;
+  if (!company) {
+    throw new Error(
+      `Unknown company id "${process.argv[2] ?? ""}" (usage: migration:snapshot <company id> [output path])`
+    );
+  }
+
+  // Live watchers index past last_indexed_block, so use the highest block seen either way
+  const blockNumber = Math.max(
+    company.lastIndexedBlock ?? 0,
+    getLatestIndexedBlock(db, company.id)?.blockNumber ?? 0
+  );
+
+  const snapshot = buildMigrationSnapshot(db, company, blockNumber);
+  writeFileSync(outputPath, JSON.stringify(snapshot, null, 2));
+
+  console.log(
+    `📸 Snapshot of ${company.name} token ${snapshot.oldTokenAddress} at block ${blockNumber}`
+  );
+  console.log(`   Shareholders: ${snapshot.shareholderCount}`);
+  console.log(`   Approved wallets: ${snapshot.approvedAddresses.length}`);
+  console.log(`   Split factor: ${snapshot.splitFactor}`);
+  console.log(`   Transfers restricted: ${snapshot.transfersRestricted}`);
+  console.log(`✅ Written to ${outputPath}`);
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to export migration snapshot:", error);
+  process.exit(1);
+});
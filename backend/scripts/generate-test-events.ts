@@ -11,9 +11,10 @@ import {
 } from "viem";
 import { hardhat } from "viem/chains";
 import { privateKeyToAccount } from "viem/accounts";
-import { CONTRACTS } from "../src/config/contracts";
+import { ABIS, DEPLOYMENTS } from "../src/config/contracts";
 
 const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const COMPANY = DEPLOYMENTS[0]!; // Events are generated for the first deployed company
 const PRIVATE_KEY =
   process.env.ADMIN_PRIVATE_KEY ||
   "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80"; // Hardhat account #0
@@ -40,8 +41,8 @@ async function main() {
 
     console.log("1️⃣ Approving wallet for Alice...");
     const approveTx1 = await walletClient.writeContract({
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
+      address: COMPANY.token,
+      abi: ABIS.token,
       functionName: "approveWallet",
       args: [alice],
     });
@@ -50,8 +51,8 @@ async function main() {
 
     console.log("2️⃣ Approving wallet for Bob...");
     const approveTx2 = await walletClient.writeContract({
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
+      address: COMPANY.token,
+      abi: ABIS.token,
       functionName: "approveWallet",
       args: [bob],
     });
@@ -60,8 +61,8 @@ async function main() {
 
     console.log("3️⃣ Minting 1000 tokens to Alice (Issued event)...");
     const mintTx1 = await walletClient.writeContract({
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
+      address: COMPANY.token,
+      abi: ABIS.token,
       functionName: "mint",
       args: [alice, parseEther("1000")],
     });
@@ -70,8 +71,8 @@ async function main() {
 
     console.log("4️⃣ Minting 500 tokens to Bob (Issued event)...");
     const mintTx2 = await walletClient.writeContract({
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
+      address: COMPANY.token,
+      abi: ABIS.token,
       functionName: "mint",
       args: [bob, parseEther("500")],
     });
@@ -93,8 +94,8 @@ async function main() {
     });
 
     const transferTx = await aliceWallet.writeContract({
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
+      address: COMPANY.token,
+      abi: ABIS.token,
       functionName: "transfer",
       args: [bob, parseEther("100")],
     });
@@ -106,8 +107,8 @@ async function main() {
 
     console.log("6️⃣ Executing 2-for-1 stock split (SplitExecuted event)...");
     const splitTx = await walletClient.writeContract({
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
+      address: COMPANY.token,
+      abi: ABIS.token,
       functionName: "executeSplit",
       args: [parseEther("2")], // 2-for-1 split
     });
@@ -119,8 +120,8 @@ async function main() {
 
     console.log("7️⃣ Recording corporate action (CorporateActionRecorded event)...");
     const actionTx = await walletClient.writeContract({
-      address: CONTRACTS.capTable.address,
-      abi: CONTRACTS.capTable.abi,
+      address: COMPANY.capTable,
+      abi: ABIS.capTable,
       functionName: "recordCorporateAction",
       args: ["TEST_ACTION", "0x1234"],
     });
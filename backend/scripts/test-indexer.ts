@@ -5,7 +5,9 @@
 
 import { Indexer } from "../src/services/chain/indexer";
 import { getPublicClient, testConnection } from "../src/services/chain/client";
-import { CONTRACTS } from "../src/config/contracts";
+import { ABIS, CHAIN_ID, DEPLOYMENTS } from "../src/config/contracts";
+import { connect } from "../src/db/index";
+import { registerDeployments } from "../src/services/db/companies";
 
 async function main() {
   console.log("🧪 Testing event indexer...\n");
@@ -21,8 +23,11 @@ async function main() {
 
     // Check contract addresses
     console.log("2️⃣ Checking contract addresses...");
-    console.log(`   CapTable: ${CONTRACTS.capTable.address}`);
-    console.log(`   Token: ${CONTRACTS.token.address}`);
+    for (const deployment of DEPLOYMENTS) {
+      console.log(`   ${deployment.name} CapTable: ${deployment.capTable}`);
+      console.log(`   ${deployment.name} Token: ${deployment.token}`);
+    }
+    const [company] = DEPLOYMENTS;
     console.log("✅ Contract addresses loaded\n");
 
     // Test contract accessibility
@@ -32,8 +37,8 @@ async function main() {
     // Try to read from token contract
     try {
       const name = await publicClient.readContract({
-        address: CONTRACTS.token.address,
-        abi: CONTRACTS.token.abi,
+        address: company!.token,
+        abi: ABIS.token,
         functionName: "name",
       });
       console.log(`   Token name: ${name}`);
@@ -47,8 +52,8 @@ async function main() {
     // Try to read from capTable contract
     try {
       const name = await publicClient.readContract({
-        address: CONTRACTS.capTable.address,
-        abi: CONTRACTS.capTable.abi,
+        address: company!.capTable,
+        abi: ABIS.capTable,
         functionName: "name",
       });
       console.log(`   CapTable name: ${name}`);
@@ -64,7 +69,8 @@ async function main() {
     // Test indexer start (will catch up on existing blocks)
     console.log("4️⃣ Testing indexer start...");
     console.log("   Starting indexer (this will scan existing blocks)...");
-    
+    registerDeployments(connect(), CHAIN_ID, DEPLOYMENTS);
+
     await Indexer.start();
     
     // Let it run for a few seconds
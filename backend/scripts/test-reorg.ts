@@ -0,0 +1,132 @@
+/**
+ * @file Reorg test script for the event indexer
+ * @notice Simulates a chain reorganization on a local node and verifies the indexer rolls it back
+ *
+ * Uses evm_snapshot/evm_revert (supported by anvil and the Hardhat node) to orphan blocks that the
+ * live watchers have already indexed, then mines a longer replacement chain.
+ *
+ * Usage:
+ *   bun run scripts/test-reorg.ts
+ *   NODE_MODE=hardhat bun run scripts/test-reorg.ts   # when running against `npx hardhat node`
+ */
+
+import {
+  createTestClient,
+  createWalletClient,
+  http,
+  parseEther,
+  type Hash,
+} from "viem";
+import { hardhat } from "viem/chains";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { Indexer } from "../src/services/chain/indexer";
+import { getPublicClient } from "../src/services/chain/client";
+import { ABIS, CHAIN_ID, DEPLOYMENTS } from "../src/config/contracts";
+import { connect, queryOne } from "../src/db/index";
+import { registerDeployments } from "../src/services/db/companies";
+
+const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+const NODE_MODE = (process.env.NODE_MODE || "anvil") as "anvil" | "hardhat";
+const PRIVATE_KEY =
+  process.env.ADMIN_PRIVATE_KEY ||
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80"; // Hardhat account #0
+const WAIT_TIMEOUT_MS = 30000;
+const COMPANY = DEPLOYMENTS[0]!; // The reorg is simulated on the first deployed company
+
+/**
+ * Poll until a condition holds or the timeout expires
+ */
+async function waitFor(description: string, condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + WAIT_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (condition()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+  throw new Error(`Timed out waiting for ${description}`);
+}
+
+/**
+ * Check whether a transaction's Issued event is in the transactions table
+ */
+function isIndexed(txHash: Hash): boolean {
+  return (
+    queryOne("SELECT 1 FROM transactions WHERE tx_hash = ?", [txHash]) !== null
+  );
+}
+
+async function main() {
+  console.log("🧪 Testing reorg handling...\n");
+
+  const publicClient = getPublicClient();
+  const testClient = createTestClient({
+    chain: hardhat,
+    mode: NODE_MODE,
+    transport: http(RPC_URL),
+  });
+  const walletClient = createWalletClient({
+    account: privateKeyToAccount(PRIVATE_KEY as `0x${string}`),
+    chain: hardhat,
+    transport: http(RPC_URL),
+  });
+
+  try {
+    console.log("1️⃣ Starting indexer...");
+    registerDeployments(connect(), CHAIN_ID, DEPLOYMENTS);
+    await Indexer.start();
+    console.log("✅ Indexer started\n");
+
+    console.log("2️⃣ Taking chain snapshot...");
+    const snapshotId = await testClient.snapshot();
+    const forkBlock = await publicClient.getBlockNumber();
+    console.log(`   Snapshot ${snapshotId} at block ${forkBlock}\n`);
+
+    console.log("3️⃣ Issuing shares to a fresh wallet on the soon-to-be-orphaned chain...");
+    const investor = privateKeyToAccount(generatePrivateKey()).address;
+    const approveHash = await walletClient.writeContract({
+      address: COMPANY.token,
+      abi: ABIS.token,
+      functionName: "approveWallet",
+      args: [investor],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: approveHash });
+    const mintHash = await walletClient.writeContract({
+      address: COMPANY.token,
+      abi: ABIS.token,
+      functionName: "mint",
+      args: [investor, parseEther("1")],
+    });
+    await publicClient.waitForTransactionReceipt({ hash: mintHash });
+    const orphanedHead = await publicClient.getBlockNumber();
+
+    await waitFor("the Issued event to be indexed", () => isIndexed(mintHash));
+    console.log(`✅ Issued event indexed (${mintHash})\n`);
+
+    console.log("4️⃣ Reverting to snapshot and mining a longer chain...");
+    await testClient.revert({ id: snapshotId });
+    await testClient.mine({ blocks: Number(orphanedHead - forkBlock) + 1 });
+    console.log(`   Chain head is now ${await publicClient.getBlockNumber()}\n`);
+
+    await waitFor("the orphaned Issued event to be rolled back", () => !isIndexed(mintHash));
+    const shareholder = queryOne(
+      "SELECT 1 FROM shareholders WHERE address = ?",
+      [investor.toLowerCase()]
+    );
+    if (shareholder !== null) {
+      throw new Error("Orphaned shareholder row was not removed");
+    }
+    console.log("✅ Orphaned rows rolled back\n");
+
+    console.log("🎉 Reorg test passed!");
+  } catch (error) {
+    console.error("❌ Test failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await Indexer.stop();
+    // Watchers keep the RPC transport open, so exit explicitly
+    process.exit();
+  }
+}
+
+main();
@@ -114,15 +114,19 @@ async function main() {
     console.log(`   ⚠️  No corporate actions found in database\n`);
   }
 
-  // Check meta table for last indexed block
+  // Check companies table for each company's last indexed block
   console.log("5️⃣ Checking indexer state...");
-  const lastIndexedBlock = queryOne<{ value: string }>(
-    "SELECT value FROM meta WHERE key = 'last_indexed_block'"
+  const companies = query<{ name: string; lastIndexedBlock: number | null }>(
+    "SELECT name, last_indexed_block AS lastIndexedBlock FROM companies ORDER BY id"
   );
-  if (lastIndexedBlock) {
-    console.log(`   Last indexed block: ${lastIndexedBlock.value}`);
+  if (companies.length > 0) {
+    companies.forEach((company) => {
+      console.log(
+        `   ${company.name} last indexed block: ${company.lastIndexedBlock ?? "none"}`
+      );
+    });
   } else {
-    console.log(`   ⚠️  No last indexed block found in meta table`);
+    console.log(`   ⚠️  No companies found in companies table`);
   }
 
   // Summary
@@ -1,24 +1,76 @@
 /**
- * @file Tests for mock authentication middleware (demo mode)
- * @notice Validates requireAuth returns demo user and deferred middlewares allow requests
+ * @file Tests for authentication middleware
+ * @notice Validates requireAuth resolves SIWE session tokens and deferred role middlewares allow requests
  */
 
-import { describe, it, expect, beforeEach, mock } from "bun:test";
-import type { FastifyRequest, FastifyReply } from "fastify";
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Route modules read the chain only in handlers that are not reached here
+mock.module("../../services/chain/client", () => ({
+  getPublicClient: () => ({}),
+}));
+mock.module("../../config/contracts", () => ({
+  CHAIN_ID: 31337,
+  DEPLOYMENTS: [],
+  ABIS: { capTable: [], token: [] },
+}));
+
 import {
   requireAuth,
   requireRole,
   requireAnyRole,
   requireWalletSignature,
 } from "../../middleware/auth";
+import { resolveCompany } from "../../middleware/company";
+import { createSession } from "../../services/db/sessions";
+import { recordRoleChange } from "../../services/db/roles";
+import { recordTokenReplacement } from "../../services/db/tokens";
+import { ONCHAIN_ROLES } from "../../types/roles";
+import { shareholdersRoutes } from "../../routes/shareholders";
+import { walletRoutes } from "../../routes/wallet";
+
+const WALLET = "0x70997970c51812dc3a010c7d01b50e20d17dc79c";
 
-describe("Mock Authentication Middleware (Demo Mode)", () => {
+describe("Authentication Middleware", () => {
   let mockRequest: Partial<FastifyRequest>;
   let mockReply: Partial<FastifyReply>;
   let sendMock: ReturnType<typeof mock>;
   let codeMock: ReturnType<typeof mock>;
+  let db: Database;
+  let token: string;
 
   beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    testDbInstance = db;
+
+    db.run(`
+      INSERT INTO users (uid, email, wallet_address, role)
+      VALUES ('issuer-user', 'issuer@chainequity.com', '${WALLET}', 'issuer')
+    `);
+    token = createSession(db, {
+      uid: "issuer-user",
+      walletAddress: WALLET,
+      chainId: 31337,
+      ttlSeconds: 3600,
+    }).token;
+
     sendMock = mock((payload: any) => payload);
     codeMock = mock((statusCode: number) => {
       return {
@@ -39,10 +91,15 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
     };
   });
 
+  afterEach(() => {
+    testDbInstance = null;
+    db.close();
+  });
+
   describe("requireAuth", () => {
-    it("attaches demo user to request when Authorization header is present", async () => {
+    it("attaches the session user to the request", async () => {
       mockRequest.headers = {
-        authorization: "Bearer any-token",
+        authorization: `Bearer ${token}`,
       };
 
       await requireAuth(
@@ -50,15 +107,19 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
         mockReply as FastifyReply
       );
 
-      expect(mockRequest.user).toBeDefined();
-      expect(mockRequest.user?.uid).toBe("demo-user");
-      expect(mockRequest.user?.email).toBe("demo@example.com");
-      expect(mockRequest.user?.role).toBe("issuer");
+      expect(codeMock).not.toHaveBeenCalled();
+      expect(mockRequest.user).toEqual({
+        uid: "issuer-user",
+        email: "issuer@chainequity.com",
+        role: "issuer",
+        wallet_address: WALLET,
+      });
     });
 
-    it("always returns demo user with issuer role regardless of token", async () => {
+    it("reads the role from the users table on every request", async () => {
+      db.run("UPDATE users SET role = 'investor' WHERE uid = 'issuer-user'");
       mockRequest.headers = {
-        authorization: "Bearer different-token",
+        authorization: `Bearer ${token}`,
       };
 
       await requireAuth(
@@ -66,8 +127,47 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
         mockReply as FastifyReply
       );
 
-      expect(mockRequest.user?.role).toBe("issuer");
-      expect(codeMock).not.toHaveBeenCalled();
+      expect(mockRequest.user?.role).toBe("investor");
+    });
+
+    it("ignores user headers and returns 401 for unknown tokens", async () => {
+      mockRequest.headers = {
+        authorization: "Bearer not-a-session",
+        "x-user-uid": "admin-user",
+        "x-user-email": "admin@chainequity.com",
+        "x-user-role": "admin",
+      };
+
+      await requireAuth(
+        mockRequest as FastifyRequest,
+        mockReply as FastifyReply
+      );
+
+      expect(codeMock).toHaveBeenCalledWith(401);
+      expect(sendMock).toHaveBeenCalledWith({
+        error: "Invalid session",
+        message: "Session is invalid or expired, please sign in again",
+      });
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it("returns 401 for expired sessions", async () => {
+      const expired = createSession(
+        db,
+        { uid: "issuer-user", walletAddress: WALLET, chainId: 31337, ttlSeconds: 60 },
+        Math.floor(Date.now() / 1000) - 120
+      ).token;
+      mockRequest.headers = {
+        authorization: `Bearer ${expired}`,
+      };
+
+      await requireAuth(
+        mockRequest as FastifyRequest,
+        mockReply as FastifyReply
+      );
+
+      expect(codeMock).toHaveBeenCalledWith(401);
+      expect(mockRequest.user).toBeUndefined();
     });
 
     it("returns 401 when Authorization header is missing", async () => {
@@ -87,19 +187,44 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
     });
   });
 
-  describe("requireRole (Demo Mode - Stubbed)", () => {
-    it("allows all requests to pass through in demo mode", async () => {
-      const middleware = requireRole("admin");
+  describe("requireRole", () => {
+    it("allows users whose role in the users table matches", async () => {
+      mockRequest.user = {
+        uid: "issuer-user",
+        email: "issuer@chainequity.com",
+        role: "issuer",
+      };
+      const middleware = requireRole("issuer");
+
       await middleware(
         mockRequest as FastifyRequest,
         mockReply as FastifyReply
       );
 
-      // Should not block requests in demo mode
       expect(codeMock).not.toHaveBeenCalled();
     });
 
-    it("allows requests even without authenticated user in demo mode", async () => {
+    it("uses the stored role rather than the role on the request", async () => {
+      mockRequest.user = {
+        uid: "issuer-user",
+        email: "issuer@chainequity.com",
+        role: "admin",
+      };
+      const middleware = requireRole("admin");
+
+      await middleware(
+        mockRequest as FastifyRequest,
+        mockReply as FastifyReply
+      );
+
+      expect(codeMock).toHaveBeenCalledWith(403);
+      expect(sendMock).toHaveBeenCalledWith({
+        error: "Forbidden",
+        message: "This action requires one of the following roles: admin",
+      });
+    });
+
+    it("returns 401 without an authenticated user", async () => {
       mockRequest.user = undefined;
       const middleware = requireRole("issuer");
 
@@ -108,25 +233,49 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
         mockReply as FastifyReply
       );
 
-      // Should not block requests in demo mode
-      expect(codeMock).not.toHaveBeenCalled();
+      expect(codeMock).toHaveBeenCalledWith(401);
     });
   });
 
-  describe("requireAnyRole (Demo Mode - Stubbed)", () => {
-    it("allows all requests to pass through in demo mode", async () => {
-      const middleware = requireAnyRole(["admin"]);
+  describe("requireAnyRole", () => {
+    it("allows users with any of the listed roles", async () => {
+      mockRequest.user = {
+        uid: "issuer-user",
+        email: "issuer@chainequity.com",
+        role: "issuer",
+      };
+      const middleware = requireAnyRole(["issuer", "admin"]);
+
       await middleware(
         mockRequest as FastifyRequest,
         mockReply as FastifyReply
       );
 
-      // Should not block requests in demo mode
       expect(codeMock).not.toHaveBeenCalled();
     });
 
-    it("allows requests even without authenticated user in demo mode", async () => {
-      mockRequest.user = undefined;
+    it("returns 403 for users with none of the listed roles", async () => {
+      mockRequest.user = {
+        uid: "issuer-user",
+        email: "issuer@chainequity.com",
+        role: "issuer",
+      };
+      const middleware = requireAnyRole(["admin"]);
+
+      await middleware(
+        mockRequest as FastifyRequest,
+        mockReply as FastifyReply
+      );
+
+      expect(codeMock).toHaveBeenCalledWith(403);
+    });
+
+    it("returns 403 when the user no longer exists", async () => {
+      mockRequest.user = {
+        uid: "deleted-user",
+        email: "deleted@chainequity.com",
+        role: "admin",
+      };
       const middleware = requireAnyRole(["admin", "issuer"]);
 
       await middleware(
@@ -134,35 +283,34 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
         mockReply as FastifyReply
       );
 
-      // Should not block requests in demo mode
-      expect(codeMock).not.toHaveBeenCalled();
+      expect(codeMock).toHaveBeenCalledWith(403);
     });
   });
 
-  describe("requireWalletSignature (Demo Mode - Stubbed)", () => {
-    it("allows all requests to pass through without signature verification", async () => {
+  describe("requireWalletSignature", () => {
+    it("allows sessions signed by the linked wallet", async () => {
       mockRequest.user = {
-        uid: "demo-user",
-        email: "demo@example.com",
+        uid: "issuer-user",
+        email: "issuer@chainequity.com",
         role: "issuer",
+        wallet_address: WALLET,
       };
-      mockRequest.body = {};
 
       await requireWalletSignature(
         mockRequest as FastifyRequest,
         mockReply as FastifyReply
       );
 
-      // Should not block requests in demo mode
       expect(codeMock).not.toHaveBeenCalled();
     });
 
-    it("allows requests even without wallet address in demo mode", async () => {
+    it("returns 403 when the linked wallet changed after sign-in", async () => {
+      db.run("UPDATE users SET wallet_address = NULL WHERE uid = 'issuer-user'");
       mockRequest.user = {
-        uid: "demo-user",
-        email: "demo@example.com",
+        uid: "issuer-user",
+        email: "issuer@chainequity.com",
         role: "issuer",
-        wallet_address: undefined,
+        wallet_address: WALLET,
       };
 
       await requireWalletSignature(
@@ -170,15 +318,23 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
         mockReply as FastifyReply
       );
 
-      // Should not block requests in demo mode
-      expect(codeMock).not.toHaveBeenCalled();
+      expect(codeMock).toHaveBeenCalledWith(403);
+    });
+
+    it("returns 401 without an authenticated user", async () => {
+      await requireWalletSignature(
+        mockRequest as FastifyRequest,
+        mockReply as FastifyReply
+      );
+
+      expect(codeMock).toHaveBeenCalledWith(401);
     });
   });
 
   describe("Middleware Composition", () => {
-    it("can chain requireAuth and requireRole in demo mode", async () => {
+    it("can chain requireAuth and requireRole", async () => {
       mockRequest.headers = {
-        authorization: "Bearer any-token",
+        authorization: `Bearer ${token}`,
       };
 
       // First authenticate
@@ -188,23 +344,22 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
       );
 
       expect(mockRequest.user).toBeDefined();
-      expect(mockRequest.user?.uid).toBe("demo-user");
+      expect(mockRequest.user?.uid).toBe("issuer-user");
       expect(mockRequest.user?.role).toBe("issuer");
 
-      // Then check role (should pass in demo mode)
-      const roleMiddleware = requireRole("admin");
+      // Then check role
+      const roleMiddleware = requireRole("issuer");
       await roleMiddleware(
         mockRequest as FastifyRequest,
         mockReply as FastifyReply
       );
 
-      // Should pass without errors in demo mode
       expect(codeMock).not.toHaveBeenCalled();
     });
 
-    it("can chain requireAuth and requireAnyRole in demo mode", async () => {
+    it("can chain requireAuth and requireAnyRole", async () => {
       mockRequest.headers = {
-        authorization: "Bearer any-token",
+        authorization: `Bearer ${token}`,
       };
 
       await requireAuth(
@@ -212,19 +367,18 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
         mockReply as FastifyReply
       );
 
-      const roleMiddleware = requireAnyRole(["admin"]);
+      const roleMiddleware = requireAnyRole(["admin", "issuer"]);
       await roleMiddleware(
         mockRequest as FastifyRequest,
         mockReply as FastifyReply
       );
 
-      // Should pass without errors in demo mode
       expect(codeMock).not.toHaveBeenCalled();
     });
 
-    it("can chain requireAuth and requireWalletSignature in demo mode", async () => {
+    it("can chain requireAuth and requireWalletSignature", async () => {
       mockRequest.headers = {
-        authorization: "Bearer any-token",
+        authorization: `Bearer ${token}`,
       };
 
       await requireAuth(
@@ -237,8 +391,167 @@ describe("Mock Authentication Middleware (Demo Mode)", () => {
         mockReply as FastifyReply
       );
 
-      // Should pass without errors in demo mode
       expect(codeMock).not.toHaveBeenCalled();
     });
   });
+
+  describe("Issuer route protection", () => {
+    const ISSUER_ROUTES = [
+      "/api/companies/1/shareholders/pending",
+      "/api/companies/1/shareholders/approved",
+      "/api/wallet/investors",
+    ];
+    let app: ReturnType<typeof Fastify>;
+    let investorToken: string;
+
+    beforeEach(async () => {
+      db.run(`
+        INSERT INTO users (uid, email, wallet_address, role)
+        VALUES ('investor-user', 'investor@chainequity.com', '0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc', 'investor')
+      `);
+      db.run(`
+        INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+        VALUES (1, 'Acme', 31337, '0x1234567890123456789012345678901234567890', '0x2222222222222222222222222222222222222222', 0)
+      `);
+      investorToken = createSession(db, {
+        uid: "investor-user",
+        walletAddress: "0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+        chainId: 31337,
+        ttlSeconds: 3600,
+      }).token;
+
+      app = Fastify({ logger: false });
+      await app.register(
+        async (scoped: FastifyInstance) => {
+          scoped.addHook("onRequest", resolveCompany);
+          await scoped.register(shareholdersRoutes);
+        },
+        { prefix: "/api/companies/:companyId" }
+      );
+      await app.register(walletRoutes, { prefix: "/api" });
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    it("returns 403 to investors on every issuer endpoint", async () => {
+      for (const url of ISSUER_ROUTES) {
+        const response = await app.inject({
+          method: "GET",
+          url,
+          headers: { authorization: `Bearer ${investorToken}` },
+        });
+
+        // Company routes also name the on-chain role that grants them
+        const onchain = url.startsWith("/api/companies/") ? " (or on-chain: COMPLIANCE_ROLE)" : "";
+        expect(response.statusCode).toBe(403);
+        expect(JSON.parse(response.body)).toEqual({
+          error: "Forbidden",
+          message: `This action requires one of the following roles: issuer, admin${onchain}`,
+        });
+      }
+    });
+
+    it("returns 401 without a session", async () => {
+      for (const url of ISSUER_ROUTES) {
+        const response = await app.inject({ method: "GET", url });
+        expect(response.statusCode).toBe(401);
+      }
+    });
+
+    it("lets issuers through", async () => {
+      for (const url of ISSUER_ROUTES) {
+        const response = await app.inject({
+          method: "GET",
+          url,
+          headers: { authorization: `Bearer ${token}` },
+        });
+
+        expect(response.statusCode).toBe(200);
+      }
+    });
+
+    it("applies role changes on the next request", async () => {
+      db.run("UPDATE users SET role = 'issuer' WHERE uid = 'investor-user'");
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders/pending",
+        headers: { authorization: `Bearer ${investorToken}` },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).pending).toEqual([]);
+    });
+
+    function grantInvestor(roleHash: string, blockNumber: number): void {
+      recordRoleChange(db, 1, {
+        contractAddress: "0x2222222222222222222222222222222222222222",
+        roleHash,
+        account: "0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc",
+        sender: WALLET,
+        action: "GRANTED",
+        blockNumber,
+        blockTimestamp: null,
+        logIndex: 0,
+        txHash: null,
+      });
+    }
+
+    it("lets holders of the route's on-chain role through on their own company only", async () => {
+      db.run(`
+        INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+        VALUES (2, 'Other', 31337, '0x5555555555555555555555555555555555555555', '0x6666666666666666666666666666666666666666', 0)
+      `);
+      grantInvestor(ONCHAIN_ROLES.COMPLIANCE_ROLE, 10);
+
+      const statusOf = async (url: string) =>
+        (
+          await app.inject({
+            method: "GET",
+            url,
+            headers: { authorization: `Bearer ${investorToken}` },
+          })
+        ).statusCode;
+
+      expect(await statusOf("/api/companies/1/shareholders/pending")).toBe(200);
+      expect(await statusOf("/api/companies/2/shareholders/pending")).toBe(403);
+      expect(await statusOf("/api/wallet/investors")).toBe(403);
+    });
+
+    it("returns 403 to holders of other on-chain roles", async () => {
+      grantInvestor(ONCHAIN_ROLES.PAUSER_ROLE, 10);
+      grantInvestor(ONCHAIN_ROLES.MINTER_ROLE, 11);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders/pending",
+        headers: { authorization: `Bearer ${investorToken}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it("returns 403 once the token holding the role is replaced", async () => {
+      grantInvestor(ONCHAIN_ROLES.COMPLIANCE_ROLE, 10);
+      recordTokenReplacement(db, 1, {
+        oldToken: "0x2222222222222222222222222222222222222222",
+        newToken: "0x7777777777777777777777777777777777777777",
+        migrationBlock: 15,
+        blockNumber: 20,
+        blockTimestamp: null,
+        logIndex: 1,
+        txHash: null,
+      });
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders/pending",
+        headers: { authorization: `Bearer ${investorToken}` },
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
 });
@@ -0,0 +1,88 @@
+/**
+ * @file Tests for company scope middleware
+ * @notice Validates resolveCompany attaches registered companies and 404s unknown company ids
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+import { resolveCompany, getRequestCompany } from "../../middleware/company";
+
+describe("Company Scope Middleware", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    testDbInstance = db;
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xc1', '0xt1', 0), (2, 'Globex', 31337, '0xc2', '0xt2', 0)
+    `);
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", resolveCompany);
+        scoped.get("/name", async (request: FastifyRequest) => ({
+          name: getRequestCompany(request).name,
+        }));
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+    app.get("/api/unscoped", async (request: FastifyRequest) => ({
+      name: getRequestCompany(request).name,
+    }));
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  it("attaches the company named by the route parameter", async () => {
+    const acme = await app.inject({ method: "GET", url: "/api/companies/1/name" });
+    const globex = await app.inject({ method: "GET", url: "/api/companies/2/name" });
+
+    expect(JSON.parse(acme.body)).toEqual({ name: "Acme" });
+    expect(JSON.parse(globex.body)).toEqual({ name: "Globex" });
+  });
+
+  it("returns 404 for unknown or malformed company ids", async () => {
+    for (const id of ["3", "0", "abc", "1.5"]) {
+      const response = await app.inject({
+        method: "GET",
+        url: `/api/companies/${id}/name`,
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(JSON.parse(response.body)).toEqual({
+        error: "Company not found",
+        message: `No company registered with id ${id}`,
+      });
+    }
+  });
+
+  it("fails routes that read the company outside the company scope", async () => {
+    const response = await app.inject({ method: "GET", url: "/api/unscoped" });
+
+    expect(response.statusCode).toBe(500);
+  });
+});
@@ -1,7 +1,10 @@
 /**
  * @file Contract address and ABI configuration loader
- * @notice Centralizes contract metadata (addresses + ABIs) for indexer and API use
- * @notice Loads contract addresses from environment variables or deployments.json fallback
+ * @notice Centralizes contract metadata (deployments + ABIs) for indexer and API use
+ * @notice Loads every company deployed on the configured chain from deployments.json, or a
+ *         single company from environment variables
+ * @notice Companies created later through CapTableFactory are discovered by the indexer from the
+ *         factory's CompanyCreated events (see services/chain/indexer.ts)
  */
 
 import { readFileSync } from "fs";
@@ -21,19 +24,50 @@ interface DeploymentJson {
       };
     };
   };
+  factories?: {
+    [chainId: string]: string;
+  };
+}
+
+/**
+ * A CapTable/token pair deployed for one company
+ */
+export interface CompanyDeployment {
+  name: string; // Company key in deployments.json (or COMPANY_NAME)
+  capTable: `0x${string}`;
+  token: `0x${string}`; // Originally deployed token
 }
 
 /**
- * Get contract address from environment variable or deployments.json fallback
+ * Chain the deployments are read for
+ */
+export const CHAIN_ID = Number(process.env.CHAIN_ID) || 31337;
+
+/**
+ * Load every company deployment for a chain
+ * CAPTABLE_ADDRESS and TOKEN_ADDRESS, when both set, replace deployments.json with a single
+ * company named COMPANY_NAME
  */
-function getContractAddress(
-  envVar: string | undefined,
+function loadDeployments(
   deploymentsPath: string,
-  contractType: "capTable" | "token"
-): string {
-  // First try environment variable
-  if (envVar) {
-    return envVar;
+  chainId: number
+): CompanyDeployment[] {
+  // First try environment variables
+  const envCapTable = process.env.CAPTABLE_ADDRESS;
+  const envToken = process.env.TOKEN_ADDRESS;
+  if (envCapTable || envToken) {
+    if (!envCapTable || !envToken) {
+      throw new Error(
+        "CAPTABLE_ADDRESS and TOKEN_ADDRESS must be set together"
+      );
+    }
+    return [
+      {
+        name: process.env.COMPANY_NAME || "Default",
+        capTable: envCapTable as `0x${string}`,
+        token: envToken as `0x${string}`,
+      },
+    ];
   }
 
   // Fallback to deployments.json
@@ -45,7 +79,7 @@ function getContractAddress(
   } catch (error: any) {
     throw new Error(
       `Failed to load deployments.json from ${deploymentsPath}: ${error.message}. ` +
-        `Make sure contracts have been deployed and exports generated, or set ${contractType.toUpperCase()}_ADDRESS environment variable.`
+        `Make sure contracts have been deployed and exports generated, or set CAPTABLE_ADDRESS and TOKEN_ADDRESS environment variables.`
     );
   }
 
@@ -56,29 +90,57 @@ function getContractAddress(
     );
   }
 
-  const defaultChainId = "31337"; // Local Anvil network
-  const networkData = deploymentData.networks[defaultChainId];
+  const networkData = deploymentData.networks[String(chainId)];
+  if (!networkData && deploymentData.factories?.[String(chainId)]) {
+    // Every company on this chain is created through the factory
+    return [];
+  }
   if (!networkData) {
     throw new Error(
-      `No deployment found for chainId ${defaultChainId}. ` +
+      `No deployment found for chainId ${chainId}. ` +
         `Available chainIds: ${Object.keys(deploymentData.networks).join(", ")}`
     );
   }
 
-  const companyData = networkData["AcmeInc"];
-  if (!companyData) {
-    throw new Error(
-      `No deployment found for company "AcmeInc" on chainId ${defaultChainId}. ` +
-        `Available companies: ${Object.keys(networkData).join(", ")}`
-    );
-  }
+  return Object.entries(networkData).map(([name, companyData]) => {
+    for (const contractType of ["capTable", "token"] as const) {
+      const address = companyData[contractType];
+      if (!address || address.length === 0) {
+        throw new Error(
+          `Invalid ${contractType} address for company "${name}": address is empty`
+        );
+      }
+    }
+    return {
+      name,
+      capTable: companyData.capTable as `0x${string}`,
+      token: companyData.token as `0x${string}`,
+    };
+  });
+}
 
-  const address = companyData[contractType];
-  if (!address || address.length === 0) {
-    throw new Error(`Invalid ${contractType} address: address is empty`);
+/**
+ * Load the CapTableFactory address for a chain
+ * FACTORY_ADDRESS replaces deployments.json; without either, factory discovery is disabled
+ */
+function loadFactoryAddress(
+  deploymentsPath: string,
+  chainId: number
+): `0x${string}` | null {
+  if (process.env.FACTORY_ADDRESS) {
+    return process.env.FACTORY_ADDRESS as `0x${string}`;
   }
 
-  return address;
+  try {
+    const deploymentData: DeploymentJson = JSON.parse(
+      readFileSync(deploymentsPath, "utf-8")
+    );
+    const address = deploymentData.factories?.[String(chainId)];
+    return address ? (address as `0x${string}`) : null;
+  } catch {
+    // Missing or invalid deployments.json is reported by loadDeployments
+    return null;
+  }
 }
 
 /**
@@ -118,44 +180,46 @@ const deploymentsPath = join(
   "../../../contracts/exports/deployments.json"
 );
 
-// Load contract addresses (env vars or deployments.json fallback)
-const capTableAddress = getContractAddress(
-  process.env.CAPTABLE_ADDRESS,
-  deploymentsPath,
-  "capTable"
-);
-
-const tokenAddress = getContractAddress(
-  process.env.TOKEN_ADDRESS,
-  deploymentsPath,
-  "token"
-);
+/**
+ * Company deployments registered at startup (see services/db/companies.ts)
+ */
+export const DEPLOYMENTS = loadDeployments(deploymentsPath, CHAIN_ID);
 
-// Load ABIs
-const capTableAbi = loadAbi("CapTable");
-const tokenAbi = loadAbi("ChainEquityToken");
+/**
+ * CapTableFactory the indexer discovers new companies from (null if none is deployed)
+ */
+export const FACTORY_ADDRESS = loadFactoryAddress(deploymentsPath, CHAIN_ID);
 
 /**
- * Centralized contract metadata configuration
- * Contains both addresses and ABIs for easy access throughout the application
+ * Load the events of ModularCompliance and the built-in compliance modules as one ABI
+ * Their configuration events are fetched by token topic from any emitter, so they are decoded
+ * without knowing which contract emitted them (OwnershipTransferred is left out: it carries no
+ * token and is shared with the token's ABI)
  */
-export const CONTRACTS = {
-  capTable: {
-    address: capTableAddress as `0x${string}`,
-    abi: capTableAbi,
-  },
-  token: {
-    address: tokenAddress as `0x${string}`,
-    abi: tokenAbi,
-  },
-} as const;
+function loadComplianceEventsAbi(): Abi {
+  const events = new Map<string, Abi[number]>();
+  for (const abiName of [
+    "ModularCompliance",
+    "MaxHoldersModule",
+    "MaxOwnershipModule",
+    "CountryRestrictionModule",
+    "AccreditedInvestorModule",
+  ]) {
+    for (const item of loadAbi(abiName)) {
+      if (item.type === "event" && item.name !== "OwnershipTransferred") {
+        events.set(item.name, item);
+      }
+    }
+  }
+  return [...events.values()];
+}
 
 /**
- * Legacy export for backward compatibility
- * @deprecated Use CONTRACTS instead
+ * Contract ABIs shared by every company
  */
-export const contracts = {
-  chainId: "31337",
-  capTableAddress: capTableAddress,
-  tokenAddress: tokenAddress,
+export const ABIS = {
+  capTable: loadAbi("CapTable"),
+  token: loadAbi("ChainEquityToken"),
+  factory: loadAbi("CapTableFactory"),
+  compliance: loadComplianceEventsAbi(),
 } as const;
@@ -0,0 +1,143 @@
+/**
+ * @file Tests for the migration runner
+ * @notice Validates upgrades of databases created by earlier schema versions
+ */
+
+import { describe, it, expect, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate, getVersion, setVersion, SCHEMA_VERSION } from "../migrations";
+import { ROLE_HISTORY_TABLE_SCHEMA, TRANSACTIONS_TABLE_SCHEMA } from "../schema";
+
+describe("Migrations", () => {
+  let db: Database;
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("widens the transactions event_type CHECK on databases from before 1.7.0", () => {
+    db = new Database(":memory:");
+    migrate(db);
+
+    // Recreate the 1.6.0 transactions table, which only allowed ISSUED and TRANSFER
+    db.exec("DROP TABLE transactions");
+    db.exec(
+      TRANSACTIONS_TABLE_SCHEMA.replace(",'REDEEMED','FORCED_TRANSFER','WALLET_RECOVERY'", "")
+    );
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme Inc.', 31337, '0x1111111111111111111111111111111111111111', '0x2222222222222222222222222222222222222222', 0)
+    `);
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES (1, '0x01', NULL, '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', '1000', 10, 1000, 0, 'ISSUED')
+    `);
+    setVersion(db, "1.6.0");
+
+    migrate(db);
+
+    expect(getVersion(db)).toBe(SCHEMA_VERSION);
+    expect(db.prepare("SELECT COUNT(*) AS count FROM transactions").get()).toEqual({ count: 1 });
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES (1, '0x02', '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', NULL, '400', 20, 2000, 0, 'REDEEMED')
+    `);
+
+    const indexes = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'transactions' AND name LIKE 'idx_%'")
+      .all();
+    expect(indexes).toHaveLength(7);
+  });
+
+  it("allows forced transfer event types on databases from before 1.14.0", () => {
+    db = new Database(":memory:");
+    migrate(db);
+
+    // Recreate the 1.13.0 transactions table with its indexes
+    db.exec("DROP TABLE transactions");
+    db.exec(TRANSACTIONS_TABLE_SCHEMA.replace(",'FORCED_TRANSFER','WALLET_RECOVERY'", ""));
+    setVersion(db, "1.13.0");
+
+    migrate(db);
+
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme Inc.', 31337, '0x1111111111111111111111111111111111111111', '0x2222222222222222222222222222222222222222', 0)
+    `);
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES (1, '0x03', '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', '400', 30, 3000, 0, 'WALLET_RECOVERY')
+    `);
+
+    // Every index, including the company/block index, is recreated on the new table
+    const indexes = db
+      .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'transactions' AND name LIKE 'idx_%'")
+      .all();
+    expect(indexes).toHaveLength(7);
+  });
+
+  it("widens the role_history unique key on databases from before 1.19.0", () => {
+    db = new Database(":memory:");
+    migrate(db);
+
+    // Recreate the 1.18.0 role_history table, unique by log position only
+    db.exec("DROP TABLE role_history");
+    db.exec(
+      ROLE_HISTORY_TABLE_SCHEMA.replace(
+        "UNIQUE(company_id, block_number, log_index, contract_address, role_hash, account)",
+        "UNIQUE(company_id, block_number, log_index)"
+      )
+    );
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme Inc.', 31337, '0x1111111111111111111111111111111111111111', '0x2222222222222222222222222222222222222222', 0)
+    `);
+    const insertRole = (account: string) =>
+      db.run(`
+        INSERT INTO role_history (company_id, contract_address, role_hash, role_name, account, sender, action, block_number, block_timestamp, log_index, tx_hash)
+        VALUES (1, '0x2222222222222222222222222222222222222222', '0x00', 'DEFAULT_ADMIN_ROLE', '${account}', '0x1111111111111111111111111111111111111111', 'REVOKED', 20, 2000, 1, '0x20')
+      `);
+    insertRole("0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa");
+    setVersion(db, "1.18.0");
+
+    migrate(db);
+
+    expect(getVersion(db)).toBe(SCHEMA_VERSION);
+    insertRole("0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb");
+    expect(db.prepare("SELECT COUNT(*) AS count FROM role_history").get()).toEqual({ count: 2 });
+    expect(
+      db
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND name = 'idx_role_history_account'")
+        .all()
+    ).toHaveLength(1);
+  });
+
+  it("drops indexed tables from before 1.9.0 so they are re-indexed per company", () => {
+    db = new Database(":memory:");
+
+    // The 1.8.0 shareholders table and indexer state were global
+    db.exec(`
+      CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+      CREATE TABLE shareholders (
+        address TEXT PRIMARY KEY,
+        balance TEXT NOT NULL,
+        effective_balance TEXT NOT NULL,
+        last_updated_block INTEGER NOT NULL
+      );
+      INSERT INTO shareholders VALUES ('0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', '1000', '1000', 10);
+      INSERT INTO meta VALUES ('last_indexed_block', '10'), ('indexer_version', '1.0.0');
+    `);
+    setVersion(db, "1.8.0");
+
+    migrate(db);
+
+    expect(getVersion(db)).toBe(SCHEMA_VERSION);
+    expect(db.prepare("SELECT COUNT(*) AS count FROM shareholders").get()).toEqual({ count: 0 });
+    const columns = db.prepare("PRAGMA table_info(shareholders)").all() as { name: string }[];
+    expect(columns.map((column) => column.name)).toContain("company_id");
+    expect(db.prepare("SELECT key FROM meta ORDER BY key").all()).toEqual([
+      { key: "indexer_version" },
+      { key: "schema_version" },
+    ]);
+  });
+});
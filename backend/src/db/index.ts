@@ -14,11 +14,29 @@ import { Database } from "bun:sqlite";
 import { join, dirname } from "path";
 import { mkdirSync } from "fs";
 import type {
+  CompanyRecord,
   UserRecord,
   ShareholderRecord,
   TransactionRecord,
   CorporateActionRecord,
   EventRecord,
+  BalanceChangeRecord,
+  SplitHistoryRecord,
+  AllowlistHistoryRecord,
+  SymbolHistoryRecord,
+  TransferRestrictionHistoryRecord,
+  TokenVersionRecord,
+  ShareClassRecord,
+  ShareClassBalanceChangeRecord,
+  VestingGrantRecord,
+  LockupHistoryRecord,
+  ComplianceConfigRecord,
+  ForcedTransferRecord,
+  PauseChangeRecord,
+  AuthorizedSharesChangeRecord,
+  AllowlistRootChangeRecord,
+  RoleChangeRecord,
+  IndexedBlockRecord,
   MetaRecord,
 } from "./schema";
 
@@ -155,6 +173,26 @@ export function getDatabase(): Database {
 // Type-safe row mapping helpers
 // These prevent silent mismatches when schema evolves
 
+/**
+ * Map database row to CompanyRecord
+ */
+export function asCompanyRecord(row: unknown): CompanyRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: Number(r.id),
+    name: String(r.name),
+    chainId: Number(r.chain_id),
+    capTableAddress: String(r.cap_table_address),
+    tokenAddress: String(r.token_address),
+    lastIndexedBlock:
+      r.last_indexed_block !== null && r.last_indexed_block !== undefined
+        ? Number(r.last_indexed_block)
+        : null,
+    lastReorg: r.last_reorg ? String(r.last_reorg) : null,
+    createdAt: Number(r.created_at),
+  };
+}
+
 /**
  * Map database row to UserRecord
  */
@@ -197,7 +235,7 @@ export function asTransactionRecord(row: unknown): TransactionRecord {
     blockNumber: Number(r.block_number),
     blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
     logIndex: Number(r.log_index),
-    eventType: r.event_type as "ISSUED" | "TRANSFER",
+    eventType: r.event_type as "ISSUED" | "TRANSFER" | "REDEEMED",
   };
 }
 
@@ -236,6 +274,312 @@ export function asEventRecord(row: unknown): EventRecord {
   };
 }
 
+/**
+ * Map database row to BalanceChangeRecord
+ */
+export function asBalanceChangeRecord(row: unknown): BalanceChangeRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    address: String(r.address),
+    delta: String(r.delta),
+    balanceAfter: String(r.balance_after),
+    changeType: r.change_type as BalanceChangeRecord["changeType"],
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to SplitHistoryRecord
+ */
+export function asSplitHistoryRecord(row: unknown): SplitHistoryRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    oldFactor: String(r.old_factor),
+    newFactor: String(r.new_factor),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to AllowlistHistoryRecord
+ */
+export function asAllowlistHistoryRecord(row: unknown): AllowlistHistoryRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    walletAddress: String(r.wallet_address),
+    issuerAddress: r.issuer_address ? String(r.issuer_address) : null,
+    approved: Number(r.approved) === 1,
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to SymbolHistoryRecord
+ */
+export function asSymbolHistoryRecord(row: unknown): SymbolHistoryRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    oldSymbol: r.old_symbol ? String(r.old_symbol) : null,
+    newSymbol: String(r.new_symbol),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to TransferRestrictionHistoryRecord
+ */
+export function asTransferRestrictionHistoryRecord(
+  row: unknown
+): TransferRestrictionHistoryRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    restricted: Number(r.restricted) === 1,
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to TokenVersionRecord
+ */
+export function asTokenVersionRecord(row: unknown): TokenVersionRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    tokenAddress: String(r.token_address),
+    previousTokenAddress: String(r.previous_token_address),
+    migrationBlock: Number(r.migration_block),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to ShareClassRecord
+ */
+export function asShareClassRecord(row: unknown): ShareClassRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    classId: Number(r.class_id),
+    name: String(r.name),
+    tokenAddress: String(r.token_address),
+    authorizedShares: String(r.authorized_shares),
+    liquidationPreference: String(r.liquidation_preference),
+    conversionRatio: String(r.conversion_ratio),
+    seniority: Number(r.seniority),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to ShareClassBalanceChangeRecord
+ */
+export function asShareClassBalanceChangeRecord(
+  row: unknown
+): ShareClassBalanceChangeRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    ...asBalanceChangeRecord(row),
+    classId: Number(r.class_id),
+  };
+}
+
+/**
+ * Map database row (vesting_grants joined with vesting_grant_revocations) to VestingGrantRecord
+ */
+export function asVestingGrantRecord(row: unknown): VestingGrantRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    tokenAddress: String(r.token_address),
+    grantId: Number(r.grant_id),
+    beneficiary: String(r.beneficiary),
+    amount: String(r.amount),
+    startTime: Number(r.start_time),
+    cliffDuration: Number(r.cliff_duration),
+    duration: Number(r.duration),
+    releaseInterval: Number(r.release_interval),
+    revokedAt: r.revoked_at != null ? Number(r.revoked_at) : null,
+    vestedAtRevocation: r.vested_amount != null ? String(r.vested_amount) : null,
+    clawedBackAmount:
+      r.clawed_back_amount != null ? String(r.clawed_back_amount) : null,
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to LockupHistoryRecord
+ */
+export function asLockupHistoryRecord(row: unknown): LockupHistoryRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    tokenAddress: String(r.token_address),
+    lockupType: r.lockup_type as LockupHistoryRecord["lockupType"],
+    wallet: r.wallet ? String(r.wallet) : null,
+    value: Number(r.value),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to ComplianceConfigRecord
+ */
+export function asComplianceConfigRecord(row: unknown): ComplianceConfigRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    tokenAddress: String(r.token_address),
+    contractAddress: String(r.contract_address),
+    configType: r.config_type as ComplianceConfigRecord["configType"],
+    complianceAddress: r.compliance_address ? String(r.compliance_address) : null,
+    moduleAddress: r.module_address ? String(r.module_address) : null,
+    moduleName: r.module_name ? String(r.module_name) : null,
+    wallet: r.wallet ? String(r.wallet) : null,
+    country: r.country ? String(r.country) : null,
+    value: r.value !== null && r.value !== undefined ? Number(r.value) : null,
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to ForcedTransferRecord
+ */
+export function asForcedTransferRecord(row: unknown): ForcedTransferRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    tokenAddress: String(r.token_address),
+    transferType: r.transfer_type as ForcedTransferRecord["transferType"],
+    fromAddress: String(r.from_address),
+    toAddress: String(r.to_address),
+    amount: String(r.amount),
+    reasonCode: Number(r.reason_code),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to PauseChangeRecord
+ */
+export function asPauseChangeRecord(row: unknown): PauseChangeRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    tokenAddress: String(r.token_address),
+    paused: Number(r.paused) === 1,
+    account: String(r.account),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to AuthorizedSharesChangeRecord
+ */
+export function asAuthorizedSharesChangeRecord(row: unknown): AuthorizedSharesChangeRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    tokenAddress: String(r.token_address),
+    oldAuthorized: r.old_authorized ? String(r.old_authorized) : null,
+    newAuthorized: String(r.new_authorized),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to AllowlistRootChangeRecord
+ */
+export function asAllowlistRootChangeRecord(row: unknown): AllowlistRootChangeRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    tokenAddress: String(r.token_address),
+    oldRoot: String(r.old_root),
+    newRoot: String(r.new_root),
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to RoleChangeRecord
+ */
+export function asRoleChangeRecord(row: unknown): RoleChangeRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    id: r.id ? Number(r.id) : undefined,
+    contractAddress: String(r.contract_address),
+    roleHash: String(r.role_hash),
+    roleName: r.role_name ? String(r.role_name) : null,
+    account: String(r.account),
+    sender: String(r.sender),
+    action: r.action as RoleChangeRecord["action"],
+    blockNumber: Number(r.block_number),
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+    logIndex: Number(r.log_index),
+    txHash: r.tx_hash ? String(r.tx_hash) : null,
+  };
+}
+
+/**
+ * Map database row to IndexedBlockRecord
+ */
+export function asIndexedBlockRecord(row: unknown): IndexedBlockRecord {
+  const r = row as Record<string, unknown>;
+  return {
+    blockNumber: Number(r.block_number),
+    blockHash: String(r.block_hash),
+    parentHash: r.parent_hash ? String(r.parent_hash) : null,
+    blockTimestamp: r.block_timestamp ? Number(r.block_timestamp) : null,
+  };
+}
+
 /**
  * Map database row to MetaRecord
  */
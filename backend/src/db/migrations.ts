@@ -5,11 +5,35 @@
 
 import { Database } from "bun:sqlite";
 import {
+  COMPANIES_TABLE_SCHEMA,
   USERS_TABLE_SCHEMA,
   SHAREHOLDERS_TABLE_SCHEMA,
   TRANSACTIONS_TABLE_SCHEMA,
   CORPORATE_ACTIONS_TABLE_SCHEMA,
   EVENTS_TABLE_SCHEMA,
+  BALANCE_CHANGES_TABLE_SCHEMA,
+  SPLIT_HISTORY_TABLE_SCHEMA,
+  SNAPSHOT_CHECKPOINTS_TABLE_SCHEMA,
+  ALLOWLIST_HISTORY_TABLE_SCHEMA,
+  SYMBOL_HISTORY_TABLE_SCHEMA,
+  TRANSFER_RESTRICTION_HISTORY_TABLE_SCHEMA,
+  TOKEN_VERSIONS_TABLE_SCHEMA,
+  SHARE_CLASSES_TABLE_SCHEMA,
+  SHARE_CLASS_BALANCE_CHANGES_TABLE_SCHEMA,
+  VESTING_GRANTS_TABLE_SCHEMA,
+  VESTING_GRANT_REVOCATIONS_TABLE_SCHEMA,
+  LOCKUP_HISTORY_TABLE_SCHEMA,
+  COMPLIANCE_CONFIG_HISTORY_TABLE_SCHEMA,
+  FORCED_TRANSFER_HISTORY_TABLE_SCHEMA,
+  PAUSE_HISTORY_TABLE_SCHEMA,
+  AUTHORIZED_SHARES_HISTORY_TABLE_SCHEMA,
+  ALLOWLIST_ROOT_HISTORY_TABLE_SCHEMA,
+  ROLE_HISTORY_TABLE_SCHEMA,
+  INDEXED_BLOCKS_TABLE_SCHEMA,
+  AUTH_TABLE_SCHEMA,
+  KYC_TABLE_SCHEMA,
+  RECOVERY_TABLE_SCHEMA,
+  ALLOWLIST_TREES_TABLE_SCHEMA,
   META_TABLE_SCHEMA,
 } from "./schema";
 
@@ -17,7 +41,7 @@ import {
  * Current schema version
  * Increment this when making schema changes
  */
-export const SCHEMA_VERSION = "1.0.0";
+export const SCHEMA_VERSION = "1.19.0";
 
 /**
  * Get current schema version from meta table
@@ -47,6 +71,111 @@ export function setVersion(db: Database, version: string): void {
   stmt.run("schema_version", version);
 }
 
+/**
+ * Tables holding data indexed from a company's contracts, in drop order
+ */
+const COMPANY_SCOPED_TABLES = [
+  "indexed_blocks",
+  "role_history",
+  "allowlist_root_history",
+  "authorized_shares_history",
+  "pause_history",
+  "forced_transfer_history",
+  "compliance_config_history",
+  "lockup_history",
+  "vesting_grant_revocations",
+  "vesting_grants",
+  "share_class_balance_changes",
+  "share_classes",
+  "token_versions",
+  "transfer_restriction_history",
+  "symbol_history",
+  "allowlist_history",
+  "checkpoint_balances",
+  "snapshot_checkpoints",
+  "split_history",
+  "balance_changes",
+  "events",
+  "corporate_actions",
+  "transactions",
+  "shareholders",
+];
+
+/**
+ * Drop indexed tables created before they were scoped by company
+ * Their rows are derived from chain events, so the indexer rebuilds them per company
+ * from START_BLOCK once the companies are registered
+ * @param db SQLite database instance (inside the migration transaction)
+ */
+function upgradeCompanyScopedTables(db: Database): void {
+  const table = db
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'shareholders'")
+    .get() as { sql: string } | null;
+
+  if (!table || table.sql.includes("company_id")) {
+    return;
+  }
+
+  // Dropping a table drops its indexes too
+  for (const name of COMPANY_SCOPED_TABLES) {
+    db.exec(`DROP TABLE IF EXISTS ${name}`);
+  }
+  db.exec("DELETE FROM meta WHERE key IN ('last_indexed_block', 'last_reorg')");
+}
+
+/**
+ * Rebuild a transactions table created before the current event_type values were allowed
+ * (REDEEMED, then FORCED_TRANSFER and WALLET_RECOVERY)
+ * SQLite cannot alter a CHECK constraint in place, so rows are copied into a fresh table
+ * @param db SQLite database instance (inside the migration transaction)
+ */
+function upgradeTransactionsEventTypes(db: Database): void {
+  const table = db
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'transactions'")
+    .get() as { sql: string } | null;
+
+  if (!table || table.sql.includes("'WALLET_RECOVERY'")) {
+    return;
+  }
+
+  db.exec("ALTER TABLE transactions RENAME TO transactions_old");
+  // Indexes follow the renamed table, so drop them before recreating on the new one
+  db.exec(`
+    DROP INDEX IF EXISTS idx_transactions_tx_hash;
+    DROP INDEX IF EXISTS idx_transactions_from_address;
+    DROP INDEX IF EXISTS idx_transactions_to_address;
+    DROP INDEX IF EXISTS idx_transactions_block_number;
+    DROP INDEX IF EXISTS idx_transactions_company_block;
+    DROP INDEX IF EXISTS idx_transactions_event_type;
+    DROP INDEX IF EXISTS idx_transactions_block_timestamp;
+    DROP INDEX IF EXISTS idx_transactions_from_to;
+  `);
+  db.exec(TRANSACTIONS_TABLE_SCHEMA);
+  db.exec("INSERT INTO transactions SELECT * FROM transactions_old");
+  db.exec("DROP TABLE transactions_old");
+}
+
+/**
+ * Rebuild a role_history table created before 1.19.0, whose unique key was the log position
+ * only: revocations written when a token is replaced share the TokenReplaced log position
+ * @param db SQLite database instance (inside the migration transaction)
+ */
+function upgradeRoleHistoryKey(db: Database): void {
+  const table = db
+    .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'role_history'")
+    .get() as { sql: string } | null;
+
+  if (!table || table.sql.includes("role_hash, account)")) {
+    return;
+  }
+
+  db.exec("ALTER TABLE role_history RENAME TO role_history_old");
+  db.exec("DROP INDEX IF EXISTS idx_role_history_account");
+  db.exec(ROLE_HISTORY_TABLE_SCHEMA);
+  db.exec("INSERT INTO role_history SELECT * FROM role_history_old");
+  db.exec("DROP TABLE role_history_old");
+}
+
 /**
  * Run all migrations (create all tables) - ATOMIC
  * Idempotent: safe to call multiple times
@@ -63,11 +192,38 @@ export function up(db: Database): void {
     db.exec(META_TABLE_SCHEMA);
 
     // Create all other tables
+    db.exec(COMPANIES_TABLE_SCHEMA);
+    upgradeCompanyScopedTables(db);
     db.exec(USERS_TABLE_SCHEMA);
     db.exec(SHAREHOLDERS_TABLE_SCHEMA);
+    upgradeTransactionsEventTypes(db);
     db.exec(TRANSACTIONS_TABLE_SCHEMA);
     db.exec(CORPORATE_ACTIONS_TABLE_SCHEMA);
     db.exec(EVENTS_TABLE_SCHEMA);
+    db.exec(BALANCE_CHANGES_TABLE_SCHEMA);
+    db.exec(SPLIT_HISTORY_TABLE_SCHEMA);
+    db.exec(SNAPSHOT_CHECKPOINTS_TABLE_SCHEMA);
+    db.exec(ALLOWLIST_HISTORY_TABLE_SCHEMA);
+    db.exec(SYMBOL_HISTORY_TABLE_SCHEMA);
+    db.exec(TRANSFER_RESTRICTION_HISTORY_TABLE_SCHEMA);
+    db.exec(TOKEN_VERSIONS_TABLE_SCHEMA);
+    db.exec(SHARE_CLASSES_TABLE_SCHEMA);
+    db.exec(SHARE_CLASS_BALANCE_CHANGES_TABLE_SCHEMA);
+    db.exec(VESTING_GRANTS_TABLE_SCHEMA);
+    db.exec(VESTING_GRANT_REVOCATIONS_TABLE_SCHEMA);
+    db.exec(LOCKUP_HISTORY_TABLE_SCHEMA);
+    db.exec(COMPLIANCE_CONFIG_HISTORY_TABLE_SCHEMA);
+    db.exec(FORCED_TRANSFER_HISTORY_TABLE_SCHEMA);
+    db.exec(PAUSE_HISTORY_TABLE_SCHEMA);
+    db.exec(AUTHORIZED_SHARES_HISTORY_TABLE_SCHEMA);
+    db.exec(ALLOWLIST_ROOT_HISTORY_TABLE_SCHEMA);
+    upgradeRoleHistoryKey(db);
+    db.exec(ROLE_HISTORY_TABLE_SCHEMA);
+    db.exec(INDEXED_BLOCKS_TABLE_SCHEMA);
+    db.exec(AUTH_TABLE_SCHEMA);
+    db.exec(KYC_TABLE_SCHEMA);
+    db.exec(RECOVERY_TABLE_SCHEMA);
+    db.exec(ALLOWLIST_TREES_TABLE_SCHEMA);
 
     // Set schema version
     setVersion(db, SCHEMA_VERSION);
@@ -92,11 +248,39 @@ export function down(db: Database): void {
   db.exec("BEGIN TRANSACTION");
 
   try {
+    db.exec("DROP TABLE IF EXISTS allowlist_trees");
+    db.exec("DROP TABLE IF EXISTS recovery_request_transitions");
+    db.exec("DROP TABLE IF EXISTS recovery_requests");
+    db.exec("DROP TABLE IF EXISTS kyc_request_transitions");
+    db.exec("DROP TABLE IF EXISTS kyc_requests");
+    db.exec("DROP TABLE IF EXISTS auth_sessions");
+    db.exec("DROP TABLE IF EXISTS auth_nonces");
+    db.exec("DROP TABLE IF EXISTS indexed_blocks");
+    db.exec("DROP TABLE IF EXISTS role_history");
+    db.exec("DROP TABLE IF EXISTS allowlist_root_history");
+    db.exec("DROP TABLE IF EXISTS authorized_shares_history");
+    db.exec("DROP TABLE IF EXISTS pause_history");
+    db.exec("DROP TABLE IF EXISTS forced_transfer_history");
+    db.exec("DROP TABLE IF EXISTS compliance_config_history");
+    db.exec("DROP TABLE IF EXISTS lockup_history");
+    db.exec("DROP TABLE IF EXISTS vesting_grant_revocations");
+    db.exec("DROP TABLE IF EXISTS vesting_grants");
+    db.exec("DROP TABLE IF EXISTS share_class_balance_changes");
+    db.exec("DROP TABLE IF EXISTS share_classes");
+    db.exec("DROP TABLE IF EXISTS token_versions");
+    db.exec("DROP TABLE IF EXISTS transfer_restriction_history");
+    db.exec("DROP TABLE IF EXISTS symbol_history");
+    db.exec("DROP TABLE IF EXISTS allowlist_history");
+    db.exec("DROP TABLE IF EXISTS checkpoint_balances");
+    db.exec("DROP TABLE IF EXISTS snapshot_checkpoints");
+    db.exec("DROP TABLE IF EXISTS split_history");
+    db.exec("DROP TABLE IF EXISTS balance_changes");
     db.exec("DROP TABLE IF EXISTS events");
     db.exec("DROP TABLE IF EXISTS corporate_actions");
     db.exec("DROP TABLE IF EXISTS transactions");
     db.exec("DROP TABLE IF EXISTS shareholders");
     db.exec("DROP TABLE IF EXISTS users");
+    db.exec("DROP TABLE IF EXISTS companies");
     db.exec("DROP TABLE IF EXISTS meta");
 
     db.exec("COMMIT");
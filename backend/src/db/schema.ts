@@ -6,7 +6,31 @@
  * Each on-chain event is uniquely identified by the (block_number, log_index) pair.
  * This forms the basis for idempotent indexing - events with the same (block_number, log_index)
  * are guaranteed to be the same event and can be safely deduplicated.
+ *
+ * @important Company Scope
+ * Every indexed table carries the company_id of the CapTable/token pair it was indexed from,
+ * and its keys are scoped by it. Users, auth and KYC tables are platform-wide.
+ */
+
+/**
+ * SQL schema for companies table
+ * Registry of CapTable/token pairs indexed by this deployment
+ * token_address is the originally deployed token; token_versions tracks replacements
+ * last_indexed_block and last_reorg hold the company's indexer state
  */
+export const COMPANIES_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS companies (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    cap_table_address TEXT NOT NULL,
+    token_address TEXT NOT NULL,
+    last_indexed_block INTEGER,
+    last_reorg TEXT,
+    created_at INTEGER NOT NULL,
+    UNIQUE(chain_id, cap_table_address)
+  );
+`;
 
 /**
  * SQL schema for users table
@@ -34,21 +58,23 @@ export const USERS_TABLE_SCHEMA = `
  */
 export const SHAREHOLDERS_TABLE_SCHEMA = `
   CREATE TABLE IF NOT EXISTS shareholders (
-    address TEXT PRIMARY KEY,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    address TEXT NOT NULL,
     balance TEXT NOT NULL,
     effective_balance TEXT NOT NULL,
-    last_updated_block INTEGER NOT NULL
+    last_updated_block INTEGER NOT NULL,
+    PRIMARY KEY (company_id, address)
   );
 
   CREATE INDEX IF NOT EXISTS idx_shareholders_address ON shareholders(address);
-  CREATE INDEX IF NOT EXISTS idx_shareholders_effective_balance ON shareholders(effective_balance);
-  CREATE INDEX IF NOT EXISTS idx_shareholders_last_updated_block ON shareholders(last_updated_block);
-  CREATE INDEX IF NOT EXISTS idx_shareholders_balance_eff ON shareholders(effective_balance DESC, balance DESC);
+  CREATE INDEX IF NOT EXISTS idx_shareholders_effective_balance ON shareholders(company_id, effective_balance);
+  CREATE INDEX IF NOT EXISTS idx_shareholders_last_updated_block ON shareholders(company_id, last_updated_block);
+  CREATE INDEX IF NOT EXISTS idx_shareholders_balance_eff ON shareholders(company_id, effective_balance DESC, balance DESC);
 `;
 
 /**
  * SQL schema for transactions table
- * Indexes all Transfer and Issued events from the token contract
+ * Indexes all Transfer, Issued and Redeemed events from the token contract
  * Stores transaction details for cap table history and analytics
  *
  * @note Relationships:
@@ -60,6 +86,7 @@ export const SHAREHOLDERS_TABLE_SCHEMA = `
 export const TRANSACTIONS_TABLE_SCHEMA = `
   CREATE TABLE IF NOT EXISTS transactions (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
     tx_hash TEXT NOT NULL,
     from_address TEXT,
     to_address TEXT,
@@ -67,8 +94,8 @@ export const TRANSACTIONS_TABLE_SCHEMA = `
     block_number INTEGER NOT NULL,
     block_timestamp INTEGER,
     log_index INTEGER NOT NULL,
-    event_type TEXT CHECK(event_type IN ('ISSUED','TRANSFER')) NOT NULL,
-    UNIQUE(block_number, log_index)
+    event_type TEXT CHECK(event_type IN ('ISSUED','TRANSFER','REDEEMED','FORCED_TRANSFER','WALLET_RECOVERY')) NOT NULL,
+    UNIQUE(company_id, block_number, log_index)
     -- Foreign key relationships (not enforced for performance):
     -- FOREIGN KEY (from_address) REFERENCES shareholders(address),
     -- FOREIGN KEY (to_address) REFERENCES shareholders(address)
@@ -77,7 +104,7 @@ export const TRANSACTIONS_TABLE_SCHEMA = `
   CREATE INDEX IF NOT EXISTS idx_transactions_tx_hash ON transactions(tx_hash);
   CREATE INDEX IF NOT EXISTS idx_transactions_from_address ON transactions(from_address);
   CREATE INDEX IF NOT EXISTS idx_transactions_to_address ON transactions(to_address);
-  CREATE INDEX IF NOT EXISTS idx_transactions_block_number ON transactions(block_number);
+  CREATE INDEX IF NOT EXISTS idx_transactions_company_block ON transactions(company_id, block_number, log_index);
   CREATE INDEX IF NOT EXISTS idx_transactions_event_type ON transactions(event_type);
   CREATE INDEX IF NOT EXISTS idx_transactions_block_timestamp ON transactions(block_timestamp);
   CREATE INDEX IF NOT EXISTS idx_transactions_from_to ON transactions(from_address, to_address);
@@ -94,18 +121,19 @@ export const TRANSACTIONS_TABLE_SCHEMA = `
 export const CORPORATE_ACTIONS_TABLE_SCHEMA = `
   CREATE TABLE IF NOT EXISTS corporate_actions (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
     action_type TEXT NOT NULL,
     data TEXT,
     block_number INTEGER NOT NULL,
     block_timestamp INTEGER,
     log_index INTEGER NOT NULL,
-    UNIQUE(block_number, log_index)
+    UNIQUE(company_id, block_number, log_index)
     -- Foreign key relationship (not enforced for performance):
-    -- FOREIGN KEY (block_number, log_index) REFERENCES events(block_number, log_index)
+    -- FOREIGN KEY (company_id, block_number, log_index) REFERENCES events(company_id, block_number, log_index)
   );
 
   CREATE INDEX IF NOT EXISTS idx_corporate_actions_action_type ON corporate_actions(action_type);
-  CREATE INDEX IF NOT EXISTS idx_corporate_actions_block_number ON corporate_actions(block_number);
+  CREATE INDEX IF NOT EXISTS idx_corporate_actions_company_block ON corporate_actions(company_id, block_number);
   CREATE INDEX IF NOT EXISTS idx_corporate_actions_block_timestamp ON corporate_actions(block_timestamp);
   CREATE INDEX IF NOT EXISTS idx_corporate_actions_log_index ON corporate_actions(log_index);
 `;
@@ -118,6 +146,7 @@ export const CORPORATE_ACTIONS_TABLE_SCHEMA = `
 export const EVENTS_TABLE_SCHEMA = `
   CREATE TABLE IF NOT EXISTS events (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
     event_type TEXT NOT NULL,
     contract_address TEXT NOT NULL,
     topics TEXT,
@@ -126,16 +155,624 @@ export const EVENTS_TABLE_SCHEMA = `
     log_index INTEGER NOT NULL,
     block_timestamp INTEGER,
     tx_hash TEXT,
-    UNIQUE(block_number, log_index)
+    UNIQUE(company_id, block_number, log_index)
   );
 
   CREATE INDEX IF NOT EXISTS idx_events_event_type ON events(event_type);
   CREATE INDEX IF NOT EXISTS idx_events_contract_address ON events(contract_address);
-  CREATE INDEX IF NOT EXISTS idx_events_block_number ON events(block_number);
+  CREATE INDEX IF NOT EXISTS idx_events_company_block ON events(company_id, block_number);
   CREATE INDEX IF NOT EXISTS idx_events_block_timestamp ON events(block_timestamp);
   CREATE INDEX IF NOT EXISTS idx_events_tx_hash ON events(tx_hash);
 `;
 
+/**
+ * SQL schema for balance_changes table
+ * Ledger of per-address balance deltas derived from Issued, Transfer and Redeemed events
+ * Shareholder balances are the running sum of this ledger, so indexing needs no contract reads
+ *
+ * @note change_type values: 'ISSUED', 'TRANSFER_IN', 'TRANSFER_OUT', 'REDEEMED', and 'MIGRATED'
+ * (closes every old-token balance when the token is replaced, positioned at the TokenReplaced log)
+ * @note The (company_id, block_number, log_index, address, change_type) unique constraint makes replays
+ * idempotent: a delta that is already in the ledger is never applied twice. change_type is part
+ * of the key so a self-transfer records both its outgoing and incoming leg.
+ */
+export const BALANCE_CHANGES_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS balance_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    address TEXT NOT NULL,
+    delta TEXT NOT NULL,
+    balance_after TEXT NOT NULL,
+    change_type TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index, address, change_type)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_balance_changes_address_block ON balance_changes(company_id, address, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS idx_balance_changes_block_number ON balance_changes(company_id, block_number);
+`;
+
+/**
+ * SQL schema for split_history table
+ * Indexes SplitExecuted events so the split factor at any block is known without contract reads
+ * Factors use 1e18 precision (1e18 = 1x) and are stored as TEXT
+ */
+export const SPLIT_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS split_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    old_factor TEXT NOT NULL,
+    new_factor TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_split_history_block_number ON split_history(company_id, block_number, log_index);
+`;
+
+/**
+ * SQL schema for snapshot checkpoint tables
+ * Materialized cap table balances at a block, used as a starting point when
+ * reconstructing historical snapshots from the transactions table
+ * Checkpoints are derived data and can be dropped and rebuilt at any time
+ */
+export const SNAPSHOT_CHECKPOINTS_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS snapshot_checkpoints (
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    block_number INTEGER NOT NULL,
+    holder_count INTEGER NOT NULL,
+    total_supply TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (company_id, block_number)
+  );
+
+  CREATE TABLE IF NOT EXISTS checkpoint_balances (
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    checkpoint_block INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    balance TEXT NOT NULL,
+    last_updated_block INTEGER NOT NULL,
+    PRIMARY KEY (company_id, checkpoint_block, address)
+  );
+`;
+
+/**
+ * SQL schema for allowlist_history table
+ * Indexes WalletApproved and WalletRevoked events from the token contract
+ * The latest row per wallet at or before a block gives its allowlist status at that block
+ */
+export const ALLOWLIST_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS allowlist_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    issuer_address TEXT,
+    approved INTEGER CHECK(approved IN (0, 1)) NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_allowlist_history_wallet ON allowlist_history(company_id, wallet_address, block_number DESC, log_index DESC);
+  CREATE INDEX IF NOT EXISTS idx_allowlist_history_block_number ON allowlist_history(company_id, block_number);
+`;
+
+/**
+ * SQL schema for symbol_history table
+ * Indexes Deployed (initial symbol) and SymbolChanged events from the token contract
+ * old_symbol is null for the row recorded at deployment
+ */
+export const SYMBOL_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS symbol_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    old_symbol TEXT,
+    new_symbol TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_symbol_history_block_number ON symbol_history(company_id, block_number);
+`;
+
+/**
+ * SQL schema for transfer_restriction_history table
+ * Indexes Deployed (restrictions enabled by the constructor) and
+ * TransfersRestrictedChanged events from the token contract
+ */
+export const TRANSFER_RESTRICTION_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS transfer_restriction_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    restricted INTEGER CHECK(restricted IN (0, 1)) NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_transfer_restriction_history_block_number ON transfer_restriction_history(company_id, block_number);
+`;
+
+/**
+ * SQL schema for token_versions table
+ * Indexes CapTable TokenReplaced events; each row starts a new token era
+ * The token active at a block is the token_address of the latest row before it, or the
+ * token from the deployment config when no replacement has been indexed
+ * migration_block is the block the old token's balances were snapshotted at
+ */
+export const TOKEN_VERSIONS_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS token_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    previous_token_address TEXT NOT NULL,
+    migration_block INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_token_versions_block_number ON token_versions(company_id, block_number);
+`;
+
+/**
+ * SQL schema for share_classes table
+ * Indexes CapTable ShareClassAdded events; the company's (active) token is the common class
+ * and is not stored here
+ * Authorized shares, liquidation preference and conversion ratio are stored as TEXT; the
+ * preference and ratio use 1e18 precision (1e18 = 1x)
+ */
+export const SHARE_CLASSES_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS share_classes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    class_id INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    token_address TEXT NOT NULL,
+    authorized_shares TEXT NOT NULL,
+    liquidation_preference TEXT NOT NULL,
+    conversion_ratio TEXT NOT NULL,
+    seniority INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, class_id),
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_share_classes_token_address ON share_classes(company_id, token_address);
+`;
+
+/**
+ * SQL schema for share_class_balance_changes table
+ * Ledger of Issued/Transfer/Redeemed deltas on share class tokens, mirroring balance_changes
+ * for the common class; holdings are the latest balance_after per (class_id, address)
+ */
+export const SHARE_CLASS_BALANCE_CHANGES_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS share_class_balance_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    class_id INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    delta TEXT NOT NULL,
+    balance_after TEXT NOT NULL,
+    change_type TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index, address, change_type)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_share_class_balance_changes_holder ON share_class_balance_changes(company_id, class_id, address, block_number, log_index);
+  CREATE INDEX IF NOT EXISTS idx_share_class_balance_changes_block_number ON share_class_balance_changes(company_id, block_number);
+`;
+
+/**
+ * SQL schema for vesting_grants table
+ * Indexes ChainEquityToken VestingGrantCreated events; grant IDs are per token contract
+ * Amounts are stored as TEXT in base token units; times and durations are in seconds
+ */
+export const VESTING_GRANTS_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS vesting_grants (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    grant_id INTEGER NOT NULL,
+    beneficiary TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    start_time INTEGER NOT NULL,
+    cliff_duration INTEGER NOT NULL,
+    duration INTEGER NOT NULL,
+    release_interval INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, token_address, grant_id),
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_vesting_grants_beneficiary ON vesting_grants(company_id, beneficiary);
+`;
+
+/**
+ * SQL schema for vesting_grant_revocations table
+ * Indexes VestingGrantRevoked events (early termination with clawback of unvested shares)
+ * Kept apart from vesting_grants so a reorg rollback can drop a revocation by block
+ */
+export const VESTING_GRANT_REVOCATIONS_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS vesting_grant_revocations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    grant_id INTEGER NOT NULL,
+    vested_amount TEXT NOT NULL,
+    clawed_back_amount TEXT NOT NULL,
+    revoked_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, token_address, grant_id),
+    UNIQUE(company_id, block_number, log_index)
+  );
+`;
+
+/**
+ * SQL schema for lockup_history table
+ * Indexes ChainEquityToken GlobalLockupSet, LockupSet and HoldingPeriodSet events
+ * value is the lock-up end (unix seconds, 0 = none) or, for HOLDING_PERIOD, the period in seconds;
+ * wallet is only set for WALLET rows
+ */
+export const LOCKUP_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS lockup_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    lockup_type TEXT CHECK(lockup_type IN ('GLOBAL', 'WALLET', 'HOLDING_PERIOD')) NOT NULL,
+    wallet TEXT,
+    value INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_lockup_history_wallet ON lockup_history(company_id, token_address, lockup_type, wallet);
+`;
+
+/**
+ * SQL schema for compliance_config_history table
+ * Indexes ChainEquityToken ComplianceSet events and the configuration events of ModularCompliance
+ * and its modules, which carry the token as first indexed topic (see services/db/compliance.ts)
+ * contract_address is the emitting contract (token, compliance or module); the remaining columns
+ * are only set for the config types they apply to:
+ * - compliance_address: COMPLIANCE_SET (NULL when the compliance is removed)
+ * - module_address: MODULE_ADDED, MODULE_REMOVED; module_name: MODULE_ADDED
+ * - wallet: INVESTOR_COUNTRY, ACCREDITATION; country: INVESTOR_COUNTRY, COUNTRY_RESTRICTION
+ * - value: MAX_HOLDERS (count), MAX_OWNERSHIP (basis points), COUNTRY_RESTRICTION and
+ *   ACCREDITATION (1 or 0)
+ */
+export const COMPLIANCE_CONFIG_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS compliance_config_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    contract_address TEXT NOT NULL,
+    config_type TEXT CHECK(config_type IN ('COMPLIANCE_SET', 'MODULE_ADDED', 'MODULE_REMOVED', 'MAX_HOLDERS', 'MAX_OWNERSHIP', 'INVESTOR_COUNTRY', 'COUNTRY_RESTRICTION', 'ACCREDITATION')) NOT NULL,
+    compliance_address TEXT,
+    module_address TEXT,
+    module_name TEXT,
+    wallet TEXT,
+    country TEXT,
+    value INTEGER,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_compliance_config_history_token ON compliance_config_history(company_id, token_address, config_type);
+`;
+
+/**
+ * SQL schema for forced_transfer_history table
+ * Indexes ChainEquityToken ForcedTransfer and WalletRecovered events (issuer moves without the
+ * holder's signature); the balance change itself comes from the Transfer event of the same move
+ * amount is 0 for the recovery of an empty wallet
+ */
+export const FORCED_TRANSFER_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS forced_transfer_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    transfer_type TEXT CHECK(transfer_type IN ('FORCED_TRANSFER', 'WALLET_RECOVERY')) NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    reason_code INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_forced_transfer_history_from ON forced_transfer_history(company_id, from_address);
+  CREATE INDEX IF NOT EXISTS idx_forced_transfer_history_to ON forced_transfer_history(company_id, to_address);
+`;
+
+/**
+ * SQL schema for pause_history table
+ * Indexes ChainEquityToken Paused and Unpaused events (emergency stop of all token movements)
+ * account is the PAUSER_ROLE holder that paused or unpaused the token
+ */
+export const PAUSE_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS pause_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    paused INTEGER CHECK(paused IN (0, 1)) NOT NULL,
+    account TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_pause_history_token ON pause_history(company_id, token_address);
+`;
+
+/**
+ * SQL schema for authorized_shares_history table
+ * Indexes Deployed (authorized shares set by the constructor) and AuthorizedSharesChanged events
+ * (charter amendments) from the token contract; amounts are base units stored as TEXT
+ * old_authorized is null for the row recorded at the first deployment
+ */
+export const AUTHORIZED_SHARES_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS authorized_shares_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    old_authorized TEXT,
+    new_authorized TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_authorized_shares_history_block_number ON authorized_shares_history(company_id, block_number, log_index);
+`;
+
+/**
+ * SQL schema for allowlist_root_history table
+ * Indexes AllowlistRootUpdated events (Merkle allowlist roots published by the issuer) from the
+ * token contract; roots are 0x-prefixed bytes32 hex, the zero root turns the Merkle allowlist off
+ */
+export const ALLOWLIST_ROOT_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS allowlist_root_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    token_address TEXT NOT NULL,
+    old_root TEXT NOT NULL,
+    new_root TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_allowlist_root_history_token ON allowlist_root_history(company_id, token_address);
+`;
+
+/**
+ * SQL schema for role_history table
+ * Indexes the AccessControl RoleGranted and RoleRevoked events of ChainEquityToken and CapTable
+ * contract_address is the emitting contract; role_name is the role's constant name (see
+ * types/roles.ts), NULL for a hash the backend does not know
+ * Replacing the token closes every grant on the old token with a REVOKED row at the TokenReplaced
+ * log position (see services/db/tokens.ts), so one position may hold several rows
+ */
+export const ROLE_HISTORY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS role_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    contract_address TEXT NOT NULL,
+    role_hash TEXT NOT NULL,
+    role_name TEXT,
+    account TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    action TEXT CHECK(action IN ('GRANTED', 'REVOKED')) NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_timestamp INTEGER,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT,
+    UNIQUE(company_id, block_number, log_index, contract_address, role_hash, account)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_role_history_account ON role_history(company_id, account);
+`;
+
+/**
+ * SQL schema for indexed_blocks table
+ * Tracks the hash of recently indexed blocks so chain reorganizations can be detected
+ * parent_hash is NULL for blocks only seen through event logs (logs carry the block hash only)
+ */
+export const INDEXED_BLOCKS_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS indexed_blocks (
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    parent_hash TEXT,
+    block_timestamp INTEGER,
+    PRIMARY KEY (company_id, block_number)
+  );
+`;
+
+/**
+ * SQL schema for Sign-In With Ethereum (EIP-4361) authentication
+ * - auth_nonces: single-use nonces handed out before signing; used_at is set when a login consumes one
+ * - auth_sessions: server-issued session tokens (only the SHA-256 hash of the token is stored)
+ * Timestamps are unix seconds
+ */
+export const AUTH_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS auth_nonces (
+    nonce TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    used_at INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+
+  CREATE TABLE IF NOT EXISTS auth_sessions (
+    token_hash TEXT PRIMARY KEY,
+    uid TEXT NOT NULL REFERENCES users(uid) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    chain_id INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_auth_sessions_uid ON auth_sessions(uid);
+  CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires_at ON auth_sessions(expires_at);
+`;
+
+/**
+ * SQL schema for KYC onboarding tables
+ * - kyc_requests: identity details an investor submits for review, with the review decision
+ * - kyc_request_transitions: audit trail of every status change (actor_uid is NULL for changes
+ *   made by reconciliation against indexed allowlist events)
+ * document_hashes is a JSON array of 0x-prefixed SHA-256 hashes; documents themselves are not stored
+ * Timestamps are unix seconds
+ *
+ * @note Status flow: submitted -> under_review -> approved | denied; approved requests move to
+ * on_chain_approved once a WalletApproved event for the wallet is indexed on any company's token
+ * (see services/db/kyc.ts)
+ */
+export const KYC_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS kyc_requests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    uid TEXT NOT NULL REFERENCES users(uid) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    full_name TEXT NOT NULL,
+    jurisdiction TEXT NOT NULL,
+    accreditation_status TEXT CHECK(accreditation_status IN ('accredited', 'non_accredited')) NOT NULL,
+    document_hashes TEXT NOT NULL,
+    status TEXT CHECK(status IN ('submitted', 'under_review', 'approved', 'denied', 'on_chain_approved')) NOT NULL DEFAULT 'submitted',
+    reviewer_uid TEXT REFERENCES users(uid) ON DELETE SET NULL,
+    decision_reason TEXT,
+    on_chain_block_number INTEGER,
+    on_chain_tx_hash TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_kyc_requests_uid ON kyc_requests(uid);
+  CREATE INDEX IF NOT EXISTS idx_kyc_requests_wallet ON kyc_requests(wallet_address);
+  CREATE INDEX IF NOT EXISTS idx_kyc_requests_status ON kyc_requests(status);
+
+  CREATE TABLE IF NOT EXISTS kyc_request_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_id INTEGER NOT NULL REFERENCES kyc_requests(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor_uid TEXT,
+    reason TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_kyc_request_transitions_request ON kyc_request_transitions(request_id);
+`;
+
+/**
+ * SQL schema for lost-wallet recovery tables
+ * - recovery_requests: an investor's (or an issuer/admin's, on their behalf) request to move a
+ *   lost wallet's position to a new wallet, with the admin's decision
+ * - recovery_request_transitions: audit trail of every status change (actor_uid is NULL for
+ *   changes made by reconciliation against indexed WalletRecovered events)
+ * Timestamps are unix seconds
+ *
+ * @note Status flow: pending -> approved | rejected; approved requests move to executed once a
+ * WalletRecovered event from the lost to the new wallet is indexed on the company's token
+ * (see services/db/recovery.ts)
+ */
+export const RECOVERY_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS recovery_requests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    requester_uid TEXT NOT NULL REFERENCES users(uid) ON DELETE CASCADE,
+    lost_wallet TEXT NOT NULL,
+    new_wallet TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    status TEXT CHECK(status IN ('pending', 'approved', 'rejected', 'executed')) NOT NULL DEFAULT 'pending',
+    reviewer_uid TEXT REFERENCES users(uid) ON DELETE SET NULL,
+    decision_reason TEXT,
+    executed_block_number INTEGER,
+    executed_tx_hash TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_recovery_requests_company_status ON recovery_requests(company_id, status);
+  CREATE INDEX IF NOT EXISTS idx_recovery_requests_lost_wallet ON recovery_requests(company_id, lost_wallet);
+  CREATE INDEX IF NOT EXISTS idx_recovery_requests_new_wallet ON recovery_requests(company_id, new_wallet);
+
+  CREATE TABLE IF NOT EXISTS recovery_request_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_id INTEGER NOT NULL REFERENCES recovery_requests(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    actor_uid TEXT,
+    reason TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_recovery_request_transitions_request ON recovery_request_transitions(request_id);
+`;
+
+/**
+ * SQL schema for allowlist_trees table
+ * Merkle allowlist trees the backend generated from the KYC-approved wallets, kept so proofs can
+ * be served for whichever root the issuer publishes on chain
+ * wallets is a JSON array of the lowercase wallet addresses in the tree, sorted ascending
+ * Timestamps are unix seconds
+ */
+export const ALLOWLIST_TREES_TABLE_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS allowlist_trees (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    company_id INTEGER NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    root TEXT NOT NULL,
+    wallets TEXT NOT NULL,
+    created_by_uid TEXT REFERENCES users(uid) ON DELETE SET NULL,
+    created_at INTEGER NOT NULL,
+    UNIQUE(company_id, root)
+  );
+`;
+
 /**
  * SQL schema for meta table
  * Stores metadata including schema version and indexer state
@@ -143,7 +780,8 @@ export const EVENTS_TABLE_SCHEMA = `
  *
  * @note Reserved keys:
  *   - `schema_version`: Current database schema version string (e.g., "1.0.0")
- *   - `last_indexed_block`: Last block number that was fully indexed (for indexer coordination)
+ *   - `indexer_version`: Version of the indexer that last ran
+ * Per-company indexer state lives on the companies table
  */
 export const META_TABLE_SCHEMA = `
   CREATE TABLE IF NOT EXISTS meta (
@@ -154,6 +792,21 @@ export const META_TABLE_SCHEMA = `
   CREATE INDEX IF NOT EXISTS idx_meta_key ON meta(key);
 `;
 
+/**
+ * Company record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface CompanyRecord {
+  id: number;
+  name: string;
+  chainId: number;
+  capTableAddress: string;
+  tokenAddress: string; // Originally deployed token
+  lastIndexedBlock: number | null;
+  lastReorg: string | null; // JSON description of the most recent reorg rollback
+  createdAt: number; // Unix seconds
+}
+
 /**
  * User record interface matching database schema
  * TypeScript interface uses camelCase while DB columns use snake_case
@@ -191,7 +844,7 @@ export interface TransactionRecord {
   blockNumber: number;
   blockTimestamp: number | null;
   logIndex: number;
-  eventType: "ISSUED" | "TRANSFER";
+  eventType: "ISSUED" | "TRANSFER" | "REDEEMED" | "FORCED_TRANSFER" | "WALLET_RECOVERY";
 }
 
 /**
@@ -223,6 +876,397 @@ export interface EventRecord {
   txHash: string | null;
 }
 
+/**
+ * Balance change (ledger) record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface BalanceChangeRecord {
+  id?: number;
+  address: string;
+  delta: string; // Signed amount in wei precision, stored as TEXT
+  balanceAfter: string; // Stored as TEXT in wei precision
+  changeType: "ISSUED" | "TRANSFER_IN" | "TRANSFER_OUT" | "REDEEMED" | "MIGRATED";
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Split history record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface SplitHistoryRecord {
+  id?: number;
+  oldFactor: string; // 1e18 precision, stored as TEXT
+  newFactor: string; // 1e18 precision, stored as TEXT
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Allowlist history record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface AllowlistHistoryRecord {
+  id?: number;
+  walletAddress: string;
+  issuerAddress: string | null;
+  approved: boolean; // Stored as INTEGER 0/1
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Symbol history record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface SymbolHistoryRecord {
+  id?: number;
+  oldSymbol: string | null;
+  newSymbol: string;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Transfer restriction history record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface TransferRestrictionHistoryRecord {
+  id?: number;
+  restricted: boolean; // Stored as INTEGER 0/1
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Token version record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface TokenVersionRecord {
+  id?: number;
+  tokenAddress: string;
+  previousTokenAddress: string;
+  migrationBlock: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Share class record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface ShareClassRecord {
+  id?: number;
+  classId: number;
+  name: string;
+  tokenAddress: string;
+  authorizedShares: string; // Stored as TEXT in wei precision
+  liquidationPreference: string; // 1e18 precision, stored as TEXT
+  conversionRatio: string; // 1e18 precision, stored as TEXT
+  seniority: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Share class balance change (ledger) record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface ShareClassBalanceChangeRecord extends BalanceChangeRecord {
+  classId: number;
+}
+
+/**
+ * Vesting grant record interface matching database schema, with its revocation (if any)
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface VestingGrantRecord {
+  id?: number;
+  tokenAddress: string;
+  grantId: number;
+  beneficiary: string;
+  amount: string; // Stored as TEXT in base token units
+  startTime: number; // Unix seconds
+  cliffDuration: number; // Seconds after start
+  duration: number; // Seconds after start
+  releaseInterval: number; // Seconds per vesting step (1 = linear)
+  revokedAt: number | null; // From vesting_grant_revocations, null while active
+  vestedAtRevocation: string | null;
+  clawedBackAmount: string | null;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Lockup history record interface matching database schema
+ */
+export interface LockupHistoryRecord {
+  id?: number;
+  tokenAddress: string;
+  lockupType: "GLOBAL" | "WALLET" | "HOLDING_PERIOD";
+  wallet: string | null;
+  value: number; // Lock-up end (unix seconds) or holding period (seconds)
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Compliance configuration change record interface matching database schema
+ */
+export interface ComplianceConfigRecord {
+  id?: number;
+  tokenAddress: string;
+  contractAddress: string; // Emitting token, compliance or module
+  configType:
+    | "COMPLIANCE_SET"
+    | "MODULE_ADDED"
+    | "MODULE_REMOVED"
+    | "MAX_HOLDERS"
+    | "MAX_OWNERSHIP"
+    | "INVESTOR_COUNTRY"
+    | "COUNTRY_RESTRICTION"
+    | "ACCREDITATION";
+  complianceAddress: string | null;
+  moduleAddress: string | null;
+  moduleName: string | null;
+  wallet: string | null;
+  country: string | null; // ISO 3166-1 alpha-2 (e.g. "US")
+  value: number | null;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Forced transfer record interface matching database schema
+ */
+export interface ForcedTransferRecord {
+  id?: number;
+  tokenAddress: string;
+  transferType: "FORCED_TRANSFER" | "WALLET_RECOVERY";
+  fromAddress: string; // Lost wallet for WALLET_RECOVERY
+  toAddress: string; // New wallet for WALLET_RECOVERY
+  amount: string; // Stored as TEXT in wei precision
+  reasonCode: number; // ChainEquityToken REASON_* constant
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Pause change record interface matching database schema
+ */
+export interface PauseChangeRecord {
+  id?: number;
+  tokenAddress: string;
+  paused: boolean; // Stored as 0/1
+  account: string; // Wallet that paused or unpaused the token
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Authorized shares change record interface matching database schema
+ */
+export interface AuthorizedSharesChangeRecord {
+  id?: number;
+  tokenAddress: string;
+  oldAuthorized: string | null; // NULL for the row recorded at the first deployment
+  newAuthorized: string; // Stored as TEXT for precision
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Allowlist root change record interface matching database schema
+ */
+export interface AllowlistRootChangeRecord {
+  id?: number;
+  tokenAddress: string;
+  oldRoot: string;
+  newRoot: string; // 0x00…00 when the Merkle allowlist was turned off
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Role change record interface matching database schema
+ */
+export interface RoleChangeRecord {
+  id?: number;
+  contractAddress: string; // Token or cap table emitting the event
+  roleHash: string;
+  roleName: string | null; // NULL for an unknown role hash
+  account: string;
+  sender: string; // Wallet that granted or revoked the role
+  action: "GRANTED" | "REVOKED";
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Snapshot checkpoint record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface SnapshotCheckpointRecord {
+  blockNumber: number;
+  holderCount: number;
+  totalSupply: string; // Stored as TEXT for precision
+  createdAt?: string;
+}
+
+/**
+ * Indexed block record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface IndexedBlockRecord {
+  blockNumber: number;
+  blockHash: string;
+  parentHash: string | null;
+  blockTimestamp: number | null;
+}
+
+/**
+ * Auth session record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface AuthSessionRecord {
+  tokenHash: string;
+  uid: string;
+  walletAddress: string;
+  chainId: number;
+  createdAt: number; // Unix seconds
+  expiresAt: number; // Unix seconds
+}
+
+/**
+ * KYC request status (see KYC_TABLE_SCHEMA for the allowed flow)
+ */
+export type KycRequestStatus =
+  | "submitted"
+  | "under_review"
+  | "approved"
+  | "denied"
+  | "on_chain_approved";
+
+/**
+ * Investor accreditation status declared on a KYC request
+ */
+export type AccreditationStatus = "accredited" | "non_accredited";
+
+/**
+ * KYC request record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface KycRequestRecord {
+  id: number;
+  uid: string;
+  walletAddress: string;
+  fullName: string;
+  jurisdiction: string; // ISO 3166-1 alpha-2 country code
+  accreditationStatus: AccreditationStatus;
+  documentHashes: string[]; // Stored as a JSON array
+  status: KycRequestStatus;
+  reviewerUid: string | null;
+  decisionReason: string | null;
+  onChainBlockNumber: number | null;
+  onChainTxHash: string | null;
+  createdAt: number; // Unix seconds
+  updatedAt: number; // Unix seconds
+}
+
+/**
+ * KYC request transition record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface KycRequestTransitionRecord {
+  id: number;
+  requestId: number;
+  fromStatus: KycRequestStatus | null; // Null for the initial submission
+  toStatus: KycRequestStatus;
+  actorUid: string | null; // Null for reconciliation against indexed events
+  reason: string | null;
+  createdAt: number; // Unix seconds
+}
+
+/**
+ * Recovery request status (see RECOVERY_TABLE_SCHEMA for the allowed flow)
+ */
+export type RecoveryRequestStatus = "pending" | "approved" | "rejected" | "executed";
+
+/**
+ * Recovery request record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface RecoveryRequestRecord {
+  id: number;
+  requesterUid: string;
+  lostWallet: string;
+  newWallet: string;
+  reason: string;
+  status: RecoveryRequestStatus;
+  reviewerUid: string | null;
+  decisionReason: string | null;
+  executedBlockNumber: number | null;
+  executedTxHash: string | null;
+  createdAt: number; // Unix seconds
+  updatedAt: number; // Unix seconds
+}
+
+/**
+ * Recovery request transition record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface RecoveryRequestTransitionRecord {
+  id: number;
+  requestId: number;
+  fromStatus: RecoveryRequestStatus | null; // Null for the initial request
+  toStatus: RecoveryRequestStatus;
+  actorUid: string | null; // Null for reconciliation against indexed events
+  reason: string | null;
+  createdAt: number; // Unix seconds
+}
+
+/**
+ * Generated Merkle allowlist tree record interface matching database schema
+ * TypeScript interface uses camelCase while DB columns use snake_case
+ */
+export interface AllowlistTreeRecord {
+  id: number;
+  root: string;
+  wallets: string[]; // Lowercase, sorted ascending
+  createdByUid: string | null;
+  createdAt: number; // Unix seconds
+}
+
 /**
  * Meta record interface matching database schema
  */
@@ -255,10 +1299,34 @@ export interface UpdateUserInput {
  * Used by migration system to apply all tables
  */
 export const ALL_SCHEMAS = [
+  COMPANIES_TABLE_SCHEMA,
   USERS_TABLE_SCHEMA,
   SHAREHOLDERS_TABLE_SCHEMA,
   TRANSACTIONS_TABLE_SCHEMA,
   CORPORATE_ACTIONS_TABLE_SCHEMA,
   EVENTS_TABLE_SCHEMA,
+  BALANCE_CHANGES_TABLE_SCHEMA,
+  SPLIT_HISTORY_TABLE_SCHEMA,
+  SNAPSHOT_CHECKPOINTS_TABLE_SCHEMA,
+  ALLOWLIST_HISTORY_TABLE_SCHEMA,
+  SYMBOL_HISTORY_TABLE_SCHEMA,
+  TRANSFER_RESTRICTION_HISTORY_TABLE_SCHEMA,
+  TOKEN_VERSIONS_TABLE_SCHEMA,
+  SHARE_CLASSES_TABLE_SCHEMA,
+  SHARE_CLASS_BALANCE_CHANGES_TABLE_SCHEMA,
+  VESTING_GRANTS_TABLE_SCHEMA,
+  VESTING_GRANT_REVOCATIONS_TABLE_SCHEMA,
+  LOCKUP_HISTORY_TABLE_SCHEMA,
+  COMPLIANCE_CONFIG_HISTORY_TABLE_SCHEMA,
+  FORCED_TRANSFER_HISTORY_TABLE_SCHEMA,
+  PAUSE_HISTORY_TABLE_SCHEMA,
+  AUTHORIZED_SHARES_HISTORY_TABLE_SCHEMA,
+  ALLOWLIST_ROOT_HISTORY_TABLE_SCHEMA,
+  ROLE_HISTORY_TABLE_SCHEMA,
+  INDEXED_BLOCKS_TABLE_SCHEMA,
+  AUTH_TABLE_SCHEMA,
+  KYC_TABLE_SCHEMA,
+  RECOVERY_TABLE_SCHEMA,
+  ALLOWLIST_TREES_TABLE_SCHEMA,
   META_TABLE_SCHEMA,
 ];
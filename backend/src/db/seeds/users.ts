@@ -4,7 +4,7 @@
  */
 
 import { Database } from "bun:sqlite";
-import { createUser } from "../../services/db/users";
+import { createUser, linkWallet } from "../../services/db/users";
 import { queryOne, asUserRecord } from "../index";
 
 export const SEED_USERS = [
@@ -13,24 +13,28 @@ export const SEED_USERS = [
     email: "admin@chainequity.com",
     displayName: "Admin User",
     role: "admin" as const,
+    walletAddress: "0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266", // Hardhat account #0
   },
   {
     uid: "alice-user",
     email: "alice@chainequity.com",
     displayName: "Alice",
     role: "investor" as const,
+    walletAddress: "0x70997970c51812dc3a010c7d01b50e20d17dc79c", // Hardhat account #1
   },
   {
     uid: "bob-user",
     email: "bob@chainequity.com",
     displayName: "Bob",
     role: "investor" as const,
+    walletAddress: "0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc", // Hardhat account #2
   },
   {
     uid: "charlie-user",
     email: "charlie@chainequity.com",
     displayName: "Charlie",
     role: "investor" as const,
+    walletAddress: "0x90f79bf6eb2c4f870365e785982e1f101e93b906", // Hardhat account #3
   },
 ];
 
@@ -60,7 +64,10 @@ export function seedUsers(db: Database): {
       continue;
     }
 
-    createUser(db, userData);
+    // Linked wallets let seeded users sign in with the matching Hardhat account
+    const { walletAddress, ...userInput } = userData;
+    createUser(db, userInput);
+    linkWallet(db, userData.uid, walletAddress);
     console.log(`✅ Created user: ${userData.email} (${userData.role})`);
     created++;
   }
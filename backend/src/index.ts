@@ -1,6 +1,8 @@
 /**
  * @file Main entry point for ChainEquity backend server
  * @notice Fastify server with logging, security, and health check endpoint
+ * @notice Cap table routes are scoped per company under /api/companies/:companyId; auth, wallet,
+ *         KYC and the company list are global
  */
 
 import Fastify from 'fastify';
@@ -8,12 +10,29 @@ import cors from '@fastify/cors';
 import helmet from '@fastify/helmet';
 import { connect, close } from './db/index';
 import { migrate } from './db/migrations';
+import { CHAIN_ID, DEPLOYMENTS } from './config/contracts';
 import { Indexer } from './services/chain/indexer';
+import { registerDeployments } from './services/db/companies';
+import { resolveCompany } from './middleware/company';
+import { companiesRoutes } from './routes/companies';
 import { companyRoutes } from './routes/company';
 import { shareholdersRoutes } from './routes/shareholders';
 import { transactionsRoutes } from './routes/transactions';
 import { corporateActionsRoutes } from './routes/corporate-actions';
+import { splitsRoutes } from './routes/splits';
+import { tokensRoutes } from './routes/tokens';
 import { walletRoutes } from './routes/wallet';
+import { allowlistRoutes } from './routes/allowlist';
+import { capTableRoutes } from './routes/cap-table';
+import { vestingRoutes } from './routes/vesting';
+import { lockupsRoutes } from './routes/lockups';
+import { transfersRoutes } from './routes/transfers';
+import { complianceRoutes } from './routes/compliance';
+import { recoveryRoutes } from './routes/recovery';
+import { rolesRoutes } from './routes/roles';
+import { issuancesRoutes } from './routes/issuances';
+import { authRoutes } from './routes/auth';
+import { kycRoutes } from './routes/kyc';
 
 // Get port from environment variable, default to 4000
 const PORT = Number(process.env.PORT) || 4000;
@@ -66,16 +85,43 @@ const start = async () => {
       connect();
     }
 
+    // Register every deployed company so the indexer and API can serve it
+    for (const company of registerDeployments(connect(), CHAIN_ID, DEPLOYMENTS)) {
+      console.log(`🏢 Company ${company.id}: ${company.name} (${company.capTableAddress})`);
+    }
+
     // Register security plugins
     await fastify.register(helmet);
     await fastify.register(cors);
 
-    // Register API routes
-    await fastify.register(companyRoutes, { prefix: '/api' });
-    await fastify.register(shareholdersRoutes, { prefix: '/api' });
-    await fastify.register(transactionsRoutes, { prefix: '/api' });
-    await fastify.register(corporateActionsRoutes, { prefix: '/api' });
+    // Register global API routes
+    await fastify.register(companiesRoutes, { prefix: '/api' });
     await fastify.register(walletRoutes, { prefix: '/api' });
+    await fastify.register(authRoutes, { prefix: '/api' });
+    await fastify.register(kycRoutes, { prefix: '/api' });
+
+    // Register company-scoped API routes (the hook 404s unknown company ids)
+    await fastify.register(
+      async (scoped) => {
+        scoped.addHook('onRequest', resolveCompany);
+        await scoped.register(companyRoutes);
+        await scoped.register(shareholdersRoutes);
+        await scoped.register(transactionsRoutes);
+        await scoped.register(corporateActionsRoutes);
+        await scoped.register(splitsRoutes);
+        await scoped.register(tokensRoutes);
+        await scoped.register(allowlistRoutes);
+        await scoped.register(capTableRoutes);
+        await scoped.register(vestingRoutes);
+        await scoped.register(lockupsRoutes);
+        await scoped.register(transfersRoutes);
+        await scoped.register(complianceRoutes);
+        await scoped.register(recoveryRoutes);
+        await scoped.register(rolesRoutes);
+        await scoped.register(issuancesRoutes);
+      },
+      { prefix: '/api/companies/:companyId' }
+    );
 
     // Health check endpoint
     fastify.get('/ping', async (request, reply) => {
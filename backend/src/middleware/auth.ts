@@ -1,12 +1,19 @@
 /**
  * @file Unified authentication middleware for ChainEquity backend
- * @notice Demo mode: Mock authentication returning demo user with issuer role
- * 
- * @note Post-Demo: This will be replaced with Firebase JWT verification and real user management
+ * @notice Sign-In With Ethereum (EIP-4361) sessions: bearer tokens issued by POST /api/auth/verify
+ *
+ * @dev Session tokens are opaque and stored (hashed) in SQLite; see services/db/sessions.ts.
+ *      The user's role is read from the users table on every request, so role changes apply immediately.
+ *      On company-scoped routes, a guard may also accept the holders of the on-chain role its action
+ *      needs (e.g. MINTER_ROLE for issuance) on that company's token or cap table, and no other.
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
-import type { UserRole } from '../types/roles';
+import type { OnchainRoleName, UserRole } from '../types/roles';
+import { connect } from '../db/index';
+import { getSession } from '../services/db/sessions';
+import { getUserByUid } from '../services/db/users';
+import { holdsCompanyRole } from '../services/db/roles';
 
 /**
  * Authentication context attached to authenticated requests
@@ -26,22 +33,26 @@ declare module 'fastify' {
 }
 
 /**
- * Demo user constant - always returns issuer role for demo purposes
- * @note Post-Demo: This will be replaced with real Firebase JWT verification
+ * Extract the bearer token from the Authorization header
+ * @param req Fastify request
+ * @returns Token or null if the header is missing or not a Bearer token
  */
-const DEMO_USER: AuthContext = {
-  uid: 'demo-user',
-  email: 'demo@example.com',
-  role: 'issuer',
-};
+export function getBearerToken(req: FastifyRequest): string | null {
+  const header = req.headers.authorization;
+  if (!header) {
+    return null;
+  }
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+  return token;
+}
 
 /**
- * Mock authentication middleware for demo
- * Returns a hardcoded demo user with issuer role
- * No JWT verification or database lookups required
- * 
- * TODO: Replace mock auth with Firebase Admin verification after demo phase.
- * 
+ * Authentication middleware
+ * Resolves the bearer session token to a user and attaches it to the request
+ *
  * @param req Fastify request
  * @param reply Fastify reply
  */
@@ -49,40 +60,42 @@ export async function requireAuth(
   req: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> {
-  // Check for Authorization header to maintain consistent API behavior
   const header = req.headers.authorization;
   if (!header) {
-    return reply.code(401).send({ 
+    return reply.code(401).send({
       error: 'Missing Authorization header',
-      message: 'Authorization header is required'
+      message: 'Authorization header is required',
     });
   }
 
-  // In demo mode, extract user info from custom headers sent by frontend
-  const userUid = req.headers['x-user-uid'] as string | undefined;
-  const userEmail = req.headers['x-user-email'] as string | undefined;
-  const userRole = req.headers['x-user-role'] as string | undefined;
-
-  if (userUid && userEmail && userRole) {
-    // Use user info from headers (demo mode)
-    req.user = {
-      uid: userUid,
-      email: userEmail,
-      role: userRole as UserRole,
-    };
-  } else {
-    // Fallback to demo user if headers not present
-  req.user = DEMO_USER;
+  const token = getBearerToken(req);
+  const db = connect();
+  const session = token ? getSession(db, token) : null;
+  const user = session ? getUserByUid(db, session.uid) : null;
+
+  if (!session || !user) {
+    return reply.code(401).send({
+      error: 'Invalid session',
+      message: 'Session is invalid or expired, please sign in again',
+    });
   }
+
+  req.user = {
+    uid: user.uid,
+    email: user.email,
+    role: user.role,
+    wallet_address: session.walletAddress,
+  };
 }
 
 /**
- * Optional wallet verification step for sensitive routes
+ * Wallet verification step for sensitive routes
  * e.g., issuing or transferring shares
- * 
- * TODO: Implement wallet signature verification after demo phase.
- * For demo, this middleware allows all requests to pass through.
- * 
+ *
+ * Every session is created from a SIWE signature, so this checks that the wallet which signed in
+ * is still the wallet linked to the account (it may have been unlinked or replaced since).
+ * Must run after requireAuth.
+ *
  * @param req Fastify request
  * @param reply Fastify reply
  */
@@ -90,44 +103,95 @@ export async function requireWalletSignature(
   req: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> {
-  // Demo mode: Allow all requests without signature verification
-  // Post-demo: Verify signed message against linked wallet address
-  return;
+  if (!req.user) {
+    return reply.code(401).send({
+      error: 'Unauthorized',
+      message: 'Authentication required',
+    });
+  }
+
+  const linked = getUserByUid(connect(), req.user.uid)?.walletAddress;
+  if (
+    !req.user.wallet_address ||
+    !linked ||
+    linked.toLowerCase() !== req.user.wallet_address.toLowerCase()
+  ) {
+    return reply.code(403).send({
+      error: 'Wallet signature required',
+      message: 'Sign in again with the wallet linked to your account',
+    });
+  }
+}
+
+/**
+ * Send the 403 response used by all role checks
+ * @param reply Fastify reply
+ * @param roles Roles that would have been accepted
+ * @param onchainRoles On-chain roles that would have been accepted on the company
+ */
+function sendForbidden(
+  reply: FastifyReply,
+  roles: UserRole[],
+  onchainRoles: OnchainRoleName[] = []
+): FastifyReply {
+  const onchain =
+    onchainRoles.length > 0 ? ` (or on-chain: ${onchainRoles.join(', ')})` : '';
+  return reply.code(403).send({
+    error: 'Forbidden',
+    message: `This action requires one of the following roles: ${roles.join(', ')}${onchain}`,
+  });
 }
 
 /**
  * Role-based access control helper
- * Returns a middleware function that checks user role
- * 
- * TODO: Implement strict role checking after demo phase.
- * For demo, this middleware allows all requests to pass through.
- * 
- * @param role Required role (not enforced in demo mode)
+ * Returns a middleware function that checks the caller's role in the users table
+ * Must run after requireAuth
+ *
+ * @param role Required role
  * @returns Middleware function
  */
 export function requireRole(role: UserRole) {
-  return async (req: FastifyRequest, reply: FastifyReply): Promise<void> => {
-    // Demo mode: Allow all requests without role checking
-    // Post-demo: Verify user has required role from database
-    return;
-  };
+  return requireAnyRole([role]);
 }
 
 /**
  * Alternative: require any of multiple roles
- * 
- * TODO: Implement strict role checking after demo phase.
- * For demo, this middleware allows all requests to pass through.
- * 
- * @param roles Array of allowed roles (not enforced in demo mode)
+ * The role is re-read from the users table rather than trusted from the request,
+ * so a role change takes effect on the next request
+ *
+ * On company-scoped routes (after resolveCompany), a user whose linked wallet holds one of
+ * onchainRoles on the resolved company's contracts also passes; their user role is unchanged
+ *
+ * @param roles Array of allowed roles
+ * @param onchainRoles On-chain roles that grant the action on the resolved company
  * @returns Middleware function
  */
-export function requireAnyRole(roles: UserRole[]) {
+export function requireAnyRole(roles: UserRole[], onchainRoles: OnchainRoleName[] = []) {
   return async (req: FastifyRequest, reply: FastifyReply): Promise<void> => {
-    // Demo mode: Allow all requests without role checking
-    // Post-demo: Verify user has one of the required roles from database
-    return;
-  };
-}
+    if (!req.user) {
+      return reply.code(401).send({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+    }
 
+    const db = connect();
+    const user = getUserByUid(db, req.user.uid);
+    if (user && roles.includes(user.role)) {
+      req.user.role = user.role;
+      return;
+    }
 
+    if (
+      onchainRoles.length > 0 &&
+      req.company &&
+      user?.walletAddress &&
+      holdsCompanyRole(db, req.company.id, user.walletAddress, onchainRoles)
+    ) {
+      req.user.role = user.role;
+      return;
+    }
+
+    return sendForbidden(reply, roles, onchainRoles);
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * @file Company scope middleware for ChainEquity backend
+ * @notice Resolves the :companyId route parameter of /api/companies/:companyId/* routes
+ *
+ * @dev Company-scoped route plugins are registered under that prefix (see index.ts) and read the
+ *      resolved company with getRequestCompany(); they never parse companyId themselves.
+ */
+
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { CompanyRecord } from '../db/schema';
+import { connect } from '../db/index';
+import { getCompanyById } from '../services/db/companies';
+
+// Extend FastifyRequest to include the company scope
+declare module 'fastify' {
+  interface FastifyRequest {
+    company?: CompanyRecord;
+  }
+}
+
+/**
+ * Company scope middleware
+ * Looks up the company named by the :companyId parameter and attaches it to the request
+ *
+ * @param req Fastify request
+ * @param reply Fastify reply
+ */
+export async function resolveCompany(
+  req: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const { companyId } = req.params as { companyId?: string };
+  const id = Number(companyId);
+  const company =
+    Number.isInteger(id) && id > 0 ? getCompanyById(connect(), id) : null;
+
+  if (!company) {
+    return reply.code(404).send({
+      error: 'Company not found',
+      message: `No company registered with id ${companyId}`,
+    });
+  }
+
+  req.company = company;
+}
+
+/**
+ * Get the company resolved for a company-scoped request
+ * @param req Fastify request
+ * @returns Company record
+ * @throws Error if the route is not registered under the company scope
+ */
+export function getRequestCompany(req: FastifyRequest): CompanyRecord {
+  if (!req.company) {
+    throw new Error('Route is not registered under /api/companies/:companyId');
+  }
+  return req.company;
+}
@@ -0,0 +1,287 @@
+/**
+ * @file Tests for allowlist API routes
+ * @notice Validates GET /api/allowlist and GET /api/allowlist/:address/history endpoints, and the
+ *         Merkle allowlist root, tree and proof endpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { allowlistRoutes } from "../allowlist";
+import { createSession } from "../../services/db/sessions";
+import { verifyAllowlistProof } from "../../services/chain/merkle";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: "0x2222222222222222222222222222222222222222",
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+const ISSUER = "0x9999999999999999999999999999999999999999";
+const WALLET_A = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const WALLET_B = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+describe("Allowlist Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    testDbInstance = db;
+
+    // WALLET_A approved at 10; WALLET_B approved at 11, revoked at 20, re-approved at 30
+    db.run(`
+      INSERT INTO allowlist_history (company_id, wallet_address, issuer_address, approved, block_number, block_timestamp, log_index, tx_hash)
+      VALUES
+        (1, '${WALLET_A}', '${ISSUER}', 1, 10, 1700000010, 0, '0x01'),
+        (1, '${WALLET_B}', '${ISSUER}', 1, 11, 1700000011, 0, '0x02'),
+        (1, '${WALLET_B}', '${ISSUER}', 0, 20, 1700000020, 0, '0x03'),
+        (1, '${WALLET_B}', '${ISSUER}', 1, 30, 1700000030, 0, '0x04')
+    `);
+    db.run(`
+      INSERT INTO users (uid, email, display_name, wallet_address, role)
+      VALUES ('u1', 'a@example.com', 'Alice', '${WALLET_A}', 'investor')
+    `);
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(allowlistRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  describe("Merkle allowlist", () => {
+    function sessionHeaders(uid: string, walletAddress: string) {
+      const { token } = createSession(db, {
+        uid,
+        walletAddress,
+        chainId: 31337,
+        ttlSeconds: 3600,
+      });
+      return { authorization: `Bearer ${token}` };
+    }
+
+    function publish(root: string) {
+      db.run(`
+        INSERT INTO allowlist_root_history (company_id, token_address, old_root, new_root, block_number, log_index, tx_hash)
+        VALUES (1, '${COMPANY.tokenAddress}', '0x${"0".repeat(64)}', '${root}', 40, 0, '0x05')
+      `);
+    }
+
+    beforeEach(() => {
+      db.run(`
+        INSERT INTO users (uid, email, wallet_address, role)
+        VALUES ('issuer', 'issuer@example.com', '${ISSUER}', 'issuer')
+      `);
+      db.run(`
+        INSERT INTO kyc_requests (uid, wallet_address, full_name, jurisdiction, accreditation_status, document_hashes, status, created_at, updated_at)
+        VALUES ('u1', '${WALLET_A}', 'Alice', 'US', 'accredited', '[]', 'approved', 0, 0)
+      `);
+    });
+
+    it("should regenerate the tree for issuers only", async () => {
+      const unauthenticated = await app.inject({
+        method: "POST",
+        url: "/api/companies/1/allowlist/tree",
+      });
+      const investor = await app.inject({
+        method: "POST",
+        url: "/api/companies/1/allowlist/tree",
+        headers: sessionHeaders("u1", WALLET_A),
+      });
+      const issuer = await app.inject({
+        method: "POST",
+        url: "/api/companies/1/allowlist/tree",
+        headers: sessionHeaders("issuer", ISSUER),
+      });
+
+      expect(unauthenticated.statusCode).toBe(401);
+      expect(investor.statusCode).toBe(403);
+      expect(issuer.statusCode).toBe(200);
+      expect(JSON.parse(issuer.body)).toMatchObject({
+        wallets: [WALLET_A],
+        walletCount: 1,
+      });
+    });
+
+    it("should compare the published root with the latest tree", async () => {
+      const tree = JSON.parse(
+        (
+          await app.inject({
+            method: "POST",
+            url: "/api/companies/1/allowlist/tree",
+            headers: sessionHeaders("issuer", ISSUER),
+          })
+        ).body
+      );
+
+      const before = JSON.parse(
+        (await app.inject({ method: "GET", url: "/api/companies/1/allowlist/root" })).body
+      );
+      expect(before).toMatchObject({ root: null, blockNumber: null, upToDate: false });
+      expect(before.latestTree.root).toBe(tree.root);
+
+      publish(tree.root);
+      const after = JSON.parse(
+        (await app.inject({ method: "GET", url: "/api/companies/1/allowlist/root" })).body
+      );
+      expect(after).toMatchObject({ root: tree.root, blockNumber: 40, upToDate: true });
+    });
+
+    it("should serve proofs against the published root", async () => {
+      const notPublished = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/allowlist/proof/${WALLET_A}`,
+      });
+      expect(notPublished.statusCode).toBe(404);
+
+      const tree = JSON.parse(
+        (
+          await app.inject({
+            method: "POST",
+            url: "/api/companies/1/allowlist/tree",
+            headers: sessionHeaders("issuer", ISSUER),
+          })
+        ).body
+      );
+      publish(tree.root);
+
+      const included = JSON.parse(
+        (
+          await app.inject({
+            method: "GET",
+            url: `/api/companies/1/allowlist/proof/${WALLET_A}`,
+          })
+        ).body
+      );
+      expect(included).toMatchObject({ walletAddress: WALLET_A, root: tree.root, included: true });
+      expect(verifyAllowlistProof(tree.root, WALLET_A, included.proof)).toBe(true);
+
+      const excluded = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/allowlist/proof/${WALLET_B}`,
+      });
+      expect(JSON.parse(excluded.body)).toMatchObject({ included: false, proof: [] });
+
+      const invalid = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/allowlist/proof/not-an-address",
+      });
+      expect(invalid.statusCode).toBe(400);
+    });
+  });
+
+  describe("GET /api/companies/:companyId/allowlist", () => {
+    it("should return wallets currently on the allowlist", async () => {
+      const response = await app.inject({ method: "GET", url: "/api/companies/1/allowlist" });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.blockNumber).toBeNull();
+      expect(body.total).toBe(2);
+      expect(body.wallets[0]).toMatchObject({
+        walletAddress: WALLET_A,
+        approvedAtBlock: 10,
+        displayName: "Alice",
+      });
+      expect(body.wallets[1]).toMatchObject({
+        walletAddress: WALLET_B,
+        approvedAtBlock: 30,
+        displayName: null,
+      });
+    });
+
+    it("should return the allowlist as of a historical block", async () => {
+      const atRevocation = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/allowlist?blockNumber=25",
+      });
+      const beforeAnyApproval = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/allowlist?blockNumber=5",
+      });
+
+      const body = JSON.parse(atRevocation.body);
+      expect(body.blockNumber).toBe(25);
+      expect(body.wallets.map((w: any) => w.walletAddress)).toEqual([WALLET_A]);
+      expect(JSON.parse(beforeAnyApproval.body).wallets).toEqual([]);
+    });
+
+    it("should return 400 for an invalid block number", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/allowlist?blockNumber=-1",
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe("GET /api/companies/:companyId/allowlist/:address/history", () => {
+    it("should return approval history in chronological order", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/allowlist/${WALLET_B}/history`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.walletAddress).toBe(WALLET_B);
+      expect(body.isApproved).toBe(true);
+      expect(body.history.map((h: any) => [h.blockNumber, h.approved])).toEqual([
+        [11, true],
+        [20, false],
+        [30, true],
+      ]);
+    });
+
+    it("should return 400 for an invalid address", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/allowlist/not-an-address/history",
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @file Tests for Sign-In With Ethereum authentication routes
+ * @notice Validates nonce issuance, SIWE verification, sessions and logout
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import { Database } from "bun:sqlite";
+import { privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import { migrate } from "../../db/migrations";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { authRoutes } from "../auth";
+
+// Hardhat account #1
+const account = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d"
+);
+
+describe("Auth Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    testDbInstance = db;
+
+    app = Fastify({ logger: false });
+    await app.register(authRoutes, { prefix: "/api" });
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  /**
+   * Fetch a nonce and build a SIWE message for it
+   */
+  async function buildMessage(overrides: Record<string, unknown> = {}): Promise<string> {
+    const nonceResponse = await app.inject({ method: "GET", url: "/api/auth/nonce" });
+    const { nonce } = JSON.parse(nonceResponse.body);
+    return createSiweMessage({
+      address: account.address,
+      chainId: 31337,
+      domain: "localhost:5173",
+      nonce,
+      uri: "http://localhost:5173",
+      version: "1",
+      ...overrides,
+    });
+  }
+
+  async function signIn(message: string, signature?: string) {
+    return app.inject({
+      method: "POST",
+      url: "/api/auth/verify",
+      payload: {
+        message,
+        signature: signature ?? (await account.signMessage({ message })),
+      },
+    });
+  }
+
+  it("should create a session and an investor account for a new wallet", async () => {
+    const response = await signIn(await buildMessage());
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.token).toMatch(/^[0-9a-f]{64}$/);
+    expect(body.user).toEqual({
+      uid: `wallet-${account.address.toLowerCase()}`,
+      email: `${account.address.toLowerCase()}@wallet.local`,
+      role: "investor",
+      wallet_address: account.address.toLowerCase(),
+    });
+
+    const session = await app.inject({
+      method: "GET",
+      url: "/api/auth/session",
+      headers: { authorization: `Bearer ${body.token}` },
+    });
+    expect(session.statusCode).toBe(200);
+    expect(JSON.parse(session.body).user.uid).toBe(body.user.uid);
+  });
+
+  it("should sign in the user already linked to the wallet", async () => {
+    db.run(`
+      INSERT INTO users (uid, email, display_name, wallet_address, role)
+      VALUES ('admin-user', 'admin@chainequity.com', 'Admin', '${account.address.toLowerCase()}', 'admin')
+    `);
+
+    const response = await signIn(await buildMessage());
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body).user).toMatchObject({
+      uid: "admin-user",
+      role: "admin",
+    });
+  });
+
+  it("should reject a reused nonce", async () => {
+    const message = await buildMessage();
+
+    expect((await signIn(message)).statusCode).toBe(200);
+    const replay = await signIn(message);
+    expect(replay.statusCode).toBe(401);
+    expect(JSON.parse(replay.body).error).toBe("Invalid nonce");
+  });
+
+  it("should reject a signature from another wallet", async () => {
+    const message = await buildMessage();
+    const other = privateKeyToAccount(
+      "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a"
+    );
+
+    const response = await signIn(message, await other.signMessage({ message }));
+    expect(response.statusCode).toBe(401);
+    expect(JSON.parse(response.body).error).toBe("Invalid signature");
+  });
+
+  it("should reject messages for another domain, chain or past expiry", async () => {
+    const cases = [
+      { domain: "evil.example.com" },
+      { chainId: 1 },
+      { expirationTime: new Date(Date.now() - 1000) },
+    ];
+
+    for (const overrides of cases) {
+      const response = await signIn(await buildMessage(overrides));
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body).error).toBe("Invalid SIWE message");
+    }
+  });
+
+  it("should reject a message that is not EIP-4361", async () => {
+    const response = await signIn("hello world");
+    expect(response.statusCode).toBe(400);
+  });
+
+  it("should invalidate the session on logout", async () => {
+    const { token } = JSON.parse((await signIn(await buildMessage())).body);
+    const headers = { authorization: `Bearer ${token}` };
+
+    const logout = await app.inject({ method: "POST", url: "/api/auth/logout", headers });
+    expect(logout.statusCode).toBe(200);
+
+    const session = await app.inject({ method: "GET", url: "/api/auth/session", headers });
+    expect(session.statusCode).toBe(401);
+  });
+});
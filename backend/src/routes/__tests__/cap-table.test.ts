@@ -0,0 +1,208 @@
+/**
+ * @file Tests for cap table export routes
+ * @notice Validates GET /api/cap-table/export in CSV and JSON formats, its issuer/admin guard
+ *         and the last indexed block bound
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { capTableRoutes } from "../cap-table";
+import { createSession } from "../../services/db/sessions";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: "0x2222222222222222222222222222222222222222",
+  lastIndexedBlock: 40,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const ISSUER = "0xdddddddddddddddddddddddddddddddddddddddd";
+const E18 = 10n ** 18n;
+
+describe("Cap Table Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+  let company: CompanyRecord;
+  let headers: Record<"bob" | "issuer", Record<string, string>>;
+
+  function sessionHeaders(uid: string, walletAddress: string) {
+    const { token } = createSession(db, {
+      uid,
+      walletAddress,
+      chainId: 31337,
+      ttlSeconds: 3600,
+    });
+    return { authorization: `Bearer ${token}` };
+  }
+
+  function exportCapTable(query = "", requestHeaders = headers.issuer) {
+    return app.inject({
+      method: "GET",
+      url: `/api/companies/1/cap-table/export${query}`,
+      headers: requestHeaders,
+    });
+  }
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    testDbInstance = db;
+
+    // Block 10: issue 1000 to Alice; block 20: Alice → Bob 250; block 30: 2x split
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES
+        (1, '0x01', NULL, '${ALICE}', '${1000n * E18}', 10, 1000, 0, 'ISSUED'),
+        (1, '0x02', '${ALICE}', '${BOB}', '${250n * E18}', 20, 2000, 0, 'TRANSFER')
+    `);
+    db.run(`
+      INSERT INTO split_history (company_id, old_factor, new_factor, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, '${E18}', '${2n * E18}', 30, 3000, 0, '0x03')
+    `);
+    db.run(`
+      INSERT INTO users (uid, email, display_name, wallet_address, role)
+      VALUES
+        ('bob', 'bob@example.com', '=HYPERLINK("x"), Bob', '0xBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBBB', 'investor'),
+        ('issuer', 'issuer@example.com', NULL, '${ISSUER}', 'issuer')
+    `);
+    headers = {
+      bob: sessionHeaders("bob", BOB),
+      issuer: sessionHeaders("issuer", ISSUER),
+    };
+    company = { ...COMPANY };
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = company;
+        });
+        await scoped.register(capTableRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  describe("GET /api/companies/:companyId/cap-table/export", () => {
+    it("should export the last indexed cap table as CSV with display names", async () => {
+      const response = await exportCapTable();
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["content-type"]).toBe("text/csv; charset=utf-8");
+      expect(response.headers["content-disposition"]).toBe(
+        'attachment; filename="cap-table-block-40.csv"'
+      );
+
+      const lines = response.body.replace(/^\uFEFF/, "").trimEnd().split("\r\n");
+      expect(lines).toEqual([
+        "wallet_address,display_name,balance,effective_balance,ownership_percentage",
+        `${ALICE},,750,1500,75.00`,
+        // Formula prefix is neutralized and the field is quoted
+        `${BOB},"'=HYPERLINK(""x""), Bob",250,500,25.00`,
+      ]);
+    });
+
+    it("should export a historical block as JSON with raw amounts", async () => {
+      const response = await exportCapTable("?format=json&block=25");
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["content-disposition"]).toBe(
+        'attachment; filename="cap-table-block-25.json"'
+      );
+
+      const body = JSON.parse(response.body);
+      expect(body).toMatchObject({
+        blockNumber: 25,
+        splitFactor: E18.toString(),
+        totalSupply: (1000n * E18).toString(),
+        totalEffectiveSupply: (1000n * E18).toString(),
+      });
+      expect(body.shareholders).toEqual([
+        {
+          address: ALICE,
+          displayName: null,
+          balance: (750n * E18).toString(),
+          effectiveBalance: (750n * E18).toString(),
+          ownershipPercentage: 75,
+        },
+        {
+          address: BOB,
+          displayName: '=HYPERLINK("x"), Bob',
+          balance: (250n * E18).toString(),
+          effectiveBalance: (250n * E18).toString(),
+          ownershipPercentage: 25,
+        },
+      ]);
+    });
+
+    it("should return 400 for an unsupported format", async () => {
+      const response = await exportCapTable("?format=xml");
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Invalid format parameter");
+    });
+
+    it("should return 400 for invalid or not yet indexed blocks", async () => {
+      for (const block of ["abc", "-1", "41"]) {
+        const response = await exportCapTable(`?block=${block}`);
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body).error).toBe("Invalid block parameter");
+      }
+    });
+
+    it("should return 409 before the indexer has processed a block", async () => {
+      company.lastIndexedBlock = null;
+
+      const response = await exportCapTable();
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toBe("Cap table not indexed yet");
+    });
+
+    it("should require an issuer or admin session", async () => {
+      const anonymous = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/cap-table/export",
+      });
+      expect(anonymous.statusCode).toBe(401);
+
+      const investor = await exportCapTable("", headers.bob);
+      expect(investor.statusCode).toBe(403);
+    });
+  });
+});
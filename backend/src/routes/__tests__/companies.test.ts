@@ -0,0 +1,112 @@
+/**
+ * @file Tests for company registry API routes
+ * @notice Validates GET /api/companies and GET /api/companies/:companyId
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+const ACME_TOKEN = "0x1111111111111111111111111111111111111111";
+const ACME_REPLACEMENT = "0x3333333333333333333333333333333333333333";
+const GLOBEX_TOKEN = "0x2222222222222222222222222222222222222222";
+const FACTORY = "0x4444444444444444444444444444444444444444";
+
+// Mock the contracts config
+mock.module("../../config/contracts", () => ({
+  CHAIN_ID: 31337,
+  DEPLOYMENTS: [],
+  FACTORY_ADDRESS: FACTORY,
+  ABIS: { capTable: [], token: [], factory: [] },
+}));
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { companiesRoutes } from "../companies";
+
+describe("Company Registry Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    testDbInstance = db;
+
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, last_indexed_block, created_at)
+      VALUES
+        (1, 'AcmeInc', 31337, '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', '${ACME_TOKEN}', 120, 0),
+        (2, 'Globex', 31337, '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', '${GLOBEX_TOKEN}', NULL, 0)
+    `);
+    db.run(`
+      INSERT INTO token_versions (company_id, token_address, previous_token_address, migration_block, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, '${ACME_REPLACEMENT}', '${ACME_TOKEN}', 15, 20, 2000, 1, '0x20')
+    `);
+
+    app = Fastify({ logger: false });
+    await app.register(companiesRoutes, { prefix: "/api" });
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  it("should list every company with its active token and the factory", async () => {
+    const response = await app.inject({ method: "GET", url: "/api/companies" });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({
+      companies: [
+        {
+          id: 1,
+          name: "AcmeInc",
+          chainId: 31337,
+          capTableAddress: "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa",
+          tokenAddress: ACME_REPLACEMENT,
+          lastIndexedBlock: 120,
+        },
+        {
+          id: 2,
+          name: "Globex",
+          chainId: 31337,
+          capTableAddress: "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb",
+          tokenAddress: GLOBEX_TOKEN,
+          lastIndexedBlock: null,
+        },
+      ],
+      factoryAddress: FACTORY,
+    });
+  });
+
+  it("should return a single company", async () => {
+    const response = await app.inject({ method: "GET", url: "/api/companies/2" });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({ id: 2, name: "Globex" });
+  });
+
+  it("should return 404 for an unknown company", async () => {
+    const response = await app.inject({ method: "GET", url: "/api/companies/9" });
+
+    expect(response.statusCode).toBe(404);
+    expect(JSON.parse(response.body)).toEqual({
+      error: "Company not found",
+      message: "No company registered with id 9",
+    });
+  });
+});
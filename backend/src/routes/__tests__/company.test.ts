@@ -1,16 +1,31 @@
 /**
  * @file Tests for company information API routes
- * @notice Validates GET /api/company and GET /api/company/metadata endpoints
+ * @notice Validates GET /api/company, GET /api/company/metadata, GET /api/company/stats and
+ *         GET /api/company/authorized-shares endpoints
  */
 
-import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
 import Fastify from "fastify";
-import { companyRoutes } from "../company";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
 
-// Mock the database module (if needed)
-const mockQuery = mock();
+// Mock the database module with an in-memory database for symbol history
+let testDbInstance: Database | null = null;
 const mockQueryOne = mock();
 
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+  queryOne: mockQueryOne,
+}));
+
 // Mock the chain client module
 const mockGetPublicClient = mock();
 const mockSafeRead = mock();
@@ -25,25 +40,53 @@ mock.module("../../services/chain/utils", () => ({
 
 // Mock the contracts config
 mock.module("../../config/contracts", () => ({
-  CONTRACTS: {
-    capTable: {
-      address: "0x1234567890123456789012345678901234567890" as `0x${string}`,
-      abi: [],
-    },
-  },
+  CHAIN_ID: 31337,
+  DEPLOYMENTS: [],
+  ABIS: { capTable: [], token: [] },
 }));
 
+// Import routes AFTER mocks are set up
+import { companyRoutes } from "../company";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: "0x2222222222222222222222222222222222222222",
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
 describe("Company Routes", () => {
   let app: ReturnType<typeof Fastify>;
+  let db: Database;
 
   beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    testDbInstance = db;
+
     // Create a new Fastify instance for each test
     app = Fastify({
       logger: false,
     });
 
     // Register company routes with /api prefix
-    app.register(companyRoutes, { prefix: "/api" });
+    app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(companyRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
 
     // Create a mock public client object
     const mockPublicClient = {
@@ -55,7 +98,12 @@ describe("Company Routes", () => {
     mockSafeRead.mockReset();
   });
 
-  describe("GET /api/company", () => {
+  afterEach(() => {
+    testDbInstance = null;
+    db.close();
+  });
+
+  describe("GET /api/companies/:companyId/company", () => {
     it("should return full company details when contract read succeeds", async () => {
       const mockCompanyInfo: [string, string, `0x${string}`, `0x${string}`, bigint] = [
         "Acme Inc.",
@@ -69,7 +117,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company",
+        url: "/api/companies/1/company",
       });
 
       expect(response.statusCode).toBe(200);
@@ -83,6 +131,7 @@ describe("Company Routes", () => {
         capTableAddress: "0x1234567890123456789012345678901234567890",
         createdAt: 1725349933,
         isTokenLinked: true,
+        symbolHistory: [],
       });
 
       expect(mockSafeRead).toHaveBeenCalledWith(
@@ -108,7 +157,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company",
+        url: "/api/companies/1/company",
       });
 
       expect(response.statusCode).toBe(200);
@@ -122,7 +171,40 @@ describe("Company Routes", () => {
         capTableAddress: "0x1234567890123456789012345678901234567890",
         createdAt: 1725349933,
         isTokenLinked: false,
+        symbolHistory: [],
+      });
+    });
+
+    it("should return the current symbol with the indexed symbol history", async () => {
+      const mockCompanyInfo: [string, string, `0x${string}`, `0x${string}`, bigint] = [
+        "Acme Inc.",
+        "ACME2",
+        "0x1111111111111111111111111111111111111111" as `0x${string}`,
+        "0x2222222222222222222222222222222222222222" as `0x${string}`,
+        BigInt(1725349933),
+      ];
+      mockSafeRead.mockResolvedValue(mockCompanyInfo);
+
+      db.run(`
+        INSERT INTO symbol_history (company_id, old_symbol, new_symbol, block_number, block_timestamp, log_index, tx_hash)
+        VALUES
+          (1, 'ACME', 'ACME2', 20, 2000, 0, '0x02'),
+          (1, NULL, 'ACME', 10, 1000, 1, '0x01')
+      `);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/company",
       });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.symbol).toBe("ACME2");
+      expect(body.symbolHistory).toEqual([
+        { oldSymbol: null, newSymbol: "ACME", blockNumber: 10, blockTimestamp: 1000, txHash: "0x01" },
+        { oldSymbol: "ACME", newSymbol: "ACME2", blockNumber: 20, blockTimestamp: 2000, txHash: "0x02" },
+      ]);
     });
 
     it("should return 404 when contract read fails", async () => {
@@ -130,7 +212,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company",
+        url: "/api/companies/1/company",
       });
 
       expect(response.statusCode).toBe(404);
@@ -148,7 +230,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company",
+        url: "/api/companies/1/company",
       });
 
       // safeRead catches errors and returns null, so we get 404
@@ -162,7 +244,7 @@ describe("Company Routes", () => {
     });
   });
 
-  describe("GET /api/company/metadata", () => {
+  describe("GET /api/companies/:companyId/company/metadata", () => {
     it("should return company metadata when all contract reads succeed", async () => {
       mockSafeRead
         .mockResolvedValueOnce("Acme Inc.") // name
@@ -174,7 +256,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company/metadata",
+        url: "/api/companies/1/company/metadata",
       });
 
       expect(response.statusCode).toBe(200);
@@ -203,7 +285,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company/metadata",
+        url: "/api/companies/1/company/metadata",
       });
 
       expect(response.statusCode).toBe(200);
@@ -230,7 +312,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company/metadata",
+        url: "/api/companies/1/company/metadata",
       });
 
       expect(response.statusCode).toBe(404);
@@ -248,7 +330,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company/metadata",
+        url: "/api/companies/1/company/metadata",
       });
 
       // safeRead catches errors and returns null, so we get 404
@@ -272,7 +354,7 @@ describe("Company Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/company/metadata",
+        url: "/api/companies/1/company/metadata",
       });
 
       expect(response.statusCode).toBe(404);
@@ -284,5 +366,112 @@ describe("Company Routes", () => {
       });
     });
   });
-});
 
+  describe("GET /api/companies/:companyId/company/stats", () => {
+    const TOKEN = "0x2222222222222222222222222222222222222222";
+    const PAUSER = "0x1111111111111111111111111111111111111111";
+
+    beforeEach(() => {
+      mockSafeRead.mockImplementation(async (_client: unknown, { functionName }: { functionName: string }) => {
+        switch (functionName) {
+          case "getCompanyInfo":
+            return ["Acme Inc.", "ACME", PAUSER, TOKEN, BigInt(1725349933)];
+          case "totalAuthorized":
+            return BigInt(1000);
+          case "totalSupply":
+            return BigInt(400);
+          case "splitFactor":
+            return BigInt(1e18);
+          default:
+            return null;
+        }
+      });
+      mockQueryOne.mockReturnValue({ count: 2 });
+    });
+
+    it("should report an unpaused token when no pause was indexed", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/company/stats",
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({
+        tokenAddress: TOKEN,
+        totalShareholders: 2,
+        totalAuthorized: "1000",
+        totalOutstanding: "400",
+        paused: false,
+        pausedAt: null,
+        pausedBy: null,
+      });
+    });
+
+    it("should report the latest indexed pause of the token", async () => {
+      db.run(`
+        INSERT INTO pause_history (company_id, token_address, paused, account, block_number, block_timestamp, log_index, tx_hash)
+        VALUES
+          (1, '${TOKEN}', 1, '${PAUSER}', 10, 1000, 0, '0x10'),
+          (1, '${TOKEN}', 0, '${PAUSER}', 11, 1100, 0, '0x11'),
+          (1, '${TOKEN}', 1, '${PAUSER}', 12, 1200, 0, '0x12')
+      `);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/company/stats",
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({
+        paused: true,
+        pausedAt: 1200,
+        pausedBy: PAUSER,
+      });
+    });
+  });
+
+  describe("GET /api/companies/:companyId/company/authorized-shares", () => {
+    const TOKEN = "0x2222222222222222222222222222222222222222";
+    const ALICE = "0x1111111111111111111111111111111111111111";
+
+    it("should return the authorized shares history with the outstanding supply", async () => {
+      db.run(`
+        INSERT INTO authorized_shares_history (company_id, token_address, old_authorized, new_authorized, block_number, block_timestamp, log_index, tx_hash)
+        VALUES
+          (1, '${TOKEN}', NULL, '1000', 10, 1000, 0, '0x10'),
+          (1, '${TOKEN}', '1000', '1500', 20, 2000, 0, '0x20')
+      `);
+      db.run(`
+        INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+        VALUES (1, '0x11', NULL, '${ALICE}', '900', 11, 1100, 0, 'ISSUED')
+      `);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/company/authorized-shares",
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).history).toEqual([
+        {
+          tokenAddress: TOKEN,
+          oldAuthorized: null,
+          newAuthorized: "1000",
+          outstanding: "0",
+          blockNumber: 10,
+          blockTimestamp: 1000,
+          txHash: "0x10",
+        },
+        {
+          tokenAddress: TOKEN,
+          oldAuthorized: "1000",
+          newAuthorized: "1500",
+          outstanding: "900",
+          blockNumber: 20,
+          blockTimestamp: 2000,
+          txHash: "0x20",
+        },
+      ]);
+    });
+  });
+});
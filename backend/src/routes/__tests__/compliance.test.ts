@@ -0,0 +1,167 @@
+/**
+ * @file Tests for compliance API routes
+ * @notice Validates GET /api/compliance and GET /api/compliance/history
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const CLASS_TOKEN = "0x2222222222222222222222222222222222222222";
+const COMPLIANCE = "0xc000000000000000000000000000000000000000";
+const MODULE = "0xa000000000000000000000000000000000000000";
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { complianceRoutes } from "../compliance";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: TOKEN,
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+describe("Compliance Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    db.run(`
+      INSERT INTO share_classes (company_id, class_id, name, token_address, authorized_shares, liquidation_preference, conversion_ratio, seniority, block_number, log_index)
+      VALUES (1, 1, 'Series A', '${CLASS_TOKEN}', '1000', '1000000000000000000', '1000000000000000000', 1, 5, 0)
+    `);
+    db.run(`
+      INSERT INTO compliance_config_history (company_id, token_address, contract_address, config_type, compliance_address, module_address, module_name, wallet, value, block_number, block_timestamp, log_index, tx_hash)
+      VALUES
+        (1, '${CLASS_TOKEN}', '${COMPLIANCE}', 'MODULE_ADDED', NULL, '${MODULE}', 'AccreditedInvestor', NULL, NULL, 10, 1000, 0, '0x10'),
+        (1, '${CLASS_TOKEN}', '${CLASS_TOKEN}', 'COMPLIANCE_SET', '${COMPLIANCE}', NULL, NULL, NULL, NULL, 11, 1100, 0, '0x11'),
+        (1, '${CLASS_TOKEN}', '${MODULE}', 'ACCREDITATION', NULL, NULL, NULL, '${ALICE}', 1, 12, 1200, 0, '0x12')
+    `);
+    testDbInstance = db;
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(complianceRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  describe("GET /api/compliance", () => {
+    it("should return the settings of the active and share class tokens", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/compliance",
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        tokens: [
+          {
+            tokenAddress: TOKEN,
+            complianceAddress: null,
+            shareClass: null,
+            modules: [],
+          },
+          {
+            tokenAddress: CLASS_TOKEN,
+            complianceAddress: COMPLIANCE,
+            shareClass: { classId: 1, name: "Series A" },
+            modules: [
+              {
+                address: MODULE,
+                name: "AccreditedInvestor",
+                addedAtBlock: 10,
+                accreditedWallets: [ALICE],
+              },
+            ],
+          },
+        ],
+      });
+    });
+  });
+
+  describe("GET /api/compliance/history", () => {
+    it("should return the changes of the requested token", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/compliance/history?tokenAddress=${CLASS_TOKEN}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.tokenAddress).toBe(CLASS_TOKEN);
+      expect(body.changes.map((change: any) => change.configType)).toEqual([
+        "MODULE_ADDED",
+        "COMPLIANCE_SET",
+        "ACCREDITATION",
+      ]);
+      expect(body.changes[2]).toMatchObject({
+        contractAddress: MODULE,
+        wallet: ALICE,
+        value: 1,
+        txHash: "0x12",
+      });
+    });
+
+    it("should default to the active token", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/compliance/history",
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        tokenAddress: TOKEN,
+        changes: [],
+      });
+    });
+
+    it("should return 400 for an invalid token address", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/compliance/history?tokenAddress=0x123",
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Invalid address format");
+    });
+  });
+});
@@ -3,42 +3,36 @@
  * @notice Validates GET /api/corporate-actions and GET /api/snapshots/:block endpoints
  */
 
-import { describe, it, expect, beforeEach, mock } from "bun:test";
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
 import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
 import { corporateActionsRoutes } from "../corporate-actions";
 
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: "0x2222222222222222222222222222222222222222",
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
 // Mock the database module
+// Snapshots are served from an in-memory database returned by connect()
 const mockQuery = mock();
 const mockQueryOne = mock();
+const mockConnect = mock();
 
-mock.module("../../db/index", () => ({
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
   query: mockQuery,
   queryOne: mockQueryOne,
-}));
-
-// Mock the chain client module
-const mockGetPublicClient = mock();
-const mockSafeRead = mock();
-const mockPublicClient = {
-  // Mock public client object
-};
-
-mock.module("../../services/chain/client", () => ({
-  getPublicClient: mockGetPublicClient,
-}));
-
-mock.module("../../services/chain/utils", () => ({
-  safeRead: mockSafeRead,
-}));
-
-// Mock the contracts config
-mock.module("../../config/contracts", () => ({
-  CONTRACTS: {
-    token: {
-      address: "0x2222222222222222222222222222222222222222" as `0x${string}`,
-      abi: [],
-    },
-  },
+  connect: mockConnect,
 }));
 
 describe("Corporate Actions Routes", () => {
@@ -51,18 +45,23 @@ describe("Corporate Actions Routes", () => {
     });
 
     // Register corporate actions routes with /api prefix
-    app.register(corporateActionsRoutes, { prefix: "/api" });
+    app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(corporateActionsRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
 
     // Reset mocks between tests
     mockQuery.mockReset();
     mockQueryOne.mockReset();
-    mockGetPublicClient.mockReset();
-    mockSafeRead.mockReset();
-    // Default mock for getPublicClient to return a mock client
-    mockGetPublicClient.mockReturnValue(mockPublicClient);
+    mockConnect.mockReset();
   });
 
-  describe("GET /api/corporate-actions", () => {
+  describe("GET /api/companies/:companyId/corporate-actions", () => {
     it("should return paginated corporate actions without filters", async () => {
       const mockActions = [
         {
@@ -88,7 +87,7 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions",
+        url: "/api/companies/1/corporate-actions",
       });
 
       expect(response.statusCode).toBe(200);
@@ -104,12 +103,12 @@ describe("Corporate Actions Routes", () => {
       });
 
       expect(mockQueryOne).toHaveBeenCalledWith(
-        "SELECT COUNT(*) as count FROM corporate_actions ",
-        []
+        "SELECT COUNT(*) as count FROM corporate_actions WHERE company_id = ?",
+        [1]
       );
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining("SELECT"),
-        [50, 0]
+        [1, 50, 0]
       );
     });
 
@@ -119,7 +118,7 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions?limit=10&offset=20",
+        url: "/api/companies/1/corporate-actions?limit=10&offset=20",
       });
 
       expect(response.statusCode).toBe(200);
@@ -133,7 +132,7 @@ describe("Corporate Actions Routes", () => {
 
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining("SELECT"),
-        [10, 20]
+        [1, 10, 20]
       );
     });
 
@@ -143,7 +142,7 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions?limit=200",
+        url: "/api/companies/1/corporate-actions?limit=200",
       });
 
       expect(response.statusCode).toBe(200);
@@ -152,7 +151,7 @@ describe("Corporate Actions Routes", () => {
       expect(body.pagination.limit).toBe(100);
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining("SELECT"),
-        [100, 0]
+        [1, 100, 0]
       );
     });
 
@@ -173,7 +172,7 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions?actionType=SPLIT",
+        url: "/api/companies/1/corporate-actions?actionType=SPLIT",
       });
 
       expect(response.statusCode).toBe(200);
@@ -183,7 +182,7 @@ describe("Corporate Actions Routes", () => {
       expect(body.corporateActions[0].actionType).toBe("SPLIT");
       expect(mockQueryOne).toHaveBeenCalledWith(
         expect.stringContaining("action_type = ?"),
-        ["SPLIT"]
+        [1, "SPLIT"]
       );
     });
 
@@ -193,13 +192,13 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions?fromDate=1725349933",
+        url: "/api/companies/1/corporate-actions?fromDate=1725349933",
       });
 
       expect(response.statusCode).toBe(200);
       expect(mockQueryOne).toHaveBeenCalledWith(
         expect.stringContaining("block_timestamp >= ?"),
-        [1725349933]
+        [1, 1725349933]
       );
     });
 
@@ -209,20 +208,20 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions?toDate=1725349933",
+        url: "/api/companies/1/corporate-actions?toDate=1725349933",
       });
 
       expect(response.statusCode).toBe(200);
       expect(mockQueryOne).toHaveBeenCalledWith(
         expect.stringContaining("block_timestamp <= ?"),
-        [1725349933]
+        [1, 1725349933]
       );
     });
 
     it("should return 400 for invalid fromDate", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions?fromDate=invalid",
+        url: "/api/companies/1/corporate-actions?fromDate=invalid",
       });
 
       expect(response.statusCode).toBe(400);
@@ -237,7 +236,7 @@ describe("Corporate Actions Routes", () => {
     it("should return 400 for invalid toDate", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions?toDate=invalid",
+        url: "/api/companies/1/corporate-actions?toDate=invalid",
       });
 
       expect(response.statusCode).toBe(400);
@@ -255,7 +254,7 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions?actionType=SPLIT&fromDate=1725349933&toDate=1725349999",
+        url: "/api/companies/1/corporate-actions?actionType=SPLIT&fromDate=1725349933&toDate=1725349999",
       });
 
       expect(response.statusCode).toBe(200);
@@ -271,7 +270,7 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions",
+        url: "/api/companies/1/corporate-actions",
       });
 
       expect(response.statusCode).toBe(200);
@@ -298,7 +297,7 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions",
+        url: "/api/companies/1/corporate-actions",
       });
 
       expect(response.statusCode).toBe(200);
@@ -314,7 +313,7 @@ describe("Corporate Actions Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/corporate-actions",
+        url: "/api/companies/1/corporate-actions",
       });
 
       expect(response.statusCode).toBe(500);
@@ -327,21 +326,41 @@ describe("Corporate Actions Routes", () => {
     });
   });
 
-  describe("GET /api/snapshots/:block", () => {
-    it("should return snapshot for valid block number", async () => {
-      const mockShareholders = [
-        { address: "0x1111111111111111111111111111111111111111" },
-        { address: "0x2222222222222222222222222222222222222222" },
-      ];
+  describe("GET /api/companies/:companyId/snapshots/:block", () => {
+    const HOLDER_A = "0x1111111111111111111111111111111111111111";
+    const HOLDER_B = "0x2222222222222222222222222222222222222222";
+    let db: Database;
+
+    beforeEach(() => {
+      db = new Database(":memory:");
+      migrate(db);
+      db.run(`
+        INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+        VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+      `);
+      mockConnect.mockReturnValue(db);
+
+      // Block 10: issue 3 to A; block 50: A → B 1; block 150: 2x split
+      db.run(`
+        INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+        VALUES
+          (1, '0x01', NULL, '${HOLDER_A}', '3000000000000000000', 10, 1000, 0, 'ISSUED'),
+          (1, '0x02', '${HOLDER_A}', '${HOLDER_B}', '1000000000000000000', 50, 1500, 0, 'TRANSFER')
+      `);
+      db.run(`
+        INSERT INTO split_history (company_id, old_factor, new_factor, block_number, block_timestamp, log_index, tx_hash)
+        VALUES (1, '1000000000000000000', '2000000000000000000', 150, 2500, 0, '0x03')
+      `);
+    });
 
-      mockQuery.mockReturnValueOnce(mockShareholders);
-      mockSafeRead
-        .mockResolvedValueOnce(BigInt("1000000000000000000"))
-        .mockResolvedValueOnce(BigInt("2000000000000000000"));
+    afterEach(() => {
+      db.close();
+    });
 
+    it("should return snapshot for valid block number", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/snapshots/100",
+        url: "/api/companies/1/snapshots/100",
       });
 
       expect(response.statusCode).toBe(200);
@@ -349,60 +368,68 @@ describe("Corporate Actions Routes", () => {
 
       expect(body).toEqual({
         blockNumber: 100,
+        splitFactor: "1000000000000000000",
+        totalSupply: "3000000000000000000",
+        totalEffectiveSupply: "3000000000000000000",
         shareholders: [
           {
-            address: "0x1111111111111111111111111111111111111111",
-            balance: "1000000000000000000",
+            address: HOLDER_A,
+            balance: "2000000000000000000",
+            effectiveBalance: "2000000000000000000",
+            ownershipPercentage: 66.66,
+            lastUpdatedBlock: 50,
           },
           {
-            address: "0x2222222222222222222222222222222222222222",
-            balance: "2000000000000000000",
+            address: HOLDER_B,
+            balance: "1000000000000000000",
+            effectiveBalance: "1000000000000000000",
+            ownershipPercentage: 33.33,
+            lastUpdatedBlock: 50,
           },
         ],
       });
-
-      expect(mockQuery).toHaveBeenCalledWith(
-        "SELECT address FROM shareholders"
-      );
-      expect(mockSafeRead).toHaveBeenCalledTimes(2);
     });
 
-    it("should return empty snapshot when no shareholders exist", async () => {
-      mockQuery.mockReturnValueOnce([]);
-
+    it("should apply the split factor in effect at the block", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/snapshots/100",
+        url: "/api/companies/1/snapshots/200",
       });
 
       expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
 
-      expect(body).toEqual({
-        blockNumber: 100,
-        shareholders: [],
+      expect(body.splitFactor).toBe("2000000000000000000");
+      expect(body.totalEffectiveSupply).toBe("6000000000000000000");
+      expect(body.shareholders[0]).toMatchObject({
+        address: HOLDER_A,
+        balance: "2000000000000000000",
+        effectiveBalance: "4000000000000000000",
       });
     });
 
-    it("should return 400 for invalid block number (non-numeric)", async () => {
+    it("should return empty snapshot before any shares were issued", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/snapshots/invalid",
+        url: "/api/companies/1/snapshots/5",
       });
 
-      expect(response.statusCode).toBe(400);
+      expect(response.statusCode).toBe(200);
       const body = JSON.parse(response.body);
 
       expect(body).toEqual({
-        error: "Invalid block number",
-        message: "Block number must be a valid non-negative integer",
+        blockNumber: 5,
+        splitFactor: "1000000000000000000",
+        totalSupply: "0",
+        totalEffectiveSupply: "0",
+        shareholders: [],
       });
     });
 
-    it("should return 400 for negative block number", async () => {
+    it("should return 400 for invalid block number (non-numeric)", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/snapshots/-1",
+        url: "/api/companies/1/snapshots/invalid",
       });
 
       expect(response.statusCode).toBe(400);
@@ -414,33 +441,29 @@ describe("Corporate Actions Routes", () => {
       });
     });
 
-    it("should handle contract read failures gracefully", async () => {
-      const mockShareholders = [
-        { address: "0x1111111111111111111111111111111111111111" },
-      ];
-
-      mockQuery.mockReturnValueOnce(mockShareholders);
-      mockSafeRead.mockResolvedValueOnce(null); // safeRead returns null on failure
-
+    it("should return 400 for negative block number", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/snapshots/100",
+        url: "/api/companies/1/snapshots/-1",
       });
 
-      expect(response.statusCode).toBe(200);
+      expect(response.statusCode).toBe(400);
       const body = JSON.parse(response.body);
 
-      expect(body.shareholders[0].balance).toBe("0");
+      expect(body).toEqual({
+        error: "Invalid block number",
+        message: "Block number must be a valid non-negative integer",
+      });
     });
 
     it("should handle database errors gracefully", async () => {
-      mockQuery.mockImplementation(() => {
+      mockConnect.mockImplementation(() => {
         throw new Error("Database error");
       });
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/snapshots/100",
+        url: "/api/companies/1/snapshots/100",
       });
 
       expect(response.statusCode).toBe(500);
@@ -453,4 +476,3 @@ describe("Corporate Actions Routes", () => {
     });
   });
 });
-
@@ -0,0 +1,163 @@
+/**
+ * @file Tests for issuance API routes
+ * @notice Validates POST /api/issuances/validate
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const ISSUER = "0xdddddddddddddddddddddddddddddddddddddddd";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { issuancesRoutes } from "../issuances";
+import { createSession } from "../../services/db/sessions";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: TOKEN,
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+describe("Issuance Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+  let headers: Record<"alice" | "issuer", Record<string, string>>;
+
+  function sessionHeaders(uid: string, walletAddress: string) {
+    const { token } = createSession(db, {
+      uid,
+      walletAddress,
+      chainId: 31337,
+      ttlSeconds: 3600,
+    });
+    return { authorization: `Bearer ${token}` };
+  }
+
+  function validate(payload: object, user: keyof typeof headers = "issuer") {
+    return app.inject({
+      method: "POST",
+      url: "/api/companies/1/issuances/validate",
+      headers: headers[user],
+      payload,
+    });
+  }
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    testDbInstance = db;
+
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    db.run(`
+      INSERT INTO users (uid, email, wallet_address, role)
+      VALUES
+        ('alice', 'alice@example.com', '${ALICE}', 'investor'),
+        ('bob', 'bob@example.com', '${BOB}', 'investor'),
+        ('issuer', 'issuer@example.com', '${ISSUER}', 'issuer')
+    `);
+    db.run(`
+      INSERT INTO allowlist_history (company_id, wallet_address, approved, block_number, log_index)
+      VALUES (1, '${ALICE}', 1, 1, 0)
+    `);
+    db.run(`
+      INSERT INTO authorized_shares_history (company_id, token_address, old_authorized, new_authorized, block_number, log_index)
+      VALUES (1, '${TOKEN}', NULL, '1000', 1, 0)
+    `);
+    headers = {
+      alice: sessionHeaders("alice", ALICE),
+      issuer: sessionHeaders("issuer", ISSUER),
+    };
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(issuancesRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  it("should validate the rows of a batch issuance", async () => {
+    const response = await validate({
+      rows: [
+        { walletAddress: ALICE, amount: "100" },
+        { walletAddress: BOB, amount: "200" },
+      ],
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      tokenAddress: TOKEN,
+      rows: [
+        { index: 0, walletAddress: ALICE, linked: true, approved: true, errors: [] },
+        { index: 1, walletAddress: BOB, linked: true, approved: false, errors: [] },
+      ],
+      totalAmount: "300",
+      totalAuthorized: "1000",
+      totalOutstanding: "0",
+      headroom: "1000",
+      withinHeadroom: true,
+      paused: false,
+      unapprovedWallets: [BOB],
+      valid: false,
+    });
+  });
+
+  it("should reject empty batches and malformed amounts", async () => {
+    expect((await validate({ rows: [] })).statusCode).toBe(400);
+    expect(
+      (await validate({ rows: [{ walletAddress: ALICE, amount: "1.5" }] })).statusCode
+    ).toBe(400);
+  });
+
+  it("should only allow issuers and admins", async () => {
+    const payload = { rows: [{ walletAddress: ALICE, amount: "1" }] };
+
+    expect((await validate(payload, "alice")).statusCode).toBe(403);
+    expect(
+      (
+        await app.inject({
+          method: "POST",
+          url: "/api/companies/1/issuances/validate",
+          payload,
+        })
+      ).statusCode
+    ).toBe(401);
+  });
+});
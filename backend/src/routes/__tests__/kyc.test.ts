@@ -0,0 +1,261 @@
+/**
+ * @file Tests for KYC onboarding routes
+ * @notice Validates submission, role checks and review transitions over HTTP
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { kycRoutes } from "../kyc";
+import { createSession } from "../../services/db/sessions";
+
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const ISSUER = "0xdddddddddddddddddddddddddddddddddddddddd";
+
+const validBody = {
+  fullName: "Alice Example",
+  jurisdiction: "de",
+  accreditationStatus: "non_accredited",
+  documentHashes: [`0x${"12".repeat(32)}`],
+};
+
+describe("KYC Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+  let headers: Record<"alice" | "bob" | "issuer", Record<string, string>>;
+
+  function sessionHeaders(uid: string, walletAddress: string) {
+    const { token } = createSession(db, {
+      uid,
+      walletAddress,
+      chainId: 31337,
+      ttlSeconds: 3600,
+    });
+    return { authorization: `Bearer ${token}` };
+  }
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    testDbInstance = db;
+
+    db.run(`
+      INSERT INTO users (uid, email, wallet_address, role)
+      VALUES
+        ('alice', 'alice@example.com', '${ALICE}', 'investor'),
+        ('bob', 'bob@example.com', '${BOB}', 'investor'),
+        ('issuer', 'issuer@example.com', '${ISSUER}', 'issuer')
+    `);
+    headers = {
+      alice: sessionHeaders("alice", ALICE),
+      bob: sessionHeaders("bob", BOB),
+      issuer: sessionHeaders("issuer", ISSUER),
+    };
+
+    app = Fastify({ logger: false });
+    await app.register(kycRoutes, { prefix: "/api" });
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  async function submitAsAlice() {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/kyc/requests",
+      headers: headers.alice,
+      payload: validBody,
+    });
+    return JSON.parse(response.body).request as { id: number };
+  }
+
+  function review(id: number, action: "review" | "approve" | "deny", payload: object = {}) {
+    return app.inject({
+      method: "POST",
+      url: `/api/kyc/requests/${id}/${action}`,
+      headers: headers.issuer,
+      payload,
+    });
+  }
+
+  describe("POST /api/kyc/requests", () => {
+    it("should create a submitted request for the session wallet", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/kyc/requests",
+        headers: headers.alice,
+        payload: validBody,
+      });
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.request).toMatchObject({
+        uid: "alice",
+        walletAddress: ALICE,
+        fullName: "Alice Example",
+        jurisdiction: "DE",
+        accreditationStatus: "non_accredited",
+        status: "submitted",
+        decisionReason: null,
+      });
+      expect(body.transitions).toHaveLength(1);
+    });
+
+    it("should reject a second request while one is open", async () => {
+      await submitAsAlice();
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/kyc/requests",
+        headers: headers.alice,
+        payload: validBody,
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).error).toBe("KYC request already open");
+    });
+
+    it("should reject malformed document hashes", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/kyc/requests",
+        headers: headers.alice,
+        payload: { ...validBody, documentHashes: ["passport.pdf"] },
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it("should only accept submissions from investors", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/kyc/requests",
+        headers: headers.issuer,
+        payload: validBody,
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+  });
+
+  describe("review flow", () => {
+    it("should keep the review queue issuer/admin only", async () => {
+      await submitAsAlice();
+
+      const denied = await app.inject({
+        method: "GET",
+        url: "/api/kyc/requests",
+        headers: headers.alice,
+      });
+      expect(denied.statusCode).toBe(403);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/kyc/requests?status=submitted",
+        headers: headers.issuer,
+      });
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.total).toBe(1);
+      expect(body.requests[0].uid).toBe("alice");
+    });
+
+    it("should move a request through review to approval", async () => {
+      const { id } = await submitAsAlice();
+
+      expect((await review(id, "review")).statusCode).toBe(200);
+      const response = await review(id, "approve", { reason: "Documents verified" });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.request).toMatchObject({
+        status: "approved",
+        reviewerUid: "issuer",
+        decisionReason: "Documents verified",
+      });
+      expect(body.transitions.map((t: { toStatus: string }) => t.toStatus)).toEqual([
+        "submitted",
+        "under_review",
+        "approved",
+      ]);
+
+      // The investor sees the decision on their own request
+      const mine = await app.inject({
+        method: "GET",
+        url: "/api/kyc/requests/me",
+        headers: headers.alice,
+      });
+      expect(JSON.parse(mine.body).request.status).toBe("approved");
+    });
+
+    it("should reject transitions that skip a step", async () => {
+      const { id } = await submitAsAlice();
+
+      const response = await review(id, "approve");
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body)).toEqual({
+        error: "Invalid state transition",
+        message: `Cannot move KYC request ${id} from submitted to approved`,
+      });
+    });
+
+    it("should require a reason to deny and allow resubmission afterwards", async () => {
+      const { id } = await submitAsAlice();
+      await review(id, "review");
+
+      expect((await review(id, "deny")).statusCode).toBe(400);
+
+      const response = await review(id, "deny", { reason: "Name does not match ID" });
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).request.status).toBe("denied");
+
+      const resubmitted = await app.inject({
+        method: "POST",
+        url: "/api/kyc/requests",
+        headers: headers.alice,
+        payload: validBody,
+      });
+      expect(resubmitted.statusCode).toBe(201);
+    });
+
+    it("should return 404 for unknown requests and other investors' requests", async () => {
+      const { id } = await submitAsAlice();
+
+      expect((await review(999, "review")).statusCode).toBe(404);
+
+      const asBob = await app.inject({
+        method: "GET",
+        url: `/api/kyc/requests/${id}`,
+        headers: headers.bob,
+      });
+      expect(asBob.statusCode).toBe(404);
+
+      const asIssuer = await app.inject({
+        method: "GET",
+        url: `/api/kyc/requests/${id}`,
+        headers: headers.issuer,
+      });
+      expect(asIssuer.statusCode).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * @file Tests for lockup API routes
+ * @notice Validates GET /api/lockups and GET /api/lockups/:address
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { lockupsRoutes } from "../lockups";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: TOKEN,
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+describe("Lockup Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    db.run(`
+      INSERT INTO lockup_history (company_id, token_address, lockup_type, wallet, value, block_number, block_timestamp, log_index, tx_hash)
+      VALUES
+        (1, '${TOKEN}', 'GLOBAL', NULL, 5000, 10, 1000, 0, '0x10'),
+        (1, '${TOKEN}', 'HOLDING_PERIOD', NULL, 86400, 11, 1100, 0, '0x11'),
+        (1, '${TOKEN}', 'WALLET', '${ALICE}', 8000, 12, 1200, 0, '0x12'),
+        (1, '${TOKEN}', 'WALLET', '${BOB}', 3000, 13, 1300, 0, '0x13'),
+        (1, '${TOKEN}', 'WALLET', '${BOB}', 0, 14, 1400, 0, '0x14')
+    `);
+    testDbInstance = db;
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(lockupsRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  describe("GET /api/lockups", () => {
+    it("should return the global lock-up, holding period and wallet lock-ups", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/lockups?timestamp=6000",
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        tokenAddress: TOKEN,
+        asOf: 6000,
+        globalLockupUntil: 5000,
+        globalLockupActive: false,
+        holdingPeriod: 86400,
+        wallets: [
+          {
+            wallet: ALICE,
+            lockupUntil: 8000,
+            active: true,
+            blockNumber: 12,
+            txHash: "0x12",
+          },
+        ],
+      });
+    });
+  });
+
+  describe("GET /api/lockups/:address", () => {
+    it("should explain which lock-up blocks the wallet", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/lockups/${ALICE}?timestamp=4000`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({
+        wallet: ALICE,
+        walletLockupUntil: 8000,
+        lockedUntil: 8000,
+        locked: true,
+        reason: "WALLET",
+      });
+    });
+
+    it("should report a lifted wallet lock-up as unlocked once the global one ends", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/lockups/${BOB}?timestamp=5000`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({
+        walletLockupUntil: 0,
+        lockedUntil: 5000,
+        locked: false,
+        reason: null,
+      });
+    });
+
+    it("should return 400 for an invalid address", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/lockups/0x123",
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Invalid address format");
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * @file Tests for wallet recovery routes
+ * @notice Validates recovery requests, role checks and admin decisions over HTTP
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { recoveryRoutes } from "../recovery";
+import { createSession } from "../../services/db/sessions";
+
+const LOST = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const ALICE = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const CAROL = "0xcccccccccccccccccccccccccccccccccccccccc";
+const ISSUER = "0xdddddddddddddddddddddddddddddddddddddddd";
+const ADMIN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: "0x1111111111111111111111111111111111111111",
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+const validBody = {
+  lostWallet: LOST,
+  newWallet: ALICE,
+  reason: "Seed phrase lost in a house fire",
+};
+
+describe("Recovery Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+  let headers: Record<"alice" | "carol" | "issuer" | "admin", Record<string, string>>;
+
+  function sessionHeaders(uid: string, walletAddress: string) {
+    const { token } = createSession(db, {
+      uid,
+      walletAddress,
+      chainId: 31337,
+      ttlSeconds: 3600,
+    });
+    return { authorization: `Bearer ${token}` };
+  }
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    testDbInstance = db;
+
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    db.run(`
+      INSERT INTO users (uid, email, wallet_address, role)
+      VALUES
+        ('alice', 'alice@example.com', '${ALICE}', 'investor'),
+        ('carol', 'carol@example.com', '${CAROL}', 'investor'),
+        ('issuer', 'issuer@example.com', '${ISSUER}', 'issuer'),
+        ('admin', 'admin@example.com', '${ADMIN}', 'admin')
+    `);
+    headers = {
+      alice: sessionHeaders("alice", ALICE),
+      carol: sessionHeaders("carol", CAROL),
+      issuer: sessionHeaders("issuer", ISSUER),
+      admin: sessionHeaders("admin", ADMIN),
+    };
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(recoveryRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  function submit(
+    user: keyof typeof headers = "alice",
+    payload: object = validBody
+  ) {
+    return app.inject({
+      method: "POST",
+      url: "/api/companies/1/recovery/requests",
+      headers: headers[user],
+      payload,
+    });
+  }
+
+  function decide(
+    id: number,
+    action: "approve" | "reject",
+    user: keyof typeof headers = "admin",
+    payload: object = {}
+  ) {
+    return app.inject({
+      method: "POST",
+      url: `/api/companies/1/recovery/requests/${id}/${action}`,
+      headers: headers[user],
+      payload,
+    });
+  }
+
+  describe("POST /api/companies/:companyId/recovery/requests", () => {
+    it("should create a pending request to the session wallet", async () => {
+      const response = await submit();
+
+      expect(response.statusCode).toBe(201);
+      const body = JSON.parse(response.body);
+      expect(body.request).toMatchObject({
+        requesterUid: "alice",
+        lostWallet: LOST,
+        newWallet: ALICE,
+        reason: "Seed phrase lost in a house fire",
+        status: "pending",
+      });
+      expect(body.transitions).toHaveLength(1);
+    });
+
+    it("should only let investors request a recovery to their own wallet", async () => {
+      const response = await submit("carol");
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it("should let issuers file a request on a shareholder's behalf", async () => {
+      const response = await submit("issuer");
+
+      expect(response.statusCode).toBe(201);
+      expect(JSON.parse(response.body).request.requesterUid).toBe("issuer");
+    });
+
+    it("should reject invalid wallets and blank reasons", async () => {
+      expect((await submit("alice", { ...validBody, lostWallet: "0x123" })).statusCode).toBe(400);
+      expect((await submit("alice", { ...validBody, lostWallet: ALICE })).statusCode).toBe(400);
+      expect((await submit("alice", { ...validBody, reason: "   " })).statusCode).toBe(400);
+    });
+
+    it("should reject a second request for the same lost wallet while one is open", async () => {
+      await submit();
+
+      const response = await submit("issuer");
+      expect(response.statusCode).toBe(409);
+    });
+
+    it("should require authentication", async () => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/companies/1/recovery/requests",
+        payload: validBody,
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+
+  describe("GET /api/companies/:companyId/recovery/requests", () => {
+    it("should list requests for issuers and admins only", async () => {
+      await submit();
+
+      const list = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/recovery/requests?status=pending",
+        headers: headers.issuer,
+      });
+      expect(list.statusCode).toBe(200);
+      expect(JSON.parse(list.body).total).toBe(1);
+
+      const forbidden = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/recovery/requests",
+        headers: headers.alice,
+      });
+      expect(forbidden.statusCode).toBe(403);
+    });
+
+    it("should reject an unknown status filter", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/recovery/requests?status=done",
+        headers: headers.admin,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe("GET /api/companies/:companyId/recovery/requests/:id", () => {
+    it("should hide other investors' requests", async () => {
+      const { request } = JSON.parse((await submit()).body);
+
+      const own = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/recovery/requests/${request.id}`,
+        headers: headers.alice,
+      });
+      expect(own.statusCode).toBe(200);
+
+      const other = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/recovery/requests/${request.id}`,
+        headers: headers.carol,
+      });
+      expect(other.statusCode).toBe(404);
+    });
+  });
+
+  describe("POST /api/companies/:companyId/recovery/requests/:id/approve | reject", () => {
+    it("should let admins approve a pending request once", async () => {
+      const { request } = JSON.parse((await submit()).body);
+
+      const approved = await decide(request.id, "approve");
+      expect(approved.statusCode).toBe(200);
+      const body = JSON.parse(approved.body);
+      expect(body.request).toMatchObject({ status: "approved", reviewerUid: "admin" });
+      expect(body.transitions.map((t: { toStatus: string }) => t.toStatus)).toEqual([
+        "pending",
+        "approved",
+      ]);
+
+      const again = await decide(request.id, "reject", "admin", { reason: "Duplicate" });
+      expect(again.statusCode).toBe(409);
+    });
+
+    it("should not let issuers decide", async () => {
+      const { request } = JSON.parse((await submit()).body);
+
+      const response = await decide(request.id, "approve", "issuer");
+      expect(response.statusCode).toBe(403);
+    });
+
+    it("should require a reason to reject", async () => {
+      const { request } = JSON.parse((await submit()).body);
+
+      expect((await decide(request.id, "reject")).statusCode).toBe(400);
+
+      const rejected = await decide(request.id, "reject", "admin", {
+        reason: "Ownership of the lost wallet not proven",
+      });
+      expect(rejected.statusCode).toBe(200);
+      expect(JSON.parse(rejected.body).request).toMatchObject({
+        status: "rejected",
+        decisionReason: "Ownership of the lost wallet not proven",
+      });
+    });
+
+    it("should return 404 for unknown requests", async () => {
+      const response = await decide(99, "approve");
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @file Tests for role API routes
+ * @notice Validates GET /api/roles and GET /api/roles/me
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+import { ONCHAIN_ROLES } from "../../types/roles";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const CAP_TABLE = "0x1234567890123456789012345678901234567890";
+const ISSUER = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const OFFICER = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { rolesRoutes } from "../roles";
+import { createSession } from "../../services/db/sessions";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: CAP_TABLE,
+  tokenAddress: TOKEN,
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+describe("Role Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${CAP_TABLE}', '${TOKEN}', 0)
+    `);
+    db.run(`
+      INSERT INTO role_history (company_id, contract_address, role_hash, role_name, account, sender, action, block_number, block_timestamp, log_index, tx_hash)
+      VALUES
+        (1, '${TOKEN}', '${ONCHAIN_ROLES.DEFAULT_ADMIN_ROLE}', 'DEFAULT_ADMIN_ROLE', '${ISSUER}', '${ISSUER}', 'GRANTED', 10, 1000, 0, '0x10'),
+        (1, '${TOKEN}', '${ONCHAIN_ROLES.COMPLIANCE_ROLE}', 'COMPLIANCE_ROLE', '${OFFICER}', '${ISSUER}', 'GRANTED', 11, 1100, 0, '0x11'),
+        (1, '${CAP_TABLE}', '${ONCHAIN_ROLES.CORPORATE_ACTIONS_ROLE}', 'CORPORATE_ACTIONS_ROLE', '${OFFICER}', '${ISSUER}', 'GRANTED', 12, 1200, 0, '0x12'),
+        (1, '${TOKEN}', '${ONCHAIN_ROLES.COMPLIANCE_ROLE}', 'COMPLIANCE_ROLE', '${OFFICER}', '${ISSUER}', 'REVOKED', 13, 1300, 0, '0x13')
+    `);
+    db.run(`
+      INSERT INTO users (uid, email, wallet_address, role)
+      VALUES
+        ('officer', 'officer@example.com', '${OFFICER.toUpperCase().replace("0X", "0x")}', 'investor'),
+        ('nowallet', 'nowallet@example.com', NULL, 'investor')
+    `);
+    testDbInstance = db;
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(rolesRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  describe("GET /api/roles", () => {
+    it("should return the current role holders of the token and cap table", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/roles",
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.holders).toEqual([
+        {
+          contract: "token",
+          contractAddress: TOKEN,
+          role: "DEFAULT_ADMIN_ROLE",
+          roleHash: ONCHAIN_ROLES.DEFAULT_ADMIN_ROLE,
+          account: ISSUER,
+          blockNumber: 10,
+          blockTimestamp: 1000,
+          txHash: "0x10",
+        },
+        {
+          contract: "capTable",
+          contractAddress: CAP_TABLE,
+          role: "CORPORATE_ACTIONS_ROLE",
+          roleHash: ONCHAIN_ROLES.CORPORATE_ACTIONS_ROLE,
+          account: OFFICER,
+          blockNumber: 12,
+          blockTimestamp: 1200,
+          txHash: "0x12",
+        },
+      ]);
+      expect(body.history.map((change: any) => [change.action, change.blockNumber])).toEqual([
+        ["REVOKED", 13],
+        ["GRANTED", 12],
+        ["GRANTED", 11],
+        ["GRANTED", 10],
+      ]);
+    });
+
+    it("should filter the history by account", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/roles?account=${ISSUER}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.history).toHaveLength(1);
+      expect(body.history[0]).toMatchObject({
+        account: ISSUER,
+        sender: ISSUER,
+        action: "GRANTED",
+      });
+    });
+
+    it("should return 400 for an invalid account", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/roles?account=0x123",
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe("Invalid address format");
+    });
+  });
+
+  describe("GET /api/roles/me", () => {
+    function sessionHeaders(uid: string, walletAddress: string) {
+      const { token } = createSession(db, {
+        uid,
+        walletAddress,
+        chainId: 31337,
+        ttlSeconds: 3600,
+      });
+      return { authorization: `Bearer ${token}` };
+    }
+
+    it("should return the roles the caller's linked wallet holds on the company", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/roles/me",
+        headers: sessionHeaders("officer", OFFICER),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        account: OFFICER,
+        roles: ["CORPORATE_ACTIONS_ROLE"],
+      });
+    });
+
+    it("should return no roles without a linked wallet", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/roles/me",
+        headers: sessionHeaders("nowallet", ISSUER),
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({ account: null, roles: [] });
+    });
+
+    it("should require a session", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/roles/me",
+      });
+
+      expect(response.statusCode).toBe(401);
+    });
+  });
+});
@@ -5,6 +5,8 @@
 
 import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
 import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
 import { Database } from "bun:sqlite";
 import { migrate } from "../../db/migrations";
 
@@ -23,85 +25,93 @@ mock.module("../../services/chain/client", () => ({
 
 // Mock the contracts config
 mock.module("../../config/contracts", () => ({
-  CONTRACTS: {
-    token: {
-      address: "0x2222222222222222222222222222222222222222" as `0x${string}`,
-      abi: [],
-    },
-  },
+  CHAIN_ID: 31337,
+  DEPLOYMENTS: [],
+  ABIS: { capTable: [], token: [] },
 }));
 
 // Set up database mock with a closure that will capture the test database
 let testDbInstance: Database | null = null;
-mock.module("../../db/index", () => {
-  return {
-    connect: () => {
-      if (!testDbInstance) {
-        throw new Error("Test database not initialized. Call beforeEach first.");
-      }
-      return testDbInstance;
-    },
-    query: <T = unknown>(sql: string, params: unknown[] = []): T[] => {
-      if (!testDbInstance) {
-        throw new Error("Test database not initialized.");
-      }
-      const stmt = testDbInstance.prepare(sql);
-      return stmt.all(...(params as any[])) as T[];
-    },
-    queryOne: <T = unknown>(
-      sql: string,
-      params: unknown[] = []
-    ): T | null => {
-      if (!testDbInstance) {
-        throw new Error("Test database not initialized.");
-      }
-      const stmt = testDbInstance.prepare(sql);
-      const result = stmt.get(...(params as any[])) as T | undefined;
-      return result || null;
-    },
-    execute: (
-      sql: string,
-      params: unknown[] = []
-    ): { lastInsertRowid: number; changes: number } => {
-      if (!testDbInstance) {
-        throw new Error("Test database not initialized.");
-      }
-      const stmt = testDbInstance.prepare(sql);
-      const result = stmt.run(...(params as any[]));
-      return {
-        lastInsertRowid: Number(result.lastInsertRowid),
-        changes: result.changes,
-      };
-    },
-    transaction: <T>(callback: (db: Database) => T): T => {
-      if (!testDbInstance) {
-        throw new Error("Test database not initialized.");
-      }
-      testDbInstance.exec("PRAGMA foreign_keys = ON");
-      testDbInstance.exec("BEGIN TRANSACTION");
-      try {
-        const result = callback(testDbInstance);
-        testDbInstance.exec("COMMIT");
-        return result;
-      } catch (error) {
-        testDbInstance.exec("ROLLBACK");
-        throw error;
-      }
-    },
-    close: () => {
-      // No-op for test database
-    },
-    getDatabase: () => {
-      if (!testDbInstance) {
-        throw new Error("Test database not initialized.");
-      }
-      return testDbInstance;
-    },
-  };
-});
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+  query: <T = unknown>(sql: string, params: unknown[] = []): T[] => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized.");
+    }
+    const stmt = testDbInstance.prepare(sql);
+    return stmt.all(...(params as any[])) as T[];
+  },
+  queryOne: <T = unknown>(
+    sql: string,
+    params: unknown[] = []
+  ): T | null => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized.");
+    }
+    const stmt = testDbInstance.prepare(sql);
+    const result = stmt.get(...(params as any[])) as T | undefined;
+    return result || null;
+  },
+  execute: (
+    sql: string,
+    params: unknown[] = []
+  ): { lastInsertRowid: number; changes: number } => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized.");
+    }
+    const stmt = testDbInstance.prepare(sql);
+    const result = stmt.run(...(params as any[]));
+    return {
+      lastInsertRowid: Number(result.lastInsertRowid),
+      changes: result.changes,
+    };
+  },
+  transaction: <T>(callback: (db: Database) => T): T => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized.");
+    }
+    testDbInstance.exec("PRAGMA foreign_keys = ON");
+    testDbInstance.exec("BEGIN TRANSACTION");
+    try {
+      const result = callback(testDbInstance);
+      testDbInstance.exec("COMMIT");
+      return result;
+    } catch (error) {
+      testDbInstance.exec("ROLLBACK");
+      throw error;
+    }
+  },
+  close: () => {
+    // No-op for test database
+  },
+  getDatabase: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized.");
+    }
+    return testDbInstance;
+  },
+}));
 
 // Import routes AFTER mocks are set up
 import { shareholdersRoutes, resetCache } from "../shareholders";
+import { createSession } from "../../services/db/sessions";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: "0x2222222222222222222222222222222222222222",
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
 
 describe("Shareholders Routes", () => {
   let app: ReturnType<typeof Fastify>;
@@ -111,6 +121,10 @@ describe("Shareholders Routes", () => {
     // Create in-memory database
     db = new Database(":memory:");
     migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
 
     // Set the test database instance for the mock
     testDbInstance = db;
@@ -121,7 +135,15 @@ describe("Shareholders Routes", () => {
     });
 
     // Register shareholders routes with /api prefix
-    await app.register(shareholdersRoutes, { prefix: "/api" });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(shareholdersRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
 
     // Reset contract mock and clear cache
     mockReadContract.mockReset();
@@ -142,14 +164,14 @@ describe("Shareholders Routes", () => {
     await app.close();
   });
 
-  describe("GET /api/shareholders", () => {
+  describe("GET /api/companies/:companyId/shareholders", () => {
     it("should return paginated shareholders list with ownership percentages", async () => {
       // Insert test shareholders
       db.run(`
-        INSERT INTO shareholders (address, balance, effective_balance, last_updated_block)
+        INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
         VALUES 
-          ('0x1111111111111111111111111111111111111111', '1000000000000000000000', '2000000000000000000000', 12345),
-          ('0x3333333333333333333333333333333333333333', '500000000000000000000', '1000000000000000000000', 12346)
+          (1, '0x1111111111111111111111111111111111111111', '1000000000000000000000', '2000000000000000000000', 12345),
+          (1, '0x3333333333333333333333333333333333333333', '500000000000000000000', '1000000000000000000000', 12346)
       `);
 
       // Mock contract reads for totalSupply and splitFactor (cached)
@@ -160,7 +182,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders?limit=50&offset=0",
+        url: "/api/companies/1/shareholders?limit=50&offset=0",
       });
 
       expect(response.statusCode).toBe(200);
@@ -204,7 +226,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders",
+        url: "/api/companies/1/shareholders",
       });
 
       expect(response.statusCode).toBe(200);
@@ -224,7 +246,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders?limit=200&offset=0",
+        url: "/api/companies/1/shareholders?limit=200&offset=0",
       });
 
       expect(response.statusCode).toBe(200);
@@ -240,7 +262,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders?limit=0&offset=0",
+        url: "/api/companies/1/shareholders?limit=0&offset=0",
       });
 
       expect(response.statusCode).toBe(200);
@@ -256,7 +278,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders?limit=50&offset=-5",
+        url: "/api/companies/1/shareholders?limit=50&offset=-5",
       });
 
       expect(response.statusCode).toBe(200);
@@ -268,8 +290,8 @@ describe("Shareholders Routes", () => {
     it("should return empty shareholders array when offset >= total", async () => {
       // Insert one shareholder
       db.run(`
-        INSERT INTO shareholders (address, balance, effective_balance, last_updated_block)
-        VALUES ('0x1111111111111111111111111111111111111111', '1000', '1000', 1)
+        INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+        VALUES (1, '0x1111111111111111111111111111111111111111', '1000', '1000', 1)
       `);
 
       mockReadContract
@@ -278,7 +300,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders?limit=50&offset=100",
+        url: "/api/companies/1/shareholders?limit=50&offset=100",
       });
 
       expect(response.statusCode).toBe(200);
@@ -295,7 +317,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders",
+        url: "/api/companies/1/shareholders",
       });
 
       expect(response.statusCode).toBe(200);
@@ -311,7 +333,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders",
+        url: "/api/companies/1/shareholders",
       });
 
       expect(response.statusCode).toBe(500);
@@ -324,15 +346,178 @@ describe("Shareholders Routes", () => {
     });
   });
 
-  describe("GET /api/shareholders/:address", () => {
+  describe("GET /api/companies/:companyId/shareholders historical snapshots", () => {
+    const HOLDER_A = "0x1111111111111111111111111111111111111111";
+    const HOLDER_B = "0x3333333333333333333333333333333333333333";
+
+    beforeEach(() => {
+      // Block 100: issue 4 to A; block 200: A → B 1; block 300: 2x split
+      db.run(`
+        INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+        VALUES
+          (1, '0x01', NULL, '${HOLDER_A}', '4000000000000000000', 100, 1700000100, 0, 'ISSUED'),
+          (1, '0x02', '${HOLDER_A}', '${HOLDER_B}', '1000000000000000000', 200, 1700000200, 0, 'TRANSFER')
+      `);
+      db.run(`
+        INSERT INTO split_history (company_id, old_factor, new_factor, block_number, block_timestamp, log_index, tx_hash)
+        VALUES (1, '1000000000000000000', '2000000000000000000', 300, 1700000300, 0, '0x03')
+      `);
+      db.run(`
+        INSERT INTO users (uid, email, display_name, wallet_address, role)
+        VALUES ('u1', 'b@example.com', 'Bob', '${HOLDER_B}', 'investor')
+      `);
+    });
+
+    it("should reconstruct the cap table at a block without contract reads", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders?blockNumber=250",
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.blockNumber).toBe(250);
+      expect(body.totalSupply).toBe("4000000000000000000");
+      expect(body.totalEffectiveSupply).toBe("4000000000000000000");
+      expect(body.pagination.total).toBe(2);
+      expect(body.shareholders).toEqual([
+        {
+          address: HOLDER_A,
+          balance: "3000000000000000000",
+          effectiveBalance: "3000000000000000000",
+          ownershipPercentage: 75,
+          lastUpdatedBlock: 200,
+          email: null,
+          displayName: null,
+          classHoldings: [],
+          fullyDilutedBalance: "3000000000000000000",
+          fullyDilutedPercentage: 75,
+        },
+        {
+          address: HOLDER_B,
+          balance: "1000000000000000000",
+          effectiveBalance: "1000000000000000000",
+          ownershipPercentage: 25,
+          lastUpdatedBlock: 200,
+          email: "b@example.com",
+          displayName: "Bob",
+          classHoldings: [],
+          fullyDilutedBalance: "1000000000000000000",
+          fullyDilutedPercentage: 25,
+        },
+      ]);
+      expect(body.shareClasses).toEqual([]);
+      expect(body.totalFullyDiluted).toBe("4000000000000000000");
+      expect(mockReadContract).not.toHaveBeenCalled();
+    });
+
+    it("should report share class holdings and fully diluted ownership", async () => {
+      const HOLDER_C = "0x4444444444444444444444444444444444444444";
+      // Block 150: Series A (2:1 conversion) registered and 1 share issued to C
+      db.run(`
+        INSERT INTO share_classes (company_id, class_id, name, token_address, authorized_shares, liquidation_preference, conversion_ratio, seniority, block_number, block_timestamp, log_index, tx_hash)
+        VALUES (1, 1, 'Series A Preferred', '0x5555555555555555555555555555555555555555', '10000000000000000000', '1000000000000000000', '2000000000000000000', 1, 150, 1700000150, 0, '0x04')
+      `);
+      db.run(`
+        INSERT INTO share_class_balance_changes (company_id, class_id, address, delta, balance_after, change_type, block_number, block_timestamp, log_index, tx_hash)
+        VALUES (1, 1, '${HOLDER_C}', '1000000000000000000', '1000000000000000000', 'ISSUED', 150, 1700000150, 1, '0x04')
+      `);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders?blockNumber=250",
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.totalFullyDiluted).toBe("6000000000000000000");
+      expect(body.shareClasses).toEqual([
+        {
+          classId: 1,
+          name: "Series A Preferred",
+          tokenAddress: "0x5555555555555555555555555555555555555555",
+          authorizedShares: "10000000000000000000",
+          outstandingShares: "1000000000000000000",
+          asConvertedShares: "2000000000000000000",
+          liquidationPreference: "1000000000000000000",
+          conversionRatio: "2000000000000000000",
+          seniority: 1,
+        },
+      ]);
+      expect(body.pagination.total).toBe(3);
+      expect(body.shareholders.map((sh: { address: string }) => sh.address)).toEqual([
+        HOLDER_A,
+        HOLDER_C,
+        HOLDER_B,
+      ]);
+      expect(body.shareholders[0]).toMatchObject({
+        ownershipPercentage: 75,
+        fullyDilutedPercentage: 50,
+      });
+      expect(body.shareholders[1]).toMatchObject({
+        balance: "0",
+        ownershipPercentage: 0,
+        classHoldings: [
+          {
+            classId: 1,
+            balance: "1000000000000000000",
+            asConvertedBalance: "2000000000000000000",
+          },
+        ],
+        fullyDilutedBalance: "2000000000000000000",
+        fullyDilutedPercentage: 33.33,
+      });
+    });
+
+    it("should apply the split factor and paginate historical results", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders?blockNumber=300&limit=1&offset=1",
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.totalEffectiveSupply).toBe("8000000000000000000");
+      expect(body.pagination).toEqual({ limit: 1, offset: 1, total: 2 });
+      expect(body.shareholders).toHaveLength(1);
+      expect(body.shareholders[0]).toMatchObject({
+        address: HOLDER_B,
+        effectiveBalance: "2000000000000000000",
+      });
+    });
+
+    it("should resolve a timestamp to the last indexed block before it", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders?timestamp=1700000150",
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.blockNumber).toBe(100);
+      expect(body.shareholders).toHaveLength(1);
+      expect(body.shareholders[0]).toMatchObject({
+        address: HOLDER_A,
+        balance: "4000000000000000000",
+        ownershipPercentage: 100,
+      });
+      expect(mockReadContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("GET /api/companies/:companyId/shareholders/:address", () => {
     const validAddress = "0x1111111111111111111111111111111111111111";
     const normalizedAddress = validAddress.toLowerCase();
 
     it("should return shareholder details when balance exists", async () => {
       // Insert shareholder in database
       db.run(`
-        INSERT INTO shareholders (address, balance, effective_balance, last_updated_block)
-        VALUES ('${normalizedAddress}', '1000000000000000000000', '2000000000000000000000', 12345)
+        INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+        VALUES (1, '${normalizedAddress}', '1000000000000000000000', '2000000000000000000000', 12345)
       `);
 
       // Mock contract reads - balanceOf/effectiveBalanceOf first (Promise.all), then getCachedSupply
@@ -344,7 +529,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: `/api/shareholders/${validAddress}`,
+        url: `/api/companies/1/shareholders/${validAddress}`,
       });
 
       expect(response.statusCode).toBe(200);
@@ -374,7 +559,7 @@ describe("Shareholders Routes", () => {
     it("should return 400 for invalid address format", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/shareholders/invalid-address",
+        url: "/api/companies/1/shareholders/invalid-address",
       });
 
       expect(response.statusCode).toBe(400);
@@ -394,7 +579,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: `/api/shareholders/${validAddress}`,
+        url: `/api/companies/1/shareholders/${validAddress}`,
       });
 
       expect(response.statusCode).toBe(404);
@@ -406,6 +591,53 @@ describe("Shareholders Routes", () => {
       });
     });
 
+    it("should return the recovery trail of a recovered wallet with no shares left", async () => {
+      const newWallet = "0x3333333333333333333333333333333333333333";
+      db.run(`
+        INSERT INTO users (uid, email, wallet_address, role)
+        VALUES ('alice', 'alice@example.com', '${newWallet}', 'investor')
+      `);
+      db.run(`
+        INSERT INTO recovery_requests (company_id, requester_uid, lost_wallet, new_wallet, reason, status, executed_block_number, executed_tx_hash, created_at, updated_at)
+        VALUES (1, 'alice', '${normalizedAddress}', '${newWallet}', 'Lost seed phrase', 'executed', 20, '0x20', 1000, 2000)
+      `);
+      db.run(`
+        INSERT INTO forced_transfer_history (company_id, token_address, transfer_type, from_address, to_address, amount, reason_code, block_number, block_timestamp, log_index, tx_hash)
+        VALUES (1, '${COMPANY.tokenAddress}', 'WALLET_RECOVERY', '${normalizedAddress}', '${newWallet}', '500', 1, 20, 2000, 4, '0x20')
+      `);
+      mockReadContract
+        .mockResolvedValueOnce(BigInt(0)) // balanceOf
+        .mockResolvedValueOnce(BigInt(0)) // effectiveBalanceOf
+        .mockResolvedValueOnce(BigInt("1000")) // totalSupply (from getCachedSupply)
+        .mockResolvedValueOnce(BigInt("1000000000000000000")); // splitFactor (from getCachedSupply)
+
+      const response = await app.inject({
+        method: "GET",
+        url: `/api/companies/1/shareholders/${validAddress}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.balance).toBe("0");
+      expect(body.recoveryTrail.requests).toMatchObject([
+        { lostWallet: normalizedAddress, newWallet, status: "executed", transitions: [] },
+      ]);
+      expect(body.recoveryTrail.forcedTransfers).toEqual([
+        {
+          tokenAddress: COMPANY.tokenAddress,
+          transferType: "WALLET_RECOVERY",
+          fromAddress: normalizedAddress,
+          toAddress: newWallet,
+          amount: "500",
+          reasonCode: 1,
+          blockNumber: 20,
+          blockTimestamp: 2000,
+          logIndex: 4,
+          txHash: "0x20",
+        },
+      ]);
+    });
+
     it("should return 404 when balanceOf returns null", async () => {
       mockReadContract
         .mockResolvedValueOnce(BigInt("1000000000000000000000000")) // totalSupply (cached)
@@ -419,7 +651,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: `/api/shareholders/${validAddress}`,
+        url: `/api/companies/1/shareholders/${validAddress}`,
       });
 
       expect(response.statusCode).toBe(404);
@@ -442,7 +674,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: `/api/shareholders/${validAddress}`,
+        url: `/api/companies/1/shareholders/${validAddress}`,
       });
 
       expect(response.statusCode).toBe(200);
@@ -460,7 +692,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: `/api/shareholders/${validAddress}`,
+        url: `/api/companies/1/shareholders/${validAddress}`,
       });
 
       expect(response.statusCode).toBe(500);
@@ -485,7 +717,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: `/api/shareholders/${validAddress}`,
+        url: `/api/companies/1/shareholders/${validAddress}`,
       });
 
       expect(response.statusCode).toBe(200);
@@ -503,8 +735,8 @@ describe("Shareholders Routes", () => {
 
       // Insert shareholder
       db.run(`
-        INSERT INTO shareholders (address, balance, effective_balance, last_updated_block)
-        VALUES ('${normalizedAddress}', '1000000000000000000000', '2000000000000000000000', 12345)
+        INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+        VALUES (1, '${normalizedAddress}', '1000000000000000000000', '2000000000000000000000', 12345)
       `);
 
       // Mock contract reads - balanceOf/effectiveBalanceOf first, then getCachedSupply
@@ -516,7 +748,7 @@ describe("Shareholders Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: `/api/shareholders/${checksummedAddress}`,
+        url: `/api/companies/1/shareholders/${checksummedAddress}`,
       });
 
       expect(response.statusCode).toBe(200);
@@ -526,4 +758,78 @@ describe("Shareholders Routes", () => {
       expect(body.address).toBe(normalizedAddress);
     });
   });
+
+  describe("GET /api/companies/:companyId/shareholders/pending and /approved", () => {
+    const approvedWallet = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+    const revokedWallet = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+    const neverApprovedWallet = "0xcccccccccccccccccccccccccccccccccccccccc";
+    let issuerHeaders: Record<string, string>;
+
+    beforeEach(() => {
+      db.run(`
+        INSERT INTO users (uid, email, display_name, wallet_address, role)
+        VALUES
+          ('u1', 'approved@example.com', 'Approved', '${approvedWallet}', 'investor'),
+          ('u2', 'revoked@example.com', 'Revoked', '${revokedWallet}', 'investor'),
+          ('u3', 'new@example.com', NULL, '${neverApprovedWallet}', 'investor'),
+          ('u4', 'issuer@example.com', 'Issuer', '0xdddddddddddddddddddddddddddddddddddddddd', 'issuer')
+      `);
+      db.run(`
+        INSERT INTO allowlist_history (company_id, wallet_address, issuer_address, approved, block_number, log_index)
+        VALUES
+          (1, '${approvedWallet}', '0xdddddddddddddddddddddddddddddddddddddddd', 1, 10, 0),
+          (1, '${revokedWallet}', '0xdddddddddddddddddddddddddddddddddddddddd', 1, 10, 1),
+          (1, '${revokedWallet}', '0xdddddddddddddddddddddddddddddddddddddddd', 0, 12, 0)
+      `);
+
+      // Both endpoints are issuer/admin only
+      const { token } = createSession(db, {
+        uid: "u4",
+        walletAddress: "0xdddddddddddddddddddddddddddddddddddddddd",
+        chainId: 31337,
+        ttlSeconds: 3600,
+      });
+      issuerHeaders = { authorization: `Bearer ${token}` };
+    });
+
+    it("should list investors not on the indexed allowlist as pending", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders/pending",
+        headers: issuerHeaders,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      const wallets = body.pending.map((p: any) => p.walletAddress);
+      expect(wallets).toEqual([neverApprovedWallet, revokedWallet]);
+      expect(body.pending[0]).toMatchObject({
+        uid: "u3",
+        displayName: "new@example.com",
+        isApproved: false,
+      });
+      // Approval status is read from the database, not the contract
+      expect(mockReadContract).not.toHaveBeenCalled();
+    });
+
+    it("should list investors whose latest allowlist event is an approval", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/shareholders/approved",
+        headers: issuerHeaders,
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.approved).toHaveLength(1);
+      expect(body.approved[0]).toMatchObject({
+        uid: "u1",
+        walletAddress: approvedWallet,
+        isApproved: true,
+      });
+      expect(mockReadContract).not.toHaveBeenCalled();
+    });
+  });
 });
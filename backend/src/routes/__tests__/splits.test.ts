@@ -0,0 +1,148 @@
+/**
+ * @file Tests for stock split API routes
+ * @notice Validates GET /api/splits/fractional and GET /api/splits/preview
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { splitsRoutes } from "../splits";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: "0x2222222222222222222222222222222222222222",
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const E18 = 10n ** 18n;
+
+describe("Split Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    testDbInstance = db;
+
+    db.run(`
+      INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+      VALUES
+        (1, '${ALICE}', '${105n * E18}', '${105n * E18}', 1),
+        (1, '${BOB}', '${100n * E18}', '${100n * E18}', 1)
+    `);
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(splitsRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  describe("GET /api/companies/:companyId/splits/fractional", () => {
+    it("should return no holders while every position is whole", async () => {
+      const response = await app.inject({ method: "GET", url: "/api/companies/1/splits/fractional" });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toEqual({
+        splitFactor: E18.toString(),
+        holders: [],
+        totalFractionalRemainder: "0",
+        totalCashInLieuAmount: "0",
+      });
+    });
+
+    it("should return remainders left by an indexed reverse split", async () => {
+      db.run(`
+        INSERT INTO split_history (company_id, old_factor, new_factor, block_number, block_timestamp, log_index, tx_hash)
+        VALUES (1, '${E18}', '${E18 / 10n}', 5, NULL, 0, '0x05')
+      `);
+
+      const response = await app.inject({ method: "GET", url: "/api/companies/1/splits/fractional" });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.splitFactor).toBe((E18 / 10n).toString());
+      expect(body.holders).toEqual([
+        {
+          address: ALICE,
+          balance: (105n * E18).toString(),
+          effectiveBalance: ((105n * E18) / 10n).toString(),
+          wholeShares: (10n * E18).toString(),
+          fractionalRemainder: (E18 / 2n).toString(),
+          cashInLieuAmount: (5n * E18).toString(),
+        },
+      ]);
+      expect(body.totalCashInLieuAmount).toBe((5n * E18).toString());
+    });
+  });
+
+  describe("GET /api/companies/:companyId/splits/preview", () => {
+    it("should preview a 1-for-10 reverse split", async () => {
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/splits/preview?multiplier=0.1",
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+      expect(body.proposedFactor).toBe((E18 / 10n).toString());
+      expect(body.holdersWithFractions).toBe(1);
+      expect(body.positions.map((p: { effectiveBalance: string }) => p.effectiveBalance)).toEqual([
+        ((105n * E18) / 10n).toString(),
+        (10n * E18).toString(),
+      ]);
+    });
+
+    it("should reject a zero or malformed multiplier", async () => {
+      const zero = await app.inject({ method: "GET", url: "/api/companies/1/splits/preview?multiplier=0" });
+      expect(zero.statusCode).toBe(400);
+      expect(JSON.parse(zero.body).error).toBe("Invalid multiplier");
+
+      const malformed = await app.inject({ method: "GET", url: "/api/companies/1/splits/preview?multiplier=-1" });
+      expect(malformed.statusCode).toBe(400);
+
+      const missing = await app.inject({ method: "GET", url: "/api/companies/1/splits/preview" });
+      expect(missing.statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * @file Tests for token version API routes
+ * @notice Validates GET /api/tokens
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+const OLD_TOKEN = "0x1111111111111111111111111111111111111111";
+const NEW_TOKEN = "0x2222222222222222222222222222222222222222";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { tokensRoutes } from "../tokens";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: OLD_TOKEN,
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+describe("Token Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    testDbInstance = db;
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(tokensRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  it("should return the deployed token while it has not been replaced", async () => {
+    const response = await app.inject({ method: "GET", url: "/api/companies/1/tokens" });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({
+      activeToken: OLD_TOKEN,
+      tokens: [
+        {
+          tokenAddress: OLD_TOKEN,
+          fromBlock: null,
+          fromLogIndex: null,
+          toBlock: null,
+          toLogIndex: null,
+          migrationBlock: null,
+          replacedTxHash: null,
+          active: true,
+          transactionCount: 0,
+        },
+      ],
+    });
+  });
+
+  it("should return every token era with its transaction count", async () => {
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES
+        (1, '0x01', NULL, '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', '100', 10, 1000, 0, 'ISSUED'),
+        (1, '0x02', NULL, '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', '50', 11, 1100, 0, 'ISSUED'),
+        (1, '0x19', NULL, '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', '10', 20, 2000, 0, 'ISSUED'),
+        (1, '0x20', NULL, '0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb', '50', 20, 2000, 2, 'ISSUED'),
+        (1, '0x21', NULL, '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', '100', 21, 2100, 0, 'ISSUED')
+    `);
+    db.run(`
+      INSERT INTO token_versions (company_id, token_address, previous_token_address, migration_block, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, '${NEW_TOKEN}', '${OLD_TOKEN}', 15, 20, 2000, 1, '0x20')
+    `);
+
+    const response = await app.inject({ method: "GET", url: "/api/companies/1/tokens" });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body.activeToken).toBe(NEW_TOKEN);
+    expect(body.tokens).toEqual([
+      {
+        tokenAddress: OLD_TOKEN,
+        fromBlock: null,
+        fromLogIndex: null,
+        toBlock: 20,
+        toLogIndex: 1,
+        migrationBlock: null,
+        replacedTxHash: "0x20",
+        active: false,
+        transactionCount: 3,
+      },
+      {
+        tokenAddress: NEW_TOKEN,
+        fromBlock: 20,
+        fromLogIndex: 1,
+        toBlock: null,
+        toLogIndex: null,
+        migrationBlock: 15,
+        replacedTxHash: null,
+        active: true,
+        transactionCount: 2,
+      },
+    ]);
+  });
+});
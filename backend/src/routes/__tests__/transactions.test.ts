@@ -5,13 +5,27 @@
 
 import { describe, it, expect, beforeEach, mock } from "bun:test";
 import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
 import { transactionsRoutes } from "../transactions";
 
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: "0x2222222222222222222222222222222222222222",
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
 // Mock the database module
 const mockQuery = mock();
 const mockQueryOne = mock();
 
-mock.module("../../db/index", () => ({
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
   query: mockQuery,
   queryOne: mockQueryOne,
   asTransactionRecord: (row: unknown) => row,
@@ -27,14 +41,22 @@ describe("Transaction Routes", () => {
     });
 
     // Register transaction routes with /api prefix
-    app.register(transactionsRoutes, { prefix: "/api" });
+    app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(transactionsRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
 
     // Reset mocks between tests
     mockQuery.mockReset();
     mockQueryOne.mockReset();
   });
 
-  describe("GET /api/transactions", () => {
+  describe("GET /api/companies/:companyId/transactions", () => {
     it("should return paginated transactions without filters", async () => {
       const mockTransactions = [
         {
@@ -66,7 +88,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions",
+        url: "/api/companies/1/transactions",
       });
 
       expect(response.statusCode).toBe(200);
@@ -82,12 +104,12 @@ describe("Transaction Routes", () => {
       });
 
       expect(mockQueryOne).toHaveBeenCalledWith(
-        "SELECT COUNT(*) as count FROM transactions ",
-        []
+        "SELECT COUNT(*) as count FROM transactions WHERE company_id = ?",
+        [1]
       );
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining("SELECT"),
-        [50, 0]
+        [1, 50, 0]
       );
     });
 
@@ -97,7 +119,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?limit=10&offset=20",
+        url: "/api/companies/1/transactions?limit=10&offset=20",
       });
 
       expect(response.statusCode).toBe(200);
@@ -111,7 +133,7 @@ describe("Transaction Routes", () => {
 
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining("SELECT"),
-        [10, 20]
+        [1, 10, 20]
       );
     });
 
@@ -121,7 +143,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?limit=200",
+        url: "/api/companies/1/transactions?limit=200",
       });
 
       expect(response.statusCode).toBe(200);
@@ -130,7 +152,7 @@ describe("Transaction Routes", () => {
       expect(body.pagination.limit).toBe(100);
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining("SELECT"),
-        [100, 0]
+        [1, 100, 0]
       );
     });
 
@@ -154,7 +176,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?eventType=ISSUED",
+        url: "/api/companies/1/transactions?eventType=ISSUED",
       });
 
       expect(response.statusCode).toBe(200);
@@ -164,14 +186,51 @@ describe("Transaction Routes", () => {
       expect(body.transactions[0].eventType).toBe("ISSUED");
       expect(mockQueryOne).toHaveBeenCalledWith(
         expect.stringContaining("event_type = ?"),
-        ["ISSUED"]
+        [1, "ISSUED"]
+      );
+    });
+
+    it("should filter redemptions by eventType", async () => {
+      const mockTransactions = [
+        {
+          id: 2,
+          txHash: "0x5678",
+          fromAddress: "0x2222",
+          toAddress: null,
+          amount: "400",
+          blockNumber: 120,
+          blockTimestamp: 1725350000,
+          logIndex: 1,
+          eventType: "REDEEMED" as const,
+        },
+      ];
+
+      mockQueryOne.mockReturnValueOnce({ count: 1 });
+      mockQuery.mockReturnValueOnce(mockTransactions);
+
+      const response = await app.inject({
+        method: "GET",
+        url: "/api/companies/1/transactions?eventType=REDEEMED",
+      });
+
+      expect(response.statusCode).toBe(200);
+      const body = JSON.parse(response.body);
+
+      expect(body.transactions[0]).toMatchObject({
+        eventType: "REDEEMED",
+        fromAddress: "0x2222",
+        toAddress: null,
+      });
+      expect(mockQueryOne).toHaveBeenCalledWith(
+        expect.stringContaining("event_type = ?"),
+        [1, "REDEEMED"]
       );
     });
 
     it("should return 400 for invalid eventType", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?eventType=INVALID",
+        url: "/api/companies/1/transactions?eventType=INVALID",
       });
 
       expect(response.statusCode).toBe(400);
@@ -179,7 +238,8 @@ describe("Transaction Routes", () => {
 
       expect(body).toEqual({
         error: "Invalid filter parameter",
-        message: "Invalid eventType. Must be 'ISSUED' or 'TRANSFER'",
+        message:
+          "Invalid eventType. Must be 'ISSUED', 'TRANSFER', 'REDEEMED', 'FORCED_TRANSFER' or 'WALLET_RECOVERY'",
       });
     });
 
@@ -189,13 +249,13 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?address=0x1111111111111111111111111111111111111111",
+        url: "/api/companies/1/transactions?address=0x1111111111111111111111111111111111111111",
       });
 
       expect(response.statusCode).toBe(200);
       expect(mockQueryOne).toHaveBeenCalledWith(
         expect.stringContaining("(from_address = ? OR to_address = ?)"),
-        [
+        [1, 
           "0x1111111111111111111111111111111111111111",
           "0x1111111111111111111111111111111111111111",
         ]
@@ -205,7 +265,7 @@ describe("Transaction Routes", () => {
     it("should return 400 for invalid address format", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?address=invalid",
+        url: "/api/companies/1/transactions?address=invalid",
       });
 
       expect(response.statusCode).toBe(400);
@@ -223,13 +283,13 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?fromDate=1725349933",
+        url: "/api/companies/1/transactions?fromDate=1725349933",
       });
 
       expect(response.statusCode).toBe(200);
       expect(mockQueryOne).toHaveBeenCalledWith(
         expect.stringContaining("block_timestamp >= ?"),
-        [1725349933]
+        [1, 1725349933]
       );
     });
 
@@ -239,20 +299,20 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?toDate=1725349933",
+        url: "/api/companies/1/transactions?toDate=1725349933",
       });
 
       expect(response.statusCode).toBe(200);
       expect(mockQueryOne).toHaveBeenCalledWith(
         expect.stringContaining("block_timestamp <= ?"),
-        [1725349933]
+        [1, 1725349933]
       );
     });
 
     it("should return 400 for invalid fromDate", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?fromDate=invalid",
+        url: "/api/companies/1/transactions?fromDate=invalid",
       });
 
       expect(response.statusCode).toBe(400);
@@ -267,7 +327,7 @@ describe("Transaction Routes", () => {
     it("should return 400 for invalid toDate", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?toDate=invalid",
+        url: "/api/companies/1/transactions?toDate=invalid",
       });
 
       expect(response.statusCode).toBe(400);
@@ -285,7 +345,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions?eventType=TRANSFER&address=0x1111111111111111111111111111111111111111&fromDate=1725349933&toDate=1725349999",
+        url: "/api/companies/1/transactions?eventType=TRANSFER&address=0x1111111111111111111111111111111111111111&fromDate=1725349933&toDate=1725349999",
       });
 
       expect(response.statusCode).toBe(200);
@@ -301,7 +361,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions",
+        url: "/api/companies/1/transactions",
       });
 
       expect(response.statusCode).toBe(200);
@@ -318,7 +378,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions",
+        url: "/api/companies/1/transactions",
       });
 
       expect(response.statusCode).toBe(500);
@@ -331,7 +391,7 @@ describe("Transaction Routes", () => {
     });
   });
 
-  describe("GET /api/transactions/:txHash", () => {
+  describe("GET /api/companies/:companyId/transactions/:txHash", () => {
     it("should return transaction details for valid hash", async () => {
       const mockTransactions = [
         {
@@ -362,7 +422,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
+        url: "/api/companies/1/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
       });
 
       expect(response.statusCode).toBe(200);
@@ -397,8 +457,8 @@ describe("Transaction Routes", () => {
       });
 
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining("WHERE tx_hash = ?"),
-        ["0x1234567890123456789012345678901234567890123456789012345678901234"]
+        expect.stringContaining("WHERE company_id = ? AND tx_hash = ?"),
+        [1, "0x1234567890123456789012345678901234567890123456789012345678901234"]
       );
     });
 
@@ -407,7 +467,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
+        url: "/api/companies/1/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
       });
 
       expect(response.statusCode).toBe(404);
@@ -423,7 +483,7 @@ describe("Transaction Routes", () => {
     it("should return 400 for invalid transaction hash format (too short)", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions/0x1234",
+        url: "/api/companies/1/transactions/0x1234",
       });
 
       expect(response.statusCode).toBe(400);
@@ -438,7 +498,7 @@ describe("Transaction Routes", () => {
     it("should return 400 for invalid transaction hash format (no 0x prefix)", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions/1234567890123456789012345678901234567890123456789012345678901234",
+        url: "/api/companies/1/transactions/1234567890123456789012345678901234567890123456789012345678901234",
       });
 
       expect(response.statusCode).toBe(400);
@@ -453,7 +513,7 @@ describe("Transaction Routes", () => {
     it("should return 400 for invalid transaction hash format (too long)", async () => {
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions/0x12345678901234567890123456789012345678901234567890123456789012345",
+        url: "/api/companies/1/transactions/0x12345678901234567890123456789012345678901234567890123456789012345",
       });
 
       expect(response.statusCode).toBe(400);
@@ -495,7 +555,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
+        url: "/api/companies/1/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
       });
 
       expect(response.statusCode).toBe(200);
@@ -513,7 +573,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
+        url: "/api/companies/1/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
       });
 
       expect(response.statusCode).toBe(500);
@@ -544,7 +604,7 @@ describe("Transaction Routes", () => {
 
       const response = await app.inject({
         method: "GET",
-        url: "/api/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
+        url: "/api/companies/1/transactions/0x1234567890123456789012345678901234567890123456789012345678901234",
       });
 
       expect(response.statusCode).toBe(200);
@@ -0,0 +1,183 @@
+/**
+ * @file Tests for transfer API routes
+ * @notice Validates POST /api/transfers/precheck
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const CAROL = "0xcccccccccccccccccccccccccccccccccccccccc";
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { transfersRoutes } from "../transfers";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: TOKEN,
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+describe("Transfer Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    db.run(`
+      INSERT INTO allowlist_history (company_id, wallet_address, approved, block_number, log_index)
+      VALUES (1, '${ALICE}', 1, 1, 0), (1, '${BOB}', 1, 1, 1)
+    `);
+    db.run(`
+      INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+      VALUES (1, '${ALICE}', '1000', '1000', 2)
+    `);
+    testDbInstance = db;
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(transfersRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  it("should allow a transfer between approved wallets", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/companies/1/transfers/precheck",
+      payload: { from: ALICE, to: BOB, amount: "1000" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      tokenAddress: TOKEN,
+      from: ALICE,
+      to: BOB,
+      amount: "1000",
+      code: 0,
+      restricted: false,
+      message: "No restriction",
+      balance: "1000",
+      sufficientBalance: true,
+    });
+  });
+
+  it("should explain why a transfer would be rejected", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/companies/1/transfers/precheck",
+      payload: { from: ALICE, to: CAROL, amount: "1" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      code: 2,
+      restricted: true,
+      message: "ChainEquityToken: recipient not approved",
+    });
+  });
+
+  it("should report a lock-up of the sender", async () => {
+    db.run(`
+      INSERT INTO lockup_history (company_id, token_address, lockup_type, wallet, value, block_number, log_index)
+      VALUES (1, '${TOKEN}', 'GLOBAL', NULL, ${Math.floor(Date.now() / 1000) + 3600}, 3, 0)
+    `);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/companies/1/transfers/precheck",
+      payload: { from: ALICE, to: BOB, amount: "1" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      code: 3,
+      restricted: true,
+      message: "ChainEquityToken: sender is locked up",
+    });
+  });
+
+  it("should report a compliance rejection", async () => {
+    const compliance = "0xc000000000000000000000000000000000000000";
+    const module = "0xa000000000000000000000000000000000000000";
+    db.run(`
+      INSERT INTO compliance_config_history (company_id, token_address, contract_address, config_type, compliance_address, module_address, module_name, block_number, log_index)
+      VALUES
+        (1, '${TOKEN}', '${compliance}', 'MODULE_ADDED', NULL, '${module}', 'AccreditedInvestor', 3, 0),
+        (1, '${TOKEN}', '${TOKEN}', 'COMPLIANCE_SET', '${compliance}', NULL, NULL, 3, 1)
+    `);
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/companies/1/transfers/precheck",
+      payload: { from: ALICE, to: BOB, amount: "1" },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      code: 5,
+      restricted: true,
+      message: "ChainEquityToken: compliance check failed",
+    });
+  });
+
+  it("should return 400 for an invalid address", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/companies/1/transfers/precheck",
+      payload: { from: ALICE, to: "0x123", amount: "1" },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(JSON.parse(response.body).error).toBe("Invalid address format");
+  });
+
+  it("should return 400 for a non-integer amount", async () => {
+    const response = await app.inject({
+      method: "POST",
+      url: "/api/companies/1/transfers/precheck",
+      payload: { from: ALICE, to: BOB, amount: "1.5" },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * @file Tests for vesting API routes
+ * @notice Validates GET /api/vesting/:address
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import Fastify from "fastify";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import type { CompanyRecord } from "../../db/schema";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../db/migrations";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const YEAR = 360 * 24 * 60 * 60;
+const START = 1_700_000_000;
+
+// Set up database mock with a closure that will capture the test database
+let testDbInstance: Database | null = null;
+mock.module("../../db/index", async () => ({
+  ...(await import("../../db/index")),
+  connect: () => {
+    if (!testDbInstance) {
+      throw new Error("Test database not initialized. Call beforeEach first.");
+    }
+    return testDbInstance;
+  },
+}));
+
+// Import routes AFTER mocks are set up
+import { vestingRoutes } from "../vesting";
+
+const COMPANY: CompanyRecord = {
+  id: 1,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0x1234567890123456789012345678901234567890",
+  tokenAddress: TOKEN,
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+describe("Vesting Routes", () => {
+  let app: ReturnType<typeof Fastify>;
+  let db: Database;
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${COMPANY.capTableAddress}', '${COMPANY.tokenAddress}', 0)
+    `);
+    testDbInstance = db;
+
+    app = Fastify({ logger: false });
+    await app.register(
+      async (scoped: FastifyInstance) => {
+        scoped.addHook("onRequest", async (request: FastifyRequest) => {
+          request.company = COMPANY;
+        });
+        await scoped.register(vestingRoutes);
+      },
+      { prefix: "/api/companies/:companyId" }
+    );
+  });
+
+  afterEach(async () => {
+    testDbInstance = null;
+    db.close();
+    await app.close();
+  });
+
+  it("should return an empty position for an address without grants", async () => {
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/companies/1/vesting/${ALICE}?timestamp=${START}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({
+      address: ALICE,
+      tokenAddress: TOKEN,
+      asOf: START,
+      totalGranted: "0",
+      totalVested: "0",
+      totalUnvested: "0",
+      totalClawedBack: "0",
+      grants: [],
+    });
+  });
+
+  it("should return vested and unvested amounts with a timeline", async () => {
+    // 1000 shares over four years with a one-year cliff, vesting yearly
+    db.run(`
+      INSERT INTO vesting_grants (company_id, token_address, grant_id, beneficiary, amount, start_time, cliff_duration, duration, release_interval, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, '${TOKEN}', 1, '${ALICE}', '1000', ${START}, ${YEAR}, ${4 * YEAR}, ${YEAR}, 10, ${START}, 1, '0x10')
+    `);
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/companies/1/vesting/${ALICE}?timestamp=${START + 2 * YEAR + 1}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    const body = JSON.parse(response.body);
+    expect(body).toMatchObject({
+      totalGranted: "1000",
+      totalVested: "500",
+      totalUnvested: "500",
+      totalClawedBack: "0",
+    });
+    expect(body.grants[0]).toMatchObject({
+      grantId: 1,
+      cliffTime: START + YEAR,
+      endTime: START + 4 * YEAR,
+      releaseInterval: YEAR,
+      revokedAt: null,
+    });
+    expect(body.grants[0].timeline).toEqual([
+      { timestamp: START, vested: "0" },
+      { timestamp: START + YEAR, vested: "0" },
+      { timestamp: START + YEAR, vested: "250" },
+      { timestamp: START + 2 * YEAR, vested: "250" },
+      { timestamp: START + 2 * YEAR, vested: "500" },
+      { timestamp: START + 3 * YEAR, vested: "500" },
+      { timestamp: START + 3 * YEAR, vested: "750" },
+      { timestamp: START + 4 * YEAR, vested: "750" },
+      { timestamp: START + 4 * YEAR, vested: "1000" },
+    ]);
+  });
+
+  it("should report clawed back shares of a revoked grant", async () => {
+    db.run(`
+      INSERT INTO vesting_grants (company_id, token_address, grant_id, beneficiary, amount, start_time, cliff_duration, duration, release_interval, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, '${TOKEN}', 1, '${ALICE}', '1000', ${START}, 0, ${4 * YEAR}, ${YEAR}, 10, ${START}, 1, '0x10')
+    `);
+    db.run(`
+      INSERT INTO vesting_grant_revocations (company_id, token_address, grant_id, vested_amount, clawed_back_amount, revoked_at, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, '${TOKEN}', 1, '250', '750', ${START + YEAR}, 20, ${START + YEAR}, 1, '0x20')
+    `);
+
+    const response = await app.inject({
+      method: "GET",
+      url: `/api/companies/1/vesting/${ALICE}?timestamp=${START + 3 * YEAR}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.body)).toMatchObject({
+      totalVested: "250",
+      totalUnvested: "0",
+      totalClawedBack: "750",
+      grants: [{ grantId: 1, revokedAt: START + YEAR, clawedBack: "750" }],
+    });
+  });
+
+  it("should return 400 for an invalid address or timestamp", async () => {
+    const badAddress = await app.inject({
+      method: "GET",
+      url: "/api/companies/1/vesting/not-an-address",
+    });
+    expect(badAddress.statusCode).toBe(400);
+    expect(JSON.parse(badAddress.body).error).toBe("Invalid address format");
+
+    const badTimestamp = await app.inject({
+      method: "GET",
+      url: `/api/companies/1/vesting/${ALICE}?timestamp=soon`,
+    });
+    expect(badTimestamp.statusCode).toBe(400);
+    expect(JSON.parse(badTimestamp.body).error).toBe("Invalid timestamp parameter");
+  });
+});
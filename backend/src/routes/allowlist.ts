@@ -0,0 +1,443 @@
+/**
+ * @file Allowlist API routes
+ * @notice REST endpoints for querying wallet allowlist state from indexed events
+ *
+ * Database table: allowlist_history
+ * - Stores indexed WalletApproved and WalletRevoked events from the token contract
+ * - Allowlist state at any block is derived from the latest event per wallet
+ *
+ * Database tables: allowlist_trees, allowlist_root_history
+ * - Merkle allowlist trees generated from the KYC-approved wallets, and the roots published on
+ *   the token with setAllowlistRoot() (see services/db/allowlistTree.ts)
+ * - Proofs are served against the published root for transferWithProof()/mintWithProof()
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { connect } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { requireAuth, requireAnyRole } from "../middleware/auth";
+import { isAddress } from "viem";
+import {
+  getApprovedWallets,
+  getWalletAllowlistHistory,
+} from "../services/db/allowlist";
+import {
+  generateAllowlistTree,
+  getAllowlistProof,
+  getLatestAllowlistRootChange,
+  getLatestAllowlistTree,
+  getPublishedAllowlistRoot,
+} from "../services/db/allowlistTree";
+import { getActiveTokenAddress } from "../services/db/tokens";
+import type { AllowlistTreeRecord } from "../db/schema";
+
+/**
+ * Serialize a generated allowlist tree
+ */
+function formatTree(tree: AllowlistTreeRecord) {
+  return {
+    root: tree.root,
+    wallets: tree.wallets,
+    walletCount: tree.wallets.length,
+    createdAt: tree.createdAt,
+  };
+}
+
+/**
+ * GET /api/companies/:companyId/allowlist
+ * Returns wallets on the allowlist, optionally as of a historical block
+ */
+async function getAllowlist(
+  request: FastifyRequest<{
+    Querystring: {
+      blockNumber?: string;
+    };
+  }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    let blockNumber: number | undefined = undefined;
+
+    if (request.query.blockNumber !== undefined) {
+      const requestedBlock = parseInt(request.query.blockNumber, 10);
+      if (isNaN(requestedBlock) || requestedBlock < 0) {
+        reply.code(400).send({
+          error: "Invalid blockNumber parameter",
+          message: "blockNumber must be a valid non-negative integer",
+        });
+        return;
+      }
+      blockNumber = requestedBlock;
+    }
+
+    const db = connect();
+    const approved = getApprovedWallets(
+      db,
+      getRequestCompany(request).id,
+      blockNumber
+    );
+
+    // Join with users table to include display names where wallets are linked
+    const userRows = db
+      .prepare(
+        `SELECT wallet_address AS walletAddress, email, display_name AS displayName
+         FROM users
+         WHERE wallet_address IS NOT NULL`
+      )
+      .all() as {
+      walletAddress: string;
+      email: string;
+      displayName: string | null;
+    }[];
+    const userMap = new Map(
+      userRows.map((row) => [row.walletAddress.toLowerCase(), row])
+    );
+
+    const wallets = approved.map((row) => {
+      const user = userMap.get(row.walletAddress);
+      return {
+        walletAddress: row.walletAddress,
+        approvedAtBlock: row.blockNumber,
+        approvedAtTimestamp: row.blockTimestamp,
+        email: user?.email ?? null,
+        displayName: user?.displayName ?? null,
+      };
+    });
+
+    reply.send({
+      blockNumber: blockNumber ?? null,
+      wallets,
+      total: wallets.length,
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching allowlist");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch allowlist",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/allowlist/:address/history
+ * Returns the approval/revocation history for a wallet
+ */
+async function getAllowlistHistory(
+  request: FastifyRequest<{
+    Params: {
+      address: string;
+    };
+  }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { address } = request.params;
+
+    if (!isAddress(address)) {
+      reply.code(400).send({
+        error: "Invalid address format",
+        message: "Address must be a valid Ethereum address",
+      });
+      return;
+    }
+
+    const db = connect();
+    const history = getWalletAllowlistHistory(
+      db,
+      getRequestCompany(request).id,
+      address
+    );
+    const latest = history[history.length - 1];
+
+    reply.send({
+      walletAddress: address.toLowerCase(),
+      isApproved: latest?.approved ?? false,
+      history: history.map((row) => ({
+        approved: row.approved,
+        issuerAddress: row.issuerAddress,
+        blockNumber: row.blockNumber,
+        blockTimestamp: row.blockTimestamp,
+        logIndex: row.logIndex,
+        txHash: row.txHash,
+      })),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching allowlist history");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch allowlist history",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/allowlist/root
+ * Returns the Merkle allowlist root published on the active token and the latest generated tree
+ */
+async function getAllowlistRoot(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const db = connect();
+    const company = getRequestCompany(request);
+    const tokenAddress = getActiveTokenAddress(db, company);
+    const latest = getLatestAllowlistRootChange(db, company.id, tokenAddress);
+    const tree = getLatestAllowlistTree(db, company.id);
+    const root = getPublishedAllowlistRoot(db, company.id, tokenAddress);
+
+    reply.send({
+      tokenAddress,
+      root,
+      blockNumber: latest?.blockNumber ?? null,
+      txHash: latest?.txHash ?? null,
+      latestTree: tree ? formatTree(tree) : null,
+      upToDate: tree !== null && tree.root === root,
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching allowlist root");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch allowlist root",
+    });
+  }
+}
+
+/**
+ * POST /api/companies/:companyId/allowlist/tree
+ * Regenerates the Merkle allowlist tree from the KYC-approved wallets (issuer/admin, or
+ * COMPLIANCE_ROLE holders)
+ * The issuer then publishes its root with setAllowlistRoot()
+ */
+async function regenerateAllowlistTree(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const tree = generateAllowlistTree(
+      connect(),
+      getRequestCompany(request).id,
+      request.user!.uid
+    );
+
+    if (!tree) {
+      reply.code(400).send({
+        error: "No approved wallets",
+        message: "An allowlist tree needs at least one KYC-approved wallet",
+      });
+      return;
+    }
+
+    reply.send(formatTree(tree));
+  } catch (error) {
+    request.log.error(error, "Error generating allowlist tree");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to generate allowlist tree",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/allowlist/proof/:address
+ * Returns a wallet's Merkle proof against the root published on the active token
+ */
+async function getProof(
+  request: FastifyRequest<{
+    Params: {
+      address: string;
+    };
+  }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { address } = request.params;
+
+    if (!isAddress(address)) {
+      reply.code(400).send({
+        error: "Invalid address format",
+        message: "Address must be a valid Ethereum address",
+      });
+      return;
+    }
+
+    const db = connect();
+    const company = getRequestCompany(request);
+    const proof = getAllowlistProof(
+      db,
+      company.id,
+      getActiveTokenAddress(db, company),
+      address
+    );
+
+    if (!proof) {
+      reply.code(404).send({
+        error: "Allowlist tree not found",
+        message: "No Merkle allowlist root generated by the backend is published on the token",
+      });
+      return;
+    }
+
+    reply.send({ walletAddress: address.toLowerCase(), ...proof });
+  } catch (error) {
+    request.log.error(error, "Error fetching allowlist proof");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch allowlist proof",
+    });
+  }
+}
+
+/**
+ * Register allowlist routes with Fastify instance
+ */
+export async function allowlistRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/allowlist
+  const allowlistSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          blockNumber: { type: ["integer", "null"] },
+          wallets: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                walletAddress: { type: "string" },
+                approvedAtBlock: { type: "integer" },
+                approvedAtTimestamp: { type: ["integer", "null"] },
+                email: { type: ["string", "null"] },
+                displayName: { type: ["string", "null"] },
+              },
+              required: ["walletAddress", "approvedAtBlock"],
+            },
+          },
+          total: { type: "integer" },
+        },
+        required: ["blockNumber", "wallets", "total"],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/allowlist/:address/history
+  const historySchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          walletAddress: { type: "string" },
+          isApproved: { type: "boolean" },
+          history: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                approved: { type: "boolean" },
+                issuerAddress: { type: ["string", "null"] },
+                blockNumber: { type: "integer" },
+                blockTimestamp: { type: ["integer", "null"] },
+                logIndex: { type: "integer" },
+                txHash: { type: ["string", "null"] },
+              },
+              required: ["approved", "blockNumber", "logIndex"],
+            },
+          },
+        },
+        required: ["walletAddress", "isApproved", "history"],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const treeProperties = {
+    root: { type: "string" },
+    wallets: { type: "array", items: { type: "string" } },
+    walletCount: { type: "integer" },
+    createdAt: { type: "integer" },
+  };
+
+  // Response schema for GET /api/companies/:companyId/allowlist/root
+  const rootSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          tokenAddress: { type: "string" },
+          root: { type: ["string", "null"] },
+          blockNumber: { type: ["integer", "null"] },
+          txHash: { type: ["string", "null"] },
+          latestTree: {
+            type: ["object", "null"],
+            properties: treeProperties,
+          },
+          upToDate: { type: "boolean" },
+        },
+        required: ["tokenAddress", "root", "blockNumber", "txHash", "latestTree", "upToDate"],
+      },
+      500: errorSchema,
+    },
+  };
+
+  // Response schema for POST /api/companies/:companyId/allowlist/tree
+  const treeSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: treeProperties,
+        required: ["root", "wallets", "walletCount", "createdAt"],
+      },
+      400: errorSchema,
+      401: errorSchema,
+      403: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/allowlist/proof/:address
+  const proofSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          walletAddress: { type: "string" },
+          root: { type: "string" },
+          included: { type: "boolean" },
+          proof: { type: "array", items: { type: "string" } },
+        },
+        required: ["walletAddress", "root", "included", "proof"],
+      },
+      400: errorSchema,
+      404: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.get("/allowlist", { schema: allowlistSchema }, getAllowlist);
+  fastify.get("/allowlist/root", { schema: rootSchema }, getAllowlistRoot);
+  fastify.post(
+    "/allowlist/tree",
+    {
+      schema: treeSchema,
+      preHandler: [requireAuth, requireAnyRole(["issuer", "admin"], ["COMPLIANCE_ROLE"])],
+    },
+    regenerateAllowlistTree
+  );
+  fastify.get("/allowlist/proof/:address", { schema: proofSchema }, getProof);
+  fastify.get(
+    "/allowlist/:address/history",
+    { schema: historySchema },
+    getAllowlistHistory
+  );
+}
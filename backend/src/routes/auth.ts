@@ -0,0 +1,310 @@
+/**
+ * @file Authentication routes for ChainEquity backend
+ * @notice Sign-In With Ethereum (EIP-4361): nonce issuance, signature verification and sessions
+ *
+ * Flow:
+ * 1. GET /api/auth/nonce - client fetches a single-use nonce
+ * 2. Client builds a SIWE message with the nonce and signs it with the connected wallet
+ * 3. POST /api/auth/verify - server verifies the message and signature, returns a session token
+ * 4. Client sends `Authorization: Bearer <token>`; GET /api/auth/session returns the signed-in user
+ * 5. POST /api/auth/logout - deletes the session
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { isHex, verifyMessage } from "viem";
+import { parseSiweMessage, validateSiweMessage } from "viem/siwe";
+import { connect } from "../db/index";
+import { requireAuth, getBearerToken } from "../middleware/auth";
+import {
+  createNonce,
+  consumeNonce,
+  createSession,
+  deleteSession,
+} from "../services/db/sessions";
+import { getOrCreateWalletUser } from "../services/db/users";
+
+/**
+ * Seconds a nonce stays valid between GET /auth/nonce and POST /auth/verify
+ */
+const NONCE_TTL_SECONDS = 5 * 60;
+
+/**
+ * Session lifetime in seconds (default: 24 hours)
+ */
+function getSessionTtlSeconds(): number {
+  return Number(process.env.SESSION_TTL_SECONDS) || 24 * 60 * 60;
+}
+
+/**
+ * Domains (RFC 3986 authority of the frontend) accepted in SIWE messages
+ * SIWE_DOMAIN is a comma-separated list, default: the Vite dev server
+ */
+function getAllowedDomains(): string[] {
+  return (process.env.SIWE_DOMAIN || "localhost:5173")
+    .split(",")
+    .map((domain) => domain.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Chain ID SIWE messages must be bound to (same CHAIN_ID the indexer uses)
+ */
+function getExpectedChainId(): number {
+  return Number(process.env.CHAIN_ID) || 31337;
+}
+
+/**
+ * GET /api/auth/nonce
+ * Issue a single-use nonce for a SIWE message
+ */
+async function getNonce(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { nonce, expiresAt } = createNonce(connect(), NONCE_TTL_SECONDS);
+    reply.send({ nonce, expiresAt });
+  } catch (error) {
+    request.log.error(error, "Error issuing SIWE nonce");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to issue nonce",
+    });
+  }
+}
+
+/**
+ * POST /api/auth/verify
+ * Verify a signed SIWE message and create a session for the signing wallet
+ */
+async function verifySignIn(
+  request: FastifyRequest<{
+    Body: {
+      message: string;
+      signature: string;
+    };
+  }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { message, signature } = request.body;
+
+    if (!isHex(signature)) {
+      reply.code(400).send({
+        error: "Invalid signature",
+        message: "signature must be a hex string",
+      });
+      return;
+    }
+
+    const fields = parseSiweMessage(message);
+    if (!fields.address || !fields.nonce || !fields.chainId || !fields.domain) {
+      reply.code(400).send({
+        error: "Invalid SIWE message",
+        message: "message must be an EIP-4361 message with address, domain, chain ID and nonce",
+      });
+      return;
+    }
+
+    // Domain binding and expirationTime/notBefore
+    const domainValid = getAllowedDomains().some((domain) =>
+      validateSiweMessage({ message: fields, domain })
+    );
+    if (!domainValid) {
+      reply.code(401).send({
+        error: "Invalid SIWE message",
+        message: "Message domain is not accepted or the message is expired",
+      });
+      return;
+    }
+
+    if (fields.chainId !== getExpectedChainId()) {
+      reply.code(401).send({
+        error: "Invalid SIWE message",
+        message: `Message must be signed for chain ${getExpectedChainId()}`,
+      });
+      return;
+    }
+
+    // EOA signature check (smart contract wallets are not supported)
+    const signatureValid = await verifyMessage({
+      address: fields.address,
+      message,
+      signature,
+    });
+    if (!signatureValid) {
+      reply.code(401).send({
+        error: "Invalid signature",
+        message: "Signature does not match the message address",
+      });
+      return;
+    }
+
+    // Consume the nonce only after the signature checks out, so bad requests cannot burn nonces
+    const db = connect();
+    if (!consumeNonce(db, fields.nonce)) {
+      reply.code(401).send({
+        error: "Invalid nonce",
+        message: "Nonce is unknown, expired or already used",
+      });
+      return;
+    }
+
+    const user = getOrCreateWalletUser(db, fields.address);
+    const session = createSession(db, {
+      uid: user.uid,
+      walletAddress: fields.address,
+      chainId: fields.chainId,
+      ttlSeconds: getSessionTtlSeconds(),
+    });
+
+    reply.send({
+      token: session.token,
+      expiresAt: session.expiresAt,
+      user: {
+        uid: user.uid,
+        email: user.email,
+        role: user.role,
+        wallet_address: fields.address.toLowerCase(),
+      },
+    });
+  } catch (error) {
+    request.log.error(error, "Error verifying SIWE message");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to verify sign-in",
+    });
+  }
+}
+
+/**
+ * GET /api/auth/session
+ * Return the user for the current session
+ */
+async function getCurrentSession(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  reply.send({ user: request.user });
+}
+
+/**
+ * POST /api/auth/logout
+ * Delete the current session
+ */
+async function logout(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const token = getBearerToken(request);
+    if (token) {
+      deleteSession(connect(), token);
+    }
+    reply.send({ success: true });
+  } catch (error) {
+    request.log.error(error, "Error logging out");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to log out",
+    });
+  }
+}
+
+/**
+ * Register authentication routes with Fastify instance
+ */
+export async function authRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  const userSchema = {
+    type: "object",
+    properties: {
+      uid: { type: "string" },
+      email: { type: "string" },
+      role: { type: "string" },
+      wallet_address: { type: "string" },
+    },
+  };
+
+  const nonceSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          nonce: { type: "string" },
+          expiresAt: { type: "number" },
+        },
+      },
+      500: errorSchema,
+    },
+  };
+
+  const verifySchema = {
+    body: {
+      type: "object",
+      required: ["message", "signature"],
+      properties: {
+        message: { type: "string", minLength: 1 },
+        signature: { type: "string", minLength: 1 },
+      },
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          token: { type: "string" },
+          expiresAt: { type: "number" },
+          user: userSchema,
+        },
+      },
+      400: errorSchema,
+      401: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const sessionSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          user: userSchema,
+        },
+      },
+      401: errorSchema,
+    },
+  };
+
+  const logoutSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          success: { type: "boolean" },
+        },
+      },
+      401: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.get("/auth/nonce", { schema: nonceSchema }, getNonce);
+  fastify.post("/auth/verify", { schema: verifySchema }, verifySignIn);
+  fastify.get(
+    "/auth/session",
+    { schema: sessionSchema, preHandler: requireAuth },
+    getCurrentSession
+  );
+  fastify.post(
+    "/auth/logout",
+    { schema: logoutSchema, preHandler: requireAuth },
+    logout
+  );
+}
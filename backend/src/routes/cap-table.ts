@@ -0,0 +1,197 @@
+/**
+ * @file Cap table export routes
+ * @notice Downloadable cap table snapshots (CSV or JSON) for finance and audit hand-off
+ *
+ * Data source:
+ * - Balances, effective balances and ownership come from the snapshot engine (services/db/snapshots.ts)
+ * - Display names are joined from the users table by wallet address
+ * - Exports stop at the company's last indexed block, so they never claim blocks the indexer
+ *   has not processed yet
+ *
+ * Access: issuers, admins and DEFAULT_ADMIN_ROLE holders of the company only (display names
+ * next to wallets and balances are PII)
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { formatUnits } from "viem";
+import { connect } from "../db/index";
+import { requireAuth, requireAnyRole } from "../middleware/auth";
+import { getRequestCompany } from "../middleware/company";
+import { getSnapshotAtBlock } from "../services/db/snapshots";
+import { getUserProfilesByWallet } from "../services/db/users";
+
+/**
+ * Token decimals used to format share amounts in CSV exports (ERC20 default)
+ */
+const TOKEN_DECIMALS = 18;
+
+/**
+ * Supported export formats
+ */
+const EXPORT_FORMATS = ["csv", "json"] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Escape a value for CSV output
+ * Quotes fields containing separators or quotes, and neutralizes leading formula characters
+ * so spreadsheet applications never evaluate user-provided text (e.g. display names)
+ */
+function toCsvField(value: string | number | null): string {
+  if (value === null) {
+    return "";
+  }
+
+  let field = String(value);
+  if (/^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  if (/[",\r\n]/.test(field)) {
+    field = `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+}
+
+/**
+ * GET /api/companies/:companyId/cap-table/export
+ * Returns the cap table at a block (default: last indexed block) as a downloadable file
+ */
+async function exportCapTable(
+  request: FastifyRequest<{
+    Querystring: {
+      format?: string;
+      block?: string;
+    };
+  }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const format = (request.query.format ?? "csv").toLowerCase();
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      reply.code(400).send({
+        error: "Invalid format parameter",
+        message: `format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+      });
+      return;
+    }
+
+    const company = getRequestCompany(request);
+    const lastIndexedBlock = company.lastIndexedBlock;
+    if (lastIndexedBlock === null) {
+      reply.code(409).send({
+        error: "Cap table not indexed yet",
+        message: "The indexer has not processed any block for this company yet",
+      });
+      return;
+    }
+    let blockNumber = lastIndexedBlock;
+
+    if (request.query.block !== undefined) {
+      const requestedBlock = Number(request.query.block);
+      if (!Number.isInteger(requestedBlock) || requestedBlock < 0) {
+        reply.code(400).send({
+          error: "Invalid block parameter",
+          message: "block must be a valid non-negative integer",
+        });
+        return;
+      }
+      if (requestedBlock > lastIndexedBlock) {
+        reply.code(400).send({
+          error: "Invalid block parameter",
+          message: `block ${requestedBlock} is not indexed yet (last indexed: ${lastIndexedBlock})`,
+        });
+        return;
+      }
+      blockNumber = requestedBlock;
+    }
+
+    const db = connect();
+    const snapshot = getSnapshotAtBlock(db, company.id, blockNumber);
+    const profiles = getUserProfilesByWallet(
+      db,
+      snapshot.shareholders.map((sh) => sh.address)
+    );
+
+    const shareholders = snapshot.shareholders.map((sh) => ({
+      address: sh.address,
+      displayName: profiles.get(sh.address)?.displayName ?? null,
+      balance: sh.balance,
+      effectiveBalance: sh.effectiveBalance,
+      ownershipPercentage: sh.ownershipPercentage,
+    }));
+
+    const filename = `cap-table-block-${blockNumber}.${format}`;
+    reply.header("Content-Disposition", `attachment; filename="${filename}"`);
+
+    if (format === "json") {
+      reply.type("application/json").send({
+        blockNumber,
+        generatedAt: new Date().toISOString(),
+        splitFactor: snapshot.splitFactor,
+        totalSupply: snapshot.totalSupply,
+        totalEffectiveSupply: snapshot.totalEffectiveSupply,
+        shareholders,
+      });
+      return;
+    }
+
+    const header = [
+      "wallet_address",
+      "display_name",
+      "balance",
+      "effective_balance",
+      "ownership_percentage",
+    ];
+    const rows = shareholders.map((sh) =>
+      [
+        sh.address,
+        sh.displayName,
+        formatUnits(BigInt(sh.balance), TOKEN_DECIMALS),
+        formatUnits(BigInt(sh.effectiveBalance), TOKEN_DECIMALS),
+        sh.ownershipPercentage.toFixed(2),
+      ]
+        .map(toCsvField)
+        .join(",")
+    );
+
+    // UTF-8 BOM so spreadsheet applications detect the encoding of non-ASCII display names
+    const csv = "\uFEFF" + [header.join(","), ...rows].join("\r\n") + "\r\n";
+    reply.type("text/csv; charset=utf-8").send(csv);
+  } catch (error) {
+    request.log.error(error, "Error exporting cap table");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to export cap table",
+    });
+  }
+}
+
+/**
+ * Register cap table routes with Fastify instance
+ */
+export async function capTableRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  // 200 responses are CSV or JSON files, so only error bodies are schema-validated
+  const exportSchema = {
+    response: {
+      400: errorSchema,
+      409: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.get<{ Querystring: { format?: string; block?: string } }>(
+    "/cap-table/export",
+    {
+      preHandler: [requireAuth, requireAnyRole(["issuer", "admin"], ["DEFAULT_ADMIN_ROLE"])],
+      schema: exportSchema,
+    },
+    exportCapTable
+  );
+}
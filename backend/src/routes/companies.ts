@@ -0,0 +1,155 @@
+/**
+ * @file Company registry API routes
+ * @notice Lists the companies the backend indexes; every other cap table route is scoped
+ *         under /api/companies/:companyId
+ *
+ * Data source:
+ * - companies table, registered from contracts/exports/deployments.json at startup
+ *   and from CapTableFactory CompanyCreated events (see services/db/companies.ts)
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { FACTORY_ADDRESS } from "../config/contracts";
+import { connect } from "../db/index";
+import type { CompanyRecord } from "../db/schema";
+import { getCompanies, getCompanyById } from "../services/db/companies";
+import { getActiveTokenAddress } from "../services/db/tokens";
+
+/**
+ * Convert a company record to its response object
+ * tokenAddress is the token the CapTable currently points at (after any replacement)
+ */
+function asCompanyResponse(company: CompanyRecord) {
+  return {
+    id: company.id,
+    name: company.name,
+    chainId: company.chainId,
+    capTableAddress: company.capTableAddress,
+    tokenAddress: getActiveTokenAddress(connect(), company),
+    lastIndexedBlock: company.lastIndexedBlock,
+  };
+}
+
+/**
+ * GET /api/companies
+ * Returns every registered company, oldest first, and the CapTableFactory new companies are
+ * created with (null when no factory is deployed)
+ */
+async function listCompanies(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    reply.send({
+      companies: getCompanies(connect()).map(asCompanyResponse),
+      factoryAddress: FACTORY_ADDRESS,
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching companies");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch companies",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId
+ * Returns a single registered company
+ */
+async function getCompanyDetails(
+  request: FastifyRequest<{
+    Params: {
+      companyId: string;
+    };
+  }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const companyId = Number(request.params.companyId);
+    const company = Number.isInteger(companyId)
+      ? getCompanyById(connect(), companyId)
+      : null;
+
+    if (!company) {
+      reply.code(404).send({
+        error: "Company not found",
+        message: `No company registered with id ${request.params.companyId}`,
+      });
+      return;
+    }
+
+    reply.send(asCompanyResponse(company));
+  } catch (error) {
+    request.log.error(error, "Error fetching company");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch company",
+    });
+  }
+}
+
+/**
+ * Register company registry routes with Fastify instance
+ */
+export async function companiesRoutes(fastify: FastifyInstance): Promise<void> {
+  // Response schema for a company object
+  const companySchema = {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      name: { type: "string" },
+      chainId: { type: "integer" },
+      capTableAddress: { type: "string" },
+      tokenAddress: { type: "string" },
+      lastIndexedBlock: { type: ["integer", "null"] },
+    },
+    required: [
+      "id",
+      "name",
+      "chainId",
+      "capTableAddress",
+      "tokenAddress",
+      "lastIndexedBlock",
+    ],
+  };
+
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  // Response schema for GET /api/companies
+  const companiesListSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          companies: { type: "array", items: companySchema },
+          factoryAddress: { type: ["string", "null"] },
+        },
+        required: ["companies", "factoryAddress"],
+      },
+      500: errorSchema,
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId
+  const companyDetailsSchema = {
+    response: {
+      200: companySchema,
+      404: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.get("/companies", { schema: companiesListSchema }, listCompanies);
+  fastify.get(
+    "/companies/:companyId",
+    { schema: companyDetailsSchema },
+    getCompanyDetails
+  );
+}
@@ -10,13 +10,27 @@
  * - createdAt() view returns (uint256)
  * - getCompanyInfo() view returns (string name, string symbol, address issuer, address token, uint256 createdAt)
  * - isTokenLinked() view returns (bool)
+ *
+ * The pause state of the token in /company/stats comes from the indexed pause_history table.
+ *
+ * /company/authorized-shares serves the indexed authorized_shares_history table, with the
+ * outstanding supply at each change replayed from indexed transfers (no contract reads).
+ *
+ * The CapTable symbol is kept in sync with the token by SYMBOL_CHANGE corporate actions;
+ * previous symbols come from the indexed symbol_history table.
+ *
+ * Every route reads the CapTable of the company in the /api/companies/:companyId scope.
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { getPublicClient } from "../services/chain/client";
-import { CONTRACTS } from "../config/contracts";
+import { ABIS } from "../config/contracts";
 import { safeRead } from "../services/chain/utils";
-import { queryOne } from "../db/index";
+import { connect, queryOne } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { getSymbolHistory } from "../services/db/symbols";
+import { getLatestPauseChange } from "../services/db/pause";
+import { getAuthorizedVsOutstandingHistory } from "../services/db/authorizedShares";
 
 /**
  * Helper function to check if an address is zero address
@@ -27,15 +41,18 @@ function isZeroAddress(address: string | null | undefined): boolean {
 }
 
 /**
- * GET /api/company
- * Returns full company details including all metadata
+ * GET /api/companies/:companyId/company
+ * Returns full company details including all metadata, the current symbol and the
+ * symbol history indexed from the token
  */
 async function getCompany(
   request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> {
   const publicClient = getPublicClient();
-  const { address, abi } = CONTRACTS.capTable;
+  const company = getRequestCompany(request);
+  const address = company.capTableAddress as `0x${string}`;
+  const abi = ABIS.capTable;
 
   try {
     // Query getCompanyInfo() for efficient single-call retrieval
@@ -61,6 +78,14 @@ async function getCompany(
     const isTokenLinked = !isZeroAddress(token);
     const tokenAddress = isTokenLinked ? token : null;
 
+    const symbolHistory = getSymbolHistory(connect(), company.id).map((record) => ({
+      oldSymbol: record.oldSymbol,
+      newSymbol: record.newSymbol,
+      blockNumber: record.blockNumber,
+      blockTimestamp: record.blockTimestamp,
+      txHash: record.txHash,
+    }));
+
     reply.send({
       name,
       symbol,
@@ -69,6 +94,7 @@ async function getCompany(
       capTableAddress: address,
       createdAt: Number(createdAt),
       isTokenLinked,
+      symbolHistory,
     });
   } catch (error) {
     request.log.error(error, "Error fetching company information");
@@ -80,7 +106,7 @@ async function getCompany(
 }
 
 /**
- * GET /api/company/metadata
+ * GET /api/companies/:companyId/company/metadata
  * Returns company metadata (name, symbol, issuer, creation timestamp, token link status)
  */
 async function getCompanyMetadata(
@@ -88,7 +114,9 @@ async function getCompanyMetadata(
   reply: FastifyReply
 ): Promise<void> {
   const publicClient = getPublicClient();
-  const { address, abi } = CONTRACTS.capTable;
+  const company = getRequestCompany(request);
+  const address = company.capTableAddress as `0x${string}`;
+  const abi = ABIS.capTable;
 
   try {
     // Query individual fields for metadata endpoint
@@ -157,7 +185,7 @@ async function getCompanyMetadata(
 }
 
 /**
- * GET /api/company/stats
+ * GET /api/companies/:companyId/company/stats
  * Returns comprehensive company statistics for dashboard display
  * Combines data from CapTable contract, Token contract, and shareholders database
  */
@@ -166,8 +194,10 @@ async function getCompanyStats(
   reply: FastifyReply
 ): Promise<void> {
   const publicClient = getPublicClient();
-  const { address: capTableAddress, abi: capTableAbi } = CONTRACTS.capTable;
-  const { address: tokenAddress, abi: tokenAbi } = CONTRACTS.token;
+  const company = getRequestCompany(request);
+  const capTableAddress = company.capTableAddress as `0x${string}`;
+  const capTableAbi = ABIS.capTable;
+  const tokenAbi = ABIS.token;
 
   try {
     // Get company info from CapTable contract
@@ -225,10 +255,17 @@ async function getCompanyStats(
 
     // Get total shareholders count from database
     const shareholderCount = queryOne<{ count: number }>(
-      "SELECT COUNT(*) as count FROM shareholders"
+      "SELECT COUNT(*) as count FROM shareholders WHERE company_id = ?",
+      [company.id]
     );
     const totalShareholders = shareholderCount?.count ?? 0;
 
+    // Get the token's pause state from the indexed Paused/Unpaused events
+    const pause = linkedTokenAddress
+      ? getLatestPauseChange(connect(), company.id, linkedTokenAddress)
+      : null;
+    const paused = pause?.paused ?? false;
+
     // Format createdAt as ISO 8601 string
     const createdAtTimestamp = Number(createdAt);
     const createdAtDate = new Date(createdAtTimestamp * 1000);
@@ -246,6 +283,9 @@ async function getCompanyStats(
       totalOutstanding,
       decimals,
       ...(splitFactor && { splitFactor }),
+      paused,
+      pausedAt: paused ? pause!.blockTimestamp : null,
+      pausedBy: paused ? pause!.account : null,
     });
   } catch (error) {
     request.log.error(error, "Error fetching company stats");
@@ -256,6 +296,40 @@ async function getCompanyStats(
   }
 }
 
+/**
+ * GET /api/companies/:companyId/company/authorized-shares
+ * Returns every authorized shares change (deployment and charter amendments) in chronological
+ * order, each with the outstanding supply right after it
+ */
+async function getAuthorizedShares(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const company = getRequestCompany(request);
+
+  try {
+    const history = getAuthorizedVsOutstandingHistory(connect(), company.id).map(
+      (record) => ({
+        tokenAddress: record.tokenAddress,
+        oldAuthorized: record.oldAuthorized,
+        newAuthorized: record.newAuthorized,
+        outstanding: record.outstanding,
+        blockNumber: record.blockNumber,
+        blockTimestamp: record.blockTimestamp,
+        txHash: record.txHash,
+      })
+    );
+
+    reply.send({ history });
+  } catch (error) {
+    request.log.error(error, "Error fetching authorized shares history");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch authorized shares history",
+    });
+  }
+}
+
 /**
  * Register company routes with Fastify instance
  */
@@ -273,8 +347,30 @@ export async function companyRoutes(fastify: FastifyInstance): Promise<void> {
           capTableAddress: { type: "string" },
           createdAt: { type: "number" },
           isTokenLinked: { type: "boolean" },
+          symbolHistory: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                oldSymbol: { type: ["string", "null"] },
+                newSymbol: { type: "string" },
+                blockNumber: { type: "integer" },
+                blockTimestamp: { type: ["integer", "null"] },
+                txHash: { type: ["string", "null"] },
+              },
+              required: ["oldSymbol", "newSymbol", "blockNumber"],
+            },
+          },
         },
-        required: ["name", "symbol", "issuer", "capTableAddress", "createdAt", "isTokenLinked"],
+        required: [
+          "name",
+          "symbol",
+          "issuer",
+          "capTableAddress",
+          "createdAt",
+          "isTokenLinked",
+          "symbolHistory",
+        ],
       },
       404: {
         type: "object",
@@ -342,6 +438,9 @@ export async function companyRoutes(fastify: FastifyInstance): Promise<void> {
           totalOutstanding: { type: "string" },
           decimals: { type: "integer" },
           splitFactor: { type: "string" }, // Optional property (not in required array)
+          paused: { type: "boolean" },
+          pausedAt: { type: ["integer", "null"] }, // Block timestamp of the Paused event
+          pausedBy: { type: ["string", "null"] },
         },
         required: [
           "name",
@@ -354,6 +453,9 @@ export async function companyRoutes(fastify: FastifyInstance): Promise<void> {
           "totalAuthorized",
           "totalOutstanding",
           "decimals",
+          "paused",
+          "pausedAt",
+          "pausedBy",
         ],
       },
       404: {
@@ -373,8 +475,54 @@ export async function companyRoutes(fastify: FastifyInstance): Promise<void> {
     },
   };
 
+  // Response schema for GET /api/company/authorized-shares
+  const authorizedSharesSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          history: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                tokenAddress: { type: "string" },
+                oldAuthorized: { type: ["string", "null"] }, // null at deployment
+                newAuthorized: { type: "string" },
+                outstanding: { type: "string" },
+                blockNumber: { type: "integer" },
+                blockTimestamp: { type: ["integer", "null"] },
+                txHash: { type: ["string", "null"] },
+              },
+              required: [
+                "tokenAddress",
+                "oldAuthorized",
+                "newAuthorized",
+                "outstanding",
+                "blockNumber",
+              ],
+            },
+          },
+        },
+        required: ["history"],
+      },
+      500: {
+        type: "object",
+        properties: {
+          error: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  };
+
   fastify.get("/company", { schema: companySchema }, getCompany);
   fastify.get("/company/metadata", { schema: metadataSchema }, getCompanyMetadata);
   fastify.get("/company/stats", { schema: statsSchema }, getCompanyStats);
+  fastify.get(
+    "/company/authorized-shares",
+    { schema: authorizedSharesSchema },
+    getAuthorizedShares
+  );
 }
 
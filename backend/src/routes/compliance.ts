@@ -0,0 +1,221 @@
+/**
+ * @file Compliance API routes
+ * @notice Compliance contracts and module settings of the active and share class tokens
+ *
+ * Data source:
+ * - compliance_config_history table (see services/db/compliance.ts)
+ * - Only changes from each token's current compliance and its plugged-in modules count towards
+ *   the current settings; the history lists every indexed change
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { isAddress } from "viem";
+import { connect } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { getActiveTokenAddress } from "../services/db/tokens";
+import { getShareClasses } from "../services/db/shareClasses";
+import {
+  getComplianceHistory,
+  getComplianceSettings,
+} from "../services/db/compliance";
+
+/**
+ * GET /api/companies/:companyId/compliance
+ * Returns the compliance and module settings of the active token and every share class token
+ */
+async function getCompliance(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const db = connect();
+    const company = getRequestCompany(request);
+    const tokenAddress = getActiveTokenAddress(db, company);
+
+    reply.send({
+      tokens: [
+        {
+          ...getComplianceSettings(db, company.id, tokenAddress),
+          shareClass: null,
+        },
+        ...getShareClasses(db, company.id).map((shareClass) => ({
+          ...getComplianceSettings(db, company.id, shareClass.tokenAddress),
+          shareClass: { classId: shareClass.classId, name: shareClass.name },
+        })),
+      ],
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching compliance settings");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch compliance settings",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/compliance/history
+ * Returns every indexed compliance configuration change of a token (the active token by default)
+ */
+async function getComplianceChanges(
+  request: FastifyRequest<{ Querystring: { tokenAddress?: string } }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { tokenAddress: requested } = request.query;
+
+    if (requested !== undefined && !isAddress(requested)) {
+      reply.code(400).send({
+        error: "Invalid address format",
+        message: "tokenAddress must be a valid Ethereum address",
+      });
+      return;
+    }
+
+    const db = connect();
+    const company = getRequestCompany(request);
+    const tokenAddress = (
+      requested ?? getActiveTokenAddress(db, company)
+    ).toLowerCase();
+
+    reply.send({
+      tokenAddress,
+      changes: getComplianceHistory(db, company.id, tokenAddress),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching compliance history");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch compliance history",
+    });
+  }
+}
+
+/**
+ * Register compliance routes with Fastify instance
+ */
+export async function complianceRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  const nullableString = { type: ["string", "null"] };
+
+  // Response schema for GET /api/companies/:companyId/compliance
+  const complianceSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          tokens: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                tokenAddress: { type: "string" },
+                complianceAddress: nullableString,
+                shareClass: {
+                  type: ["object", "null"],
+                  properties: {
+                    classId: { type: "integer" },
+                    name: { type: "string" },
+                  },
+                },
+                modules: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      address: { type: "string" },
+                      name: { type: "string" },
+                      addedAtBlock: { type: "integer" },
+                      maxHolders: { type: "integer" },
+                      maxOwnershipBps: { type: "integer" },
+                      restrictedCountries: {
+                        type: "array",
+                        items: { type: "string" },
+                      },
+                      investorCountries: {
+                        type: "array",
+                        items: {
+                          type: "object",
+                          properties: {
+                            wallet: { type: "string" },
+                            country: { type: "string" },
+                          },
+                          required: ["wallet", "country"],
+                        },
+                      },
+                      accreditedWallets: {
+                        type: "array",
+                        items: { type: "string" },
+                      },
+                    },
+                    required: ["address", "name", "addedAtBlock"],
+                  },
+                },
+              },
+              required: ["tokenAddress", "complianceAddress", "shareClass", "modules"],
+            },
+          },
+        },
+        required: ["tokens"],
+      },
+      500: errorSchema,
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/compliance/history
+  const historySchema = {
+    querystring: {
+      type: "object",
+      properties: {
+        tokenAddress: { type: "string" },
+      },
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          tokenAddress: { type: "string" },
+          changes: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                tokenAddress: { type: "string" },
+                contractAddress: { type: "string" },
+                configType: { type: "string" },
+                complianceAddress: nullableString,
+                moduleAddress: nullableString,
+                moduleName: nullableString,
+                wallet: nullableString,
+                country: nullableString,
+                value: { type: ["integer", "null"] },
+                blockNumber: { type: "integer" },
+                blockTimestamp: { type: ["integer", "null"] },
+                logIndex: { type: "integer" },
+                txHash: nullableString,
+              },
+              required: ["contractAddress", "configType", "blockNumber", "logIndex"],
+            },
+          },
+        },
+        required: ["tokenAddress", "changes"],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.get("/compliance", { schema: complianceSchema }, getCompliance);
+  fastify.get<{ Querystring: { tokenAddress?: string } }>(
+    "/compliance/history",
+    { schema: historySchema },
+    getComplianceChanges
+  );
+}
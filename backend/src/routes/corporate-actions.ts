@@ -8,22 +8,20 @@
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
-import { query, queryOne } from "../db/index";
-import { getPublicClient } from "../services/chain/client";
-import { CONTRACTS } from "../config/contracts";
-import { safeRead } from "../services/chain/utils";
-import type { Address } from "viem";
+import { query, queryOne, connect } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { getSnapshotAtBlock } from "../services/db/snapshots";
 
 /**
- * Build WHERE clause and parameters for corporate actions filtering
+ * Build WHERE clause and parameters for a company's corporate actions filtering
  */
-function buildWhereClause(filters: {
+function buildWhereClause(companyId: number, filters: {
   actionType?: string;
   fromDate?: number;
   toDate?: number;
 }): { where: string; params: unknown[] } {
-  const conditions: string[] = [];
-  const params: unknown[] = [];
+  const conditions: string[] = ["company_id = ?"];
+  const params: unknown[] = [companyId];
 
   if (filters.actionType) {
     conditions.push("action_type = ?");
@@ -40,13 +38,13 @@ function buildWhereClause(filters: {
     params.push(filters.toDate);
   }
 
-  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const where = `WHERE ${conditions.join(" AND ")}`;
 
   return { where, params };
 }
 
 /**
- * GET /api/corporate-actions
+ * GET /api/companies/:companyId/corporate-actions
  * Returns paginated corporate actions list with optional filtering
  */
 async function getCorporateActions(
@@ -105,7 +103,7 @@ async function getCorporateActions(
     }
 
     // Build WHERE clause
-    const whereClause = buildWhereClause(filters);
+    const whereClause = buildWhereClause(getRequestCompany(request).id, filters);
 
     // Get total count
     const countSql = `SELECT COUNT(*) as count FROM corporate_actions ${whereClause.where}`;
@@ -167,8 +165,9 @@ async function getCorporateActions(
 }
 
 /**
- * GET /api/snapshots/:block
+ * GET /api/companies/:companyId/snapshots/:block
  * Returns historical cap table snapshot at a specific block number
+ * Served entirely from the database, so it works without an archive node
  */
 async function getSnapshot(
   request: FastifyRequest<{
@@ -191,49 +190,14 @@ async function getSnapshot(
       return;
     }
 
-    // Query all shareholder addresses from database
-    const shareholderRows = query<{ address: string }>(
-      "SELECT address FROM shareholders"
+    // Reconstruct the cap table from indexed transactions and split history
+    const snapshot = getSnapshotAtBlock(
+      connect(),
+      getRequestCompany(request).id,
+      blockNumber
     );
 
-    if (shareholderRows.length === 0) {
-      reply.send({
-        blockNumber,
-        shareholders: [],
-      });
-      return;
-    }
-
-    const publicClient = getPublicClient();
-    const { address: tokenAddress, abi } = CONTRACTS.token;
-
-    // Query balances at the specified block number using Promise.all
-    const balancePromises = shareholderRows.map((row) =>
-      safeRead<bigint>(publicClient, {
-        address: tokenAddress,
-        abi,
-        functionName: "balanceOf",
-        args: [row.address.toLowerCase() as Address],
-        blockNumber: BigInt(blockNumber),
-      })
-    );
-
-    const balances = await Promise.all(balancePromises);
-
-    // Transform results to response format
-    const shareholders = shareholderRows.map((row, index) => {
-      const balance = balances[index] ? balances[index]!.toString() : "0";
-
-      return {
-        address: row.address.toLowerCase(),
-        balance,
-      };
-    });
-
-    reply.send({
-      blockNumber,
-      shareholders,
-    });
+    reply.send(snapshot);
   } catch (error) {
     request.log.error(error, "Error fetching snapshot");
     reply.code(500).send({
@@ -263,7 +227,7 @@ export async function corporateActionsRoutes(
     required: ["id", "actionType", "blockNumber", "logIndex"],
   };
 
-  // Response schema for GET /api/corporate-actions
+  // Response schema for GET /api/companies/:companyId/corporate-actions
   const corporateActionsListSchema = {
     response: {
       200: {
@@ -302,13 +266,16 @@ export async function corporateActionsRoutes(
     },
   };
 
-  // Response schema for GET /api/snapshots/:block
+  // Response schema for GET /api/companies/:companyId/snapshots/:block
   const snapshotSchema = {
     response: {
       200: {
         type: "object",
         properties: {
           blockNumber: { type: "integer" },
+          splitFactor: { type: "string" },
+          totalSupply: { type: "string" },
+          totalEffectiveSupply: { type: "string" },
           shareholders: {
             type: "array",
             items: {
@@ -316,12 +283,21 @@ export async function corporateActionsRoutes(
               properties: {
                 address: { type: "string" },
                 balance: { type: "string" },
+                effectiveBalance: { type: "string" },
+                ownershipPercentage: { type: "number" },
+                lastUpdatedBlock: { type: "integer" },
               },
-              required: ["address", "balance"],
+              required: ["address", "balance", "effectiveBalance", "ownershipPercentage"],
             },
           },
         },
-        required: ["blockNumber", "shareholders"],
+        required: [
+          "blockNumber",
+          "splitFactor",
+          "totalSupply",
+          "totalEffectiveSupply",
+          "shareholders",
+        ],
       },
       400: {
         type: "object",
@@ -0,0 +1,165 @@
+/**
+ * @file Issuance API routes
+ * @notice Validates a bulk (CSV) share issuance before the issuer submits batchMint()
+ *
+ * Data source:
+ * - Indexed users, allowlist, compliance, pause, authorized shares and balance state
+ *   (see services/db/issuance.ts)
+ * - Flags every row that would make batchMint() revert, so the issuer can fix the CSV or
+ *   batchApprove() the listed wallets before signing
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { connect } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { requireAuth, requireAnyRole } from "../middleware/auth";
+import { getActiveTokenAddress } from "../services/db/tokens";
+import {
+  validateIssuanceBatch,
+  type IssuanceRowInput,
+} from "../services/db/issuance";
+
+/**
+ * Largest batch accepted for validation
+ */
+const MAX_ISSUANCE_BATCH_SIZE = 500;
+
+/**
+ * Request body of POST /api/companies/:companyId/issuances/validate
+ */
+interface ValidateIssuanceBody {
+  rows: IssuanceRowInput[];
+}
+
+/**
+ * POST /api/companies/:companyId/issuances/validate
+ * Returns per-row problems and batch totals for a proposed batch issuance (issuer/admin, or
+ * MINTER_ROLE holders)
+ */
+async function validateIssuance(
+  request: FastifyRequest<{ Body: ValidateIssuanceBody }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const db = connect();
+    const company = getRequestCompany(request);
+
+    reply.send(
+      validateIssuanceBatch(
+        db,
+        company.id,
+        getActiveTokenAddress(db, company),
+        request.body.rows
+      )
+    );
+  } catch (error) {
+    request.log.error(error, "Error validating issuance");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to validate issuance",
+    });
+  }
+}
+
+/**
+ * Register issuance routes with Fastify instance
+ */
+export async function issuancesRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  // Request and response schema for POST /api/companies/:companyId/issuances/validate
+  const validateSchema = {
+    body: {
+      type: "object",
+      required: ["rows"],
+      properties: {
+        rows: {
+          type: "array",
+          minItems: 1,
+          maxItems: MAX_ISSUANCE_BATCH_SIZE,
+          items: {
+            type: "object",
+            required: ["walletAddress", "amount"],
+            properties: {
+              walletAddress: { type: "string" },
+              amount: { type: "string", pattern: "^[0-9]{1,78}$" },
+            },
+          },
+        },
+      },
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          tokenAddress: { type: "string" },
+          rows: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                index: { type: "integer" },
+                walletAddress: { type: "string" },
+                amount: { type: "string" },
+                linked: { type: "boolean" },
+                email: { type: ["string", "null"] },
+                displayName: { type: ["string", "null"] },
+                approved: { type: "boolean" },
+                errors: { type: "array", items: { type: "string" } },
+              },
+              required: [
+                "index",
+                "walletAddress",
+                "amount",
+                "linked",
+                "email",
+                "displayName",
+                "approved",
+                "errors",
+              ],
+            },
+          },
+          totalAmount: { type: "string" },
+          totalAuthorized: { type: ["string", "null"] },
+          totalOutstanding: { type: "string" },
+          headroom: { type: ["string", "null"] },
+          withinHeadroom: { type: "boolean" },
+          paused: { type: "boolean" },
+          unapprovedWallets: { type: "array", items: { type: "string" } },
+          valid: { type: "boolean" },
+        },
+        required: [
+          "tokenAddress",
+          "rows",
+          "totalAmount",
+          "totalAuthorized",
+          "totalOutstanding",
+          "headroom",
+          "withinHeadroom",
+          "paused",
+          "unapprovedWallets",
+          "valid",
+        ],
+      },
+      400: errorSchema,
+      401: errorSchema,
+      403: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.post<{ Body: ValidateIssuanceBody }>(
+    "/issuances/validate",
+    {
+      schema: validateSchema,
+      preHandler: [requireAuth, requireAnyRole(["issuer", "admin"], ["MINTER_ROLE"])],
+    },
+    validateIssuance
+  );
+}
@@ -0,0 +1,467 @@
+/**
+ * @file KYC onboarding routes
+ * @notice Investors submit identity details; issuers/admins review, approve or deny them
+ *
+ * Database tables: kyc_requests, kyc_request_transitions
+ * - Status flow: submitted -> under_review -> approved | denied
+ * - Approved requests become on_chain_approved once the wallet's WalletApproved event is indexed
+ *   (reconciled against allowlist_history, see services/db/kyc.ts)
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { connect } from "../db/index";
+import type { AccreditationStatus, KycRequestStatus } from "../db/schema";
+import {
+  requireAuth,
+  requireAnyRole,
+  requireRole,
+  requireWalletSignature,
+} from "../middleware/auth";
+import {
+  canTransition,
+  createKycRequest,
+  getKycRequest,
+  getKycRequestTransitions,
+  getLatestKycRequestForUser,
+  getOpenKycRequest,
+  listKycRequests,
+  transitionKycRequest,
+  type KycReviewStatus,
+} from "../services/db/kyc";
+
+/**
+ * Request body type for KYC submission
+ */
+interface SubmitKycRequestBody {
+  fullName: string;
+  jurisdiction: string;
+  accreditationStatus: AccreditationStatus;
+  documentHashes: string[];
+}
+
+/**
+ * Route params for a single KYC request
+ */
+interface KycRequestParams {
+  id: number;
+}
+
+/**
+ * Request body type for review transitions
+ */
+interface ReviewKycRequestBody {
+  reason?: string;
+}
+
+/**
+ * Accepted values for the status filter
+ */
+const KYC_STATUSES: KycRequestStatus[] = [
+  "submitted",
+  "under_review",
+  "approved",
+  "denied",
+  "on_chain_approved",
+];
+
+/**
+ * Send 404 for an unknown request ID
+ */
+function sendNotFound(reply: FastifyReply, id: number): void {
+  reply.code(404).send({
+    error: "KYC request not found",
+    message: `No KYC request with ID ${id}`,
+  });
+}
+
+/**
+ * POST /api/kyc/requests
+ * Submit a KYC request for the signed-in investor's linked wallet
+ */
+async function submitKycRequest(
+  request: FastifyRequest<{ Body: SubmitKycRequestBody }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const user = request.user!;
+    const db = connect();
+
+    const open = getOpenKycRequest(db, user.uid);
+    if (open) {
+      reply.code(409).send({
+        error: "KYC request already open",
+        message: `Request ${open.id} is ${open.status}; a new request can only be submitted after a denial`,
+      });
+      return;
+    }
+
+    const fullName = request.body.fullName.trim();
+    if (!fullName) {
+      reply.code(400).send({
+        error: "Invalid fullName",
+        message: "fullName must not be blank",
+      });
+      return;
+    }
+
+    // requireWalletSignature guarantees the session wallet is the linked wallet
+    const kycRequest = createKycRequest(db, {
+      uid: user.uid,
+      walletAddress: user.wallet_address!,
+      fullName,
+      jurisdiction: request.body.jurisdiction,
+      accreditationStatus: request.body.accreditationStatus,
+      documentHashes: request.body.documentHashes,
+    });
+
+    reply.code(201).send({
+      request: kycRequest,
+      transitions: getKycRequestTransitions(db, kycRequest.id),
+    });
+  } catch (error) {
+    request.log.error(error, "Error submitting KYC request");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to submit KYC request",
+    });
+  }
+}
+
+/**
+ * GET /api/kyc/requests/me
+ * Returns the signed-in user's most recent KYC request (null if none)
+ */
+async function getMyKycRequest(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const db = connect();
+    const kycRequest = getLatestKycRequestForUser(db, request.user!.uid);
+
+    reply.send({
+      request: kycRequest,
+      transitions: kycRequest ? getKycRequestTransitions(db, kycRequest.id) : [],
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching KYC request");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch KYC request",
+    });
+  }
+}
+
+/**
+ * GET /api/kyc/requests
+ * Returns KYC requests in review queue order (issuer/admin only)
+ */
+async function getKycRequests(
+  request: FastifyRequest<{ Querystring: { status?: string } }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { status } = request.query;
+    if (status !== undefined && !KYC_STATUSES.includes(status as KycRequestStatus)) {
+      reply.code(400).send({
+        error: "Invalid status parameter",
+        message: `status must be one of: ${KYC_STATUSES.join(", ")}`,
+      });
+      return;
+    }
+
+    const requests = listKycRequests(connect(), status as KycRequestStatus | undefined);
+    reply.send({ requests, total: requests.length });
+  } catch (error) {
+    request.log.error(error, "Error fetching KYC requests");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch KYC requests",
+    });
+  }
+}
+
+/**
+ * GET /api/kyc/requests/:id
+ * Returns a KYC request with its audit trail (owner or issuer/admin)
+ */
+async function getKycRequestById(
+  request: FastifyRequest<{ Params: KycRequestParams }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { id } = request.params;
+    const user = request.user!;
+    const db = connect();
+
+    const kycRequest = getKycRequest(db, id);
+    // Investors get 404 rather than 403 for other users' requests so IDs cannot be probed
+    if (!kycRequest || (user.role === "investor" && kycRequest.uid !== user.uid)) {
+      sendNotFound(reply, id);
+      return;
+    }
+
+    reply.send({
+      request: kycRequest,
+      transitions: getKycRequestTransitions(db, id),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching KYC request");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch KYC request",
+    });
+  }
+}
+
+/**
+ * Build the handler for a review transition
+ * POST /api/kyc/requests/:id/review | approve | deny
+ */
+function reviewKycRequest(to: KycReviewStatus) {
+  return async (
+    request: FastifyRequest<{
+      Params: KycRequestParams;
+      Body: ReviewKycRequestBody | undefined;
+    }>,
+    reply: FastifyReply
+  ): Promise<void> => {
+    try {
+      const { id } = request.params;
+      const reason = request.body?.reason?.trim() || null;
+      const db = connect();
+
+      if (to === "denied" && !reason) {
+        reply.code(400).send({
+          error: "Reason required",
+          message: "A reason is required to deny a KYC request",
+        });
+        return;
+      }
+
+      const current = getKycRequest(db, id);
+      if (!current) {
+        sendNotFound(reply, id);
+        return;
+      }
+
+      const updated = canTransition(current.status, to)
+        ? transitionKycRequest(db, id, to, request.user!.uid, reason)
+        : null;
+      if (!updated) {
+        // Re-read: a concurrent review may have moved the request since the first read
+        const status = getKycRequest(db, id)?.status ?? current.status;
+        reply.code(409).send({
+          error: "Invalid state transition",
+          message: `Cannot move KYC request ${id} from ${status} to ${to}`,
+        });
+        return;
+      }
+
+      reply.send({
+        request: updated,
+        transitions: getKycRequestTransitions(db, id),
+      });
+    } catch (error) {
+      request.log.error(error, "Error updating KYC request");
+      reply.code(500).send({
+        error: "Internal server error",
+        message: "Failed to update KYC request",
+      });
+    }
+  };
+}
+
+/**
+ * Register KYC routes with Fastify instance
+ */
+export async function kycRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  const kycRequestSchema = {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      uid: { type: "string" },
+      walletAddress: { type: "string" },
+      fullName: { type: "string" },
+      jurisdiction: { type: "string" },
+      accreditationStatus: { type: "string" },
+      documentHashes: { type: "array", items: { type: "string" } },
+      status: { type: "string" },
+      reviewerUid: { type: ["string", "null"] },
+      decisionReason: { type: ["string", "null"] },
+      onChainBlockNumber: { type: ["integer", "null"] },
+      onChainTxHash: { type: ["string", "null"] },
+      createdAt: { type: "integer" },
+      updatedAt: { type: "integer" },
+    },
+  };
+
+  const transitionSchema = {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      requestId: { type: "integer" },
+      fromStatus: { type: ["string", "null"] },
+      toStatus: { type: "string" },
+      actorUid: { type: ["string", "null"] },
+      reason: { type: ["string", "null"] },
+      createdAt: { type: "integer" },
+    },
+  };
+
+  const requestWithTransitionsSchema = {
+    type: "object",
+    properties: {
+      request: { anyOf: [kycRequestSchema, { type: "null" }] },
+      transitions: { type: "array", items: transitionSchema },
+    },
+  };
+
+  const idParamsSchema = {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "integer", minimum: 1 },
+    },
+  };
+
+  const submitSchema = {
+    body: {
+      type: "object",
+      required: ["fullName", "jurisdiction", "accreditationStatus", "documentHashes"],
+      properties: {
+        fullName: { type: "string", minLength: 1, maxLength: 200 },
+        // ISO 3166-1 alpha-2 country code
+        jurisdiction: { type: "string", pattern: "^[A-Za-z]{2}$" },
+        accreditationStatus: {
+          type: "string",
+          enum: ["accredited", "non_accredited"],
+        },
+        // SHA-256 hashes of the uploaded documents; the files stay with the investor
+        documentHashes: {
+          type: "array",
+          minItems: 1,
+          maxItems: 20,
+          uniqueItems: true,
+          items: { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" },
+        },
+      },
+    },
+    response: {
+      201: requestWithTransitionsSchema,
+      400: errorSchema,
+      401: errorSchema,
+      403: errorSchema,
+      409: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const mySchema = {
+    response: {
+      200: requestWithTransitionsSchema,
+      401: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const listSchema = {
+    querystring: {
+      type: "object",
+      properties: {
+        status: { type: "string" },
+      },
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          requests: { type: "array", items: kycRequestSchema },
+          total: { type: "integer" },
+        },
+      },
+      400: errorSchema,
+      401: errorSchema,
+      403: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const detailSchema = {
+    params: idParamsSchema,
+    response: {
+      200: requestWithTransitionsSchema,
+      401: errorSchema,
+      404: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const reviewSchema = {
+    params: idParamsSchema,
+    body: {
+      type: ["object", "null"],
+      properties: {
+        reason: { type: "string", maxLength: 1000 },
+      },
+    },
+    response: {
+      200: requestWithTransitionsSchema,
+      400: errorSchema,
+      401: errorSchema,
+      403: errorSchema,
+      404: errorSchema,
+      409: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const reviewers = requireAnyRole(["issuer", "admin"]);
+
+  fastify.post<{ Body: SubmitKycRequestBody }>(
+    "/kyc/requests",
+    {
+      schema: submitSchema,
+      preHandler: [requireAuth, requireRole("investor"), requireWalletSignature],
+    },
+    submitKycRequest
+  );
+  fastify.get(
+    "/kyc/requests/me",
+    { schema: mySchema, preHandler: requireAuth },
+    getMyKycRequest
+  );
+  fastify.get<{ Querystring: { status?: string } }>(
+    "/kyc/requests",
+    { schema: listSchema, preHandler: [requireAuth, reviewers] },
+    getKycRequests
+  );
+  fastify.get<{ Params: KycRequestParams }>(
+    "/kyc/requests/:id",
+    { schema: detailSchema, preHandler: requireAuth },
+    getKycRequestById
+  );
+  fastify.post<{ Params: KycRequestParams; Body: ReviewKycRequestBody | undefined }>(
+    "/kyc/requests/:id/review",
+    { schema: reviewSchema, preHandler: [requireAuth, reviewers] },
+    reviewKycRequest("under_review")
+  );
+  fastify.post<{ Params: KycRequestParams; Body: ReviewKycRequestBody | undefined }>(
+    "/kyc/requests/:id/approve",
+    { schema: reviewSchema, preHandler: [requireAuth, reviewers] },
+    reviewKycRequest("approved")
+  );
+  fastify.post<{ Params: KycRequestParams; Body: ReviewKycRequestBody | undefined }>(
+    "/kyc/requests/:id/deny",
+    { schema: reviewSchema, preHandler: [requireAuth, reviewers] },
+    reviewKycRequest("denied")
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * @file Lockup API routes
+ * @notice Company-wide and per-wallet transfer lock-ups of the active token
+ *
+ * Data source:
+ * - lockup_history table (see services/db/lockups.ts)
+ * - Lock-ups end with time, so whether one is in effect is evaluated now (or at ?timestamp)
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { isAddress } from "viem";
+import { connect } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { getActiveTokenAddress } from "../services/db/tokens";
+import {
+  getLockupSettings,
+  getLockupStatus,
+  getWalletLockups,
+} from "../services/db/lockups";
+
+/**
+ * Parse the optional timestamp query parameter, defaulting to now
+ * @returns Unix seconds, or null if the parameter is invalid
+ */
+function parseTimestamp(timestamp: string | undefined): number | null {
+  if (!timestamp) {
+    return Math.floor(Date.now() / 1000);
+  }
+  const parsed = parseInt(timestamp, 10);
+  return isNaN(parsed) || parsed < 0 ? null : parsed;
+}
+
+/**
+ * GET /api/companies/:companyId/lockups
+ * Returns the global lock-up, the holding period and every wallet lock-up
+ */
+async function getLockups(
+  request: FastifyRequest<{ Querystring: { timestamp?: string } }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const asOf = parseTimestamp(request.query.timestamp);
+    if (asOf === null) {
+      reply.code(400).send({
+        error: "Invalid timestamp parameter",
+        message: "timestamp must be a valid Unix timestamp (number)",
+      });
+      return;
+    }
+
+    const db = connect();
+    const company = getRequestCompany(request);
+    const tokenAddress = getActiveTokenAddress(db, company);
+    const settings = getLockupSettings(db, company.id, tokenAddress);
+
+    reply.send({
+      tokenAddress,
+      asOf,
+      ...settings,
+      globalLockupActive: asOf < settings.globalLockupUntil,
+      wallets: getWalletLockups(db, company.id, tokenAddress)
+        .filter((lockup) => lockup.value > 0)
+        .map((lockup) => ({
+          wallet: lockup.wallet,
+          lockupUntil: lockup.value,
+          active: asOf < lockup.value,
+          blockNumber: lockup.blockNumber,
+          txHash: lockup.txHash,
+        })),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching lockups");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch lockups",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/lockups/:address
+ * Returns whether transfers from the address are blocked by a lock-up, why and until when
+ */
+async function getWalletLockup(
+  request: FastifyRequest<{
+    Params: { address: string };
+    Querystring: { timestamp?: string };
+  }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { address } = request.params;
+
+    if (!isAddress(address)) {
+      reply.code(400).send({
+        error: "Invalid address format",
+        message: "Address must be a valid Ethereum address",
+      });
+      return;
+    }
+
+    const asOf = parseTimestamp(request.query.timestamp);
+    if (asOf === null) {
+      reply.code(400).send({
+        error: "Invalid timestamp parameter",
+        message: "timestamp must be a valid Unix timestamp (number)",
+      });
+      return;
+    }
+
+    const db = connect();
+    const company = getRequestCompany(request);
+    const tokenAddress = getActiveTokenAddress(db, company);
+
+    reply.send({
+      tokenAddress,
+      asOf,
+      ...getLockupStatus(db, company.id, tokenAddress, address, asOf),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching wallet lockup");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch wallet lockup",
+    });
+  }
+}
+
+/**
+ * Register lockup routes with Fastify instance
+ */
+export async function lockupsRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  const timestampQuerystring = {
+    type: "object",
+    properties: {
+      timestamp: { type: "string" },
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/lockups
+  const lockupsSchema = {
+    querystring: timestampQuerystring,
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          tokenAddress: { type: "string" },
+          asOf: { type: "integer" },
+          globalLockupUntil: { type: "integer" },
+          globalLockupActive: { type: "boolean" },
+          holdingPeriod: { type: "integer" },
+          wallets: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                wallet: { type: "string" },
+                lockupUntil: { type: "integer" },
+                active: { type: "boolean" },
+                blockNumber: { type: "integer" },
+                txHash: { type: ["string", "null"] },
+              },
+              required: ["wallet", "lockupUntil", "active", "blockNumber", "txHash"],
+            },
+          },
+        },
+        required: [
+          "tokenAddress",
+          "asOf",
+          "globalLockupUntil",
+          "globalLockupActive",
+          "holdingPeriod",
+          "wallets",
+        ],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/lockups/:address
+  const walletLockupSchema = {
+    params: {
+      type: "object",
+      properties: {
+        address: { type: "string" },
+      },
+      required: ["address"],
+    },
+    querystring: timestampQuerystring,
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          tokenAddress: { type: "string" },
+          asOf: { type: "integer" },
+          wallet: { type: "string" },
+          globalLockupUntil: { type: "integer" },
+          holdingPeriod: { type: "integer" },
+          walletLockupUntil: { type: "integer" },
+          lockedUntil: { type: "integer" },
+          locked: { type: "boolean" },
+          reason: { type: ["string", "null"], enum: ["GLOBAL", "WALLET", null] },
+        },
+        required: [
+          "tokenAddress",
+          "asOf",
+          "wallet",
+          "globalLockupUntil",
+          "holdingPeriod",
+          "walletLockupUntil",
+          "lockedUntil",
+          "locked",
+          "reason",
+        ],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.get("/lockups", { schema: lockupsSchema }, getLockups);
+  fastify.get("/lockups/:address", { schema: walletLockupSchema }, getWalletLockup);
+}
@@ -0,0 +1,449 @@
+/**
+ * @file Wallet recovery routes
+ * @notice Shareholders who lost their wallet request a recovery to a new wallet; admins approve
+ *         or reject it before the issuer calls ChainEquityToken.recoverWallet()
+ *
+ * Database tables: recovery_requests, recovery_request_transitions
+ * - Status flow: pending -> approved | rejected
+ * - Approved requests become executed once the matching WalletRecovered event is indexed
+ *   (reconciled against forced_transfer_history, see services/db/recovery.ts)
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { isAddress } from "viem";
+import { connect } from "../db/index";
+import type { RecoveryRequestStatus } from "../db/schema";
+import { requireAuth, requireAnyRole, requireRole } from "../middleware/auth";
+import { getRequestCompany } from "../middleware/company";
+import {
+  canTransition,
+  createRecoveryRequest,
+  getOpenRecoveryRequest,
+  getRecoveryRequest,
+  getRecoveryRequestTransitions,
+  listRecoveryRequests,
+  transitionRecoveryRequest,
+  type RecoveryReviewStatus,
+} from "../services/db/recovery";
+
+/**
+ * Request body type for filing a recovery request
+ */
+interface CreateRecoveryRequestBody {
+  lostWallet: string;
+  newWallet: string;
+  reason: string;
+}
+
+/**
+ * Route params for a single recovery request
+ */
+interface RecoveryRequestParams {
+  id: number;
+}
+
+/**
+ * Request body type for decisions
+ */
+interface DecideRecoveryRequestBody {
+  reason?: string;
+}
+
+/**
+ * Accepted values for the status filter
+ */
+const RECOVERY_STATUSES: RecoveryRequestStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+  "executed",
+];
+
+/**
+ * Send 404 for an unknown request ID
+ */
+function sendNotFound(reply: FastifyReply, id: number): void {
+  reply.code(404).send({
+    error: "Recovery request not found",
+    message: `No recovery request with ID ${id}`,
+  });
+}
+
+/**
+ * POST /api/companies/:companyId/recovery/requests
+ * File a recovery request. Investors can only request a recovery to the wallet they are signed
+ * in with; issuers and admins can file one on a shareholder's behalf
+ */
+async function submitRecoveryRequest(
+  request: FastifyRequest<{ Body: CreateRecoveryRequestBody }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const user = request.user!;
+    const { lostWallet, newWallet } = request.body;
+    const reason = request.body.reason.trim();
+
+    if (!isAddress(lostWallet) || !isAddress(newWallet)) {
+      reply.code(400).send({
+        error: "Invalid address format",
+        message: "lostWallet and newWallet must be valid Ethereum addresses",
+      });
+      return;
+    }
+    if (lostWallet.toLowerCase() === newWallet.toLowerCase()) {
+      reply.code(400).send({
+        error: "Invalid newWallet",
+        message: "newWallet must differ from lostWallet",
+      });
+      return;
+    }
+    if (!reason) {
+      reply.code(400).send({
+        error: "Reason required",
+        message: "A reason is required to request a wallet recovery",
+      });
+      return;
+    }
+    if (
+      user.role === "investor" &&
+      user.wallet_address?.toLowerCase() !== newWallet.toLowerCase()
+    ) {
+      reply.code(403).send({
+        error: "Wallet signature required",
+        message: "Sign in with the new wallet to request a recovery to it",
+      });
+      return;
+    }
+
+    const db = connect();
+    const company = getRequestCompany(request);
+
+    const open = getOpenRecoveryRequest(db, company.id, lostWallet);
+    if (open) {
+      reply.code(409).send({
+        error: "Recovery request already open",
+        message: `Request ${open.id} for ${open.lostWallet} is ${open.status}`,
+      });
+      return;
+    }
+
+    const recoveryRequest = createRecoveryRequest(db, company.id, {
+      requesterUid: user.uid,
+      lostWallet,
+      newWallet,
+      reason,
+    });
+
+    reply.code(201).send({
+      request: recoveryRequest,
+      transitions: getRecoveryRequestTransitions(db, recoveryRequest.id),
+    });
+  } catch (error) {
+    request.log.error(error, "Error submitting recovery request");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to submit recovery request",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/recovery/requests
+ * Returns recovery requests in review queue order (issuer/admin, or COMPLIANCE_ROLE holders)
+ */
+async function getRecoveryRequests(
+  request: FastifyRequest<{ Querystring: { status?: string } }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { status } = request.query;
+    if (
+      status !== undefined &&
+      !RECOVERY_STATUSES.includes(status as RecoveryRequestStatus)
+    ) {
+      reply.code(400).send({
+        error: "Invalid status parameter",
+        message: `status must be one of: ${RECOVERY_STATUSES.join(", ")}`,
+      });
+      return;
+    }
+
+    const company = getRequestCompany(request);
+    const requests = listRecoveryRequests(
+      connect(),
+      company.id,
+      status as RecoveryRequestStatus | undefined
+    );
+    reply.send({ requests, total: requests.length });
+  } catch (error) {
+    request.log.error(error, "Error fetching recovery requests");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch recovery requests",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/recovery/requests/:id
+ * Returns a recovery request with its audit trail (requester or issuer/admin)
+ */
+async function getRecoveryRequestById(
+  request: FastifyRequest<{ Params: RecoveryRequestParams }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { id } = request.params;
+    const user = request.user!;
+    const db = connect();
+    const company = getRequestCompany(request);
+
+    const recoveryRequest = getRecoveryRequest(db, company.id, id);
+    // Investors get 404 rather than 403 for other users' requests so IDs cannot be probed
+    if (
+      !recoveryRequest ||
+      (user.role === "investor" && recoveryRequest.requesterUid !== user.uid)
+    ) {
+      sendNotFound(reply, id);
+      return;
+    }
+
+    reply.send({
+      request: recoveryRequest,
+      transitions: getRecoveryRequestTransitions(db, id),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching recovery request");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch recovery request",
+    });
+  }
+}
+
+/**
+ * Build the handler for a decision
+ * POST /api/companies/:companyId/recovery/requests/:id/approve | reject
+ */
+function decideRecoveryRequest(to: RecoveryReviewStatus) {
+  return async (
+    request: FastifyRequest<{
+      Params: RecoveryRequestParams;
+      Body: DecideRecoveryRequestBody | undefined;
+    }>,
+    reply: FastifyReply
+  ): Promise<void> => {
+    try {
+      const { id } = request.params;
+      const reason = request.body?.reason?.trim() || null;
+      const db = connect();
+      const company = getRequestCompany(request);
+
+      if (to === "rejected" && !reason) {
+        reply.code(400).send({
+          error: "Reason required",
+          message: "A reason is required to reject a recovery request",
+        });
+        return;
+      }
+
+      const current = getRecoveryRequest(db, company.id, id);
+      if (!current) {
+        sendNotFound(reply, id);
+        return;
+      }
+
+      const updated = canTransition(current.status, to)
+        ? transitionRecoveryRequest(db, company.id, id, to, request.user!.uid, reason)
+        : null;
+      if (!updated) {
+        // Re-read: a concurrent decision may have moved the request since the first read
+        const status = getRecoveryRequest(db, company.id, id)?.status ?? current.status;
+        reply.code(409).send({
+          error: "Invalid state transition",
+          message: `Cannot move recovery request ${id} from ${status} to ${to}`,
+        });
+        return;
+      }
+
+      reply.send({
+        request: updated,
+        transitions: getRecoveryRequestTransitions(db, id),
+      });
+    } catch (error) {
+      request.log.error(error, "Error updating recovery request");
+      reply.code(500).send({
+        error: "Internal server error",
+        message: "Failed to update recovery request",
+      });
+    }
+  };
+}
+
+/**
+ * Register wallet recovery routes with Fastify instance
+ */
+export async function recoveryRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  const recoveryRequestSchema = {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      requesterUid: { type: "string" },
+      lostWallet: { type: "string" },
+      newWallet: { type: "string" },
+      reason: { type: "string" },
+      status: { type: "string" },
+      reviewerUid: { type: ["string", "null"] },
+      decisionReason: { type: ["string", "null"] },
+      executedBlockNumber: { type: ["integer", "null"] },
+      executedTxHash: { type: ["string", "null"] },
+      createdAt: { type: "integer" },
+      updatedAt: { type: "integer" },
+    },
+  };
+
+  const transitionSchema = {
+    type: "object",
+    properties: {
+      id: { type: "integer" },
+      requestId: { type: "integer" },
+      fromStatus: { type: ["string", "null"] },
+      toStatus: { type: "string" },
+      actorUid: { type: ["string", "null"] },
+      reason: { type: ["string", "null"] },
+      createdAt: { type: "integer" },
+    },
+  };
+
+  const requestWithTransitionsSchema = {
+    type: "object",
+    properties: {
+      request: recoveryRequestSchema,
+      transitions: { type: "array", items: transitionSchema },
+    },
+  };
+
+  const idParamsSchema = {
+    type: "object",
+    required: ["id"],
+    properties: {
+      id: { type: "integer", minimum: 1 },
+    },
+  };
+
+  const submitSchema = {
+    body: {
+      type: "object",
+      required: ["lostWallet", "newWallet", "reason"],
+      properties: {
+        lostWallet: { type: "string" },
+        newWallet: { type: "string" },
+        reason: { type: "string", minLength: 1, maxLength: 1000 },
+      },
+    },
+    response: {
+      201: requestWithTransitionsSchema,
+      400: errorSchema,
+      401: errorSchema,
+      403: errorSchema,
+      409: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const listSchema = {
+    querystring: {
+      type: "object",
+      properties: {
+        status: { type: "string" },
+      },
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          requests: { type: "array", items: recoveryRequestSchema },
+          total: { type: "integer" },
+        },
+      },
+      400: errorSchema,
+      401: errorSchema,
+      403: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const detailSchema = {
+    params: idParamsSchema,
+    response: {
+      200: requestWithTransitionsSchema,
+      401: errorSchema,
+      404: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const decisionSchema = {
+    params: idParamsSchema,
+    body: {
+      type: ["object", "null"],
+      properties: {
+        reason: { type: "string", maxLength: 1000 },
+      },
+    },
+    response: {
+      200: requestWithTransitionsSchema,
+      400: errorSchema,
+      401: errorSchema,
+      403: errorSchema,
+      404: errorSchema,
+      409: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  const admins = requireRole("admin");
+
+  fastify.post<{ Body: CreateRecoveryRequestBody }>(
+    "/recovery/requests",
+    { schema: submitSchema, preHandler: requireAuth },
+    submitRecoveryRequest
+  );
+  fastify.get<{ Querystring: { status?: string } }>(
+    "/recovery/requests",
+    {
+      schema: listSchema,
+      preHandler: [requireAuth, requireAnyRole(["issuer", "admin"], ["COMPLIANCE_ROLE"])],
+    },
+    getRecoveryRequests
+  );
+  fastify.get<{ Params: RecoveryRequestParams }>(
+    "/recovery/requests/:id",
+    { schema: detailSchema, preHandler: requireAuth },
+    getRecoveryRequestById
+  );
+  fastify.post<{
+    Params: RecoveryRequestParams;
+    Body: DecideRecoveryRequestBody | undefined;
+  }>(
+    "/recovery/requests/:id/approve",
+    { schema: decisionSchema, preHandler: [requireAuth, admins] },
+    decideRecoveryRequest("approved")
+  );
+  fastify.post<{
+    Params: RecoveryRequestParams;
+    Body: DecideRecoveryRequestBody | undefined;
+  }>(
+    "/recovery/requests/:id/reject",
+    { schema: decisionSchema, preHandler: [requireAuth, admins] },
+    decideRecoveryRequest("rejected")
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * @file Role API routes
+ * @notice On-chain role holders of the company's token and cap table, and their grant history
+ *
+ * Data source:
+ * - role_history table (see services/db/roles.ts), indexed from AccessControl RoleGranted and
+ *   RoleRevoked events of both contracts
+ * - GET /roles/me answers which on-chain roles the caller's linked wallet holds on the company,
+ *   so the frontend can show the issuer screens the backend guards would accept
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { isAddress } from "viem";
+import { connect } from "../db/index";
+import type { RoleChangeRecord } from "../db/schema";
+import { requireAuth } from "../middleware/auth";
+import { getRequestCompany } from "../middleware/company";
+import { getCompanyRoles, getRoleHistory, getRoleHolders } from "../services/db/roles";
+import { getUserByUid } from "../services/db/users";
+
+/**
+ * Name the contract emitting a role event ("capTable" or "token"; the token may be a replaced one)
+ */
+function getContractKind(
+  capTableAddress: string,
+  contractAddress: string
+): "capTable" | "token" {
+  return contractAddress.toLowerCase() === capTableAddress.toLowerCase()
+    ? "capTable"
+    : "token";
+}
+
+/**
+ * GET /api/companies/:companyId/roles
+ * Returns the wallets holding a role on the token or cap table, and the role changes
+ * (optionally of one ?account), most recent first
+ */
+async function getRoles(
+  request: FastifyRequest<{ Querystring: { account?: string } }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { account } = request.query;
+
+    if (account && !isAddress(account)) {
+      reply.code(400).send({
+        error: "Invalid address format",
+        message: "account must be a valid Ethereum address",
+      });
+      return;
+    }
+
+    const db = connect();
+    const company = getRequestCompany(request);
+    const format = (record: RoleChangeRecord) => ({
+      contract: getContractKind(company.capTableAddress, record.contractAddress),
+      contractAddress: record.contractAddress,
+      role: record.roleName,
+      roleHash: record.roleHash,
+      account: record.account,
+      blockNumber: record.blockNumber,
+      blockTimestamp: record.blockTimestamp,
+      txHash: record.txHash,
+    });
+
+    reply.send({
+      holders: getRoleHolders(db, company.id).map(format),
+      history: getRoleHistory(db, company.id, account).map((record) => ({
+        ...format(record),
+        action: record.action,
+        sender: record.sender,
+      })),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching roles");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch roles",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/roles/me
+ * Returns the on-chain roles the caller's linked wallet holds on the company's token or cap table
+ */
+async function getMyRoles(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const db = connect();
+    const company = getRequestCompany(request);
+    const account = getUserByUid(db, request.user!.uid)?.walletAddress?.toLowerCase() ?? null;
+
+    reply.send({
+      account,
+      roles: account ? getCompanyRoles(db, company.id, account) : [],
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching caller roles");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch roles",
+    });
+  }
+}
+
+/**
+ * Register role routes with Fastify instance
+ */
+export async function rolesRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  const roleProperties = {
+    contract: { type: "string", enum: ["capTable", "token"] },
+    contractAddress: { type: "string" },
+    role: { type: ["string", "null"] },
+    roleHash: { type: "string" },
+    account: { type: "string" },
+    blockNumber: { type: "integer" },
+    blockTimestamp: { type: ["integer", "null"] },
+    txHash: { type: ["string", "null"] },
+  };
+  const roleRequired = [
+    "contract",
+    "contractAddress",
+    "role",
+    "roleHash",
+    "account",
+    "blockNumber",
+    "blockTimestamp",
+    "txHash",
+  ];
+
+  // Response schema for GET /api/companies/:companyId/roles
+  const rolesSchema = {
+    querystring: {
+      type: "object",
+      properties: {
+        account: { type: "string" },
+      },
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          holders: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: roleProperties,
+              required: roleRequired,
+            },
+          },
+          history: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                ...roleProperties,
+                action: { type: "string", enum: ["GRANTED", "REVOKED"] },
+                sender: { type: "string" },
+              },
+              required: [...roleRequired, "action", "sender"],
+            },
+          },
+        },
+        required: ["holders", "history"],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/roles/me
+  const myRolesSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          account: { type: ["string", "null"] },
+          roles: { type: "array", items: { type: "string" } },
+        },
+        required: ["account", "roles"],
+      },
+      500: errorSchema,
+    },
+  };
+
+  fastify.get("/roles", { schema: rolesSchema }, getRoles);
+  fastify.get(
+    "/roles/me",
+    { preHandler: requireAuth, schema: myRolesSchema },
+    getMyRoles
+  );
+}
@@ -7,25 +7,52 @@
  * - effectiveBalanceOf(address) view returns (uint256)
  * - totalSupply() view returns (uint256)
  * - splitFactor() view returns (uint256)
+ *
+ * Balances are read from the active token of the company in the /api/companies/:companyId scope.
+ * Holdings of other share classes and fully diluted ownership come from the indexed share class
+ * ledger (see services/db/shareClasses.ts).
+ * A shareholder's recovery trail (recovery requests, forced transfers and wallet recoveries)
+ * comes from services/db/recovery.ts.
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { getPublicClient } from "../services/chain/client";
-import { CONTRACTS } from "../config/contracts";
+import { ABIS } from "../config/contracts";
 import { safeRead } from "../services/chain/utils";
 import { query, queryOne, connect } from "../db/index";
 import { isAddress } from "viem";
 import type { Address } from "viem";
-import { getUsersWithLinkedWallets, getUserByUid } from "../services/db/users";
-import { requireAuth } from '../middleware/auth';
-import type { MetaRecord } from "../db/schema";
+import { getActiveTokenAddress } from "../services/db/tokens";
+import {
+  getUsersWithLinkedWallets,
+  getUserByUid,
+  getUserProfilesByWallet,
+} from "../services/db/users";
+import { getApprovedWalletSet } from "../services/db/allowlist";
+import {
+  calculateOwnershipPercentage,
+  getBlockAtTimestamp,
+  getSnapshotAtBlock,
+} from "../services/db/snapshots";
+import {
+  getFullyDilutedCapTable,
+  getFullyDilutedPosition,
+  getShareClassHoldings,
+  type FullyDilutedCapTable,
+  type FullyDilutedPosition,
+} from "../services/db/shareClasses";
+import { getRecoveryTrail } from "../services/db/recovery";
+import { requireAuth, requireAnyRole } from '../middleware/auth';
+import { getRequestCompany } from "../middleware/company";
+import type { CompanyRecord, MetaRecord } from "../db/schema";
 
 /**
- * Cache for totalSupply and splitFactor (5-second TTL)
+ * Cache for totalSupply and splitFactor per company (5-second TTL)
  */
-let cachedSupply: bigint | null = null;
-let cachedSplitFactor: bigint | null = null;
-let lastFetch = 0;
+const supplyCache = new Map<
+  number,
+  { supply: bigint; splitFactor: bigint; fetchedAt: number }
+>();
 const CACHE_TTL = 5000; // 5 seconds
 
 /**
@@ -33,57 +60,25 @@ const CACHE_TTL = 5000; // 5 seconds
  * @internal
  */
 export function resetCache(): void {
-  cachedSupply = null;
-  cachedSplitFactor = null;
-  lastFetch = 0;
+  supplyCache.clear();
 }
 
 /**
  * Get cached totalSupply and splitFactor from contract
  * Refreshes cache if it's older than CACHE_TTL
  */
-async function getCachedSupply(blockTag?: number): Promise<{
+async function getCachedSupply(company: CompanyRecord): Promise<{
   supply: bigint;
   splitFactor: bigint;
   totalEffectiveSupply: bigint;
 }> {
   const publicClient = getPublicClient();
-  const { address, abi } = CONTRACTS.token;
+  const address = getActiveTokenAddress(connect(), company) as Address;
+  const abi = ABIS.token;
 
-  // If blockTag is provided, always query at that block (no caching)
-  if (blockTag !== undefined) {
-    const supply = await safeRead<bigint>(publicClient, {
-      address,
-      abi,
-      functionName: "totalSupply",
-      blockNumber: BigInt(blockTag),
-    });
-
-    const factor = await safeRead<bigint>(publicClient, {
-      address,
-      abi,
-      functionName: "splitFactor",
-      blockNumber: BigInt(blockTag),
-    });
-
-    if (supply === null || factor === null) {
-      throw new Error("Failed to read totalSupply or splitFactor from contract");
-    }
-
-    // Calculate total effective supply: totalSupply * splitFactor / 1e18
-    const totalEffectiveSupply =
-      (supply * factor) / BigInt(10 ** 18);
-
-    return {
-      supply,
-      splitFactor: factor,
-      totalEffectiveSupply,
-    };
-  }
-
-  // Otherwise use cache for latest block
   const now = Date.now();
-  if (!cachedSupply || !cachedSplitFactor || now - lastFetch > CACHE_TTL) {
+  let cached = supplyCache.get(company.id);
+  if (!cached || now - cached.fetchedAt > CACHE_TTL) {
     const supply = await safeRead<bigint>(publicClient, {
       address,
       abi,
@@ -100,41 +95,33 @@ async function getCachedSupply(blockTag?: number): Promise<{
       throw new Error("Failed to read totalSupply or splitFactor from contract");
     }
 
-    cachedSupply = supply;
-    cachedSplitFactor = factor;
-    lastFetch = now;
+    cached = { supply, splitFactor: factor, fetchedAt: now };
+    supplyCache.set(company.id, cached);
   }
 
   // Calculate total effective supply: totalSupply * splitFactor / 1e18
   const totalEffectiveSupply =
-    (cachedSupply * cachedSplitFactor) / BigInt(10 ** 18);
+    (cached.supply * cached.splitFactor) / BigInt(10 ** 18);
 
   return {
-    supply: cachedSupply,
-    splitFactor: cachedSplitFactor,
+    supply: cached.supply,
+    splitFactor: cached.splitFactor,
     totalEffectiveSupply,
   };
 }
 
 /**
- * Calculate ownership percentage with safe BigInt math
- * Returns number with 2 decimal precision
+ * Shareholder object returned by the shareholders API
  */
-function calculateOwnershipPercentage(
-  effectiveBalance: bigint,
-  totalEffectiveSupply: bigint
-): number {
-  if (totalEffectiveSupply === 0n) {
-    return 0;
-  }
-
-  // Use integer math: (effectiveBalance * 10000) / totalEffectiveSupply, then divide by 100
-  const percentage = Number(
-    (effectiveBalance * 10000n) / totalEffectiveSupply
-  ) / 100;
-
-  return percentage;
-}
+type ShareholderResponse = {
+  address: string;
+  balance: string;
+  effectiveBalance: string;
+  ownershipPercentage: number;
+  lastUpdatedBlock: number | null;
+  email?: string | null;
+  displayName?: string | null;
+} & FullyDilutedPosition;
 
 /**
  * Convert database row to shareholder response object
@@ -148,16 +135,9 @@ function asShareholderResponse(
     email?: string | null;
     displayName?: string | null;
   },
-  totalEffectiveSupply: bigint
-): {
-  address: string;
-  balance: string;
-  effectiveBalance: string;
-  ownershipPercentage: number;
-  lastUpdatedBlock: number;
-  email?: string | null;
-  displayName?: string | null;
-} {
+  totalEffectiveSupply: bigint,
+  capTable: FullyDilutedCapTable
+): ShareholderResponse {
   const effectiveBalance = BigInt(row.effectiveBalance);
   const ownership = calculateOwnershipPercentage(
     effectiveBalance,
@@ -172,13 +152,53 @@ function asShareholderResponse(
     lastUpdatedBlock: row.lastUpdatedBlock,
     email: row.email ?? null,
     displayName: row.displayName ?? null,
+    ...getFullyDilutedPosition(capTable, row.address, effectiveBalance),
   };
 }
 
 /**
- * GET /api/shareholders
- * Returns paginated list of all shareholders (cap table)
- * Supports optional blockNumber parameter for historical snapshots
+ * Add holders of other share classes without common shares to a list of shareholders
+ * and sort it by fully diluted balance
+ */
+function withShareClassHolders(
+  shareholders: ShareholderResponse[],
+  capTable: FullyDilutedCapTable
+): ShareholderResponse[] {
+  const listed = new Set(shareholders.map((sh) => sh.address.toLowerCase()));
+  const classOnly = [...capTable.holdings.keys()].filter(
+    (address) => !listed.has(address)
+  );
+  const userMap = getUserProfilesByWallet(connect(), classOnly);
+
+  const merged = [
+    ...shareholders,
+    ...classOnly.map((address) => {
+      const userData = userMap.get(address) || { email: null, displayName: null };
+      return {
+        address,
+        balance: "0",
+        effectiveBalance: "0",
+        ownershipPercentage: 0,
+        lastUpdatedBlock: null,
+        email: userData.email,
+        displayName: userData.displayName,
+        ...getFullyDilutedPosition(capTable, address, 0n),
+      };
+    }),
+  ];
+
+  return merged.sort((a, b) => {
+    const diff = BigInt(b.fullyDilutedBalance) - BigInt(a.fullyDilutedBalance);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  });
+}
+
+/**
+ * GET /api/companies/:companyId/shareholders
+ * Returns paginated list of all shareholders (cap table), including holders of other share
+ * classes only, ordered by fully diluted balance
+ * Supports optional blockNumber or timestamp parameter for historical snapshots
+ * Historical snapshots are reconstructed from indexed data (no archive-node reads)
  */
 async function getShareholders(
   request: FastifyRequest<{
@@ -186,6 +206,7 @@ async function getShareholders(
       limit?: string;
       offset?: string;
       blockNumber?: string;
+      timestamp?: string;
     };
   }>,
   reply: FastifyReply
@@ -198,8 +219,8 @@ async function getShareholders(
     );
     const offset = Math.max(0, parseInt(request.query.offset || "0", 10));
 
+    const company = getRequestCompany(request);
     const publicClient = getPublicClient();
-    const { address: tokenAddress, abi } = CONTRACTS.token;
     let blockNumber: number | undefined = undefined;
     
     // Get current block number (always needed for response)
@@ -222,137 +243,56 @@ async function getShareholders(
           responseBlockNumber = requestedBlock;
         }
       }
+    } else if (request.query.timestamp) {
+      const requestedTimestamp = parseInt(request.query.timestamp, 10);
+
+      if (isNaN(requestedTimestamp) || requestedTimestamp < 0) {
+        // Invalid timestamp, fall back to latest
+        request.log.warn(`Invalid timestamp: ${request.query.timestamp}, falling back to latest`);
+      } else {
+        // Resolve to the last indexed block at or before the timestamp
+        blockNumber = getBlockAtTimestamp(connect(), company.id, requestedTimestamp) ?? 0;
+        responseBlockNumber = blockNumber;
+      }
     }
 
-    let shareholders: Array<{
-      address: string;
-      balance: string;
-      effectiveBalance: string;
-      ownershipPercentage: number;
-      lastUpdatedBlock: number;
-      email?: string | null;
-      displayName?: string | null;
-    }>;
+    let shareholders: ShareholderResponse[];
     let total: number;
     let supply: bigint;
     let totalEffectiveSupply: bigint;
+    let capTable: FullyDilutedCapTable;
 
     if (blockNumber !== undefined) {
-      // Historical snapshot: query contract at specific block
-      // Get all unique addresses from transactions up to this block
-      const addressRows = query<{ address: string }>(
-        `SELECT DISTINCT to_address AS address
-         FROM transactions
-         WHERE block_number <= ?
-         UNION
-         SELECT DISTINCT from_address AS address
-         FROM transactions
-         WHERE block_number <= ? AND from_address IS NOT NULL`,
-        [blockNumber, blockNumber]
+      // Historical snapshot: reconstruct from indexed transactions and split history
+      const snapshot = getSnapshotAtBlock(connect(), company.id, blockNumber);
+      supply = BigInt(snapshot.totalSupply);
+      totalEffectiveSupply = BigInt(snapshot.totalEffectiveSupply);
+      capTable = getFullyDilutedCapTable(
+        connect(),
+        company.id,
+        totalEffectiveSupply,
+        blockNumber
       );
 
-      const addresses = addressRows
-        .map((row) => row.address)
-        .filter((addr): addr is string => addr !== null && addr !== "");
-
-      // Query balances at the specified block
-      const balancePromises = addresses.map(async (address) => {
-        const [balance, effectiveBalance] = await Promise.all([
-          safeRead<bigint>(publicClient, {
-            address: tokenAddress,
-            abi,
-            functionName: "balanceOf",
-            args: [address.toLowerCase() as Address],
-            blockNumber: BigInt(blockNumber),
-          }),
-          safeRead<bigint>(publicClient, {
-            address: tokenAddress,
-            abi,
-            functionName: "effectiveBalanceOf",
-            args: [address.toLowerCase() as Address],
-            blockNumber: BigInt(blockNumber),
-          }),
-        ]);
-
-        return {
-          address: address.toLowerCase(),
-          balance,
-          effectiveBalance,
-        };
-      });
-
-      const balanceResults = await Promise.all(balancePromises);
-
-      // Filter out addresses with zero balance
-      const shareholdersWithBalances = balanceResults
-        .filter((result) => result.balance !== null && result.effectiveBalance !== null && result.balance > 0n)
-        .map((result) => ({
-          address: result.address,
-          balance: result.balance!.toString(),
-          effectiveBalance: result.effectiveBalance!.toString(),
-        }));
-
-      // Get supply data at this block
-      const supplyData = await getCachedSupply(blockNumber);
-      supply = supplyData.supply;
-      totalEffectiveSupply = supplyData.totalEffectiveSupply;
-
       // Get user data for all addresses (LEFT JOIN with users table)
-      const addressList = shareholdersWithBalances.map((sh) => sh.address);
-      const userMap = new Map<string, { email: string | null; displayName: string | null }>();
-      
-      if (addressList.length > 0) {
-        const placeholders = addressList.map(() => '?').join(',');
-        const userRows = query<{
-          walletAddress: string;
-          email: string | null;
-          displayName: string | null;
-        }>(
-          `SELECT 
-            wallet_address AS walletAddress,
-            email,
-            display_name AS displayName
-          FROM users
-          WHERE wallet_address IN (${placeholders})`,
-          addressList
-        );
-
-        // Create a map of address -> user data for quick lookup
-        for (const userRow of userRows) {
-          if (userRow.walletAddress) {
-            userMap.set(userRow.walletAddress.toLowerCase(), {
-              email: userRow.email,
-              displayName: userRow.displayName,
-            });
-          }
-        }
-      }
-
-      // Calculate ownership percentages and include user data
-      shareholders = shareholdersWithBalances.map((sh) => {
-        const effectiveBalance = BigInt(sh.effectiveBalance);
-        const ownership = calculateOwnershipPercentage(
-          effectiveBalance,
-          totalEffectiveSupply
-        );
-        const userData = userMap.get(sh.address) || { email: null, displayName: null };
-        return {
-          address: sh.address,
-          balance: sh.balance,
-          effectiveBalance: sh.effectiveBalance,
-          ownershipPercentage: ownership,
-          lastUpdatedBlock: blockNumber,
-          email: userData.email,
-          displayName: userData.displayName,
-        };
-      });
+      const userMap = getUserProfilesByWallet(
+        connect(),
+        snapshot.shareholders.map((sh) => sh.address)
+      );
 
-      // Sort by effective balance DESC
-      shareholders.sort((a, b) => {
-        const aBal = BigInt(a.effectiveBalance);
-        const bBal = BigInt(b.effectiveBalance);
-        return aBal > bBal ? -1 : aBal < bBal ? 1 : 0;
-      });
+      // Snapshot is already sorted by effective balance DESC
+      shareholders = withShareClassHolders(
+        snapshot.shareholders.map((sh) => {
+          const userData = userMap.get(sh.address) || { email: null, displayName: null };
+          return {
+            ...sh,
+            email: userData.email,
+            displayName: userData.displayName,
+            ...getFullyDilutedPosition(capTable, sh.address, BigInt(sh.effectiveBalance)),
+          };
+        }),
+        capTable
+      );
 
       total = shareholders.length;
 
@@ -360,9 +300,19 @@ async function getShareholders(
       shareholders = shareholders.slice(offset, offset + limit);
     } else {
       // Latest snapshot: use database
+      // Get cached supply data
+      const supplyData = await getCachedSupply(company);
+      supply = supplyData.supply;
+      totalEffectiveSupply = supplyData.totalEffectiveSupply;
+      capTable = getFullyDilutedCapTable(connect(), company.id, totalEffectiveSupply);
+
+      // Holders of other classes change the order, so the list is then paginated in memory
+      const hasClassHoldings = capTable.holdings.size > 0;
+
       // Get total count
       const totalResult = queryOne<{ count: number }>(
-        "SELECT COUNT(*) as count FROM shareholders"
+        "SELECT COUNT(*) as count FROM shareholders WHERE company_id = ?",
+        [company.id]
       );
       total = totalResult?.count || 0;
 
@@ -385,20 +335,22 @@ async function getShareholders(
           u.display_name AS displayName
         FROM shareholders s
         LEFT JOIN users u ON LOWER(s.address) = LOWER(u.wallet_address)
+        WHERE s.company_id = ?
         ORDER BY s.effective_balance DESC
-        LIMIT ? OFFSET ?`,
-        [limit, offset]
+        ${hasClassHoldings ? "" : "LIMIT ? OFFSET ?"}`,
+        hasClassHoldings ? [company.id] : [company.id, limit, offset]
       );
 
-      // Get cached supply data
-      const supplyData = await getCachedSupply();
-      supply = supplyData.supply;
-      totalEffectiveSupply = supplyData.totalEffectiveSupply;
-
       // Transform rows to response format
       shareholders = rows.map((row) =>
-        asShareholderResponse(row, totalEffectiveSupply)
+        asShareholderResponse(row, totalEffectiveSupply, capTable)
       );
+
+      if (hasClassHoldings) {
+        shareholders = withShareClassHolders(shareholders, capTable);
+        total = shareholders.length;
+        shareholders = shareholders.slice(offset, offset + limit);
+      }
     }
 
     // Build response
@@ -411,6 +363,8 @@ async function getShareholders(
       },
       totalSupply: supply.toString(),
       totalEffectiveSupply: totalEffectiveSupply.toString(),
+      shareClasses: capTable.shareClasses,
+      totalFullyDiluted: capTable.totalFullyDiluted.toString(),
       blockNumber: responseBlockNumber,
     };
 
@@ -425,7 +379,7 @@ async function getShareholders(
 }
 
 /**
- * GET /api/shareholders/:address
+ * GET /api/companies/:companyId/shareholders/:address
  * Returns detailed information for a specific shareholder
  */
 async function getShareholder(
@@ -459,7 +413,9 @@ async function getShareholder(
     }
 
     const publicClient = getPublicClient();
-    const { address: tokenAddress, abi } = CONTRACTS.token;
+    const company = getRequestCompany(request);
+    const tokenAddress = getActiveTokenAddress(connect(), company) as Address;
+    const abi = ABIS.token;
     const normalizedAddress = address.toLowerCase() as Address;
 
     // Query contract for real-time balances
@@ -478,8 +434,17 @@ async function getShareholder(
       }),
     ]);
 
-    // Check if shareholder exists (has balance)
-    if (!balance || balance === 0n) {
+    // Check if shareholder exists (has common shares, shares of another class, or a recovery
+    // trail, so a recovered wallet with no shares left still shows where they went)
+    const recoveryTrail = getRecoveryTrail(connect(), company.id, normalizedAddress);
+    if (
+      (!balance || balance === 0n) &&
+      !getShareClassHoldings(connect(), company.id).some(
+        (holding) => holding.address === normalizedAddress
+      ) &&
+      recoveryTrail.requests.length === 0 &&
+      recoveryTrail.forcedTransfers.length === 0
+    ) {
       reply.code(404).send({
         error: "Shareholder not found",
         message: `No balance found for address ${address}`,
@@ -488,7 +453,12 @@ async function getShareholder(
     }
 
     // Get cached supply data for ownership percentage
-    const { totalEffectiveSupply } = await getCachedSupply();
+    const { totalEffectiveSupply } = await getCachedSupply(company);
+    const capTable = getFullyDilutedCapTable(
+      connect(),
+      company.id,
+      totalEffectiveSupply
+    );
 
     // Query database for last_updated_block and user data (optional, may not exist if not indexed yet)
     let lastUpdatedBlock: number | null = null;
@@ -500,8 +470,8 @@ async function getShareholder(
       }>(
         `SELECT last_updated_block AS lastUpdatedBlock
          FROM shareholders
-         WHERE address = ?`,
-        [normalizedAddress]
+         WHERE company_id = ? AND address = ?`,
+        [company.id, normalizedAddress]
       );
       lastUpdatedBlock = dbRow?.lastUpdatedBlock || null;
 
@@ -532,12 +502,18 @@ async function getShareholder(
 
     reply.send({
       address: normalizedAddress,
-      balance: balance.toString(),
+      balance: (balance || 0n).toString(),
       effectiveBalance: (effectiveBalance || 0n).toString(),
       ownershipPercentage,
       lastUpdatedBlock,
       email,
       displayName,
+      ...getFullyDilutedPosition(
+        capTable,
+        normalizedAddress,
+        effectiveBalance || 0n
+      ),
+      recoveryTrail,
     });
   } catch (error) {
     request.log.error(error, "Error fetching shareholder");
@@ -549,7 +525,7 @@ async function getShareholder(
 }
 
 /**
- * GET /api/shareholders/me
+ * GET /api/companies/:companyId/shareholders/me
  * Returns shareholder information for the authenticated user's linked wallet
  * This endpoint queries by user ID (foundational), not wallet address
  */
@@ -579,7 +555,9 @@ async function getMyShareholder(
 
     // Use the existing getShareholder logic but with the linked wallet address
     const publicClient = getPublicClient();
-    const { address: tokenAddress, abi } = CONTRACTS.token;
+    const company = getRequestCompany(request);
+    const tokenAddress = getActiveTokenAddress(connect(), company) as Address;
+    const abi = ABIS.token;
     const normalizedAddress = userRecord.walletAddress.toLowerCase() as Address;
 
     // Query contract for real-time balances
@@ -599,7 +577,12 @@ async function getMyShareholder(
     ]);
 
     // Get cached supply data for ownership percentage
-    const { totalEffectiveSupply } = await getCachedSupply();
+    const { totalEffectiveSupply } = await getCachedSupply(company);
+    const capTable = getFullyDilutedCapTable(
+      connect(),
+      company.id,
+      totalEffectiveSupply
+    );
 
     // Query database for last_updated_block
     let lastUpdatedBlock: number | null = null;
@@ -609,8 +592,8 @@ async function getMyShareholder(
       }>(
         `SELECT last_updated_block AS lastUpdatedBlock
          FROM shareholders
-         WHERE address = ?`,
-        [normalizedAddress]
+         WHERE company_id = ? AND address = ?`,
+        [company.id, normalizedAddress]
       );
       lastUpdatedBlock = dbRow?.lastUpdatedBlock || null;
     } catch (dbError) {
@@ -631,6 +614,11 @@ async function getMyShareholder(
       lastUpdatedBlock,
       email: userRecord.email,
       displayName: userRecord.displayName,
+      ...getFullyDilutedPosition(
+        capTable,
+        normalizedAddress,
+        effectiveBalance || 0n
+      ),
     });
   } catch (error) {
     request.log.error(error, "Error fetching my shareholder info");
@@ -642,8 +630,9 @@ async function getMyShareholder(
 }
 
 /**
- * GET /api/shareholders/pending
- * Returns list of investors with linked wallets that are not approved on contract
+ * GET /api/companies/:companyId/shareholders/pending
+ * Returns list of investors with linked wallets that are not on the indexed allowlist
+ * (issuer/admin, or COMPLIANCE_ROLE holders)
  */
 async function getPendingApprovals(
   request: FastifyRequest,
@@ -651,13 +640,16 @@ async function getPendingApprovals(
 ): Promise<void> {
   try {
     const db = connect();
-    const publicClient = getPublicClient();
-    const { address: tokenAddress, abi } = CONTRACTS.token;
 
     // Get all investors with linked wallets
     const investors = getUsersWithLinkedWallets(db, "investor");
 
-    // Check approval status for each investor's wallet
+    // Approval status comes from indexed WalletApproved/WalletRevoked events
+    const approvedWallets = getApprovedWalletSet(
+      db,
+      getRequestCompany(request).id
+    );
+
     const pendingApprovals = [];
     for (const investor of investors) {
       if (!investor.walletAddress) {
@@ -673,16 +665,8 @@ async function getPendingApprovals(
         continue;
       }
 
-      // Check contract approval status
-      const isApproved = await safeRead<boolean>(publicClient, {
-        address: tokenAddress,
-        abi,
-        functionName: "isApproved",
-        args: [investor.walletAddress.toLowerCase() as Address],
-      });
-
-      // If approval check failed or wallet is not approved, add to pending list
-      if (isApproved === null || isApproved === false) {
+      // If wallet is not on the allowlist, add to pending list
+      if (!approvedWallets.has(investor.walletAddress.toLowerCase())) {
         pendingApprovals.push({
           uid: investor.uid,
           email: investor.email,
@@ -706,8 +690,9 @@ async function getPendingApprovals(
 }
 
 /**
- * GET /api/shareholders/approved
- * Returns list of investors with linked wallets that are approved on contract
+ * GET /api/companies/:companyId/shareholders/approved
+ * Returns list of investors with linked wallets that are on the indexed allowlist
+ * (issuer/admin, or COMPLIANCE_ROLE holders)
  */
 async function getApprovedUsers(
   request: FastifyRequest,
@@ -715,13 +700,16 @@ async function getApprovedUsers(
 ): Promise<void> {
   try {
     const db = connect();
-    const publicClient = getPublicClient();
-    const { address: tokenAddress, abi } = CONTRACTS.token;
 
     // Get all investors with linked wallets
     const investors = getUsersWithLinkedWallets(db, "investor");
 
-    // Check approval status for each investor's wallet
+    // Approval status comes from indexed WalletApproved/WalletRevoked events
+    const approvedWallets = getApprovedWalletSet(
+      db,
+      getRequestCompany(request).id
+    );
+
     const approvedUsers = [];
     for (const investor of investors) {
       if (!investor.walletAddress) {
@@ -737,16 +725,8 @@ async function getApprovedUsers(
         continue;
       }
 
-      // Check contract approval status
-      const isApproved = await safeRead<boolean>(publicClient, {
-        address: tokenAddress,
-        abi,
-        functionName: "isApproved",
-        args: [investor.walletAddress.toLowerCase() as Address],
-      });
-
-      // If wallet is approved, add to approved list
-      if (isApproved === true) {
+      // If wallet is on the allowlist, add to approved list
+      if (approvedWallets.has(investor.walletAddress.toLowerCase())) {
         approvedUsers.push({
           uid: investor.uid,
           email: investor.email,
@@ -770,7 +750,7 @@ async function getApprovedUsers(
 }
 
 /**
- * GET /api/shareholders/blocks
+ * GET /api/companies/:companyId/shareholders/blocks
  * Returns list of distinct block numbers that have transactions
  * Used for navigation between blocks with activity
  */
@@ -782,7 +762,9 @@ async function getBlocksWithTransactions(
     const blocks = query<{ blockNumber: number }>(
       `SELECT DISTINCT block_number AS blockNumber
        FROM transactions
-       ORDER BY block_number ASC`
+       WHERE company_id = ?
+       ORDER BY block_number ASC`,
+      [getRequestCompany(request).id]
     );
 
     reply.send({
@@ -814,11 +796,60 @@ export async function shareholdersRoutes(
       lastUpdatedBlock: { type: ["integer", "null"] },
       email: { type: ["string", "null"] },
       displayName: { type: ["string", "null"] },
+      classHoldings: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            classId: { type: "integer" },
+            balance: { type: "string" },
+            asConvertedBalance: { type: "string" },
+          },
+          required: ["classId", "balance", "asConvertedBalance"],
+        },
+      },
+      fullyDilutedBalance: { type: "string" },
+      fullyDilutedPercentage: { type: "number" },
+    },
+    required: [
+      "address",
+      "balance",
+      "effectiveBalance",
+      "ownershipPercentage",
+      "classHoldings",
+      "fullyDilutedBalance",
+      "fullyDilutedPercentage",
+    ],
+  };
+
+  // Response schema for a share class other than common
+  const shareClassSchema = {
+    type: "object",
+    properties: {
+      classId: { type: "integer" },
+      name: { type: "string" },
+      tokenAddress: { type: "string" },
+      authorizedShares: { type: "string" },
+      outstandingShares: { type: "string" },
+      asConvertedShares: { type: "string" },
+      liquidationPreference: { type: "string" },
+      conversionRatio: { type: "string" },
+      seniority: { type: "integer" },
     },
-    required: ["address", "balance", "effectiveBalance", "ownershipPercentage"],
+    required: [
+      "classId",
+      "name",
+      "tokenAddress",
+      "authorizedShares",
+      "outstandingShares",
+      "asConvertedShares",
+      "liquidationPreference",
+      "conversionRatio",
+      "seniority",
+    ],
   };
 
-  // Response schema for GET /api/shareholders
+  // Response schema for GET /api/companies/:companyId/shareholders
   const shareholdersListSchema = {
     response: {
       200: {
@@ -839,6 +870,11 @@ export async function shareholdersRoutes(
           },
           totalSupply: { type: "string" },
           totalEffectiveSupply: { type: "string" },
+          shareClasses: {
+            type: "array",
+            items: shareClassSchema,
+          },
+          totalFullyDiluted: { type: "string" },
           blockNumber: { type: "integer" },
         },
         required: [
@@ -846,6 +882,8 @@ export async function shareholdersRoutes(
           "pagination",
           "totalSupply",
           "totalEffectiveSupply",
+          "shareClasses",
+          "totalFullyDiluted",
         ],
       },
       500: {
@@ -858,7 +896,68 @@ export async function shareholdersRoutes(
     },
   };
 
-  // Response schema for GET /api/shareholders/:address
+  // Response schema for a shareholder's recovery trail
+  const recoveryTrailSchema = {
+    type: "object",
+    properties: {
+      requests: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "integer" },
+            requesterUid: { type: "string" },
+            lostWallet: { type: "string" },
+            newWallet: { type: "string" },
+            reason: { type: "string" },
+            status: { type: "string" },
+            reviewerUid: { type: ["string", "null"] },
+            decisionReason: { type: ["string", "null"] },
+            executedBlockNumber: { type: ["integer", "null"] },
+            executedTxHash: { type: ["string", "null"] },
+            createdAt: { type: "integer" },
+            updatedAt: { type: "integer" },
+            transitions: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "integer" },
+                  requestId: { type: "integer" },
+                  fromStatus: { type: ["string", "null"] },
+                  toStatus: { type: "string" },
+                  actorUid: { type: ["string", "null"] },
+                  reason: { type: ["string", "null"] },
+                  createdAt: { type: "integer" },
+                },
+              },
+            },
+          },
+        },
+      },
+      forcedTransfers: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            tokenAddress: { type: "string" },
+            transferType: { type: "string" },
+            fromAddress: { type: "string" },
+            toAddress: { type: "string" },
+            amount: { type: "string" },
+            reasonCode: { type: "integer" },
+            blockNumber: { type: "integer" },
+            blockTimestamp: { type: ["integer", "null"] },
+            logIndex: { type: "integer" },
+            txHash: { type: ["string", "null"] },
+          },
+        },
+      },
+    },
+    required: ["requests", "forcedTransfers"],
+  };
+
+  // Response schema for GET /api/companies/:companyId/shareholders/me
   const shareholderDetailSchema = {
     response: {
       200: shareholderSchema,
@@ -886,7 +985,21 @@ export async function shareholdersRoutes(
     },
   };
 
-  // Response schema for GET /api/shareholders/pending
+  // Response schema for GET /api/companies/:companyId/shareholders/:address
+  const shareholderWithTrailSchema = {
+    response: {
+      ...shareholderDetailSchema.response,
+      200: {
+        ...shareholderSchema,
+        properties: {
+          ...shareholderSchema.properties,
+          recoveryTrail: recoveryTrailSchema,
+        },
+      },
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/shareholders/pending
   const pendingApprovalsSchema = {
     response: {
       200: {
@@ -919,7 +1032,7 @@ export async function shareholdersRoutes(
     },
   };
 
-  // Response schema for GET /api/shareholders/approved
+  // Response schema for GET /api/companies/:companyId/shareholders/approved
   const approvedUsersSchema = {
     response: {
       200: {
@@ -952,7 +1065,7 @@ export async function shareholdersRoutes(
     },
   };
 
-  // Response schema for GET /api/shareholders/blocks
+  // Response schema for GET /api/companies/:companyId/shareholders/blocks
   const blocksSchema = {
     response: {
       200: {
@@ -985,12 +1098,18 @@ export async function shareholdersRoutes(
   );
   fastify.get(
     "/shareholders/pending",
-    { schema: pendingApprovalsSchema },
+    {
+      preHandler: [requireAuth, requireAnyRole(["issuer", "admin"], ["COMPLIANCE_ROLE"])],
+      schema: pendingApprovalsSchema,
+    },
     getPendingApprovals
   );
   fastify.get(
     "/shareholders/approved",
-    { schema: approvedUsersSchema },
+    {
+      preHandler: [requireAuth, requireAnyRole(["issuer", "admin"], ["COMPLIANCE_ROLE"])],
+      schema: approvedUsersSchema,
+    },
     getApprovedUsers
   );
   // Register /me route with explicit path to ensure it's matched before /:address
@@ -1006,7 +1125,7 @@ export async function shareholdersRoutes(
   // Fastify should match specific routes first, but we also check for reserved words in the handler
   fastify.get(
     "/shareholders/:address",
-    { schema: shareholderDetailSchema },
+    { schema: shareholderWithTrailSchema },
     getShareholder
   );
 }
@@ -0,0 +1,186 @@
+/**
+ * @file Stock split API routes
+ * @notice Fractional share remainders and post-split previews, including reverse splits
+ *
+ * Data source:
+ * - Base balances from the shareholders table and the split factor from split_history
+ * - Rounding and cash-in-lieu rules are documented in services/db/splits.ts
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { parseUnits } from "viem";
+import { connect } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { getSplitFactor } from "../services/db/balances";
+import { getSplitPositions, previewSplit } from "../services/db/splits";
+
+/**
+ * GET /api/companies/:companyId/splits/fractional
+ * Returns holders whose effective balance under the current split factor is not a whole
+ * number of shares, with the amount to settle as cash in lieu
+ */
+async function getFractionalRemainders(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const db = connect();
+    const companyId = getRequestCompany(request).id;
+    const splitFactor = getSplitFactor(db, companyId);
+    const holders = getSplitPositions(db, companyId, splitFactor).filter(
+      (position) => position.fractionalRemainder !== "0"
+    );
+
+    reply.send({
+      splitFactor: splitFactor.toString(),
+      holders,
+      totalFractionalRemainder: holders
+        .reduce((sum, holder) => sum + BigInt(holder.fractionalRemainder), 0n)
+        .toString(),
+      totalCashInLieuAmount: holders
+        .reduce((sum, holder) => sum + BigInt(holder.cashInLieuAmount), 0n)
+        .toString(),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching fractional remainders");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch fractional remainders",
+    });
+  }
+}
+
+/**
+ * GET /api/companies/:companyId/splits/preview?multiplier=0.1
+ * Returns every holder's current and post-split position for a proposed multiplier
+ * (decimal, e.g. 7 for 7-for-1 or 0.1 for 1-for-10)
+ */
+async function getSplitPreview(
+  request: FastifyRequest<{ Querystring: { multiplier: string } }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const proposedFactor = parseUnits(request.query.multiplier, 18);
+    if (proposedFactor === 0n) {
+      reply.code(400).send({
+        error: "Invalid multiplier",
+        message: "Split multiplier must be greater than 0",
+      });
+      return;
+    }
+
+    reply.send(previewSplit(connect(), getRequestCompany(request).id, proposedFactor));
+  } catch (error) {
+    request.log.error(error, "Error previewing split");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to preview split",
+    });
+  }
+}
+
+/**
+ * Register stock split routes with Fastify instance
+ */
+export async function splitsRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  const positionProperties = {
+    address: { type: "string" },
+    balance: { type: "string" },
+    effectiveBalance: { type: "string" },
+    wholeShares: { type: "string" },
+    fractionalRemainder: { type: "string" },
+    cashInLieuAmount: { type: "string" },
+  };
+  const positionRequired = [
+    "address",
+    "balance",
+    "effectiveBalance",
+    "wholeShares",
+    "fractionalRemainder",
+    "cashInLieuAmount",
+  ];
+
+  // Response schema for GET /api/companies/:companyId/splits/fractional
+  const fractionalSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          splitFactor: { type: "string" },
+          holders: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: positionProperties,
+              required: positionRequired,
+            },
+          },
+          totalFractionalRemainder: { type: "string" },
+          totalCashInLieuAmount: { type: "string" },
+        },
+        required: [
+          "splitFactor",
+          "holders",
+          "totalFractionalRemainder",
+          "totalCashInLieuAmount",
+        ],
+      },
+      500: errorSchema,
+    },
+  };
+
+  // Request and response schema for GET /api/companies/:companyId/splits/preview
+  const previewSchema = {
+    querystring: {
+      type: "object",
+      properties: {
+        multiplier: { type: "string", pattern: "^\\d{1,18}(\\.\\d{1,18})?$" },
+      },
+      required: ["multiplier"],
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          currentFactor: { type: "string" },
+          proposedFactor: { type: "string" },
+          positions: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                ...positionProperties,
+                currentEffectiveBalance: { type: "string" },
+              },
+              required: [...positionRequired, "currentEffectiveBalance"],
+            },
+          },
+          totalFractionalRemainder: { type: "string" },
+          totalCashInLieuAmount: { type: "string" },
+          holdersWithFractions: { type: "integer" },
+        },
+        required: [
+          "currentFactor",
+          "proposedFactor",
+          "positions",
+          "totalFractionalRemainder",
+          "totalCashInLieuAmount",
+          "holdersWithFractions",
+        ],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.get("/splits/fractional", { schema: fractionalSchema }, getFractionalRemainders);
+  fastify.get("/splits/preview", { schema: previewSchema }, getSplitPreview);
+}
@@ -0,0 +1,112 @@
+/**
+ * @file Token version API routes
+ * @notice Lists every token contract the CapTable has pointed at, from indexed TokenReplaced events
+ *
+ * Data source:
+ * - token_versions table (see services/db/tokens.ts)
+ * - Old-token history stays in the transactions table; each era's log range selects it (a
+ *   TokenReplaced block is split at the TokenReplaced log), and
+ *   GET /api/companies/:companyId/snapshots/<toBlock - 1> returns the cap table as the old token left it
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { connect } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { getTokenEras } from "../services/db/tokens";
+
+/**
+ * GET /api/companies/:companyId/tokens
+ * Returns the company's active token and every token era, oldest first
+ */
+async function getTokens(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const db = connect();
+    const company = getRequestCompany(request);
+    const countStmt = db.prepare(
+      `SELECT COUNT(*) AS count FROM transactions
+       WHERE company_id = ?
+         AND (block_number, log_index) > (?, ?)
+         AND (block_number, log_index) < (?, ?)`
+    );
+
+    const tokens = getTokenEras(db, company).map((era) => {
+      const { count } = countStmt.get(
+        company.id,
+        era.fromBlock ?? -1,
+        era.fromLogIndex ?? -1,
+        era.toBlock ?? Number.MAX_SAFE_INTEGER,
+        era.toLogIndex ?? Number.MAX_SAFE_INTEGER
+      ) as { count: number };
+      return { ...era, transactionCount: count };
+    });
+
+    reply.send({
+      activeToken: tokens[tokens.length - 1]!.tokenAddress,
+      tokens,
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching token versions");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch token versions",
+    });
+  }
+}
+
+/**
+ * Register token version routes with Fastify instance
+ */
+export async function tokensRoutes(fastify: FastifyInstance): Promise<void> {
+  // Response schema for GET /api/companies/:companyId/tokens
+  const tokensSchema = {
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          activeToken: { type: "string" },
+          tokens: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                tokenAddress: { type: "string" },
+                fromBlock: { type: ["integer", "null"] },
+                fromLogIndex: { type: ["integer", "null"] },
+                toBlock: { type: ["integer", "null"] },
+                toLogIndex: { type: ["integer", "null"] },
+                migrationBlock: { type: ["integer", "null"] },
+                replacedTxHash: { type: ["string", "null"] },
+                active: { type: "boolean" },
+                transactionCount: { type: "integer" },
+              },
+              required: [
+                "tokenAddress",
+                "fromBlock",
+                "fromLogIndex",
+                "toBlock",
+                "toLogIndex",
+                "migrationBlock",
+                "replacedTxHash",
+                "active",
+                "transactionCount",
+              ],
+            },
+          },
+        },
+        required: ["activeToken", "tokens"],
+      },
+      500: {
+        type: "object",
+        properties: {
+          error: { type: "string" },
+          message: { type: "string" },
+        },
+      },
+    },
+  };
+
+  fastify.get("/tokens", { schema: tokensSchema }, getTokens);
+}
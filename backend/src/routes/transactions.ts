@@ -3,29 +3,44 @@
  * @notice REST endpoints for querying transaction history from indexed events
  * 
  * Database table: transactions
- * - Stores indexed Transfer and Issued events from the token contract
+ * - Stores indexed Transfer, Issued and Redeemed events from the token contract
  * - Includes transaction metadata: tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type
  */
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import { query, queryOne, asTransactionRecord } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
 import { isAddress } from "viem";
 
 /**
- * Build WHERE clause and parameters for transaction filtering
+ * Transaction event types (FORCED_TRANSFER and WALLET_RECOVERY are issuer moves, see
+ * services/db/recovery.ts)
  */
-function buildWhereClause(filters: {
+const EVENT_TYPES = [
+  "ISSUED",
+  "TRANSFER",
+  "REDEEMED",
+  "FORCED_TRANSFER",
+  "WALLET_RECOVERY",
+] as const;
+
+/**
+ * Build WHERE clause and parameters for a company's transaction filtering
+ */
+function buildWhereClause(companyId: number, filters: {
   eventType?: string;
   address?: string;
   fromDate?: number;
   toDate?: number;
 }): { where: string; params: unknown[] } {
-  const conditions: string[] = [];
-  const params: unknown[] = [];
+  const conditions: string[] = ["company_id = ?"];
+  const params: unknown[] = [companyId];
 
   if (filters.eventType) {
-    if (filters.eventType !== "ISSUED" && filters.eventType !== "TRANSFER") {
-      throw new Error("Invalid eventType. Must be 'ISSUED' or 'TRANSFER'");
+    if (!(EVENT_TYPES as readonly string[]).includes(filters.eventType)) {
+      throw new Error(
+        "Invalid eventType. Must be 'ISSUED', 'TRANSFER', 'REDEEMED', 'FORCED_TRANSFER' or 'WALLET_RECOVERY'"
+      );
     }
     conditions.push("event_type = ?");
     params.push(filters.eventType);
@@ -50,13 +65,13 @@ function buildWhereClause(filters: {
     params.push(filters.toDate);
   }
 
-  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const where = `WHERE ${conditions.join(" AND ")}`;
 
   return { where, params };
 }
 
 /**
- * GET /api/transactions
+ * GET /api/companies/:companyId/transactions
  * Returns paginated transaction history with optional filtering
  */
 async function getTransactions(
@@ -64,7 +79,7 @@ async function getTransactions(
     Querystring: {
       limit?: string;
       offset?: string;
-      eventType?: "ISSUED" | "TRANSFER";
+      eventType?: (typeof EVENT_TYPES)[number];
       address?: string;
       fromDate?: string;
       toDate?: string;
@@ -123,7 +138,7 @@ async function getTransactions(
     // Build WHERE clause
     let whereClause: { where: string; params: unknown[] };
     try {
-      whereClause = buildWhereClause(filters);
+      whereClause = buildWhereClause(getRequestCompany(request).id, filters);
     } catch (error) {
       reply.code(400).send({
         error: "Invalid filter parameter",
@@ -168,7 +183,7 @@ async function getTransactions(
       blockNumber: number;
       blockTimestamp: number | string | null;
       logIndex: number;
-      eventType: "ISSUED" | "TRANSFER";
+      eventType: (typeof EVENT_TYPES)[number];
     }>(sql, [...whereClause.params, limit, offset]);
 
     // Transform rows to response format
@@ -211,7 +226,7 @@ async function getTransactions(
 }
 
 /**
- * GET /api/transactions/:txHash
+ * GET /api/companies/:companyId/transactions/:txHash
  * Returns transaction details for a specific transaction hash
  */
 async function getTransactionByHash(
@@ -245,7 +260,7 @@ async function getTransactionByHash(
       blockNumber: number;
       blockTimestamp: number | string | null;
       logIndex: number;
-      eventType: "ISSUED" | "TRANSFER";
+      eventType: (typeof EVENT_TYPES)[number];
     }>(
       `
       SELECT 
@@ -259,10 +274,10 @@ async function getTransactionByHash(
         log_index AS logIndex,
         event_type AS eventType
       FROM transactions
-      WHERE tx_hash = ?
+      WHERE company_id = ? AND tx_hash = ?
       ORDER BY log_index ASC
     `,
-      [txHash]
+      [getRequestCompany(request).id, txHash]
     );
 
     if (rows.length === 0) {
@@ -338,7 +353,7 @@ export async function transactionsRoutes(
       blockNumber: { type: "integer" },
       blockTimestamp: { type: ["integer", "null"] },
       logIndex: { type: "integer" },
-      eventType: { type: "string", enum: ["ISSUED", "TRANSFER"] },
+      eventType: { type: "string", enum: [...EVENT_TYPES] },
     },
     required: [
       "id",
@@ -352,7 +367,7 @@ export async function transactionsRoutes(
     ],
   };
 
-  // Response schema for GET /api/transactions
+  // Response schema for GET /api/companies/:companyId/transactions
   const transactionsListSchema = {
     response: {
       200: {
@@ -402,7 +417,7 @@ export async function transactionsRoutes(
       blockNumber: { type: "integer" },
       blockTimestamp: { type: ["integer", "null"] },
       logIndex: { type: "integer" },
-      eventType: { type: "string", enum: ["ISSUED", "TRANSFER"] },
+      eventType: { type: "string", enum: [...EVENT_TYPES] },
     },
     required: [
       "id",
@@ -415,7 +430,7 @@ export async function transactionsRoutes(
     ],
   };
 
-  // Response schema for GET /api/transactions/:txHash
+  // Response schema for GET /api/companies/:companyId/transactions/:txHash
   const transactionDetailResponseSchema = {
     response: {
       200: {
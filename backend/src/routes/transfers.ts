@@ -0,0 +1,166 @@
+/**
+ * @file Transfer API routes
+ * @notice Pre-checks a proposed transfer against the token's ERC-1404 transfer restrictions
+ *
+ * Data source:
+ * - Indexed allowlist, transfer restriction, lock-up, vesting, compliance and balance state
+ *   (see services/db/restrictions.ts)
+ * - The token's totalAuthorized() on chain, only when a max ownership limit is set
+ * - Mirrors ChainEquityToken.detectTransferRestriction(), so clients can explain a rejection
+ *   before the user signs
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { isAddress, type Address } from "viem";
+import { ABIS } from "../config/contracts";
+import { connect } from "../db/index";
+import { getPublicClient } from "../services/chain/client";
+import { safeRead } from "../services/chain/utils";
+import { getRequestCompany } from "../middleware/company";
+import { getActiveTokenAddress } from "../services/db/tokens";
+import { detectTransferRestriction } from "../services/db/restrictions";
+import { getComplianceSettings } from "../services/db/compliance";
+
+/**
+ * Request body of POST /api/companies/:companyId/transfers/precheck
+ */
+interface TransferPrecheckBody {
+  from: string;
+  to: string;
+  amount: string; // Base units (decimal string)
+}
+
+/**
+ * Read the token's authorized shares if its compliance limits ownership
+ * @returns Authorized shares, or undefined if no limit is set or the read fails
+ */
+async function getTotalAuthorizedForCompliance(
+  companyId: number,
+  tokenAddress: string
+): Promise<bigint | undefined> {
+  const { modules } = getComplianceSettings(connect(), companyId, tokenAddress);
+  if (!modules.some((module) => module.maxOwnershipBps)) {
+    return undefined;
+  }
+
+  const totalAuthorized = await safeRead<bigint>(getPublicClient(), {
+    address: tokenAddress as Address,
+    abi: ABIS.token,
+    functionName: "totalAuthorized",
+  });
+  return totalAuthorized ?? undefined;
+}
+
+/**
+ * POST /api/companies/:companyId/transfers/precheck
+ * Returns whether the token would reject the transfer, with its ERC-1404 code and message
+ */
+async function precheckTransfer(
+  request: FastifyRequest<{ Body: TransferPrecheckBody }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { from, to, amount } = request.body;
+
+    if (!isAddress(from) || !isAddress(to)) {
+      reply.code(400).send({
+        error: "Invalid address format",
+        message: "from and to must be valid Ethereum addresses",
+      });
+      return;
+    }
+
+    const db = connect();
+    const company = getRequestCompany(request);
+    const tokenAddress = getActiveTokenAddress(db, company);
+    const asOf = Math.floor(Date.now() / 1000);
+    const totalAuthorized = await getTotalAuthorizedForCompliance(
+      company.id,
+      tokenAddress
+    );
+
+    reply.send({
+      tokenAddress,
+      from: from.toLowerCase(),
+      to: to.toLowerCase(),
+      amount,
+      asOf,
+      ...detectTransferRestriction(db, company.id, tokenAddress, {
+        from,
+        to,
+        amount: BigInt(amount),
+        timestamp: asOf,
+        totalAuthorized,
+      }),
+    });
+  } catch (error) {
+    request.log.error(error, "Error prechecking transfer");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to precheck transfer",
+    });
+  }
+}
+
+/**
+ * Register transfer routes with Fastify instance
+ */
+export async function transfersRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  // Request and response schema for POST /api/companies/:companyId/transfers/precheck
+  const precheckSchema = {
+    body: {
+      type: "object",
+      required: ["from", "to", "amount"],
+      properties: {
+        from: { type: "string" },
+        to: { type: "string" },
+        amount: { type: "string", pattern: "^[0-9]{1,78}$" },
+      },
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          tokenAddress: { type: "string" },
+          from: { type: "string" },
+          to: { type: "string" },
+          amount: { type: "string" },
+          asOf: { type: "integer" },
+          code: { type: "integer" },
+          restricted: { type: "boolean" },
+          message: { type: "string" },
+          balance: { type: "string" },
+          sufficientBalance: { type: "boolean" },
+        },
+        required: [
+          "tokenAddress",
+          "from",
+          "to",
+          "amount",
+          "asOf",
+          "code",
+          "restricted",
+          "message",
+          "balance",
+          "sufficientBalance",
+        ],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.post<{ Body: TransferPrecheckBody }>(
+    "/transfers/precheck",
+    { schema: precheckSchema },
+    precheckTransfer
+  );
+}
@@ -0,0 +1,169 @@
+/**
+ * @file Vesting API routes
+ * @notice Vesting grants of a beneficiary with vested/unvested amounts and timelines
+ *
+ * Data source:
+ * - vesting_grants and vesting_grant_revocations tables (see services/db/vesting.ts)
+ * - Only grants on the active token are returned; grants are not carried over by a token replacement
+ * - Amounts are in base token units (like Shareholder.balance)
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
+import { isAddress } from "viem";
+import { connect } from "../db/index";
+import { getRequestCompany } from "../middleware/company";
+import { getActiveTokenAddress } from "../services/db/tokens";
+import { getVestingPosition } from "../services/db/vesting";
+
+/**
+ * GET /api/companies/:companyId/vesting/:address
+ * Returns the address's vesting grants on the active token, evaluated now or at ?timestamp
+ */
+async function getVesting(
+  request: FastifyRequest<{
+    Params: { address: string };
+    Querystring: { timestamp?: string };
+  }>,
+  reply: FastifyReply
+): Promise<void> {
+  try {
+    const { address } = request.params;
+
+    if (!isAddress(address)) {
+      reply.code(400).send({
+        error: "Invalid address format",
+        message: "Address must be a valid Ethereum address",
+      });
+      return;
+    }
+
+    let asOf = Math.floor(Date.now() / 1000);
+    if (request.query.timestamp) {
+      asOf = parseInt(request.query.timestamp, 10);
+      if (isNaN(asOf) || asOf < 0) {
+        reply.code(400).send({
+          error: "Invalid timestamp parameter",
+          message: "timestamp must be a valid Unix timestamp (number)",
+        });
+        return;
+      }
+    }
+
+    const db = connect();
+    const company = getRequestCompany(request);
+    const tokenAddress = getActiveTokenAddress(db, company);
+
+    reply.send({
+      address: address.toLowerCase(),
+      tokenAddress,
+      asOf,
+      ...getVestingPosition(db, company.id, tokenAddress, address, asOf),
+    });
+  } catch (error) {
+    request.log.error(error, "Error fetching vesting grants");
+    reply.code(500).send({
+      error: "Internal server error",
+      message: "Failed to fetch vesting grants",
+    });
+  }
+}
+
+/**
+ * Register vesting routes with Fastify instance
+ */
+export async function vestingRoutes(fastify: FastifyInstance): Promise<void> {
+  const errorSchema = {
+    type: "object",
+    properties: {
+      error: { type: "string" },
+      message: { type: "string" },
+    },
+  };
+
+  // Response schema for GET /api/companies/:companyId/vesting/:address
+  const vestingSchema = {
+    params: {
+      type: "object",
+      properties: {
+        address: { type: "string" },
+      },
+      required: ["address"],
+    },
+    querystring: {
+      type: "object",
+      properties: {
+        timestamp: { type: "string" },
+      },
+    },
+    response: {
+      200: {
+        type: "object",
+        properties: {
+          address: { type: "string" },
+          tokenAddress: { type: "string" },
+          asOf: { type: "integer" },
+          totalGranted: { type: "string" },
+          totalVested: { type: "string" },
+          totalUnvested: { type: "string" },
+          totalClawedBack: { type: "string" },
+          grants: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                grantId: { type: "integer" },
+                amount: { type: "string" },
+                startTime: { type: "integer" },
+                cliffTime: { type: "integer" },
+                endTime: { type: "integer" },
+                releaseInterval: { type: "integer" },
+                revokedAt: { type: ["integer", "null"] },
+                vested: { type: "string" },
+                unvested: { type: "string" },
+                clawedBack: { type: "string" },
+                timeline: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      timestamp: { type: "integer" },
+                      vested: { type: "string" },
+                    },
+                    required: ["timestamp", "vested"],
+                  },
+                },
+              },
+              required: [
+                "grantId",
+                "amount",
+                "startTime",
+                "cliffTime",
+                "endTime",
+                "releaseInterval",
+                "revokedAt",
+                "vested",
+                "unvested",
+                "clawedBack",
+                "timeline",
+              ],
+            },
+          },
+        },
+        required: [
+          "address",
+          "tokenAddress",
+          "asOf",
+          "totalGranted",
+          "totalVested",
+          "totalUnvested",
+          "totalClawedBack",
+          "grants",
+        ],
+      },
+      400: errorSchema,
+      500: errorSchema,
+    },
+  };
+
+  fastify.get("/vesting/:address", { schema: vestingSchema }, getVesting);
+}
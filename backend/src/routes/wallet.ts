@@ -5,7 +5,7 @@
 
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { connect } from '../db/index';
-import { requireAuth } from '../middleware/auth';
+import { requireAuth, requireAnyRole } from '../middleware/auth';
 import { unlinkWallet, linkWallet, getUserByUid, getUsersWithLinkedWallets, createUser } from '../services/db/users';
 import { isAddress } from 'viem';
 
@@ -211,7 +211,7 @@ export async function walletRoutes(app: FastifyInstance) {
    */
   app.get(
     '/wallet/investors',
-    { preHandler: requireAuth },
+    { preHandler: [requireAuth, requireAnyRole(['issuer', 'admin'])] },
     async (request: FastifyRequest, reply: FastifyReply) => {
       try {
         const db = connect();
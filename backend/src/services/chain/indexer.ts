@@ -2,6 +2,33 @@
  * @file Event indexer service
  * @notice Watches and indexes blockchain events from CapTable and ChainEquityToken contracts
  * @notice Processes events, stores them in database, updates shareholder balances
+ * @notice Balances are event-sourced from Issued/Transfer/Redeemed deltas (see services/db/balances.ts),
+ *         so indexing a historical range performs no contract reads for balances or split factors
+ * @notice Live watchers index unconfirmed blocks; new heads are checked against tracked block hashes
+ *         and indexed data above a fork point is rolled back and replayed (see services/db/blocks.ts)
+ * @notice CapTable TokenReplaced events switch indexing to the replacement token from the next log
+ *         on; the replaced token's indexed history is kept (see services/db/tokens.ts)
+ * @notice Every registered company (see services/db/companies.ts) is indexed by its own worker,
+ *         with its own watchers, head queue and last indexed block; workers share the RPC client
+ * @notice Companies created through CapTableFactory are registered from its CompanyCreated events
+ *         and get a worker as soon as they are discovered
+ * @notice Share class tokens registered with CapTable.addShareClass() are indexed into their own
+ *         ledger from their ShareClassAdded event on (see services/db/shareClasses.ts)
+ * @notice Vesting grants and their revocations are indexed from the active token; vested amounts
+ *         are computed from the schedules (see services/db/vesting.ts)
+ * @notice Lock-ups (global, per wallet and the holding period) are indexed from the active token
+ *         (see services/db/lockups.ts)
+ * @notice Compliance configuration is indexed from ComplianceSet events of the active and share
+ *         class tokens, and from ModularCompliance and module events fetched by their token topic
+ *         (see services/db/compliance.ts)
+ * @notice Paused/Unpaused events of the active token are indexed as its pause state (see
+ *         services/db/pause.ts)
+ * @notice The authorized share count is indexed from Deployed and AuthorizedSharesChanged events of
+ *         the active token (see services/db/authorizedShares.ts)
+ * @notice Merkle allowlist roots are indexed from AllowlistRootUpdated events of the active token
+ *         (see services/db/allowlistTree.ts)
+ * @notice AccessControl role grants and revocations are indexed from the active token and the cap
+ *         table; role holders act as issuers of that company only (see services/db/roles.ts)
  */
 
 import {
@@ -10,56 +37,149 @@ import {
   parseEventLogs,
   type AbiEvent,
   type Address,
+  type Hex,
+  hexToString,
 } from "viem";
+import type { Database } from "bun:sqlite";
 import { getPublicClient, withRetry } from "./client";
-import { CONTRACTS } from "../../config/contracts";
+import { ABIS, CHAIN_ID, FACTORY_ADDRESS } from "../../config/contracts";
+import { execute, queryOne, transaction, connect } from "../../db/index";
+import type { CompanyRecord } from "../../db/schema";
+import { applyBalanceChange, recordSplit } from "../db/balances";
+import { createCheckpointIfDue } from "../db/snapshots";
+import { reconcileKycRequests } from "../db/kyc";
+import { getSymbolHistory } from "../db/symbols";
+import { getActiveTokenAddress, recordTokenReplacement } from "../db/tokens";
 import {
-  query,
-  queryOne,
-  execute,
-  transaction,
-  asEventRecord,
-  asShareholderRecord,
-  type EventRecord,
-  type ShareholderRecord,
-} from "../../db/index";
-import type { MetaRecord } from "../../db/schema";
+  recordShareClass,
+  getShareClasses,
+  getShareClassByToken,
+  applyShareClassBalanceChange,
+} from "../db/shareClasses";
+import { recordVestingGrant, recordVestingRevocation } from "../db/vesting";
+import { recordLockupChange } from "../db/lockups";
+import {
+  getForcedTransferType,
+  reconcileRecoveryRequests,
+  recordForcedTransfer,
+} from "../db/recovery";
+import { recordRoleChange } from "../db/roles";
+import { recordPauseChange } from "../db/pause";
+import {
+  getAuthorizedSharesHistory,
+  recordAuthorizedSharesChange,
+} from "../db/authorizedShares";
+import { recordAllowlistRootUpdate } from "../db/allowlistTree";
+import {
+  recordComplianceConfigChange,
+  type ComplianceConfigChangeInput,
+} from "../db/compliance";
+import {
+  getCompanies,
+  getCompanyById,
+  getCompanyByCapTable,
+  recordReorg,
+  registerCompany,
+  updateLastIndexedBlock,
+} from "../db/companies";
+import {
+  recordBlock,
+  getIndexedBlock,
+  getIndexedBlocksBefore,
+  getLatestIndexedBlock,
+  pruneIndexedBlocks,
+  rollbackToBlock,
+} from "../db/blocks";
 
 // Configuration
 const START_BLOCK = Number(process.env.START_BLOCK) || 0;
 const CONFIRMATION_BLOCKS = Number(process.env.CONFIRMATION_BLOCKS) || 3;
+// Deepest reorg the indexer can detect and roll back (block hashes older than this are pruned)
+const MAX_REORG_DEPTH = Number(process.env.MAX_REORG_DEPTH) || 64;
 const BATCH_SIZE = 100; // Number of events to batch before committing
+// Blocks between cap table snapshot checkpoints (0 disables checkpointing)
+const SNAPSHOT_CHECKPOINT_INTERVAL =
+  process.env.SNAPSHOT_CHECKPOINT_INTERVAL !== undefined
+    ? Number(process.env.SNAPSHOT_CHECKPOINT_INTERVAL)
+    : 10000;
+// Meta key holding the last block scanned for CapTableFactory CompanyCreated events
+const FACTORY_BLOCK_KEY = "factory_last_indexed_block";
+
+/**
+ * Indexing state for one company
+ */
+interface CompanyWorker {
+  company: CompanyRecord;
+  capTableAddress: Address;
+  watchers: (() => void)[];
+  // Watchers on the active token, restarted when the token is replaced
+  tokenWatchers: (() => void)[];
+  watchedTokenAddress: string | null;
+  // Watchers on the share class tokens, restarted when a class is added
+  shareClassWatchers: (() => void)[];
+  watchedShareClassTokens: string[] | null;
+  // New heads are handled one at a time so a rollback never interleaves with the next head
+  headQueue: Promise<void>;
+}
 
 // Indexer state
 let isRunning = false;
-let watchers: (() => void)[] = [];
+const workers = new Map<number, CompanyWorker>();
+let factoryWatchers: (() => void)[] = [];
 let publicClient: PublicClient;
 
 /**
- * Get last indexed block from meta table
+ * Create the (stopped) worker for a company
  */
-function getLastIndexedBlock(): number {
-  const meta = queryOne<MetaRecord>(
-    "SELECT * FROM meta WHERE key = ?",
-    ["last_indexed_block"]
-  );
+function createWorker(company: CompanyRecord): CompanyWorker {
+  return {
+    company,
+    capTableAddress: company.capTableAddress as Address,
+    watchers: [],
+    tokenWatchers: [],
+    watchedTokenAddress: null,
+    shareClassWatchers: [],
+    watchedShareClassTokens: null,
+    headQueue: Promise.resolve(),
+  };
+}
 
-  if (!meta) {
-    return START_BLOCK - 1;
-  }
+/**
+ * Get last indexed block for a company
+ */
+function getLastIndexedBlock(worker: CompanyWorker): number {
+  const company = getCompanyById(connect(), worker.company.id);
+  return company?.lastIndexedBlock ?? START_BLOCK - 1;
+}
 
-  return Number(meta.value);
+/**
+ * Set last indexed block for a company
+ */
+function setLastIndexedBlock(worker: CompanyWorker, blockNumber: number): void {
+  updateLastIndexedBlock(connect(), worker.company.id, blockNumber);
 }
 
 /**
- * Set last indexed block in meta table
+ * Checkpoint the cap table at a fully indexed block if the checkpoint interval has passed
+ * Failures are logged and ignored: checkpoints only speed up historical snapshots
  */
-function setLastIndexedBlock(blockNumber: number): void {
-  execute(
-    `INSERT INTO meta (key, value) VALUES (?, ?)
-     ON CONFLICT(key) DO UPDATE SET value = ?`,
-    ["last_indexed_block", String(blockNumber), String(blockNumber)]
-  );
+function checkpointSnapshots(worker: CompanyWorker, blockNumber: number): void {
+  try {
+    if (
+      createCheckpointIfDue(
+        connect(),
+        worker.company.id,
+        blockNumber,
+        SNAPSHOT_CHECKPOINT_INTERVAL
+      )
+    ) {
+      console.log(
+        `📸 Created ${worker.company.name} cap table checkpoint at block ${blockNumber}`
+      );
+    }
+  } catch (error) {
+    console.error(`❌ Error creating cap table checkpoint at block ${blockNumber}:`, error);
+  }
 }
 
 /**
@@ -77,6 +197,7 @@ function setIndexerVersion(version: string): void {
  * Store raw event in events table
  */
 function storeEvent(
+  worker: CompanyWorker,
   log: Log,
   eventType: string,
   contractAddress: Address
@@ -84,10 +205,11 @@ function storeEvent(
   const topicsJson = JSON.stringify(log.topics);
   execute(
     `INSERT OR IGNORE INTO events (
-      event_type, contract_address, topics, data,
+      company_id, event_type, contract_address, topics, data,
       block_number, log_index, block_timestamp, tx_hash
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
+      worker.company.id,
       eventType,
       contractAddress,
       topicsJson,
@@ -98,384 +220,1732 @@ function storeEvent(
       log.transactionHash || null,
     ]
   );
+  trackLogBlock(worker, connect(), log);
 }
 
 /**
- * Update shareholder balance
- * Queries splitFactor from contract to calculate effective balance
+ * Record the hash of the block a log came from, for reorg detection
  */
-async function updateShareholderBalance(
-  address: Address,
-  balance: bigint,
-  blockNumber: number
-): Promise<void> {
-  // Query splitFactor from contract
-  const splitFactor = await withRetry(() =>
-    publicClient.readContract( {
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
-      functionName: "splitFactor",
-    })
-  );
-
-  // Calculate effective balance: balance * splitFactor / 1e18
-  const effectiveBalance =
-    (balance * BigInt(splitFactor)) / BigInt(10 ** 18);
+function trackLogBlock(worker: CompanyWorker, db: Database, log: Log): void {
+  if (log.blockHash && log.blockNumber !== null) {
+    recordBlock(db, worker.company.id, {
+      blockNumber: Number(log.blockNumber),
+      blockHash: log.blockHash,
+      blockTimestamp: getLogTimestamp(log),
+    });
+  }
+}
 
-  // Update or insert shareholder
-  execute(
-    `INSERT INTO shareholders (address, balance, effective_balance, last_updated_block)
-     VALUES (?, ?, ?, ?)
-     ON CONFLICT(address) DO UPDATE SET
-       balance = excluded.balance,
-       effective_balance = excluded.effective_balance,
-       last_updated_block = excluded.last_updated_block`,
-    [
-      address.toLowerCase(),
-      balance.toString(),
-      effectiveBalance.toString(),
-      blockNumber,
-    ]
-  );
+/**
+ * Drop logs flagged as removed by the node (orphaned by a reorg)
+ * Their rows are cleaned up by the rollback triggered from the new head
+ */
+function activeLogs<T extends Log>(logs: T[]): T[] {
+  return logs.filter((log) => !log.removed);
 }
 
 /**
- * Update all shareholder effective balances after split
+ * Check whether a log comes from the company's token that was active at its position
+ * Logs from a replaced token after its TokenReplaced log are not indexed
  */
-async function updateAllShareholderEffectiveBalances(): Promise<void> {
-  // Query splitFactor from contract
-  const splitFactor = await withRetry(() =>
-    publicClient.readContract( {
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
-      functionName: "splitFactor",
-    })
+function isActiveTokenLog(worker: CompanyWorker, log: Log): boolean {
+  return (
+    log.address?.toLowerCase() ===
+    getActiveTokenAddress(
+      connect(),
+      worker.company,
+      Number(log.blockNumber),
+      Number(log.logIndex)
+    )
   );
+}
 
-  // Get all shareholders
-  const shareholders = query<ShareholderRecord>("SELECT * FROM shareholders");
-
-  // Update each shareholder's effective balance
-  for (const shareholder of shareholders) {
-    const balance = BigInt(shareholder.balance);
-    const effectiveBalance =
-      (balance * BigInt(splitFactor)) / BigInt(10 ** 18);
+/**
+ * ModularCompliance and module events, fetched by their token topic from any emitter
+ */
+const COMPLIANCE_EVENTS = [
+  "ModuleAdded",
+  "ModuleRemoved",
+  "MaxHoldersSet",
+  "MaxOwnershipSet",
+  "InvestorCountrySet",
+  "CountryRestrictionSet",
+  "AccreditationSet",
+] as const;
 
-    execute(
-      `UPDATE shareholders SET effective_balance = ? WHERE address = ?`,
-      [effectiveBalance.toString(), shareholder.address]
-    );
-  }
-}
+/**
+ * Share class token events indexed into the class ledger or compliance history
+ */
+const SHARE_CLASS_TOKEN_EVENTS = [
+  "Issued",
+  "Redeemed",
+  "Transfer",
+  "ComplianceSet",
+];
 
 /**
  * Event handler registry
  */
-const handlers: Record<string, (log: Log, skipStore?: boolean) => Promise<void>> = {
-  TokenLinked: async (log: Log, skipStore = false) => {
-    await handleTokenLinked(log, skipStore);
+const handlers: Record<
+  string,
+  (worker: CompanyWorker, log: Log, skipStore?: boolean) => Promise<void>
+> = {
+  TokenLinked: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleTokenLinked(worker, log, skipStore);
+  },
+  TokenReplaced: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleTokenReplaced(worker, log, skipStore);
+  },
+  Issued: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleIssued(worker, log, skipStore);
+  },
+  Redeemed: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleRedeemed(worker, log, skipStore);
+  },
+  Transfer: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleTransferred(worker, log, skipStore);
+  },
+  SplitExecuted: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleSplitExecuted(worker, log, skipStore);
+  },
+  CorporateActionRecorded: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleCorporateActionRecorded(worker, log, skipStore);
+  },
+  Deployed: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleDeployed(worker, log, skipStore);
+  },
+  WalletApproved: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleWalletApproved(worker, log, skipStore);
+  },
+  WalletRevoked: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleWalletRevoked(worker, log, skipStore);
+  },
+  SymbolChanged: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleSymbolChanged(worker, log, skipStore);
+  },
+  TransfersRestrictedChanged: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleTransfersRestrictedChanged(worker, log, skipStore);
   },
-  Issued: async (log: Log, skipStore = false) => {
-    await handleIssued(log, skipStore);
+  VestingGrantCreated: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleVestingGrantCreated(worker, log, skipStore);
   },
-  Transfer: async (log: Log, skipStore = false) => {
-    await handleTransferred(log, skipStore);
+  VestingGrantRevoked: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleVestingGrantRevoked(worker, log, skipStore);
   },
-  SplitExecuted: async (log: Log, skipStore = false) => {
-    await handleSplitExecuted(log, skipStore);
+  GlobalLockupSet: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleGlobalLockupSet(worker, log, skipStore);
   },
-  CorporateActionRecorded: async (log: Log, skipStore = false) => {
-    await handleCorporateActionRecorded(log, skipStore);
+  LockupSet: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleLockupSet(worker, log, skipStore);
+  },
+  HoldingPeriodSet: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleHoldingPeriodSet(worker, log, skipStore);
+  },
+  ComplianceSet: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleComplianceSet(worker, log, skipStore);
+  },
+  ForcedTransfer: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleForcedTransfer(worker, log, skipStore);
+  },
+  WalletRecovered: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleWalletRecovered(worker, log, skipStore);
+  },
+  Paused: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handlePaused(worker, log, skipStore);
+  },
+  Unpaused: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleUnpaused(worker, log, skipStore);
+  },
+  AuthorizedSharesChanged: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleAuthorizedSharesChanged(worker, log, skipStore);
+  },
+  AllowlistRootUpdated: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleAllowlistRootUpdated(worker, log, skipStore);
+  },
+  RoleGranted: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleRoleGranted(worker, log, skipStore);
+  },
+  RoleRevoked: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleRoleRevoked(worker, log, skipStore);
+  },
+  ...Object.fromEntries(
+    COMPLIANCE_EVENTS.map((eventName) => [
+      eventName,
+      async (worker: CompanyWorker, log: Log, skipStore = false) => {
+        await handleComplianceConfigEvent(worker, log, skipStore);
+      },
+    ])
+  ),
+  ShareClassAdded: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleShareClassAdded(worker, log, skipStore);
+  },
+  ShareClassIssued: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleShareClassTokenEvent(worker, log, skipStore);
+  },
+  ShareClassRedeemed: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleShareClassTokenEvent(worker, log, skipStore);
+  },
+  ShareClassTransfer: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleShareClassTokenEvent(worker, log, skipStore);
+  },
+  ShareClassComplianceSet: async (worker: CompanyWorker, log: Log, skipStore = false) => {
+    await handleShareClassTokenEvent(worker, log, skipStore);
   },
 };
 
 /**
- * Handle TokenLinked event
+ * Get block timestamp from a log as a number (null if the RPC did not include it)
  */
-async function handleTokenLinked(log: Log, skipStore = false): Promise<void> {
-  if (!skipStore) {
-    storeEvent(log, "TokenLinked", CONTRACTS.capTable.address);
-  }
-  console.log(`📎 TokenLinked event at block ${log.blockNumber}`);
+function getLogTimestamp(log: Log): number | null {
+  const timestamp = (log as Log & { blockTimestamp?: bigint | number | null })
+    .blockTimestamp;
+  return timestamp ? Number(timestamp) : null;
 }
 
 /**
- * Handle Issued event
+ * Parse a token contract log and return its args, or null if parsing fails
  */
-async function handleIssued(log: Log, skipStore = false): Promise<void> {
-  if (!skipStore) {
-    storeEvent(log, "Issued", CONTRACTS.token.address);
-  }
-
-  // Parse event
+function parseTokenLog<T>(log: Log, eventName: string): T | null {
   const parsed = parseEventLogs({
-    abi: CONTRACTS.token.abi,
+    abi: ABIS.token,
     logs: [log],
   });
 
   if (parsed.length === 0) {
-    console.warn(`⚠️  Failed to parse Issued event at block ${log.blockNumber}`);
-    return;
+    console.warn(
+      `⚠️  Failed to parse ${eventName} event at block ${log.blockNumber}`
+    );
+    return null;
   }
 
-  const event = parsed[0];
-  const to = event.args.to as Address;
-  const amount = event.args.amount as bigint;
+  return parsed[0]!.args as T;
+}
 
-  // Store in transactions table
+/**
+ * Record an allowlist change (approval or revocation) in allowlist_history
+ */
+function recordAllowlistChange(
+  worker: CompanyWorker,
+  log: Log,
+  wallet: Address,
+  issuer: Address,
+  approved: boolean
+): void {
   execute(
-    `INSERT OR IGNORE INTO transactions (
-      tx_hash, from_address, to_address, amount,
-      block_number, block_timestamp, log_index, event_type
+    `INSERT OR IGNORE INTO allowlist_history (
+      company_id, wallet_address, issuer_address, approved,
+      block_number, block_timestamp, log_index, tx_hash
     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
     [
-      log.transactionHash || "",
-      null, // Issued events have no from_address
-      to.toLowerCase(),
-      amount.toString(),
+      worker.company.id,
+      wallet.toLowerCase(),
+      issuer.toLowerCase(),
+      approved ? 1 : 0,
       Number(log.blockNumber),
-      log.blockTimestamp || null,
+      getLogTimestamp(log),
       log.logIndex,
-      "ISSUED",
+      log.transactionHash || null,
+    ]
+  );
+}
+
+/**
+ * Record a symbol in symbol_history (oldSymbol is null at deployment)
+ */
+function recordSymbol(
+  worker: CompanyWorker,
+  log: Log,
+  oldSymbol: string | null,
+  newSymbol: string
+): void {
+  execute(
+    `INSERT OR IGNORE INTO symbol_history (
+      company_id, old_symbol, new_symbol,
+      block_number, block_timestamp, log_index, tx_hash
+    ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [
+      worker.company.id,
+      oldSymbol,
+      newSymbol,
+      Number(log.blockNumber),
+      getLogTimestamp(log),
+      log.logIndex,
+      log.transactionHash || null,
     ]
   );
+}
 
-  // Update shareholder balance
-  await updateShareholderBalance(to, amount, Number(log.blockNumber));
+/**
+ * Seed symbol, authorized shares and transfer restriction history for a newly deployed token
+ * The symbol and authorized shares are only recorded when they differ from the latest indexed
+ * value before the log, so a replacement token that keeps its predecessor's ticker or authorized
+ * shares does not add a history row
+ * (the constructor enables transfer restrictions without emitting TransfersRestrictedChanged)
+ */
+function recordTokenDeployment(
+  worker: CompanyWorker,
+  log: Log,
+  tokenAddress: string,
+  symbol: string,
+  totalAuthorized: bigint
+): void {
+  const blockNumber = Number(log.blockNumber);
+  const isBefore = (entry: { blockNumber: number; logIndex: number }) =>
+    entry.blockNumber < blockNumber ||
+    (entry.blockNumber === blockNumber && entry.logIndex < log.logIndex!);
+
+  const previous = getSymbolHistory(connect(), worker.company.id)
+    .filter(isBefore)
+    .at(-1);
+  if (previous?.newSymbol !== symbol) {
+    recordSymbol(worker, log, previous?.newSymbol ?? null, symbol);
+  }
 
-  console.log(
-    `✅ Issued ${amount.toString()} tokens to ${to} at block ${log.blockNumber}`
+  const previousAuthorized = getAuthorizedSharesHistory(connect(), worker.company.id)
+    .filter(isBefore)
+    .at(-1)?.newAuthorized;
+  if (previousAuthorized !== totalAuthorized.toString()) {
+    recordAuthorizedSharesChange(connect(), worker.company.id, {
+      tokenAddress,
+      oldAuthorized: previousAuthorized !== undefined ? BigInt(previousAuthorized) : null,
+      newAuthorized: totalAuthorized,
+      blockNumber,
+      blockTimestamp: getLogTimestamp(log),
+      logIndex: log.logIndex!,
+      txHash: log.transactionHash || null,
+    });
+  }
+
+  recordTransferRestriction(worker, log, true);
+}
+
+/**
+ * Record a transfer restriction state in transfer_restriction_history
+ */
+function recordTransferRestriction(
+  worker: CompanyWorker,
+  log: Log,
+  restricted: boolean
+): void {
+  execute(
+    `INSERT OR IGNORE INTO transfer_restriction_history (
+      company_id, restricted, block_number, block_timestamp, log_index, tx_hash
+    ) VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      worker.company.id,
+      restricted ? 1 : 0,
+      Number(log.blockNumber),
+      getLogTimestamp(log),
+      log.logIndex,
+      log.transactionHash || null,
+    ]
   );
 }
 
 /**
- * Handle Transfer event
+ * Handle TokenLinked event
  */
-async function handleTransferred(log: Log, skipStore = false): Promise<void> {
+async function handleTokenLinked(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
   if (!skipStore) {
-    storeEvent(log, "Transfer", CONTRACTS.token.address);
+    storeEvent(worker, log, "TokenLinked", worker.capTableAddress);
+  }
+  console.log(`📎 TokenLinked event at block ${log.blockNumber}`);
+}
+
+/**
+ * Handle TokenReplaced event
+ * Closes the old token's balances and seeds the replacement's constructor state at the
+ * TokenReplaced position (the replacement's Deployed event precedes the switch, so it is
+ * fetched here rather than picked up by block scans)
+ */
+async function handleTokenReplaced(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "TokenReplaced", worker.capTableAddress);
   }
 
-  // Parse event
   const parsed = parseEventLogs({
-    abi: CONTRACTS.token.abi,
+    abi: ABIS.capTable,
     logs: [log],
   });
 
   if (parsed.length === 0) {
     console.warn(
-      `⚠️  Failed to parse Transfer event at block ${log.blockNumber}`
+      `⚠️  Failed to parse TokenReplaced event at block ${log.blockNumber}`
     );
     return;
   }
 
-  const event = parsed[0];
-  const from = event.args.from as Address;
-  const to = event.args.to as Address;
-  const value = event.args.value as bigint;
-
-  // Skip if from is zero address (minting handled by Issued event)
-  if (from === "0x0000000000000000000000000000000000000000") {
-    return;
-  }
+  const { oldToken, newToken, migrationBlockNumber } = parsed[0]!.args as {
+    oldToken: Address;
+    newToken: Address;
+    migrationBlockNumber: bigint;
+  };
+
+  const recorded = recordTokenReplacement(connect(), worker.company.id, {
+    oldToken,
+    newToken,
+    migrationBlock: Number(migrationBlockNumber),
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
 
-  // Store in transactions table
-  execute(
-    `INSERT OR IGNORE INTO transactions (
-      tx_hash, from_address, to_address, amount,
-      block_number, block_timestamp, log_index, event_type
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-    [
-      log.transactionHash || "",
-      from.toLowerCase(),
-      to.toLowerCase(),
-      value.toString(),
-      Number(log.blockNumber),
-      log.blockTimestamp || null,
-      log.logIndex,
-      "TRANSFER",
-    ]
+  const deployedLogs = await withRetry(() =>
+    publicClient.getLogs({
+      address: newToken,
+      event: ABIS.token.find(
+        (item) => item.type === "event" && item.name === "Deployed"
+      ) as AbiEvent,
+      fromBlock: BigInt(START_BLOCK),
+      toBlock: log.blockNumber!,
+    })
   );
-
-  // Update shareholder balances for both from and to
-  // Query current balances from contract
-  const [fromBalance, toBalance] = await Promise.all([
-    withRetry(() =>
-      publicClient.readContract( {
-        address: CONTRACTS.token.address,
-        abi: CONTRACTS.token.abi,
-        functionName: "balanceOf",
-        args: [from],
-      })
-    ),
-    withRetry(() =>
-      publicClient.readContract( {
-        address: CONTRACTS.token.address,
-        abi: CONTRACTS.token.abi,
-        functionName: "balanceOf",
-        args: [to],
-      })
-    ),
-  ]);
-
-  await Promise.all([
-    updateShareholderBalance(from, fromBalance as bigint, Number(log.blockNumber)),
-    updateShareholderBalance(to, toBalance as bigint, Number(log.blockNumber)),
-  ]);
+  const deployedLog = deployedLogs[0] as Log | undefined;
+  const deployed = deployedLog
+    ? parseTokenLog<{ symbol: string; totalAuthorized: bigint }>(deployedLog, "Deployed")
+    : null;
+
+  if (deployedLog && deployed) {
+    storeEvent(worker, deployedLog, "Deployed", newToken);
+    recordTokenDeployment(worker, log, newToken, deployed.symbol, deployed.totalAuthorized);
+  } else {
+    console.warn(`⚠️  No Deployed event found for replacement token ${newToken}`);
+  }
 
   console.log(
-    `🔄 Transfer ${value.toString()} from ${from} to ${to} at block ${log.blockNumber}`
+    `🔁 TokenReplaced: ${oldToken} → ${newToken} (snapshot block ${migrationBlockNumber.toString()}) at block ${log.blockNumber}${recorded ? "" : " (already indexed)"}`
   );
 }
 
 /**
- * Handle SplitExecuted event
+ * Handle ShareClassAdded event
+ * Registers the class so its token's Issued/Redeemed/Transfer events are indexed from here on
  */
-async function handleSplitExecuted(log: Log, skipStore = false): Promise<void> {
+async function handleShareClassAdded(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
   if (!skipStore) {
-    storeEvent(log, "SplitExecuted", CONTRACTS.token.address);
+    storeEvent(worker, log, "ShareClassAdded", worker.capTableAddress);
   }
 
-  // Update all shareholder effective balances
-  await updateAllShareholderEffectiveBalances();
-
-  // Parse event for logging
   const parsed = parseEventLogs({
-    abi: CONTRACTS.token.abi,
+    abi: ABIS.capTable,
     logs: [log],
   });
 
-  if (parsed.length > 0) {
-    const event = parsed[0];
-    const oldFactor = event.args.oldFactor as bigint;
-    const newFactor = event.args.newFactor as bigint;
-    console.log(
-      `📊 SplitExecuted: ${oldFactor.toString()} → ${newFactor.toString()} at block ${log.blockNumber}`
+  if (parsed.length === 0) {
+    console.warn(
+      `⚠️  Failed to parse ShareClassAdded event at block ${log.blockNumber}`
     );
+    return;
   }
+
+  const args = parsed[0]!.args as {
+    classId: bigint;
+    token: Address;
+    name: string;
+    authorizedShares: bigint;
+    liquidationPreference: bigint;
+    conversionRatio: bigint;
+    seniority: bigint;
+  };
+
+  const recorded = recordShareClass(connect(), worker.company.id, {
+    classId: Number(args.classId),
+    name: args.name,
+    tokenAddress: args.token,
+    authorizedShares: args.authorizedShares,
+    liquidationPreference: args.liquidationPreference,
+    conversionRatio: args.conversionRatio,
+    seniority: Number(args.seniority),
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `🏷️  ShareClassAdded: ${args.name} (class ${args.classId.toString()}, token ${args.token}) at block ${log.blockNumber}${recorded ? "" : " (already indexed)"}`
+  );
 }
 
 /**
- * Handle CorporateActionRecorded event
+ * Handle Issued, Redeemed, Transfer and ComplianceSet events of a share class token
+ * Applies the deltas to the class's ledger; class events are kept out of the common
+ * transactions and shareholders tables
  */
-async function handleCorporateActionRecorded(
+async function handleShareClassTokenEvent(
+  worker: CompanyWorker,
   log: Log,
   skipStore = false
 ): Promise<void> {
-  if (!skipStore) {
-    storeEvent(log, "CorporateActionRecorded", CONTRACTS.capTable.address);
+  const shareClass = getShareClassByToken(
+    connect(),
+    worker.company.id,
+    log.address
+  );
+  // Only events after the class was registered are part of its ledger
+  if (
+    !shareClass ||
+    Number(log.blockNumber) < shareClass.blockNumber ||
+    (Number(log.blockNumber) === shareClass.blockNumber &&
+      log.logIndex! < shareClass.logIndex)
+  ) {
+    return;
   }
 
-  // Parse event
   const parsed = parseEventLogs({
-    abi: CONTRACTS.capTable.abi,
+    abi: ABIS.token,
     logs: [log],
   });
 
   if (parsed.length === 0) {
     console.warn(
-      `⚠️  Failed to parse CorporateActionRecorded event at block ${log.blockNumber}`
+      `⚠️  Failed to parse share class event at block ${log.blockNumber}`
     );
     return;
   }
 
-  const event = parsed[0];
-  const actionType = event.args.actionType as string;
-  const actionId = event.args.actionId as bigint;
-
-  // Get corporate action data from contract
-  const actionData = await withRetry(() =>
-    publicClient.readContract( {
-      address: CONTRACTS.capTable.address,
-      abi: CONTRACTS.capTable.abi,
-      functionName: "getCorporateAction",
-      args: [actionId],
-    })
-  );
+  const { eventName, args } = parsed[0]! as unknown as {
+    eventName: string;
+    args: { from?: Address; to?: Address; amount?: bigint; value?: bigint };
+  };
+  if (!skipStore) {
+    storeEvent(worker, log, `ShareClass${eventName}`, log.address);
+  }
 
-  // Store in corporate_actions table
-  const dataBytes = (actionData as any).data as `0x${string}`;
-  execute(
-    `INSERT OR IGNORE INTO corporate_actions (
-      action_type, data, block_number, block_timestamp, log_index
-    ) VALUES (?, ?, ?, ?, ?)`,
-    [
-      actionType,
-      dataBytes || null,
-      Number(log.blockNumber),
-      log.blockTimestamp || null,
-      log.logIndex,
-    ]
-  );
+  const db = connect();
+  const position = {
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  };
+
+  if (eventName === "Issued") {
+    applyShareClassBalanceChange(db, worker.company.id, shareClass.classId, {
+      ...position,
+      address: args.to!,
+      delta: args.amount!,
+      changeType: "ISSUED",
+    });
+  } else if (eventName === "Redeemed") {
+    applyShareClassBalanceChange(db, worker.company.id, shareClass.classId, {
+      ...position,
+      address: args.from!,
+      delta: -args.amount!,
+      changeType: "REDEEMED",
+    });
+  } else if (eventName === "Transfer") {
+    // Skip mints and burns (handled by the Issued and Redeemed events)
+    if (
+      args.from === "0x0000000000000000000000000000000000000000" ||
+      args.to === "0x0000000000000000000000000000000000000000"
+    ) {
+      return;
+    }
+    applyShareClassBalanceChange(db, worker.company.id, shareClass.classId, {
+      ...position,
+      address: args.from!,
+      delta: -args.value!,
+      changeType: "TRANSFER_OUT",
+    });
+    applyShareClassBalanceChange(db, worker.company.id, shareClass.classId, {
+      ...position,
+      address: args.to!,
+      delta: args.value!,
+      changeType: "TRANSFER_IN",
+    });
+  } else if (eventName === "ComplianceSet") {
+    recordComplianceSet(worker, log, (args as { compliance: Address }).compliance);
+  } else {
+    return;
+  }
 
   console.log(
-    `📋 CorporateActionRecorded: ${actionType} (ID: ${actionId.toString()}) at block ${log.blockNumber}`
+    `🏷️  ${shareClass.name} ${eventName} at block ${log.blockNumber}`
   );
 }
 
 /**
- * Process a batch of events
+ * Handle Issued event
+ * Credits the minted amount to the recipient's event-sourced balance
  */
-async function processEventBatch(logs: Log[]): Promise<void> {
-  // Sort by block number, then log index
-  const sortedLogs = [...logs].sort((a, b) => {
-    const blockDiff = Number(a.blockNumber) - Number(b.blockNumber);
-    if (blockDiff !== 0) return blockDiff;
-    return a.logIndex - b.logIndex;
-  });
+async function handleIssued(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "Issued", log.address);
+  }
 
-  // Process events in batch transaction
-  transaction((db) => {
-    for (const log of sortedLogs) {
-      // Determine event type and contract from log
-      let eventType: string | null = null;
-      let contractAddress: Address | null = null;
-
-      // Check if it's from token contract
-      if (
-        log.address?.toLowerCase() ===
-        CONTRACTS.token.address.toLowerCase()
-      ) {
-        contractAddress = CONTRACTS.token.address;
-
-        // Parse to determine event type
-        try {
-          const parsed = parseEventLogs({
-            abi: CONTRACTS.token.abi,
-            logs: [log],
-          });
+  const args = parseTokenLog<{ to: Address; amount: bigint }>(log, "Issued");
+  if (!args) {
+    return;
+  }
+
+  const { to, amount } = args;
+  const blockNumber = Number(log.blockNumber);
+  const blockTimestamp = getLogTimestamp(log);
+
+  // Store in transactions table
+  execute(
+    `INSERT OR IGNORE INTO transactions (
+      company_id, tx_hash, from_address, to_address, amount,
+      block_number, block_timestamp, log_index, event_type
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      worker.company.id,
+      log.transactionHash || "",
+      null, // Issued events have no from_address
+      to.toLowerCase(),
+      amount.toString(),
+      blockNumber,
+      blockTimestamp,
+      log.logIndex,
+      "ISSUED",
+    ]
+  );
+
+  // Apply the minted amount as a delta (skipped if this event was already applied)
+  applyBalanceChange(connect(), worker.company.id, {
+    address: to,
+    delta: amount,
+    changeType: "ISSUED",
+    blockNumber,
+    blockTimestamp,
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `✅ Issued ${amount.toString()} tokens to ${to} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle Redeemed event
+ * Debits the redeemed amount from the holder's event-sourced balance
+ */
+async function handleRedeemed(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "Redeemed", log.address);
+  }
+
+  const args = parseTokenLog<{ from: Address; amount: bigint }>(log, "Redeemed");
+  if (!args) {
+    return;
+  }
+
+  const { from, amount } = args;
+  const blockNumber = Number(log.blockNumber);
+  const blockTimestamp = getLogTimestamp(log);
+
+  // Store in transactions table
+  execute(
+    `INSERT OR IGNORE INTO transactions (
+      company_id, tx_hash, from_address, to_address, amount,
+      block_number, block_timestamp, log_index, event_type
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      worker.company.id,
+      log.transactionHash || "",
+      from.toLowerCase(),
+      null, // Redeemed events have no to_address
+      amount.toString(),
+      blockNumber,
+      blockTimestamp,
+      log.logIndex,
+      "REDEEMED",
+    ]
+  );
+
+  // Apply the redeemed amount as a negative delta (skipped if this event was already applied)
+  applyBalanceChange(connect(), worker.company.id, {
+    address: from,
+    delta: -amount,
+    changeType: "REDEEMED",
+    blockNumber,
+    blockTimestamp,
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `🔥 Redeemed ${amount.toString()} tokens from ${from} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle Transfer event
+ * Debits the sender and credits the recipient's event-sourced balances
+ */
+async function handleTransferred(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "Transfer", log.address);
+  }
+
+  const args = parseTokenLog<{ from: Address; to: Address; value: bigint }>(
+    log,
+    "Transfer"
+  );
+  if (!args) {
+    return;
+  }
+
+  const { from, to, value } = args;
+
+  // Skip mints and burns (handled by the Issued and Redeemed events)
+  if (
+    from === "0x0000000000000000000000000000000000000000" ||
+    to === "0x0000000000000000000000000000000000000000"
+  ) {
+    return;
+  }
+
+  const blockNumber = Number(log.blockNumber);
+  const blockTimestamp = getLogTimestamp(log);
+  const db = connect();
+
+  // Issuer moves are typed by their ForcedTransfer/WalletRecovered event when it was indexed
+  // first; otherwise recordForcedTransfer retypes this row when it arrives
+  const eventType =
+    (log.transactionHash &&
+      getForcedTransferType(
+        db,
+        worker.company.id,
+        log.transactionHash,
+        from,
+        to,
+        value
+      )) ||
+    "TRANSFER";
+
+  // Store in transactions table
+  execute(
+    `INSERT OR IGNORE INTO transactions (
+      company_id, tx_hash, from_address, to_address, amount,
+      block_number, block_timestamp, log_index, event_type
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      worker.company.id,
+      log.transactionHash || "",
+      from.toLowerCase(),
+      to.toLowerCase(),
+      value.toString(),
+      blockNumber,
+      blockTimestamp,
+      log.logIndex,
+      eventType,
+    ]
+  );
+
+  // Apply both legs of the transfer as deltas (no balanceOf reads)
+  const position = {
+    blockNumber,
+    blockTimestamp,
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  };
+  applyBalanceChange(db, worker.company.id, {
+    ...position,
+    address: from,
+    delta: -value,
+    changeType: "TRANSFER_OUT",
+  });
+  applyBalanceChange(db, worker.company.id, {
+    ...position,
+    address: to,
+    delta: value,
+    changeType: "TRANSFER_IN",
+  });
+
+  console.log(
+    `🔄 Transfer ${value.toString()} from ${from} to ${to} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle SplitExecuted event
+ * Records the new factor and recomputes effective balances from it (no splitFactor reads)
+ */
+async function handleSplitExecuted(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "SplitExecuted", log.address);
+  }
+
+  const args = parseTokenLog<{ oldFactor: bigint; newFactor: bigint }>(
+    log,
+    "SplitExecuted"
+  );
+  if (!args) {
+    return;
+  }
+
+  recordSplit(connect(), worker.company.id, {
+    oldFactor: args.oldFactor,
+    newFactor: args.newFactor,
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `📊 SplitExecuted: ${args.oldFactor.toString()} → ${args.newFactor.toString()} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle CorporateActionRecorded event
+ */
+async function handleCorporateActionRecorded(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "CorporateActionRecorded", worker.capTableAddress);
+  }
+
+  // Parse event
+  const parsed = parseEventLogs({
+    abi: ABIS.capTable,
+    logs: [log],
+  });
+
+  if (parsed.length === 0) {
+    console.warn(
+      `⚠️  Failed to parse CorporateActionRecorded event at block ${log.blockNumber}`
+    );
+    return;
+  }
+
+  const event = parsed[0];
+  const actionType = event.args.actionType as string;
+  const actionId = event.args.actionId as bigint;
+
+  // Get corporate action data from contract
+  const actionData = await withRetry(() =>
+    publicClient.readContract( {
+      address: worker.capTableAddress,
+      abi: ABIS.capTable,
+      functionName: "getCorporateAction",
+      args: [actionId],
+    })
+  );
+
+  // Store in corporate_actions table
+  const dataBytes = (actionData as any).data as `0x${string}`;
+  execute(
+    `INSERT OR IGNORE INTO corporate_actions (
+      company_id, action_type, data, block_number, block_timestamp, log_index
+    ) VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      worker.company.id,
+      actionType,
+      dataBytes || null,
+      Number(log.blockNumber),
+      log.blockTimestamp || null,
+      log.logIndex,
+    ]
+  );
+
+  console.log(
+    `📋 CorporateActionRecorded: ${actionType} (ID: ${actionId.toString()}) at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle Deployed event
+ * Seeds symbol and transfer restriction history with the constructor state
+ */
+async function handleDeployed(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "Deployed", log.address);
+  }
+
+  const args = parseTokenLog<{
+    name: string;
+    symbol: string;
+    totalAuthorized: bigint;
+  }>(log, "Deployed");
+  if (!args) {
+    return;
+  }
+
+  recordTokenDeployment(worker, log, log.address, args.symbol, args.totalAuthorized);
+
+  console.log(
+    `🚀 Deployed ${args.name} (${args.symbol}) with ${args.totalAuthorized.toString()} authorized at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle WalletApproved event
+ */
+async function handleWalletApproved(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "WalletApproved", log.address);
+  }
+
+  const args = parseTokenLog<{ issuer: Address; wallet: Address }>(
+    log,
+    "WalletApproved"
+  );
+  if (!args) {
+    return;
+  }
+
+  recordAllowlistChange(worker, log, args.wallet, args.issuer, true);
+  reconcileKycRequests(connect());
+
+  console.log(
+    `🟢 WalletApproved: ${args.wallet} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle WalletRevoked event
+ */
+async function handleWalletRevoked(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "WalletRevoked", log.address);
+  }
+
+  const args = parseTokenLog<{ issuer: Address; wallet: Address }>(
+    log,
+    "WalletRevoked"
+  );
+  if (!args) {
+    return;
+  }
+
+  recordAllowlistChange(worker, log, args.wallet, args.issuer, false);
+  reconcileKycRequests(connect());
+
+  console.log(
+    `🔴 WalletRevoked: ${args.wallet} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle SymbolChanged event
+ */
+async function handleSymbolChanged(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "SymbolChanged", log.address);
+  }
+
+  const args = parseTokenLog<{ oldSymbol: string; newSymbol: string }>(
+    log,
+    "SymbolChanged"
+  );
+  if (!args) {
+    return;
+  }
+
+  recordSymbol(worker, log, args.oldSymbol, args.newSymbol);
+
+  console.log(
+    `🏷️  SymbolChanged: ${args.oldSymbol} → ${args.newSymbol} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle TransfersRestrictedChanged event
+ */
+async function handleTransfersRestrictedChanged(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "TransfersRestrictedChanged", log.address);
+  }
+
+  const args = parseTokenLog<{ restricted: boolean }>(
+    log,
+    "TransfersRestrictedChanged"
+  );
+  if (!args) {
+    return;
+  }
+
+  recordTransferRestriction(worker, log, args.restricted);
+
+  console.log(
+    `🔒 TransfersRestrictedChanged: ${args.restricted} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle VestingGrantCreated event
+ * Records the grant schedule; the granted shares are credited by the Issued event emitted before it
+ */
+async function handleVestingGrantCreated(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "VestingGrantCreated", log.address);
+  }
+
+  const args = parseTokenLog<{
+    grantId: bigint;
+    beneficiary: Address;
+    amount: bigint;
+    start: bigint;
+    cliffDuration: bigint;
+    duration: bigint;
+    releaseInterval: bigint;
+  }>(log, "VestingGrantCreated");
+  if (!args) {
+    return;
+  }
+
+  recordVestingGrant(connect(), worker.company.id, {
+    tokenAddress: log.address,
+    grantId: Number(args.grantId),
+    beneficiary: args.beneficiary,
+    amount: args.amount,
+    startTime: Number(args.start),
+    cliffDuration: Number(args.cliffDuration),
+    duration: Number(args.duration),
+    releaseInterval: Number(args.releaseInterval),
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `⏳ VestingGrantCreated: grant ${args.grantId.toString()} of ${args.amount.toString()} to ${args.beneficiary} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle VestingGrantRevoked event
+ * Records the revocation; the clawed back shares are debited by the Redeemed event emitted before it
+ */
+async function handleVestingGrantRevoked(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "VestingGrantRevoked", log.address);
+  }
+
+  const args = parseTokenLog<{
+    grantId: bigint;
+    beneficiary: Address;
+    vestedAmount: bigint;
+    clawedBackAmount: bigint;
+  }>(log, "VestingGrantRevoked");
+  if (!args) {
+    return;
+  }
+
+  // Vesting stops at the revocation block's timestamp
+  const blockTimestamp = getLogTimestamp(log);
+  const revokedAt =
+    blockTimestamp ??
+    Number(
+      (
+        await withRetry(() =>
+          publicClient.getBlock({ blockNumber: log.blockNumber! })
+        )
+      ).timestamp
+    );
+
+  recordVestingRevocation(connect(), worker.company.id, {
+    tokenAddress: log.address,
+    grantId: Number(args.grantId),
+    vestedAmount: args.vestedAmount,
+    clawedBackAmount: args.clawedBackAmount,
+    revokedAt,
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp,
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `✂️  VestingGrantRevoked: grant ${args.grantId.toString()} of ${args.beneficiary}, ${args.clawedBackAmount.toString()} clawed back at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Record a lock-up change from a token log
+ */
+function recordLockup(
+  worker: CompanyWorker,
+  log: Log,
+  lockupType: "GLOBAL" | "WALLET" | "HOLDING_PERIOD",
+  wallet: Address | null,
+  value: bigint
+): void {
+  recordLockupChange(connect(), worker.company.id, {
+    tokenAddress: log.address,
+    lockupType,
+    wallet,
+    value: Number(value),
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+}
+
+/**
+ * Handle GlobalLockupSet event
+ */
+async function handleGlobalLockupSet(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "GlobalLockupSet", log.address);
+  }
+
+  const args = parseTokenLog<{ until: bigint }>(log, "GlobalLockupSet");
+  if (!args) {
+    return;
+  }
+
+  recordLockup(worker, log, "GLOBAL", null, args.until);
+
+  console.log(
+    `🔐 GlobalLockupSet: until ${args.until.toString()} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle LockupSet event (issuer lock-up or holding period started by an issuance)
+ */
+async function handleLockupSet(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "LockupSet", log.address);
+  }
+
+  const args = parseTokenLog<{ wallet: Address; until: bigint }>(
+    log,
+    "LockupSet"
+  );
+  if (!args) {
+    return;
+  }
+
+  recordLockup(worker, log, "WALLET", args.wallet, args.until);
+
+  console.log(
+    `🔐 LockupSet: ${args.wallet} until ${args.until.toString()} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Record a ForcedTransfer or WalletRecovered event at the log's position
+ */
+function recordForcedMove(
+  worker: CompanyWorker,
+  log: Log,
+  transferType: "FORCED_TRANSFER" | "WALLET_RECOVERY",
+  from: Address,
+  to: Address,
+  amount: bigint,
+  reasonCode: number
+): void {
+  recordForcedTransfer(connect(), worker.company.id, {
+    tokenAddress: log.address,
+    transferType,
+    fromAddress: from,
+    toAddress: to,
+    amount,
+    reasonCode,
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+}
+
+/**
+ * Handle ForcedTransfer event (the balance change comes from the Transfer event of the same move)
+ */
+async function handleForcedTransfer(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "ForcedTransfer", log.address);
+  }
+
+  const args = parseTokenLog<{
+    from: Address;
+    to: Address;
+    amount: bigint;
+    reasonCode: number;
+  }>(log, "ForcedTransfer");
+  if (!args) {
+    return;
+  }
+
+  recordForcedMove(
+    worker,
+    log,
+    "FORCED_TRANSFER",
+    args.from,
+    args.to,
+    args.amount,
+    Number(args.reasonCode)
+  );
+
+  console.log(
+    `⚖️  ForcedTransfer ${args.amount.toString()} from ${args.from} to ${args.to} (reason ${args.reasonCode}) at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle WalletRecovered event
+ * The balance, allowlist and lock-up changes come from their own events; approved recovery
+ * requests for the wallets are reconciled
+ */
+async function handleWalletRecovered(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "WalletRecovered", log.address);
+  }
+
+  const args = parseTokenLog<{
+    lostWallet: Address;
+    newWallet: Address;
+    amount: bigint;
+    reasonCode: number;
+  }>(log, "WalletRecovered");
+  if (!args) {
+    return;
+  }
+
+  recordForcedMove(
+    worker,
+    log,
+    "WALLET_RECOVERY",
+    args.lostWallet,
+    args.newWallet,
+    args.amount,
+    Number(args.reasonCode)
+  );
+  reconcileRecoveryRequests(connect(), worker.company.id);
+
+  console.log(
+    `🔑 WalletRecovered: ${args.lostWallet} -> ${args.newWallet} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Record a Paused or Unpaused event of the token
+ */
+function handlePauseChange(
+  worker: CompanyWorker,
+  log: Log,
+  eventName: "Paused" | "Unpaused",
+  skipStore: boolean
+): void {
+  if (!skipStore) {
+    storeEvent(worker, log, eventName, log.address);
+  }
+
+  const args = parseTokenLog<{ account: Address }>(log, eventName);
+  if (!args) {
+    return;
+  }
+
+  recordPauseChange(connect(), worker.company.id, {
+    tokenAddress: log.address,
+    paused: eventName === "Paused",
+    account: args.account,
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `⏯️  ${eventName} by ${args.account} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle Paused event
+ */
+async function handlePaused(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  handlePauseChange(worker, log, "Paused", skipStore);
+}
+
+/**
+ * Handle Unpaused event
+ */
+async function handleUnpaused(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  handlePauseChange(worker, log, "Unpaused", skipStore);
+}
+
+/**
+ * Handle AuthorizedSharesChanged event
+ */
+async function handleAuthorizedSharesChanged(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "AuthorizedSharesChanged", log.address);
+  }
+
+  const args = parseTokenLog<{ oldAuthorized: bigint; newAuthorized: bigint }>(
+    log,
+    "AuthorizedSharesChanged"
+  );
+  if (!args) {
+    return;
+  }
+
+  recordAuthorizedSharesChange(connect(), worker.company.id, {
+    tokenAddress: log.address,
+    oldAuthorized: args.oldAuthorized,
+    newAuthorized: args.newAuthorized,
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `📜 AuthorizedSharesChanged: ${args.oldAuthorized.toString()} → ${args.newAuthorized.toString()} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle AllowlistRootUpdated event
+ */
+async function handleAllowlistRootUpdated(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "AllowlistRootUpdated", log.address);
+  }
+
+  const args = parseTokenLog<{ oldRoot: string; newRoot: string }>(
+    log,
+    "AllowlistRootUpdated"
+  );
+  if (!args) {
+    return;
+  }
+
+  recordAllowlistRootUpdate(connect(), worker.company.id, {
+    tokenAddress: log.address,
+    oldRoot: args.oldRoot,
+    newRoot: args.newRoot,
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(`🌳 AllowlistRootUpdated: ${args.newRoot} at block ${log.blockNumber}`);
+}
+
+/**
+ * Record a RoleGranted or RoleRevoked event of the token or cap table and sync the account's
+ * user role
+ */
+function handleRoleChange(
+  worker: CompanyWorker,
+  log: Log,
+  eventName: "RoleGranted" | "RoleRevoked",
+  skipStore: boolean
+): void {
+  if (!skipStore) {
+    storeEvent(worker, log, eventName, log.address);
+  }
+
+  // Both contracts emit the AccessControl events, which the token ABI also describes
+  const args = parseTokenLog<{ role: Hex; account: Address; sender: Address }>(
+    log,
+    eventName
+  );
+  if (!args) {
+    return;
+  }
+
+  const db = connect();
+  recordRoleChange(db, worker.company.id, {
+    contractAddress: log.address,
+    roleHash: args.role,
+    account: args.account,
+    sender: args.sender,
+    action: eventName === "RoleGranted" ? "GRANTED" : "REVOKED",
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+
+  console.log(
+    `🎫 ${eventName}: ${args.role} ${eventName === "RoleGranted" ? "to" : "from"} ${args.account} on ${log.address} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Handle RoleGranted event
+ */
+async function handleRoleGranted(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  handleRoleChange(worker, log, "RoleGranted", skipStore);
+}
+
+/**
+ * Handle RoleRevoked event
+ */
+async function handleRoleRevoked(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  handleRoleChange(worker, log, "RoleRevoked", skipStore);
+}
+
+/**
+ * Handle HoldingPeriodSet event
+ */
+async function handleHoldingPeriodSet(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "HoldingPeriodSet", log.address);
+  }
+
+  const args = parseTokenLog<{ period: bigint }>(log, "HoldingPeriodSet");
+  if (!args) {
+    return;
+  }
+
+  recordLockup(worker, log, "HOLDING_PERIOD", null, args.period);
+
+  console.log(
+    `🔐 HoldingPeriodSet: ${args.period.toString()}s at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Record a ComplianceSet event of the active or a share class token
+ */
+function recordComplianceSet(
+  worker: CompanyWorker,
+  log: Log,
+  compliance: Address
+): void {
+  recordComplianceConfigChange(connect(), worker.company.id, {
+    tokenAddress: log.address,
+    contractAddress: log.address,
+    configType: "COMPLIANCE_SET",
+    complianceAddress:
+      compliance === "0x0000000000000000000000000000000000000000" ? null : compliance,
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  });
+}
+
+/**
+ * Handle ComplianceSet event
+ */
+async function handleComplianceSet(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  if (!skipStore) {
+    storeEvent(worker, log, "ComplianceSet", log.address);
+  }
+
+  const args = parseTokenLog<{ compliance: Address }>(log, "ComplianceSet");
+  if (!args) {
+    return;
+  }
+
+  recordComplianceSet(worker, log, args.compliance);
+
+  console.log(
+    `🛡️  ComplianceSet: ${args.compliance} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Parse a ModularCompliance or module log whose token topic is the company's active token (at the
+ * log's block) or one of its share class tokens
+ * @returns Event name and args, or null if the log is not a compliance event of the company
+ */
+function parseComplianceLog(
+  worker: CompanyWorker,
+  log: Log
+): { eventName: string; args: Record<string, unknown> & { token: Address } } | null {
+  let parsed;
+  try {
+    parsed = parseEventLogs({ abi: ABIS.compliance, logs: [log] });
+  } catch {
+    return null;
+  }
+  if (parsed.length === 0) {
+    return null;
+  }
+
+  const { eventName, args } = parsed[0]! as unknown as {
+    eventName: string;
+    args: Record<string, unknown> & { token: Address };
+  };
+  const token = args.token.toLowerCase();
+  const isCompanyToken =
+    token ===
+      getActiveTokenAddress(
+        connect(),
+        worker.company,
+        Number(log.blockNumber),
+        Number(log.logIndex)
+      ) ||
+    getShareClassByToken(connect(), worker.company.id, token) !== null;
+
+  return isCompanyToken ? { eventName, args } : null;
+}
+
+/**
+ * Decode an ISO 3166-1 alpha-2 country code from its bytes2 encoding (null for bytes2(0))
+ */
+function decodeCountry(country: `0x${string}`): string | null {
+  return hexToString(country).replace(/\0/g, "") || null;
+}
 
-          if (parsed.length > 0) {
-            eventType = parsed[0].eventName;
-          }
-        } catch (e) {
-          // Ignore parse errors, will handle below
-        }
-      }
+/**
+ * Handle a ModularCompliance (ModuleAdded, ModuleRemoved) or module configuration event
+ * Every change is recorded; services/db/compliance.ts only trusts those from the token's current
+ * compliance and its plugged-in modules
+ */
+async function handleComplianceConfigEvent(
+  worker: CompanyWorker,
+  log: Log,
+  skipStore = false
+): Promise<void> {
+  const parsed = parseComplianceLog(worker, log);
+  if (!parsed) {
+    return;
+  }
+  const { eventName, args } = parsed;
 
-      // Check if it's from capTable contract
-      if (
-        log.address?.toLowerCase() ===
-        CONTRACTS.capTable.address.toLowerCase()
-      ) {
-        contractAddress = CONTRACTS.capTable.address;
+  if (!skipStore) {
+    storeEvent(worker, log, eventName, log.address);
+  }
 
-        // Parse to determine event type
-        try {
-          const parsed = parseEventLogs({
-            abi: CONTRACTS.capTable.abi,
-            logs: [log],
-          });
+  const change: ComplianceConfigChangeInput = {
+    tokenAddress: args.token,
+    contractAddress: log.address,
+    configType: "MODULE_ADDED",
+    blockNumber: Number(log.blockNumber),
+    blockTimestamp: getLogTimestamp(log),
+    logIndex: log.logIndex!,
+    txHash: log.transactionHash || null,
+  };
+
+  switch (eventName) {
+    case "ModuleAdded":
+      change.moduleAddress = args.module as Address;
+      change.moduleName = args.moduleName as string;
+      break;
+    case "ModuleRemoved":
+      change.configType = "MODULE_REMOVED";
+      change.moduleAddress = args.module as Address;
+      break;
+    case "MaxHoldersSet":
+      change.configType = "MAX_HOLDERS";
+      change.value = Number(args.maxHolders as bigint);
+      break;
+    case "MaxOwnershipSet":
+      change.configType = "MAX_OWNERSHIP";
+      change.value = Number(args.maxOwnershipBps as bigint);
+      break;
+    case "InvestorCountrySet":
+      change.configType = "INVESTOR_COUNTRY";
+      change.wallet = args.wallet as Address;
+      change.country = decodeCountry(args.country as `0x${string}`);
+      break;
+    case "CountryRestrictionSet":
+      change.configType = "COUNTRY_RESTRICTION";
+      change.country = decodeCountry(args.country as `0x${string}`);
+      change.value = args.restricted ? 1 : 0;
+      break;
+    case "AccreditationSet":
+      change.configType = "ACCREDITATION";
+      change.wallet = args.wallet as Address;
+      change.value = args.accredited ? 1 : 0;
+      break;
+    default:
+      return;
+  }
 
-          if (parsed.length > 0) {
-            eventType = parsed[0].eventName;
-          }
-        } catch (e) {
-          // Ignore parse errors, will handle below
-        }
+  recordComplianceConfigChange(connect(), worker.company.id, change);
+
+  console.log(
+    `🛡️  ${eventName} from ${log.address} for token ${args.token} at block ${log.blockNumber}`
+  );
+}
+
+/**
+ * Determine the event name of a log from the company's active token, its CapTable or a
+ * share class token (prefixed with ShareClass, e.g. ShareClassIssued)
+ */
+function getLogEventName(worker: CompanyWorker, log: Log): string | null {
+  let eventType: string | null = null;
+
+  // Check if it's a compliance or module event for one of the company's tokens
+  const compliance = parseComplianceLog(worker, log);
+  if (compliance) {
+    eventType = compliance.eventName;
+  }
+
+  // Check if it's from a share class token
+  if (getShareClassByToken(connect(), worker.company.id, log.address)) {
+    try {
+      const parsed = parseEventLogs({
+        abi: ABIS.token,
+        logs: [log],
+      });
+      if (parsed.length > 0) {
+        eventType = `ShareClass${parsed[0]!.eventName}`;
+      }
+    } catch (e) {
+      // Ignore parse errors, will handle below
+    }
+  }
+
+  // Check if it's from the token contract active at this block
+  if (isActiveTokenLog(worker, log)) {
+    try {
+      const parsed = parseEventLogs({
+        abi: ABIS.token,
+        logs: [log],
+      });
+      if (parsed.length > 0) {
+        eventType = parsed[0].eventName;
+      }
+    } catch (e) {
+      // Ignore parse errors, will handle below
+    }
+  }
+
+  // Check if it's from capTable contract
+  if (log.address?.toLowerCase() === worker.capTableAddress.toLowerCase()) {
+    try {
+      const parsed = parseEventLogs({
+        abi: ABIS.capTable,
+        logs: [log],
+      });
+      if (parsed.length > 0) {
+        eventType = parsed[0].eventName;
       }
+    } catch (e) {
+      // Ignore parse errors, will handle below
+    }
+  }
+
+  return eventType;
+}
+
+/**
+ * Process a batch of events
+ */
+async function processEventBatch(
+  worker: CompanyWorker,
+  logs: Log[]
+): Promise<void> {
+  // Sort by block number, then log index
+  const sortedLogs = [...logs].sort((a, b) => {
+    const blockDiff = Number(a.blockNumber) - Number(b.blockNumber);
+    if (blockDiff !== 0) return blockDiff;
+    return a.logIndex - b.logIndex;
+  });
+
+  // Process events in batch transaction
+  transaction((db) => {
+    for (const log of sortedLogs) {
+      const eventType = getLogEventName(worker, log);
 
-      if (!eventType || !contractAddress) {
+      if (!eventType) {
         console.warn(
           `⚠️  Unknown event at block ${log.blockNumber}, logIndex ${log.logIndex}`
         );
@@ -486,13 +1956,14 @@ async function processEventBatch(logs: Log[]): Promise<void> {
       const topicsJson = JSON.stringify(log.topics);
       const stmt = db.prepare(
         `INSERT OR IGNORE INTO events (
-          event_type, contract_address, topics, data,
+          company_id, event_type, contract_address, topics, data,
           block_number, log_index, block_timestamp, tx_hash
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
       );
       stmt.run(
+        worker.company.id,
         eventType,
-        contractAddress,
+        log.address,
         topicsJson,
         log.data || null,
         Number(log.blockNumber),
@@ -500,254 +1971,838 @@ async function processEventBatch(logs: Log[]): Promise<void> {
         log.blockTimestamp || null,
         log.transactionHash || null
       );
+      trackLogBlock(worker, db, log);
+
+    }
+  });
+
+  // Process async handlers after transaction (skip storing events since already stored)
+  for (const log of sortedLogs) {
+    const eventType = getLogEventName(worker, log);
+
+    if (eventType) {
+      const handler = handlers[eventType];
+      if (handler) {
+        try {
+          // Pass skipStore=true since we already stored the event in the transaction above
+          await handler(worker, log, true);
+        } catch (error) {
+          console.error(
+            `❌ Error processing ${eventType} event at block ${log.blockNumber}:`,
+            error
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Bounds of a token segment inside its first and last blocks, at TokenReplaced logs
+ */
+interface SegmentBounds {
+  afterLogIndex?: number; // Logs in fromBlock up to this index belong to the previous segment
+  throughLogIndex?: number; // Logs in toBlock after this index belong to the next segment
+}
+
+/**
+ * Scan a block range in which a single token is active
+ */
+async function scanTokenSegment(
+  worker: CompanyWorker,
+  fromBlock: bigint,
+  toBlock: bigint,
+  tokenAddress: Address,
+  bounds: SegmentBounds = {}
+): Promise<void> {
+  console.log(
+    `🔍 Scanning ${worker.company.name} blocks ${fromBlock} to ${toBlock} (token ${tokenAddress})`
+  );
+
+  const inSegment = (log: Log): boolean =>
+    !(
+      (bounds.afterLogIndex !== undefined &&
+        log.blockNumber === fromBlock &&
+        log.logIndex! <= bounds.afterLogIndex) ||
+      (bounds.throughLogIndex !== undefined &&
+        log.blockNumber === toBlock &&
+        log.logIndex! > bounds.throughLogIndex)
+    );
+  const allLogs: Log[] = [];
+
+  // Register share classes added in the range first, so their tokens' events are fetched
+  // below and recognised when processed (class tokens have no events before registration)
+  const shareClassLogs = await withRetry(() =>
+    publicClient.getLogs({
+      address: worker.capTableAddress,
+      event: ABIS.capTable.find(
+        (item) => item.type === "event" && item.name === "ShareClassAdded"
+      ) as AbiEvent,
+      fromBlock,
+      toBlock,
+    })
+  );
+  const segmentShareClassLogs = (shareClassLogs as Log[]).filter(inSegment);
+  if (segmentShareClassLogs.length > 0) {
+    await processEventBatch(worker, segmentShareClassLogs);
+  }
+  const shareClassTokens = getShareClasses(
+    connect(),
+    worker.company.id,
+    Number(toBlock)
+  ).map((shareClass) => shareClass.tokenAddress as Address);
+
+  // Get logs for each event type using getLogs
+  const eventConfigs: {
+    address: Address | Address[] | undefined;
+    args?: { token: Address[] };
+    abi: typeof ABIS.token;
+    eventName: string;
+  }[] = [
+    // Token events
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "Issued",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "Redeemed",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "Transfer",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "SplitExecuted",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "Deployed",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "WalletApproved",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "WalletRevoked",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "SymbolChanged",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "TransfersRestrictedChanged",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "VestingGrantCreated",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "VestingGrantRevoked",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "GlobalLockupSet",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "LockupSet",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "HoldingPeriodSet",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "ComplianceSet",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "ForcedTransfer",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "WalletRecovered",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "Paused",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "Unpaused",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "AuthorizedSharesChanged",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "AllowlistRootUpdated",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "RoleGranted",
+    },
+    {
+      address: tokenAddress,
+      abi: ABIS.token,
+      eventName: "RoleRevoked",
+    },
+    // Compliance and module events of the company's tokens, from any emitter
+    ...COMPLIANCE_EVENTS.map((eventName) => ({
+      address: undefined,
+      args: { token: [tokenAddress, ...shareClassTokens] },
+      abi: ABIS.compliance,
+      eventName,
+    })),
+    // CapTable events
+    {
+      address: worker.capTableAddress,
+      abi: ABIS.capTable,
+      eventName: "TokenLinked",
+    },
+    {
+      address: worker.capTableAddress,
+      abi: ABIS.capTable,
+      eventName: "TokenReplaced",
+    },
+    {
+      address: worker.capTableAddress,
+      abi: ABIS.capTable,
+      eventName: "CorporateActionRecorded",
+    },
+    {
+      address: worker.capTableAddress,
+      abi: ABIS.capTable,
+      eventName: "RoleGranted",
+    },
+    {
+      address: worker.capTableAddress,
+      abi: ABIS.capTable,
+      eventName: "RoleRevoked",
+    },
+    // Share class token events
+    ...(shareClassTokens.length > 0
+      ? SHARE_CLASS_TOKEN_EVENTS.map((eventName) => ({
+          address: shareClassTokens,
+          abi: ABIS.token,
+          eventName,
+        }))
+      : []),
+  ];
+
+  // Get logs for each event type
+  for (const config of eventConfigs) {
+    try {
+      const logs = await withRetry(() =>
+        publicClient.getLogs({
+          address: config.address,
+          event: config.abi.find(
+            (item) => item.type === "event" && item.name === config.eventName
+          ) as AbiEvent,
+          args: config.args,
+          fromBlock,
+          toBlock,
+        })
+      );
+      allLogs.push(...(logs as Log[]).filter(inSegment));
+    } catch (error) {
+      console.error(
+        `❌ Error getting logs for ${config.eventName}:`,
+        error
+      );
+    }
+  }
+
+  // Sort across event types so balance deltas and splits are applied in chain order
+  allLogs.sort((a, b) => {
+    const blockDiff = Number(a.blockNumber) - Number(b.blockNumber);
+    if (blockDiff !== 0) return blockDiff;
+    return (a.logIndex ?? 0) - (b.logIndex ?? 0);
+  });
+
+  // Process logs in batches
+  for (let i = 0; i < allLogs.length; i += BATCH_SIZE) {
+    const batch = allLogs.slice(i, i + BATCH_SIZE);
+    await processEventBatch(worker, batch);
+    console.log(
+      `✅ Processed batch ${Math.floor(i / BATCH_SIZE) + 1} (${batch.length} events)`
+    );
+  }
+
+  console.log(
+    `✅ Scanned ${allLogs.length} events from blocks ${fromBlock} to ${toBlock}`
+  );
+}
+
+/**
+ * Scan block range for a company's events
+ * The range is split at every TokenReplaced event: the replaced token is scanned up to and
+ * including the TokenReplaced log, the replacement from the next log of the same block on
+ */
+async function scanBlockRange(
+  worker: CompanyWorker,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<void> {
+  let segmentStart = fromBlock;
+  let afterLogIndex: number | undefined;
+
+  while (segmentStart <= toBlock) {
+    const tokenAddress = getActiveTokenAddress(
+      connect(),
+      worker.company,
+      Number(segmentStart),
+      afterLogIndex !== undefined ? afterLogIndex + 1 : undefined
+    ) as Address;
+
+    const replacements = await withRetry(() =>
+      publicClient.getLogs({
+        address: worker.capTableAddress,
+        event: ABIS.capTable.find(
+          (item) => item.type === "event" && item.name === "TokenReplaced"
+        ) as AbiEvent,
+        fromBlock: segmentStart,
+        toBlock,
+      })
+    );
+    const next = replacements.find(
+      (log) =>
+        afterLogIndex === undefined ||
+        log.blockNumber! > segmentStart ||
+        log.logIndex! > afterLogIndex
+    );
+
+    if (!next) {
+      await scanTokenSegment(worker, segmentStart, toBlock, tokenAddress, {
+        afterLogIndex,
+      });
+      return;
+    }
+
+    // Processing the segment indexes its TokenReplaced event, which activates the replacement
+    await scanTokenSegment(worker, segmentStart, next.blockNumber!, tokenAddress, {
+      afterLogIndex,
+      throughLogIndex: next.logIndex!,
+    });
+    segmentStart = next.blockNumber!;
+    afterLogIndex = next.logIndex!;
+  }
+}
+
+/**
+ * Get a block hash from the chain (null if the block does not exist, e.g. after a revert)
+ */
+async function getChainBlockHash(blockNumber: number): Promise<string | null> {
+  try {
+    const block = await withRetry(() =>
+      publicClient.getBlock({ blockNumber: BigInt(blockNumber) })
+    );
+    return block.hash ? block.hash.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the last block shared by the company's indexed chain and the canonical chain
+ * Walks tracked blocks downwards from `fromBlock` until a stored hash matches the chain
+ * @returns Fork block number (rows above it must be rolled back)
+ */
+async function findForkPoint(
+  worker: CompanyWorker,
+  fromBlock: number
+): Promise<number> {
+  const tracked = getIndexedBlocksBefore(
+    connect(),
+    worker.company.id,
+    fromBlock,
+    MAX_REORG_DEPTH
+  );
+
+  for (const block of tracked) {
+    if ((await getChainBlockHash(block.blockNumber)) === block.blockHash) {
+      return block.blockNumber;
+    }
+  }
+
+  // No tracked block matched: the reorg is deeper than what is tracked, so roll back
+  // everything below the oldest mismatching block
+  const oldest = tracked[tracked.length - 1];
+  const forkBlock = oldest ? oldest.blockNumber - 1 : fromBlock;
+  console.warn(
+    `⚠️  Reorg deeper than ${tracked.length} tracked blocks, rolling back to block ${forkBlock}`
+  );
+  return Math.max(forkBlock, START_BLOCK - 1);
+}
+
+/**
+ * Roll back a company's indexed data above a fork point and replay up to a block
+ */
+async function handleReorg(
+  worker: CompanyWorker,
+  forkBlock: number,
+  replayToBlock: number
+): Promise<void> {
+  console.warn(
+    `🔀 Chain reorganization detected, rolling back ${worker.company.name} to block ${forkBlock}`
+  );
+
+  const db = connect();
+  const result = rollbackToBlock(db, worker.company.id, forkBlock);
+  const deletedRows = Object.values(result.deleted).reduce((sum, n) => sum + n, 0);
+  console.warn(
+    `↩️  Rolled back ${deletedRows} rows above block ${forkBlock}, rebuilt ${result.shareholders} shareholders`
+  );
+
+  if (getLastIndexedBlock(worker) > forkBlock) {
+    setLastIndexedBlock(worker, forkBlock);
+  }
+
+  recordReorg(db, worker.company.id, {
+    forkBlock,
+    replayToBlock,
+    deleted: result.deleted,
+    detectedAt: new Date().toISOString(),
+  });
+
+  if (replayToBlock > forkBlock) {
+    await scanBlockRange(worker, BigInt(forkBlock + 1), BigInt(replayToBlock));
+  }
+
+  // A rolled back (or replayed) TokenReplaced or ShareClassAdded event changes which tokens
+  // are watched
+  await syncTokenWatchers(worker);
+  await syncShareClassWatchers(worker);
+
+  console.log(`✅ Replayed blocks ${forkBlock + 1} to ${replayToBlock} after reorg`);
+}
+
+/**
+ * Handle a new chain head for a company
+ * Detects reorgs by comparing the head (and its parent hash) with tracked block hashes
+ */
+async function handleNewHead(
+  worker: CompanyWorker,
+  block: {
+    number: bigint | null;
+    hash: string | null;
+    parentHash: string;
+    timestamp: bigint;
+  }
+): Promise<void> {
+  if (block.number === null || block.hash === null) {
+    return;
+  }
 
-    }
+  const db = connect();
+  const companyId = worker.company.id;
+  const blockNumber = Number(block.number);
+  const stored = getIndexedBlock(db, companyId, blockNumber);
+  const parent = getIndexedBlock(db, companyId, blockNumber - 1);
+
+  const headReplaced =
+    stored !== null && stored.blockHash !== block.hash.toLowerCase();
+  const parentReplaced =
+    parent !== null && parent.blockHash !== block.parentHash.toLowerCase();
+
+  if (headReplaced || parentReplaced) {
+    const forkBlock = await findForkPoint(worker, blockNumber - 1);
+    await handleReorg(worker, forkBlock, blockNumber);
+  }
+
+  recordBlock(db, companyId, {
+    blockNumber,
+    blockHash: block.hash,
+    parentHash: block.parentHash,
+    blockTimestamp: Number(block.timestamp),
   });
+  pruneIndexedBlocks(db, companyId, blockNumber - MAX_REORG_DEPTH);
+}
 
-  // Process async handlers after transaction (skip storing events since already stored)
-  for (const log of sortedLogs) {
-    let eventType: string | null = null;
+/**
+ * Check the company's latest tracked block against the chain before catching up
+ * Covers reorgs (or node resets such as evm_revert) that happened while the indexer was stopped
+ */
+async function checkForReorgOnStartup(worker: CompanyWorker): Promise<void> {
+  const latest = getLatestIndexedBlock(connect(), worker.company.id);
+  if (!latest) {
+    return;
+  }
 
-    // Determine event type
-    if (
-      log.address?.toLowerCase() ===
-      CONTRACTS.token.address.toLowerCase()
-    ) {
-      try {
-        const parsed = parseEventLogs({
-          abi: CONTRACTS.token.abi,
-          logs: [log],
-        });
-        if (parsed.length > 0) {
-          eventType = parsed[0].eventName;
-        }
-      } catch (e) {
-        // Ignore
-      }
-    }
+  if ((await getChainBlockHash(latest.blockNumber)) === latest.blockHash) {
+    return;
+  }
 
-    if (
-      log.address?.toLowerCase() ===
-      CONTRACTS.capTable.address.toLowerCase()
-    ) {
-      try {
-        const parsed = parseEventLogs({
-          abi: CONTRACTS.capTable.abi,
-          logs: [log],
-        });
-        if (parsed.length > 0) {
-          eventType = parsed[0].eventName;
+  const forkBlock = await findForkPoint(worker, latest.blockNumber);
+  // Catch-up scanning replays the range, so nothing is replayed here
+  await handleReorg(worker, forkBlock, forkBlock);
+}
+
+/**
+ * Start watchers on the company's active token
+ * Logs are checked against the token active at their block, so a replaced token's logs
+ * delivered while its watchers are being stopped are ignored
+ */
+function startTokenWatchers(worker: CompanyWorker): void {
+  const address = getActiveTokenAddress(connect(), worker.company) as Address;
+
+  // Deployed is emitted once from the constructor, so it is only picked up by block scans
+  const tokenEvents: [
+    string,
+    (worker: CompanyWorker, log: Log) => Promise<void>,
+  ][] = [
+    ["Issued", handleIssued],
+    ["Redeemed", handleRedeemed],
+    ["Transfer", handleTransferred],
+    ["SplitExecuted", handleSplitExecuted],
+    ["WalletApproved", handleWalletApproved],
+    ["WalletRevoked", handleWalletRevoked],
+    ["SymbolChanged", handleSymbolChanged],
+    ["TransfersRestrictedChanged", handleTransfersRestrictedChanged],
+    ["VestingGrantCreated", handleVestingGrantCreated],
+    ["VestingGrantRevoked", handleVestingGrantRevoked],
+    ["GlobalLockupSet", handleGlobalLockupSet],
+    ["LockupSet", handleLockupSet],
+    ["HoldingPeriodSet", handleHoldingPeriodSet],
+    ["ComplianceSet", handleComplianceSet],
+    ["ForcedTransfer", handleForcedTransfer],
+    ["WalletRecovered", handleWalletRecovered],
+    ["Paused", handlePaused],
+    ["Unpaused", handleUnpaused],
+    ["AuthorizedSharesChanged", handleAuthorizedSharesChanged],
+    ["AllowlistRootUpdated", handleAllowlistRootUpdated],
+    ["RoleGranted", handleRoleGranted],
+    ["RoleRevoked", handleRoleRevoked],
+  ];
+
+  worker.tokenWatchers = tokenEvents.map(([eventName, handler]) =>
+    publicClient.watchContractEvent({
+      address,
+      abi: ABIS.token,
+      eventName,
+      onLogs: async (logs) => {
+        const indexable = activeLogs(logs as Log[]).filter((log) =>
+          isActiveTokenLog(worker, log)
+        );
+        for (const log of indexable) {
+          await handler(worker, log);
         }
-      } catch (e) {
-        // Ignore
-      }
-    }
+      },
+    })
+  );
+  worker.tokenWatchers.push(...watchComplianceEvents(worker, [address]));
+  worker.watchedTokenAddress = address.toLowerCase();
 
-    if (eventType) {
-      const handler = handlers[eventType];
-      if (handler) {
-        try {
-          // Pass skipStore=true since we already stored the event in the transaction above
-          await handler(log, true);
-        } catch (error) {
-          console.error(
-            `❌ Error processing ${eventType} event at block ${log.blockNumber}:`,
-            error
-          );
+  console.log(`👀 Watching ${worker.company.name} token ${address}`);
+}
+
+/**
+ * Watch compliance and module events whose token topic is one of the given tokens
+ * @returns Unwatch functions
+ */
+function watchComplianceEvents(
+  worker: CompanyWorker,
+  tokens: Address[]
+): (() => void)[] {
+  return COMPLIANCE_EVENTS.map((eventName) =>
+    publicClient.watchContractEvent({
+      abi: ABIS.compliance,
+      eventName,
+      args: { token: tokens },
+      onLogs: async (logs) => {
+        for (const log of activeLogs(logs as Log[])) {
+          await handleComplianceConfigEvent(worker, log);
         }
-      }
-    }
+      },
+    })
+  );
+}
+
+/**
+ * Stop watchers on the company's active token
+ */
+function stopTokenWatchers(worker: CompanyWorker): void {
+  for (const unwatch of worker.tokenWatchers) {
+    unwatch();
   }
+  worker.tokenWatchers = [];
+  worker.watchedTokenAddress = null;
 }
 
 /**
- * Scan block range for events
+ * Point the company's token watchers at the active token after a replacement or reorg
+ * @param catchUpFrom Optional block to scan from up to the head before the new watchers start,
+ *        so replacement token events emitted before the switch (including those in the
+ *        TokenReplaced block itself) are not missed
  */
-async function scanBlockRange(
-  fromBlock: bigint,
-  toBlock: bigint
+async function syncTokenWatchers(
+  worker: CompanyWorker,
+  catchUpFrom?: number
 ): Promise<void> {
-  console.log(`🔍 Scanning blocks ${fromBlock} to ${toBlock}`);
-
-  const allLogs: Log[] = [];
+  const active = getActiveTokenAddress(connect(), worker.company);
+  if (
+    !isRunning ||
+    worker.watchedTokenAddress === null ||
+    worker.watchedTokenAddress === active
+  ) {
+    return;
+  }
 
-  // Get logs for each event type using getLogs
-  const eventConfigs = [
-    // Token events
-    {
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
-      eventName: "Issued",
-    },
-    {
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
-      eventName: "Transfer",
-    },
-    {
-      address: CONTRACTS.token.address,
-      abi: CONTRACTS.token.abi,
-      eventName: "SplitExecuted",
-    },
-    // CapTable events
-    {
-      address: CONTRACTS.capTable.address,
-      abi: CONTRACTS.capTable.abi,
-      eventName: "TokenLinked",
-    },
-    {
-      address: CONTRACTS.capTable.address,
-      abi: CONTRACTS.capTable.abi,
-      eventName: "CorporateActionRecorded",
-    },
-  ];
+  console.log(
+    `🔁 Switching ${worker.company.name} token watchers from ${worker.watchedTokenAddress} to ${active}`
+  );
+  stopTokenWatchers(worker);
 
-  // Get logs for each event type
-  for (const config of eventConfigs) {
-    try {
-      const logs = await withRetry(() =>
-        publicClient.getLogs({
-          address: config.address,
-          event: config.abi.find(
-            (item) => item.type === "event" && item.name === config.eventName
-          ) as AbiEvent,
-          fromBlock,
-          toBlock,
-        })
-      );
-      allLogs.push(...(logs as Log[]));
-    } catch (error) {
-      console.error(
-        `❌ Error getting logs for ${config.eventName}:`,
-        error
-      );
+  if (catchUpFrom !== undefined) {
+    const head = await withRetry(() => publicClient.getBlockNumber());
+    if (BigInt(catchUpFrom) <= head) {
+      await scanBlockRange(worker, BigInt(catchUpFrom), head);
     }
   }
 
-  // Process logs in batches
-  for (let i = 0; i < allLogs.length; i += BATCH_SIZE) {
-    const batch = allLogs.slice(i, i + BATCH_SIZE);
-    await processEventBatch(batch);
-    console.log(
-      `✅ Processed batch ${Math.floor(i / BATCH_SIZE) + 1} (${batch.length} events)`
-    );
+  startTokenWatchers(worker);
+}
+
+/**
+ * Start watchers on the company's share class tokens
+ */
+function startShareClassWatchers(worker: CompanyWorker): void {
+  const addresses = getShareClasses(connect(), worker.company.id).map(
+    (shareClass) => shareClass.tokenAddress as Address
+  );
+  worker.watchedShareClassTokens = addresses;
+  if (addresses.length === 0) {
+    return;
   }
 
+  worker.shareClassWatchers = [
+    ...SHARE_CLASS_TOKEN_EVENTS.map((eventName) =>
+      publicClient.watchContractEvent({
+        address: addresses,
+        abi: ABIS.token,
+        eventName,
+        onLogs: async (logs) => {
+          for (const log of activeLogs(logs as Log[])) {
+            await handleShareClassTokenEvent(worker, log);
+          }
+        },
+      })
+    ),
+    ...watchComplianceEvents(worker, addresses),
+  ];
+
   console.log(
-    `✅ Scanned ${allLogs.length} events from blocks ${fromBlock} to ${toBlock}`
+    `👀 Watching ${worker.company.name} share class tokens ${addresses.join(", ")}`
+  );
+}
+
+/**
+ * Stop watchers on the company's share class tokens
+ */
+function stopShareClassWatchers(worker: CompanyWorker): void {
+  for (const unwatch of worker.shareClassWatchers) {
+    unwatch();
+  }
+  worker.shareClassWatchers = [];
+  worker.watchedShareClassTokens = null;
+}
+
+/**
+ * Point the company's share class watchers at the registered class tokens after a class is
+ * added or rolled back
+ * @param catchUpFrom Optional block to scan from up to the head before the new watchers start,
+ *        so class token events emitted before the watchers restart are not missed
+ */
+async function syncShareClassWatchers(
+  worker: CompanyWorker,
+  catchUpFrom?: number
+): Promise<void> {
+  const registered = getShareClasses(connect(), worker.company.id).map(
+    (shareClass) => shareClass.tokenAddress
   );
+  if (
+    !isRunning ||
+    worker.watchedShareClassTokens === null ||
+    worker.watchedShareClassTokens.join() === registered.join()
+  ) {
+    return;
+  }
+
+  stopShareClassWatchers(worker);
+
+  if (catchUpFrom !== undefined) {
+    const head = await withRetry(() => publicClient.getBlockNumber());
+    if (BigInt(catchUpFrom) <= head) {
+      await scanBlockRange(worker, BigInt(catchUpFrom), head);
+    }
+  }
+
+  startShareClassWatchers(worker);
 }
 
 /**
- * Start event watchers
+ * Start a company's event watchers
  */
-function startWatchers(): void {
-  console.log("👀 Starting event watchers...");
+function startWatchers(worker: CompanyWorker): void {
+  console.log(`👀 Starting ${worker.company.name} event watchers...`);
 
   // Watch TokenLinked events
   const unwatchTokenLinked = publicClient.watchContractEvent({
-    address: CONTRACTS.capTable.address,
-    abi: CONTRACTS.capTable.abi,
+    address: worker.capTableAddress,
+    abi: ABIS.capTable,
     eventName: "TokenLinked",
     onLogs: async (logs) => {
-      for (const log of logs) {
-        await handleTokenLinked(log);
-      }
-    },
-  });
-
-  // Watch Issued events
-  const unwatchIssued = publicClient.watchContractEvent({
-    address: CONTRACTS.token.address,
-    abi: CONTRACTS.token.abi,
-    eventName: "Issued",
-    onLogs: async (logs) => {
-      for (const log of logs) {
-        await handleIssued(log);
+      for (const log of activeLogs(logs)) {
+        await handleTokenLinked(worker, log);
       }
     },
   });
 
-  // Watch Transfer events
-  const unwatchTransferred = publicClient.watchContractEvent({
-    address: CONTRACTS.token.address,
-    abi: CONTRACTS.token.abi,
-    eventName: "Transfer",
+  // Watch TokenReplaced events and move the token watchers to the replacement
+  const unwatchTokenReplaced = publicClient.watchContractEvent({
+    address: worker.capTableAddress,
+    abi: ABIS.capTable,
+    eventName: "TokenReplaced",
     onLogs: async (logs) => {
-      for (const log of logs) {
-        await handleTransferred(log);
+      for (const log of activeLogs(logs)) {
+        await handleTokenReplaced(worker, log);
+        await syncTokenWatchers(worker, Number(log.blockNumber));
       }
     },
   });
 
-  // Watch SplitExecuted events
-  const unwatchSplitExecuted = publicClient.watchContractEvent({
-    address: CONTRACTS.token.address,
-    abi: CONTRACTS.token.abi,
-    eventName: "SplitExecuted",
+  // Watch ShareClassAdded events and add the new class token to the share class watchers
+  const unwatchShareClassAdded = publicClient.watchContractEvent({
+    address: worker.capTableAddress,
+    abi: ABIS.capTable,
+    eventName: "ShareClassAdded",
     onLogs: async (logs) => {
-      for (const log of logs) {
-        await handleSplitExecuted(log);
+      for (const log of activeLogs(logs)) {
+        await handleShareClassAdded(worker, log);
+        await syncShareClassWatchers(worker, Number(log.blockNumber));
       }
     },
   });
 
   // Watch CorporateActionRecorded events
   const unwatchCorporateActionRecorded = publicClient.watchContractEvent({
-    address: CONTRACTS.capTable.address,
-    abi: CONTRACTS.capTable.abi,
+    address: worker.capTableAddress,
+    abi: ABIS.capTable,
     eventName: "CorporateActionRecorded",
     onLogs: async (logs) => {
-      for (const log of logs) {
-        await handleCorporateActionRecorded(log);
+      for (const log of activeLogs(logs)) {
+        await handleCorporateActionRecorded(worker, log);
       }
     },
   });
 
-  watchers = [
+  // Watch role grants and revocations of the cap table (the token's are in its watchers)
+  const unwatchCapTableRoles = (
+    [
+      ["RoleGranted", handleRoleGranted],
+      ["RoleRevoked", handleRoleRevoked],
+    ] as const
+  ).map(([eventName, handler]) =>
+    publicClient.watchContractEvent({
+      address: worker.capTableAddress,
+      abi: ABIS.capTable,
+      eventName,
+      onLogs: async (logs) => {
+        for (const log of activeLogs(logs as Log[])) {
+          await handler(worker, log);
+        }
+      },
+    })
+  );
+
+  // Watch Issued, Transfer, SplitExecuted, allowlist and other token events
+  startTokenWatchers(worker);
+  startShareClassWatchers(worker);
+
+  // Watch new heads for reorg detection
+  const unwatchBlocks = publicClient.watchBlocks({
+    emitMissed: true,
+    onBlock: (block) => {
+      worker.headQueue = worker.headQueue
+        .then(() => handleNewHead(worker, block))
+        .catch((error) => {
+          console.error(`❌ Error handling block ${block.number}:`, error);
+        });
+    },
+  });
+
+  worker.watchers = [
     unwatchTokenLinked,
-    unwatchIssued,
-    unwatchTransferred,
-    unwatchSplitExecuted,
+    unwatchTokenReplaced,
+    unwatchShareClassAdded,
     unwatchCorporateActionRecorded,
+    ...unwatchCapTableRoles,
+    unwatchBlocks,
   ];
 
-  console.log("✅ Event watchers started");
+  console.log(`✅ ${worker.company.name} event watchers started`);
 }
 
 /**
- * Stop event watchers
+ * Stop a company's event watchers
  */
-function stopWatchers(): void {
-  console.log("🛑 Stopping event watchers...");
-  for (const unwatch of watchers) {
+function stopWatchers(worker: CompanyWorker): void {
+  console.log(`🛑 Stopping ${worker.company.name} event watchers...`);
+  stopTokenWatchers(worker);
+  stopShareClassWatchers(worker);
+  for (const unwatch of worker.watchers) {
     unwatch();
   }
-  watchers = [];
-  console.log("✅ Event watchers stopped");
+  worker.watchers = [];
+  console.log(`✅ ${worker.company.name} event watchers stopped`);
 }
 
 /**
- * Start the indexer
+ * Catch a company up to the safe block and start its watchers
+ * @param catchUpTo Last block to catch up to instead of the safe block; used for companies
+ *        discovered live, whose creation block is not confirmed yet
  */
-export async function start(): Promise<void> {
-  if (isRunning) {
-    console.warn("⚠️  Indexer is already running");
-    return;
-  }
-
-  console.log("🚀 Starting event indexer...");
-  isRunning = true;
-
-  // Initialize public client
-  publicClient = getPublicClient();
+async function startWorker(
+  company: CompanyRecord,
+  catchUpTo?: bigint
+): Promise<void> {
+  const worker = createWorker(company);
+  workers.set(company.id, worker);
 
-  // Set indexer version
-  setIndexerVersion("1.0.0");
+  // Roll back anything invalidated by a reorg while the indexer was stopped
+  await checkForReorgOnStartup(worker);
 
   // Get last indexed block
-  const lastIndexedBlock = getLastIndexedBlock();
-  console.log(`📊 Last indexed block: ${lastIndexedBlock}`);
+  const lastIndexedBlock = getLastIndexedBlock(worker);
+  console.log(`📊 ${company.name} last indexed block: ${lastIndexedBlock}`);
 
   // Get current block and calculate safe block
   const currentBlock = await withRetry(() =>
@@ -758,19 +2813,26 @@ export async function start(): Promise<void> {
   console.log(`📦 Current block: ${currentBlock}, Safe block: ${safeBlock}`);
 
   // Scan from last indexed block + 1 to safe block
-  if (lastIndexedBlock < Number(safeBlock)) {
+  const catchUpBlock = catchUpTo ?? safeBlock;
+  if (lastIndexedBlock < Number(catchUpBlock)) {
     const fromBlock = BigInt(lastIndexedBlock + 1);
-    const toBlock = safeBlock;
+    const toBlock = catchUpBlock;
 
     if (fromBlock <= toBlock) {
-      console.log(`🔍 Catching up from block ${fromBlock} to ${toBlock}`);
-      await scanBlockRange(fromBlock, toBlock);
-      setLastIndexedBlock(Number(toBlock));
+      console.log(`🔍 Catching up ${company.name} from block ${fromBlock} to ${toBlock}`);
+      await scanBlockRange(worker, fromBlock, toBlock);
+      setLastIndexedBlock(worker, Number(toBlock));
+      checkpointSnapshots(worker, Number(toBlock));
     }
   }
 
+  // The indexer may have been stopped while catching up
+  if (!isRunning || workers.get(company.id) !== worker) {
+    return;
+  }
+
   // Start real-time watchers
-  startWatchers();
+  startWatchers(worker);
 
   // Periodically update last indexed block (every 10 seconds)
   const updateInterval = setInterval(async () => {
@@ -781,9 +2843,10 @@ export async function start(): Promise<void> {
       const safeBlock = currentBlock - BigInt(CONFIRMATION_BLOCKS);
 
       // Update last indexed block if we've progressed
-      const lastIndexed = getLastIndexedBlock();
+      const lastIndexed = getLastIndexedBlock(worker);
       if (Number(safeBlock) > lastIndexed) {
-        setLastIndexedBlock(Number(safeBlock));
+        setLastIndexedBlock(worker, Number(safeBlock));
+        checkpointSnapshots(worker, Number(safeBlock));
       }
     } catch (error) {
       console.error("❌ Error updating last indexed block:", error);
@@ -791,13 +2854,167 @@ export async function start(): Promise<void> {
   }, 10000); // Every 10 seconds
 
   // Store interval cleanup in watchers array (will be cleared on stop)
-  watchers.push(() => clearInterval(updateInterval));
+  worker.watchers.push(() => clearInterval(updateInterval));
+}
+
+/**
+ * Get the last block scanned for CapTableFactory CompanyCreated events
+ */
+function getFactoryLastIndexedBlock(): number {
+  const row = queryOne<{ value: string }>(
+    "SELECT value FROM meta WHERE key = ?",
+    [FACTORY_BLOCK_KEY]
+  );
+  return row ? Number(row.value) : START_BLOCK - 1;
+}
+
+/**
+ * Set the last block scanned for CapTableFactory CompanyCreated events
+ */
+function setFactoryLastIndexedBlock(blockNumber: number): void {
+  execute(
+    `INSERT INTO meta (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = ?`,
+    [FACTORY_BLOCK_KEY, String(blockNumber), String(blockNumber)]
+  );
+}
+
+/**
+ * Register the company announced by a CapTableFactory CompanyCreated log
+ * Indexing starts at the creation block, which holds the token's Deployed and the
+ * CapTable's TokenLinked events
+ * @returns The new company, or null if the CapTable was already registered
+ */
+function registerCreatedCompany(log: Log): CompanyRecord | null {
+  const parsed = parseEventLogs({
+    abi: ABIS.factory,
+    logs: [log],
+    eventName: "CompanyCreated",
+  })[0] as
+    | { args: { capTable: Address; token: Address; name: string } }
+    | undefined;
+  if (!parsed) {
+    return null;
+  }
+
+  const db = connect();
+  const { capTable, token, name } = parsed.args;
+  if (getCompanyByCapTable(db, CHAIN_ID, capTable)) {
+    return null;
+  }
 
-  console.log("✅ Event indexer started");
+  const company = registerCompany(db, {
+    name,
+    chainId: CHAIN_ID,
+    capTableAddress: capTable,
+    tokenAddress: token,
+    startBlock: Number(log.blockNumber),
+  });
+  console.log(
+    `🏢 Discovered company ${company.name} (id ${company.id}) at block ${log.blockNumber}`
+  );
+  return company;
+}
+
+/**
+ * Register companies created through the factory in a confirmed block range
+ */
+async function discoverCompanies(
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<void> {
+  if (!FACTORY_ADDRESS || fromBlock > toBlock) {
+    return;
+  }
+
+  console.log(`🏭 Scanning factory blocks ${fromBlock} to ${toBlock}`);
+  const logs = await withRetry(() =>
+    publicClient.getLogs({
+      address: FACTORY_ADDRESS!,
+      event: ABIS.factory.find(
+        (item) => item.type === "event" && item.name === "CompanyCreated"
+      ) as AbiEvent,
+      fromBlock,
+      toBlock,
+    })
+  );
+
+  for (const log of logs as Log[]) {
+    registerCreatedCompany(log);
+  }
+  setFactoryLastIndexedBlock(Number(toBlock));
+}
+
+/**
+ * Watch the factory for new companies and start a worker for each one
+ * A company whose creation is later orphaned by a reorg stays registered with nothing indexed
+ */
+function startFactoryWatcher(): void {
+  if (!FACTORY_ADDRESS) {
+    return;
+  }
+
+  const unwatchCompanyCreated = publicClient.watchContractEvent({
+    address: FACTORY_ADDRESS,
+    abi: ABIS.factory,
+    eventName: "CompanyCreated",
+    onLogs: async (logs) => {
+      for (const log of activeLogs(logs)) {
+        const company = registerCreatedCompany(log);
+        if (company && isRunning) {
+          await startWorker(company, log.blockNumber ?? undefined);
+        }
+      }
+    },
+  });
+
+  factoryWatchers = [unwatchCompanyCreated];
+  console.log(`✅ Watching CapTableFactory ${FACTORY_ADDRESS} for new companies`);
+}
+
+/**
+ * Start the indexer with a worker for every company registered on the configured chain
+ */
+export async function start(): Promise<void> {
+  if (isRunning) {
+    console.warn("⚠️  Indexer is already running");
+    return;
+  }
+
+  console.log("🚀 Starting event indexer...");
+  isRunning = true;
+
+  // Initialize public client
+  publicClient = getPublicClient();
+
+  // Set indexer version
+  setIndexerVersion("1.11.0");
+
+  // Register companies created through the factory while the indexer was stopped
+  const safeBlock =
+    (await withRetry(() => publicClient.getBlockNumber())) -
+    BigInt(CONFIRMATION_BLOCKS);
+  await discoverCompanies(BigInt(getFactoryLastIndexedBlock() + 1), safeBlock);
+
+  const companies = getCompanies(connect()).filter(
+    (company) => company.chainId === CHAIN_ID
+  );
+  if (companies.length === 0) {
+    console.warn(`⚠️  No companies registered for chainId ${CHAIN_ID}`);
+  }
+
+  // Workers share the RPC client, so they are started one after another
+  for (const company of companies) {
+    await startWorker(company);
+  }
+
+  startFactoryWatcher();
+
+  console.log(`✅ Event indexer started (${workers.size} companies)`);
 }
 
 /**
- * Stop the indexer
+ * Stop the indexer and every company worker
  */
 export async function stop(): Promise<void> {
   if (!isRunning) {
@@ -807,29 +3024,46 @@ export async function stop(): Promise<void> {
   console.log("🛑 Stopping event indexer...");
   isRunning = false;
 
-  stopWatchers();
+  for (const unwatch of factoryWatchers) {
+    unwatch();
+  }
+  factoryWatchers = [];
+
+  for (const worker of workers.values()) {
+    stopWatchers(worker);
+  }
+  workers.clear();
 
   console.log("✅ Event indexer stopped");
 }
 
 /**
- * Rescan a block range
+ * Rescan a block range for a company
  */
 export async function rescan(
+  companyId: number,
   fromBlock: bigint,
   toBlock?: bigint
 ): Promise<void> {
-  console.log(`🔄 Rescanning blocks ${fromBlock} to ${toBlock || "latest"}`);
+  const company = getCompanyById(connect(), companyId);
+  if (!company) {
+    throw new Error(`Company ${companyId} is not registered`);
+  }
+
+  console.log(
+    `🔄 Rescanning ${company.name} blocks ${fromBlock} to ${toBlock || "latest"}`
+  );
 
   publicClient = getPublicClient();
+  const worker = workers.get(companyId) ?? createWorker(company);
 
   const endBlock = toBlock
     ? toBlock
     : (await withRetry(() => publicClient.getBlockNumber())) -
       BigInt(CONFIRMATION_BLOCKS);
 
-  await scanBlockRange(fromBlock, endBlock);
-  setLastIndexedBlock(Number(endBlock));
+  await scanBlockRange(worker, fromBlock, endBlock);
+  setLastIndexedBlock(worker, Number(endBlock));
 
   console.log("✅ Rescan complete");
 }
@@ -842,4 +3076,3 @@ export const Indexer = {
   stop,
   rescan,
 };
-
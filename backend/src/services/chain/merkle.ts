@@ -0,0 +1,91 @@
+/**
+ * @file Merkle allowlist trees for ChainEquityToken
+ * @notice Builds the allowlist trees whose roots are published with setAllowlistRoot() and the
+ *         proofs checked by isApprovedWithProof()
+ *
+ * @dev Same layout as the OpenZeppelin StandardMerkleTree with an ["address"] leaf encoding:
+ *      leaves are keccak256(bytes.concat(keccak256(abi.encode(wallet)))), sorted by hash and
+ *      stored at the end of a complete binary tree; parents hash their children in sorted order
+ *      (OpenZeppelin MerkleProof). Roots and proofs match the JavaScript library's output.
+ */
+
+import { concat, encodeAbiParameters, getAddress, keccak256, type Hex } from "viem";
+
+/**
+ * Merkle allowlist tree
+ */
+export interface AllowlistTree {
+  root: Hex;
+  wallets: string[]; // Lowercase, sorted ascending
+  getProof(wallet: string): Hex[] | null;
+}
+
+/**
+ * Hash a wallet into its leaf
+ * @param wallet Wallet address
+ * @returns Double-hashed ABI encoding of the address
+ */
+export function allowlistLeaf(wallet: string): Hex {
+  return keccak256(
+    keccak256(encodeAbiParameters([{ type: "address" }], [getAddress(wallet)]))
+  );
+}
+
+/**
+ * Hash two nodes in sorted order
+ */
+function hashPair(a: Hex, b: Hex): Hex {
+  return keccak256(a < b ? concat([a, b]) : concat([b, a]));
+}
+
+/**
+ * Build the Merkle allowlist tree of a set of wallets
+ * @param wallets Wallet addresses (duplicates and case differences are ignored)
+ * @returns Tree with its root and a proof lookup
+ * @throws Error if no wallets are given
+ */
+export function buildAllowlistTree(wallets: string[]): AllowlistTree {
+  const unique = [...new Set(wallets.map((wallet) => wallet.toLowerCase()))].sort();
+  if (unique.length === 0) {
+    throw new Error("Cannot build an allowlist tree without wallets");
+  }
+
+  // Hex strings of equal length compare like the bytes they encode
+  const leaves = unique.map(allowlistLeaf).sort();
+  const nodes: Hex[] = new Array(2 * leaves.length - 1);
+  leaves.forEach((leaf, i) => {
+    nodes[nodes.length - 1 - i] = leaf;
+  });
+  for (let i = nodes.length - 1 - leaves.length; i >= 0; i--) {
+    nodes[i] = hashPair(nodes[2 * i + 1]!, nodes[2 * i + 2]!);
+  }
+
+  return {
+    root: nodes[0]!,
+    wallets: unique,
+    getProof(wallet: string): Hex[] | null {
+      let index = nodes.lastIndexOf(allowlistLeaf(wallet));
+      if (index < nodes.length - leaves.length) {
+        return null;
+      }
+
+      const proof: Hex[] = [];
+      while (index > 0) {
+        proof.push(nodes[index % 2 === 1 ? index + 1 : index - 1]!);
+        index = Math.floor((index - 1) / 2);
+      }
+      return proof;
+    },
+  };
+}
+
+/**
+ * Check a proof against a root, as MerkleProof.verify() does on chain
+ * @param root Merkle root
+ * @param wallet Wallet address
+ * @param proof Sibling hashes from the leaf up
+ * @returns True if the proof leads from the wallet's leaf to the root
+ */
+export function verifyAllowlistProof(root: Hex, wallet: string, proof: Hex[]): boolean {
+  return proof.reduce(hashPair, allowlistLeaf(wallet)) === root;
+}
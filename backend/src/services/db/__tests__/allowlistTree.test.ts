@@ -0,0 +1,142 @@
+/**
+ * @file Tests for Merkle allowlist operations
+ * @notice Validates tree generation from KYC-approved wallets, indexed root updates and proofs
+ *         against the published root
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { zeroHash } from "viem";
+import { migrate } from "../../../db/migrations";
+
+import {
+  generateAllowlistTree,
+  getAllowlistProof,
+  getKycApprovedWallets,
+  getLatestAllowlistTree,
+  getPublishedAllowlistRoot,
+  recordAllowlistRootUpdate,
+} from "../allowlistTree";
+import { buildAllowlistTree, verifyAllowlistProof } from "../../chain/merkle";
+
+const TOKEN = "0xdddddddddddddddddddddddddddddddddddddddd";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+const DAVE = "0x4444444444444444444444444444444444444444";
+
+const COMPANY_ID = 1;
+
+describe("Merkle allowlist", () => {
+  let db: Database;
+  let logIndex = 0;
+
+  function kycRequest(uid: string, wallet: string, status: string) {
+    db.run(`INSERT INTO users (uid, email, wallet_address, role) VALUES ('${uid}', '${uid}@example.com', '${wallet}', 'investor')`);
+    db.run(`
+      INSERT INTO kyc_requests (uid, wallet_address, full_name, jurisdiction, accreditation_status, document_hashes, status, created_at, updated_at)
+      VALUES ('${uid}', '${wallet}', '${uid}', 'US', 'accredited', '[]', '${status}', 0, 0)
+    `);
+  }
+
+  function publish(root: string, blockNumber: number) {
+    return recordAllowlistRootUpdate(db, COMPANY_ID, {
+      tokenAddress: TOKEN,
+      oldRoot: getPublishedAllowlistRoot(db, COMPANY_ID, TOKEN) ?? zeroHash,
+      newRoot: root,
+      blockNumber,
+      blockTimestamp: null,
+      logIndex: logIndex++,
+      txHash: null,
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '${TOKEN}', 0)
+    `);
+    kycRequest("alice", ALICE, "approved");
+    kycRequest("bob", BOB, "on_chain_approved");
+    kycRequest("carol", CAROL, "under_review");
+    kycRequest("dave", DAVE, "approved");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("builds trees whose proofs verify against the root", () => {
+    const tree = buildAllowlistTree([DAVE, ALICE, BOB, ALICE.toUpperCase().replace("0X", "0x")]);
+
+    expect(tree.wallets).toEqual([ALICE, BOB, DAVE]);
+    for (const wallet of [ALICE, BOB, DAVE]) {
+      const proof = tree.getProof(wallet)!;
+      expect(verifyAllowlistProof(tree.root, wallet, proof)).toBe(true);
+      expect(verifyAllowlistProof(tree.root, CAROL, proof)).toBe(false);
+    }
+    expect(tree.getProof(CAROL)).toBeNull();
+    expect(buildAllowlistTree([ALICE]).getProof(ALICE)).toEqual([]);
+    expect(() => buildAllowlistTree([])).toThrow();
+  });
+
+  it("generates the tree from KYC-approved wallets", () => {
+    expect(getKycApprovedWallets(db)).toEqual([ALICE, BOB, DAVE]);
+
+    const tree = generateAllowlistTree(db, COMPANY_ID, "alice")!;
+    expect(tree).toMatchObject({
+      root: buildAllowlistTree([ALICE, BOB, DAVE]).root,
+      wallets: [ALICE, BOB, DAVE],
+      createdByUid: "alice",
+    });
+
+    // Regenerating the same wallet set reuses the stored tree
+    expect(generateAllowlistTree(db, COMPANY_ID, "bob")!.id).toBe(tree.id);
+
+    db.run(`UPDATE kyc_requests SET status = 'approved' WHERE uid = 'carol'`);
+    expect(generateAllowlistTree(db, COMPANY_ID, "alice")!.wallets).toContain(CAROL);
+    expect(getLatestAllowlistTree(db, COMPANY_ID)!.wallets).toHaveLength(4);
+  });
+
+  it("does not generate a tree without approved wallets", () => {
+    db.run(`UPDATE kyc_requests SET status = 'denied'`);
+
+    expect(generateAllowlistTree(db, COMPANY_ID, null)).toBeNull();
+  });
+
+  it("tracks the published root", () => {
+    const tree = generateAllowlistTree(db, COMPANY_ID, null)!;
+    expect(getPublishedAllowlistRoot(db, COMPANY_ID, TOKEN)).toBeNull();
+
+    expect(publish(tree.root, 5)).toBe(true);
+    expect(getPublishedAllowlistRoot(db, COMPANY_ID, TOKEN)).toBe(tree.root);
+
+    publish(zeroHash, 6);
+    expect(getPublishedAllowlistRoot(db, COMPANY_ID, TOKEN)).toBeNull();
+  });
+
+  it("serves proofs against the published root only", () => {
+    const first = generateAllowlistTree(db, COMPANY_ID, null)!;
+    expect(getAllowlistProof(db, COMPANY_ID, TOKEN, ALICE)).toBeNull();
+
+    publish(first.root, 5);
+    db.run(`UPDATE kyc_requests SET status = 'approved' WHERE uid = 'carol'`);
+    generateAllowlistTree(db, COMPANY_ID, null);
+
+    // CAROL is only in the newer tree, which is not published yet
+    const alice = getAllowlistProof(db, COMPANY_ID, TOKEN, ALICE)!;
+    expect(alice).toMatchObject({ root: first.root, included: true });
+    expect(verifyAllowlistProof(alice.root, ALICE, alice.proof)).toBe(true);
+    expect(getAllowlistProof(db, COMPANY_ID, TOKEN, CAROL)).toEqual({
+      root: alice.root,
+      included: false,
+      proof: [],
+    });
+
+    // A root the backend never generated has no proofs
+    publish(`0x${"ab".repeat(32)}`, 6);
+    expect(getAllowlistProof(db, COMPANY_ID, TOKEN, ALICE)).toBeNull();
+  });
+});
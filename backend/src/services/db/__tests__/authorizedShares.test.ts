@@ -0,0 +1,112 @@
+/**
+ * @file Tests for authorized shares operations
+ * @notice Validates Deployed/AuthorizedSharesChanged indexing, the outstanding supply at each
+ *         change and reorg rollback of authorized shares data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  recordAuthorizedSharesChange,
+  getAuthorizedSharesHistory,
+  getAuthorizedVsOutstandingHistory,
+} from "../authorizedShares";
+import { rollbackToBlock } from "../blocks";
+
+const TOKEN = "0xdddddddddddddddddddddddddddddddddddddddd";
+const ALICE = "0x1111111111111111111111111111111111111111";
+
+const COMPANY_ID = 1;
+
+describe("Authorized Shares", () => {
+  let db: Database;
+
+  function record(oldAuthorized: bigint | null, newAuthorized: bigint, blockNumber: number): boolean {
+    return recordAuthorizedSharesChange(db, COMPANY_ID, {
+      tokenAddress: TOKEN,
+      oldAuthorized,
+      newAuthorized,
+      blockNumber,
+      blockTimestamp: blockNumber * 100,
+      logIndex: 0,
+      txHash: null,
+    });
+  }
+
+  function transaction(
+    eventType: "ISSUED" | "REDEEMED",
+    amount: bigint,
+    blockNumber: number
+  ): void {
+    db.run(
+      `INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+       VALUES (?, '0x00', ?, ?, ?, ?, ?, 1, ?)`,
+      [
+        COMPANY_ID,
+        eventType === "REDEEMED" ? ALICE : null,
+        eventType === "ISSUED" ? ALICE : null,
+        amount.toString(),
+        blockNumber,
+        blockNumber * 100,
+        eventType,
+      ]
+    );
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '${TOKEN}', 0)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("records the deployed amount and each amendment in order", () => {
+    expect(record(1000n, 1500n, 20)).toBe(true);
+    expect(record(null, 1000n, 10)).toBe(true);
+    expect(record(null, 1000n, 10)).toBe(false);
+
+    expect(
+      getAuthorizedSharesHistory(db, COMPANY_ID).map((r) => [r.oldAuthorized, r.newAuthorized])
+    ).toEqual([
+      [null, "1000"],
+      ["1000", "1500"],
+    ]);
+  });
+
+  it("reports the outstanding supply at each change", () => {
+    record(null, 1000n, 10);
+    transaction("ISSUED", 900n, 11);
+    record(1000n, 1500n, 20);
+    transaction("REDEEMED", 100n, 25);
+    record(1500n, 1200n, 30);
+
+    expect(
+      getAuthorizedVsOutstandingHistory(db, COMPANY_ID).map((r) => [
+        r.blockNumber,
+        r.newAuthorized,
+        r.outstanding,
+      ])
+    ).toEqual([
+      [10, "1000", "0"],
+      [20, "1500", "900"],
+      [30, "1200", "800"],
+    ]);
+  });
+
+  it("rolls back authorized shares changes above a fork point", () => {
+    record(null, 1000n, 10);
+    record(1000n, 1500n, 20);
+
+    rollbackToBlock(db, COMPANY_ID, 15);
+
+    expect(getAuthorizedSharesHistory(db, COMPANY_ID)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * @file Tests for event-sourced balance operations
+ * @notice Validates ledger idempotency, split handling and ordering guarantees
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  applyBalanceChange,
+  recordSplit,
+  getSplitFactor,
+  getBalanceChanges,
+} from "../balances";
+
+const COMPANY_ID = 1;
+const OTHER_COMPANY_ID = 2;
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const E18 = 10n ** 18n;
+
+function getShareholder(db: Database, address: string, companyId = COMPANY_ID) {
+  return db
+    .prepare("SELECT * FROM shareholders WHERE company_id = ? AND address = ?")
+    .get(companyId, address) as {
+    balance: string;
+    effective_balance: string;
+    last_updated_block: number;
+  } | null;
+}
+
+describe("Event-sourced balances", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xc1', '0xt1', 0), (2, 'Globex', 31337, '0xc2', '0xt2', 0)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  /**
+   * Apply the same event sequence an indexer would see:
+   * issue 1000 to Alice (block 1), transfer 300 Alice → Bob (block 2), 2x split (block 3)
+   */
+  function applySequence(): void {
+    applyBalanceChange(db, COMPANY_ID, {
+      address: ALICE,
+      delta: 1000n * E18,
+      changeType: "ISSUED",
+      blockNumber: 1,
+      blockTimestamp: 100,
+      logIndex: 1,
+      txHash: "0x01",
+    });
+    const transfer = { blockNumber: 2, blockTimestamp: 200, logIndex: 0, txHash: "0x02" };
+    applyBalanceChange(db, COMPANY_ID, { ...transfer, address: ALICE, delta: -300n * E18, changeType: "TRANSFER_OUT" });
+    applyBalanceChange(db, COMPANY_ID, { ...transfer, address: BOB, delta: 300n * E18, changeType: "TRANSFER_IN" });
+    recordSplit(db, COMPANY_ID, {
+      oldFactor: E18,
+      newFactor: 2n * E18,
+      blockNumber: 3,
+      blockTimestamp: 300,
+      logIndex: 0,
+      txHash: "0x03",
+    });
+  }
+
+  it("derives balances from deltas instead of overwriting them", () => {
+    applySequence();
+    applyBalanceChange(db, COMPANY_ID, {
+      address: ALICE,
+      delta: 50n * E18,
+      changeType: "ISSUED",
+      blockNumber: 4,
+      blockTimestamp: 400,
+      logIndex: 0,
+      txHash: "0x04",
+    });
+
+    expect(getShareholder(db, ALICE)).toMatchObject({
+      balance: (750n * E18).toString(),
+      effective_balance: (1500n * E18).toString(),
+      last_updated_block: 4,
+    });
+    expect(getShareholder(db, BOB)).toMatchObject({
+      balance: (300n * E18).toString(),
+      effective_balance: (600n * E18).toString(),
+      last_updated_block: 2,
+    });
+  });
+
+  it("is idempotent when the same events are replayed", () => {
+    applySequence();
+    const before = db.prepare("SELECT * FROM shareholders ORDER BY address").all();
+
+    applySequence();
+
+    expect(db.prepare("SELECT * FROM shareholders ORDER BY address").all()).toEqual(before);
+    expect(
+      (db.prepare("SELECT COUNT(*) AS count FROM balance_changes").get() as { count: number }).count
+    ).toBe(3);
+  });
+
+  it("records running balances in the ledger", () => {
+    applySequence();
+
+    const changes = getBalanceChanges(db, COMPANY_ID, ALICE);
+    expect(changes.map((c) => [c.changeType, c.delta, c.balanceAfter])).toEqual([
+      ["ISSUED", (1000n * E18).toString(), (1000n * E18).toString()],
+      ["TRANSFER_OUT", (-300n * E18).toString(), (700n * E18).toString()],
+    ]);
+  });
+
+  it("records both legs of a self-transfer", () => {
+    applySequence();
+    const leg = { address: BOB, blockNumber: 5, blockTimestamp: 500, logIndex: 0, txHash: "0x05" };
+    expect(applyBalanceChange(db, COMPANY_ID, { ...leg, delta: -100n * E18, changeType: "TRANSFER_OUT" })).toBe(true);
+    expect(applyBalanceChange(db, COMPANY_ID, { ...leg, delta: 100n * E18, changeType: "TRANSFER_IN" })).toBe(true);
+
+    expect(getShareholder(db, BOB)?.balance).toBe((300n * E18).toString());
+  });
+
+  it("debits redemptions from the holder's balance", () => {
+    applySequence();
+    applyBalanceChange(db, COMPANY_ID, {
+      address: BOB,
+      delta: -100n * E18,
+      changeType: "REDEEMED",
+      blockNumber: 4,
+      blockTimestamp: 400,
+      logIndex: 0,
+      txHash: "0x04",
+    });
+
+    expect(getShareholder(db, BOB)).toMatchObject({
+      balance: (200n * E18).toString(),
+      effective_balance: (400n * E18).toString(),
+      last_updated_block: 4,
+    });
+    expect(getBalanceChanges(db, COMPANY_ID, BOB).at(-1)).toMatchObject({
+      changeType: "REDEEMED",
+      balanceAfter: (200n * E18).toString(),
+    });
+  });
+
+  it("uses the split factor in effect at the event's block", () => {
+    applySequence();
+
+    expect(getSplitFactor(db, COMPANY_ID, 2)).toBe(E18);
+    expect(getSplitFactor(db, COMPANY_ID, 3)).toBe(2n * E18);
+    expect(getSplitFactor(db, COMPANY_ID)).toBe(2n * E18);
+  });
+
+  it("keeps each company's ledger and split factor separate", () => {
+    applySequence();
+    applyBalanceChange(db, OTHER_COMPANY_ID, {
+      address: ALICE,
+      delta: 10n * E18,
+      changeType: "ISSUED",
+      blockNumber: 1,
+      blockTimestamp: 100,
+      logIndex: 1,
+      txHash: "0x01",
+    });
+
+    expect(getShareholder(db, ALICE, OTHER_COMPANY_ID)).toMatchObject({
+      balance: (10n * E18).toString(),
+      effective_balance: (10n * E18).toString(),
+    });
+    expect(getShareholder(db, ALICE)?.balance).toBe((700n * E18).toString());
+    expect(getSplitFactor(db, OTHER_COMPANY_ID)).toBe(E18);
+    expect(getBalanceChanges(db, OTHER_COMPANY_ID, ALICE)).toHaveLength(1);
+  });
+
+  it("rejects deltas that would make a balance negative", () => {
+    expect(() =>
+      applyBalanceChange(db, COMPANY_ID, {
+        address: BOB,
+        delta: -1n,
+        changeType: "TRANSFER_OUT",
+        blockNumber: 1,
+        blockTimestamp: null,
+        logIndex: 0,
+        txHash: null,
+      })
+    ).toThrow("would become negative");
+    expect(getShareholder(db, BOB)).toBeNull();
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * @file Tests for block tracking and reorg rollback
+ * @notice Validates block hash bookkeeping and that rollback restores pre-fork state
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  recordBlock,
+  getIndexedBlock,
+  getIndexedBlocksBefore,
+  pruneIndexedBlocks,
+  rollbackToBlock,
+} from "../blocks";
+import { applyBalanceChange, recordSplit } from "../balances";
+import { createCheckpoint, getLatestCheckpoint } from "../snapshots";
+
+const COMPANY_ID = 1;
+const OTHER_COMPANY_ID = 2;
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const E18 = 10n ** 18n;
+
+function count(db: Database, table: string): number {
+  return (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number })
+    .count;
+}
+
+function insertCompanies(db: Database): void {
+  db.run(`
+    INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+    VALUES (1, 'Acme', 31337, '0xc1', '0xt1', 0), (2, 'Globex', 31337, '0xc2', '0xt2', 0)
+  `);
+}
+
+describe("Block tracking", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    insertCompanies(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("lets a full header replace a log-only entry but not the reverse", () => {
+    recordBlock(db, COMPANY_ID, { blockNumber: 5, blockHash: "0xAA" });
+    recordBlock(db, COMPANY_ID, { blockNumber: 5, blockHash: "0xbb", parentHash: "0x04", blockTimestamp: 50 });
+    recordBlock(db, COMPANY_ID, { blockNumber: 5, blockHash: "0xcc" });
+
+    expect(getIndexedBlock(db, COMPANY_ID, 5)).toEqual({
+      blockNumber: 5,
+      blockHash: "0xbb",
+      parentHash: "0x04",
+      blockTimestamp: 50,
+    });
+  });
+
+  it("lists tracked blocks newest first and prunes old ones", () => {
+    for (const n of [1, 2, 3, 4]) {
+      recordBlock(db, COMPANY_ID, { blockNumber: n, blockHash: `0x0${n}`, parentHash: `0x0${n - 1}` });
+    }
+
+    expect(getIndexedBlocksBefore(db, COMPANY_ID, 3, 2).map((b) => b.blockNumber)).toEqual([3, 2]);
+
+    pruneIndexedBlocks(db, COMPANY_ID, 3);
+    expect(getIndexedBlocksBefore(db, COMPANY_ID, 10, 10).map((b) => b.blockNumber)).toEqual([4, 3]);
+  });
+
+  it("tracks blocks per company", () => {
+    recordBlock(db, COMPANY_ID, { blockNumber: 5, blockHash: "0xaa" });
+    recordBlock(db, OTHER_COMPANY_ID, { blockNumber: 5, blockHash: "0xbb" });
+
+    expect(getIndexedBlock(db, COMPANY_ID, 5)?.blockHash).toBe("0xaa");
+    expect(getIndexedBlock(db, OTHER_COMPANY_ID, 5)?.blockHash).toBe("0xbb");
+  });
+});
+
+describe("Reorg rollback", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    insertCompanies(db);
+
+    // Canonical history: block 10 issue 100 to Alice, block 20 Alice → Bob 40, block 30 2x split
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES
+        (1, '0x01', NULL, '${ALICE}', '${100n * E18}', 10, 100, 0, 'ISSUED'),
+        (1, '0x02', '${ALICE}', '${BOB}', '${40n * E18}', 20, 200, 0, 'TRANSFER')
+    `);
+    db.run(`
+      INSERT INTO events (company_id, event_type, contract_address, topics, data, block_number, log_index, block_timestamp, tx_hash)
+      VALUES
+        (1, 'Issued', '0xtoken', '[]', NULL, 10, 0, 100, '0x01'),
+        (1, 'Transfer', '0xtoken', '[]', NULL, 20, 0, 200, '0x02'),
+        (1, 'SplitExecuted', '0xtoken', '[]', NULL, 30, 0, 300, '0x03')
+    `);
+    db.run(`
+      INSERT INTO corporate_actions (company_id, action_type, data, block_number, block_timestamp, log_index)
+      VALUES (1, 'SPLIT', NULL, 30, 300, 1)
+    `);
+    db.run(`
+      INSERT INTO allowlist_history (company_id, wallet_address, issuer_address, approved, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, '${BOB}', NULL, 1, 20, 200, 1, '0x02')
+    `);
+
+    applyBalanceChange(db, COMPANY_ID, {
+      address: ALICE,
+      delta: 100n * E18,
+      changeType: "ISSUED",
+      blockNumber: 10,
+      blockTimestamp: 100,
+      logIndex: 0,
+      txHash: "0x01",
+    });
+    const transfer = { blockNumber: 20, blockTimestamp: 200, logIndex: 0, txHash: "0x02" };
+    applyBalanceChange(db, COMPANY_ID, { ...transfer, address: ALICE, delta: -40n * E18, changeType: "TRANSFER_OUT" });
+    applyBalanceChange(db, COMPANY_ID, { ...transfer, address: BOB, delta: 40n * E18, changeType: "TRANSFER_IN" });
+    recordSplit(db, COMPANY_ID, {
+      oldFactor: E18,
+      newFactor: 2n * E18,
+      blockNumber: 30,
+      blockTimestamp: 300,
+      logIndex: 0,
+      txHash: "0x03",
+    });
+
+    for (const n of [10, 20, 30]) {
+      recordBlock(db, COMPANY_ID, { blockNumber: n, blockHash: `0x${n}` });
+    }
+    createCheckpoint(db, COMPANY_ID, 10);
+    createCheckpoint(db, COMPANY_ID, 30);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("removes rows above the fork point and rebuilds shareholders", () => {
+    const result = rollbackToBlock(db, COMPANY_ID, 15);
+
+    expect(result.forkBlock).toBe(15);
+    expect(result.deleted).toMatchObject({
+      events: 2,
+      transactions: 1,
+      corporate_actions: 1,
+      balance_changes: 2,
+      split_history: 1,
+      allowlist_history: 1,
+      indexed_blocks: 2,
+    });
+    expect(result.shareholders).toBe(1);
+
+    expect(db.prepare("SELECT * FROM shareholders").all()).toEqual([
+      {
+        company_id: COMPANY_ID,
+        address: ALICE,
+        balance: (100n * E18).toString(),
+        effective_balance: (100n * E18).toString(),
+        last_updated_block: 10,
+      },
+    ]);
+    expect(getLatestCheckpoint(db, COMPANY_ID)?.blockNumber).toBe(10);
+    expect(count(db, "indexed_blocks")).toBe(1);
+  });
+
+  it("keeps state at the fork block and applies the surviving split factor", () => {
+    rollbackToBlock(db, COMPANY_ID, 30);
+    expect(count(db, "balance_changes")).toBe(3);
+
+    rollbackToBlock(db, COMPANY_ID, 25);
+    const bob = db.prepare("SELECT * FROM shareholders WHERE address = ?").get(BOB) as {
+      balance: string;
+      effective_balance: string;
+    };
+    expect(bob.balance).toBe((40n * E18).toString());
+    expect(bob.effective_balance).toBe((40n * E18).toString());
+  });
+
+  it("leaves other companies' rows in place", () => {
+    applyBalanceChange(db, OTHER_COMPANY_ID, {
+      address: BOB,
+      delta: 5n * E18,
+      changeType: "ISSUED",
+      blockNumber: 20,
+      blockTimestamp: 200,
+      logIndex: 0,
+      txHash: "0x02",
+    });
+    recordBlock(db, OTHER_COMPANY_ID, { blockNumber: 20, blockHash: "0x20" });
+
+    rollbackToBlock(db, COMPANY_ID, 15);
+
+    expect(
+      db
+        .prepare("SELECT balance FROM shareholders WHERE company_id = ? AND address = ?")
+        .get(OTHER_COMPANY_ID, BOB)
+    ).toEqual({ balance: (5n * E18).toString() });
+    expect(getIndexedBlock(db, OTHER_COMPANY_ID, 20)?.blockHash).toBe("0x20");
+  });
+
+  it("is safe to replay events after a rollback", () => {
+    rollbackToBlock(db, COMPANY_ID, 15);
+
+    // Replaying the orphaned transfer (or its replacement) applies cleanly
+    const applied = applyBalanceChange(db, COMPANY_ID, {
+      address: ALICE,
+      delta: -10n * E18,
+      changeType: "TRANSFER_OUT",
+      blockNumber: 20,
+      blockTimestamp: 210,
+      logIndex: 0,
+      txHash: "0x22",
+    });
+
+    expect(applied).toBe(true);
+    expect(
+      (db.prepare("SELECT balance FROM shareholders WHERE address = ?").get(ALICE) as {
+        balance: string;
+      }).balance
+    ).toBe((90n * E18).toString());
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @file Tests for the company registry
+ * @notice Validates registration upserts, lookups and per-company indexer state
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  registerCompany,
+  registerDeployments,
+  getCompanies,
+  getCompanyById,
+  getCompanyByCapTable,
+  updateLastIndexedBlock,
+  recordReorg,
+} from "../companies";
+
+const ACME_CAP_TABLE = "0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA";
+const ACME_TOKEN = "0x1111111111111111111111111111111111111111";
+const GLOBEX_CAP_TABLE = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const GLOBEX_TOKEN = "0x2222222222222222222222222222222222222222";
+
+describe("Company registry", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("registers companies with lowercased addresses", () => {
+    const company = registerCompany(db, {
+      name: "Acme",
+      chainId: 31337,
+      capTableAddress: ACME_CAP_TABLE,
+      tokenAddress: ACME_TOKEN,
+    });
+
+    expect(company).toMatchObject({
+      id: 1,
+      name: "Acme",
+      chainId: 31337,
+      capTableAddress: ACME_CAP_TABLE.toLowerCase(),
+      tokenAddress: ACME_TOKEN,
+      lastIndexedBlock: null,
+      lastReorg: null,
+    });
+    expect(getCompanyByCapTable(db, 31337, ACME_CAP_TABLE)).toEqual(company);
+    expect(getCompanyByCapTable(db, 1, ACME_CAP_TABLE)).toBeNull();
+  });
+
+  it("keeps the id and token when a CapTable is registered again", () => {
+    const first = registerCompany(db, {
+      name: "Acme",
+      chainId: 31337,
+      capTableAddress: ACME_CAP_TABLE,
+      tokenAddress: ACME_TOKEN,
+    });
+    const second = registerCompany(db, {
+      name: "Acme Inc.",
+      chainId: 31337,
+      capTableAddress: ACME_CAP_TABLE.toLowerCase(),
+      tokenAddress: GLOBEX_TOKEN,
+    });
+
+    expect(second.id).toBe(first.id);
+    expect(second.name).toBe("Acme Inc.");
+    expect(second.tokenAddress).toBe(ACME_TOKEN);
+    expect(getCompanies(db)).toHaveLength(1);
+  });
+
+  it("starts indexing factory-created companies at their creation block", () => {
+    const company = registerCompany(db, {
+      name: "Globex",
+      chainId: 31337,
+      capTableAddress: GLOBEX_CAP_TABLE,
+      tokenAddress: GLOBEX_TOKEN,
+      startBlock: 42,
+    });
+    expect(company.lastIndexedBlock).toBe(41);
+
+    // Registering again does not move the indexer back
+    updateLastIndexedBlock(db, company.id, 120);
+    registerCompany(db, {
+      name: "Globex",
+      chainId: 31337,
+      capTableAddress: GLOBEX_CAP_TABLE,
+      tokenAddress: GLOBEX_TOKEN,
+      startBlock: 42,
+    });
+    expect(getCompanyById(db, company.id)!.lastIndexedBlock).toBe(120);
+  });
+
+  it("registers every deployment in order", () => {
+    const companies = registerDeployments(db, 31337, [
+      { name: "Acme", capTable: ACME_CAP_TABLE, token: ACME_TOKEN },
+      { name: "Globex", capTable: GLOBEX_CAP_TABLE, token: GLOBEX_TOKEN },
+    ]);
+
+    expect(companies.map((c) => [c.id, c.name])).toEqual([
+      [1, "Acme"],
+      [2, "Globex"],
+    ]);
+    expect(getCompanies(db).map((c) => c.name)).toEqual(["Acme", "Globex"]);
+  });
+
+  it("tracks indexer state per company", () => {
+    const [acme, globex] = registerDeployments(db, 31337, [
+      { name: "Acme", capTable: ACME_CAP_TABLE, token: ACME_TOKEN },
+      { name: "Globex", capTable: GLOBEX_CAP_TABLE, token: GLOBEX_TOKEN },
+    ]);
+
+    updateLastIndexedBlock(db, acme!.id, 120);
+    recordReorg(db, acme!.id, { forkBlock: 100 });
+
+    expect(getCompanyById(db, acme!.id)).toMatchObject({
+      lastIndexedBlock: 120,
+      lastReorg: JSON.stringify({ forkBlock: 100 }),
+    });
+    expect(getCompanyById(db, globex!.id)).toMatchObject({
+      lastIndexedBlock: null,
+      lastReorg: null,
+    });
+    expect(getCompanyById(db, 99)).toBeNull();
+  });
+});
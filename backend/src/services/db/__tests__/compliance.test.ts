@@ -0,0 +1,205 @@
+/**
+ * @file Tests for compliance configuration operations
+ * @notice Validates compliance indexing, the trusted module settings of a token, the compliance
+ *         check mirrored from the built-in modules and reorg rollback of compliance data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  recordComplianceConfigChange,
+  getComplianceHistory,
+  getComplianceSettings,
+  checkCompliance,
+  type ComplianceConfigChangeInput,
+} from "../compliance";
+import { rollbackToBlock } from "../blocks";
+
+const TOKEN = "0xdddddddddddddddddddddddddddddddddddddddd";
+const COMPLIANCE = "0xc000000000000000000000000000000000000000";
+const OTHER_COMPLIANCE = "0xc111111111111111111111111111111111111111";
+const MAX_HOLDERS = "0xa000000000000000000000000000000000000001";
+const COUNTRY = "0xa000000000000000000000000000000000000002";
+const ACCREDITED = "0xa000000000000000000000000000000000000003";
+const MAX_OWNERSHIP = "0xa000000000000000000000000000000000000004";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+
+const COMPANY_ID = 1;
+
+describe("Compliance", () => {
+  let db: Database;
+  let blockNumber: number;
+
+  function record(
+    change: Omit<
+      ComplianceConfigChangeInput,
+      "tokenAddress" | "blockNumber" | "blockTimestamp" | "logIndex" | "txHash"
+    >
+  ): void {
+    blockNumber++;
+    recordComplianceConfigChange(db, COMPANY_ID, {
+      tokenAddress: TOKEN,
+      blockNumber,
+      blockTimestamp: blockNumber * 100,
+      logIndex: 0,
+      txHash: null,
+      ...change,
+    });
+  }
+
+  function setCompliance(compliance: string | null): void {
+    record({
+      contractAddress: TOKEN,
+      configType: "COMPLIANCE_SET",
+      complianceAddress: compliance,
+    });
+  }
+
+  function addModule(module: string, moduleName: string, compliance = COMPLIANCE) {
+    record({
+      contractAddress: compliance,
+      configType: "MODULE_ADDED",
+      moduleAddress: module,
+      moduleName,
+    });
+  }
+
+  function check(from: string, to: string, amount: bigint, totalAuthorized?: bigint) {
+    return checkCompliance(db, COMPANY_ID, TOKEN, { from, to, amount, totalAuthorized });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '${TOKEN}', 0)
+    `);
+    db.run(`
+      INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+      VALUES (1, '${ALICE}', '100', '100', 1), (1, '${BOB}', '0', '0', 1)
+    `);
+    blockNumber = 0;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("has no settings before a compliance is set", () => {
+    addModule(MAX_HOLDERS, "MaxHolders");
+
+    expect(getComplianceSettings(db, COMPANY_ID, TOKEN)).toEqual({
+      tokenAddress: TOKEN,
+      complianceAddress: null,
+      modules: [],
+    });
+    expect(check(ALICE, CAROL, 1n)).toBe(true);
+  });
+
+  it("reports the plugged-in modules of the current compliance with their settings", () => {
+    addModule(MAX_HOLDERS, "MaxHolders");
+    addModule(COUNTRY, "CountryRestriction");
+    setCompliance(COMPLIANCE);
+    record({ contractAddress: MAX_HOLDERS, configType: "MAX_HOLDERS", value: 2 });
+    record({ contractAddress: COUNTRY, configType: "INVESTOR_COUNTRY", wallet: BOB, country: "US" });
+    record({ contractAddress: COUNTRY, configType: "COUNTRY_RESTRICTION", country: "US", value: 1 });
+    record({ contractAddress: COUNTRY, configType: "COUNTRY_RESTRICTION", country: "DE", value: 1 });
+    record({ contractAddress: COUNTRY, configType: "COUNTRY_RESTRICTION", country: "DE", value: 0 });
+
+    expect(getComplianceSettings(db, COMPANY_ID, TOKEN)).toEqual({
+      tokenAddress: TOKEN,
+      complianceAddress: COMPLIANCE,
+      modules: [
+        { address: MAX_HOLDERS, name: "MaxHolders", addedAtBlock: 1, maxHolders: 2 },
+        {
+          address: COUNTRY,
+          name: "CountryRestriction",
+          addedAtBlock: 2,
+          restrictedCountries: ["US"],
+          investorCountries: [{ wallet: BOB, country: "US" }],
+        },
+      ],
+    });
+    expect(getComplianceHistory(db, COMPANY_ID, TOKEN)).toHaveLength(8);
+  });
+
+  it("ignores changes from untrusted emitters and removed modules", () => {
+    addModule(MAX_HOLDERS, "MaxHolders");
+    addModule(ACCREDITED, "AccreditedInvestor", OTHER_COMPLIANCE);
+    setCompliance(COMPLIANCE);
+    // Anyone can emit module events with the token as topic
+    record({ contractAddress: CAROL, configType: "MAX_HOLDERS", value: 1 });
+    record({ contractAddress: COMPLIANCE, configType: "MODULE_REMOVED", moduleAddress: MAX_HOLDERS });
+
+    expect(getComplianceSettings(db, COMPANY_ID, TOKEN).modules).toEqual([]);
+
+    // Replacing the compliance drops the previous one's modules
+    addModule(MAX_HOLDERS, "MaxHolders");
+    expect(getComplianceSettings(db, COMPANY_ID, TOKEN).modules).toHaveLength(1);
+    setCompliance(OTHER_COMPLIANCE);
+    expect(getComplianceSettings(db, COMPANY_ID, TOKEN)).toMatchObject({
+      complianceAddress: OTHER_COMPLIANCE,
+      modules: [{ address: ACCREDITED, accreditedWallets: [] }],
+    });
+
+    setCompliance(null);
+    expect(getComplianceSettings(db, COMPANY_ID, TOKEN).complianceAddress).toBeNull();
+  });
+
+  it("checks the holder limit from indexed balances", () => {
+    addModule(MAX_HOLDERS, "MaxHolders");
+    setCompliance(COMPLIANCE);
+    record({ contractAddress: MAX_HOLDERS, configType: "MAX_HOLDERS", value: 1 });
+
+    expect(check(ALICE, BOB, 1n)).toBe(false);
+    // Moving the whole balance keeps the holder count
+    expect(check(ALICE, BOB, 100n)).toBe(true);
+    // Existing holders can always receive shares
+    expect(check(BOB, ALICE, 1n)).toBe(true);
+  });
+
+  it("checks ownership limits when authorized shares are known", () => {
+    addModule(MAX_OWNERSHIP, "MaxOwnership");
+    setCompliance(COMPLIANCE);
+    record({ contractAddress: MAX_OWNERSHIP, configType: "MAX_OWNERSHIP", value: 1000 });
+
+    expect(check(BOB, ALICE, 10n, 1000n)).toBe(false);
+    expect(check(ALICE, BOB, 100n, 1000n)).toBe(true);
+    expect(check(ALICE, BOB, 101n, 1000n)).toBe(false);
+    expect(check(BOB, ALICE, 10n)).toBe(true);
+  });
+
+  it("checks recipient countries and accreditation", () => {
+    addModule(COUNTRY, "CountryRestriction");
+    addModule(ACCREDITED, "AccreditedInvestor");
+    setCompliance(COMPLIANCE);
+    record({ contractAddress: ACCREDITED, configType: "ACCREDITATION", wallet: BOB, value: 1 });
+    record({ contractAddress: ACCREDITED, configType: "ACCREDITATION", wallet: CAROL, value: 1 });
+    record({ contractAddress: COUNTRY, configType: "INVESTOR_COUNTRY", wallet: CAROL, country: "US" });
+    record({ contractAddress: COUNTRY, configType: "COUNTRY_RESTRICTION", country: "US", value: 1 });
+
+    expect(check(ALICE, BOB, 1n)).toBe(true);
+    expect(check(ALICE, CAROL, 1n)).toBe(false);
+    // Only the recipient is checked
+    expect(check(CAROL, BOB, 1n)).toBe(true);
+    expect(check(BOB, ALICE, 1n)).toBe(false);
+  });
+
+  it("rolls back compliance changes above the fork block", () => {
+    addModule(MAX_HOLDERS, "MaxHolders");
+    setCompliance(COMPLIANCE);
+    record({ contractAddress: MAX_HOLDERS, configType: "MAX_HOLDERS", value: 1 });
+
+    rollbackToBlock(db, COMPANY_ID, 2);
+
+    expect(getComplianceHistory(db, COMPANY_ID, TOKEN)).toHaveLength(2);
+    expect(getComplianceSettings(db, COMPANY_ID, TOKEN).modules).toEqual([
+      { address: MAX_HOLDERS, name: "MaxHolders", addedAtBlock: 1, maxHolders: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @file Tests for bulk issuance checks
+ * @notice Validates batch issuance rows against indexed users, allowlist, compliance, pause state
+ *         and authorized headroom
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import { validateIssuanceBatch } from "../issuance";
+
+const TOKEN = "0xdddddddddddddddddddddddddddddddddddddddd";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+const DAVE = "0x4444444444444444444444444444444444444444";
+
+const COMPANY_ID = 1;
+
+describe("Bulk issuance", () => {
+  let db: Database;
+
+  function validate(rows: [string, string][]) {
+    return validateIssuanceBatch(
+      db,
+      COMPANY_ID,
+      TOKEN,
+      rows.map(([walletAddress, amount]) => ({ walletAddress, amount }))
+    );
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '${TOKEN}', 0)
+    `);
+    db.run(`
+      INSERT INTO users (uid, email, display_name, wallet_address, role)
+      VALUES
+        ('alice', 'alice@example.com', 'Alice', '${ALICE}', 'investor'),
+        ('bob', 'bob@example.com', NULL, '${BOB}', 'investor'),
+        ('carol', 'carol@example.com', NULL, '${CAROL}', 'investor')
+    `);
+    db.run(`
+      INSERT INTO allowlist_history (company_id, wallet_address, approved, block_number, log_index)
+      VALUES (1, '${ALICE}', 1, 1, 0), (1, '${BOB}', 1, 1, 1)
+    `);
+    db.run(`
+      INSERT INTO authorized_shares_history (company_id, token_address, old_authorized, new_authorized, block_number, log_index)
+      VALUES (1, '${TOKEN}', NULL, '1000', 1, 0)
+    `);
+    db.run(`
+      INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+      VALUES (1, '${ALICE}', '400', '400', 2)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("accepts linked, approved wallets within the authorized headroom", () => {
+    const result = validate([
+      [ALICE, "100"],
+      [BOB, "500"],
+    ]);
+
+    expect(result).toMatchObject({
+      tokenAddress: TOKEN,
+      totalAmount: "600",
+      totalAuthorized: "1000",
+      totalOutstanding: "400",
+      headroom: "600",
+      withinHeadroom: true,
+      paused: false,
+      unapprovedWallets: [],
+      valid: true,
+    });
+    expect(result.rows[0]).toMatchObject({
+      index: 0,
+      walletAddress: ALICE,
+      linked: true,
+      email: "alice@example.com",
+      displayName: "Alice",
+      approved: true,
+      errors: [],
+    });
+  });
+
+  it("lists unapproved wallets for batchApprove", () => {
+    const result = validate([
+      [ALICE, "1"],
+      [CAROL, "1"],
+    ]);
+
+    expect(result.rows[1]).toMatchObject({ approved: false, errors: [] });
+    expect(result.unapprovedWallets).toEqual([CAROL]);
+    expect(result.valid).toBe(false);
+  });
+
+  it("flags invalid, unlinked, duplicate and zero rows", () => {
+    const result = validate([
+      ["not-an-address", "1"],
+      [DAVE, "1"],
+      [ALICE, "0"],
+      [ALICE.toUpperCase().replace("0X", "0x"), "1"],
+    ]);
+
+    expect(result.rows.map((row) => row.errors)).toEqual([
+      ["Invalid wallet address"],
+      ["Wallet is not linked to a user"],
+      ["Amount must be greater than zero"],
+      ["Duplicate of row 3"],
+    ]);
+    expect(result.unapprovedWallets).toEqual([DAVE]);
+    expect(result.valid).toBe(false);
+  });
+
+  it("rejects a batch above the authorized headroom", () => {
+    const result = validate([
+      [ALICE, "300"],
+      [BOB, "301"],
+    ]);
+
+    expect(result.rows.every((row) => row.errors.length === 0)).toBe(true);
+    expect(result).toMatchObject({ headroom: "600", withinHeadroom: false, valid: false });
+  });
+
+  it("flags rows the compliance would reject", () => {
+    const compliance = "0xc000000000000000000000000000000000000000";
+    const module = "0xa000000000000000000000000000000000000000";
+    db.run(`
+      INSERT INTO compliance_config_history (company_id, token_address, contract_address, config_type, compliance_address, module_address, module_name, wallet, value, block_number, log_index)
+      VALUES
+        (1, '${TOKEN}', '${compliance}', 'MODULE_ADDED', NULL, '${module}', 'AccreditedInvestor', NULL, NULL, 3, 0),
+        (1, '${TOKEN}', '${TOKEN}', 'COMPLIANCE_SET', '${compliance}', NULL, NULL, NULL, NULL, 3, 1),
+        (1, '${TOKEN}', '${module}', 'ACCREDITATION', NULL, NULL, NULL, '${BOB}', 1, 3, 2)
+    `);
+
+    expect(
+      validate([
+        [ALICE, "1"],
+        [BOB, "1"],
+      ]).rows.map((row) => row.errors)
+    ).toEqual([["Rejected by the compliance rules"], []]);
+  });
+
+  it("is not valid while the token is paused", () => {
+    db.run(`
+      INSERT INTO pause_history (company_id, token_address, paused, account, block_number, log_index)
+      VALUES (1, '${TOKEN}', 1, '${ALICE}', 3, 0)
+    `);
+
+    expect(validate([[ALICE, "1"]])).toMatchObject({ paused: true, valid: false });
+  });
+});
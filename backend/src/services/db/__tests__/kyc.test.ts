@@ -0,0 +1,205 @@
+/**
+ * @file Tests for the KYC request state machine
+ * @notice Validates review transitions and reconciliation against indexed allowlist events
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  createKycRequest,
+  getKycRequest,
+  getKycRequestTransitions,
+  getOpenKycRequest,
+  reconcileKycRequests,
+  transitionKycRequest,
+} from "../kyc";
+import { rollbackToBlock } from "../blocks";
+
+const COMPANY_ID = 1;
+const OTHER_COMPANY_ID = 2;
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const ISSUER = "0xdddddddddddddddddddddddddddddddddddddddd";
+const DOC_HASH = `0x${"ab".repeat(32)}`;
+
+function approveOnChain(
+  db: Database,
+  wallet: string,
+  blockNumber: number,
+  approved = true,
+  companyId = COMPANY_ID
+) {
+  db.prepare(
+    `INSERT INTO allowlist_history (company_id, wallet_address, issuer_address, approved, block_number, block_timestamp, log_index, tx_hash)
+     VALUES (?, ?, ?, ?, ?, NULL, 0, ?)`
+  ).run(companyId, wallet, ISSUER, approved ? 1 : 0, blockNumber, `0x${blockNumber}`);
+}
+
+describe("KYC request state machine", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xc1', '0xt1', 0), (2, 'Globex', 31337, '0xc2', '0xt2', 0)
+    `);
+    db.run(`
+      INSERT INTO users (uid, email, wallet_address, role)
+      VALUES
+        ('alice', 'alice@example.com', '${ALICE}', 'investor'),
+        ('issuer', 'issuer@example.com', '${ISSUER}', 'issuer')
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function submit() {
+    return createKycRequest(
+      db,
+      {
+        uid: "alice",
+        walletAddress: ALICE.toUpperCase().replace("0X", "0x"),
+        fullName: "Alice Example",
+        jurisdiction: "us",
+        accreditationStatus: "accredited",
+        documentHashes: [DOC_HASH],
+      },
+      1000
+    );
+  }
+
+  it("creates submitted requests with normalized fields and an audit row", () => {
+    const request = submit();
+
+    expect(request).toMatchObject({
+      uid: "alice",
+      walletAddress: ALICE,
+      jurisdiction: "US",
+      documentHashes: [DOC_HASH],
+      status: "submitted",
+      createdAt: 1000,
+    });
+    expect(getOpenKycRequest(db, "alice")?.id).toBe(request.id);
+    expect(getKycRequestTransitions(db, request.id)).toEqual([
+      {
+        id: 1,
+        requestId: request.id,
+        fromStatus: null,
+        toStatus: "submitted",
+        actorUid: "alice",
+        reason: null,
+        createdAt: 1000,
+      },
+    ]);
+  });
+
+  it("only allows submitted -> under_review -> approved | denied", () => {
+    const { id } = submit();
+
+    expect(transitionKycRequest(db, id, "approved", "issuer")).toBeNull();
+    expect(transitionKycRequest(db, id, "under_review", "issuer")?.status).toBe("under_review");
+    expect(transitionKycRequest(db, id, "under_review", "issuer")).toBeNull();
+
+    const denied = transitionKycRequest(db, id, "denied", "issuer", "Document expired");
+    expect(denied).toMatchObject({
+      status: "denied",
+      reviewerUid: "issuer",
+      decisionReason: "Document expired",
+    });
+    expect(transitionKycRequest(db, id, "approved", "issuer")).toBeNull();
+
+    // A denial closes the request, so the investor can submit again
+    expect(getOpenKycRequest(db, "alice")).toBeNull();
+    expect(getKycRequestTransitions(db, id).map((t) => t.toStatus)).toEqual([
+      "submitted",
+      "under_review",
+      "denied",
+    ]);
+  });
+
+  it("moves approved requests on-chain when WalletApproved is indexed", () => {
+    const { id } = submit();
+    transitionKycRequest(db, id, "under_review", "issuer");
+    expect(transitionKycRequest(db, id, "approved", "issuer")?.status).toBe("approved");
+
+    approveOnChain(db, ALICE, 42);
+    expect(reconcileKycRequests(db)).toEqual({ onChainApproved: 1, reverted: 0 });
+    expect(getKycRequest(db, id)).toMatchObject({
+      status: "on_chain_approved",
+      onChainBlockNumber: 42,
+      onChainTxHash: "0x42",
+    });
+
+    // Idempotent
+    expect(reconcileKycRequests(db)).toEqual({ onChainApproved: 0, reverted: 0 });
+  });
+
+  it("goes straight to on_chain_approved when the wallet is already on the allowlist", () => {
+    approveOnChain(db, ALICE, 5);
+    const { id } = submit();
+    transitionKycRequest(db, id, "under_review", "issuer");
+
+    expect(transitionKycRequest(db, id, "approved", "issuer")?.status).toBe("on_chain_approved");
+  });
+
+  it("does not move requests that are still under review", () => {
+    const { id } = submit();
+    transitionKycRequest(db, id, "under_review", "issuer");
+    approveOnChain(db, ALICE, 42);
+
+    expect(reconcileKycRequests(db)).toEqual({ onChainApproved: 0, reverted: 0 });
+    expect(getKycRequest(db, id)?.status).toBe("under_review");
+  });
+
+  it("reverts to approved when the wallet is revoked", () => {
+    const { id } = submit();
+    transitionKycRequest(db, id, "under_review", "issuer");
+    approveOnChain(db, ALICE, 42);
+    transitionKycRequest(db, id, "approved", "issuer");
+
+    approveOnChain(db, ALICE, 50, false);
+    expect(reconcileKycRequests(db)).toEqual({ onChainApproved: 0, reverted: 1 });
+    expect(getKycRequest(db, id)).toMatchObject({
+      status: "approved",
+      onChainBlockNumber: null,
+      onChainTxHash: null,
+    });
+  });
+
+  it("stays on-chain while the wallet is approved on any company", () => {
+    const { id } = submit();
+    transitionKycRequest(db, id, "under_review", "issuer");
+    approveOnChain(db, ALICE, 42, true, OTHER_COMPANY_ID);
+    transitionKycRequest(db, id, "approved", "issuer");
+    expect(getKycRequest(db, id)?.status).toBe("on_chain_approved");
+
+    approveOnChain(db, ALICE, 45);
+    approveOnChain(db, ALICE, 50, false, OTHER_COMPANY_ID);
+    expect(reconcileKycRequests(db)).toEqual({ onChainApproved: 0, reverted: 0 });
+
+    approveOnChain(db, ALICE, 55, false);
+    expect(reconcileKycRequests(db)).toEqual({ onChainApproved: 0, reverted: 1 });
+  });
+
+  it("reverts to approved when a reorg orphans the WalletApproved event", () => {
+    const { id } = submit();
+    transitionKycRequest(db, id, "under_review", "issuer");
+    transitionKycRequest(db, id, "approved", "issuer");
+    approveOnChain(db, ALICE, 42);
+    reconcileKycRequests(db);
+
+    rollbackToBlock(db, COMPANY_ID, 40);
+
+    expect(getKycRequest(db, id)?.status).toBe("approved");
+    expect(getKycRequestTransitions(db, id).at(-1)).toMatchObject({
+      fromStatus: "on_chain_approved",
+      toStatus: "approved",
+      actorUid: null,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @file Tests for lockup operations
+ * @notice Validates lock-up indexing, the global/wallet lock-up status of a wallet and
+ *         reorg rollback of lock-up data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  recordLockupChange,
+  getLockupSettings,
+  getWalletLockups,
+  getLockupStatus,
+  type LockupChangeInput,
+} from "../lockups";
+import { rollbackToBlock } from "../blocks";
+
+const TOKEN = "0xdddddddddddddddddddddddddddddddddddddddd";
+const OTHER_TOKEN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+
+const COMPANY_ID = 1;
+
+describe("Lockups", () => {
+  let db: Database;
+
+  function record(
+    lockupType: LockupChangeInput["lockupType"],
+    wallet: string | null,
+    value: number,
+    blockNumber: number,
+    tokenAddress = TOKEN
+  ): void {
+    recordLockupChange(db, COMPANY_ID, {
+      tokenAddress,
+      lockupType,
+      wallet,
+      value,
+      blockNumber,
+      blockTimestamp: blockNumber * 100,
+      logIndex: 0,
+      txHash: null,
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '${TOKEN}', 0)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("returns the latest global lock-up and holding period of the token", () => {
+    expect(getLockupSettings(db, COMPANY_ID, TOKEN)).toEqual({
+      globalLockupUntil: 0,
+      holdingPeriod: 0,
+    });
+
+    record("GLOBAL", null, 5000, 10);
+    record("HOLDING_PERIOD", null, 86400, 11);
+    record("GLOBAL", null, 6000, 12);
+    record("GLOBAL", null, 9999, 13, OTHER_TOKEN);
+
+    expect(getLockupSettings(db, COMPANY_ID, TOKEN)).toEqual({
+      globalLockupUntil: 6000,
+      holdingPeriod: 86400,
+    });
+  });
+
+  it("lists the latest lock-up of each wallet", () => {
+    record("WALLET", ALICE, 5000, 10);
+    record("WALLET", BOB, 3000, 11);
+    record("WALLET", ALICE, 0, 12);
+
+    expect(
+      getWalletLockups(db, COMPANY_ID, TOKEN).map((l) => [l.wallet, l.value])
+    ).toEqual([
+      [ALICE, 0],
+      [BOB, 3000],
+    ]);
+  });
+
+  it("reports the lock-up that blocks a wallet and until when", () => {
+    record("GLOBAL", null, 5000, 10);
+    record("WALLET", ALICE, 8000, 11);
+
+    expect(getLockupStatus(db, COMPANY_ID, TOKEN, ALICE, 4000)).toMatchObject({
+      wallet: ALICE,
+      walletLockupUntil: 8000,
+      lockedUntil: 8000,
+      locked: true,
+      reason: "WALLET",
+    });
+    expect(getLockupStatus(db, COMPANY_ID, TOKEN, BOB, 4000)).toMatchObject({
+      lockedUntil: 5000,
+      locked: true,
+      reason: "GLOBAL",
+    });
+    expect(getLockupStatus(db, COMPANY_ID, TOKEN, BOB, 5000)).toMatchObject({
+      locked: false,
+      reason: null,
+    });
+  });
+
+  it("rolls back lock-ups above a fork point", () => {
+    record("GLOBAL", null, 5000, 10);
+    record("GLOBAL", null, 0, 20);
+
+    rollbackToBlock(db, COMPANY_ID, 15);
+
+    expect(getLockupSettings(db, COMPANY_ID, TOKEN).globalLockupUntil).toBe(5000);
+  });
+});
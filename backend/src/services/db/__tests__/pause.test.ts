@@ -0,0 +1,74 @@
+/**
+ * @file Tests for pause operations
+ * @notice Validates Paused/Unpaused indexing, the current pause state of a token and reorg
+ *         rollback of pause data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import { recordPauseChange, getLatestPauseChange, isTokenPaused } from "../pause";
+import { rollbackToBlock } from "../blocks";
+
+const TOKEN = "0xdddddddddddddddddddddddddddddddddddddddd";
+const OTHER_TOKEN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+const PAUSER = "0x1111111111111111111111111111111111111111";
+
+const COMPANY_ID = 1;
+
+describe("Pause", () => {
+  let db: Database;
+
+  function record(paused: boolean, blockNumber: number, tokenAddress = TOKEN): boolean {
+    return recordPauseChange(db, COMPANY_ID, {
+      tokenAddress,
+      paused,
+      account: PAUSER,
+      blockNumber,
+      blockTimestamp: blockNumber * 100,
+      logIndex: 0,
+      txHash: null,
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '${TOKEN}', 0)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("follows the latest Paused or Unpaused event of the token", () => {
+    expect(isTokenPaused(db, COMPANY_ID, TOKEN)).toBe(false);
+    expect(getLatestPauseChange(db, COMPANY_ID, TOKEN)).toBeNull();
+
+    expect(record(true, 10)).toBe(true);
+    expect(record(true, 10)).toBe(false);
+    expect(isTokenPaused(db, COMPANY_ID, TOKEN)).toBe(true);
+    expect(getLatestPauseChange(db, COMPANY_ID, TOKEN)).toMatchObject({
+      paused: true,
+      account: PAUSER,
+      blockTimestamp: 1000,
+    });
+
+    record(false, 11);
+    record(true, 12, OTHER_TOKEN);
+    expect(isTokenPaused(db, COMPANY_ID, TOKEN)).toBe(false);
+  });
+
+  it("rolls back pause changes above a fork point", () => {
+    record(true, 10);
+    record(false, 20);
+
+    rollbackToBlock(db, COMPANY_ID, 15);
+
+    expect(isTokenPaused(db, COMPANY_ID, TOKEN)).toBe(true);
+  });
+});
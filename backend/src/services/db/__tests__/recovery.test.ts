@@ -0,0 +1,267 @@
+/**
+ * @file Tests for forced transfers and the wallet recovery request state machine
+ * @notice Validates indexing of ForcedTransfer/WalletRecovered, admin decisions and
+ *         reconciliation against indexed recoveries
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  createRecoveryRequest,
+  getForcedTransferType,
+  getOpenRecoveryRequest,
+  getRecoveryRequest,
+  getRecoveryRequestTransitions,
+  getRecoveryTrail,
+  listRecoveryRequests,
+  reconcileRecoveryRequests,
+  recordForcedTransfer,
+  transitionRecoveryRequest,
+} from "../recovery";
+import { rollbackToBlock } from "../blocks";
+
+const COMPANY_ID = 1;
+const OTHER_COMPANY_ID = 2;
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const LOST = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const NEW = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const CAROL = "0xcccccccccccccccccccccccccccccccccccccccc";
+
+function recordRecovery(
+  db: Database,
+  blockNumber: number,
+  companyId = COMPANY_ID,
+  from = LOST,
+  to = NEW
+) {
+  return recordForcedTransfer(db, companyId, {
+    tokenAddress: TOKEN,
+    transferType: "WALLET_RECOVERY",
+    fromAddress: from,
+    toAddress: to,
+    amount: 100n,
+    reasonCode: 1,
+    blockNumber,
+    blockTimestamp: 1000 + blockNumber,
+    logIndex: 3,
+    txHash: `0x${blockNumber}`,
+  });
+}
+
+describe("Wallet recovery", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xc1', '${TOKEN}', 0), (2, 'Globex', 31337, '0xc2', '0xt2', 0)
+    `);
+    db.run(`
+      INSERT INTO users (uid, email, wallet_address, role)
+      VALUES
+        ('alice', 'alice@example.com', '${NEW}', 'investor'),
+        ('admin', 'admin@example.com', NULL, 'admin')
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  function request(companyId = COMPANY_ID) {
+    return createRecoveryRequest(
+      db,
+      companyId,
+      {
+        requesterUid: "alice",
+        lostWallet: LOST.toUpperCase().replace("0X", "0x"),
+        newWallet: NEW,
+        reason: "Hardware wallet destroyed",
+      },
+      1000
+    );
+  }
+
+  describe("forced transfers", () => {
+    it("records each event once and retypes the Transfer indexed before it", () => {
+      db.run(`
+        INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+        VALUES (1, '0x10', '${LOST}', '${NEW}', '100', 10, 1010, 2, 'TRANSFER'),
+               (1, '0x11', '${LOST}', '${NEW}', '100', 11, 1011, 2, 'TRANSFER')
+      `);
+
+      expect(recordRecovery(db, 10)).toBe(true);
+      expect(recordRecovery(db, 10)).toBe(false);
+
+      const types = db
+        .prepare("SELECT event_type AS eventType FROM transactions ORDER BY block_number")
+        .all() as { eventType: string }[];
+      expect(types.map((row) => row.eventType)).toEqual(["WALLET_RECOVERY", "TRANSFER"]);
+    });
+
+    it("types a Transfer indexed after its forced transfer event", () => {
+      recordForcedTransfer(db, COMPANY_ID, {
+        tokenAddress: TOKEN,
+        transferType: "FORCED_TRANSFER",
+        fromAddress: CAROL,
+        toAddress: NEW,
+        amount: 40n,
+        reasonCode: 2,
+        blockNumber: 7,
+        blockTimestamp: null,
+        logIndex: 1,
+        txHash: "0x7",
+      });
+
+      expect(getForcedTransferType(db, COMPANY_ID, "0x7", CAROL, NEW, 40n)).toBe(
+        "FORCED_TRANSFER"
+      );
+      expect(getForcedTransferType(db, COMPANY_ID, "0x7", CAROL, NEW, 41n)).toBeNull();
+      expect(getForcedTransferType(db, OTHER_COMPANY_ID, "0x7", CAROL, NEW, 40n)).toBeNull();
+    });
+  });
+
+  describe("recovery requests", () => {
+    it("creates pending requests with normalized wallets and an audit row", () => {
+      const created = request();
+
+      expect(created).toMatchObject({
+        requesterUid: "alice",
+        lostWallet: LOST,
+        newWallet: NEW,
+        status: "pending",
+        createdAt: 1000,
+      });
+      expect(getOpenRecoveryRequest(db, COMPANY_ID, LOST)?.id).toBe(created.id);
+      expect(getOpenRecoveryRequest(db, OTHER_COMPANY_ID, LOST)).toBeNull();
+      expect(getRecoveryRequest(db, OTHER_COMPANY_ID, created.id)).toBeNull();
+      expect(getRecoveryRequestTransitions(db, created.id)).toEqual([
+        {
+          id: 1,
+          requestId: created.id,
+          fromStatus: null,
+          toStatus: "pending",
+          actorUid: "alice",
+          reason: "Hardware wallet destroyed",
+          createdAt: 1000,
+        },
+      ]);
+    });
+
+    it("only allows pending -> approved | rejected", () => {
+      const { id } = request();
+
+      const rejected = transitionRecoveryRequest(
+        db,
+        COMPANY_ID,
+        id,
+        "rejected",
+        "admin",
+        "Identity not verified"
+      );
+      expect(rejected).toMatchObject({
+        status: "rejected",
+        reviewerUid: "admin",
+        decisionReason: "Identity not verified",
+      });
+      expect(transitionRecoveryRequest(db, COMPANY_ID, id, "approved", "admin")).toBeNull();
+
+      // A rejection closes the request, so a new one can be filed
+      expect(getOpenRecoveryRequest(db, COMPANY_ID, LOST)).toBeNull();
+      expect(listRecoveryRequests(db, COMPANY_ID, "rejected")).toHaveLength(1);
+      expect(listRecoveryRequests(db, COMPANY_ID, "pending")).toEqual([]);
+    });
+
+    it("moves approved requests to executed when WalletRecovered is indexed", () => {
+      const { id } = request();
+      expect(transitionRecoveryRequest(db, COMPANY_ID, id, "approved", "admin")?.status).toBe(
+        "approved"
+      );
+
+      // A recovery to another wallet does not execute the request
+      recordRecovery(db, 41, COMPANY_ID, LOST, CAROL);
+      expect(reconcileRecoveryRequests(db, COMPANY_ID)).toEqual({ executed: 0, reverted: 0 });
+
+      recordRecovery(db, 42);
+      expect(reconcileRecoveryRequests(db, COMPANY_ID)).toEqual({ executed: 1, reverted: 0 });
+      expect(getRecoveryRequest(db, COMPANY_ID, id)).toMatchObject({
+        status: "executed",
+        executedBlockNumber: 42,
+        executedTxHash: "0x42",
+      });
+
+      // Idempotent
+      expect(reconcileRecoveryRequests(db, COMPANY_ID)).toEqual({ executed: 0, reverted: 0 });
+    });
+
+    it("does not execute pending requests or requests of another company", () => {
+      const { id } = request();
+      const other = request(OTHER_COMPANY_ID);
+      transitionRecoveryRequest(db, OTHER_COMPANY_ID, other.id, "approved", "admin");
+      recordRecovery(db, 42);
+
+      expect(reconcileRecoveryRequests(db, COMPANY_ID)).toEqual({ executed: 0, reverted: 0 });
+      expect(reconcileRecoveryRequests(db, OTHER_COMPANY_ID)).toEqual({
+        executed: 0,
+        reverted: 0,
+      });
+      expect(getRecoveryRequest(db, COMPANY_ID, id)?.status).toBe("pending");
+    });
+
+    it("goes straight to executed when the recovery is already indexed", () => {
+      recordRecovery(db, 5);
+      const { id } = request();
+
+      expect(transitionRecoveryRequest(db, COMPANY_ID, id, "approved", "admin")?.status).toBe(
+        "executed"
+      );
+    });
+
+    it("reverts to approved when a reorg orphans the WalletRecovered event", () => {
+      const { id } = request();
+      transitionRecoveryRequest(db, COMPANY_ID, id, "approved", "admin");
+      recordRecovery(db, 42);
+      reconcileRecoveryRequests(db, COMPANY_ID);
+
+      rollbackToBlock(db, COMPANY_ID, 40);
+
+      expect(getRecoveryRequest(db, COMPANY_ID, id)).toMatchObject({
+        status: "approved",
+        executedBlockNumber: null,
+      });
+      expect(getRecoveryRequestTransitions(db, id).at(-1)).toMatchObject({
+        fromStatus: "executed",
+        toStatus: "approved",
+        actorUid: null,
+      });
+    });
+  });
+
+  it("returns the recovery trail of both wallets", () => {
+    const { id } = request();
+    transitionRecoveryRequest(db, COMPANY_ID, id, "approved", "admin");
+    recordRecovery(db, 42);
+    reconcileRecoveryRequests(db, COMPANY_ID);
+
+    for (const wallet of [LOST, NEW]) {
+      const trail = getRecoveryTrail(db, COMPANY_ID, wallet);
+      expect(trail.requests).toHaveLength(1);
+      expect(trail.requests[0]!.transitions.map((t) => t.toStatus)).toEqual([
+        "pending",
+        "approved",
+        "executed",
+      ]);
+      expect(trail.forcedTransfers).toMatchObject([
+        { transferType: "WALLET_RECOVERY", fromAddress: LOST, toAddress: NEW, amount: "100" },
+      ]);
+    }
+    expect(getRecoveryTrail(db, COMPANY_ID, CAROL)).toEqual({
+      requests: [],
+      forcedTransfers: [],
+    });
+  });
+});
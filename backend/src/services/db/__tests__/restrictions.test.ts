@@ -0,0 +1,173 @@
+/**
+ * @file Tests for transfer restriction checks
+ * @notice Validates ERC-1404 restriction codes derived from the indexed pause state, allowlist,
+ *         Merkle allowlist, transfer restriction flag, lock-ups, vesting grants, compliance modules
+ *         and balances
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  RESTRICTION_CODES,
+  detectTransferRestriction,
+} from "../restrictions";
+import { isTransfersRestricted } from "../allowlist";
+
+const TOKEN = "0xdddddddddddddddddddddddddddddddddddddddd";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const CAROL = "0x3333333333333333333333333333333333333333";
+
+const COMPANY_ID = 1;
+const NOW = 1_000_000;
+
+describe("Transfer restrictions", () => {
+  let db: Database;
+
+  function detect(from: string, to: string, amount: bigint) {
+    return detectTransferRestriction(db, COMPANY_ID, TOKEN, {
+      from,
+      to,
+      amount,
+      timestamp: NOW,
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '${TOKEN}', 0)
+    `);
+    db.run(`
+      INSERT INTO allowlist_history (company_id, wallet_address, approved, block_number, log_index)
+      VALUES (1, '${ALICE}', 1, 1, 0), (1, '${BOB}', 1, 1, 1)
+    `);
+    db.run(`
+      INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+      VALUES (1, '${ALICE}', '100', '100', 2)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("allows a transfer between approved wallets", () => {
+    expect(detect(ALICE, BOB, 100n)).toEqual({
+      code: RESTRICTION_CODES.SUCCESS,
+      restricted: false,
+      message: "No restriction",
+      balance: "100",
+      sufficientBalance: true,
+    });
+    expect(detect(ALICE, BOB, 101n)).toMatchObject({
+      restricted: false,
+      sufficientBalance: false,
+    });
+  });
+
+  it("detects a sender or recipient missing from the allowlist", () => {
+    expect(detect(ALICE, CAROL, 1n)).toMatchObject({
+      code: RESTRICTION_CODES.RECIPIENT_NOT_APPROVED,
+      restricted: true,
+      message: "ChainEquityToken: recipient not approved",
+    });
+    expect(detect(CAROL, ALICE, 1n).code).toBe(
+      RESTRICTION_CODES.SENDER_NOT_APPROVED
+    );
+  });
+
+  it("accepts wallets in the published Merkle allowlist", () => {
+    const root = `0x${"ab".repeat(32)}`;
+    db.run(`
+      INSERT INTO allowlist_trees (company_id, root, wallets, created_at)
+      VALUES (1, '${root}', '["${CAROL}"]', 0)
+    `);
+    expect(detect(ALICE, CAROL, 1n).code).toBe(
+      RESTRICTION_CODES.RECIPIENT_NOT_APPROVED
+    );
+
+    db.run(`
+      INSERT INTO allowlist_root_history (company_id, token_address, old_root, new_root, block_number, log_index)
+      VALUES (1, '${TOKEN}', '0x${"0".repeat(64)}', '${root}', 3, 0)
+    `);
+    expect(detect(ALICE, CAROL, 1n).code).toBe(RESTRICTION_CODES.SUCCESS);
+  });
+
+  it("ignores the allowlist while transfers are unrestricted", () => {
+    expect(isTransfersRestricted(db, COMPANY_ID)).toBe(true);
+    db.run(`
+      INSERT INTO transfer_restriction_history (company_id, restricted, block_number, log_index)
+      VALUES (1, 0, 3, 0)
+    `);
+
+    expect(isTransfersRestricted(db, COMPANY_ID)).toBe(false);
+    expect(detect(ALICE, CAROL, 1n).code).toBe(RESTRICTION_CODES.SUCCESS);
+  });
+
+  it("detects a sender under lock-up", () => {
+    db.run(`
+      INSERT INTO lockup_history (company_id, token_address, lockup_type, wallet, value, block_number, log_index)
+      VALUES (1, '${TOKEN}', 'WALLET', '${ALICE}', ${NOW + 1}, 3, 0)
+    `);
+
+    expect(detect(ALICE, BOB, 1n)).toMatchObject({
+      code: RESTRICTION_CODES.SENDER_LOCKED_UP,
+      message: "ChainEquityToken: sender is locked up",
+    });
+  });
+
+  it("detects a transfer of unvested shares", () => {
+    // 40 of the 100 shares are granted, vesting linearly from NOW over 1000 seconds
+    db.run(`
+      INSERT INTO vesting_grants (company_id, token_address, grant_id, beneficiary, amount, start_time, cliff_duration, duration, release_interval, block_number, log_index)
+      VALUES (1, '${TOKEN}', 1, '${ALICE}', '40', ${NOW}, 0, 1000, 1, 3, 0)
+    `);
+
+    expect(detect(ALICE, BOB, 60n).code).toBe(RESTRICTION_CODES.SUCCESS);
+    expect(detect(ALICE, BOB, 61n)).toMatchObject({
+      code: RESTRICTION_CODES.EXCEEDS_VESTED_BALANCE,
+      message: "ChainEquityToken: transfer exceeds vested balance",
+    });
+  });
+
+  it("detects a transfer rejected by the compliance", () => {
+    const compliance = "0xc000000000000000000000000000000000000000";
+    const module = "0xa000000000000000000000000000000000000000";
+    db.run(`
+      INSERT INTO compliance_config_history (company_id, token_address, contract_address, config_type, compliance_address, module_address, module_name, wallet, value, block_number, log_index)
+      VALUES
+        (1, '${TOKEN}', '${compliance}', 'MODULE_ADDED', NULL, '${module}', 'AccreditedInvestor', NULL, NULL, 3, 0),
+        (1, '${TOKEN}', '${TOKEN}', 'COMPLIANCE_SET', '${compliance}', NULL, NULL, NULL, NULL, 3, 1),
+        (1, '${TOKEN}', '${module}', 'ACCREDITATION', NULL, NULL, NULL, '${BOB}', 1, 3, 2)
+    `);
+
+    expect(detect(ALICE, BOB, 1n).code).toBe(RESTRICTION_CODES.SUCCESS);
+    expect(detect(BOB, ALICE, 1n)).toMatchObject({
+      code: RESTRICTION_CODES.COMPLIANCE_CHECK_FAILED,
+      message: "ChainEquityToken: compliance check failed",
+    });
+  });
+
+  it("detects a paused token before any other restriction", () => {
+    db.run(`
+      INSERT INTO pause_history (company_id, token_address, paused, account, block_number, log_index)
+      VALUES (1, '${TOKEN}', 1, '${ALICE}', 3, 0)
+    `);
+
+    expect(detect(ALICE, CAROL, 1n)).toMatchObject({
+      code: RESTRICTION_CODES.TOKEN_PAUSED,
+      message: "ChainEquityToken: token is paused",
+    });
+
+    db.run(`
+      INSERT INTO pause_history (company_id, token_address, paused, account, block_number, log_index)
+      VALUES (1, '${TOKEN}', 0, '${ALICE}', 4, 0)
+    `);
+    expect(detect(ALICE, BOB, 1n).code).toBe(RESTRICTION_CODES.SUCCESS);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * @file Tests for on-chain role operations
+ * @notice Validates role grant/revoke indexing, current role holders, per-company role checks,
+ *         closing grants on token replacement and reorg rollback of role data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+import { ONCHAIN_ROLES } from "../../../types/roles";
+
+import {
+  recordRoleChange,
+  getRoleHolders,
+  getRoleHistory,
+  getCompanyRoles,
+  holdsCompanyRole,
+} from "../roles";
+import { rollbackToBlock } from "../blocks";
+import { recordTokenReplacement } from "../tokens";
+
+const TOKEN = "0xdddddddddddddddddddddddddddddddddddddddd";
+const CAP_TABLE = "0xcccccccccccccccccccccccccccccccccccccccc";
+const ISSUER = "0x1111111111111111111111111111111111111111";
+const OFFICER = "0x2222222222222222222222222222222222222222";
+const INVESTOR = "0x3333333333333333333333333333333333333333";
+
+const COMPANY_ID = 1;
+
+describe("Roles", () => {
+  let db: Database;
+
+  function record(
+    action: "GRANTED" | "REVOKED",
+    roleHash: string,
+    account: string,
+    blockNumber: number,
+    contractAddress = TOKEN
+  ): void {
+    recordRoleChange(db, COMPANY_ID, {
+      contractAddress,
+      roleHash,
+      account,
+      sender: ISSUER,
+      action,
+      blockNumber,
+      blockTimestamp: blockNumber * 100,
+      logIndex: 0,
+      txHash: null,
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${CAP_TABLE}', '${TOKEN}', 0)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("names known role hashes and ignores duplicate events", () => {
+    record("GRANTED", ONCHAIN_ROLES.MINTER_ROLE, OFFICER, 10);
+    record("GRANTED", ONCHAIN_ROLES.MINTER_ROLE, OFFICER, 10);
+    record("GRANTED", "0x" + "ab".repeat(32), OFFICER, 11);
+
+    expect(getRoleHistory(db, COMPANY_ID).map((r) => [r.roleName, r.blockNumber])).toEqual([
+      [null, 11],
+      ["MINTER_ROLE", 10],
+    ]);
+  });
+
+  it("lists the accounts whose latest event per contract and role is a grant", () => {
+    record("GRANTED", ONCHAIN_ROLES.DEFAULT_ADMIN_ROLE, ISSUER, 10);
+    record("GRANTED", ONCHAIN_ROLES.COMPLIANCE_ROLE, OFFICER, 11);
+    record("GRANTED", ONCHAIN_ROLES.CORPORATE_ACTIONS_ROLE, OFFICER, 12, CAP_TABLE);
+    record("REVOKED", ONCHAIN_ROLES.COMPLIANCE_ROLE, OFFICER, 13);
+
+    expect(
+      getRoleHolders(db, COMPANY_ID).map((r) => [r.contractAddress, r.roleName, r.account])
+    ).toEqual([
+      [CAP_TABLE, "CORPORATE_ACTIONS_ROLE", OFFICER],
+      [TOKEN, "DEFAULT_ADMIN_ROLE", ISSUER],
+    ]);
+    expect(getRoleHistory(db, COMPANY_ID, ISSUER)).toHaveLength(1);
+  });
+
+  it("checks role holders per company", () => {
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (2, 'Other', 31337, '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee', '0xffffffffffffffffffffffffffffffffffffffff', 0)
+    `);
+    record("GRANTED", ONCHAIN_ROLES.MINTER_ROLE, OFFICER, 11);
+    record("GRANTED", ONCHAIN_ROLES.CORPORATE_ACTIONS_ROLE, OFFICER, 12, CAP_TABLE);
+
+    expect(getCompanyRoles(db, COMPANY_ID, OFFICER.toUpperCase().replace("0X", "0x"))).toEqual([
+      "CORPORATE_ACTIONS_ROLE",
+      "MINTER_ROLE",
+    ]);
+    expect(holdsCompanyRole(db, COMPANY_ID, OFFICER, ["MINTER_ROLE"])).toBe(true);
+    expect(holdsCompanyRole(db, COMPANY_ID, OFFICER, ["COMPLIANCE_ROLE"])).toBe(false);
+    expect(holdsCompanyRole(db, 2, OFFICER, ["MINTER_ROLE"])).toBe(false);
+    expect(holdsCompanyRole(db, COMPANY_ID, INVESTOR, ["MINTER_ROLE"])).toBe(false);
+
+    record("REVOKED", ONCHAIN_ROLES.MINTER_ROLE, OFFICER, 13);
+    expect(holdsCompanyRole(db, COMPANY_ID, OFFICER, ["MINTER_ROLE"])).toBe(false);
+    expect(holdsCompanyRole(db, COMPANY_ID, OFFICER, ["CORPORATE_ACTIONS_ROLE"])).toBe(true);
+
+    record("REVOKED", ONCHAIN_ROLES.CORPORATE_ACTIONS_ROLE, OFFICER, 14, CAP_TABLE);
+    expect(getCompanyRoles(db, COMPANY_ID, OFFICER)).toEqual([]);
+  });
+
+  it("closes the old token's grants when the token is replaced", () => {
+    record("GRANTED", ONCHAIN_ROLES.MINTER_ROLE, OFFICER, 10);
+    record("GRANTED", ONCHAIN_ROLES.COMPLIANCE_ROLE, INVESTOR, 11);
+    record("REVOKED", ONCHAIN_ROLES.COMPLIANCE_ROLE, INVESTOR, 12);
+    record("GRANTED", ONCHAIN_ROLES.CORPORATE_ACTIONS_ROLE, OFFICER, 13, CAP_TABLE);
+
+    recordTokenReplacement(db, COMPANY_ID, {
+      oldToken: TOKEN,
+      newToken: "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee",
+      migrationBlock: 15,
+      blockNumber: 20,
+      blockTimestamp: 2000,
+      logIndex: 1,
+      txHash: "0x20",
+    });
+
+    expect(getCompanyRoles(db, COMPANY_ID, OFFICER)).toEqual(["CORPORATE_ACTIONS_ROLE"]);
+    expect(getRoleHolders(db, COMPANY_ID).map((r) => r.contractAddress)).toEqual([CAP_TABLE]);
+    expect(getRoleHistory(db, COMPANY_ID, OFFICER)[0]).toMatchObject({
+      contractAddress: TOKEN,
+      roleName: "MINTER_ROLE",
+      action: "REVOKED",
+      sender: CAP_TABLE,
+      blockNumber: 20,
+      logIndex: 1,
+    });
+    // Only the open grant is closed
+    expect(getRoleHistory(db, COMPANY_ID, INVESTOR)).toHaveLength(2);
+
+    rollbackToBlock(db, COMPANY_ID, 15);
+    expect(holdsCompanyRole(db, COMPANY_ID, OFFICER, ["MINTER_ROLE"])).toBe(true);
+  });
+
+  it("rolls back role changes above a fork point", () => {
+    record("GRANTED", ONCHAIN_ROLES.MINTER_ROLE, OFFICER, 10);
+    record("REVOKED", ONCHAIN_ROLES.MINTER_ROLE, OFFICER, 20);
+    expect(holdsCompanyRole(db, COMPANY_ID, OFFICER, ["MINTER_ROLE"])).toBe(false);
+
+    rollbackToBlock(db, COMPANY_ID, 15);
+
+    expect(getRoleHolders(db, COMPANY_ID).map((r) => r.account)).toEqual([OFFICER]);
+    expect(holdsCompanyRole(db, COMPANY_ID, OFFICER, ["MINTER_ROLE"])).toBe(true);
+  });
+});
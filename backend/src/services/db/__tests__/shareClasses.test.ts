@@ -0,0 +1,257 @@
+/**
+ * @file Tests for share class operations
+ * @notice Validates share class registration, per-class ledgers, historical holdings,
+ *         fully diluted ownership and reorg rollback of class data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  recordShareClass,
+  getShareClasses,
+  getShareClassByToken,
+  applyShareClassBalanceChange,
+  getShareClassBalanceChanges,
+  getShareClassHoldings,
+  getFullyDilutedCapTable,
+  getFullyDilutedPosition,
+} from "../shareClasses";
+import { rollbackToBlock } from "../blocks";
+
+const SERIES_A = "0xAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAaAa";
+const SERIES_B = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const E18 = 10n ** 18n;
+
+const COMPANY_ID = 1;
+
+describe("Share classes", () => {
+  let db: Database;
+
+  // Series A (2:1 conversion) at block 10, Series B (1:1, more senior) at block 20
+  function addClasses(): void {
+    recordShareClass(db, COMPANY_ID, {
+      classId: 1,
+      name: "Series A Preferred",
+      tokenAddress: SERIES_A,
+      authorizedShares: 1000n * E18,
+      liquidationPreference: E18,
+      conversionRatio: 2n * E18,
+      seniority: 1,
+      blockNumber: 10,
+      blockTimestamp: 1000,
+      logIndex: 0,
+      txHash: "0x10",
+    });
+    recordShareClass(db, COMPANY_ID, {
+      classId: 2,
+      name: "Series B Preferred",
+      tokenAddress: SERIES_B,
+      authorizedShares: 500n * E18,
+      liquidationPreference: 2n * E18,
+      conversionRatio: E18,
+      seniority: 2,
+      blockNumber: 20,
+      blockTimestamp: 2000,
+      logIndex: 0,
+      txHash: "0x20",
+    });
+  }
+
+  function issue(
+    classId: number,
+    address: string,
+    amount: bigint,
+    blockNumber: number
+  ): void {
+    applyShareClassBalanceChange(db, COMPANY_ID, classId, {
+      address,
+      delta: amount,
+      changeType: "ISSUED",
+      blockNumber,
+      blockTimestamp: blockNumber * 100,
+      logIndex: 1,
+      txHash: null,
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '0xdddddddddddddddddddddddddddddddddddddddd', 0)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("records each class once and looks classes up by token", () => {
+    addClasses();
+
+    expect(
+      recordShareClass(db, COMPANY_ID, {
+        classId: 1,
+        name: "Series A Preferred",
+        tokenAddress: SERIES_A,
+        authorizedShares: 1000n * E18,
+        liquidationPreference: E18,
+        conversionRatio: 2n * E18,
+        seniority: 1,
+        blockNumber: 10,
+        blockTimestamp: 1000,
+        logIndex: 0,
+        txHash: "0x10",
+      })
+    ).toBe(false);
+    expect(getShareClasses(db, COMPANY_ID).map((c) => c.classId)).toEqual([1, 2]);
+    expect(getShareClasses(db, COMPANY_ID, 15).map((c) => c.classId)).toEqual([1]);
+    expect(getShareClassByToken(db, COMPANY_ID, SERIES_A)).toMatchObject({
+      classId: 1,
+      tokenAddress: SERIES_A.toLowerCase(),
+      conversionRatio: (2n * E18).toString(),
+    });
+    expect(getShareClassByToken(db, COMPANY_ID, ALICE)).toBeNull();
+  });
+
+  it("keeps a ledger per class and skips changes already applied", () => {
+    addClasses();
+    issue(1, ALICE, 10n * E18, 11);
+    issue(1, ALICE, 10n * E18, 11);
+    applyShareClassBalanceChange(db, COMPANY_ID, 1, {
+      address: ALICE,
+      delta: -4n * E18,
+      changeType: "TRANSFER_OUT",
+      blockNumber: 12,
+      blockTimestamp: 1200,
+      logIndex: 0,
+      txHash: null,
+    });
+    applyShareClassBalanceChange(db, COMPANY_ID, 1, {
+      address: BOB,
+      delta: 4n * E18,
+      changeType: "TRANSFER_IN",
+      blockNumber: 12,
+      blockTimestamp: 1200,
+      logIndex: 0,
+      txHash: null,
+    });
+    issue(2, ALICE, 5n * E18, 21);
+
+    expect(
+      getShareClassBalanceChanges(db, COMPANY_ID, ALICE).map((c) => [
+        c.classId,
+        c.balanceAfter,
+      ])
+    ).toEqual([
+      [1, (10n * E18).toString()],
+      [1, (6n * E18).toString()],
+      [2, (5n * E18).toString()],
+    ]);
+    expect(getShareClassHoldings(db, COMPANY_ID)).toEqual([
+      { classId: 1, address: ALICE, balance: (6n * E18).toString() },
+      { classId: 1, address: BOB, balance: (4n * E18).toString() },
+      { classId: 2, address: ALICE, balance: (5n * E18).toString() },
+    ]);
+    expect(getShareClassHoldings(db, COMPANY_ID, 11)).toEqual([
+      { classId: 1, address: ALICE, balance: (10n * E18).toString() },
+    ]);
+  });
+
+  it("rejects changes that would make a class balance negative", () => {
+    addClasses();
+    issue(1, ALICE, E18, 11);
+
+    expect(() =>
+      applyShareClassBalanceChange(db, COMPANY_ID, 1, {
+        address: ALICE,
+        delta: -2n * E18,
+        changeType: "REDEEMED",
+        blockNumber: 12,
+        blockTimestamp: 1200,
+        logIndex: 0,
+        txHash: null,
+      })
+    ).toThrow("would become negative");
+  });
+
+  it("converts every class into common for fully diluted ownership", () => {
+    addClasses();
+    issue(1, ALICE, 10n * E18, 11);
+    issue(2, BOB, 20n * E18, 21);
+
+    // 60 effective common shares: 20 as-converted Series A + 20 Series B → 100 fully diluted
+    const capTable = getFullyDilutedCapTable(db, COMPANY_ID, 60n * E18);
+
+    expect(capTable.totalFullyDiluted).toBe(100n * E18);
+    expect(capTable.shareClasses).toEqual([
+      {
+        classId: 1,
+        name: "Series A Preferred",
+        tokenAddress: SERIES_A.toLowerCase(),
+        authorizedShares: (1000n * E18).toString(),
+        outstandingShares: (10n * E18).toString(),
+        asConvertedShares: (20n * E18).toString(),
+        liquidationPreference: E18.toString(),
+        conversionRatio: (2n * E18).toString(),
+        seniority: 1,
+      },
+      {
+        classId: 2,
+        name: "Series B Preferred",
+        tokenAddress: SERIES_B,
+        authorizedShares: (500n * E18).toString(),
+        outstandingShares: (20n * E18).toString(),
+        asConvertedShares: (20n * E18).toString(),
+        liquidationPreference: (2n * E18).toString(),
+        conversionRatio: E18.toString(),
+        seniority: 2,
+      },
+    ]);
+    expect(getFullyDilutedPosition(capTable, ALICE, 30n * E18)).toEqual({
+      classHoldings: [
+        {
+          classId: 1,
+          balance: (10n * E18).toString(),
+          asConvertedBalance: (20n * E18).toString(),
+        },
+      ],
+      fullyDilutedBalance: (50n * E18).toString(),
+      fullyDilutedPercentage: 50,
+    });
+    expect(getFullyDilutedPosition(capTable, BOB, 0n)).toMatchObject({
+      fullyDilutedBalance: (20n * E18).toString(),
+      fullyDilutedPercentage: 20,
+    });
+  });
+
+  it("builds the fully diluted cap table at a historical block", () => {
+    addClasses();
+    issue(1, ALICE, 10n * E18, 11);
+    issue(2, BOB, 20n * E18, 21);
+
+    const capTable = getFullyDilutedCapTable(db, COMPANY_ID, 60n * E18, 15);
+
+    expect(capTable.shareClasses.map((c) => c.classId)).toEqual([1]);
+    expect(capTable.totalFullyDiluted).toBe(80n * E18);
+    expect(capTable.holdings.has(BOB)).toBe(false);
+  });
+
+  it("rolls back share classes and class balance changes above a fork point", () => {
+    addClasses();
+    issue(1, ALICE, 10n * E18, 11);
+    issue(2, BOB, 20n * E18, 21);
+
+    rollbackToBlock(db, COMPANY_ID, 15);
+
+    expect(getShareClasses(db, COMPANY_ID).map((c) => c.classId)).toEqual([1]);
+    expect(getShareClassHoldings(db, COMPANY_ID)).toEqual([
+      { classId: 1, address: ALICE, balance: (10n * E18).toString() },
+    ]);
+  });
+});
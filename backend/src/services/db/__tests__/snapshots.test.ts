@@ -0,0 +1,168 @@
+/**
+ * @file Tests for the historical cap table snapshot engine
+ * @notice Validates replay from transactions, split handling, timestamps and checkpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+import {
+  getSnapshotAtBlock,
+  getSnapshotAtTimestamp,
+  getBlockAtTimestamp,
+  createCheckpoint,
+  createCheckpointIfDue,
+  getLatestCheckpoint,
+} from "../snapshots";
+
+const COMPANY_ID = 1;
+const OTHER_COMPANY_ID = 2;
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const CAROL = "0xcccccccccccccccccccccccccccccccccccccccc";
+const E18 = 10n ** 18n;
+
+describe("Cap table snapshots", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xc1', '0xt1', 0), (2, 'Globex', 31337, '0xc2', '0xt2', 0)
+    `);
+
+    // Block 10: issue 1000 to Alice; block 20: Alice → Bob 250; block 30: 2x split;
+    // block 40: Bob → Carol 250 (Bob sells out)
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES
+        (1, '0x01', NULL, '${ALICE}', '${1000n * E18}', 10, 1000, 0, 'ISSUED'),
+        (1, '0x02', '${ALICE}', '${BOB}', '${250n * E18}', 20, 2000, 0, 'TRANSFER'),
+        (1, '0x04', '${BOB}', '${CAROL}', '${250n * E18}', 40, 4000, 0, 'TRANSFER')
+    `);
+    db.run(`
+      INSERT INTO split_history (company_id, old_factor, new_factor, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, '${E18}', '${2n * E18}', 30, 3000, 0, '0x03')
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("returns an empty cap table before any issuance", () => {
+    const snapshot = getSnapshotAtBlock(db, COMPANY_ID, 5);
+
+    expect(snapshot).toEqual({
+      blockNumber: 5,
+      splitFactor: E18.toString(),
+      totalSupply: "0",
+      totalEffectiveSupply: "0",
+      shareholders: [],
+    });
+  });
+
+  it("reconstructs balances and ownership as of a block", () => {
+    const snapshot = getSnapshotAtBlock(db, COMPANY_ID, 25);
+
+    expect(snapshot.totalSupply).toBe((1000n * E18).toString());
+    expect(snapshot.shareholders).toEqual([
+      {
+        address: ALICE,
+        balance: (750n * E18).toString(),
+        effectiveBalance: (750n * E18).toString(),
+        ownershipPercentage: 75,
+        lastUpdatedBlock: 20,
+      },
+      {
+        address: BOB,
+        balance: (250n * E18).toString(),
+        effectiveBalance: (250n * E18).toString(),
+        ownershipPercentage: 25,
+        lastUpdatedBlock: 20,
+      },
+    ]);
+  });
+
+  it("applies the split factor in effect at the block", () => {
+    const snapshot = getSnapshotAtBlock(db, COMPANY_ID, 30);
+
+    expect(snapshot.splitFactor).toBe((2n * E18).toString());
+    expect(snapshot.totalEffectiveSupply).toBe((2000n * E18).toString());
+    expect(snapshot.shareholders[0]).toMatchObject({
+      address: ALICE,
+      balance: (750n * E18).toString(),
+      effectiveBalance: (1500n * E18).toString(),
+    });
+  });
+
+  it("drops holders whose balance returned to zero", () => {
+    const snapshot = getSnapshotAtBlock(db, COMPANY_ID, 40);
+
+    expect(snapshot.shareholders.map((sh) => sh.address)).toEqual([ALICE, CAROL]);
+  });
+
+  it("removes redeemed shares from the holder and the total supply", () => {
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES (1, '0x05', '${ALICE}', NULL, '${250n * E18}', 50, 5000, 0, 'REDEEMED')
+    `);
+
+    const snapshot = getSnapshotAtBlock(db, COMPANY_ID, 50);
+
+    expect(snapshot.totalSupply).toBe((750n * E18).toString());
+    expect(snapshot.shareholders).toMatchObject([
+      { address: ALICE, balance: (500n * E18).toString(), lastUpdatedBlock: 50 },
+      { address: CAROL, balance: (250n * E18).toString() },
+    ]);
+  });
+
+  it("only replays the company's own transactions and splits", () => {
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES (2, '0x21', NULL, '${BOB}', '${10n * E18}', 15, 1500, 0, 'ISSUED')
+    `);
+
+    const snapshot = getSnapshotAtBlock(db, OTHER_COMPANY_ID, 40);
+    expect(snapshot.splitFactor).toBe(E18.toString());
+    expect(snapshot.totalSupply).toBe((10n * E18).toString());
+    expect(snapshot.shareholders.map((sh) => sh.address)).toEqual([BOB]);
+    expect(getSnapshotAtBlock(db, COMPANY_ID, 10).totalSupply).toBe((1000n * E18).toString());
+  });
+
+  it("resolves timestamps to the last indexed block at or before them", () => {
+    expect(getBlockAtTimestamp(db, COMPANY_ID, 999)).toBeNull();
+    expect(getBlockAtTimestamp(db, COMPANY_ID, 2500)).toBe(20);
+    expect(getBlockAtTimestamp(db, COMPANY_ID, 3000)).toBe(30);
+
+    const snapshot = getSnapshotAtTimestamp(db, COMPANY_ID, 3500);
+    expect(snapshot.blockNumber).toBe(30);
+    expect(snapshot.splitFactor).toBe((2n * E18).toString());
+  });
+
+  it("produces identical snapshots with and without checkpoints", () => {
+    const withoutCheckpoints = [25, 30, 45].map((block) => getSnapshotAtBlock(db, COMPANY_ID, block));
+
+    expect(createCheckpoint(db, COMPANY_ID, 20)).toBe(true);
+    expect(createCheckpoint(db, COMPANY_ID, 20)).toBe(false);
+    expect(createCheckpoint(db, COMPANY_ID, 40)).toBe(true);
+
+    const withCheckpoints = [25, 30, 45].map((block) => getSnapshotAtBlock(db, COMPANY_ID, block));
+    expect(withCheckpoints).toEqual(withoutCheckpoints);
+    expect(getLatestCheckpoint(db, COMPANY_ID, 39)).toMatchObject({
+      blockNumber: 20,
+      holderCount: 2,
+      totalSupply: (1000n * E18).toString(),
+    });
+  });
+
+  it("only creates checkpoints once the interval has passed", () => {
+    expect(createCheckpointIfDue(db, COMPANY_ID, 20, 0)).toBe(false);
+    expect(createCheckpointIfDue(db, COMPANY_ID, 20, 10)).toBe(true);
+    expect(createCheckpointIfDue(db, COMPANY_ID, 25, 10)).toBe(false);
+    expect(createCheckpointIfDue(db, COMPANY_ID, 30, 10)).toBe(true);
+    expect(getLatestCheckpoint(db, COMPANY_ID)?.blockNumber).toBe(30);
+  });
+});
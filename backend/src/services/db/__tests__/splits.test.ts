@@ -0,0 +1,94 @@
+/**
+ * @file Tests for split position calculations
+ * @notice Validates whole-share rounding, fractional remainders and cash-in-lieu amounts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import { calculateSplitPosition, getSplitPositions, previewSplit } from "../splits";
+import { toEffectiveBalance } from "../balances";
+
+const COMPANY_ID = 1;
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const CAROL = "0xcccccccccccccccccccccccccccccccccccccccc";
+const E18 = 10n ** 18n;
+const ONE_FOR_TEN = E18 / 10n;
+
+describe("Split positions", () => {
+  let db: Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xc1', '0xt1', 0)
+    `);
+    db.run(`
+      INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+      VALUES
+        (1, '${ALICE}', '${105n * E18}', '${105n * E18}', 1),
+        (1, '${BOB}', '${100n * E18}', '${100n * E18}', 1),
+        (1, '${CAROL}', '0', '0', 2)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("rounds down to whole shares and cashes out the remainder on a reverse split", () => {
+    expect(calculateSplitPosition(105n * E18, ONE_FOR_TEN)).toEqual({
+      effectiveBalance: (105n * E18) / 10n,
+      wholeShares: 10n * E18,
+      fractionalRemainder: E18 / 2n,
+      cashInLieuAmount: 5n * E18,
+    });
+  });
+
+  it("leaves exactly the whole shares once the cash-in-lieu amount is redeemed", () => {
+    // 1-for-3 does not divide evenly, so the ceil division matters
+    const factor = E18 / 3n;
+    const balance = 1000n * E18 + 7n;
+    const { wholeShares, cashInLieuAmount } = calculateSplitPosition(balance, factor);
+
+    expect(toEffectiveBalance(balance - cashInLieuAmount, factor)).toBe(wholeShares);
+    expect(toEffectiveBalance(balance - cashInLieuAmount - 1n, factor)).toBeLessThan(wholeShares);
+  });
+
+  it("has no remainder when the effective balance is whole", () => {
+    expect(calculateSplitPosition(100n * E18, 7n * E18)).toMatchObject({
+      wholeShares: 700n * E18,
+      fractionalRemainder: 0n,
+      cashInLieuAmount: 0n,
+    });
+  });
+
+  it("lists current holders largest first, skipping zero balances", () => {
+    expect(getSplitPositions(db, COMPANY_ID).map((p) => p.address)).toEqual([ALICE, BOB]);
+  });
+
+  it("previews a reverse split against the current factor", () => {
+    const preview = previewSplit(db, COMPANY_ID, ONE_FOR_TEN);
+
+    expect(preview).toMatchObject({
+      currentFactor: E18.toString(),
+      proposedFactor: ONE_FOR_TEN.toString(),
+      totalFractionalRemainder: (E18 / 2n).toString(),
+      totalCashInLieuAmount: (5n * E18).toString(),
+      holdersWithFractions: 1,
+    });
+    expect(preview.positions[0]).toEqual({
+      address: ALICE,
+      balance: (105n * E18).toString(),
+      currentEffectiveBalance: (105n * E18).toString(),
+      effectiveBalance: ((105n * E18) / 10n).toString(),
+      wholeShares: (10n * E18).toString(),
+      fractionalRemainder: (E18 / 2n).toString(),
+      cashInLieuAmount: (5n * E18).toString(),
+    });
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * @file Tests for token version operations
+ * @notice Validates token eras, MIGRATED balance closing, era-aware split factors and snapshots
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+import type { CompanyRecord } from "../../../db/schema";
+
+import {
+  applyBalanceChange,
+  recordSplit,
+  getSplitFactor,
+  getBalanceChanges,
+} from "../balances";
+import { getSnapshotAtBlock, createCheckpoint } from "../snapshots";
+import { rollbackToBlock } from "../blocks";
+import {
+  recordTokenReplacement,
+  getActiveTokenAddress,
+  getTokenEras,
+  buildMigrationSnapshot,
+} from "../tokens";
+
+const OLD_TOKEN = "0x1111111111111111111111111111111111111111";
+const NEW_TOKEN = "0x2222222222222222222222222222222222222222";
+const ALICE = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+const BOB = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+const E18 = 10n ** 18n;
+
+const COMPANY_ID = 1;
+
+/**
+ * Company whose originally deployed token is OLD_TOKEN
+ */
+const company: CompanyRecord = {
+  id: COMPANY_ID,
+  name: "Acme",
+  chainId: 31337,
+  capTableAddress: "0xcccccccccccccccccccccccccccccccccccccccc",
+  tokenAddress: OLD_TOKEN,
+  lastIndexedBlock: null,
+  lastReorg: null,
+  createdAt: 0,
+};
+
+function getBalance(db: Database, address: string): string | undefined {
+  const row = db
+    .prepare("SELECT balance FROM shareholders WHERE company_id = ? AND address = ?")
+    .get(COMPANY_ID, address) as { balance: string } | null;
+  return row?.balance;
+}
+
+describe("Token versions", () => {
+  let db: Database;
+
+  // Mint on the old token, then split 2x
+  function indexOldToken(): void {
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES
+        (1, '0x01', NULL, '${ALICE}', '${100n * E18}', 10, 1000, 0, 'ISSUED'),
+        (1, '0x02', NULL, '${BOB}', '${50n * E18}', 11, 1100, 0, 'ISSUED')
+    `);
+    applyBalanceChange(db, COMPANY_ID, { address: ALICE, delta: 100n * E18, changeType: "ISSUED", blockNumber: 10, blockTimestamp: 1000, logIndex: 0, txHash: "0x01" });
+    applyBalanceChange(db, COMPANY_ID, { address: BOB, delta: 50n * E18, changeType: "ISSUED", blockNumber: 11, blockTimestamp: 1100, logIndex: 0, txHash: "0x02" });
+    recordSplit(db, COMPANY_ID, { oldFactor: E18, newFactor: 2n * E18, blockNumber: 12, blockTimestamp: 1200, logIndex: 0, txHash: "0x03" });
+  }
+
+  // Replace at block 20, then mint split-adjusted balances on the new token
+  function replaceToken(): void {
+    recordTokenReplacement(db, COMPANY_ID, {
+      oldToken: OLD_TOKEN,
+      newToken: NEW_TOKEN,
+      migrationBlock: 15,
+      blockNumber: 20,
+      blockTimestamp: 2000,
+      logIndex: 1,
+      txHash: "0x20",
+    });
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES
+        (1, '0x21', NULL, '${ALICE}', '${200n * E18}', 21, 2100, 0, 'ISSUED'),
+        (1, '0x22', NULL, '${BOB}', '${100n * E18}', 22, 2200, 0, 'ISSUED')
+    `);
+    applyBalanceChange(db, COMPANY_ID, { address: ALICE, delta: 200n * E18, changeType: "ISSUED", blockNumber: 21, blockTimestamp: 2100, logIndex: 0, txHash: "0x21" });
+    applyBalanceChange(db, COMPANY_ID, { address: BOB, delta: 100n * E18, changeType: "ISSUED", blockNumber: 22, blockTimestamp: 2200, logIndex: 0, txHash: "0x22" });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '${company.capTableAddress}', '${OLD_TOKEN}', 0)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("closes every old-token balance with a MIGRATED delta", () => {
+    indexOldToken();
+    replaceToken();
+
+    expect(getBalanceChanges(db, COMPANY_ID, ALICE).map((c) => [c.changeType, c.delta])).toEqual([
+      ["ISSUED", (100n * E18).toString()],
+      ["MIGRATED", (-100n * E18).toString()],
+      ["ISSUED", (200n * E18).toString()],
+    ]);
+    expect(getBalance(db, ALICE)).toBe((200n * E18).toString());
+    expect(getBalance(db, BOB)).toBe((100n * E18).toString());
+  });
+
+  it("ignores a replacement that was already indexed", () => {
+    indexOldToken();
+    replaceToken();
+
+    const recorded = recordTokenReplacement(db, COMPANY_ID, {
+      oldToken: OLD_TOKEN,
+      newToken: NEW_TOKEN,
+      migrationBlock: 15,
+      blockNumber: 20,
+      blockTimestamp: 2000,
+      logIndex: 1,
+      txHash: "0x20",
+    });
+
+    expect(recorded).toBe(false);
+    expect(getBalance(db, ALICE)).toBe((200n * E18).toString());
+  });
+
+  it("resolves the token active at a block", () => {
+    expect(getActiveTokenAddress(db, company)).toBe(OLD_TOKEN);
+
+    indexOldToken();
+    replaceToken();
+
+    expect(getActiveTokenAddress(db, company, 19)).toBe(OLD_TOKEN);
+    expect(getActiveTokenAddress(db, company, 20)).toBe(OLD_TOKEN);
+    expect(getActiveTokenAddress(db, company, 20, 0)).toBe(OLD_TOKEN);
+    expect(getActiveTokenAddress(db, company, 20, 1)).toBe(OLD_TOKEN);
+    expect(getActiveTokenAddress(db, company, 20, 2)).toBe(NEW_TOKEN);
+    expect(getActiveTokenAddress(db, company, 21)).toBe(NEW_TOKEN);
+    expect(getActiveTokenAddress(db, company)).toBe(NEW_TOKEN);
+  });
+
+  it("assigns a mint in the TokenReplaced block to the replacement token", () => {
+    indexOldToken();
+    replaceToken();
+
+    // The migration mints Carol's balance in the same transaction, after the TokenReplaced log
+    const CAROL = "0xcccccccccccccccccccccccccccccccccccccc01";
+    db.run(`
+      INSERT INTO transactions (company_id, tx_hash, from_address, to_address, amount, block_number, block_timestamp, log_index, event_type)
+      VALUES (1, '0x20', NULL, '${CAROL}', '${30n * E18}', 20, 2000, 2, 'ISSUED')
+    `);
+    applyBalanceChange(db, COMPANY_ID, { address: CAROL, delta: 30n * E18, changeType: "ISSUED", blockNumber: 20, blockTimestamp: 2000, logIndex: 2, txHash: "0x20" });
+
+    expect(getActiveTokenAddress(db, company, 20, 2)).toBe(NEW_TOKEN);
+    expect(getBalance(db, CAROL)).toBe((30n * E18).toString());
+
+    const snapshot = getSnapshotAtBlock(db, COMPANY_ID, 20);
+    expect(snapshot.totalSupply).toBe((30n * E18).toString());
+    expect(snapshot.shareholders.map((s) => [s.address, s.balance])).toEqual([
+      [CAROL, (30n * E18).toString()],
+    ]);
+    expect(getSnapshotAtBlock(db, COMPANY_ID, 22).totalSupply).toBe((330n * E18).toString());
+  });
+
+  it("only applies splits from the current token era", () => {
+    indexOldToken();
+    replaceToken();
+
+    expect(getSplitFactor(db, COMPANY_ID, 15)).toBe(2n * E18);
+    expect(getSplitFactor(db, COMPANY_ID, 20)).toBe(E18);
+    expect(getSplitFactor(db, COMPANY_ID)).toBe(E18);
+
+    recordSplit(db, COMPANY_ID, { oldFactor: E18, newFactor: 3n * E18, blockNumber: 30, blockTimestamp: 3000, logIndex: 0, txHash: "0x30" });
+    expect(getSplitFactor(db, COMPANY_ID)).toBe(3n * E18);
+    expect(getSplitFactor(db, COMPANY_ID, 25)).toBe(E18);
+  });
+
+  it("keeps old-token snapshots and replays only the new token after the replacement", () => {
+    indexOldToken();
+    createCheckpoint(db, COMPANY_ID, 12);
+    replaceToken();
+
+    const before = getSnapshotAtBlock(db, COMPANY_ID, 15);
+    expect(before.splitFactor).toBe((2n * E18).toString());
+    expect(before.totalSupply).toBe((150n * E18).toString());
+    expect(before.totalEffectiveSupply).toBe((300n * E18).toString());
+
+    expect(getSnapshotAtBlock(db, COMPANY_ID, 20).shareholders).toEqual([]);
+
+    const after = getSnapshotAtBlock(db, COMPANY_ID, 22);
+    expect(after.splitFactor).toBe(E18.toString());
+    expect(after.totalSupply).toBe((300n * E18).toString());
+    expect(after.shareholders.map((s) => [s.address, s.effectiveBalance])).toEqual([
+      [ALICE, (200n * E18).toString()],
+      [BOB, (100n * E18).toString()],
+    ]);
+  });
+
+  it("lists token eras with their block ranges", () => {
+    expect(getTokenEras(db, company)).toEqual([
+      { tokenAddress: OLD_TOKEN, fromBlock: null, fromLogIndex: null, toBlock: null, toLogIndex: null, migrationBlock: null, replacedTxHash: null, active: true },
+    ]);
+
+    indexOldToken();
+    replaceToken();
+
+    expect(getTokenEras(db, company)).toEqual([
+      { tokenAddress: OLD_TOKEN, fromBlock: null, fromLogIndex: null, toBlock: 20, toLogIndex: 1, migrationBlock: null, replacedTxHash: "0x20", active: false },
+      { tokenAddress: NEW_TOKEN, fromBlock: 20, fromLogIndex: 1, toBlock: null, toLogIndex: null, migrationBlock: 15, replacedTxHash: null, active: true },
+    ]);
+  });
+
+  it("restores the old token's balances when the replacement is rolled back", () => {
+    indexOldToken();
+    replaceToken();
+
+    rollbackToBlock(db, COMPANY_ID, 19);
+
+    expect(getActiveTokenAddress(db, company)).toBe(OLD_TOKEN);
+    expect(getSplitFactor(db, COMPANY_ID)).toBe(2n * E18);
+    expect(getBalance(db, ALICE)).toBe((100n * E18).toString());
+  });
+
+  it("builds a migration snapshot with split-adjusted balances and the allowlist", () => {
+    indexOldToken();
+    db.run(`
+      INSERT INTO allowlist_history (company_id, wallet_address, issuer_address, approved, block_number, block_timestamp, log_index, tx_hash)
+      VALUES
+        (1, '${ALICE}', NULL, 1, 5, 500, 0, '0x05'),
+        (1, '${BOB}', NULL, 1, 5, 500, 1, '0x05'),
+        (1, '${BOB}', NULL, 0, 13, 1300, 0, '0x13')
+    `);
+    db.run(`
+      INSERT INTO transfer_restriction_history (company_id, restricted, block_number, block_timestamp, log_index, tx_hash)
+      VALUES (1, 1, 1, 100, 0, '0x00'), (1, 0, 14, 1400, 0, '0x14')
+    `);
+
+    const snapshot = buildMigrationSnapshot(db, company, 15);
+
+    expect(snapshot).toMatchObject({
+      version: 1,
+      blockNumber: 15,
+      oldTokenAddress: OLD_TOKEN,
+      splitFactor: (2n * E18).toString(),
+      totalSupply: (150n * E18).toString(),
+      totalEffectiveSupply: (300n * E18).toString(),
+      shareholderCount: 2,
+      shareholders: [
+        { address: ALICE, balance: (100n * E18).toString(), effectiveBalance: (200n * E18).toString() },
+        { address: BOB, balance: (50n * E18).toString(), effectiveBalance: (100n * E18).toString() },
+      ],
+      approvedAddresses: [ALICE],
+      transfersRestricted: false,
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * @file Tests for vesting operations
+ * @notice Validates grant and revocation indexing, vested amounts (cliff, graded, linear),
+ *         vesting timelines, positions, wallet recoveries and reorg rollback of vesting data
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { Database } from "bun:sqlite";
+import { migrate } from "../../../db/migrations";
+
+import {
+  MAX_TIMELINE_POINTS,
+  recordVestingGrant,
+  recordVestingRevocation,
+  getVestingGrants,
+  computeVestedAmount,
+  getVestingTimeline,
+  getVestingPosition,
+} from "../vesting";
+import { recordForcedTransfer } from "../recovery";
+import { rollbackToBlock } from "../blocks";
+
+const TOKEN = "0xDdDdDdDdDdDdDdDdDdDdDdDdDdDdDdDdDdDdDdDd";
+const ALICE = "0x1111111111111111111111111111111111111111";
+const BOB = "0x2222222222222222222222222222222222222222";
+const MONTH = 30 * 24 * 60 * 60;
+const YEAR = 12 * MONTH;
+const START = 1_700_000_000;
+const GRANT = 4800n;
+
+const COMPANY_ID = 1;
+
+describe("Vesting", () => {
+  let db: Database;
+
+  // Four-year grant to Alice with a one-year cliff, vesting monthly, at block 10
+  function grantAlice(): void {
+    recordVestingGrant(db, COMPANY_ID, {
+      tokenAddress: TOKEN,
+      grantId: 1,
+      beneficiary: ALICE,
+      amount: GRANT,
+      startTime: START,
+      cliffDuration: YEAR,
+      duration: 4 * YEAR,
+      releaseInterval: MONTH,
+      blockNumber: 10,
+      blockTimestamp: START,
+      logIndex: 1,
+      txHash: "0x10",
+    });
+  }
+
+  function revokeAlice(revokedAt: number, blockNumber = 20): void {
+    recordVestingRevocation(db, COMPANY_ID, {
+      tokenAddress: TOKEN,
+      grantId: 1,
+      vestedAmount: GRANT / 2n,
+      clawedBackAmount: GRANT / 2n,
+      revokedAt,
+      blockNumber,
+      blockTimestamp: revokedAt,
+      logIndex: 1,
+      txHash: "0x20",
+    });
+  }
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    db.run(`
+      INSERT INTO companies (id, name, chain_id, cap_table_address, token_address, created_at)
+      VALUES (1, 'Acme', 31337, '0xcccccccccccccccccccccccccccccccccccccccc', '${TOKEN.toLowerCase()}', 0)
+    `);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("records each grant once and joins its revocation", () => {
+    grantAlice();
+    grantAlice();
+
+    const [grant] = getVestingGrants(db, COMPANY_ID, TOKEN, ALICE);
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)).toHaveLength(1);
+    expect(grant).toMatchObject({
+      tokenAddress: TOKEN.toLowerCase(),
+      beneficiary: ALICE,
+      amount: GRANT.toString(),
+      revokedAt: null,
+    });
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, BOB)).toEqual([]);
+
+    revokeAlice(START + 2 * YEAR);
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)[0]).toMatchObject({
+      revokedAt: START + 2 * YEAR,
+      vestedAtRevocation: (GRANT / 2n).toString(),
+      clawedBackAmount: (GRANT / 2n).toString(),
+    });
+  });
+
+  it("computes vested amounts like the token contract", () => {
+    grantAlice();
+    const grant = getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)[0]!;
+
+    expect(computeVestedAmount(grant, START - 1)).toBe(0n);
+    expect(computeVestedAmount(grant, START + YEAR - 1)).toBe(0n);
+    expect(computeVestedAmount(grant, START + YEAR)).toBe(GRANT / 4n);
+    expect(computeVestedAmount(grant, START + YEAR + MONTH - 1)).toBe(GRANT / 4n);
+    expect(computeVestedAmount(grant, START + YEAR + MONTH)).toBe((GRANT * 13n) / 48n);
+    expect(computeVestedAmount(grant, START + 4 * YEAR)).toBe(GRANT);
+
+    const linear = { ...grant, cliffDuration: 0, duration: 1000, releaseInterval: 1 };
+    expect(computeVestedAmount(linear, START + 250)).toBe(GRANT / 4n);
+
+    // Vesting stops at revocation
+    const revoked = { ...grant, revokedAt: START + 2 * YEAR };
+    expect(computeVestedAmount(revoked, START + 4 * YEAR)).toBe(GRANT / 2n);
+  });
+
+  it("builds a stepped timeline for graded schedules", () => {
+    grantAlice();
+    const timeline = getVestingTimeline(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)[0]!);
+
+    // Start, the cliff jump, then a jump at each of the 36 remaining months
+    expect(timeline.slice(0, 5)).toEqual([
+      { timestamp: START, vested: "0" },
+      { timestamp: START + YEAR, vested: "0" },
+      { timestamp: START + YEAR, vested: (GRANT / 4n).toString() },
+      { timestamp: START + YEAR + MONTH, vested: (GRANT / 4n).toString() },
+      { timestamp: START + YEAR + MONTH, vested: ((GRANT * 13n) / 48n).toString() },
+    ]);
+    expect(timeline).toHaveLength(1 + 2 * 37);
+    expect(timeline[timeline.length - 1]).toEqual({
+      timestamp: START + 4 * YEAR,
+      vested: GRANT.toString(),
+    });
+  });
+
+  it("samples linear schedules and ends revoked timelines at the revocation", () => {
+    recordVestingGrant(db, COMPANY_ID, {
+      tokenAddress: TOKEN,
+      grantId: 2,
+      beneficiary: BOB,
+      amount: GRANT,
+      startTime: START,
+      cliffDuration: 0,
+      duration: YEAR,
+      releaseInterval: 1,
+      blockNumber: 11,
+      blockTimestamp: START,
+      logIndex: 1,
+      txHash: "0x11",
+    });
+    const linear = getVestingTimeline(getVestingGrants(db, COMPANY_ID, TOKEN, BOB)[0]!);
+
+    expect(linear).toHaveLength(MAX_TIMELINE_POINTS + 1);
+    expect(linear[0]).toEqual({ timestamp: START, vested: "0" });
+    expect(linear[linear.length - 1]).toEqual({
+      timestamp: START + YEAR,
+      vested: GRANT.toString(),
+    });
+
+    grantAlice();
+    revokeAlice(START + 2 * YEAR + 100);
+    const revoked = getVestingTimeline(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)[0]!);
+    expect(revoked[revoked.length - 1]).toEqual({
+      timestamp: START + 2 * YEAR + 100,
+      vested: (GRANT / 2n).toString(),
+    });
+  });
+
+  it("reports vested, unvested and clawed back totals at a time", () => {
+    grantAlice();
+
+    expect(getVestingPosition(db, COMPANY_ID, TOKEN, ALICE, START + 2 * YEAR)).toMatchObject({
+      totalGranted: GRANT.toString(),
+      totalVested: (GRANT / 2n).toString(),
+      totalUnvested: (GRANT / 2n).toString(),
+      totalClawedBack: "0",
+    });
+
+    revokeAlice(START + 2 * YEAR);
+    const position = getVestingPosition(db, COMPANY_ID, TOKEN, ALICE, START + 3 * YEAR);
+    expect(position).toMatchObject({
+      totalVested: (GRANT / 2n).toString(),
+      totalUnvested: "0",
+      totalClawedBack: (GRANT / 2n).toString(),
+    });
+    expect(position.grants[0]).toMatchObject({
+      grantId: 1,
+      cliffTime: START + YEAR,
+      endTime: START + 4 * YEAR,
+      revokedAt: START + 2 * YEAR,
+    });
+
+    // Before the revocation the grant is still partly unvested
+    expect(
+      getVestingPosition(db, COMPANY_ID, TOKEN, ALICE, START + YEAR).totalUnvested
+    ).toBe(((GRANT * 3n) / 4n).toString());
+  });
+
+  it("rolls back grants and revocations above a fork point", () => {
+    grantAlice();
+    revokeAlice(START + 2 * YEAR, 20);
+
+    rollbackToBlock(db, COMPANY_ID, 15);
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)[0]!.revokedAt).toBeNull();
+
+    rollbackToBlock(db, COMPANY_ID, 5);
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)).toEqual([]);
+  });
+
+  it("follows wallet recoveries made after the grant", () => {
+    const recover = (from: string, to: string, blockNumber: number) =>
+      recordForcedTransfer(db, COMPANY_ID, {
+        tokenAddress: TOKEN,
+        transferType: "WALLET_RECOVERY",
+        fromAddress: from,
+        toAddress: to,
+        amount: GRANT,
+        reasonCode: 1,
+        blockNumber,
+        blockTimestamp: null,
+        logIndex: 2,
+        txHash: `0x${blockNumber}`,
+      });
+
+    // A recovery before the grant does not move it
+    recover(ALICE, BOB, 5);
+    grantAlice();
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)).toHaveLength(1);
+
+    recover(ALICE, BOB, 30);
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)).toEqual([]);
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, BOB)[0]).toMatchObject({
+      grantId: 1,
+      beneficiary: BOB,
+    });
+
+    rollbackToBlock(db, COMPANY_ID, 25);
+    expect(getVestingGrants(db, COMPANY_ID, TOKEN, ALICE)[0]!.beneficiary).toBe(ALICE);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * @file Allowlist database operations for ChainEquity backend
+ * @notice Answers allowlist questions from indexed WalletApproved/WalletRevoked events
+ *
+ * @dev The allowlist_history table is append-only. A wallet's status at a given block is
+ *      the `approved` flag of its latest row at or before that block, ordered by
+ *      (block_number, log_index). Wallets with no rows have never been approved.
+ */
+
+import { Database } from "bun:sqlite";
+import type { AllowlistHistoryRecord } from "../../db/schema";
+import { asAllowlistHistoryRecord } from "../../db/index";
+
+/**
+ * Get the latest allowlist row per wallet, optionally as of a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Optional block number (inclusive); defaults to latest indexed state
+ * @returns Latest allowlist record for every wallet that has ever been approved or revoked
+ */
+function getLatestAllowlistRows(
+  db: Database,
+  companyId: number,
+  blockNumber?: number
+): AllowlistHistoryRecord[] {
+  const where = blockNumber !== undefined ? "AND block_number <= ?" : "";
+  const params =
+    blockNumber !== undefined ? [companyId, blockNumber] : [companyId];
+
+  const stmt = db.prepare(`
+    SELECT * FROM (
+      SELECT
+        *,
+        ROW_NUMBER() OVER (
+          PARTITION BY wallet_address
+          ORDER BY block_number DESC, log_index DESC
+        ) AS rn
+      FROM allowlist_history
+      WHERE company_id = ?
+      ${where}
+    )
+    WHERE rn = 1
+    ORDER BY wallet_address ASC
+  `);
+
+  const results = stmt.all(...params) as unknown[];
+  return results.map((row) => asAllowlistHistoryRecord(row));
+}
+
+/**
+ * Get all wallets on the allowlist, optionally as of a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Optional block number (inclusive); defaults to latest indexed state
+ * @returns Allowlist records (the approving event) for every currently approved wallet
+ */
+export function getApprovedWallets(
+  db: Database,
+  companyId: number,
+  blockNumber?: number
+): AllowlistHistoryRecord[] {
+  return getLatestAllowlistRows(db, companyId, blockNumber).filter(
+    (row) => row.approved
+  );
+}
+
+/**
+ * Get the set of approved wallet addresses (lowercase), optionally as of a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Optional block number (inclusive); defaults to latest indexed state
+ * @returns Set of lowercase wallet addresses on the allowlist
+ */
+export function getApprovedWalletSet(
+  db: Database,
+  companyId: number,
+  blockNumber?: number
+): Set<string> {
+  return new Set(
+    getApprovedWallets(db, companyId, blockNumber).map((row) =>
+      row.walletAddress.toLowerCase()
+    )
+  );
+}
+
+/**
+ * Check whether a wallet is on the allowlist, optionally as of a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param walletAddress Ethereum wallet address
+ * @param blockNumber Optional block number (inclusive); defaults to latest indexed state
+ * @returns True if the wallet's latest allowlist event is an approval
+ */
+export function isWalletApproved(
+  db: Database,
+  companyId: number,
+  walletAddress: string,
+  blockNumber?: number
+): boolean {
+  const conditions = ["company_id = ?", "wallet_address = ?"];
+  const params: (string | number)[] = [companyId, walletAddress.toLowerCase()];
+
+  if (blockNumber !== undefined) {
+    conditions.push("block_number <= ?");
+    params.push(blockNumber);
+  }
+
+  const stmt = db.prepare(`
+    SELECT approved FROM allowlist_history
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY block_number DESC, log_index DESC
+    LIMIT 1
+  `);
+
+  const result = stmt.get(...params) as { approved: number } | null;
+  return result?.approved === 1;
+}
+
+/**
+ * Get the full allowlist event history for a wallet
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param walletAddress Ethereum wallet address
+ * @returns Allowlist records in chronological order
+ */
+export function getWalletAllowlistHistory(
+  db: Database,
+  companyId: number,
+  walletAddress: string
+): AllowlistHistoryRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM allowlist_history
+    WHERE company_id = ? AND wallet_address = ?
+    ORDER BY block_number ASC, log_index ASC
+  `);
+
+  const results = stmt.all(companyId, walletAddress.toLowerCase()) as unknown[];
+  return results.map((row) => asAllowlistHistoryRecord(row));
+}
+
+/**
+ * Get whether a company's token currently restricts transfers to the allowlist
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Latest indexed TransfersRestrictedChanged value (true when none was indexed)
+ */
+export function isTransfersRestricted(db: Database, companyId: number): boolean {
+  const restriction = db
+    .prepare(
+      `SELECT restricted FROM transfer_restriction_history
+       WHERE company_id = ?
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT 1`
+    )
+    .get(companyId) as { restricted: number } | null;
+
+  // The constructor restricts transfers, so an unindexed history means restricted
+  return restriction ? restriction.restricted === 1 : true;
+}
@@ -0,0 +1,260 @@
+/**
+ * @file Merkle allowlist database operations for ChainEquity backend
+ * @notice Generates allowlist trees from KYC-approved wallets, tracks the roots published on the
+ *         token and serves proofs against the published root
+ *
+ * @dev Instead of one approveWallet() storage write per investor, the issuer can publish the
+ *      root of a tree of approved wallets with setAllowlistRoot(). Trees are generated here from
+ *      kyc_requests (approved or on_chain_approved) and stored in allowlist_trees; the roots the
+ *      issuer actually publishes come from indexed AllowlistRootUpdated events in
+ *      allowlist_root_history. A proof is only served when the published root matches a stored
+ *      tree, so it always verifies on chain (see services/chain/merkle.ts).
+ */
+
+import { Database } from "bun:sqlite";
+import { zeroHash, type Hex } from "viem";
+import type { AllowlistRootChangeRecord, AllowlistTreeRecord } from "../../db/schema";
+import { asAllowlistRootChangeRecord } from "../../db/index";
+import { buildAllowlistTree } from "../chain/merkle";
+
+/**
+ * Input type for recording an AllowlistRootUpdated event
+ */
+export interface AllowlistRootChangeInput {
+  tokenAddress: string;
+  oldRoot: string;
+  newRoot: string;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Proof of a wallet against the published root
+ */
+export interface AllowlistProof {
+  root: Hex;
+  included: boolean;
+  proof: Hex[]; // Empty when the wallet is not in the tree
+}
+
+/**
+ * Current time in unix seconds
+ */
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Column list for allowlist_trees reads (wallets is still JSON text)
+ */
+const SELECT_TREE = `
+  SELECT
+    id,
+    root,
+    wallets,
+    created_by_uid AS createdByUid,
+    created_at AS createdAt
+  FROM allowlist_trees
+`;
+
+/**
+ * Parse the JSON wallets column of a selected row
+ */
+function toAllowlistTreeRecord(row: unknown): AllowlistTreeRecord {
+  const r = row as Omit<AllowlistTreeRecord, "wallets"> & { wallets: string };
+  return { ...r, wallets: JSON.parse(r.wallets) as string[] };
+}
+
+/**
+ * Get the wallets of every KYC-approved investor (approved or on_chain_approved)
+ * @param db SQLite database instance
+ * @returns Lowercase wallet addresses, sorted ascending
+ */
+export function getKycApprovedWallets(db: Database): string[] {
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT lower(wallet_address) AS walletAddress FROM kyc_requests
+       WHERE status IN ('approved', 'on_chain_approved')
+       ORDER BY walletAddress ASC`
+    )
+    .all() as { walletAddress: string }[];
+  return rows.map((row) => row.walletAddress);
+}
+
+/**
+ * Generate the allowlist tree of the KYC-approved wallets and store it
+ * Regenerating an unchanged wallet set returns the stored tree
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param createdByUid Issuer/admin generating the tree
+ * @returns Stored tree, or null when no wallet is KYC-approved
+ */
+export function generateAllowlistTree(
+  db: Database,
+  companyId: number,
+  createdByUid: string | null
+): AllowlistTreeRecord | null {
+  const wallets = getKycApprovedWallets(db);
+  if (wallets.length === 0) {
+    return null;
+  }
+
+  const tree = buildAllowlistTree(wallets);
+  db.prepare(
+    `INSERT OR IGNORE INTO allowlist_trees (company_id, root, wallets, created_by_uid, created_at)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(companyId, tree.root, JSON.stringify(tree.wallets), createdByUid, nowSeconds());
+
+  return getAllowlistTree(db, companyId, tree.root);
+}
+
+/**
+ * Get a stored allowlist tree by root
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param root Merkle root
+ * @returns Tree record, or null if the backend never generated that root
+ */
+export function getAllowlistTree(
+  db: Database,
+  companyId: number,
+  root: string
+): AllowlistTreeRecord | null {
+  const row = db
+    .prepare(`${SELECT_TREE} WHERE company_id = ? AND root = ?`)
+    .get(companyId, root.toLowerCase());
+  return row ? toAllowlistTreeRecord(row) : null;
+}
+
+/**
+ * Get the most recently generated allowlist tree
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Tree record, or null if none was generated
+ */
+export function getLatestAllowlistTree(
+  db: Database,
+  companyId: number
+): AllowlistTreeRecord | null {
+  const row = db
+    .prepare(`${SELECT_TREE} WHERE company_id = ? ORDER BY created_at DESC, id DESC LIMIT 1`)
+    .get(companyId);
+  return row ? toAllowlistTreeRecord(row) : null;
+}
+
+/**
+ * Record an allowlist root update
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Update details
+ * @returns True if the update was recorded, false if it was already indexed
+ */
+export function recordAllowlistRootUpdate(
+  db: Database,
+  companyId: number,
+  input: AllowlistRootChangeInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO allowlist_root_history (
+        company_id, token_address, old_root, new_root,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.tokenAddress.toLowerCase(),
+      input.oldRoot.toLowerCase(),
+      input.newRoot.toLowerCase(),
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get the latest AllowlistRootUpdated event of a token
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns Latest root change, or null if the token never published a root
+ */
+export function getLatestAllowlistRootChange(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): AllowlistRootChangeRecord | null {
+  const row = db
+    .prepare(
+      `SELECT * FROM allowlist_root_history
+       WHERE company_id = ? AND token_address = ?
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT 1`
+    )
+    .get(companyId, tokenAddress.toLowerCase());
+  return row ? asAllowlistRootChangeRecord(row) : null;
+}
+
+/**
+ * Get the Merkle allowlist root currently published on a token
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns Published root, or null while the Merkle allowlist is off
+ */
+export function getPublishedAllowlistRoot(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): string | null {
+  const root = getLatestAllowlistRootChange(db, companyId, tokenAddress)?.newRoot;
+  return root && root !== zeroHash ? root : null;
+}
+
+/**
+ * Get a wallet's proof against the root published on a token
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @param walletAddress Wallet address
+ * @returns Proof, or null when no root is published or the backend did not generate it
+ */
+export function getAllowlistProof(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  walletAddress: string
+): AllowlistProof | null {
+  const root = getPublishedAllowlistRoot(db, companyId, tokenAddress);
+  const stored = root ? getAllowlistTree(db, companyId, root) : null;
+  if (!root || !stored) {
+    return null;
+  }
+
+  const proof = buildAllowlistTree(stored.wallets).getProof(walletAddress);
+  return { root: root as Hex, included: proof !== null, proof: proof ?? [] };
+}
+
+/**
+ * Check whether a wallet is in the tree of the root published on a token
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @param walletAddress Wallet address
+ * @returns True if the backend can serve a proof that transferWithProof() accepts
+ */
+export function isWalletInPublishedTree(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  walletAddress: string
+): boolean {
+  const root = getPublishedAllowlistRoot(db, companyId, tokenAddress);
+  const stored = root ? getAllowlistTree(db, companyId, root) : null;
+  return stored?.wallets.includes(walletAddress.toLowerCase()) ?? false;
+}
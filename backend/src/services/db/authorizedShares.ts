@@ -0,0 +1,127 @@
+/**
+ * @file Authorized shares operations for ChainEquity backend
+ * @notice Tracks the token's authorized share count and compares it with the outstanding supply
+ *
+ * @dev totalAuthorized is set by the ChainEquityToken constructor (Deployed event) and amended
+ *      with increaseAuthorizedShares()/decreaseAuthorizedShares() (AuthorizedSharesChanged event)
+ *      after shareholders approve a charter amendment. Outstanding supply at each change is
+ *      replayed from indexed transfers (see snapshots.ts), so no contract reads are needed.
+ */
+
+import { Database } from "bun:sqlite";
+import type { AuthorizedSharesChangeRecord } from "../../db/schema";
+import { asAuthorizedSharesChangeRecord } from "../../db/index";
+import { getSnapshotAtBlock } from "./snapshots";
+
+/**
+ * Input type for recording a Deployed or AuthorizedSharesChanged event
+ */
+export interface AuthorizedSharesChangeInput {
+  tokenAddress: string;
+  oldAuthorized: bigint | null;
+  newAuthorized: bigint;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Authorized shares change with the outstanding supply right after it
+ */
+export interface AuthorizedVsOutstanding extends AuthorizedSharesChangeRecord {
+  outstanding: string; // Base units, as totalSupply() at the end of the block
+}
+
+/**
+ * Record an authorized shares change
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Change details
+ * @returns True if the change was recorded, false if it was already indexed
+ */
+export function recordAuthorizedSharesChange(
+  db: Database,
+  companyId: number,
+  input: AuthorizedSharesChangeInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO authorized_shares_history (
+        company_id, token_address, old_authorized, new_authorized,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.tokenAddress.toLowerCase(),
+      input.oldAuthorized?.toString() ?? null,
+      input.newAuthorized.toString(),
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get all authorized shares changes in chronological order
+ * The first record (oldAuthorized null) is the amount the token was deployed with
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Authorized shares change records
+ */
+export function getAuthorizedSharesHistory(
+  db: Database,
+  companyId: number
+): AuthorizedSharesChangeRecord[] {
+  const results = db
+    .prepare(
+      `SELECT * FROM authorized_shares_history
+       WHERE company_id = ?
+       ORDER BY block_number ASC, log_index ASC`
+    )
+    .all(companyId) as unknown[];
+  return results.map((row) => asAuthorizedSharesChangeRecord(row));
+}
+
+/**
+ * Get the authorized shares history with the outstanding supply at each change
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Authorized shares changes in chronological order, each with the outstanding supply
+ */
+export function getAuthorizedVsOutstandingHistory(
+  db: Database,
+  companyId: number
+): AuthorizedVsOutstanding[] {
+  return getAuthorizedSharesHistory(db, companyId).map((record) => ({
+    ...record,
+    outstanding: getSnapshotAtBlock(db, companyId, record.blockNumber).totalSupply,
+  }));
+}
+
+/**
+ * Get a token's current authorized shares from its latest Deployed or AuthorizedSharesChanged event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns Authorized shares in base units, or null if none is indexed for the token
+ */
+export function getCurrentAuthorizedShares(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): bigint | null {
+  const result = db
+    .prepare(
+      `SELECT new_authorized AS newAuthorized FROM authorized_shares_history
+       WHERE company_id = ? AND token_address = ?
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT 1`
+    )
+    .get(companyId, tokenAddress.toLowerCase()) as { newAuthorized: string } | null;
+  return result ? BigInt(result.newAuthorized) : null;
+}
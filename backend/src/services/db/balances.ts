@@ -0,0 +1,312 @@
+/**
+ * @file Event-sourced balance operations for ChainEquity backend
+ * @notice Derives shareholder balances from Issued/Transfer/Redeemed deltas and SplitExecuted events
+ *
+ * @dev Every balance movement is written to the balance_changes ledger keyed by
+ *      (company_id, block_number, log_index, address, change_type) before the shareholders row
+ *      is updated.
+ *      A delta that is already in the ledger is skipped, so replaying or rescanning a block
+ *      range never double-counts and never needs a contract read.
+ *
+ * @important Events must be applied in (block_number, log_index) order for balance_after
+ *            snapshots to be correct. The indexer sorts logs before calling these functions.
+ */
+
+import { Database } from "bun:sqlite";
+import type { BalanceChangeRecord, SplitHistoryRecord } from "../../db/schema";
+import { asBalanceChangeRecord, asSplitHistoryRecord } from "../../db/index";
+
+/**
+ * Split factor precision (1e18 = 1x), matching ChainEquityToken.splitFactor
+ */
+export const SPLIT_FACTOR_PRECISION = 10n ** 18n;
+
+/**
+ * Input type for applying a balance change
+ */
+export interface BalanceChangeInput {
+  address: string;
+  delta: bigint;
+  changeType: BalanceChangeRecord["changeType"];
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Input type for recording a split
+ */
+export interface SplitInput {
+  oldFactor: bigint;
+  newFactor: bigint;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Calculate effective balance: balance * splitFactor / 1e18
+ */
+export function toEffectiveBalance(balance: bigint, splitFactor: bigint): bigint {
+  return (balance * splitFactor) / SPLIT_FACTOR_PRECISION;
+}
+
+/**
+ * Get the split factor in effect at a block from indexed SplitExecuted events
+ * Splits before the latest token replacement (see services/db/tokens.ts) are ignored: the
+ * replacement token holds split-adjusted balances and starts at a 1x factor
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Optional block number (inclusive); defaults to latest indexed split
+ * @returns Split factor in 1e18 precision (1e18 if no split has been indexed)
+ */
+export function getSplitFactor(
+  db: Database,
+  companyId: number,
+  blockNumber?: number
+): bigint {
+  const where = blockNumber !== undefined ? "AND s.block_number <= ?" : "";
+  const replacementWhere =
+    blockNumber !== undefined ? "AND t.block_number <= ?" : "";
+  const params =
+    blockNumber !== undefined
+      ? [companyId, blockNumber, companyId, blockNumber]
+      : [companyId, companyId];
+
+  const stmt = db.prepare(`
+    SELECT s.new_factor FROM split_history s
+    WHERE NOT EXISTS (
+      SELECT 1 FROM token_versions t
+      WHERE t.company_id = ?
+        AND (t.block_number, t.log_index) > (s.block_number, s.log_index)
+      ${replacementWhere}
+    )
+    AND s.company_id = ?
+    ${where}
+    ORDER BY s.block_number DESC, s.log_index DESC
+    LIMIT 1
+  `);
+
+  const result = stmt.get(...params) as { new_factor: string } | null;
+  return result ? BigInt(result.new_factor) : SPLIT_FACTOR_PRECISION;
+}
+
+/**
+ * Get all indexed splits in chronological order
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Split history records
+ */
+export function getSplitHistory(
+  db: Database,
+  companyId: number
+): SplitHistoryRecord[] {
+  const stmt = db.prepare(
+    "SELECT * FROM split_history WHERE company_id = ? ORDER BY block_number ASC, log_index ASC"
+  );
+  const results = stmt.all(companyId) as unknown[];
+  return results.map((row) => asSplitHistoryRecord(row));
+}
+
+/**
+ * Apply a balance delta to an address
+ * Writes the ledger row and updates the shareholders row in one transaction
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Balance change details
+ * @returns True if the change was applied, false if it was already in the ledger
+ * @throws Error if the change would make the balance negative (events applied out of order)
+ */
+export function applyBalanceChange(
+  db: Database,
+  companyId: number,
+  input: BalanceChangeInput
+): boolean {
+  const address = input.address.toLowerCase();
+
+  return db.transaction(() => {
+    const existing = db
+      .prepare(
+        `SELECT 1 FROM balance_changes
+         WHERE company_id = ? AND block_number = ? AND log_index = ?
+           AND address = ? AND change_type = ?`
+      )
+      .get(companyId, input.blockNumber, input.logIndex, address, input.changeType);
+
+    if (existing) {
+      return false;
+    }
+
+    const current = db
+      .prepare("SELECT balance FROM shareholders WHERE company_id = ? AND address = ?")
+      .get(companyId, address) as { balance: string } | null;
+    const balanceAfter = BigInt(current?.balance ?? "0") + input.delta;
+
+    if (balanceAfter < 0n) {
+      throw new Error(
+        `Balance for ${address} would become negative at block ${input.blockNumber}, logIndex ${input.logIndex}`
+      );
+    }
+
+    db.prepare(
+      `INSERT INTO balance_changes (
+        company_id, address, delta, balance_after, change_type,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      companyId,
+      address,
+      input.delta.toString(),
+      balanceAfter.toString(),
+      input.changeType,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+    const effectiveBalance = toEffectiveBalance(
+      balanceAfter,
+      getSplitFactor(db, companyId, input.blockNumber)
+    );
+
+    db.prepare(
+      `INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(company_id, address) DO UPDATE SET
+         balance = excluded.balance,
+         effective_balance = excluded.effective_balance,
+         last_updated_block = excluded.last_updated_block`
+    ).run(
+      companyId,
+      address,
+      balanceAfter.toString(),
+      effectiveBalance.toString(),
+      input.blockNumber
+    );
+
+    return true;
+  })();
+}
+
+/**
+ * Record a split and recompute every shareholder's effective balance
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Split details from the SplitExecuted event
+ * @returns True if the split was recorded, false if it was already indexed
+ */
+export function recordSplit(
+  db: Database,
+  companyId: number,
+  input: SplitInput
+): boolean {
+  return db.transaction(() => {
+    const result = db
+      .prepare(
+        `INSERT OR IGNORE INTO split_history (
+          company_id, old_factor, new_factor, block_number, block_timestamp, log_index, tx_hash
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        companyId,
+        input.oldFactor.toString(),
+        input.newFactor.toString(),
+        input.blockNumber,
+        input.blockTimestamp,
+        input.logIndex,
+        input.txHash
+      );
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    const shareholders = db
+      .prepare("SELECT address, balance FROM shareholders WHERE company_id = ?")
+      .all(companyId) as { address: string; balance: string }[];
+    const update = db.prepare(
+      "UPDATE shareholders SET effective_balance = ? WHERE company_id = ? AND address = ?"
+    );
+
+    for (const shareholder of shareholders) {
+      const effectiveBalance = toEffectiveBalance(
+        BigInt(shareholder.balance),
+        input.newFactor
+      );
+      update.run(effectiveBalance.toString(), companyId, shareholder.address);
+    }
+
+    return true;
+  })();
+}
+
+/**
+ * Get the ledger of balance changes for an address
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param address Ethereum address
+ * @returns Balance change records in chronological order
+ */
+export function getBalanceChanges(
+  db: Database,
+  companyId: number,
+  address: string
+): BalanceChangeRecord[] {
+  const stmt = db.prepare(`
+    SELECT * FROM balance_changes
+    WHERE company_id = ? AND address = ?
+    ORDER BY block_number ASC, log_index ASC, id ASC
+  `);
+  const results = stmt.all(companyId, address.toLowerCase()) as unknown[];
+  return results.map((row) => asBalanceChangeRecord(row));
+}
+
+/**
+ * Rebuild the shareholders table from the balance_changes ledger
+ * Used after ledger rows are removed (e.g. chain reorganization rollback)
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Number of shareholder rows written
+ */
+export function rebuildShareholders(db: Database, companyId: number): number {
+  return db.transaction(() => {
+    const splitFactor = getSplitFactor(db, companyId);
+    const latest = db
+      .prepare(
+        `SELECT address, balance_after, block_number FROM (
+          SELECT
+            *,
+            ROW_NUMBER() OVER (
+              PARTITION BY address
+              ORDER BY block_number DESC, log_index DESC, id DESC
+            ) AS rn
+          FROM balance_changes
+          WHERE company_id = ?
+        )
+        WHERE rn = 1`
+      )
+      .all(companyId) as { address: string; balance_after: string; block_number: number }[];
+
+    db.prepare("DELETE FROM shareholders WHERE company_id = ?").run(companyId);
+
+    const insert = db.prepare(
+      `INSERT INTO shareholders (company_id, address, balance, effective_balance, last_updated_block)
+       VALUES (?, ?, ?, ?, ?)`
+    );
+    for (const row of latest) {
+      const balance = BigInt(row.balance_after);
+      insert.run(
+        companyId,
+        row.address,
+        balance.toString(),
+        toEffectiveBalance(balance, splitFactor).toString(),
+        row.block_number
+      );
+    }
+
+    return latest.length;
+  })();
+}
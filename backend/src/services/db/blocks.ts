@@ -0,0 +1,218 @@
+/**
+ * @file Block tracking and reorg rollback for ChainEquity backend
+ * @notice Stores hashes of recently indexed blocks and rolls indexed data back to a fork point
+ *
+ * @dev The indexer records every new head (number, hash, parent hash) and the block hash of every
+ *      indexed log. A reorg is detected when a head's parent hash, or the hash seen for an already
+ *      tracked height, differs from what is stored. Everything indexed above the fork point is then
+ *      deleted and the range is replayed from the chain.
+ */
+
+import { Database } from "bun:sqlite";
+import type { IndexedBlockRecord } from "../../db/schema";
+import { asIndexedBlockRecord } from "../../db/index";
+import { rebuildShareholders } from "./balances";
+import { deleteCheckpointsAfter } from "./snapshots";
+import { reconcileKycRequests } from "./kyc";
+import { reconcileRecoveryRequests } from "./recovery";
+
+/**
+ * Event-derived tables keyed by block_number that are rolled back on reorg
+ * shareholders and snapshot checkpoints are derived from these and rebuilt separately
+ */
+const ROLLBACK_TABLES = [
+  "events",
+  "transactions",
+  "corporate_actions",
+  "balance_changes",
+  "split_history",
+  "allowlist_history",
+  "symbol_history",
+  "transfer_restriction_history",
+  "token_versions",
+  "share_classes",
+  "share_class_balance_changes",
+  "vesting_grants",
+  "vesting_grant_revocations",
+  "lockup_history",
+  "compliance_config_history",
+  "forced_transfer_history",
+  "pause_history",
+  "authorized_shares_history",
+  "allowlist_root_history",
+  "role_history",
+  "indexed_blocks",
+] as const;
+
+/**
+ * Input type for recording a block
+ */
+export interface RecordBlockInput {
+  blockNumber: number;
+  blockHash: string;
+  parentHash?: string | null;
+  blockTimestamp?: number | null;
+}
+
+/**
+ * Result of a rollback
+ */
+export interface RollbackResult {
+  forkBlock: number;
+  deleted: Record<string, number>; // Rows deleted per table
+  shareholders: number; // Shareholder rows after rebuild
+}
+
+/**
+ * Record a block hash
+ * A full header (with parent hash) replaces a log-only entry for the same height;
+ * a log-only entry never overwrites an existing row
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Block details
+ */
+export function recordBlock(
+  db: Database,
+  companyId: number,
+  input: RecordBlockInput
+): void {
+  if (input.parentHash) {
+    db.prepare(
+      `INSERT INTO indexed_blocks (company_id, block_number, block_hash, parent_hash, block_timestamp)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(company_id, block_number) DO UPDATE SET
+         block_hash = excluded.block_hash,
+         parent_hash = excluded.parent_hash,
+         block_timestamp = excluded.block_timestamp`
+    ).run(
+      companyId,
+      input.blockNumber,
+      input.blockHash.toLowerCase(),
+      input.parentHash.toLowerCase(),
+      input.blockTimestamp ?? null
+    );
+    return;
+  }
+
+  db.prepare(
+    `INSERT OR IGNORE INTO indexed_blocks (company_id, block_number, block_hash, parent_hash, block_timestamp)
+     VALUES (?, ?, ?, NULL, ?)`
+  ).run(
+    companyId,
+    input.blockNumber,
+    input.blockHash.toLowerCase(),
+    input.blockTimestamp ?? null
+  );
+}
+
+/**
+ * Get a tracked block by number
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Block number
+ * @returns Indexed block record or null if the block is not tracked
+ */
+export function getIndexedBlock(
+  db: Database,
+  companyId: number,
+  blockNumber: number
+): IndexedBlockRecord | null {
+  const row = db
+    .prepare("SELECT * FROM indexed_blocks WHERE company_id = ? AND block_number = ?")
+    .get(companyId, blockNumber);
+  return row ? asIndexedBlockRecord(row) : null;
+}
+
+/**
+ * Get tracked blocks at or below a block, newest first
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Highest block number to include
+ * @param limit Maximum number of blocks to return
+ * @returns Indexed block records ordered by block number DESC
+ */
+export function getIndexedBlocksBefore(
+  db: Database,
+  companyId: number,
+  blockNumber: number,
+  limit: number
+): IndexedBlockRecord[] {
+  const results = db
+    .prepare(
+      `SELECT * FROM indexed_blocks
+       WHERE company_id = ? AND block_number <= ?
+       ORDER BY block_number DESC
+       LIMIT ?`
+    )
+    .all(companyId, blockNumber, limit) as unknown[];
+  return results.map((row) => asIndexedBlockRecord(row));
+}
+
+/**
+ * Get the highest tracked block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Indexed block record or null if no block is tracked
+ */
+export function getLatestIndexedBlock(
+  db: Database,
+  companyId: number
+): IndexedBlockRecord | null {
+  const row = db
+    .prepare(
+      "SELECT * FROM indexed_blocks WHERE company_id = ? ORDER BY block_number DESC LIMIT 1"
+    )
+    .get(companyId);
+  return row ? asIndexedBlockRecord(row) : null;
+}
+
+/**
+ * Delete tracked blocks below a block number
+ * Blocks deeper than the maximum reorg depth no longer need to be tracked
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Block number (exclusive); blocks below it are removed
+ */
+export function pruneIndexedBlocks(
+  db: Database,
+  companyId: number,
+  blockNumber: number
+): void {
+  db.prepare(
+    "DELETE FROM indexed_blocks WHERE company_id = ? AND block_number < ?"
+  ).run(companyId, blockNumber);
+}
+
+/**
+ * Roll back a company's indexed data above a fork point
+ * Deletes event-derived rows with block_number > forkBlock, drops later snapshot
+ * checkpoints, rebuilds shareholders from the remaining balance ledger and
+ * reconciles KYC and recovery requests with the remaining events
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param forkBlock Last block shared by the old and new chain (kept)
+ * @returns Rollback summary
+ */
+export function rollbackToBlock(
+  db: Database,
+  companyId: number,
+  forkBlock: number
+): RollbackResult {
+  return db.transaction(() => {
+    const deleted: Record<string, number> = {};
+
+    for (const table of ROLLBACK_TABLES) {
+      const result = db
+        .prepare(`DELETE FROM ${table} WHERE company_id = ? AND block_number > ?`)
+        .run(companyId, forkBlock);
+      deleted[table] = result.changes;
+    }
+
+    deleteCheckpointsAfter(db, companyId, forkBlock);
+    const shareholders = rebuildShareholders(db, companyId);
+    reconcileKycRequests(db);
+    reconcileRecoveryRequests(db, companyId);
+
+    return { forkBlock, deleted, shareholders };
+  })();
+}
@@ -0,0 +1,149 @@
+/**
+ * @file Company registry operations for ChainEquity backend
+ * @notice Each company is a CapTable/token pair; every indexed table is scoped by its id
+ */
+
+import { Database } from "bun:sqlite";
+import type { CompanyRecord } from "../../db/schema";
+import { asCompanyRecord } from "../../db/index";
+import type { CompanyDeployment } from "../../config/contracts";
+
+/**
+ * Input type for registering a company
+ */
+export interface RegisterCompanyInput {
+  name: string;
+  chainId: number;
+  capTableAddress: string;
+  tokenAddress: string; // Originally deployed token
+  startBlock?: number; // First block to index (defaults to START_BLOCK)
+}
+
+/**
+ * Register a company, or update the name of an already registered CapTable
+ * The token address and indexer state are kept on conflict: replacements are tracked by token_versions
+ * @param db SQLite database instance
+ * @param input Company deployment details
+ * @returns Company record
+ */
+export function registerCompany(
+  db: Database,
+  input: RegisterCompanyInput
+): CompanyRecord {
+  const row = db
+    .prepare(
+      `INSERT INTO companies (name, chain_id, cap_table_address, token_address, last_indexed_block, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(chain_id, cap_table_address) DO UPDATE SET name = excluded.name
+       RETURNING *`
+    )
+    .get(
+      input.name,
+      input.chainId,
+      input.capTableAddress.toLowerCase(),
+      input.tokenAddress.toLowerCase(),
+      input.startBlock !== undefined ? input.startBlock - 1 : null,
+      Math.floor(Date.now() / 1000)
+    );
+  return asCompanyRecord(row);
+}
+
+/**
+ * Register every configured company deployment (see config/contracts.ts)
+ * @param db SQLite database instance
+ * @param chainId Chain the deployments are on
+ * @param deployments Company deployments
+ * @returns Company records, in deployment order
+ */
+export function registerDeployments(
+  db: Database,
+  chainId: number,
+  deployments: CompanyDeployment[]
+): CompanyRecord[] {
+  return deployments.map((deployment) =>
+    registerCompany(db, {
+      name: deployment.name,
+      chainId,
+      capTableAddress: deployment.capTable,
+      tokenAddress: deployment.token,
+    })
+  );
+}
+
+/**
+ * Get all registered companies, oldest first
+ * @param db SQLite database instance
+ * @returns Company records
+ */
+export function getCompanies(db: Database): CompanyRecord[] {
+  const results = db
+    .prepare("SELECT * FROM companies ORDER BY id ASC")
+    .all() as unknown[];
+  return results.map((row) => asCompanyRecord(row));
+}
+
+/**
+ * Get a company by id
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Company record or null if not registered
+ */
+export function getCompanyById(
+  db: Database,
+  companyId: number
+): CompanyRecord | null {
+  const row = db.prepare("SELECT * FROM companies WHERE id = ?").get(companyId);
+  return row ? asCompanyRecord(row) : null;
+}
+
+/**
+ * Get a company by its CapTable address
+ * @param db SQLite database instance
+ * @param chainId Chain the CapTable is deployed on
+ * @param capTableAddress CapTable contract address
+ * @returns Company record or null if not registered
+ */
+export function getCompanyByCapTable(
+  db: Database,
+  chainId: number,
+  capTableAddress: string
+): CompanyRecord | null {
+  const row = db
+    .prepare("SELECT * FROM companies WHERE chain_id = ? AND cap_table_address = ?")
+    .get(chainId, capTableAddress.toLowerCase());
+  return row ? asCompanyRecord(row) : null;
+}
+
+/**
+ * Set the last block fully indexed for a company
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Block number
+ */
+export function updateLastIndexedBlock(
+  db: Database,
+  companyId: number,
+  blockNumber: number
+): void {
+  db.prepare("UPDATE companies SET last_indexed_block = ? WHERE id = ?").run(
+    blockNumber,
+    companyId
+  );
+}
+
+/**
+ * Record the most recent reorg rollback for a company
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param reorg Reorg description (stored as JSON)
+ */
+export function recordReorg(
+  db: Database,
+  companyId: number,
+  reorg: Record<string, unknown>
+): void {
+  db.prepare("UPDATE companies SET last_reorg = ? WHERE id = ?").run(
+    JSON.stringify(reorg),
+    companyId
+  );
+}
@@ -0,0 +1,345 @@
+/**
+ * @file Compliance configuration operations for ChainEquity backend
+ * @notice Tracks the ModularCompliance a token consults and the configuration of its modules
+ *
+ * @dev Compliance and module events are fetched by their token topic, so anyone can emit them
+ *      for a company's token. The current configuration is therefore rebuilt at query time from
+ *      trusted rows only: the compliance is the one from the token's latest ComplianceSet, its
+ *      modules are those it added and has not removed since, and module settings only come from
+ *      those modules. Settings of a module removed and added again are kept, like on-chain.
+ */
+
+import { Database } from "bun:sqlite";
+import type { ComplianceConfigRecord } from "../../db/schema";
+import { asComplianceConfigRecord } from "../../db/index";
+
+/**
+ * Module type names reported by the built-in modules' name()
+ */
+export const COMPLIANCE_MODULE_NAMES = {
+  MAX_HOLDERS: "MaxHolders",
+  MAX_OWNERSHIP: "MaxOwnership",
+  COUNTRY_RESTRICTION: "CountryRestriction",
+  ACCREDITED_INVESTOR: "AccreditedInvestor",
+} as const;
+
+/**
+ * Input type for recording a compliance configuration change
+ */
+export interface ComplianceConfigChangeInput {
+  tokenAddress: string;
+  contractAddress: string;
+  configType: ComplianceConfigRecord["configType"];
+  complianceAddress?: string | null;
+  moduleAddress?: string | null;
+  moduleName?: string | null;
+  wallet?: string | null;
+  country?: string | null;
+  value?: number | null;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Current state of a module plugged into a token's compliance
+ * Only the settings of the module's type are set; custom modules only report their name
+ */
+export interface ComplianceModuleState {
+  address: string;
+  name: string;
+  addedAtBlock: number;
+  maxHolders?: number; // 0 = no limit
+  maxOwnershipBps?: number; // Share of authorized shares in basis points, 0 = no limit
+  restrictedCountries?: string[];
+  investorCountries?: { wallet: string; country: string }[];
+  accreditedWallets?: string[];
+}
+
+/**
+ * Current compliance configuration of a token
+ */
+export interface ComplianceSettings {
+  tokenAddress: string;
+  complianceAddress: string | null; // null = no compliance set
+  modules: ComplianceModuleState[];
+}
+
+/**
+ * Proposed token movement to evaluate against the compliance modules
+ */
+export interface ComplianceCheckInput {
+  from: string;
+  to: string;
+  amount: bigint; // Base units
+  totalAuthorized?: bigint; // Needed for max ownership limits, which are skipped without it
+}
+
+/**
+ * Record a compliance configuration change from a token, compliance or module event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Configuration change details
+ * @returns True if the change was recorded, false if it was already indexed
+ */
+export function recordComplianceConfigChange(
+  db: Database,
+  companyId: number,
+  input: ComplianceConfigChangeInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO compliance_config_history (
+        company_id, token_address, contract_address, config_type, compliance_address,
+        module_address, module_name, wallet, country, value,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.tokenAddress.toLowerCase(),
+      input.contractAddress.toLowerCase(),
+      input.configType,
+      input.complianceAddress ? input.complianceAddress.toLowerCase() : null,
+      input.moduleAddress ? input.moduleAddress.toLowerCase() : null,
+      input.moduleName ?? null,
+      input.wallet ? input.wallet.toLowerCase() : null,
+      input.country || null,
+      input.value ?? null,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get every indexed compliance configuration change of a token, oldest first
+ * Includes changes from contracts that are not (or no longer) trusted; see getComplianceSettings
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns Configuration changes in chain order
+ */
+export function getComplianceHistory(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): ComplianceConfigRecord[] {
+  const results = db
+    .prepare(
+      `SELECT id, token_address, contract_address, config_type, compliance_address,
+              module_address, module_name, wallet, country, value,
+              block_number, block_timestamp, log_index, tx_hash
+        FROM compliance_config_history
+        WHERE company_id = ? AND token_address = ?
+        ORDER BY block_number ASC, log_index ASC`
+    )
+    .all(companyId, tokenAddress.toLowerCase());
+
+  return results.map((row) => asComplianceConfigRecord(row));
+}
+
+/**
+ * Apply a module setting change to the module's state
+ */
+function applyModuleChange(
+  module: ComplianceModuleState,
+  change: ComplianceConfigRecord,
+  countries: Map<string, string>,
+  restricted: Set<string>,
+  accredited: Set<string>
+): void {
+  switch (change.configType) {
+    case "MAX_HOLDERS":
+      module.maxHolders = change.value ?? 0;
+      break;
+    case "MAX_OWNERSHIP":
+      module.maxOwnershipBps = change.value ?? 0;
+      break;
+    case "INVESTOR_COUNTRY":
+      if (change.country) {
+        countries.set(change.wallet!, change.country);
+      } else {
+        countries.delete(change.wallet!);
+      }
+      break;
+    case "COUNTRY_RESTRICTION":
+      if (change.value) {
+        restricted.add(change.country!);
+      } else {
+        restricted.delete(change.country!);
+      }
+      break;
+    case "ACCREDITATION":
+      if (change.value) {
+        accredited.add(change.wallet!);
+      } else {
+        accredited.delete(change.wallet!);
+      }
+      break;
+  }
+}
+
+/**
+ * Get a token's current compliance and the settings of its plugged-in modules
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns Compliance settings (no modules when no compliance is set)
+ */
+export function getComplianceSettings(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): ComplianceSettings {
+  const token = tokenAddress.toLowerCase();
+  const history = getComplianceHistory(db, companyId, token);
+
+  const complianceSet = history
+    .filter(
+      (change) =>
+        change.configType === "COMPLIANCE_SET" && change.contractAddress === token
+    )
+    .at(-1);
+  const complianceAddress = complianceSet?.complianceAddress ?? null;
+  if (!complianceAddress) {
+    return { tokenAddress: token, complianceAddress: null, modules: [] };
+  }
+
+  // Plugged-in modules, in the order they were (last) added
+  const plugged = new Map<string, ComplianceModuleState>();
+  for (const change of history) {
+    if (change.contractAddress !== complianceAddress || !change.moduleAddress) {
+      continue;
+    }
+    if (change.configType === "MODULE_ADDED") {
+      plugged.set(change.moduleAddress, {
+        address: change.moduleAddress,
+        name: change.moduleName ?? "",
+        addedAtBlock: change.blockNumber,
+      });
+    } else if (change.configType === "MODULE_REMOVED") {
+      plugged.delete(change.moduleAddress);
+    }
+  }
+
+  const modules = [...plugged.values()];
+  for (const module of modules) {
+    const countries = new Map<string, string>();
+    const restricted = new Set<string>();
+    const accredited = new Set<string>();
+
+    for (const change of history) {
+      if (change.contractAddress === module.address) {
+        applyModuleChange(module, change, countries, restricted, accredited);
+      }
+    }
+
+    // Report every setting of the module's type, defaulting to the constructor state
+    if (module.name === COMPLIANCE_MODULE_NAMES.MAX_HOLDERS) {
+      module.maxHolders ??= 0;
+    } else if (module.name === COMPLIANCE_MODULE_NAMES.MAX_OWNERSHIP) {
+      module.maxOwnershipBps ??= 0;
+    } else if (module.name === COMPLIANCE_MODULE_NAMES.COUNTRY_RESTRICTION) {
+      module.restrictedCountries = [...restricted].sort();
+      module.investorCountries = [...countries].map(([wallet, country]) => ({
+        wallet,
+        country,
+      }));
+    } else if (module.name === COMPLIANCE_MODULE_NAMES.ACCREDITED_INVESTOR) {
+      module.accreditedWallets = [...accredited];
+    }
+  }
+
+  return { tokenAddress: token, complianceAddress, modules };
+}
+
+/**
+ * Get a wallet's indexed balance of the active token (0 if it never held shares)
+ */
+function getBalance(db: Database, companyId: number, wallet: string): bigint {
+  const holder = db
+    .prepare("SELECT balance FROM shareholders WHERE company_id = ? AND address = ?")
+    .get(companyId, wallet.toLowerCase()) as { balance: string } | null;
+  return BigInt(holder?.balance ?? "0");
+}
+
+/**
+ * Check a module's rule the way its moduleCheck() does
+ */
+function checkModule(
+  db: Database,
+  companyId: number,
+  module: ComplianceModuleState,
+  input: ComplianceCheckInput
+): boolean {
+  const to = input.to.toLowerCase();
+
+  if (module.name === COMPLIANCE_MODULE_NAMES.MAX_HOLDERS) {
+    if (!module.maxHolders || input.amount === 0n || getBalance(db, companyId, to) > 0n) {
+      return true;
+    }
+    // Holders are counted from indexed balances; the module counts them from the moment it was
+    // plugged in (or synced), so the two can differ for modules added after issuance
+    const holders = db
+      .prepare(
+        "SELECT COUNT(*) as count FROM shareholders WHERE company_id = ? AND balance != '0'"
+      )
+      .get(companyId) as { count: number };
+    let count = holders.count + 1;
+    // A sender moving its whole balance stops being a holder
+    if (getBalance(db, companyId, input.from) === input.amount) {
+      count--;
+    }
+    return count <= module.maxHolders;
+  }
+
+  if (module.name === COMPLIANCE_MODULE_NAMES.MAX_OWNERSHIP) {
+    if (!module.maxOwnershipBps || input.totalAuthorized === undefined) {
+      return true;
+    }
+    return (
+      (getBalance(db, companyId, to) + input.amount) * 10_000n <=
+      input.totalAuthorized * BigInt(module.maxOwnershipBps)
+    );
+  }
+
+  if (module.name === COMPLIANCE_MODULE_NAMES.COUNTRY_RESTRICTION) {
+    const country = module.investorCountries?.find(
+      (investor) => investor.wallet === to
+    )?.country;
+    return !country || !module.restrictedCountries?.includes(country);
+  }
+
+  if (module.name === COMPLIANCE_MODULE_NAMES.ACCREDITED_INVESTOR) {
+    return module.accreditedWallets?.includes(to) ?? false;
+  }
+
+  // Custom modules cannot be evaluated from indexed state
+  return true;
+}
+
+/**
+ * Check whether the active token's compliance would allow a transfer
+ * Mirrors ModularCompliance.canTransfer() for the built-in modules; custom modules are assumed
+ * to allow the transfer
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Active token address
+ * @param input Proposed transfer
+ * @returns True if every plugged-in module allows it (or no compliance is set)
+ */
+export function checkCompliance(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  input: ComplianceCheckInput
+): boolean {
+  return getComplianceSettings(db, companyId, tokenAddress).modules.every(
+    (module) => checkModule(db, companyId, module, input)
+  );
+}
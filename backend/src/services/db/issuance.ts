@@ -0,0 +1,166 @@
+/**
+ * @file Bulk issuance checks for ChainEquity backend
+ * @notice Validates the rows of a batch issuance before the issuer submits batchMint()
+ *
+ * @dev batchMint() reverts as a whole if any recipient is not approved or the batch exceeds the
+ *      authorized supply, so every row is checked up front from indexed state: the wallet is
+ *      linked to a user, on the allowlist and allowed by the compliance modules, and the batch
+ *      total fits in the authorized headroom (authorized minus outstanding). Rows are checked on
+ *      their own, so compliance limits reached by earlier rows of the same batch are not caught.
+ *      Results are only as fresh as the indexer.
+ */
+
+import { Database } from "bun:sqlite";
+import { isAddress, zeroAddress } from "viem";
+import { getApprovedWalletSet } from "./allowlist";
+import { getUserProfilesByWallet } from "./users";
+import { checkCompliance } from "./compliance";
+import { isTokenPaused } from "./pause";
+import { getCurrentAuthorizedShares } from "./authorizedShares";
+
+/**
+ * One row of a batch issuance
+ */
+export interface IssuanceRowInput {
+  walletAddress: string;
+  amount: string; // Base units (decimal string)
+}
+
+/**
+ * Validation result of one row
+ */
+export interface IssuanceRowResult {
+  index: number; // Position in the submitted rows
+  walletAddress: string;
+  amount: string;
+  linked: boolean; // Wallet belongs to a registered user
+  email: string | null;
+  displayName: string | null;
+  approved: boolean; // Wallet is on the allowlist
+  errors: string[]; // Problems approving the wallet cannot fix
+}
+
+/**
+ * Validation result of a batch issuance
+ */
+export interface IssuanceBatchValidation {
+  tokenAddress: string;
+  rows: IssuanceRowResult[];
+  totalAmount: string;
+  totalAuthorized: string | null; // Null if no authorized shares are indexed for the token
+  totalOutstanding: string;
+  headroom: string | null;
+  withinHeadroom: boolean;
+  paused: boolean;
+  unapprovedWallets: string[]; // Wallets to pass to batchApprove() before minting
+  valid: boolean; // batchMint() would succeed as of the indexed state
+}
+
+/**
+ * Sum the indexed balances of the active token
+ */
+function getOutstandingSupply(db: Database, companyId: number): bigint {
+  const holders = db
+    .prepare("SELECT balance FROM shareholders WHERE company_id = ?")
+    .all(companyId) as { balance: string }[];
+  return holders.reduce((total, holder) => total + BigInt(holder.balance), 0n);
+}
+
+/**
+ * Validate the rows of a batch issuance against indexed state
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Active token address
+ * @param rows Rows in submission order
+ * @returns Per-row results and batch totals
+ */
+export function validateIssuanceBatch(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  rows: IssuanceRowInput[]
+): IssuanceBatchValidation {
+  const approvedWallets = getApprovedWalletSet(db, companyId);
+  const profiles = getUserProfilesByWallet(
+    db,
+    rows.map((row) => row.walletAddress).filter((address) => isAddress(address))
+  );
+  const totalAuthorized = getCurrentAuthorizedShares(db, companyId, tokenAddress);
+  const totalOutstanding = getOutstandingSupply(db, companyId);
+  const firstIndex = new Map<string, number>();
+
+  let totalAmount = 0n;
+  const results = rows.map((row, index): IssuanceRowResult => {
+    const walletAddress = row.walletAddress.toLowerCase();
+    const amount = BigInt(row.amount);
+    const profile = profiles.get(walletAddress);
+    const errors: string[] = [];
+    totalAmount += amount;
+
+    if (!isAddress(row.walletAddress)) {
+      errors.push("Invalid wallet address");
+    } else {
+      const duplicateOf = firstIndex.get(walletAddress);
+      if (duplicateOf !== undefined) {
+        errors.push(`Duplicate of row ${duplicateOf + 1}`);
+      } else {
+        firstIndex.set(walletAddress, index);
+      }
+      if (!profile) {
+        errors.push("Wallet is not linked to a user");
+      }
+    }
+    if (amount === 0n) {
+      errors.push("Amount must be greater than zero");
+    } else if (
+      isAddress(row.walletAddress) &&
+      !checkCompliance(db, companyId, tokenAddress, {
+        from: zeroAddress,
+        to: walletAddress,
+        amount,
+        totalAuthorized: totalAuthorized ?? undefined,
+      })
+    ) {
+      errors.push("Rejected by the compliance rules");
+    }
+
+    return {
+      index,
+      walletAddress,
+      amount: row.amount,
+      linked: !!profile,
+      email: profile?.email ?? null,
+      displayName: profile?.displayName ?? null,
+      approved: approvedWallets.has(walletAddress),
+      errors,
+    };
+  });
+
+  const headroom = totalAuthorized !== null ? totalAuthorized - totalOutstanding : null;
+  const withinHeadroom = headroom === null || totalAmount <= headroom;
+  const paused = isTokenPaused(db, companyId, tokenAddress);
+  const unapprovedWallets = [
+    ...new Set(
+      results
+        .filter((row) => !row.approved && isAddress(row.walletAddress))
+        .map((row) => row.walletAddress)
+    ),
+  ];
+
+  return {
+    tokenAddress,
+    rows: results,
+    totalAmount: totalAmount.toString(),
+    totalAuthorized: totalAuthorized?.toString() ?? null,
+    totalOutstanding: totalOutstanding.toString(),
+    headroom: headroom?.toString() ?? null,
+    withinHeadroom,
+    paused,
+    unapprovedWallets,
+    valid:
+      results.length > 0 &&
+      results.every((row) => row.errors.length === 0 && row.approved) &&
+      withinHeadroom &&
+      !paused,
+  };
+}
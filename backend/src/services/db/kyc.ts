@@ -0,0 +1,417 @@
+/**
+ * @file KYC onboarding database operations for ChainEquity backend
+ * @notice Stores investor KYC requests and moves them through the review state machine
+ *
+ * @dev Status flow:
+ *        submitted -> under_review -> approved | denied
+ *        approved  -> on_chain_approved (reconciliation only)
+ *      Review transitions are made by issuers/admins through transitionKycRequest. The on-chain
+ *      step is never set directly: reconcileKycRequests compares approved requests with the
+ *      indexed allowlist_history table, so it follows WalletApproved/WalletRevoked events and
+ *      reorg rollbacks. KYC is platform-wide: a wallet approved on any company's token counts.
+ */
+
+import { Database } from "bun:sqlite";
+import type {
+  AccreditationStatus,
+  KycRequestRecord,
+  KycRequestStatus,
+  KycRequestTransitionRecord,
+} from "../../db/schema";
+
+/**
+ * Review transitions allowed for issuers/admins, keyed by target status
+ */
+const REVIEW_TRANSITIONS: Record<
+  "under_review" | "approved" | "denied",
+  KycRequestStatus
+> = {
+  under_review: "submitted",
+  approved: "under_review",
+  denied: "under_review",
+};
+
+/**
+ * Statuses that block a new submission from the same user
+ */
+const OPEN_STATUSES: KycRequestStatus[] = [
+  "submitted",
+  "under_review",
+  "approved",
+  "on_chain_approved",
+];
+
+/**
+ * Input type for submitting a KYC request
+ */
+export interface CreateKycRequestInput {
+  uid: string;
+  walletAddress: string;
+  fullName: string;
+  jurisdiction: string;
+  accreditationStatus: AccreditationStatus;
+  documentHashes: string[];
+}
+
+/**
+ * Target statuses an issuer/admin can move a request to
+ */
+export type KycReviewStatus = keyof typeof REVIEW_TRANSITIONS;
+
+/**
+ * Result of a reconciliation run
+ */
+export interface KycReconcileResult {
+  onChainApproved: number; // approved -> on_chain_approved
+  reverted: number; // on_chain_approved -> approved
+}
+
+/**
+ * Current time in unix seconds
+ */
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Column list for kyc_requests reads (document_hashes is still JSON text)
+ */
+const SELECT_REQUEST = `
+  SELECT
+    id,
+    uid,
+    wallet_address AS walletAddress,
+    full_name AS fullName,
+    jurisdiction,
+    accreditation_status AS accreditationStatus,
+    document_hashes AS documentHashes,
+    status,
+    reviewer_uid AS reviewerUid,
+    decision_reason AS decisionReason,
+    on_chain_block_number AS onChainBlockNumber,
+    on_chain_tx_hash AS onChainTxHash,
+    created_at AS createdAt,
+    updated_at AS updatedAt
+  FROM kyc_requests
+`;
+
+/**
+ * Parse the JSON document hash column of a selected row
+ */
+function toKycRequestRecord(row: unknown): KycRequestRecord {
+  const r = row as Omit<KycRequestRecord, "documentHashes"> & {
+    documentHashes: string;
+  };
+  return { ...r, documentHashes: JSON.parse(r.documentHashes) as string[] };
+}
+
+/**
+ * Append a row to the transition audit trail
+ */
+function recordTransition(
+  db: Database,
+  requestId: number,
+  fromStatus: KycRequestStatus | null,
+  toStatus: KycRequestStatus,
+  actorUid: string | null,
+  reason: string | null,
+  now: number
+): void {
+  db.prepare(
+    `INSERT INTO kyc_request_transitions (request_id, from_status, to_status, actor_uid, reason, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(requestId, fromStatus, toStatus, actorUid, reason, now);
+}
+
+/**
+ * Check whether an issuer/admin may move a request from one status to another
+ * @param from Current status
+ * @param to Target review status
+ * @returns True if the transition is part of the review flow
+ */
+export function canTransition(
+  from: KycRequestStatus,
+  to: KycReviewStatus
+): boolean {
+  return REVIEW_TRANSITIONS[to] === from;
+}
+
+/**
+ * Submit a KYC request
+ * @param db SQLite database instance
+ * @param input Identity details and the wallet to approve
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Created request in the `submitted` status
+ */
+export function createKycRequest(
+  db: Database,
+  input: CreateKycRequestInput,
+  now: number = nowSeconds()
+): KycRequestRecord {
+  return db.transaction(() => {
+    const result = db
+      .prepare(
+        `INSERT INTO kyc_requests (
+          uid, wallet_address, full_name, jurisdiction, accreditation_status,
+          document_hashes, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, 'submitted', ?, ?)`
+      )
+      .run(
+        input.uid,
+        input.walletAddress.toLowerCase(),
+        input.fullName,
+        input.jurisdiction.toUpperCase(),
+        input.accreditationStatus,
+        JSON.stringify(input.documentHashes.map((hash) => hash.toLowerCase())),
+        now,
+        now
+      );
+    const id = Number(result.lastInsertRowid);
+    recordTransition(db, id, null, "submitted", input.uid, null, now);
+    return getKycRequest(db, id)!;
+  })();
+}
+
+/**
+ * Get a KYC request by ID
+ * @param db SQLite database instance
+ * @param id Request ID
+ * @returns KYC request or null if not found
+ */
+export function getKycRequest(
+  db: Database,
+  id: number
+): KycRequestRecord | null {
+  const row = db.prepare(`${SELECT_REQUEST} WHERE id = ?`).get(id);
+  return row ? toKycRequestRecord(row) : null;
+}
+
+/**
+ * Get a user's open request (any status except denied)
+ * @param db SQLite database instance
+ * @param uid User ID
+ * @returns Open KYC request or null if the user may submit a new one
+ */
+export function getOpenKycRequest(
+  db: Database,
+  uid: string
+): KycRequestRecord | null {
+  const placeholders = OPEN_STATUSES.map(() => "?").join(", ");
+  const row = db
+    .prepare(
+      `${SELECT_REQUEST}
+       WHERE uid = ? AND status IN (${placeholders})
+       ORDER BY id DESC
+       LIMIT 1`
+    )
+    .get(uid, ...OPEN_STATUSES);
+  return row ? toKycRequestRecord(row) : null;
+}
+
+/**
+ * Get a user's most recent request
+ * @param db SQLite database instance
+ * @param uid User ID
+ * @returns Latest KYC request or null if the user never submitted one
+ */
+export function getLatestKycRequestForUser(
+  db: Database,
+  uid: string
+): KycRequestRecord | null {
+  const row = db
+    .prepare(`${SELECT_REQUEST} WHERE uid = ? ORDER BY id DESC LIMIT 1`)
+    .get(uid);
+  return row ? toKycRequestRecord(row) : null;
+}
+
+/**
+ * List KYC requests, oldest first (review queue order)
+ * @param db SQLite database instance
+ * @param status Optional status filter
+ * @returns KYC requests
+ */
+export function listKycRequests(
+  db: Database,
+  status?: KycRequestStatus
+): KycRequestRecord[] {
+  const where = status !== undefined ? "WHERE status = ?" : "";
+  const params = status !== undefined ? [status] : [];
+  const rows = db
+    .prepare(`${SELECT_REQUEST} ${where} ORDER BY created_at ASC, id ASC`)
+    .all(...params) as unknown[];
+  return rows.map((row) => toKycRequestRecord(row));
+}
+
+/**
+ * Get the status change audit trail of a request
+ * @param db SQLite database instance
+ * @param requestId Request ID
+ * @returns Transitions in chronological order
+ */
+export function getKycRequestTransitions(
+  db: Database,
+  requestId: number
+): KycRequestTransitionRecord[] {
+  return db
+    .prepare(
+      `SELECT
+        id,
+        request_id AS requestId,
+        from_status AS fromStatus,
+        to_status AS toStatus,
+        actor_uid AS actorUid,
+        reason,
+        created_at AS createdAt
+      FROM kyc_request_transitions
+      WHERE request_id = ?
+      ORDER BY id ASC`
+    )
+    .all(requestId) as KycRequestTransitionRecord[];
+}
+
+/**
+ * Move a request through the review flow
+ * Approving a request reconciles it immediately, so a wallet that is already
+ * on the allowlist goes straight to on_chain_approved
+ * @param db SQLite database instance
+ * @param id Request ID
+ * @param to Target review status
+ * @param actorUid Issuer/admin making the change
+ * @param reason Optional decision reason (stored for approvals and denials)
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Updated request, or null if the request's current status does not allow the transition
+ */
+export function transitionKycRequest(
+  db: Database,
+  id: number,
+  to: KycReviewStatus,
+  actorUid: string,
+  reason: string | null = null,
+  now: number = nowSeconds()
+): KycRequestRecord | null {
+  const from = REVIEW_TRANSITIONS[to];
+  const isDecision = to === "approved" || to === "denied";
+
+  const updated = db.transaction(() => {
+    // Conditional on the current status so concurrent reviews cannot skip a step
+    const result = db
+      .prepare(
+        `UPDATE kyc_requests
+         SET status = ?, reviewer_uid = ?, decision_reason = ?, updated_at = ?
+         WHERE id = ? AND status = ?`
+      )
+      .run(to, actorUid, isDecision ? reason : null, now, id, from);
+    if (result.changes !== 1) {
+      return false;
+    }
+    recordTransition(db, id, from, to, actorUid, reason, now);
+    return true;
+  })();
+
+  if (!updated) {
+    return null;
+  }
+  if (to === "approved") {
+    reconcileKycRequests(db, now);
+  }
+  return getKycRequest(db, id);
+}
+
+/**
+ * Reconcile approved requests with the indexed allowlist
+ * - approved requests whose wallet is on any company's allowlist become on_chain_approved
+ *   (recording the most recent WalletApproved event that put it there)
+ * - on_chain_approved requests whose wallet is no longer on any allowlist
+ *   (revoked, or the approval was orphaned by a reorg) go back to approved
+ * Idempotent: safe to call after every allowlist event and rollback
+ * @param db SQLite database instance
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Number of requests moved in each direction
+ */
+export function reconcileKycRequests(
+  db: Database,
+  now: number = nowSeconds()
+): KycReconcileResult {
+  return db.transaction(() => {
+    const result: KycReconcileResult = { onChainApproved: 0, reverted: 0 };
+
+    // Latest allowlist event per company and wallet (same rule as services/db/allowlist.ts),
+    // preferring a company where the wallet is currently approved
+    const candidates = db
+      .prepare(
+        `SELECT
+          r.id,
+          r.status,
+          h.approved,
+          h.block_number AS blockNumber,
+          h.tx_hash AS txHash
+        FROM kyc_requests r
+        LEFT JOIN (
+          SELECT
+            *,
+            ROW_NUMBER() OVER (
+              PARTITION BY wallet_address
+              ORDER BY approved DESC, block_number DESC, log_index DESC
+            ) AS wallet_rn
+          FROM (
+            SELECT
+              *,
+              ROW_NUMBER() OVER (
+                PARTITION BY company_id, wallet_address
+                ORDER BY block_number DESC, log_index DESC
+              ) AS rn
+            FROM allowlist_history
+          )
+          WHERE rn = 1
+        ) h ON h.wallet_address = r.wallet_address AND h.wallet_rn = 1
+        WHERE r.status IN ('approved', 'on_chain_approved')`
+      )
+      .all() as {
+      id: number;
+      status: KycRequestStatus;
+      approved: number | null;
+      blockNumber: number | null;
+      txHash: string | null;
+    }[];
+
+    for (const request of candidates) {
+      const onAllowlist = request.approved === 1;
+
+      if (request.status === "approved" && onAllowlist) {
+        db.prepare(
+          `UPDATE kyc_requests
+           SET status = 'on_chain_approved', on_chain_block_number = ?, on_chain_tx_hash = ?, updated_at = ?
+           WHERE id = ?`
+        ).run(request.blockNumber, request.txHash, now, request.id);
+        recordTransition(
+          db,
+          request.id,
+          "approved",
+          "on_chain_approved",
+          null,
+          `WalletApproved indexed at block ${request.blockNumber}`,
+          now
+        );
+        result.onChainApproved++;
+      } else if (request.status === "on_chain_approved" && !onAllowlist) {
+        db.prepare(
+          `UPDATE kyc_requests
+           SET status = 'approved', on_chain_block_number = NULL, on_chain_tx_hash = NULL, updated_at = ?
+           WHERE id = ?`
+        ).run(now, request.id);
+        recordTransition(
+          db,
+          request.id,
+          "on_chain_approved",
+          "approved",
+          null,
+          "Wallet is no longer on the allowlist",
+          now
+        );
+        result.reverted++;
+      }
+    }
+
+    return result;
+  })();
+}
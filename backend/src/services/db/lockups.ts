@@ -0,0 +1,196 @@
+/**
+ * @file Lockup operations for ChainEquity backend
+ * @notice Tracks the company-wide lock-up, per-wallet lock-ups and the holding period of a token
+ *
+ * @dev The token blocks transfers from a wallet until the later of the global lock-up and the
+ *      wallet's own lock-up (ChainEquityToken.lockupEndOf). With a holding period set, each
+ *      issuance extends the recipient's lock-up and emits LockupSet, so wallet lock-ups are
+ *      always read from the latest LockupSet event. Lock-ups end with time, not with an event.
+ */
+
+import { Database } from "bun:sqlite";
+import type { LockupHistoryRecord } from "../../db/schema";
+import { asLockupHistoryRecord } from "../../db/index";
+
+/**
+ * Input type for recording a lock-up change
+ */
+export interface LockupChangeInput {
+  tokenAddress: string;
+  lockupType: LockupHistoryRecord["lockupType"];
+  wallet: string | null;
+  value: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Current global lock-up and holding period of a token
+ */
+export interface LockupSettings {
+  globalLockupUntil: number;
+  holdingPeriod: number;
+}
+
+/**
+ * Why and until when transfers from a wallet are blocked
+ */
+export interface LockupStatus extends LockupSettings {
+  wallet: string;
+  walletLockupUntil: number;
+  lockedUntil: number; // Later of the global and the wallet lock-up (0 = never locked up)
+  locked: boolean;
+  reason: "GLOBAL" | "WALLET" | null; // Lock-up that ends last, while locked
+}
+
+/**
+ * Record a lock-up change from a GlobalLockupSet, LockupSet or HoldingPeriodSet event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Lock-up change details
+ * @returns True if the change was recorded, false if it was already indexed
+ */
+export function recordLockupChange(
+  db: Database,
+  companyId: number,
+  input: LockupChangeInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO lockup_history (
+        company_id, token_address, lockup_type, wallet, value,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.tokenAddress.toLowerCase(),
+      input.lockupType,
+      input.wallet ? input.wallet.toLowerCase() : null,
+      input.value,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get the latest value of a lock-up setting (0 if it was never set)
+ */
+function getLatestValue(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  lockupType: LockupHistoryRecord["lockupType"],
+  wallet: string | null = null
+): number {
+  const result = db
+    .prepare(
+      `SELECT value FROM lockup_history
+       WHERE company_id = ? AND token_address = ? AND lockup_type = ? AND wallet IS ?
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT 1`
+    )
+    .get(
+      companyId,
+      tokenAddress.toLowerCase(),
+      lockupType,
+      wallet ? wallet.toLowerCase() : null
+    ) as { value: number } | null;
+  return result?.value ?? 0;
+}
+
+/**
+ * Get a token's current global lock-up and holding period
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns Lock-up settings (0 when never set)
+ */
+export function getLockupSettings(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): LockupSettings {
+  return {
+    globalLockupUntil: getLatestValue(db, companyId, tokenAddress, "GLOBAL"),
+    holdingPeriod: getLatestValue(db, companyId, tokenAddress, "HOLDING_PERIOD"),
+  };
+}
+
+/**
+ * Get the latest lock-up of every wallet that has one
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns Latest LockupSet record per wallet (lifted lock-ups included, with value 0), by wallet
+ */
+export function getWalletLockups(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): LockupHistoryRecord[] {
+  const results = db
+    .prepare(
+      `SELECT * FROM (
+        SELECT
+          *,
+          ROW_NUMBER() OVER (
+            PARTITION BY wallet
+            ORDER BY block_number DESC, log_index DESC
+          ) AS rn
+        FROM lockup_history
+        WHERE company_id = ? AND token_address = ? AND lockup_type = 'WALLET'
+      )
+      WHERE rn = 1
+      ORDER BY wallet ASC`
+    )
+    .all(companyId, tokenAddress.toLowerCase()) as unknown[];
+  return results.map((row) => asLockupHistoryRecord(row));
+}
+
+/**
+ * Get whether transfers from a wallet are blocked by a lock-up at a time
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @param wallet Wallet address
+ * @param timestamp Unix seconds to evaluate the lock-ups at
+ * @returns Lock-up status mirroring ChainEquityToken.lockupEndOf()
+ */
+export function getLockupStatus(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  wallet: string,
+  timestamp: number
+): LockupStatus {
+  const settings = getLockupSettings(db, companyId, tokenAddress);
+  const walletLockupUntil = getLatestValue(
+    db,
+    companyId,
+    tokenAddress,
+    "WALLET",
+    wallet
+  );
+  const lockedUntil = Math.max(settings.globalLockupUntil, walletLockupUntil);
+  const locked = timestamp < lockedUntil;
+
+  return {
+    ...settings,
+    wallet: wallet.toLowerCase(),
+    walletLockupUntil,
+    lockedUntil,
+    locked,
+    reason: !locked
+      ? null
+      : walletLockupUntil > settings.globalLockupUntil
+        ? "WALLET"
+        : "GLOBAL",
+  };
+}
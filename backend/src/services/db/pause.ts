@@ -0,0 +1,96 @@
+/**
+ * @file Pause operations for ChainEquity backend
+ * @notice Tracks whether a token is paused (emergency stop of all token movements)
+ *
+ * @dev ChainEquityToken.pause() blocks every mint, transfer and burn and every split until
+ *      unpause(); forced transfers and wallet recoveries still go through. A token is deployed
+ *      unpaused, so the state is the latest Paused/Unpaused event of the token, if any.
+ */
+
+import { Database } from "bun:sqlite";
+import type { PauseChangeRecord } from "../../db/schema";
+import { asPauseChangeRecord } from "../../db/index";
+
+/**
+ * Input type for recording a Paused or Unpaused event
+ */
+export interface PauseChangeInput {
+  tokenAddress: string;
+  paused: boolean;
+  account: string;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Record a Paused or Unpaused event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Pause change details
+ * @returns True if the change was recorded, false if it was already indexed
+ */
+export function recordPauseChange(
+  db: Database,
+  companyId: number,
+  input: PauseChangeInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO pause_history (
+        company_id, token_address, paused, account,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.tokenAddress.toLowerCase(),
+      input.paused ? 1 : 0,
+      input.account.toLowerCase(),
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get a token's latest Paused or Unpaused event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns Latest pause change, or null if the token was never paused
+ */
+export function getLatestPauseChange(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): PauseChangeRecord | null {
+  const result = db
+    .prepare(
+      `SELECT * FROM pause_history
+       WHERE company_id = ? AND token_address = ?
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT 1`
+    )
+    .get(companyId, tokenAddress.toLowerCase());
+  return result ? asPauseChangeRecord(result) : null;
+}
+
+/**
+ * Get whether a token is currently paused
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns True if the latest indexed pause event is Paused
+ */
+export function isTokenPaused(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): boolean {
+  return getLatestPauseChange(db, companyId, tokenAddress)?.paused ?? false;
+}
@@ -0,0 +1,575 @@
+/**
+ * @file Forced transfer and lost-wallet recovery operations for ChainEquity backend
+ * @notice Indexes issuer forced transfers and wallet recoveries, and moves recovery requests
+ *         through the admin approval state machine
+ *
+ * @dev Status flow:
+ *        pending  -> approved | rejected
+ *        approved -> executed (reconciliation only)
+ *      Decisions are made by admins through transitionRecoveryRequest. The executed step is never
+ *      set directly: reconcileRecoveryRequests compares approved requests with the indexed
+ *      forced_transfer_history table, so it follows WalletRecovered events and reorg rollbacks.
+ *      The contract cannot check the off-chain approval, so a recovery without an approved
+ *      request is still indexed; it just has no request in the wallet's recovery trail.
+ */
+
+import { Database } from "bun:sqlite";
+import type {
+  ForcedTransferRecord,
+  RecoveryRequestRecord,
+  RecoveryRequestStatus,
+  RecoveryRequestTransitionRecord,
+} from "../../db/schema";
+import { asForcedTransferRecord } from "../../db/index";
+
+/**
+ * Decisions allowed for admins, keyed by target status
+ */
+const REVIEW_TRANSITIONS: Record<"approved" | "rejected", RecoveryRequestStatus> = {
+  approved: "pending",
+  rejected: "pending",
+};
+
+/**
+ * Statuses that block a new request for the same lost wallet
+ */
+const OPEN_STATUSES: RecoveryRequestStatus[] = ["pending", "approved"];
+
+/**
+ * Input type for recording a ForcedTransfer or WalletRecovered event
+ */
+export interface ForcedTransferInput {
+  tokenAddress: string;
+  transferType: ForcedTransferRecord["transferType"];
+  fromAddress: string;
+  toAddress: string;
+  amount: bigint;
+  reasonCode: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Input type for filing a recovery request
+ */
+export interface CreateRecoveryRequestInput {
+  requesterUid: string;
+  lostWallet: string;
+  newWallet: string;
+  reason: string;
+}
+
+/**
+ * Target statuses an admin can move a request to
+ */
+export type RecoveryReviewStatus = keyof typeof REVIEW_TRANSITIONS;
+
+/**
+ * Recovery request with its status change audit trail
+ */
+export interface RecoveryRequestWithTransitions extends RecoveryRequestRecord {
+  transitions: RecoveryRequestTransitionRecord[];
+}
+
+/**
+ * Everything recorded about a wallet's recoveries: requests naming it as lost or new wallet,
+ * and forced transfers and recoveries moving shares out of or into it
+ */
+export interface RecoveryTrail {
+  requests: RecoveryRequestWithTransitions[];
+  forcedTransfers: ForcedTransferRecord[];
+}
+
+/**
+ * Result of a reconciliation run
+ */
+export interface RecoveryReconcileResult {
+  executed: number; // approved -> executed
+  reverted: number; // executed -> approved
+}
+
+/**
+ * Current time in unix seconds
+ */
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Column list for recovery_requests reads
+ */
+const SELECT_REQUEST = `
+  SELECT
+    id,
+    requester_uid AS requesterUid,
+    lost_wallet AS lostWallet,
+    new_wallet AS newWallet,
+    reason,
+    status,
+    reviewer_uid AS reviewerUid,
+    decision_reason AS decisionReason,
+    executed_block_number AS executedBlockNumber,
+    executed_tx_hash AS executedTxHash,
+    created_at AS createdAt,
+    updated_at AS updatedAt
+  FROM recovery_requests
+`;
+
+/**
+ * Record a ForcedTransfer or WalletRecovered event
+ * Also marks the Transfer of the same move in the transactions table with the forced type, if
+ * it was indexed first (see getForcedTransferType for the other order)
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Forced transfer details
+ * @returns True if the event was recorded, false if it was already indexed
+ */
+export function recordForcedTransfer(
+  db: Database,
+  companyId: number,
+  input: ForcedTransferInput
+): boolean {
+  const from = input.fromAddress.toLowerCase();
+  const to = input.toAddress.toLowerCase();
+
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO forced_transfer_history (
+        company_id, token_address, transfer_type, from_address, to_address, amount,
+        reason_code, block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.tokenAddress.toLowerCase(),
+      input.transferType,
+      from,
+      to,
+      input.amount.toString(),
+      input.reasonCode,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  if (input.txHash) {
+    db.prepare(
+      `UPDATE transactions SET event_type = ?
+       WHERE company_id = ? AND tx_hash = ? AND event_type = 'TRANSFER'
+         AND from_address = ? AND to_address = ? AND amount = ?`
+    ).run(input.transferType, companyId, input.txHash, from, to, input.amount.toString());
+  }
+
+  return result.changes > 0;
+}
+
+/**
+ * Get the forced type of a Transfer, if its ForcedTransfer or WalletRecovered event was indexed
+ * first (watchers deliver each event type separately, so either can arrive first)
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param txHash Transaction hash of the Transfer
+ * @param from Sender
+ * @param to Recipient
+ * @param amount Amount transferred
+ * @returns FORCED_TRANSFER, WALLET_RECOVERY or null for a regular transfer
+ */
+export function getForcedTransferType(
+  db: Database,
+  companyId: number,
+  txHash: string,
+  from: string,
+  to: string,
+  amount: bigint
+): ForcedTransferRecord["transferType"] | null {
+  const row = db
+    .prepare(
+      `SELECT transfer_type AS transferType FROM forced_transfer_history
+       WHERE company_id = ? AND tx_hash = ? AND from_address = ? AND to_address = ? AND amount = ?
+       LIMIT 1`
+    )
+    .get(companyId, txHash, from.toLowerCase(), to.toLowerCase(), amount.toString()) as {
+    transferType: ForcedTransferRecord["transferType"];
+  } | null;
+  return row?.transferType ?? null;
+}
+
+/**
+ * Get the forced transfers and recoveries moving shares out of or into a wallet, oldest first
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param wallet Wallet address
+ * @returns Forced transfers in chain order
+ */
+export function getForcedTransfers(
+  db: Database,
+  companyId: number,
+  wallet: string
+): ForcedTransferRecord[] {
+  const address = wallet.toLowerCase();
+  const rows = db
+    .prepare(
+      `SELECT id, token_address, transfer_type, from_address, to_address, amount, reason_code,
+              block_number, block_timestamp, log_index, tx_hash
+       FROM forced_transfer_history
+       WHERE company_id = ? AND (from_address = ? OR to_address = ?)
+       ORDER BY block_number ASC, log_index ASC`
+    )
+    .all(companyId, address, address);
+  return rows.map((row) => asForcedTransferRecord(row));
+}
+
+/**
+ * Get the wallet recoveries on a token, oldest first
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address
+ * @returns WALLET_RECOVERY records in chain order
+ */
+export function getWalletRecoveries(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): ForcedTransferRecord[] {
+  const rows = db
+    .prepare(
+      `SELECT id, token_address, transfer_type, from_address, to_address, amount, reason_code,
+              block_number, block_timestamp, log_index, tx_hash
+       FROM forced_transfer_history
+       WHERE company_id = ? AND token_address = ? AND transfer_type = 'WALLET_RECOVERY'
+       ORDER BY block_number ASC, log_index ASC`
+    )
+    .all(companyId, tokenAddress.toLowerCase());
+  return rows.map((row) => asForcedTransferRecord(row));
+}
+
+/**
+ * Append a row to the transition audit trail
+ */
+function recordTransition(
+  db: Database,
+  requestId: number,
+  fromStatus: RecoveryRequestStatus | null,
+  toStatus: RecoveryRequestStatus,
+  actorUid: string | null,
+  reason: string | null,
+  now: number
+): void {
+  db.prepare(
+    `INSERT INTO recovery_request_transitions (request_id, from_status, to_status, actor_uid, reason, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(requestId, fromStatus, toStatus, actorUid, reason, now);
+}
+
+/**
+ * Check whether an admin may move a request from one status to another
+ * @param from Current status
+ * @param to Target decision status
+ * @returns True if the transition is part of the review flow
+ */
+export function canTransition(
+  from: RecoveryRequestStatus,
+  to: RecoveryReviewStatus
+): boolean {
+  return REVIEW_TRANSITIONS[to] === from;
+}
+
+/**
+ * File a recovery request
+ * @param db SQLite database instance
+ * @param companyId Company whose token holds the lost wallet's shares
+ * @param input Lost and new wallet, and why the key was lost
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Created request in the `pending` status
+ */
+export function createRecoveryRequest(
+  db: Database,
+  companyId: number,
+  input: CreateRecoveryRequestInput,
+  now: number = nowSeconds()
+): RecoveryRequestRecord {
+  return db.transaction(() => {
+    const result = db
+      .prepare(
+        `INSERT INTO recovery_requests (
+          company_id, requester_uid, lost_wallet, new_wallet, reason, status, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)`
+      )
+      .run(
+        companyId,
+        input.requesterUid,
+        input.lostWallet.toLowerCase(),
+        input.newWallet.toLowerCase(),
+        input.reason,
+        now,
+        now
+      );
+    const id = Number(result.lastInsertRowid);
+    recordTransition(db, id, null, "pending", input.requesterUid, input.reason, now);
+    return getRecoveryRequest(db, companyId, id)!;
+  })();
+}
+
+/**
+ * Get a company's recovery request by ID
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param id Request ID
+ * @returns Recovery request or null if not found for this company
+ */
+export function getRecoveryRequest(
+  db: Database,
+  companyId: number,
+  id: number
+): RecoveryRequestRecord | null {
+  return (
+    (db
+      .prepare(`${SELECT_REQUEST} WHERE company_id = ? AND id = ?`)
+      .get(companyId, id) as RecoveryRequestRecord | null) ?? null
+  );
+}
+
+/**
+ * Get the open (pending or approved) request for a lost wallet
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param lostWallet Lost wallet address
+ * @returns Open recovery request or null if a new one may be filed
+ */
+export function getOpenRecoveryRequest(
+  db: Database,
+  companyId: number,
+  lostWallet: string
+): RecoveryRequestRecord | null {
+  const placeholders = OPEN_STATUSES.map(() => "?").join(", ");
+  return (
+    (db
+      .prepare(
+        `${SELECT_REQUEST}
+         WHERE company_id = ? AND lost_wallet = ? AND status IN (${placeholders})
+         ORDER BY id DESC
+         LIMIT 1`
+      )
+      .get(companyId, lostWallet.toLowerCase(), ...OPEN_STATUSES) as RecoveryRequestRecord | null) ??
+    null
+  );
+}
+
+/**
+ * List a company's recovery requests, oldest first (review queue order)
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param status Optional status filter
+ * @returns Recovery requests
+ */
+export function listRecoveryRequests(
+  db: Database,
+  companyId: number,
+  status?: RecoveryRequestStatus
+): RecoveryRequestRecord[] {
+  const where = status !== undefined ? "AND status = ?" : "";
+  const params = status !== undefined ? [status] : [];
+  return db
+    .prepare(
+      `${SELECT_REQUEST} WHERE company_id = ? ${where} ORDER BY created_at ASC, id ASC`
+    )
+    .all(companyId, ...params) as RecoveryRequestRecord[];
+}
+
+/**
+ * Get the status change audit trail of a request
+ * @param db SQLite database instance
+ * @param requestId Request ID
+ * @returns Transitions in chronological order
+ */
+export function getRecoveryRequestTransitions(
+  db: Database,
+  requestId: number
+): RecoveryRequestTransitionRecord[] {
+  return db
+    .prepare(
+      `SELECT
+        id,
+        request_id AS requestId,
+        from_status AS fromStatus,
+        to_status AS toStatus,
+        actor_uid AS actorUid,
+        reason,
+        created_at AS createdAt
+      FROM recovery_request_transitions
+      WHERE request_id = ?
+      ORDER BY id ASC`
+    )
+    .all(requestId) as RecoveryRequestTransitionRecord[];
+}
+
+/**
+ * Approve or reject a pending request
+ * Approving a request reconciles it immediately, so a recovery that is already indexed
+ * moves it straight to executed
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param id Request ID
+ * @param to Target decision status
+ * @param actorUid Admin making the decision
+ * @param reason Optional decision reason (required by the route for rejections)
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Updated request, or null if the request's current status does not allow the transition
+ */
+export function transitionRecoveryRequest(
+  db: Database,
+  companyId: number,
+  id: number,
+  to: RecoveryReviewStatus,
+  actorUid: string,
+  reason: string | null = null,
+  now: number = nowSeconds()
+): RecoveryRequestRecord | null {
+  const from = REVIEW_TRANSITIONS[to];
+
+  const updated = db.transaction(() => {
+    // Conditional on the current status so concurrent decisions cannot both apply
+    const result = db
+      .prepare(
+        `UPDATE recovery_requests
+         SET status = ?, reviewer_uid = ?, decision_reason = ?, updated_at = ?
+         WHERE company_id = ? AND id = ? AND status = ?`
+      )
+      .run(to, actorUid, reason, now, companyId, id, from);
+    if (result.changes !== 1) {
+      return false;
+    }
+    recordTransition(db, id, from, to, actorUid, reason, now);
+    return true;
+  })();
+
+  if (!updated) {
+    return null;
+  }
+  if (to === "approved") {
+    reconcileRecoveryRequests(db, companyId, now);
+  }
+  return getRecoveryRequest(db, companyId, id);
+}
+
+/**
+ * Reconcile a company's approved requests with the indexed wallet recoveries
+ * - approved requests with a WalletRecovered event from the lost to the new wallet become
+ *   executed (recording the most recent such event)
+ * - executed requests whose event is gone (orphaned by a reorg) go back to approved
+ * Idempotent: safe to call after every WalletRecovered event and rollback
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Number of requests moved in each direction
+ */
+export function reconcileRecoveryRequests(
+  db: Database,
+  companyId: number,
+  now: number = nowSeconds()
+): RecoveryReconcileResult {
+  return db.transaction(() => {
+    const result: RecoveryReconcileResult = { executed: 0, reverted: 0 };
+
+    // Latest wallet recovery per lost and new wallet pair
+    const candidates = db
+      .prepare(
+        `SELECT
+          r.id,
+          r.status,
+          h.block_number AS blockNumber,
+          h.tx_hash AS txHash
+        FROM recovery_requests r
+        LEFT JOIN (
+          SELECT
+            *,
+            ROW_NUMBER() OVER (
+              PARTITION BY from_address, to_address
+              ORDER BY block_number DESC, log_index DESC
+            ) AS rn
+          FROM forced_transfer_history
+          WHERE company_id = ? AND transfer_type = 'WALLET_RECOVERY'
+        ) h ON h.from_address = r.lost_wallet AND h.to_address = r.new_wallet AND h.rn = 1
+        WHERE r.company_id = ? AND r.status IN ('approved', 'executed')`
+      )
+      .all(companyId, companyId) as {
+      id: number;
+      status: RecoveryRequestStatus;
+      blockNumber: number | null;
+      txHash: string | null;
+    }[];
+
+    for (const request of candidates) {
+      const recovered = request.blockNumber !== null;
+
+      if (request.status === "approved" && recovered) {
+        db.prepare(
+          `UPDATE recovery_requests
+           SET status = 'executed', executed_block_number = ?, executed_tx_hash = ?, updated_at = ?
+           WHERE id = ?`
+        ).run(request.blockNumber, request.txHash, now, request.id);
+        recordTransition(
+          db,
+          request.id,
+          "approved",
+          "executed",
+          null,
+          `WalletRecovered indexed at block ${request.blockNumber}`,
+          now
+        );
+        result.executed++;
+      } else if (request.status === "executed" && !recovered) {
+        db.prepare(
+          `UPDATE recovery_requests
+           SET status = 'approved', executed_block_number = NULL, executed_tx_hash = NULL, updated_at = ?
+           WHERE id = ?`
+        ).run(now, request.id);
+        recordTransition(
+          db,
+          request.id,
+          "executed",
+          "approved",
+          null,
+          "WalletRecovered event is no longer indexed",
+          now
+        );
+        result.reverted++;
+      }
+    }
+
+    return result;
+  })();
+}
+
+/**
+ * Get a wallet's recovery trail
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param wallet Wallet address (lost or new)
+ * @returns Requests naming the wallet, with their audit trails, and forced moves involving it
+ */
+export function getRecoveryTrail(
+  db: Database,
+  companyId: number,
+  wallet: string
+): RecoveryTrail {
+  const address = wallet.toLowerCase();
+  const requests = db
+    .prepare(
+      `${SELECT_REQUEST}
+       WHERE company_id = ? AND (lost_wallet = ? OR new_wallet = ?)
+       ORDER BY created_at ASC, id ASC`
+    )
+    .all(companyId, address, address) as RecoveryRequestRecord[];
+
+  return {
+    requests: requests.map((request) => ({
+      ...request,
+      transitions: getRecoveryRequestTransitions(db, request.id),
+    })),
+    forcedTransfers: getForcedTransfers(db, companyId, address),
+  };
+}
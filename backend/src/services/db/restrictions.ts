@@ -0,0 +1,154 @@
+/**
+ * @file Transfer restriction checks for ChainEquity backend
+ * @notice Evaluates a proposed transfer against the token's ERC-1404 rules from indexed state
+ *
+ * @dev Mirrors ChainEquityToken.detectTransferRestriction(): that the token is not paused, the
+ *      allowlist of sender and recipient (only while transfers are restricted), the sender's
+ *      lock-up, that unvested shares stay behind, then the compliance modules (see
+ *      services/db/compliance.ts). Codes and messages match the contract's, so a restricted
+ *      transfer's message is the revert reason the wallet would see. Wallets in the published
+ *      Merkle allowlist count as approved, as transferWithProof() accepts them (see
+ *      services/db/allowlistTree.ts). Results are only as fresh as the indexer.
+ */
+
+import { Database } from "bun:sqlite";
+import { isTransfersRestricted, isWalletApproved } from "./allowlist";
+import { isWalletInPublishedTree } from "./allowlistTree";
+import { getLockupStatus } from "./lockups";
+import { getVestingPosition } from "./vesting";
+import { checkCompliance } from "./compliance";
+import { isTokenPaused } from "./pause";
+
+/**
+ * ERC-1404 restriction codes of ChainEquityToken
+ */
+export const RESTRICTION_CODES = {
+  SUCCESS: 0,
+  SENDER_NOT_APPROVED: 1,
+  RECIPIENT_NOT_APPROVED: 2,
+  SENDER_LOCKED_UP: 3,
+  EXCEEDS_VESTED_BALANCE: 4,
+  COMPLIANCE_CHECK_FAILED: 5,
+  TOKEN_PAUSED: 6,
+} as const;
+
+export type RestrictionCode =
+  (typeof RESTRICTION_CODES)[keyof typeof RESTRICTION_CODES];
+
+/**
+ * Messages by restriction code (ChainEquityToken.messageForTransferRestriction)
+ */
+export const RESTRICTION_MESSAGES: Record<RestrictionCode, string> = {
+  0: "No restriction",
+  1: "ChainEquityToken: sender not approved",
+  2: "ChainEquityToken: recipient not approved",
+  3: "ChainEquityToken: sender is locked up",
+  4: "ChainEquityToken: transfer exceeds vested balance",
+  5: "ChainEquityToken: compliance check failed",
+  6: "ChainEquityToken: token is paused",
+};
+
+/**
+ * Proposed transfer to evaluate
+ */
+export interface TransferPrecheckInput {
+  from: string;
+  to: string;
+  amount: bigint; // Base units
+  timestamp: number; // Unix seconds to evaluate lock-ups and vesting at
+  totalAuthorized?: bigint; // Authorized shares, for max ownership limits (skipped without)
+}
+
+/**
+ * Outcome of a transfer pre-check
+ */
+export interface TransferPrecheckResult {
+  code: RestrictionCode;
+  restricted: boolean;
+  message: string;
+  balance: string; // Sender's balance (base units)
+  sufficientBalance: boolean; // Not a restriction: the ERC20 transfer itself would revert
+}
+
+/**
+ * Get the restriction code of a transfer from a sender holding `balance`
+ */
+function getRestrictionCode(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  input: TransferPrecheckInput,
+  balance: bigint
+): RestrictionCode {
+  if (isTokenPaused(db, companyId, tokenAddress)) {
+    return RESTRICTION_CODES.TOKEN_PAUSED;
+  }
+
+  if (isTransfersRestricted(db, companyId)) {
+    const isApproved = (wallet: string) =>
+      isWalletApproved(db, companyId, wallet) ||
+      isWalletInPublishedTree(db, companyId, tokenAddress, wallet);
+
+    if (!isApproved(input.from)) {
+      return RESTRICTION_CODES.SENDER_NOT_APPROVED;
+    }
+    if (!isApproved(input.to)) {
+      return RESTRICTION_CODES.RECIPIENT_NOT_APPROVED;
+    }
+  }
+
+  const lockup = getLockupStatus(
+    db,
+    companyId,
+    tokenAddress,
+    input.from,
+    input.timestamp
+  );
+  if (lockup.locked) {
+    return RESTRICTION_CODES.SENDER_LOCKED_UP;
+  }
+
+  // Unvested shares cannot be transferred
+  const unvested = BigInt(
+    getVestingPosition(db, companyId, tokenAddress, input.from, input.timestamp)
+      .totalUnvested
+  );
+  if (unvested > 0n && balance < input.amount + unvested) {
+    return RESTRICTION_CODES.EXCEEDS_VESTED_BALANCE;
+  }
+
+  if (!checkCompliance(db, companyId, tokenAddress, input)) {
+    return RESTRICTION_CODES.COMPLIANCE_CHECK_FAILED;
+  }
+
+  return RESTRICTION_CODES.SUCCESS;
+}
+
+/**
+ * Detect whether the token would reject a transfer and why
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Active token address
+ * @param input Proposed transfer
+ * @returns Restriction code and message, plus whether the sender holds enough shares
+ */
+export function detectTransferRestriction(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  input: TransferPrecheckInput
+): TransferPrecheckResult {
+  const holder = db
+    .prepare("SELECT balance FROM shareholders WHERE company_id = ? AND address = ?")
+    .get(companyId, input.from.toLowerCase()) as { balance: string } | null;
+  const balance = BigInt(holder?.balance ?? "0");
+  const code = getRestrictionCode(db, companyId, tokenAddress, input, balance);
+
+  return {
+    code,
+    restricted: code !== RESTRICTION_CODES.SUCCESS,
+    message: RESTRICTION_MESSAGES[code],
+    balance: balance.toString(),
+    sufficientBalance: balance >= input.amount,
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * @file On-chain role operations for ChainEquity backend
+ * @notice Indexes AccessControl role grants and revocations of a company's token and cap table,
+ *         and answers which wallets hold a role in a company
+ *
+ * @dev A wallet holds a role while the latest RoleGranted/RoleRevoked event for that contract,
+ *      role and wallet is a grant. Role holders are scoped to the company whose contracts granted
+ *      the role: a company-scoped route guard accepts the holders of the on-chain role its action
+ *      needs on that company only (see middleware/auth.ts), and the users table role is never
+ *      changed from role events. Replacing the token revokes every grant on the old token.
+ */
+
+import { Database } from "bun:sqlite";
+import type { RoleChangeRecord } from "../../db/schema";
+import { asRoleChangeRecord } from "../../db/index";
+import { getOnchainRoleName, type OnchainRoleName } from "../../types/roles";
+
+/**
+ * Input type for recording a RoleGranted or RoleRevoked event
+ */
+export interface RoleChangeInput {
+  contractAddress: string;
+  roleHash: string;
+  account: string;
+  sender: string;
+  action: RoleChangeRecord["action"];
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Record a RoleGranted or RoleRevoked event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Role change details
+ * @returns True if the change was recorded, false if it was already indexed
+ */
+export function recordRoleChange(
+  db: Database,
+  companyId: number,
+  input: RoleChangeInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO role_history (
+        company_id, contract_address, role_hash, role_name, account, sender, action,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.contractAddress.toLowerCase(),
+      input.roleHash.toLowerCase(),
+      getOnchainRoleName(input.roleHash),
+      input.account.toLowerCase(),
+      input.sender.toLowerCase(),
+      input.action,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Latest role event per contract, role and account (optionally of a single company)
+ */
+const LATEST_ROLE_CHANGES = `
+  SELECT * FROM (
+    SELECT
+      *,
+      ROW_NUMBER() OVER (
+        PARTITION BY company_id, contract_address, role_hash, account
+        ORDER BY block_number DESC, log_index DESC
+      ) AS rn
+    FROM role_history
+    WHERE company_id = ?1 OR ?1 IS NULL
+  )
+  WHERE rn = 1
+`;
+
+/**
+ * Get the wallets currently holding a role on a company's contracts
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Grant that gave each holder its role, by contract, role name and account
+ */
+export function getRoleHolders(
+  db: Database,
+  companyId: number
+): RoleChangeRecord[] {
+  const results = db
+    .prepare(
+      `${LATEST_ROLE_CHANGES}
+      AND action = 'GRANTED'
+      ORDER BY contract_address ASC, role_name ASC, account ASC`
+    )
+    .all(companyId) as unknown[];
+  return results.map((row) => asRoleChangeRecord(row));
+}
+
+/**
+ * Get the role grants and revocations on a company's contracts
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param account Optional wallet filter
+ * @returns Role changes, most recent first
+ */
+export function getRoleHistory(
+  db: Database,
+  companyId: number,
+  account?: string
+): RoleChangeRecord[] {
+  const results = db
+    .prepare(
+      `SELECT * FROM role_history
+       WHERE company_id = ? AND (? IS NULL OR account = ?)
+       ORDER BY block_number DESC, log_index DESC`
+    )
+    .all(
+      companyId,
+      account ? account.toLowerCase() : null,
+      account ? account.toLowerCase() : null
+    ) as unknown[];
+  return results.map((row) => asRoleChangeRecord(row));
+}
+
+/**
+ * Get the on-chain roles a wallet currently holds on a company's token or cap table
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param account Wallet address
+ * @returns Role names, sorted (roles with an unknown hash are left out)
+ */
+export function getCompanyRoles(
+  db: Database,
+  companyId: number,
+  account: string
+): OnchainRoleName[] {
+  const rows = db
+    .prepare(
+      `SELECT DISTINCT role_name AS roleName FROM (${LATEST_ROLE_CHANGES})
+       WHERE account = ?2 AND action = 'GRANTED' AND role_name IS NOT NULL
+       ORDER BY role_name ASC`
+    )
+    .all(companyId, account.toLowerCase()) as { roleName: OnchainRoleName }[];
+  return rows.map((row) => row.roleName);
+}
+
+/**
+ * Check whether a wallet holds one of the given roles on a company's token or cap table
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param account Wallet address
+ * @param roles Accepted on-chain roles
+ * @returns True if the latest event of at least one accepted role is a grant
+ */
+export function holdsCompanyRole(
+  db: Database,
+  companyId: number,
+  account: string,
+  roles: OnchainRoleName[]
+): boolean {
+  return getCompanyRoles(db, companyId, account).some((role) => roles.includes(role));
+}
+
+/**
+ * Revoke every grant still open on a contract, e.g. a replaced token
+ * The revocations are recorded at the position of the event that retired the contract
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Retired contract, the contract retiring it (sender) and the event position
+ * @returns Number of grants revoked
+ */
+export function closeContractRoles(
+  db: Database,
+  companyId: number,
+  input: Omit<RoleChangeInput, "roleHash" | "account" | "action">
+): number {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO role_history (
+        company_id, contract_address, role_hash, role_name, account, sender, action,
+        block_number, block_timestamp, log_index, tx_hash
+      )
+      SELECT company_id, contract_address, role_hash, role_name, account, ?3, 'REVOKED',
+             ?4, ?5, ?6, ?7
+      FROM (${LATEST_ROLE_CHANGES})
+      WHERE contract_address = ?2 AND action = 'GRANTED'`
+    )
+    .run(
+      companyId,
+      input.contractAddress.toLowerCase(),
+      input.sender.toLowerCase(),
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes;
+}
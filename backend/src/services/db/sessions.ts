@@ -0,0 +1,162 @@
+/**
+ * @file Sign-In With Ethereum nonce and session storage for ChainEquity backend
+ * @notice Issues single-use SIWE nonces and opaque session tokens backed by SQLite
+ *
+ * @dev Session tokens are random 32-byte hex strings returned to the client once;
+ *      only their SHA-256 hash is stored, so a leaked database does not leak live sessions.
+ */
+
+import { Database } from "bun:sqlite";
+import { createHash, randomBytes } from "node:crypto";
+import { generateSiweNonce } from "viem/siwe";
+import type { AuthSessionRecord } from "../../db/schema";
+
+/**
+ * Input type for creating a session
+ */
+export interface CreateSessionInput {
+  uid: string;
+  walletAddress: string;
+  chainId: number;
+  ttlSeconds: number;
+}
+
+/**
+ * Current time in unix seconds
+ */
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Hash a session token for storage and lookup
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Issue a new SIWE nonce
+ * Expired nonces and sessions are pruned on every call
+ * @param db SQLite database instance
+ * @param ttlSeconds Seconds until the nonce expires
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Nonce and its expiry (unix seconds)
+ */
+export function createNonce(
+  db: Database,
+  ttlSeconds: number,
+  now: number = nowSeconds()
+): { nonce: string; expiresAt: number } {
+  pruneExpiredAuth(db, now);
+
+  const nonce = generateSiweNonce();
+  const expiresAt = now + ttlSeconds;
+  db.prepare(
+    "INSERT INTO auth_nonces (nonce, created_at, expires_at) VALUES (?, ?, ?)"
+  ).run(nonce, now, expiresAt);
+
+  return { nonce, expiresAt };
+}
+
+/**
+ * Consume a nonce so it cannot be used for another login
+ * @param db SQLite database instance
+ * @param nonce Nonce from the signed SIWE message
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns True if the nonce existed, was unused and unexpired
+ */
+export function consumeNonce(
+  db: Database,
+  nonce: string,
+  now: number = nowSeconds()
+): boolean {
+  const result = db
+    .prepare(
+      `UPDATE auth_nonces SET used_at = ?
+       WHERE nonce = ? AND used_at IS NULL AND expires_at > ?`
+    )
+    .run(now, nonce, now);
+  return result.changes === 1;
+}
+
+/**
+ * Create a session for an authenticated wallet
+ * @param db SQLite database instance
+ * @param input Session owner and lifetime
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Bearer token (only returned here) and its expiry (unix seconds)
+ */
+export function createSession(
+  db: Database,
+  input: CreateSessionInput,
+  now: number = nowSeconds()
+): { token: string; expiresAt: number } {
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = now + input.ttlSeconds;
+
+  db.prepare(
+    `INSERT INTO auth_sessions (token_hash, uid, wallet_address, chain_id, created_at, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    hashToken(token),
+    input.uid,
+    input.walletAddress.toLowerCase(),
+    input.chainId,
+    now,
+    expiresAt
+  );
+
+  return { token, expiresAt };
+}
+
+/**
+ * Look up an unexpired session by bearer token
+ * @param db SQLite database instance
+ * @param token Bearer token
+ * @param now Current unix time in seconds (defaults to now)
+ * @returns Session record or null if the token is unknown or expired
+ */
+export function getSession(
+  db: Database,
+  token: string,
+  now: number = nowSeconds()
+): AuthSessionRecord | null {
+  const row = db
+    .prepare(
+      `SELECT
+        token_hash AS tokenHash,
+        uid,
+        wallet_address AS walletAddress,
+        chain_id AS chainId,
+        created_at AS createdAt,
+        expires_at AS expiresAt
+      FROM auth_sessions
+      WHERE token_hash = ? AND expires_at > ?`
+    )
+    .get(hashToken(token), now) as AuthSessionRecord | null;
+  return row ?? null;
+}
+
+/**
+ * Delete a session (logout)
+ * @param db SQLite database instance
+ * @param token Bearer token
+ * @returns True if a session was deleted
+ */
+export function deleteSession(db: Database, token: string): boolean {
+  const result = db
+    .prepare("DELETE FROM auth_sessions WHERE token_hash = ?")
+    .run(hashToken(token));
+  return result.changes > 0;
+}
+
+/**
+ * Delete expired nonces and sessions
+ * @param db SQLite database instance
+ * @param now Current unix time in seconds (defaults to now)
+ */
+export function pruneExpiredAuth(db: Database, now: number = nowSeconds()): void {
+  db.prepare("DELETE FROM auth_nonces WHERE expires_at <= ?").run(now);
+  db.prepare("DELETE FROM auth_sessions WHERE expires_at <= ?").run(now);
+}
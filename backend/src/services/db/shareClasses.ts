@@ -0,0 +1,411 @@
+/**
+ * @file Share class operations for ChainEquity backend
+ * @notice Tracks share classes registered on the CapTable and event-sourced holdings per class
+ *
+ * @dev The company's (active) token is the common class; its balances live in shareholders and
+ *      balance_changes (see services/db/balances.ts). Every other class is a ChainEquityToken
+ *      registered with CapTable.addShareClass(), whose Issued/Transfer/Redeemed deltas are
+ *      written to share_class_balance_changes. Class tokens have nothing minted when they are
+ *      registered, so the ledger starts at the ShareClassAdded event.
+ *
+ *      Fully diluted ownership converts every class into common at its conversion ratio
+ *      (effective common shares per class share, 1e18 precision) and adds the common
+ *      effective supply. Conversion ratios are not adjusted for common splits.
+ */
+
+import { Database } from "bun:sqlite";
+import type {
+  ShareClassRecord,
+  ShareClassBalanceChangeRecord,
+} from "../../db/schema";
+import {
+  asShareClassRecord,
+  asShareClassBalanceChangeRecord,
+} from "../../db/index";
+import { SPLIT_FACTOR_PRECISION, type BalanceChangeInput } from "./balances";
+import { calculateOwnershipPercentage } from "./snapshots";
+
+/**
+ * Input type for recording a share class
+ */
+export interface ShareClassInput {
+  classId: number;
+  name: string;
+  tokenAddress: string;
+  authorizedShares: bigint;
+  liquidationPreference: bigint;
+  conversionRatio: bigint;
+  seniority: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * A holder's balance in one share class
+ */
+export interface ShareClassHolding {
+  classId: number;
+  address: string;
+  balance: string;
+}
+
+/**
+ * Share class with its outstanding shares, as reported by the shareholders API
+ */
+export interface ShareClassSummary {
+  classId: number;
+  name: string;
+  tokenAddress: string;
+  authorizedShares: string;
+  outstandingShares: string;
+  asConvertedShares: string;
+  liquidationPreference: string;
+  conversionRatio: string;
+  seniority: number;
+}
+
+/**
+ * A holder's fully diluted position across the common and every other class
+ */
+export interface FullyDilutedPosition {
+  classHoldings: {
+    classId: number;
+    balance: string;
+    asConvertedBalance: string;
+  }[];
+  fullyDilutedBalance: string;
+  fullyDilutedPercentage: number;
+}
+
+/**
+ * Convert a class balance into effective common shares: balance * conversionRatio / 1e18
+ */
+export function toAsConvertedBalance(
+  balance: bigint,
+  conversionRatio: bigint
+): bigint {
+  return (balance * conversionRatio) / SPLIT_FACTOR_PRECISION;
+}
+
+/**
+ * Record a share class from a ShareClassAdded event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Share class details
+ * @returns True if the class was recorded, false if it was already indexed
+ */
+export function recordShareClass(
+  db: Database,
+  companyId: number,
+  input: ShareClassInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO share_classes (
+        company_id, class_id, name, token_address, authorized_shares,
+        liquidation_preference, conversion_ratio, seniority,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.classId,
+      input.name,
+      input.tokenAddress.toLowerCase(),
+      input.authorizedShares.toString(),
+      input.liquidationPreference.toString(),
+      input.conversionRatio.toString(),
+      input.seniority,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get the share classes registered at a block, by class ID
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Optional block number (inclusive); defaults to every indexed class
+ * @returns Share class records
+ */
+export function getShareClasses(
+  db: Database,
+  companyId: number,
+  blockNumber?: number
+): ShareClassRecord[] {
+  const where = blockNumber !== undefined ? "AND block_number <= ?" : "";
+  const params =
+    blockNumber !== undefined ? [companyId, blockNumber] : [companyId];
+
+  const results = db
+    .prepare(
+      `SELECT * FROM share_classes WHERE company_id = ? ${where} ORDER BY class_id ASC`
+    )
+    .all(...params) as unknown[];
+  return results.map((row) => asShareClassRecord(row));
+}
+
+/**
+ * Get the share class held in a token
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Class token address
+ * @returns Share class record or null if the token is not a registered class
+ */
+export function getShareClassByToken(
+  db: Database,
+  companyId: number,
+  tokenAddress: string
+): ShareClassRecord | null {
+  const result = db
+    .prepare(
+      "SELECT * FROM share_classes WHERE company_id = ? AND token_address = ?"
+    )
+    .get(companyId, tokenAddress.toLowerCase());
+  return result ? asShareClassRecord(result) : null;
+}
+
+/**
+ * Apply a balance delta to an address in a share class
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param classId Share class id
+ * @param input Balance change details
+ * @returns True if the change was applied, false if it was already in the ledger
+ * @throws Error if the change would make the balance negative (events applied out of order)
+ */
+export function applyShareClassBalanceChange(
+  db: Database,
+  companyId: number,
+  classId: number,
+  input: BalanceChangeInput
+): boolean {
+  const address = input.address.toLowerCase();
+
+  return db.transaction(() => {
+    const existing = db
+      .prepare(
+        `SELECT 1 FROM share_class_balance_changes
+         WHERE company_id = ? AND block_number = ? AND log_index = ?
+           AND address = ? AND change_type = ?`
+      )
+      .get(companyId, input.blockNumber, input.logIndex, address, input.changeType);
+
+    if (existing) {
+      return false;
+    }
+
+    const current = db
+      .prepare(
+        `SELECT balance_after FROM share_class_balance_changes
+         WHERE company_id = ? AND class_id = ? AND address = ?
+         ORDER BY block_number DESC, log_index DESC, id DESC
+         LIMIT 1`
+      )
+      .get(companyId, classId, address) as { balance_after: string } | null;
+    const balanceAfter = BigInt(current?.balance_after ?? "0") + input.delta;
+
+    if (balanceAfter < 0n) {
+      throw new Error(
+        `Class ${classId} balance for ${address} would become negative at block ${input.blockNumber}, logIndex ${input.logIndex}`
+      );
+    }
+
+    db.prepare(
+      `INSERT INTO share_class_balance_changes (
+        company_id, class_id, address, delta, balance_after, change_type,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      companyId,
+      classId,
+      address,
+      input.delta.toString(),
+      balanceAfter.toString(),
+      input.changeType,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+    return true;
+  })();
+}
+
+/**
+ * Get the ledger of share class balance changes for an address
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param address Ethereum address
+ * @returns Balance change records in chronological order
+ */
+export function getShareClassBalanceChanges(
+  db: Database,
+  companyId: number,
+  address: string
+): ShareClassBalanceChangeRecord[] {
+  const results = db
+    .prepare(
+      `SELECT * FROM share_class_balance_changes
+       WHERE company_id = ? AND address = ?
+       ORDER BY block_number ASC, log_index ASC, id ASC`
+    )
+    .all(companyId, address.toLowerCase()) as unknown[];
+  return results.map((row) => asShareClassBalanceChangeRecord(row));
+}
+
+/**
+ * Get every non-zero share class holding at a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Optional block number (inclusive); defaults to the latest indexed change
+ * @returns Holdings ordered by class ID, then address
+ */
+export function getShareClassHoldings(
+  db: Database,
+  companyId: number,
+  blockNumber?: number
+): ShareClassHolding[] {
+  const where = blockNumber !== undefined ? "AND block_number <= ?" : "";
+  const params =
+    blockNumber !== undefined ? [companyId, blockNumber] : [companyId];
+
+  const rows = db
+    .prepare(
+      `SELECT class_id, address, balance_after FROM (
+        SELECT
+          *,
+          ROW_NUMBER() OVER (
+            PARTITION BY class_id, address
+            ORDER BY block_number DESC, log_index DESC, id DESC
+          ) AS rn
+        FROM share_class_balance_changes
+        WHERE company_id = ? ${where}
+      )
+      WHERE rn = 1
+      ORDER BY class_id ASC, address ASC`
+    )
+    .all(...params) as { class_id: number; address: string; balance_after: string }[];
+
+  return rows
+    .filter((row) => BigInt(row.balance_after) > 0n)
+    .map((row) => ({
+      classId: row.class_id,
+      address: row.address,
+      balance: row.balance_after,
+    }));
+}
+
+/**
+ * Fully diluted view of a company's cap table at a block
+ */
+export interface FullyDilutedCapTable {
+  shareClasses: ShareClassSummary[];
+  totalFullyDiluted: bigint;
+  // Holdings of every class other than common, by lowercase address
+  holdings: Map<string, ShareClassHolding[]>;
+}
+
+/**
+ * Build the fully diluted cap table from indexed share classes and holdings
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param totalEffectiveSupply Effective common supply at the block
+ * @param blockNumber Optional block number (inclusive); defaults to the latest indexed state
+ * @returns Class summaries, total fully diluted shares and class holdings by address
+ */
+export function getFullyDilutedCapTable(
+  db: Database,
+  companyId: number,
+  totalEffectiveSupply: bigint,
+  blockNumber?: number
+): FullyDilutedCapTable {
+  const classes = getShareClasses(db, companyId, blockNumber);
+
+  const outstanding = new Map<number, bigint>();
+  const holdings = new Map<string, ShareClassHolding[]>();
+  for (const holding of getShareClassHoldings(db, companyId, blockNumber)) {
+    outstanding.set(
+      holding.classId,
+      (outstanding.get(holding.classId) ?? 0n) + BigInt(holding.balance)
+    );
+    holdings.set(holding.address, [
+      ...(holdings.get(holding.address) ?? []),
+      holding,
+    ]);
+  }
+
+  const shareClasses = classes.map((c) => {
+    const outstandingShares = outstanding.get(c.classId) ?? 0n;
+    return {
+      classId: c.classId,
+      name: c.name,
+      tokenAddress: c.tokenAddress,
+      authorizedShares: c.authorizedShares,
+      outstandingShares: outstandingShares.toString(),
+      asConvertedShares: toAsConvertedBalance(
+        outstandingShares,
+        BigInt(c.conversionRatio)
+      ).toString(),
+      liquidationPreference: c.liquidationPreference,
+      conversionRatio: c.conversionRatio,
+      seniority: c.seniority,
+    };
+  });
+
+  const totalFullyDiluted = shareClasses.reduce(
+    (sum, c) => sum + BigInt(c.asConvertedShares),
+    totalEffectiveSupply
+  );
+
+  return { shareClasses, totalFullyDiluted, holdings };
+}
+
+/**
+ * Get a holder's fully diluted position in a fully diluted cap table
+ * @param capTable Fully diluted cap table from getFullyDilutedCapTable()
+ * @param address Holder address
+ * @param effectiveBalance Holder's effective common balance
+ * @returns Class holdings with as-converted balances and the fully diluted balance and percentage
+ */
+export function getFullyDilutedPosition(
+  capTable: FullyDilutedCapTable,
+  address: string,
+  effectiveBalance: bigint
+): FullyDilutedPosition {
+  const classHoldings = (capTable.holdings.get(address.toLowerCase()) ?? []).map(
+    (holding) => {
+      const shareClass = capTable.shareClasses.find(
+        (c) => c.classId === holding.classId
+      );
+      return {
+        classId: holding.classId,
+        balance: holding.balance,
+        asConvertedBalance: toAsConvertedBalance(
+          BigInt(holding.balance),
+          BigInt(shareClass?.conversionRatio ?? SPLIT_FACTOR_PRECISION)
+        ).toString(),
+      };
+    }
+  );
+  const fullyDilutedBalance = classHoldings.reduce(
+    (sum, holding) => sum + BigInt(holding.asConvertedBalance),
+    effectiveBalance
+  );
+
+  return {
+    classHoldings,
+    fullyDilutedBalance: fullyDilutedBalance.toString(),
+    fullyDilutedPercentage: calculateOwnershipPercentage(
+      fullyDilutedBalance,
+      capTable.totalFullyDiluted
+    ),
+  };
+}
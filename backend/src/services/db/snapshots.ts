@@ -0,0 +1,403 @@
+/**
+ * @file Historical cap table snapshot engine for ChainEquity backend
+ * @notice Reconstructs the cap table at any block or timestamp from indexed data only
+ *
+ * @dev Balances are replayed from the transactions table (Issued, Transfer and Redeemed events) in
+ *      (block_number, log_index) order; effective balances use the split factor in effect at
+ *      the target block from split_history. No contract reads are made, so snapshots work
+ *      against non-archive RPC nodes.
+ *
+ *      Replays start from the nearest checkpoint at or before the target block when one
+ *      exists. Checkpoints are optional: with none, the replay starts from genesis and the
+ *      result is identical.
+ *
+ *      A token replacement (see services/db/tokens.ts) starts a new era: snapshots at or after
+ *      the TokenReplaced block replay only the replacement token's transactions (those after the
+ *      TokenReplaced log), starting from an empty cap table. Earlier snapshots are unaffected, so old-token history stays queryable.
+ */
+
+import { Database } from "bun:sqlite";
+import type { SnapshotCheckpointRecord, TransactionRecord } from "../../db/schema";
+import { getSplitFactor, toEffectiveBalance } from "./balances";
+import { getTokenVersionAt } from "./tokens";
+
+/**
+ * Shareholder entry in a cap table snapshot
+ */
+export interface SnapshotShareholder {
+  address: string;
+  balance: string;
+  effectiveBalance: string;
+  ownershipPercentage: number;
+  lastUpdatedBlock: number;
+}
+
+/**
+ * Cap table snapshot at a block
+ */
+export interface CapTableSnapshot {
+  blockNumber: number;
+  splitFactor: string;
+  totalSupply: string;
+  totalEffectiveSupply: string;
+  shareholders: SnapshotShareholder[]; // Sorted by effective balance DESC, then address ASC
+}
+
+/**
+ * Running balance state for a single address during replay
+ */
+interface BalanceState {
+  balance: bigint;
+  lastUpdatedBlock: number;
+}
+
+/**
+ * Calculate ownership percentage with safe BigInt math
+ * Returns number with 2 decimal precision
+ */
+export function calculateOwnershipPercentage(
+  effectiveBalance: bigint,
+  totalEffectiveSupply: bigint
+): number {
+  if (totalEffectiveSupply === 0n) {
+    return 0;
+  }
+
+  // Use integer math: (effectiveBalance * 10000) / totalEffectiveSupply, then divide by 100
+  return Number((effectiveBalance * 10000n) / totalEffectiveSupply) / 100;
+}
+
+/**
+ * Get the latest checkpoint at or before a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Optional block number (inclusive); defaults to the latest checkpoint
+ * @returns Checkpoint record or null if none exists
+ */
+export function getLatestCheckpoint(
+  db: Database,
+  companyId: number,
+  blockNumber?: number
+): SnapshotCheckpointRecord | null {
+  const where = blockNumber !== undefined ? "AND block_number <= ?" : "";
+  const params =
+    blockNumber !== undefined ? [companyId, blockNumber] : [companyId];
+
+  const stmt = db.prepare(`
+    SELECT
+      block_number AS blockNumber,
+      holder_count AS holderCount,
+      total_supply AS totalSupply,
+      created_at AS createdAt
+    FROM snapshot_checkpoints
+    WHERE company_id = ?
+    ${where}
+    ORDER BY block_number DESC
+    LIMIT 1
+  `);
+
+  return (stmt.get(...params) as SnapshotCheckpointRecord | null) ?? null;
+}
+
+/**
+ * Replay raw balances up to and including a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Target block number (inclusive)
+ * @returns Map of lowercase address to balance state (includes zero balances)
+ */
+function replayBalances(
+  db: Database,
+  companyId: number,
+  blockNumber: number
+): Map<string, BalanceState> {
+  const balances = new Map<string, BalanceState>();
+  const replacement = getTokenVersionAt(db, companyId, blockNumber);
+  let checkpoint = getLatestCheckpoint(db, companyId, blockNumber);
+
+  // Checkpoints taken before the latest replacement hold old-token balances
+  if (replacement && checkpoint && checkpoint.blockNumber < replacement.blockNumber) {
+    checkpoint = null;
+  }
+
+  // Replay from after the checkpoint block, or after the TokenReplaced log within its block
+  const [fromBlock, fromLogIndex] = checkpoint
+    ? [checkpoint.blockNumber, Number.MAX_SAFE_INTEGER]
+    : replacement
+      ? [replacement.blockNumber, replacement.logIndex]
+      : [-1, -1];
+
+  if (checkpoint) {
+    const rows = db
+      .prepare(
+        `SELECT address, balance, last_updated_block AS lastUpdatedBlock
+         FROM checkpoint_balances
+         WHERE company_id = ? AND checkpoint_block = ?`
+      )
+      .all(companyId, checkpoint.blockNumber) as {
+      address: string;
+      balance: string;
+      lastUpdatedBlock: number;
+    }[];
+
+    for (const row of rows) {
+      balances.set(row.address, {
+        balance: BigInt(row.balance),
+        lastUpdatedBlock: row.lastUpdatedBlock,
+      });
+    }
+  }
+
+  const transactions = db
+    .prepare(
+      `SELECT from_address AS fromAddress, to_address AS toAddress, amount,
+              block_number AS blockNumber, event_type AS eventType
+       FROM transactions
+       WHERE company_id = ? AND (block_number, log_index) > (?, ?) AND block_number <= ?
+       ORDER BY block_number ASC, log_index ASC`
+    )
+    .all(companyId, fromBlock, fromLogIndex, blockNumber) as {
+    fromAddress: string | null;
+    toAddress: string | null;
+    amount: string;
+    blockNumber: number;
+    eventType: TransactionRecord["eventType"];
+  }[];
+
+  const apply = (address: string, delta: bigint, block: number): void => {
+    const key = address.toLowerCase();
+    const current = balances.get(key)?.balance ?? 0n;
+    balances.set(key, { balance: current + delta, lastUpdatedBlock: block });
+  };
+
+  for (const tx of transactions) {
+    const amount = BigInt(tx.amount);
+
+    // Transfer rows for mints and burns (zero address) are skipped by the indexer, so a
+    // TRANSFER (or forced) row always has a real sender; REDEEMED rows have a sender and no recipient
+    if (tx.eventType !== "ISSUED" && tx.fromAddress) {
+      apply(tx.fromAddress, -amount, tx.blockNumber);
+    }
+    if (tx.toAddress) {
+      apply(tx.toAddress, amount, tx.blockNumber);
+    }
+  }
+
+  return balances;
+}
+
+/**
+ * Reconstruct the cap table as of a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Target block number (inclusive)
+ * @returns Cap table snapshot with balances, effective balances and ownership percentages
+ */
+export function getSnapshotAtBlock(
+  db: Database,
+  companyId: number,
+  blockNumber: number
+): CapTableSnapshot {
+  const balances = replayBalances(db, companyId, blockNumber);
+  const splitFactor = getSplitFactor(db, companyId, blockNumber);
+
+  let totalSupply = 0n;
+  const holders: { address: string; state: BalanceState }[] = [];
+  for (const [address, state] of balances) {
+    if (state.balance > 0n) {
+      totalSupply += state.balance;
+      holders.push({ address, state });
+    }
+  }
+
+  // Matches ChainEquityToken: totalSupply * splitFactor / 1e18
+  const totalEffectiveSupply = toEffectiveBalance(totalSupply, splitFactor);
+
+  const shareholders = holders
+    .map(({ address, state }) => {
+      const effectiveBalance = toEffectiveBalance(state.balance, splitFactor);
+      return {
+        address,
+        balance: state.balance.toString(),
+        effectiveBalance: effectiveBalance.toString(),
+        ownershipPercentage: calculateOwnershipPercentage(
+          effectiveBalance,
+          totalEffectiveSupply
+        ),
+        lastUpdatedBlock: state.lastUpdatedBlock,
+      };
+    })
+    .sort((a, b) => {
+      const aBal = BigInt(a.effectiveBalance);
+      const bBal = BigInt(b.effectiveBalance);
+      if (aBal !== bBal) {
+        return aBal > bBal ? -1 : 1;
+      }
+      return a.address.localeCompare(b.address);
+    });
+
+  return {
+    blockNumber,
+    splitFactor: splitFactor.toString(),
+    totalSupply: totalSupply.toString(),
+    totalEffectiveSupply: totalEffectiveSupply.toString(),
+    shareholders,
+  };
+}
+
+/**
+ * Resolve the last indexed block at or before a timestamp
+ * Only blocks containing indexed transfers, splits or token replacements are considered;
+ * the cap table cannot change in any other block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param timestamp Unix timestamp in seconds (inclusive)
+ * @returns Block number, or null if nothing was indexed at or before the timestamp
+ */
+export function getBlockAtTimestamp(
+  db: Database,
+  companyId: number,
+  timestamp: number
+): number | null {
+  const stmt = db.prepare(`
+    SELECT MAX(block_number) AS blockNumber FROM (
+      SELECT block_number FROM transactions WHERE company_id = ? AND block_timestamp <= ?
+      UNION ALL
+      SELECT block_number FROM split_history WHERE company_id = ? AND block_timestamp <= ?
+      UNION ALL
+      SELECT block_number FROM token_versions WHERE company_id = ? AND block_timestamp <= ?
+    )
+  `);
+
+  const result = stmt.get(
+    companyId,
+    timestamp,
+    companyId,
+    timestamp,
+    companyId,
+    timestamp
+  ) as {
+    blockNumber: number | null;
+  } | null;
+  return result?.blockNumber ?? null;
+}
+
+/**
+ * Reconstruct the cap table as of a timestamp
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param timestamp Unix timestamp in seconds (inclusive)
+ * @returns Cap table snapshot at the resolved block (block 0 and empty if nothing was indexed yet)
+ */
+export function getSnapshotAtTimestamp(
+  db: Database,
+  companyId: number,
+  timestamp: number
+): CapTableSnapshot {
+  const blockNumber = getBlockAtTimestamp(db, companyId, timestamp);
+  return getSnapshotAtBlock(db, companyId, blockNumber ?? 0);
+}
+
+/**
+ * Materialize a checkpoint at a block
+ * The block must be fully indexed; transactions indexed later for blocks at or before
+ * the checkpoint would not be reflected in snapshots that start from it
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Block number to checkpoint (inclusive)
+ * @returns True if the checkpoint was created, false if it already existed
+ */
+export function createCheckpoint(
+  db: Database,
+  companyId: number,
+  blockNumber: number
+): boolean {
+  return db.transaction(() => {
+    const existing = db
+      .prepare("SELECT 1 FROM snapshot_checkpoints WHERE company_id = ? AND block_number = ?")
+      .get(companyId, blockNumber);
+
+    if (existing) {
+      return false;
+    }
+
+    const balances = replayBalances(db, companyId, blockNumber);
+    const insertBalance = db.prepare(
+      `INSERT INTO checkpoint_balances (company_id, checkpoint_block, address, balance, last_updated_block)
+       VALUES (?, ?, ?, ?, ?)`
+    );
+
+    let holderCount = 0;
+    let totalSupply = 0n;
+    for (const [address, state] of balances) {
+      // Zero balances are kept so lastUpdatedBlock survives a holder selling out and buying back
+      insertBalance.run(
+        companyId,
+        blockNumber,
+        address,
+        state.balance.toString(),
+        state.lastUpdatedBlock
+      );
+      if (state.balance > 0n) {
+        holderCount++;
+        totalSupply += state.balance;
+      }
+    }
+
+    db.prepare(
+      `INSERT INTO snapshot_checkpoints (company_id, block_number, holder_count, total_supply)
+       VALUES (?, ?, ?, ?)`
+    ).run(companyId, blockNumber, holderCount, totalSupply.toString());
+
+    return true;
+  })();
+}
+
+/**
+ * Create a checkpoint if at least `interval` blocks have passed since the last one
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Latest fully indexed block
+ * @param interval Minimum block distance between checkpoints (0 disables checkpointing)
+ * @returns True if a checkpoint was created
+ */
+export function createCheckpointIfDue(
+  db: Database,
+  companyId: number,
+  blockNumber: number,
+  interval: number
+): boolean {
+  if (interval <= 0 || blockNumber < 0) {
+    return false;
+  }
+
+  const latest = getLatestCheckpoint(db, companyId);
+  const lastCheckpointBlock = latest ? latest.blockNumber : -1;
+
+  if (blockNumber - lastCheckpointBlock < interval) {
+    return false;
+  }
+
+  return createCheckpoint(db, companyId, blockNumber);
+}
+
+/**
+ * Delete all checkpoints after a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Block number (exclusive); checkpoints above it are removed
+ */
+export function deleteCheckpointsAfter(
+  db: Database,
+  companyId: number,
+  blockNumber: number
+): void {
+  db.transaction(() => {
+    db.prepare(
+      "DELETE FROM checkpoint_balances WHERE company_id = ? AND checkpoint_block > ?"
+    ).run(companyId, blockNumber);
+    db.prepare(
+      "DELETE FROM snapshot_checkpoints WHERE company_id = ? AND block_number > ?"
+    ).run(companyId, blockNumber);
+  })();
+}
@@ -0,0 +1,155 @@
+/**
+ * @file Split position calculations for ChainEquity backend
+ * @notice Whole-share and fractional positions per holder, for the current or a proposed split factor
+ *
+ * @dev Rounding and cash-in-lieu rules (mirroring ChainEquityToken.fractionalBalanceOf):
+ *      1. Effective balances round down to the smallest token unit (balance * factor / 1e18).
+ *      2. A holder is entitled to whole shares only: floor(effectiveBalance / 1e18).
+ *      3. The fractional remainder is paid as cash in lieu off-chain, and the issuer cancels it
+ *         on-chain by redeeming cashInLieuAmount base units (the smallest amount that leaves
+ *         the holder with exactly their whole shares).
+ */
+
+import { Database } from "bun:sqlite";
+import { getSplitFactor, toEffectiveBalance, SPLIT_FACTOR_PRECISION } from "./balances";
+
+/**
+ * One whole share in token units (18 decimals)
+ */
+export const SHARE_UNIT = 10n ** 18n;
+
+/**
+ * A holder's position under a split factor
+ * All amounts are token units (wei precision) as decimal strings
+ */
+export interface SplitPosition {
+  address: string;
+  balance: string;
+  effectiveBalance: string;
+  wholeShares: string; // Effective balance rounded down to whole shares, in token units
+  fractionalRemainder: string; // effectiveBalance - wholeShares
+  cashInLieuAmount: string; // Base units to redeem so only whole shares remain
+}
+
+/**
+ * Split preview for a proposed factor
+ */
+export interface SplitPreview {
+  currentFactor: string;
+  proposedFactor: string;
+  positions: (SplitPosition & { currentEffectiveBalance: string })[];
+  totalFractionalRemainder: string;
+  totalCashInLieuAmount: string;
+  holdersWithFractions: number;
+}
+
+/**
+ * Calculate a holder's whole-share and fractional position under a split factor
+ * @param balance Base token balance
+ * @param splitFactor Split factor in 1e18 precision (must be > 0)
+ * @returns Position amounts as bigints
+ */
+export function calculateSplitPosition(
+  balance: bigint,
+  splitFactor: bigint
+): {
+  effectiveBalance: bigint;
+  wholeShares: bigint;
+  fractionalRemainder: bigint;
+  cashInLieuAmount: bigint;
+} {
+  const effectiveBalance = toEffectiveBalance(balance, splitFactor);
+  const fractionalRemainder = effectiveBalance % SHARE_UNIT;
+  const wholeShares = effectiveBalance - fractionalRemainder;
+
+  // Smallest base balance whose effective balance still covers the whole shares (ceil division)
+  const baseForWholeShares =
+    (wholeShares * SPLIT_FACTOR_PRECISION + splitFactor - 1n) / splitFactor;
+  const cashInLieuAmount =
+    fractionalRemainder === 0n ? 0n : balance - baseForWholeShares;
+
+  return { effectiveBalance, wholeShares, fractionalRemainder, cashInLieuAmount };
+}
+
+/**
+ * Get every current holder's position under a split factor
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param splitFactor Split factor in 1e18 precision; defaults to the latest indexed factor
+ * @returns Positions for holders with a non-zero balance, largest first
+ */
+export function getSplitPositions(
+  db: Database,
+  companyId: number,
+  splitFactor: bigint = getSplitFactor(db, companyId)
+): SplitPosition[] {
+  // Balances exceed SQLite's integer range, so filter and sort them as bigints
+  const holders = (
+    db
+      .prepare("SELECT address, balance FROM shareholders WHERE company_id = ?")
+      .all(companyId) as {
+      address: string;
+      balance: string;
+    }[]
+  )
+    .filter((holder) => BigInt(holder.balance) > 0n)
+    .sort((a, b) => {
+      const diff = BigInt(b.balance) - BigInt(a.balance);
+      return diff !== 0n ? (diff > 0n ? 1 : -1) : a.address.localeCompare(b.address);
+    });
+
+  return holders.map((holder) => {
+    const position = calculateSplitPosition(BigInt(holder.balance), splitFactor);
+    return {
+      address: holder.address,
+      balance: holder.balance,
+      effectiveBalance: position.effectiveBalance.toString(),
+      wholeShares: position.wholeShares.toString(),
+      fractionalRemainder: position.fractionalRemainder.toString(),
+      cashInLieuAmount: position.cashInLieuAmount.toString(),
+    };
+  });
+}
+
+/**
+ * Preview every holder's position if a split factor were executed
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param proposedFactor Proposed split factor in 1e18 precision (must be > 0)
+ * @returns Current and proposed effective positions with fractional totals
+ */
+export function previewSplit(
+  db: Database,
+  companyId: number,
+  proposedFactor: bigint
+): SplitPreview {
+  const currentFactor = getSplitFactor(db, companyId);
+  let totalFractionalRemainder = 0n;
+  let totalCashInLieuAmount = 0n;
+  let holdersWithFractions = 0;
+
+  const positions = getSplitPositions(db, companyId, proposedFactor).map((position) => {
+    const remainder = BigInt(position.fractionalRemainder);
+    if (remainder > 0n) {
+      holdersWithFractions += 1;
+      totalFractionalRemainder += remainder;
+      totalCashInLieuAmount += BigInt(position.cashInLieuAmount);
+    }
+    return {
+      ...position,
+      currentEffectiveBalance: toEffectiveBalance(
+        BigInt(position.balance),
+        currentFactor
+      ).toString(),
+    };
+  });
+
+  return {
+    currentFactor: currentFactor.toString(),
+    proposedFactor: proposedFactor.toString(),
+    positions,
+    totalFractionalRemainder: totalFractionalRemainder.toString(),
+    totalCashInLieuAmount: totalCashInLieuAmount.toString(),
+    holdersWithFractions,
+  };
+}
@@ -0,0 +1,26 @@
+/**
+ * @file Symbol history database operations for ChainEquity backend
+ * @notice Reads the token ticker history indexed from Deployed and SymbolChanged events
+ */
+
+import { Database } from "bun:sqlite";
+import type { SymbolHistoryRecord } from "../../db/schema";
+import { asSymbolHistoryRecord } from "../../db/index";
+
+/**
+ * Get all indexed symbols in chronological order
+ * The first record (oldSymbol null) is the symbol the token was deployed with
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Symbol history records
+ */
+export function getSymbolHistory(
+  db: Database,
+  companyId: number
+): SymbolHistoryRecord[] {
+  const stmt = db.prepare(
+    "SELECT * FROM symbol_history WHERE company_id = ? ORDER BY block_number ASC, log_index ASC"
+  );
+  const results = stmt.all(companyId) as unknown[];
+  return results.map((row) => asSymbolHistoryRecord(row));
+}
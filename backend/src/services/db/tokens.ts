@@ -0,0 +1,310 @@
+/**
+ * @file Token version operations for ChainEquity backend
+ * @notice Tracks which token contract the CapTable points at, from indexed TokenReplaced events
+ *
+ * @dev Each token_versions row starts a token era at the position (block, log index) of its
+ *      TokenReplaced log. Logs from the replaced token are indexed up to that log; the replacement
+ *      is indexed from the next log on, including later logs of the TokenReplaced block itself.
+ *      Replacing the token closes every old-token balance with a MIGRATED ledger delta at the
+ *      TokenReplaced log's position, so the replacement's Issued events rebuild the cap table
+ *      from zero while old-token transactions stay queryable. Role grants on the old token are
+ *      revoked at the same position, so they no longer give access to the company.
+ */
+
+import { Database } from "bun:sqlite";
+import type { CompanyRecord, TokenVersionRecord } from "../../db/schema";
+import { asTokenVersionRecord } from "../../db/index";
+import { applyBalanceChange, getSplitFactor, toEffectiveBalance } from "./balances";
+import { getApprovedWallets, isTransfersRestricted } from "./allowlist";
+import { getCompanyById } from "./companies";
+import { closeContractRoles } from "./roles";
+
+/**
+ * Input type for recording a token replacement
+ */
+export interface TokenReplacementInput {
+  oldToken: string;
+  newToken: string;
+  migrationBlock: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * A token contract and the block range it was indexed for
+ */
+export interface TokenEra {
+  tokenAddress: string;
+  fromBlock: number | null; // TokenReplaced block that activated it; null for the original token
+  fromLogIndex: number | null; // Its logs in fromBlock come after this TokenReplaced log
+  toBlock: number | null; // TokenReplaced block (inclusive); null for the active token
+  toLogIndex: number | null; // Its logs in toBlock come before this TokenReplaced log
+  migrationBlock: number | null; // Snapshot block the balances were migrated from
+  replacedTxHash: string | null; // Transaction that replaced this token
+  active: boolean;
+}
+
+/**
+ * Holder balances and allowlist of the active token, as consumed by
+ * contracts/scripts/migration-helper.ts (amounts are decimal strings in token units)
+ */
+export interface MigrationSnapshot {
+  version: 1;
+  blockNumber: number;
+  timestamp: number;
+  oldTokenAddress: string;
+  splitFactor: string;
+  totalSupply: string;
+  totalEffectiveSupply: string;
+  shareholderCount: number;
+  shareholders: {
+    address: string;
+    balance: string;
+    effectiveBalance: string; // Minted 1:1 on the replacement, which starts at a 1x split factor
+  }[];
+  approvedAddresses: string[];
+  transfersRestricted: boolean;
+}
+
+/**
+ * Get all indexed token replacements in chronological order
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @returns Token version records
+ */
+export function getTokenVersions(
+  db: Database,
+  companyId: number
+): TokenVersionRecord[] {
+  const stmt = db.prepare(
+    "SELECT * FROM token_versions WHERE company_id = ? ORDER BY block_number ASC, log_index ASC"
+  );
+  const results = stmt.all(companyId) as unknown[];
+  return results.map((row) => asTokenVersionRecord(row));
+}
+
+/**
+ * Get the latest token replacement at or before a block
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param blockNumber Optional block number (inclusive); defaults to the latest replacement
+ * @returns Token version record or null if the token had not been replaced by then
+ */
+export function getTokenVersionAt(
+  db: Database,
+  companyId: number,
+  blockNumber?: number
+): TokenVersionRecord | null {
+  const where = blockNumber !== undefined ? "AND block_number <= ?" : "";
+  const params =
+    blockNumber !== undefined ? [companyId, blockNumber] : [companyId];
+
+  const row = db
+    .prepare(
+      `SELECT * FROM token_versions
+       WHERE company_id = ?
+       ${where}
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT 1`
+    )
+    .get(...params);
+  return row ? asTokenVersionRecord(row) : null;
+}
+
+/**
+ * Get the token whose logs are indexed at a log position
+ * In a TokenReplaced block, the replaced token owns the logs before the TokenReplaced log and
+ * the replacement owns the logs after it
+ * @param db SQLite database instance
+ * @param company Registered company (its token_address is active before any replacement)
+ * @param blockNumber Optional block number; defaults to the currently active token
+ * @param logIndex Optional log index in the block; defaults to the start of the block
+ * @returns Lowercase token address
+ */
+export function getActiveTokenAddress(
+  db: Database,
+  company: CompanyRecord,
+  blockNumber?: number,
+  logIndex?: number
+): string {
+  if (blockNumber === undefined) {
+    const version = getTokenVersionAt(db, company.id);
+    return (version?.tokenAddress ?? company.tokenAddress).toLowerCase();
+  }
+
+  const row = db
+    .prepare(
+      `SELECT token_address AS tokenAddress FROM token_versions
+       WHERE company_id = ? AND (block_number, log_index) < (?, ?)
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT 1`
+    )
+    .get(company.id, blockNumber, logIndex ?? -1) as { tokenAddress: string } | null;
+  return (row?.tokenAddress ?? company.tokenAddress).toLowerCase();
+}
+
+/**
+ * Get every token contract with the block range it was active for, oldest first
+ * @param db SQLite database instance
+ * @param company Registered company
+ * @returns Token eras (the last one is active)
+ */
+export function getTokenEras(db: Database, company: CompanyRecord): TokenEra[] {
+  const versions = getTokenVersions(db, company.id);
+  const eras: TokenEra[] = [];
+
+  let current: Omit<TokenEra, "toBlock" | "toLogIndex" | "replacedTxHash" | "active"> = {
+    tokenAddress: company.tokenAddress.toLowerCase(),
+    fromBlock: null,
+    fromLogIndex: null,
+    migrationBlock: null,
+  };
+
+  for (const version of versions) {
+    eras.push({
+      ...current,
+      toBlock: version.blockNumber,
+      toLogIndex: version.logIndex,
+      replacedTxHash: version.txHash,
+      active: false,
+    });
+    current = {
+      tokenAddress: version.tokenAddress,
+      fromBlock: version.blockNumber,
+      fromLogIndex: version.logIndex,
+      migrationBlock: version.migrationBlock,
+    };
+  }
+
+  eras.push({
+    ...current,
+    toBlock: null,
+    toLogIndex: null,
+    replacedTxHash: null,
+    active: true,
+  });
+  return eras;
+}
+
+/**
+ * Record a token replacement and close every old-token balance and role grant
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input TokenReplaced event details
+ * @returns True if the replacement was recorded, false if it was already indexed
+ */
+export function recordTokenReplacement(
+  db: Database,
+  companyId: number,
+  input: TokenReplacementInput
+): boolean {
+  return db.transaction(() => {
+    const result = db
+      .prepare(
+        `INSERT OR IGNORE INTO token_versions (
+          company_id, token_address, previous_token_address, migration_block,
+          block_number, block_timestamp, log_index, tx_hash
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        companyId,
+        input.newToken.toLowerCase(),
+        input.oldToken.toLowerCase(),
+        input.migrationBlock,
+        input.blockNumber,
+        input.blockTimestamp,
+        input.logIndex,
+        input.txHash
+      );
+
+    if (result.changes === 0) {
+      return false;
+    }
+
+    const holders = db
+      .prepare("SELECT address, balance FROM shareholders WHERE company_id = ?")
+      .all(companyId) as { address: string; balance: string }[];
+
+    for (const holder of holders) {
+      const balance = BigInt(holder.balance);
+      if (balance === 0n) {
+        continue;
+      }
+      applyBalanceChange(db, companyId, {
+        address: holder.address,
+        delta: -balance,
+        changeType: "MIGRATED",
+        blockNumber: input.blockNumber,
+        blockTimestamp: input.blockTimestamp,
+        logIndex: input.logIndex,
+        txHash: input.txHash,
+      });
+    }
+
+    closeContractRoles(db, companyId, {
+      contractAddress: input.oldToken,
+      sender: getCompanyById(db, companyId)?.capTableAddress ?? input.oldToken,
+      blockNumber: input.blockNumber,
+      blockTimestamp: input.blockTimestamp,
+      logIndex: input.logIndex,
+      txHash: input.txHash,
+    });
+
+    return true;
+  })();
+}
+
+/**
+ * Build a migration snapshot of the active token from indexed data
+ * @param db SQLite database instance
+ * @param company Registered company
+ * @param blockNumber Block the indexed data reflects (recorded as the migration block)
+ * @returns Snapshot for the migration helper
+ */
+export function buildMigrationSnapshot(
+  db: Database,
+  company: CompanyRecord,
+  blockNumber: number
+): MigrationSnapshot {
+  const splitFactor = getSplitFactor(db, company.id);
+  const holders = (
+    db
+      .prepare("SELECT address, balance FROM shareholders WHERE company_id = ?")
+      .all(company.id) as {
+      address: string;
+      balance: string;
+    }[]
+  )
+    .filter((holder) => BigInt(holder.balance) > 0n)
+    .sort((a, b) => a.address.localeCompare(b.address));
+
+  let totalSupply = 0n;
+  let totalEffectiveSupply = 0n;
+  const shareholders = holders.map((holder) => {
+    const balance = BigInt(holder.balance);
+    const effectiveBalance = toEffectiveBalance(balance, splitFactor);
+    totalSupply += balance;
+    totalEffectiveSupply += effectiveBalance;
+    return {
+      address: holder.address,
+      balance: holder.balance,
+      effectiveBalance: effectiveBalance.toString(),
+    };
+  });
+
+  return {
+    version: 1,
+    blockNumber,
+    timestamp: Math.floor(Date.now() / 1000),
+    oldTokenAddress: getActiveTokenAddress(db, company),
+    splitFactor: splitFactor.toString(),
+    totalSupply: totalSupply.toString(),
+    totalEffectiveSupply: totalEffectiveSupply.toString(),
+    shareholderCount: shareholders.length,
+    shareholders,
+    approvedAddresses: getApprovedWallets(db, company.id).map((row) => row.walletAddress),
+    transfersRestricted: isTransfersRestricted(db, company.id),
+  };
+}
@@ -3,8 +3,7 @@
  * @notice Handles CRUD operations for users table with role management
  * 
  * @dev Database utilities for user management.
- *      Implemented and typed, but not currently exposed via API in demo mode.
- *      To be connected post-demo (see Tasks 3.3 & 3.4).
+ *      Used by wallet linking and Sign-In With Ethereum authentication.
  */
 
 import { Database } from "bun:sqlite";
@@ -174,6 +173,34 @@ export function unlinkWallet(db: Database, uid: string): UserRecord | null {
   return updateUser(db, uid, { walletAddress: null });
 }
 
+/**
+ * Get the user linked to a wallet, creating an investor account if none exists
+ * Used by Sign-In With Ethereum: the signing wallet is the user's identity
+ * @param db SQLite database instance
+ * @param walletAddress Ethereum wallet address that signed in
+ * @returns Existing or newly created user record with the wallet linked
+ */
+export function getOrCreateWalletUser(
+  db: Database,
+  walletAddress: string
+): UserRecord {
+  return db.transaction(() => {
+    const existing = getUserByWallet(db, walletAddress);
+    if (existing) {
+      return existing;
+    }
+
+    const address = walletAddress.toLowerCase();
+    const uid = `wallet-${address}`;
+    createUser(db, {
+      uid,
+      email: `${address}@wallet.local`,
+      role: "investor",
+    });
+    return linkWallet(db, uid, address) as UserRecord;
+  })();
+}
+
 /**
  * Get all users with linked wallets
  * @param db SQLite database instance
@@ -216,3 +243,38 @@ export function getUsersWithLinkedWallets(
     };
   });
 }
+
+/**
+ * Get email and display name for a set of wallet addresses
+ * @param db SQLite database instance
+ * @param walletAddresses Ethereum wallet addresses (any case)
+ * @returns Map of lowercase wallet address to user profile; wallets without a user are absent
+ */
+export function getUserProfilesByWallet(
+  db: Database,
+  walletAddresses: string[]
+): Map<string, { email: string | null; displayName: string | null }> {
+  const profiles = new Map<string, { email: string | null; displayName: string | null }>();
+  if (walletAddresses.length === 0) {
+    return profiles;
+  }
+
+  const placeholders = walletAddresses.map(() => "?").join(",");
+  const stmt = db.prepare(`
+    SELECT wallet_address AS walletAddress, email, display_name AS displayName
+    FROM users
+    WHERE LOWER(wallet_address) IN (${placeholders})
+  `);
+  const rows = stmt.all(
+    ...walletAddresses.map((address) => address.toLowerCase())
+  ) as { walletAddress: string; email: string | null; displayName: string | null }[];
+
+  for (const row of rows) {
+    profiles.set(row.walletAddress.toLowerCase(), {
+      email: row.email,
+      displayName: row.displayName,
+    });
+  }
+
+  return profiles;
+}
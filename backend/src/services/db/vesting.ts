@@ -0,0 +1,364 @@
+/**
+ * @file Vesting operations for ChainEquity backend
+ * @notice Tracks vesting grants issued with ChainEquityToken.grantVested() and their revocations
+ *
+ * @dev Granted shares are minted to the beneficiary up front (their Issued event flows into
+ *      balance_changes like any other issuance); the token keeps the unvested part locked.
+ *      There is no release transaction: shares unlock as they vest, so vested amounts are
+ *      computed here from the indexed schedule with the same formula as the contract.
+ *      A revocation burns the unvested shares (a Redeemed event) and stops vesting at the
+ *      revocation time.
+ *      recoverWallet() moves a lost wallet's grants to the new wallet without a grant event, so
+ *      the current beneficiary is resolved from the indexed wallet recoveries at query time
+ *      rather than rewritten in vesting_grants (which keeps reorg rollbacks simple).
+ */
+
+import { Database } from "bun:sqlite";
+import type { VestingGrantRecord } from "../../db/schema";
+import { asVestingGrantRecord } from "../../db/index";
+import { getWalletRecoveries } from "./recovery";
+
+/**
+ * Maximum number of points returned in a grant's vesting timeline
+ * @dev Graded schedules with more steps (and linear schedules) are sampled evenly
+ */
+export const MAX_TIMELINE_POINTS = 120;
+
+/**
+ * Input type for recording a vesting grant
+ */
+export interface VestingGrantInput {
+  tokenAddress: string;
+  grantId: number;
+  beneficiary: string;
+  amount: bigint;
+  startTime: number;
+  cliffDuration: number;
+  duration: number;
+  releaseInterval: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Input type for recording a vesting grant revocation
+ */
+export interface VestingRevocationInput {
+  tokenAddress: string;
+  grantId: number;
+  vestedAmount: bigint;
+  clawedBackAmount: bigint;
+  revokedAt: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Point on a vesting timeline: cumulative vested amount at a time
+ */
+export interface VestingTimelinePoint {
+  timestamp: number;
+  vested: string;
+}
+
+/**
+ * A grant with its vested and unvested amounts at a time
+ */
+export interface VestingGrantStatus {
+  grantId: number;
+  amount: string;
+  startTime: number;
+  cliffTime: number;
+  endTime: number;
+  releaseInterval: number;
+  revokedAt: number | null;
+  vested: string;
+  unvested: string;
+  clawedBack: string;
+  timeline: VestingTimelinePoint[];
+}
+
+/**
+ * A beneficiary's vesting position across all grants on a token
+ */
+export interface VestingPosition {
+  totalGranted: string;
+  totalVested: string;
+  totalUnvested: string;
+  totalClawedBack: string;
+  grants: VestingGrantStatus[];
+}
+
+/**
+ * Record a vesting grant from a VestingGrantCreated event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Grant details
+ * @returns True if the grant was recorded, false if it was already indexed
+ */
+export function recordVestingGrant(
+  db: Database,
+  companyId: number,
+  input: VestingGrantInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO vesting_grants (
+        company_id, token_address, grant_id, beneficiary, amount, start_time,
+        cliff_duration, duration, release_interval,
+        block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.tokenAddress.toLowerCase(),
+      input.grantId,
+      input.beneficiary.toLowerCase(),
+      input.amount.toString(),
+      input.startTime,
+      input.cliffDuration,
+      input.duration,
+      input.releaseInterval,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Record a vesting grant revocation from a VestingGrantRevoked event
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param input Revocation details
+ * @returns True if the revocation was recorded, false if it was already indexed
+ */
+export function recordVestingRevocation(
+  db: Database,
+  companyId: number,
+  input: VestingRevocationInput
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO vesting_grant_revocations (
+        company_id, token_address, grant_id, vested_amount, clawed_back_amount,
+        revoked_at, block_number, block_timestamp, log_index, tx_hash
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      companyId,
+      input.tokenAddress.toLowerCase(),
+      input.grantId,
+      input.vestedAmount.toString(),
+      input.clawedBackAmount.toString(),
+      input.revokedAt,
+      input.blockNumber,
+      input.blockTimestamp,
+      input.logIndex,
+      input.txHash
+    );
+
+  return result.changes > 0;
+}
+
+/**
+ * Get a beneficiary's vesting grants on a token, with their revocations
+ * Grants moved to the beneficiary by a wallet recovery are included (with the beneficiary
+ * updated), grants moved away from it are not
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address the grants were issued on
+ * @param beneficiary Beneficiary address
+ * @returns Grant records ordered by grant ID
+ */
+export function getVestingGrants(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  beneficiary: string
+): VestingGrantRecord[] {
+  const results = db
+    .prepare(
+      `SELECT g.*, r.revoked_at, r.vested_amount, r.clawed_back_amount
+       FROM vesting_grants g
+       LEFT JOIN vesting_grant_revocations r
+         ON r.company_id = g.company_id
+        AND r.token_address = g.token_address
+        AND r.grant_id = g.grant_id
+       WHERE g.company_id = ? AND g.token_address = ?
+       ORDER BY g.grant_id ASC`
+    )
+    .all(companyId, tokenAddress.toLowerCase()) as unknown[];
+  const recoveries = getWalletRecoveries(db, companyId, tokenAddress);
+  const wallet = beneficiary.toLowerCase();
+
+  return results
+    .map((row) => {
+      const grant = asVestingGrantRecord(row);
+      // Follow the recoveries made after the grant, in chain order
+      for (const recovery of recoveries) {
+        const after =
+          recovery.blockNumber > grant.blockNumber ||
+          (recovery.blockNumber === grant.blockNumber &&
+            recovery.logIndex > grant.logIndex);
+        if (after && recovery.fromAddress === grant.beneficiary) {
+          grant.beneficiary = recovery.toAddress;
+        }
+      }
+      return grant;
+    })
+    .filter((grant) => grant.beneficiary === wallet);
+}
+
+/**
+ * Compute the amount of a grant vested at a time
+ * @dev Mirrors ChainEquityToken._vestedAmount(): nothing before the cliff, everything at the
+ *      end, otherwise the completed release intervals pro rata. Vesting stops at revocation.
+ * @param grant Grant record
+ * @param timestamp Unix seconds
+ * @returns Vested amount in base token units
+ */
+export function computeVestedAmount(
+  grant: VestingGrantRecord,
+  timestamp: number
+): bigint {
+  const amount = BigInt(grant.amount);
+  const t =
+    grant.revokedAt !== null ? Math.min(timestamp, grant.revokedAt) : timestamp;
+
+  if (t < grant.startTime + grant.cliffDuration) {
+    return 0n;
+  }
+  if (t >= grant.startTime + grant.duration) {
+    return amount;
+  }
+
+  const elapsed = BigInt(t - grant.startTime);
+  const interval = BigInt(grant.releaseInterval);
+  return (amount * (elapsed - (elapsed % interval))) / BigInt(grant.duration);
+}
+
+/**
+ * Build the vesting timeline of a grant
+ * @dev Points are meant to be joined by straight lines: a jump (the cliff, or each step of a
+ *      graded schedule) is a pair of points at the same timestamp. Graded schedules with more
+ *      than MAX_TIMELINE_POINTS steps and linear schedules are sampled evenly instead.
+ *      A revoked grant's timeline ends at the revocation time.
+ * @param grant Grant record
+ * @returns Timeline points in chronological order
+ */
+export function getVestingTimeline(
+  grant: VestingGrantRecord
+): VestingTimelinePoint[] {
+  const start = grant.startTime;
+  const cliff = start + grant.cliffDuration;
+  const end = start + grant.duration;
+  const stop =
+    grant.revokedAt !== null ? Math.min(grant.revokedAt, end) : end;
+
+  const times = new Set<number>([start, cliff, end]);
+  const steps = Math.floor(grant.duration / grant.releaseInterval);
+  if (grant.releaseInterval > 1 && steps <= MAX_TIMELINE_POINTS) {
+    // Nothing vests between the start and the cliff
+    const firstStep = Math.ceil(grant.cliffDuration / grant.releaseInterval);
+    for (let k = Math.max(firstStep, 1); k <= steps; k++) {
+      times.add(start + k * grant.releaseInterval);
+    }
+  } else {
+    for (let k = 1; k < MAX_TIMELINE_POINTS; k++) {
+      times.add(cliff + Math.floor(((end - cliff) * k) / MAX_TIMELINE_POINTS));
+    }
+  }
+  if (grant.revokedAt !== null) {
+    times.add(stop);
+  }
+
+  const points: VestingTimelinePoint[] = [];
+  let previous: bigint | null = null;
+  for (const t of [...times].filter((t) => t >= start && t <= stop).sort((a, b) => a - b)) {
+    const vested = computeVestedAmount(grant, t);
+    // Flat since the previous point and vested more now: the schedule jumped at t
+    if (
+      previous !== null &&
+      vested !== previous &&
+      computeVestedAmount(grant, t - 1) === previous
+    ) {
+      points.push({ timestamp: t, vested: previous.toString() });
+    }
+    points.push({ timestamp: t, vested: vested.toString() });
+    previous = vested;
+  }
+
+  return points;
+}
+
+/**
+ * Get a beneficiary's vesting position on a token at a time
+ * @param db SQLite database instance
+ * @param companyId Company id
+ * @param tokenAddress Token address the grants were issued on
+ * @param beneficiary Beneficiary address
+ * @param timestamp Unix seconds to evaluate vesting at
+ * @returns Per-grant vested/unvested amounts and timelines, plus totals
+ */
+export function getVestingPosition(
+  db: Database,
+  companyId: number,
+  tokenAddress: string,
+  beneficiary: string,
+  timestamp: number
+): VestingPosition {
+  let totalGranted = 0n;
+  let totalVested = 0n;
+  let totalUnvested = 0n;
+  let totalClawedBack = 0n;
+
+  const grants = getVestingGrants(db, companyId, tokenAddress, beneficiary).map(
+    (grant) => {
+      const amount = BigInt(grant.amount);
+      const vested = computeVestedAmount(grant, timestamp);
+      const clawedBack =
+        grant.revokedAt !== null && timestamp >= grant.revokedAt
+          ? BigInt(grant.clawedBackAmount ?? "0")
+          : 0n;
+      // Clawed-back shares were burned, so they are no longer unvested
+      const unvested =
+        grant.revokedAt !== null && timestamp >= grant.revokedAt
+          ? 0n
+          : amount - vested;
+
+      totalGranted += amount;
+      totalVested += vested;
+      totalUnvested += unvested;
+      totalClawedBack += clawedBack;
+
+      return {
+        grantId: grant.grantId,
+        amount: grant.amount,
+        startTime: grant.startTime,
+        cliffTime: grant.startTime + grant.cliffDuration,
+        endTime: grant.startTime + grant.duration,
+        releaseInterval: grant.releaseInterval,
+        revokedAt: grant.revokedAt,
+        vested: vested.toString(),
+        unvested: unvested.toString(),
+        clawedBack: clawedBack.toString(),
+        timeline: getVestingTimeline(grant),
+      };
+    }
+  );
+
+  return {
+    totalGranted: totalGranted.toString(),
+    totalVested: totalVested.toString(),
+    totalUnvested: totalUnvested.toString(),
+    totalClawedBack: totalClawedBack.toString(),
+    grants,
+  };
+}
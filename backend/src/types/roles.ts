@@ -3,10 +3,13 @@
  * @notice Matches contract role definitions in IRoles.sol for consistency
  */
 
+import { keccak256, toBytes, zeroHash, type Hex } from 'viem';
+
 /**
  * User roles in the ChainEquity system
  * - admin: Can manage system-wide settings (off-chain only)
- * - issuer: Can mint and approve wallets (on-chain = owner, off-chain = issuer role)
+ * - issuer: Can mint and approve wallets (off-chain; holders of the matching AccessControl role
+ *   pass that company's guarded routes without this role)
  * - investor: Can hold and transfer tokens (off-chain validation)
  */
 export type UserRole = 'admin' | 'issuer' | 'investor';
@@ -31,5 +34,26 @@ export function isValidRole(role: string): role is UserRole {
   return VALID_ROLES.includes(role as UserRole);
 }
 
+/**
+ * AccessControl roles of ChainEquityToken and CapTable (IRoles.sol), by name
+ * DEFAULT_ADMIN_ROLE is bytes32(0); the others are keccak256 of their name
+ */
+export const ONCHAIN_ROLES = {
+  DEFAULT_ADMIN_ROLE: zeroHash,
+  MINTER_ROLE: keccak256(toBytes('MINTER_ROLE')),
+  COMPLIANCE_ROLE: keccak256(toBytes('COMPLIANCE_ROLE')),
+  CORPORATE_ACTIONS_ROLE: keccak256(toBytes('CORPORATE_ACTIONS_ROLE')),
+  PAUSER_ROLE: keccak256(toBytes('PAUSER_ROLE')),
+} as const;
 
+export type OnchainRoleName = keyof typeof ONCHAIN_ROLES;
 
+/**
+ * Get the name of an on-chain role from its hash
+ * @returns Role name or null for a hash the backend does not know
+ */
+export function getOnchainRoleName(roleHash: Hex | string): OnchainRoleName | null {
+  const hash = roleHash.toLowerCase();
+  const entry = Object.entries(ONCHAIN_ROLES).find(([, value]) => value === hash);
+  return entry ? (entry[0] as OnchainRoleName) : null;
+}
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "./ComplianceModule.sol";
+
+/**
+ * @title AccreditedInvestorModule
+ * @notice Restricts a token (typically a share class) to accredited investors
+ *
+ * @dev The issuer records accreditation per wallet from KYC. Recipients of transfers and mints
+ * must be accredited; holders whose accreditation lapses can still sell.
+ */
+contract AccreditedInvestorModule is ComplianceModule {
+    /// @notice Whether a wallet belongs to an accredited investor
+    mapping(address => bool) public isAccredited;
+
+    /// @notice Emitted when a wallet's accreditation is recorded or withdrawn
+    event AccreditationSet(address indexed token, address indexed wallet, bool accredited);
+
+    /**
+     * @param compliance_ ModularCompliance to bind to
+     */
+    constructor(address compliance_) ComplianceModule(compliance_) {}
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function name() external pure returns (string memory) {
+        return "AccreditedInvestor";
+    }
+
+    /**
+     * @notice Records or withdraws a wallet's accreditation
+     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @param wallet Investor wallet
+     * @param accredited True if the investor is accredited
+     */
+    function setAccredited(address wallet, bool accredited) external onlyOwner {
+        require(wallet != address(0), "AccreditedInvestorModule: wallet cannot be zero address");
+        isAccredited[wallet] = accredited;
+        emit AccreditationSet(token, wallet, accredited);
+    }
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function moduleCheck(address, address to, uint256) external view returns (bool) {
+        return to == address(0) || isAccredited[to];
+    }
+}
@@ -1,7 +1,10 @@
 // SPDX-License-Identifier: UNLICENSED
 pragma solidity ^0.8.24;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./IssuerRoles.sol";
+import "./ITokenReplacement.sol";
+import "./ChainEquityToken.sol";
 
 /**
  * @title CapTable
@@ -9,21 +12,32 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * and maintains a history of corporate actions for cap-table management.
  * 
  * @dev This contract serves as a company registry that links to a ChainEquityToken contract and
- * records corporate actions (splits, symbol changes, etc.). It uses OpenZeppelin's Ownable pattern
- * for access control, where the issuer (owner) is the only address that can link tokens and record
- * corporate actions.
+ * records corporate actions (splits, symbol changes, etc.). It uses OpenZeppelin's Ownable and
+ * AccessControl for access control: the issuer (owner) holds every role and can delegate recording
+ * corporate actions to a corporate actions officer.
  * 
- * @custom:roles Role-based access control:
- * - Owner (issuer role): The contract owner represents the ISSUER role and has exclusive access to
- *   link tokens and record corporate actions. See IRoles.sol for role constant definitions.
- * - Admin role: Admin role is enforced off-chain only (backend). Contracts use simple ownership model
- *   where owner = issuer. Admin vs issuer granularity is managed in the backend database.
+ * @custom:roles Role-based access control (see IRoles.sol and IssuerRoles):
+ * - Owner (issuer role): The contract owner represents the ISSUER role. It holds DEFAULT_ADMIN_ROLE,
+ *   which links the token, and CORPORATE_ACTIONS_ROLE, and can grant the latter to other wallets.
+ * - CORPORATE_ACTIONS_ROLE: record corporate actions, replace the token and add share classes.
+ * - Admin role: Admin role is enforced off-chain only (backend). Admin vs issuer granularity is
+ *   managed in the backend database.
  * 
  * @custom:interaction The CapTable is deployed alongside a ChainEquityToken instance and linked via
  * linkToken(). The issuer should call recordCorporateAction() after executing corporate actions on
- * the linked token contract.
+ * the linked token contract, and replaceToken() to migrate the company to a new token contract.
+ *
+ * @custom:authorized-shares After amending the token's authorized shares, the issuer records an
+ * AUTHORIZED_SHARES_CHANGE corporate action; the recorded amount must match the linked token.
+ *
+ * @custom:share-classes The linked token is the common class (class ID 0). Further classes, such
+ * as preferred series, are separate ChainEquityToken instances registered with addShareClass(),
+ * each with its own authorized shares, liquidation preference, conversion ratio and seniority.
  */
-contract CapTable is Ownable {
+contract CapTable is IssuerRoles, ITokenReplacement {
+    // Role allowed to record corporate actions (see IRoles.sol)
+    bytes32 public constant CORPORATE_ACTIONS_ROLE = Roles.CORPORATE_ACTIONS_ROLE;
+    
     // State variables
     string public name;
     string public symbol;
@@ -35,6 +49,15 @@ contract CapTable is Ownable {
     // Mapping for efficient lookup by ID (preferred over array for gas efficiency)
     mapping(uint256 => CorporateAction) public corporateActionById;
     
+    // Tokens replaced via replaceToken(), oldest first
+    address[] private previousTokens;
+    mapping(address => bool) private isPreviousToken;
+    
+    // Share classes registered via addShareClass(), by ID (IDs start at 1; 0 is the common class)
+    uint256 public shareClassCount;
+    mapping(uint256 => ShareClass) private shareClassById;
+    mapping(address => uint256) public shareClassIdOf;
+    
     /**
      * @notice Struct representing a corporate action record
      * @dev Stores action metadata including type, block information, and encoded data.
@@ -49,6 +72,20 @@ contract CapTable is Ownable {
         bytes data;              // Encoded action-specific data
     }
     
+    /**
+     * @notice Struct representing a share class other than common (e.g., a preferred series)
+     * @dev The class's shares are held in its own ChainEquityToken, whose totalAuthorized is the
+     * class's authorized share count. Ratios use 1e18 precision, like ChainEquityToken.splitFactor.
+     */
+    struct ShareClass {
+        uint256 id;                     // Incremental class ID (starts at 1)
+        string name;                    // Class name (e.g., "Series A Preferred")
+        address token;                  // ChainEquityToken holding the class's shares
+        uint256 liquidationPreference;  // Preference multiple (1e18 = 1x original issue price)
+        uint256 conversionRatio;        // Common shares per class share (1e18 = 1:1)
+        uint256 seniority;              // Liquidation rank, paid highest first (common is 0)
+    }
+    
     // Events
     /// @notice Emitted when a cap table is created
     event CapTableCreated(
@@ -71,10 +108,24 @@ contract CapTable is Ownable {
         uint256 blockNumber
     );
     
+    /// @notice Emitted when a SYMBOL_CHANGE action updates the company symbol
+    event SymbolUpdated(string oldSymbol, string newSymbol);
+    
+    /// @notice Emitted when a share class is registered
+    event ShareClassAdded(
+        uint256 indexed classId,
+        address indexed token,
+        string name,
+        uint256 authorizedShares,
+        uint256 liquidationPreference,
+        uint256 conversionRatio,
+        uint256 seniority
+    );
+    
     /**
      * @notice Deploys a new cap table contract for a company
-     * @dev Initializes the contract with company metadata and sets the deployer as owner.
-     * The nextActionId starts at 1, and the token address is initially unset (address(0)).
+     * @dev Initializes the contract with company metadata and sets the deployer as owner, holding
+     * every role. The nextActionId starts at 1, and the token address is initially unset (address(0)).
      * 
      * @param _name Company name (e.g., "Acme Inc.")
      * @param _symbol Company symbol/ticker (e.g., "ACME")
@@ -98,16 +149,17 @@ contract CapTable is Ownable {
     /**
      * @notice Links a ChainEquityToken contract to this cap table
      * @dev Sets the token address and emits an event. This creates a one-way link from
-     * CapTable to Token. The token address can only be set once to prevent accidental changes.
-     * Only the contract owner (issuer role) can call this function.
+     * CapTable to Token. The token address can only be set once to prevent accidental changes;
+     * use replaceToken() to migrate to a new token. Only DEFAULT_ADMIN_ROLE holders (the issuer)
+     * can call this function.
      * 
-     * @custom:security Only the issuer (owner) can link tokens. The token address must be
+     * @custom:security Only the issuer can link tokens. The token address must be
      * non-zero and cannot be changed after initial linking to prevent unauthorized modifications.
-     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @custom:roles Requires DEFAULT_ADMIN_ROLE (held by the owner).
      * 
      * @param _token Address of the ChainEquityToken contract to link
      */
-    function linkToken(address _token) external onlyOwner {
+    function linkToken(address _token) external onlyRole(DEFAULT_ADMIN_ROLE) {
         require(_token != address(0), "CapTable: token address cannot be zero");
         require(token == address(0), "CapTable: token already linked");
         
@@ -119,32 +171,36 @@ contract CapTable is Ownable {
      * @notice Records a corporate action in the cap table history
      * @dev Creates a new CorporateAction record with an incremental ID and stores it in
      * the mapping. The action ID is assigned before incrementing nextActionId to ensure
-     * consistent indexing. Only the contract owner (issuer role) can record actions.
+     * consistent indexing. Only the corporate actions officer (CORPORATE_ACTIONS_ROLE) can record
+     * actions.
      * 
-     * @custom:security Only the issuer (owner) can record corporate actions. This ensures
+     * @custom:security Only the corporate actions officer can record corporate actions. This ensures
      * that only authorized corporate actions are tracked in the cap table history.
-     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @custom:roles Requires CORPORATE_ACTIONS_ROLE (held by the owner).
      * 
      * @custom:interaction The issuer should call this function after executing corporate
      * actions on the linked ChainEquityToken contract (e.g., after calling executeSplit()
      * or changeSymbol()). The data parameter should contain encoded action-specific
      * information for off-chain indexing and analysis.
      * 
-     * @custom:token-replacement Token Replacement: Token replacement is recorded using
-     * action type "TOKEN_REPLACED" with encoded data containing:
+     * @custom:symbol-change Symbol Change: Recording action type "SYMBOL_CHANGE" with the new
+     * symbol ABI-encoded as data (`abi.encode(newSymbol)`) also updates `symbol`, keeping the
+     * registry in sync with ChainEquityToken.symbol() after changeSymbol(), and emits SymbolUpdated.
+     * 
+     * @custom:authorized-shares Authorized Shares Change: Record action type "AUTHORIZED_SHARES_CHANGE"
+     * after ChainEquityToken.increaseAuthorizedShares() or decreaseAuthorizedShares(), with
+     * `abi.encode(oldAuthorized, newAuthorized)` as data. newAuthorized must equal the linked token's
+     * current totalAuthorized, so the record cannot disagree with the amendment it documents.
+     * 
+     * @custom:token-replacement Token Replacement: Use replaceToken(), which switches the linked
+     * token and records action type "TOKEN_REPLACED" with encoded data containing:
      * - oldTokenAddress (address): Address of the old token contract being replaced
      * - newTokenAddress (address): Address of the new token contract
      * - migrationBlockNumber (uint256): Block number when migration snapshot was taken
      * 
-     * Example:
-     * ```solidity
-     * bytes memory data = abi.encode(oldToken, newToken, block.number);
-     * recordCorporateAction("TOKEN_REPLACED", data);
-     * ```
-     * 
-     * This emits a CorporateActionRecorded event that indexers can process to track
-     * token replacements. The old token contract remains on-chain for historical queries,
-     * while the new token becomes the active token for current operations.
+     * replaceToken() also emits TokenReplaced, which indexers use to switch to the new token.
+     * The old token contract remains on-chain for historical queries, while the new token
+     * becomes the active token for current operations.
      * 
      * See docs/token-replacement.md for complete replacement guide and
      * docs/migration-workflow.md for step-by-step migration instructions.
@@ -155,7 +211,132 @@ contract CapTable is Ownable {
     function recordCorporateAction(
         string memory _actionType,
         bytes memory _data
-    ) external onlyOwner {
+    ) external onlyRole(CORPORATE_ACTIONS_ROLE) {
+        _recordCorporateAction(_actionType, _data);
+    }
+    
+    /**
+     * @notice Replaces the linked token with a new ChainEquityToken
+     * @dev Switches `token` to the replacement, keeps the old address in the previous tokens
+     * list, records a TOKEN_REPLACED corporate action and emits TokenReplaced. The replacement
+     * must be owned by the issuer and have nothing minted yet: migrated balances are minted after
+     * this call, so indexers that switch at TokenReplaced see every mint on the new token.
+     * 
+     * @custom:security Only the corporate actions officer can replace the token. Old tokens cannot be
+     * linked again, so history for each token address has a single active range.
+     * @custom:roles Requires CORPORATE_ACTIONS_ROLE (held by the owner).
+     * 
+     * @param newToken Address of the replacement ChainEquityToken
+     * @param migrationBlockNumber Block at which the old token's balances were snapshotted
+     */
+    function replaceToken(
+        address newToken,
+        uint256 migrationBlockNumber
+    ) external override onlyRole(CORPORATE_ACTIONS_ROLE) {
+        require(token != address(0), "CapTable: token must be linked before replacing");
+        require(newToken != address(0), "CapTable: token address cannot be zero");
+        require(newToken != token, "CapTable: new token must differ from current token");
+        require(!isPreviousToken[newToken], "CapTable: token was already replaced");
+        require(shareClassIdOf[newToken] == 0, "CapTable: new token is a share class");
+        require(migrationBlockNumber <= block.number, "CapTable: migration block cannot be in the future");
+        require(Ownable(newToken).owner() == owner(), "CapTable: new token must be owned by the issuer");
+        require(IERC20(newToken).totalSupply() == 0, "CapTable: new token must not have minted shares");
+        
+        address oldToken = token;
+        previousTokens.push(oldToken);
+        isPreviousToken[oldToken] = true;
+        token = newToken;
+        
+        _recordCorporateAction(
+            "TOKEN_REPLACED",
+            abi.encode(oldToken, newToken, migrationBlockNumber)
+        );
+        emit TokenReplaced(oldToken, newToken, migrationBlockNumber);
+    }
+    
+    /**
+     * @notice Returns every token that has been replaced, oldest first
+     * @return address[] Replaced token addresses
+     */
+    function getPreviousTokens() external view override returns (address[] memory) {
+        return previousTokens;
+    }
+    
+    /**
+     * @notice Registers a ChainEquityToken as a new share class of the company
+     * @dev Records a SHARE_CLASS_ADDED corporate action (`abi.encode(classId, token)`) and emits
+     * ShareClassAdded. The class token must be owned by the issuer and have nothing minted yet, so
+     * indexers that start tracking it at ShareClassAdded see every issuance of the class.
+     * 
+     * @custom:security Only the corporate actions officer can add share classes. The common token, replaced
+     * tokens and tokens already registered as a class cannot be registered.
+     * @custom:roles Requires CORPORATE_ACTIONS_ROLE (held by the owner).
+     * 
+     * @param _name Class name (e.g., "Series A Preferred")
+     * @param _token ChainEquityToken holding the class's shares
+     * @param liquidationPreference Preference multiple in 1e18 precision (e.g., 1e18 for 1x)
+     * @param conversionRatio Common shares per class share in 1e18 precision (must be > 0)
+     * @param seniority Liquidation rank, paid highest first (must be > 0; common is 0)
+     * @return classId ID of the new share class
+     */
+    function addShareClass(
+        string memory _name,
+        address _token,
+        uint256 liquidationPreference,
+        uint256 conversionRatio,
+        uint256 seniority
+    ) external onlyRole(CORPORATE_ACTIONS_ROLE) returns (uint256 classId) {
+        require(bytes(_name).length > 0, "CapTable: class name cannot be empty");
+        require(_token != address(0), "CapTable: token address cannot be zero");
+        require(_token != token && !isPreviousToken[_token], "CapTable: token is a common token");
+        require(shareClassIdOf[_token] == 0, "CapTable: token is already a share class");
+        require(conversionRatio > 0, "CapTable: conversion ratio must be > 0");
+        require(seniority > 0, "CapTable: seniority must be > 0");
+        require(Ownable(_token).owner() == owner(), "CapTable: class token must be owned by the issuer");
+        require(IERC20(_token).totalSupply() == 0, "CapTable: class token must not have minted shares");
+        
+        shareClassCount++;
+        classId = shareClassCount;
+        shareClassById[classId] = ShareClass({
+            id: classId,
+            name: _name,
+            token: _token,
+            liquidationPreference: liquidationPreference,
+            conversionRatio: conversionRatio,
+            seniority: seniority
+        });
+        shareClassIdOf[_token] = classId;
+        
+        _recordCorporateAction("SHARE_CLASS_ADDED", abi.encode(classId, _token));
+        emit ShareClassAdded(
+            classId,
+            _token,
+            _name,
+            ChainEquityToken(_token).totalAuthorized(),
+            liquidationPreference,
+            conversionRatio,
+            seniority
+        );
+    }
+    
+    /**
+     * @notice Returns a share class by ID
+     * @param id The class ID to query (1 to shareClassCount)
+     * @return ShareClass struct containing class details
+     */
+    function getShareClass(uint256 id) external view returns (ShareClass memory) {
+        require(id > 0 && id <= shareClassCount, "CapTable: invalid share class ID");
+        return shareClassById[id];
+    }
+    
+    /**
+     * @notice Stores a corporate action record and emits CorporateActionRecorded
+     * @dev Shared by recordCorporateAction() and replaceToken(). SYMBOL_CHANGE actions also
+     * update the company symbol; AUTHORIZED_SHARES_CHANGE actions are checked against the token.
+     * @param _actionType Type of corporate action
+     * @param _data Encoded action-specific data
+     */
+    function _recordCorporateAction(string memory _actionType, bytes memory _data) internal {
         require(bytes(_actionType).length > 0, "CapTable: action type cannot be empty");
         require(token != address(0), "CapTable: token must be linked before recording actions");
         
@@ -173,6 +354,21 @@ contract CapTable is Ownable {
         corporateActionById[actionId] = action;
         corporateActionCount++;
         
+        if (keccak256(bytes(_actionType)) == keccak256(bytes("SYMBOL_CHANGE"))) {
+            string memory newSymbol = abi.decode(_data, (string));
+            require(bytes(newSymbol).length > 0, "CapTable: symbol cannot be empty");
+            
+            string memory oldSymbol = symbol;
+            symbol = newSymbol;
+            emit SymbolUpdated(oldSymbol, newSymbol);
+        } else if (keccak256(bytes(_actionType)) == keccak256(bytes("AUTHORIZED_SHARES_CHANGE"))) {
+            (, uint256 newAuthorized) = abi.decode(_data, (uint256, uint256));
+            require(
+                newAuthorized == ChainEquityToken(token).totalAuthorized(),
+                "CapTable: authorized shares do not match token"
+            );
+        }
+        
         emit CorporateActionRecorded(actionId, _actionType, block.number);
     }
     
@@ -227,5 +423,12 @@ contract CapTable is Ownable {
     ) {
         return (name, symbol, owner(), token, createdAt);
     }
+    
+    /**
+     * @notice Roles held by the owner besides DEFAULT_ADMIN_ROLE (see IssuerRoles)
+     */
+    function _issuerRoles() internal pure override returns (bytes32[] memory roles) {
+        roles = new bytes32[](1);
+        roles[0] = CORPORATE_ACTIONS_ROLE;
+    }
 }
-
@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./CapTable.sol";
+import "./ChainEquityToken.sol";
+import "./ChainEquityTokenDeployer.sol";
+
+/**
+ * @title CapTableFactory
+ * @notice Deploys and links a ChainEquityToken + CapTable pair for a new company in one transaction.
+ *
+ * @dev The factory deploys both contracts (becoming their initial owner), links the token to the
+ * cap table, then transfers ownership of both to the company's issuer. Tokens are deployed through
+ * a ChainEquityTokenDeployer, which keeps the factory within the contract size limit. Every company it creates is
+ * kept in an on-chain registry and announced with CompanyCreated, which the backend indexes to
+ * register new companies without a configuration change.
+ *
+ * @custom:roles Role-based access control:
+ * - Owner (platform admin): Only the factory owner can create companies, so the backend only
+ *   discovers companies created by the platform.
+ * - Issuer: Receives ownership of the created token and cap table, and with it every role on
+ *   both (see IssuerRoles). The factory keeps none.
+ *
+ * @custom:interaction CapTable emits CapTableCreated with the factory as issuer, since the factory
+ * deploys it; the actual issuer is the `issuer` of CompanyCreated (and both contracts' owner()).
+ */
+contract CapTableFactory is Ownable {
+    /// @notice Deployer used to create company tokens
+    ChainEquityTokenDeployer public immutable tokenDeployer;
+
+    // Cap tables created by this factory, oldest first
+    address[] private capTables;
+
+    /// @notice Emitted when a company's token and cap table are deployed and linked
+    event CompanyCreated(
+        address indexed capTable,
+        address indexed token,
+        address indexed issuer,
+        string name,
+        string symbol
+    );
+
+    /**
+     * @notice Deploys the factory with the deployer as owner (platform admin)
+     * @param tokenDeployer_ ChainEquityTokenDeployer used to create company tokens
+     */
+    constructor(address tokenDeployer_) Ownable(msg.sender) {
+        require(tokenDeployer_ != address(0), "CapTableFactory: token deployer cannot be zero address");
+        tokenDeployer = ChainEquityTokenDeployer(tokenDeployer_);
+    }
+
+    /**
+     * @notice Deploys a token and cap table for a new company and links them
+     * @dev Ownership of both contracts is transferred to `issuer` after linking, so the issuer
+     * can mint, approve wallets and record corporate actions straight away.
+     *
+     * @custom:roles Requires the factory owner (platform admin).
+     *
+     * @param name Company name (e.g., "Acme Inc.")
+     * @param symbol Company and token symbol (e.g., "ACME")
+     * @param tokenName Token name (e.g., "Acme Inc. Equity")
+     * @param totalAuthorized Total authorized shares (in token units, e.g., 1_000_000 * 1e18)
+     * @param issuer Address that will own the token and cap table
+     * @return capTable Address of the deployed CapTable
+     * @return token Address of the deployed ChainEquityToken
+     */
+    function createCompany(
+        string calldata name,
+        string calldata symbol,
+        string calldata tokenName,
+        uint256 totalAuthorized,
+        address issuer
+    ) external onlyOwner returns (address capTable, address token) {
+        require(issuer != address(0), "CapTableFactory: issuer cannot be zero address");
+
+        ChainEquityToken newToken = ChainEquityToken(
+            tokenDeployer.deploy(tokenName, symbol, totalAuthorized)
+        );
+        CapTable newCapTable = new CapTable(name, symbol);
+        newCapTable.linkToken(address(newToken));
+
+        newToken.transferOwnership(issuer);
+        newCapTable.transferOwnership(issuer);
+
+        capTable = address(newCapTable);
+        token = address(newToken);
+        capTables.push(capTable);
+
+        emit CompanyCreated(capTable, token, issuer, name, symbol);
+    }
+
+    /**
+     * @notice Returns the number of companies created by this factory
+     * @return uint256 Company count
+     */
+    function getCompanyCount() external view returns (uint256) {
+        return capTables.length;
+    }
+
+    /**
+     * @notice Returns every cap table created by this factory, oldest first
+     * @return address[] Cap table addresses
+     */
+    function getCapTables() external view returns (address[] memory) {
+        return capTables;
+    }
+}
@@ -2,7 +2,11 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "./IssuerRoles.sol";
+import "./IERC1404.sol";
+import "./ICompliance.sol";
 
 /**
  * @title ChainEquityToken
@@ -11,28 +15,129 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * @dev This contract implements a tokenized security instrument that enables on-chain cap-table
  * management for private companies. It uses an allowlist-based transfer restriction system to
  * enforce compliance (KYC/AML) requirements. The contract supports corporate actions including
- * virtual stock splits and symbol changes, with issuer-controlled minting and wallet approvals.
- * Built on OpenZeppelin v5's ERC20 and Ownable patterns for security and standardization.
+ * virtual stock splits and symbol changes, with issuer-controlled minting, redemption and wallet approvals.
+ * Built on OpenZeppelin v5's ERC20, Pausable, Ownable and AccessControl for security and standardization.
+ *
+ * @custom:vesting Shares issued with grantVested() are minted to the beneficiary straight away but
+ * stay locked until they vest (cliff, then linear or graded release). Locked shares count towards
+ * the holder's balance and the cap table; only transfers are limited to the vested part.
+ *
+ * @custom:lockups Transfers out of a wallet are blocked until the later of the company-wide lock-up
+ * (e.g. post-IPO) and the wallet's own lock-up. With a holding period set, every issuance extends
+ * the recipient's lock-up to issuance time + holding period (Rule 144-style); the lock-up is per
+ * wallet, so newly issued shares also hold back shares the wallet acquired earlier.
+ *
+ * @custom:restrictions detectTransferRestriction() evaluates the same rules _update() enforces on
+ * transfers and returns one of the restriction codes below; a rejected transfer reverts with the
+ * code's messageForTransferRestriction(), so the revert reason and the pre-check always agree.
+ *
+ * @custom:compliance With a compliance contract set (see ModularCompliance), every transfer and
+ * mint must also pass its canTransfer() check, and every balance change is reported to it so
+ * stateful rules such as a holder count stay in sync. Burns are reported but never blocked.
+ *
+ * @custom:recovery The issuer can move shares without the holder's signature: forcedTransfer()
+ * (e.g. a court order) and recoverWallet() for an investor who lost their key. Both bypass the
+ * transfer restrictions and log a reason code. The backend only lets the issuer recover a wallet
+ * once an admin has approved the investor's recovery request.
+ *
+ * @custom:pause pause() is the emergency stop: while paused no shares move (transfers, mints,
+ * vesting grants, redemptions and clawbacks revert) and no split can be executed, until unpause().
+ * Forced transfers and wallet recoveries stay available so the issuer can remediate while paused.
+ *
+ * @custom:authorized-shares totalAuthorized is set at deployment and amended with
+ * increaseAuthorizedShares() and decreaseAuthorizedShares() once shareholders approve a charter
+ * amendment (off-chain). The issuer then records an AUTHORIZED_SHARES_CHANGE corporate action on the
+ * CapTable, so the company's corporate action history includes every amendment.
+ *
+ * @custom:merkle-allowlist Instead of one approveWallet() storage write per investor, the issuer can
+ * publish a Merkle root of approved wallets with setAllowlistRoot(). Wallets in the tree are
+ * approved in transferWithProof() and mintWithProof(), which take the wallets' proofs (the backend
+ * serves them); plain transfer() and mint() only consult the allowlist mapping. Publishing a new
+ * root revokes every wallet it leaves out, and both modes can be used side by side.
  * 
- * @custom:roles Role-based access control:
- * - Owner (issuer role): The contract owner represents the ISSUER role and has exclusive access to
- *   mint tokens, approve/revoke wallets, execute splits, change symbols, and manage transfer restrictions.
- *   See IRoles.sol for role constant definitions.
+ * @custom:roles Role-based access control (see IRoles.sol and IssuerRoles):
+ * - Owner (issuer role): The contract owner represents the ISSUER role. It holds DEFAULT_ADMIN_ROLE
+ *   and every role below, and grants or revokes them to delegate issuer functions.
+ * - MINTER_ROLE: mint (single or batch), grant vested, claw back and redeem shares.
+ * - COMPLIANCE_ROLE (compliance officer): approve (single or batch)/revoke wallets, the Merkle
+ *   allowlist root, transfer restrictions, lock-ups,
+ *   the compliance contract, forced transfers and wallet recovery.
+ * - CORPORATE_ACTIONS_ROLE: splits, name/symbol changes and authorized share amendments.
+ * - PAUSER_ROLE: pause and unpause all token movements.
  * - Investor role: Investor role validation is handled off-chain via the backend. On-chain, investors
  *   are represented by approved wallets in the allowlist. The backend validates investor permissions
  *   for API access and enforces role-based restrictions on business logic.
- * - Admin role: Admin role is enforced off-chain only (backend). Contracts use simple ownership model
- *   where owner = issuer. Admin vs issuer granularity is managed in the backend database.
+ * - Admin role: Admin role is enforced off-chain only (backend). The backend indexes RoleGranted and
+ *   RoleRevoked per company; a guarded route also admits a holder of the role it needs (e.g.
+ *   MINTER_ROLE for issuance) on that company's token or cap table only.
  */
-contract ChainEquityToken is ERC20, Ownable {
+contract ChainEquityToken is ERC20, Pausable, IssuerRoles, IERC1404 {
+    // ERC-1404 restriction codes, in the order _update() checks them (TOKEN_PAUSED first)
+    uint8 public constant SUCCESS = 0;
+    uint8 public constant SENDER_NOT_APPROVED = 1;
+    uint8 public constant RECIPIENT_NOT_APPROVED = 2;
+    uint8 public constant SENDER_LOCKED_UP = 3;
+    uint8 public constant EXCEEDS_VESTED_BALANCE = 4;
+    uint8 public constant COMPLIANCE_CHECK_FAILED = 5;
+    uint8 public constant TOKEN_PAUSED = 6;
+    
+    // Roles gating the issuer functions (see IRoles.sol)
+    bytes32 public constant MINTER_ROLE = Roles.MINTER_ROLE;
+    bytes32 public constant COMPLIANCE_ROLE = Roles.COMPLIANCE_ROLE;
+    bytes32 public constant CORPORATE_ACTIONS_ROLE = Roles.CORPORATE_ACTIONS_ROLE;
+    bytes32 public constant PAUSER_ROLE = Roles.PAUSER_ROLE;
+    
+    // Reason codes of forced transfers and wallet recoveries
+    uint8 public constant REASON_LOST_WALLET = 1;
+    uint8 public constant REASON_COURT_ORDER = 2;
+    uint8 public constant REASON_REGULATORY_ACTION = 3;
+    uint8 public constant REASON_ERROR_CORRECTION = 4;
+    
     // State variables
     bool public transfersRestricted;
-    uint256 public splitFactor; // Uses 1e18 precision (1e18 = 1x, 7e18 = 7x)
+    uint256 public splitFactor; // Uses 1e18 precision (1e18 = 1x, 7e18 = 7x, 1e17 = 1-for-10)
     uint256 public totalAuthorized;
     
+    // Current token metadata returned by name()/symbol(); changeable by the issuer
+    string private _tokenName;
+    string private _tokenSymbol;
+    
     // Allowlist mapping
     mapping(address => bool) public allowlist;
     
+    // Merkle root of approved wallets (bytes32(0) = none); see @custom:merkle-allowlist
+    bytes32 public allowlistRoot;
+    
+    // Vesting grants by ID (IDs start at 1) and each beneficiary's grant IDs
+    uint256 public vestingGrantCount;
+    mapping(uint256 => VestingGrant) private vestingGrants;
+    mapping(address => uint256[]) private vestingGrantIds;
+    
+    // Lock-ups (unix seconds; 0 = none) and the holding period applied to new issuances (seconds)
+    uint64 public globalLockupUntil;
+    uint64 public holdingPeriod;
+    mapping(address => uint64) public lockupUntil;
+    
+    // Compliance consulted on every transfer and mint (address(0) = none)
+    ICompliance public compliance;
+    
+    /**
+     * @notice Struct representing a vesting grant
+     * @dev Nothing vests before start + cliffDuration. From then on the vested amount is
+     * amount * elapsed / duration, with elapsed rounded down to whole release intervals
+     * (releaseInterval = 1 is linear, e.g. 30 days is graded monthly), until everything
+     * has vested at start + duration. A revoked grant stops vesting at revokedAt.
+     */
+    struct VestingGrant {
+        address beneficiary;     // Holder the shares were minted to
+        uint256 amount;          // Shares granted (base units)
+        uint64 start;            // Vesting start (unix seconds, may be in the past)
+        uint64 cliffDuration;    // Seconds after start before anything vests
+        uint64 duration;         // Seconds after start until fully vested
+        uint64 releaseInterval;  // Seconds per vesting step (1 = linear)
+        uint64 revokedAt;        // Revocation time (0 while the grant is active)
+    }
+    
     // Events
     /// @notice Emitted when a wallet is approved for transfers (KYC completion)
     event WalletApproved(address indexed issuer, address indexed wallet);
@@ -40,9 +145,15 @@ contract ChainEquityToken is ERC20, Ownable {
     /// @notice Emitted when a wallet's approval is revoked
     event WalletRevoked(address indexed issuer, address indexed wallet);
     
+    /// @notice Emitted when the issuer publishes a new Merkle root of approved wallets
+    event AllowlistRootUpdated(bytes32 oldRoot, bytes32 newRoot);
+    
     /// @notice Emitted when new tokens are minted to a shareholder
     event Issued(address indexed to, uint256 amount);
     
+    /// @notice Emitted when the issuer redeems (cancels) a shareholder's tokens
+    event Redeemed(address indexed from, uint256 amount);
+    
     /// @notice Emitted when a stock split is executed
     event SplitExecuted(
         uint256 indexed oldFactor,
@@ -50,19 +161,67 @@ contract ChainEquityToken is ERC20, Ownable {
         uint256 blockNumber
     );
     
-    /// @notice Emitted when the token symbol is changed (via event, actual symbol requires redeployment)
+    /// @notice Emitted when the token symbol is changed
     event SymbolChanged(string oldSymbol, string newSymbol);
     
+    /// @notice Emitted when the token name is changed
+    event NameChanged(string oldName, string newName);
+    
     /// @notice Emitted upon contract deployment
     event Deployed(string name, string symbol, uint256 totalAuthorized);
     
+    /// @notice Emitted when an amendment increases or decreases the authorized shares
+    event AuthorizedSharesChanged(uint256 oldAuthorized, uint256 newAuthorized);
+    
     /// @notice Emitted when transfer restrictions are enabled or disabled
     event TransfersRestrictedChanged(bool restricted);
     
+    /// @notice Emitted when shares are issued on a vesting schedule
+    event VestingGrantCreated(
+        uint256 indexed grantId,
+        address indexed beneficiary,
+        uint256 amount,
+        uint64 start,
+        uint64 cliffDuration,
+        uint64 duration,
+        uint64 releaseInterval
+    );
+    
+    /// @notice Emitted when the issuer terminates a grant and claws back its unvested shares
+    event VestingGrantRevoked(
+        uint256 indexed grantId,
+        address indexed beneficiary,
+        uint256 vestedAmount,
+        uint256 clawedBackAmount
+    );
+    
+    /// @notice Emitted when the issuer sets the company-wide lock-up (0 lifts it)
+    event GlobalLockupSet(uint64 until);
+    
+    /// @notice Emitted when a wallet's lock-up changes, set by the issuer or extended by an issuance
+    event LockupSet(address indexed wallet, uint64 until);
+    
+    /// @notice Emitted when the issuer changes the holding period applied to new issuances
+    event HoldingPeriodSet(uint64 period);
+    
+    /// @notice Emitted when the compliance contract is set or removed
+    event ComplianceSet(address indexed compliance);
+    
+    /// @notice Emitted when the issuer moves shares without the holder's consent
+    event ForcedTransfer(address indexed from, address indexed to, uint256 amount, uint8 reasonCode);
+    
+    /// @notice Emitted when the issuer moves a lost wallet's shares, approval and lock-ups to a new wallet
+    event WalletRecovered(
+        address indexed lostWallet,
+        address indexed newWallet,
+        uint256 amount,
+        uint8 reasonCode
+    );
+    
     /**
      * @notice Deploys a new tokenized equity contract for a company
-     * @dev Initializes the contract with company metadata and sets the deployer as owner.
-     * Transfer restrictions are enabled by default, and split factor is set to 1x (1e18).
+     * @dev Initializes the contract with company metadata and sets the deployer as owner, holding
+     * every role. Transfer restrictions are enabled by default, and split factor is set to 1x (1e18).
      * @param name Token name (e.g., "Acme Inc. Equity")
      * @param symbol Token symbol (e.g., "ACME")
      * @param _totalAuthorized Total authorized shares (in token units, e.g., 1_000_000 * 1e18)
@@ -75,6 +234,8 @@ contract ChainEquityToken is ERC20, Ownable {
         require(_totalAuthorized > 0, "ChainEquityToken: totalAuthorized must be > 0");
         
         totalAuthorized = _totalAuthorized;
+        _tokenName = name;
+        _tokenSymbol = symbol;
         transfersRestricted = true;
         splitFactor = 1e18; // 1x baseline
         
@@ -84,15 +245,15 @@ contract ChainEquityToken is ERC20, Ownable {
     /**
      * @notice Approves a wallet for token transfers (KYC/AML compliance)
      * @dev Adds the wallet to the allowlist, enabling it to receive and send tokens.
-     * Only the contract owner (issuer role) can approve wallets. This function is idempotent-safe
+     * Only the compliance officer (COMPLIANCE_ROLE) can approve wallets. This function is idempotent-safe
      * and will revert if the wallet is already approved.
      * @custom:security This function enforces compliance by requiring issuer approval before
      * any wallet can participate in transfers. The allowlist mechanism is the core compliance
      * gating system for this tokenized security.
-     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
      * @param wallet Address to approve for transfers
      */
-    function approveWallet(address wallet) external onlyOwner {
+    function approveWallet(address wallet) external onlyRole(COMPLIANCE_ROLE) {
         require(wallet != address(0), "ChainEquityToken: cannot approve zero address");
         require(!allowlist[wallet], "ChainEquityToken: wallet already approved");
         
@@ -100,14 +261,35 @@ contract ChainEquityToken is ERC20, Ownable {
         emit WalletApproved(msg.sender, wallet);
     }
     
+    /**
+     * @notice Approves several wallets for token transfers in one transaction
+     * @dev Batch form of approveWallet() for onboarding a funding round. Wallets that are already
+     * approved are skipped instead of reverting, so a list can be resubmitted after a partial run.
+     * Emits WalletApproved for every newly approved wallet.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
+     * @param wallets Addresses to approve (must not be empty or contain the zero address)
+     */
+    function batchApprove(address[] calldata wallets) external onlyRole(COMPLIANCE_ROLE) {
+        require(wallets.length > 0, "ChainEquityToken: empty batch");
+        
+        for (uint256 i = 0; i < wallets.length; i++) {
+            address wallet = wallets[i];
+            require(wallet != address(0), "ChainEquityToken: cannot approve zero address");
+            if (!allowlist[wallet]) {
+                allowlist[wallet] = true;
+                emit WalletApproved(msg.sender, wallet);
+            }
+        }
+    }
+    
     /**
      * @notice Revokes a wallet's approval, preventing future transfers
      * @dev Removes the wallet from the allowlist. The wallet retains its current balance
-     * but cannot send or receive tokens until re-approved. Only the contract owner (issuer role) can revoke.
-     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * but cannot send or receive tokens until re-approved. Only the compliance officer can revoke.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
      * @param wallet Address to revoke approval from
      */
-    function revokeWallet(address wallet) external onlyOwner {
+    function revokeWallet(address wallet) external onlyRole(COMPLIANCE_ROLE) {
         require(allowlist[wallet], "ChainEquityToken: wallet not approved");
         
         allowlist[wallet] = false;
@@ -124,22 +306,362 @@ contract ChainEquityToken is ERC20, Ownable {
         return allowlist[wallet];
     }
     
+    /**
+     * @notice Publishes the Merkle root of approved wallets
+     * @dev Leaves are keccak256(bytes.concat(keccak256(abi.encode(wallet)))) and pairs are hashed in
+     * sorted order (OpenZeppelin MerkleProof). Wallets left out of the new root are no longer
+     * approved through a proof; bytes32(0) turns Merkle approvals off. Only the compliance officer
+     * can publish a root.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
+     * @param newRoot Root of the tree of approved wallets
+     */
+    function setAllowlistRoot(bytes32 newRoot) external onlyRole(COMPLIANCE_ROLE) {
+        require(newRoot != allowlistRoot, "ChainEquityToken: allowlist root unchanged");
+        
+        emit AllowlistRootUpdated(allowlistRoot, newRoot);
+        allowlistRoot = newRoot;
+    }
+    
+    /**
+     * @notice Checks if a wallet is approved in the allowlist mapping or by a Merkle proof
+     * @param wallet Address to check approval status for
+     * @param proof Proof of the wallet against allowlistRoot (ignored if the mapping approves it)
+     * @return bool True if the wallet is approved, false otherwise
+     */
+    function isApprovedWithProof(address wallet, bytes32[] calldata proof) public view returns (bool) {
+        if (allowlist[wallet]) return true;
+        if (allowlistRoot == bytes32(0)) return false;
+        
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(wallet))));
+        return MerkleProof.verifyCalldata(proof, allowlistRoot, leaf);
+    }
+    
+    /**
+     * @notice Transfers tokens, approving sender and recipient by Merkle proof where needed
+     * @dev Same as transfer(), except that a wallet in the published allowlist tree counts as
+     * approved without being in the allowlist mapping. Every other restriction still applies.
+     * @param to Recipient address
+     * @param amount Amount of tokens to transfer
+     * @param fromProof Proof of the sender (empty if the mapping approves it)
+     * @param toProof Proof of the recipient (empty if the mapping approves it)
+     * @return bool True on success
+     */
+    function transferWithProof(
+        address to,
+        uint256 amount,
+        bytes32[] calldata fromProof,
+        bytes32[] calldata toProof
+    ) external returns (bool) {
+        if (to == address(0)) {
+            revert ERC20InvalidReceiver(address(0));
+        }
+        _move(msg.sender, to, amount, isApprovedWithProof(msg.sender, fromProof), isApprovedWithProof(to, toProof));
+        return true;
+    }
+    
     /**
      * @notice Mints new tokens to an approved wallet (share issuance)
      * @dev Creates new tokens and assigns them to a wallet that must be pre-approved.
-     * The total supply cannot exceed the authorized amount set at deployment.
-     * Only the contract owner (issuer role) can mint tokens.
-     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * The total supply cannot exceed the authorized amount (see increaseAuthorizedShares).
+     * Only minters (MINTER_ROLE) can mint tokens.
+     * @custom:roles Requires MINTER_ROLE (held by the owner).
      * @param to Address to mint tokens to (must be approved)
      * @param amount Amount of tokens to mint (in base token units with 18 decimals)
      */
-    function mint(address to, uint256 amount) external onlyOwner {
+    function mint(address to, uint256 amount) external onlyRole(MINTER_ROLE) {
+        _issue(to, amount, allowlist[to]);
+    }
+    
+    /**
+     * @notice Mints new tokens to a wallet approved by Merkle proof
+     * @dev Same as mint(), except that a wallet in the published allowlist tree counts as approved
+     * without being in the allowlist mapping.
+     * @custom:roles Requires MINTER_ROLE (held by the owner).
+     * @param to Address to mint tokens to (approved in the mapping or the tree)
+     * @param amount Amount of tokens to mint (in base token units with 18 decimals)
+     * @param proof Proof of the recipient against allowlistRoot
+     */
+    function mintWithProof(address to, uint256 amount, bytes32[] calldata proof) external onlyRole(MINTER_ROLE) {
+        _issue(to, amount, isApprovedWithProof(to, proof));
+    }
+    
+    /**
+     * @notice Mints shares to several approved wallets in one transaction
+     * @dev Batch form of mint(): each row is issued like mint() (Issued event, holding period),
+     * and the whole batch reverts if any recipient is not approved or the batch total exceeds
+     * the authorized supply.
+     * @custom:roles Requires MINTER_ROLE (held by the owner).
+     * @param recipients Addresses to mint tokens to (must be approved)
+     * @param amounts Amount for each recipient (in base token units with 18 decimals)
+     */
+    function batchMint(address[] calldata recipients, uint256[] calldata amounts) external onlyRole(MINTER_ROLE) {
+        require(recipients.length > 0, "ChainEquityToken: empty batch");
+        require(recipients.length == amounts.length, "ChainEquityToken: length mismatch");
+        
+        for (uint256 i = 0; i < recipients.length; i++) {
+            _issue(recipients[i], amounts[i], allowlist[recipients[i]]);
+        }
+    }
+    
+    /**
+     * @notice Mints shares to an approved wallet on a vesting schedule
+     * @dev The shares are issued like mint() (Issued event, authorized supply check) and locked
+     * until they vest; see VestingGrant for the schedule. The issuer can terminate the grant
+     * with revokeVestingGrant().
+     * @custom:roles Requires MINTER_ROLE (held by the owner).
+     * @param to Beneficiary (must be approved)
+     * @param amount Shares granted (in base token units with 18 decimals, must be > 0)
+     * @param start Vesting start (unix seconds)
+     * @param cliffDuration Seconds after start before anything vests (at most duration)
+     * @param duration Seconds after start until fully vested (must be > 0)
+     * @param releaseInterval Seconds per vesting step: 1 for linear, larger for graded (at most duration)
+     * @return grantId ID of the new grant
+     */
+    function grantVested(
+        address to,
+        uint256 amount,
+        uint64 start,
+        uint64 cliffDuration,
+        uint64 duration,
+        uint64 releaseInterval
+    ) external onlyRole(MINTER_ROLE) returns (uint256 grantId) {
+        require(amount > 0, "ChainEquityToken: grant amount must be > 0");
+        require(duration > 0, "ChainEquityToken: vesting duration must be > 0");
+        require(cliffDuration <= duration, "ChainEquityToken: cliff exceeds vesting duration");
+        require(
+            releaseInterval > 0 && releaseInterval <= duration,
+            "ChainEquityToken: invalid release interval"
+        );
+        
+        _issue(to, amount, allowlist[to]);
+        
+        grantId = ++vestingGrantCount;
+        vestingGrants[grantId] = VestingGrant({
+            beneficiary: to,
+            amount: amount,
+            start: start,
+            cliffDuration: cliffDuration,
+            duration: duration,
+            releaseInterval: releaseInterval,
+            revokedAt: 0
+        });
+        vestingGrantIds[to].push(grantId);
+        
+        emit VestingGrantCreated(grantId, to, amount, start, cliffDuration, duration, releaseInterval);
+    }
+    
+    /**
+     * @notice Terminates a vesting grant early and claws back its unvested shares
+     * @dev Shares vested so far stay with the beneficiary (and unlock); the unvested rest is
+     * burned with a Redeemed event, freeing authorized headroom. If the issuer already redeemed
+     * part of the beneficiary's balance, at most the remaining balance is clawed back.
+     * @custom:roles Requires MINTER_ROLE (held by the owner).
+     * @param grantId The grant to revoke
+     */
+    function revokeVestingGrant(uint256 grantId) external onlyRole(MINTER_ROLE) {
+        VestingGrant storage grant = vestingGrants[grantId];
+        require(grant.beneficiary != address(0), "ChainEquityToken: invalid grant ID");
+        require(grant.revokedAt == 0, "ChainEquityToken: grant already revoked");
+        
+        uint256 vested = _vestedAmount(grant, block.timestamp);
+        grant.revokedAt = uint64(block.timestamp);
+        
+        uint256 clawback = grant.amount - vested;
+        if (clawback > balanceOf(grant.beneficiary)) {
+            clawback = balanceOf(grant.beneficiary);
+        }
+        if (clawback > 0) {
+            _burn(grant.beneficiary, clawback);
+            emit Redeemed(grant.beneficiary, clawback);
+        }
+        
+        emit VestingGrantRevoked(grantId, grant.beneficiary, vested, clawback);
+    }
+    
+    /**
+     * @notice Returns a vesting grant by ID
+     * @param grantId The grant ID to query (1 to vestingGrantCount)
+     * @return VestingGrant struct containing the grant's schedule
+     */
+    function getVestingGrant(uint256 grantId) external view returns (VestingGrant memory) {
+        require(grantId > 0 && grantId <= vestingGrantCount, "ChainEquityToken: invalid grant ID");
+        return vestingGrants[grantId];
+    }
+    
+    /**
+     * @notice Returns the IDs of every vesting grant issued to a beneficiary
+     * @param beneficiary Address to query grants for
+     * @return uint256[] Grant IDs, oldest first
+     */
+    function getVestingGrantIds(address beneficiary) external view returns (uint256[] memory) {
+        return vestingGrantIds[beneficiary];
+    }
+    
+    /**
+     * @notice Returns the amount of a grant vested at a time
+     * @param grantId The grant ID to query
+     * @param timestamp Unix time to evaluate the schedule at
+     * @return uint256 Vested shares (base units)
+     */
+    function vestedAmountOf(uint256 grantId, uint256 timestamp) external view returns (uint256) {
+        require(grantId > 0 && grantId <= vestingGrantCount, "ChainEquityToken: invalid grant ID");
+        return _vestedAmount(vestingGrants[grantId], timestamp);
+    }
+    
+    /**
+     * @notice Returns the shares of an account that are still locked by vesting grants
+     * @dev Revoked grants lock nothing: their unvested shares were clawed back.
+     * @param account Address to query
+     * @return locked Unvested shares across the account's active grants (base units)
+     */
+    function lockedBalanceOf(address account) public view returns (uint256 locked) {
+        uint256[] storage ids = vestingGrantIds[account];
+        for (uint256 i = 0; i < ids.length; i++) {
+            VestingGrant storage grant = vestingGrants[ids[i]];
+            if (grant.revokedAt == 0) {
+                locked += grant.amount - _vestedAmount(grant, block.timestamp);
+            }
+        }
+    }
+    
+    /**
+     * @notice Mints shares to an approved wallet within the authorized supply
+     * @dev Shared by mint(), mintWithProof(), batchMint() and grantVested(). Starts the recipient's
+     * holding period, if any.
+     * @param to Address to mint tokens to (must be approved)
+     * @param amount Amount of tokens to mint
+     * @param approved Whether the recipient is approved (in the mapping or by proof)
+     */
+    function _issue(address to, uint256 amount, bool approved) internal {
         require(to != address(0), "ChainEquityToken: cannot mint to zero address");
-        require(allowlist[to], "ChainEquityToken: recipient not approved");
+        require(approved, "ChainEquityToken: recipient not approved");
         require(totalSupply() + amount <= totalAuthorized, "ChainEquityToken: exceeds authorized supply");
         
-        _mint(to, amount);
+        _move(address(0), to, amount, false, approved);
         emit Issued(to, amount);
+        
+        if (holdingPeriod > 0) {
+            uint64 until = uint64(block.timestamp) + holdingPeriod;
+            if (until > lockupUntil[to]) {
+                lockupUntil[to] = until;
+                emit LockupSet(to, until);
+            }
+        }
+    }
+    
+    /**
+     * @notice Computes the amount of a grant vested at a time
+     * @dev See VestingGrant for the schedule. Time stops at revokedAt for revoked grants.
+     */
+    function _vestedAmount(VestingGrant storage grant, uint256 timestamp) internal view returns (uint256) {
+        if (grant.revokedAt != 0 && timestamp > grant.revokedAt) {
+            timestamp = grant.revokedAt;
+        }
+        if (timestamp < uint256(grant.start) + grant.cliffDuration) {
+            return 0;
+        }
+        if (timestamp >= uint256(grant.start) + grant.duration) {
+            return grant.amount;
+        }
+        
+        uint256 elapsed = timestamp - grant.start;
+        elapsed -= elapsed % grant.releaseInterval;
+        return (grant.amount * elapsed) / grant.duration;
+    }
+    
+    /**
+     * @notice Redeems (cancels) tokens held by a shareholder
+     * @dev Burns tokens from the holder's balance, reducing total supply and freeing the
+     * corresponding authorized headroom for future issuance. Covers both buybacks (the
+     * issuer settles the redemption price off-chain) and cancellations. The holder does not
+     * need to be on the allowlist, so shares held by a revoked wallet can still be cancelled.
+     * Only minters (MINTER_ROLE) can redeem tokens.
+     * @custom:roles Requires MINTER_ROLE (held by the owner).
+     * @param from Address whose tokens are redeemed
+     * @param amount Amount of tokens to redeem (in base token units with 18 decimals)
+     */
+    function redeem(address from, uint256 amount) external onlyRole(MINTER_ROLE) {
+        require(from != address(0), "ChainEquityToken: cannot redeem from zero address");
+        require(amount > 0, "ChainEquityToken: redeem amount must be > 0");
+        require(balanceOf(from) >= amount, "ChainEquityToken: redeem amount exceeds balance");
+        
+        _burn(from, amount);
+        emit Redeemed(from, amount);
+    }
+    
+    /**
+     * @notice Moves shares between holders without the sender's signature
+     * @dev Bypasses the allowlist, lock-ups, vesting and compliance checks, but the recipient
+     * must still be approved and the compliance is still notified. Vesting grants stay with the
+     * sender, so moving unvested shares leaves the sender unable to transfer until they vest.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
+     * @param from Holder whose shares are moved
+     * @param to Recipient (must be approved)
+     * @param amount Amount of tokens to move (must be > 0)
+     * @param reasonCode Why the shares are moved (REASON_* constant, must be > 0)
+     */
+    function forcedTransfer(address from, address to, uint256 amount, uint8 reasonCode) external onlyRole(COMPLIANCE_ROLE) {
+        require(from != address(0), "ChainEquityToken: cannot force transfer from zero address");
+        require(allowlist[to], "ChainEquityToken: recipient not approved");
+        require(amount > 0, "ChainEquityToken: forced transfer amount must be > 0");
+        require(reasonCode > 0, "ChainEquityToken: reason code required");
+        
+        _forceMove(from, to, amount);
+        emit ForcedTransfer(from, to, amount, reasonCode);
+    }
+    
+    /**
+     * @notice Moves a lost wallet's whole position to a replacement wallet
+     * @dev Moves the balance, vesting grants and lock-up, approves the new wallet if the lost
+     * one was approved and revokes the lost wallet, so it can never receive shares again. Only
+     * meant for recovery requests approved off-chain (see the backend's recovery requests).
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
+     * @param lostWallet Wallet whose key was lost
+     * @param newWallet Replacement wallet controlled by the same investor
+     */
+    function recoverWallet(address lostWallet, address newWallet) external onlyRole(COMPLIANCE_ROLE) {
+        require(lostWallet != address(0), "ChainEquityToken: cannot recover zero address");
+        require(newWallet != address(0), "ChainEquityToken: new wallet cannot be zero address");
+        require(lostWallet != newWallet, "ChainEquityToken: new wallet must differ from lost wallet");
+        
+        if (allowlist[lostWallet]) {
+            allowlist[lostWallet] = false;
+            emit WalletRevoked(msg.sender, lostWallet);
+            if (!allowlist[newWallet]) {
+                allowlist[newWallet] = true;
+                emit WalletApproved(msg.sender, newWallet);
+            }
+        }
+        
+        uint256[] storage ids = vestingGrantIds[lostWallet];
+        for (uint256 i = 0; i < ids.length; i++) {
+            vestingGrants[ids[i]].beneficiary = newWallet;
+            vestingGrantIds[newWallet].push(ids[i]);
+        }
+        delete vestingGrantIds[lostWallet];
+        
+        if (lockupUntil[lostWallet] > lockupUntil[newWallet]) {
+            lockupUntil[newWallet] = lockupUntil[lostWallet];
+            emit LockupSet(newWallet, lockupUntil[newWallet]);
+        }
+        
+        uint256 amount = balanceOf(lostWallet);
+        if (amount > 0) {
+            _forceMove(lostWallet, newWallet, amount);
+        }
+        emit WalletRecovered(lostWallet, newWallet, amount, REASON_LOST_WALLET);
+    }
+    
+    /**
+     * @notice Moves shares without the transfer restrictions of _update()
+     * @dev Calls ERC20._update directly, then notifies the compliance like _update() does.
+     */
+    function _forceMove(address from, address to, uint256 amount) internal {
+        ERC20._update(from, to, amount);
+        
+        if (address(compliance) != address(0)) {
+            compliance.transferred(from, to, amount);
+        }
     }
     
     /**
@@ -147,8 +669,13 @@ contract ChainEquityToken is ERC20, Ownable {
      * @dev Overrides OpenZeppelin v5's _update hook to add compliance gating. This hook
      * is called for all token movements (mints, burns, transfers). When transfers are
      * restricted, it validates that both sender and recipient are on the allowlist for
-     * transfers, or just the recipient for mints. This pattern is the recommended approach
-     * in OpenZeppelin v5 for adding custom transfer logic.
+     * transfers, or just the recipient for mints. Burns are only reachable through the
+     * issuer's redeem() and revokeVestingGrant() and are not gated. Transfers can never move
+     * shares still locked by vesting grants, nor leave a wallet under lock-up, whether or not
+     * transfers are restricted. Transfers are checked with detectTransferRestriction() and revert
+     * with the restriction's message. Transfers and mints must also pass the compliance contract,
+     * if set, which is notified of every balance change. Nothing moves while the token is paused.
+     * This pattern is the recommended approach in OpenZeppelin v5 for adding custom transfer logic.
      * @custom:security This is the core security mechanism enforcing compliance. The allowlist
      * check ensures only KYC-approved wallets can participate in transfers, preventing
      * unauthorized trading of tokenized securities.
@@ -157,37 +684,130 @@ contract ChainEquityToken is ERC20, Ownable {
      * @param value Amount being transferred
      */
     function _update(address from, address to, uint256 value) internal override {
-        if (transfersRestricted) {
-            // For transfers (not mints or burns), check both sender and recipient
-            if (from != address(0) && to != address(0)) {
-                require(allowlist[from], "ChainEquityToken: sender not approved");
-                require(allowlist[to], "ChainEquityToken: recipient not approved");
-            }
-            // For mints, only check recipient (from is address(0))
-            else if (from == address(0) && to != address(0)) {
-                require(allowlist[to], "ChainEquityToken: recipient not approved");
-            }
-            // For burns, only check sender (to is address(0))
-            // Note: Current implementation doesn't allow burns, but this covers it
-            else if (from != address(0) && to == address(0)) {
-                require(allowlist[from], "ChainEquityToken: sender not approved");
+        _move(from, to, value, allowlist[from], allowlist[to]);
+    }
+    
+    /**
+     * @notice Applies the checks of _update() with the given approval of sender and recipient
+     * @dev _update() approves wallets from the allowlist mapping; the *WithProof() functions also
+     * accept Merkle proofs.
+     * @param from Sender address (address(0) for mints)
+     * @param to Recipient address (address(0) for burns)
+     * @param value Amount being transferred
+     * @param fromApproved Whether the sender is approved
+     * @param toApproved Whether the recipient is approved
+     */
+    function _move(address from, address to, uint256 value, bool fromApproved, bool toApproved) private {
+        // Mints, transfers and burns all stop while paused
+        require(!paused(), "ChainEquityToken: token is paused");
+        
+        // For transfers (not mints or burns), apply every transfer restriction
+        if (from != address(0) && to != address(0)) {
+            uint8 code = _detectTransferRestriction(from, to, value, fromApproved, toApproved);
+            if (code != SUCCESS) {
+                revert(messageForTransferRestriction(code));
             }
         }
+        // For mints, only check recipient (from is address(0))
+        else if (from == address(0) && to != address(0)) {
+            require(!transfersRestricted || toApproved, "ChainEquityToken: recipient not approved");
+            require(
+                address(compliance) == address(0) || compliance.canTransfer(from, to, value),
+                "ChainEquityToken: compliance check failed"
+            );
+        }
+        // Burns (to is address(0)) are not checked: only the issuer can redeem, and it
+        // must be able to cancel shares held by a revoked wallet
         
         super._update(from, to, value);
+        
+        if (address(compliance) != address(0)) {
+            compliance.transferred(from, to, value);
+        }
+    }
+    
+    /**
+     * @notice Detects whether a transfer would be rejected and why (ERC-1404)
+     * @dev Checks, in order: that the token is not paused, the allowlist of sender and recipient
+     * (only while transfers are restricted), the sender's lock-up, that unvested shares stay behind, then the compliance
+     * contract, if any. A plain
+     * insufficient balance is not a restriction: the ERC20 transfer reverts with
+     * ERC20InsufficientBalance as usual.
+     * Approval is read from the allowlist mapping only; wallets approved by Merkle proof pass
+     * through transferWithProof() (see isApprovedWithProof()).
+     * @param from Sender address
+     * @param to Recipient address
+     * @param value Amount to transfer
+     * @return Restriction code (SUCCESS = 0 if the transfer is allowed)
+     */
+    function detectTransferRestriction(
+        address from,
+        address to,
+        uint256 value
+    ) public view returns (uint8) {
+        return _detectTransferRestriction(from, to, value, allowlist[from], allowlist[to]);
+    }
+    
+    /**
+     * @notice detectTransferRestriction() with the given approval of sender and recipient
+     */
+    function _detectTransferRestriction(
+        address from,
+        address to,
+        uint256 value,
+        bool fromApproved,
+        bool toApproved
+    ) private view returns (uint8) {
+        if (paused()) return TOKEN_PAUSED;
+        if (transfersRestricted) {
+            if (!fromApproved) return SENDER_NOT_APPROVED;
+            if (!toApproved) return RECIPIENT_NOT_APPROVED;
+        }
+        if (block.timestamp < lockupEndOf(from)) return SENDER_LOCKED_UP;
+        
+        // Unvested shares cannot be transferred
+        uint256 locked = lockedBalanceOf(from);
+        if (locked > 0 && balanceOf(from) < value + locked) return EXCEEDS_VESTED_BALANCE;
+        
+        if (address(compliance) != address(0) && !compliance.canTransfer(from, to, value)) {
+            return COMPLIANCE_CHECK_FAILED;
+        }
+        
+        return SUCCESS;
     }
     
     /**
-     * @notice Executes a stock split (e.g., 7-for-1 split)
+     * @notice Returns the message for a restriction code (ERC-1404)
+     * @dev Restricted transfers revert with this message, so it matches the revert reason.
+     * @param restrictionCode Code returned by detectTransferRestriction()
+     * @return Human-readable explanation of the restriction
+     */
+    function messageForTransferRestriction(uint8 restrictionCode) public pure returns (string memory) {
+        if (restrictionCode == SUCCESS) return "No restriction";
+        if (restrictionCode == SENDER_NOT_APPROVED) return "ChainEquityToken: sender not approved";
+        if (restrictionCode == RECIPIENT_NOT_APPROVED) return "ChainEquityToken: recipient not approved";
+        if (restrictionCode == SENDER_LOCKED_UP) return "ChainEquityToken: sender is locked up";
+        if (restrictionCode == EXCEEDS_VESTED_BALANCE) return "ChainEquityToken: transfer exceeds vested balance";
+        if (restrictionCode == COMPLIANCE_CHECK_FAILED) return "ChainEquityToken: compliance check failed";
+        if (restrictionCode == TOKEN_PAUSED) return "ChainEquityToken: token is paused";
+        return "ChainEquityToken: unknown restriction code";
+    }
+    
+    /**
+     * @notice Executes a stock split (e.g., 7-for-1) or reverse split (e.g., 1-for-10)
      * @dev Updates the split factor to reflect a stock split without modifying actual balances.
      * This virtual split approach is gas-efficient for large shareholder lists. The effective
      * balance (visible via effectiveBalanceOf) is calculated by multiplying the base balance
-     * by splitFactor/1e18. Only the contract owner (issuer role) can execute splits.
-     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
-     * @param multiplier Split multiplier in 1e18 precision (e.g., 7e18 for 7-for-1 split, must be >= 1e18)
+     * by splitFactor/1e18. A factor below 1e18 is a reverse split, which can leave holders with
+     * fractional effective shares: see fractionalBalanceOf for the rounding and cash-in-lieu rules.
+     * Only the corporate actions officer (CORPORATE_ACTIONS_ROLE) can execute splits, and not
+     * while the token is paused.
+     * @custom:roles Requires CORPORATE_ACTIONS_ROLE (held by the owner).
+     * @param multiplier Split multiplier in 1e18 precision (e.g., 7e18 for 7-for-1, 1e17 for 1-for-10, must be > 0)
      */
-    function executeSplit(uint256 multiplier) external onlyOwner {
-        require(multiplier >= 1e18, "ChainEquityToken: split multiplier must be >= 1");
+    function executeSplit(uint256 multiplier) external onlyRole(CORPORATE_ACTIONS_ROLE) {
+        require(!paused(), "ChainEquityToken: token is paused");
+        require(multiplier > 0, "ChainEquityToken: split multiplier must be > 0");
         require(multiplier != splitFactor, "ChainEquityToken: split factor unchanged");
         
         uint256 oldFactor = splitFactor;
@@ -196,6 +816,46 @@ contract ChainEquityToken is ERC20, Ownable {
         emit SplitExecuted(oldFactor, multiplier, block.number);
     }
     
+    /**
+     * @notice Increases the authorized shares after a shareholder-approved charter amendment
+     * @dev Emits AuthorizedSharesChanged. The issuer should then record an AUTHORIZED_SHARES_CHANGE
+     * corporate action on the CapTable with `abi.encode(oldAuthorized, newAuthorized)` as data.
+     * @custom:roles Requires CORPORATE_ACTIONS_ROLE (held by the owner).
+     * @param amount Shares to add to totalAuthorized (in base token units, must be > 0)
+     */
+    function increaseAuthorizedShares(uint256 amount) external onlyRole(CORPORATE_ACTIONS_ROLE) {
+        require(amount > 0, "ChainEquityToken: amount must be > 0");
+        _setAuthorizedShares(totalAuthorized + amount);
+    }
+    
+    /**
+     * @notice Decreases the authorized shares after a shareholder-approved charter amendment
+     * @dev Shares already issued cannot be de-authorized: the new total must cover totalSupply().
+     * Emits AuthorizedSharesChanged; record the amendment on the CapTable as for an increase.
+     * @custom:roles Requires CORPORATE_ACTIONS_ROLE (held by the owner).
+     * @param amount Shares to remove from totalAuthorized (in base token units, must be > 0)
+     */
+    function decreaseAuthorizedShares(uint256 amount) external onlyRole(CORPORATE_ACTIONS_ROLE) {
+        require(amount > 0, "ChainEquityToken: amount must be > 0");
+        require(amount < totalAuthorized, "ChainEquityToken: totalAuthorized must be > 0");
+        require(
+            totalAuthorized - amount >= totalSupply(),
+            "ChainEquityToken: authorized below outstanding supply"
+        );
+        _setAuthorizedShares(totalAuthorized - amount);
+    }
+    
+    /**
+     * @notice Sets totalAuthorized and emits AuthorizedSharesChanged
+     * @param newAuthorized New total authorized shares
+     */
+    function _setAuthorizedShares(uint256 newAuthorized) internal {
+        uint256 oldAuthorized = totalAuthorized;
+        totalAuthorized = newAuthorized;
+        
+        emit AuthorizedSharesChanged(oldAuthorized, newAuthorized);
+    }
+    
     /**
      * @notice Returns the effective balance after applying the split factor
      * @dev Calculates the effective number of shares after accounting for stock splits.
@@ -205,38 +865,177 @@ contract ChainEquityToken is ERC20, Ownable {
      * @param account Address to query effective balance for
      * @return uint256 Effective balance (base balance * splitFactor / 1e18)
      */
-    function effectiveBalanceOf(address account) external view returns (uint256) {
+    function effectiveBalanceOf(address account) public view returns (uint256) {
         return (balanceOf(account) * splitFactor) / 1e18;
     }
     
     /**
-     * @notice Signals a symbol change via event (for indexer tracking)
-     * @dev Emits a SymbolChanged event that indexers can track. The actual ERC20 symbol()
-     * is immutable in OpenZeppelin's implementation, so this event serves as a signal for
-     * off-chain systems. A full symbol change would require contract redeployment or a proxy
-     * upgrade pattern. Only the contract owner (issuer role) can trigger this event.
-     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
-     * @param newSymbol The new symbol to be tracked (for indexer purposes)
+     * @notice Returns the fractional part of a holder's effective position (less than one share)
+     * @dev Rounding rules for fractional effective balances, e.g. after a reverse split:
+     * 1. effectiveBalanceOf rounds down to the smallest token unit.
+     * 2. A holder is entitled to whole shares only: floor(effectiveBalanceOf / 1e18).
+     * 3. The remainder returned here is settled as cash in lieu at the issuer's price, off-chain,
+     *    and cancelled on-chain by redeeming the base units behind it (see redeem).
+     * @param account Address to query the fractional effective balance for
+     * @return uint256 Effective balance modulo one whole share (1e18)
+     */
+    function fractionalBalanceOf(address account) external view returns (uint256) {
+        return effectiveBalanceOf(account) % 1e18;
+    }
+    
+    /**
+     * @notice Returns the current token name
+     * @dev Overrides ERC20.name() so the name set by changeName() is what wallets and explorers read.
+     * @return string Current token name
+     */
+    function name() public view override returns (string memory) {
+        return _tokenName;
+    }
+    
+    /**
+     * @notice Returns the current token symbol
+     * @dev Overrides ERC20.symbol() so the symbol set by changeSymbol() is what wallets and
+     * explorers read.
+     * @return string Current token symbol
      */
-    function changeSymbol(string memory newSymbol) external onlyOwner {
-        string memory oldSymbol = symbol();
-        // Note: Actual symbol update requires contract upgrade or redeployment
-        // This event signals the intent and indexers can track it
+    function symbol() public view override returns (string memory) {
+        return _tokenSymbol;
+    }
+    
+    /**
+     * @notice Changes the token symbol
+     * @dev Updates the symbol returned by symbol() and emits a SymbolChanged event for indexers.
+     * The issuer should then record a SYMBOL_CHANGE corporate action on the CapTable, with the
+     * new symbol ABI-encoded as data, so the company registry reports the same ticker.
+     * @custom:roles Requires CORPORATE_ACTIONS_ROLE (held by the owner).
+     * @param newSymbol The new token symbol (must be non-empty)
+     */
+    function changeSymbol(string memory newSymbol) external onlyRole(CORPORATE_ACTIONS_ROLE) {
+        require(bytes(newSymbol).length > 0, "ChainEquityToken: symbol cannot be empty");
+        
+        string memory oldSymbol = _tokenSymbol;
+        _tokenSymbol = newSymbol;
+        
         emit SymbolChanged(oldSymbol, newSymbol);
     }
     
+    /**
+     * @notice Changes the token name
+     * @dev Updates the name returned by name() and emits a NameChanged event.
+     * @custom:roles Requires CORPORATE_ACTIONS_ROLE (held by the owner).
+     * @param newName The new token name (must be non-empty)
+     */
+    function changeName(string memory newName) external onlyRole(CORPORATE_ACTIONS_ROLE) {
+        require(bytes(newName).length > 0, "ChainEquityToken: name cannot be empty");
+        
+        string memory oldName = _tokenName;
+        _tokenName = newName;
+        
+        emit NameChanged(oldName, newName);
+    }
+    
     /**
      * @notice Enables or disables transfer restrictions globally
      * @dev When restrictions are enabled, only allowlisted wallets can transfer tokens.
      * When disabled, any wallet can transfer (standard ERC20 behavior). This toggle allows
-     * the issuer to control compliance requirements over time. Only the contract owner (issuer role)
-     * can modify this setting.
-     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * the issuer to control compliance requirements over time. Only the compliance officer
+     * (COMPLIANCE_ROLE) can modify this setting.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
      * @param restricted True to enable restrictions, false to disable
      */
-    function setTransfersRestricted(bool restricted) external onlyOwner {
+    function setTransfersRestricted(bool restricted) external onlyRole(COMPLIANCE_ROLE) {
         transfersRestricted = restricted;
         emit TransfersRestrictedChanged(restricted);
     }
+    
+    /**
+     * @notice Sets the company-wide lock-up, e.g. after an IPO
+     * @dev Blocks transfers from every wallet until the given time. Pass 0 (or a past time)
+     * to lift it. Issuance and redemption are not affected.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
+     * @param until Unix timestamp transfers are blocked until
+     */
+    function setGlobalLockup(uint64 until) external onlyRole(COMPLIANCE_ROLE) {
+        globalLockupUntil = until;
+        emit GlobalLockupSet(until);
+    }
+    
+    /**
+     * @notice Sets a wallet's own lock-up
+     * @dev Overrides the wallet's current lock-up, including one extended by the holding period,
+     * so the issuer can also shorten or lift it (pass 0).
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
+     * @param wallet Wallet to lock up
+     * @param until Unix timestamp transfers from the wallet are blocked until
+     */
+    function setLockup(address wallet, uint64 until) external onlyRole(COMPLIANCE_ROLE) {
+        require(wallet != address(0), "ChainEquityToken: cannot lock up zero address");
+        lockupUntil[wallet] = until;
+        emit LockupSet(wallet, until);
+    }
+    
+    /**
+     * @notice Sets the holding period applied to future issuances
+     * @dev Existing lock-ups are not changed. Pass 0 to stop locking up new issuances.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
+     * @param period Seconds an issuance locks up its recipient's wallet for
+     */
+    function setHoldingPeriod(uint64 period) external onlyRole(COMPLIANCE_ROLE) {
+        holdingPeriod = period;
+        emit HoldingPeriodSet(period);
+    }
+    
+    /**
+     * @notice Returns the time until which transfers from a wallet are blocked
+     * @param wallet Address to query
+     * @return The later of the company-wide and the wallet's lock-up (0 = never locked up)
+     */
+    function lockupEndOf(address wallet) public view returns (uint64) {
+        uint64 until = lockupUntil[wallet];
+        return until > globalLockupUntil ? until : globalLockupUntil;
+    }
+    
+    /**
+     * @notice Sets the compliance contract consulted on every transfer and mint
+     * @dev The compliance must be bound to this token. Pass address(0) to remove it.
+     * @custom:roles Requires COMPLIANCE_ROLE (held by the owner).
+     * @param newCompliance Compliance contract (see ModularCompliance)
+     */
+    function setCompliance(address newCompliance) external onlyRole(COMPLIANCE_ROLE) {
+        require(
+            newCompliance == address(0) || ICompliance(newCompliance).token() == address(this),
+            "ChainEquityToken: compliance bound to another token"
+        );
+        compliance = ICompliance(newCompliance);
+        emit ComplianceSet(newCompliance);
+    }
+    
+    /**
+     * @notice Stops all token movements and splits (emergency stop)
+     * @dev Emits Paused. Reverts with EnforcedPause if the token is already paused.
+     * @custom:roles Requires PAUSER_ROLE (held by the owner).
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+    
+    /**
+     * @notice Resumes token movements and splits
+     * @dev Emits Unpaused. Reverts with ExpectedPause if the token is not paused.
+     * @custom:roles Requires PAUSER_ROLE (held by the owner).
+     */
+    function unpause() external onlyRole(PAUSER_ROLE) {
+        _unpause();
+    }
+    
+    /**
+     * @notice Roles held by the owner besides DEFAULT_ADMIN_ROLE (see IssuerRoles)
+     */
+    function _issuerRoles() internal pure override returns (bytes32[] memory roles) {
+        roles = new bytes32[](4);
+        roles[0] = MINTER_ROLE;
+        roles[1] = COMPLIANCE_ROLE;
+        roles[2] = CORPORATE_ACTIONS_ROLE;
+        roles[3] = PAUSER_ROLE;
+    }
 }
-
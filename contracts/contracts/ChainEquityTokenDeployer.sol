@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "./ChainEquityToken.sol";
+
+/**
+ * @title ChainEquityTokenDeployer
+ * @notice Deploys ChainEquityToken instances on behalf of CapTableFactory
+ *
+ * @dev Holds the token's creation code so the factory stays within the contract size limit
+ * (EIP-170): embedding both the token and the CapTable creation code would exceed it. Anyone may
+ * deploy a token through it; the caller becomes the token's owner.
+ */
+contract ChainEquityTokenDeployer {
+    /**
+     * @notice Deploys a token owned by the caller
+     * @param name Token name (e.g., "Acme Inc. Equity")
+     * @param symbol Token symbol (e.g., "ACME")
+     * @param totalAuthorized Total authorized shares (in token units, e.g., 1_000_000 * 1e18)
+     * @return token Address of the deployed ChainEquityToken
+     */
+    function deploy(
+        string calldata name,
+        string calldata symbol,
+        uint256 totalAuthorized
+    ) external returns (address token) {
+        ChainEquityToken newToken = new ChainEquityToken(name, symbol, totalAuthorized);
+        newToken.transferOwnership(msg.sender);
+        token = address(newToken);
+    }
+}
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./ICompliance.sol";
+import "./IComplianceModule.sol";
+
+/**
+ * @title ComplianceModule
+ * @notice Base contract of the compliance modules shipped with ChainEquity
+ *
+ * @dev Binds the module to one ModularCompliance, and through it to one token, at deployment.
+ * The deployer (issuer) owns the module and configures it directly. Stateless modules only
+ * implement moduleCheck(); stateful ones also override moduleAction().
+ *
+ * @custom:roles Role-based access control:
+ * - Owner (issuer role): Configures the module. Owner = issuer role.
+ * - Compliance: Only the bound compliance may report balance changes through moduleAction().
+ */
+abstract contract ComplianceModule is IComplianceModule, Ownable {
+    /// @notice ModularCompliance this module is bound to
+    address public immutable compliance;
+
+    /// @notice Token checked by the bound compliance
+    address public immutable token;
+
+    /**
+     * @notice Binds the module to a compliance with the deployer as owner (issuer)
+     * @param compliance_ ModularCompliance to bind to
+     */
+    constructor(address compliance_) Ownable(msg.sender) {
+        require(compliance_ != address(0), "ComplianceModule: compliance cannot be zero address");
+        compliance = compliance_;
+        token = ICompliance(compliance_).token();
+    }
+
+    modifier onlyCompliance() {
+        require(msg.sender == compliance, "ComplianceModule: caller is not the compliance");
+        _;
+    }
+
+    /**
+     * @inheritdoc IComplianceModule
+     * @dev No state to update by default.
+     */
+    function moduleAction(address, address, uint256) external virtual onlyCompliance {}
+}
@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "./ComplianceModule.sol";
+
+/**
+ * @title CountryRestrictionModule
+ * @notice Blocks shares from reaching investors resident in restricted countries
+ *
+ * @dev The issuer records each investor's country (ISO 3166-1 alpha-2, e.g. "US" as bytes2) from
+ * KYC and restricts countries. Only the recipient is checked, so holders in a newly restricted
+ * country can still sell. Wallets without a recorded country are not restricted.
+ */
+contract CountryRestrictionModule is ComplianceModule {
+    /// @notice Country of residence of each investor (bytes2(0) = not recorded)
+    mapping(address => bytes2) public investorCountry;
+
+    /// @notice Whether investors from a country may not receive shares
+    mapping(bytes2 => bool) public isCountryRestricted;
+
+    /// @notice Emitted when an investor's country is recorded
+    event InvestorCountrySet(address indexed token, address indexed wallet, bytes2 country);
+
+    /// @notice Emitted when a country is restricted or unrestricted
+    event CountryRestrictionSet(address indexed token, bytes2 country, bool restricted);
+
+    /**
+     * @param compliance_ ModularCompliance to bind to
+     */
+    constructor(address compliance_) ComplianceModule(compliance_) {}
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function name() external pure returns (string memory) {
+        return "CountryRestriction";
+    }
+
+    /**
+     * @notice Records an investor's country of residence
+     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @param wallet Investor wallet
+     * @param country ISO 3166-1 alpha-2 code (bytes2(0) to clear)
+     */
+    function setInvestorCountry(address wallet, bytes2 country) external onlyOwner {
+        require(wallet != address(0), "CountryRestrictionModule: wallet cannot be zero address");
+        investorCountry[wallet] = country;
+        emit InvestorCountrySet(token, wallet, country);
+    }
+
+    /**
+     * @notice Restricts or unrestricts a country
+     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @param country ISO 3166-1 alpha-2 code
+     * @param restricted True to block investors from the country
+     */
+    function setCountryRestricted(bytes2 country, bool restricted) external onlyOwner {
+        require(country != bytes2(0), "CountryRestrictionModule: invalid country");
+        isCountryRestricted[country] = restricted;
+        emit CountryRestrictionSet(token, country, restricted);
+    }
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function moduleCheck(address, address to, uint256) external view returns (bool) {
+        return to == address(0) || !isCountryRestricted[investorCountry[to]];
+    }
+}
@@ -0,0 +1,38 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+/**
+ * @title ICompliance
+ * @notice Interface of the compliance contract a ChainEquityToken consults on every token movement
+ *
+ * @dev Modelled on ERC-3643 (T-REX) modular compliance. The token calls canTransfer() before
+ * every transfer and mint, and transferred() after every balance change so stateful rules (e.g.
+ * a holder count) stay in sync. Mints are reported with from = address(0) and burns with
+ * to = address(0); burns are never blocked, so the issuer can always redeem.
+ * See ModularCompliance for the implementation that delegates to pluggable modules.
+ */
+interface ICompliance {
+    /**
+     * @notice Returns the token this compliance is bound to
+     * @return address Token address (only it may call transferred())
+     */
+    function token() external view returns (address);
+
+    /**
+     * @notice Checks whether a transfer or mint complies with every rule
+     * @param from Sender address (address(0) for mints)
+     * @param to Recipient address
+     * @param value Amount being moved
+     * @return bool True if the movement is allowed
+     */
+    function canTransfer(address from, address to, uint256 value) external view returns (bool);
+
+    /**
+     * @notice Updates rule state after a balance change
+     * @dev Only callable by the bound token, after its balances have been updated.
+     * @param from Sender address (address(0) for mints)
+     * @param to Recipient address (address(0) for burns)
+     * @param value Amount moved
+     */
+    function transferred(address from, address to, uint256 value) external;
+}
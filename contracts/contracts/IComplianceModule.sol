@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+/**
+ * @title IComplianceModule
+ * @notice Interface of a single compliance rule plugged into a ModularCompliance
+ *
+ * @dev Each module instance is bound to one ModularCompliance (and so to one token) at deployment
+ * and is configured by the issuer directly. Modules emit their configuration changes with the
+ * token as first indexed topic, so indexers can follow them by token without knowing module
+ * addresses up front.
+ */
+interface IComplianceModule {
+    /**
+     * @notice Returns the module's type name (e.g. "MaxHolders"), used by indexers and UIs
+     * @return string Module type name
+     */
+    function name() external pure returns (string memory);
+
+    /**
+     * @notice Returns the ModularCompliance this module is bound to
+     * @return address Compliance address
+     */
+    function compliance() external view returns (address);
+
+    /**
+     * @notice Checks whether a transfer or mint complies with this module's rule
+     * @param from Sender address (address(0) for mints)
+     * @param to Recipient address
+     * @param value Amount being moved
+     * @return bool True if the movement is allowed
+     */
+    function moduleCheck(address from, address to, uint256 value) external view returns (bool);
+
+    /**
+     * @notice Updates the module's state after a balance change
+     * @dev Only callable by the bound compliance.
+     * @param from Sender address (address(0) for mints)
+     * @param to Recipient address (address(0) for burns)
+     * @param value Amount moved
+     */
+    function moduleAction(address from, address to, uint256 value) external;
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+/**
+ * @title IERC1404
+ * @notice ERC-1404 Simple Restricted Token Standard
+ *
+ * @dev Implemented by ChainEquityToken. Wallets and the backend call detectTransferRestriction()
+ * before submitting a transfer to learn whether the token would reject it, and
+ * messageForTransferRestriction() to explain why. Code 0 means the transfer is not restricted;
+ * every other code is token-specific (see ChainEquityToken for its codes).
+ */
+interface IERC1404 {
+    /**
+     * @notice Detects whether a transfer would be restricted
+     * @param from Sender address
+     * @param to Recipient address
+     * @param value Amount to transfer
+     * @return uint8 Restriction code (0 = not restricted)
+     */
+    function detectTransferRestriction(
+        address from,
+        address to,
+        uint256 value
+    ) external view returns (uint8);
+
+    /**
+     * @notice Returns a human-readable message for a restriction code
+     * @param restrictionCode Code returned by detectTransferRestriction()
+     * @return string Message explaining the restriction
+     */
+    function messageForTransferRestriction(uint8 restrictionCode) external view returns (string memory);
+}
@@ -4,34 +4,57 @@ pragma solidity ^0.8.24;
 /**
  * @title Roles
  * @notice Library defining standard role constants for ChainEquity system.
- * 
+ *
  * @dev This library provides standardized role definitions that are used consistently
  * across on-chain contracts and off-chain backend systems. The role constants are
  * defined as bytes32 values using keccak256 hashing for efficient on-chain storage
  * and comparison.
- * 
+ *
  * @custom:note Role enforcement:
- * - On-chain: Contracts use OpenZeppelin's Ownable pattern where owner = issuer role.
- *   Detailed role validation (admin vs issuer granularity) is handled off-chain.
- * - Off-chain: Backend manages role assignments and validation via database.
- * 
- * @custom:usage These constants are informational and ensure consistency between
- * contract and backend role definitions. Actual role enforcement is:
- * - Contract level: Owner-based (issuer functions)
- * - Backend level: Database-based (admin/issuer/investor granularity)
+ * - On-chain: ChainEquityToken and CapTable gate each issuer function behind one of the
+ *   AccessControl roles below (see IssuerRoles). The owner is the issuer and holds every role,
+ *   and can delegate a role to another wallet (e.g. a transfer agent as compliance officer).
+ * - Off-chain: Backend manages role assignments and validation via database. It indexes the
+ *   role holders of each company, and a guarded route also admits a wallet holding the specific
+ *   role it needs (e.g. COMPLIANCE_ROLE for approvals) on that company's contracts only.
+ *
+ * @custom:usage ROLE_ISSUER, ROLE_INVESTOR and ROLE_ADMIN mirror the backend user roles and are
+ * informational. The AccessControl roles are enforced on-chain:
+ * - MINTER_ROLE: issue, grant vested and redeem shares
+ * - COMPLIANCE_ROLE: allowlist, lock-ups, transfer restrictions, compliance contract, forced
+ *   transfers and wallet recovery
+ * - CORPORATE_ACTIONS_ROLE: splits, name and symbol changes, authorized share amendments,
+ *   corporate action records, token replacement and share classes
+ * - PAUSER_ROLE: pause and unpause all token movements (emergency stop)
+ * DEFAULT_ADMIN_ROLE (bytes32(0), defined by AccessControl) grants and revokes all of them.
  */
 library Roles {
     /// @notice Role constant for issuer (can mint and approve wallets)
     /// @dev Hash of "ROLE_ISSUER" - matches backend role definition
     bytes32 public constant ROLE_ISSUER = keccak256("ROLE_ISSUER");
-    
+
     /// @notice Role constant for investor (can hold and transfer tokens)
     /// @dev Hash of "ROLE_INVESTOR" - matches backend role definition
     bytes32 public constant ROLE_INVESTOR = keccak256("ROLE_INVESTOR");
-    
+
     /// @notice Role constant for admin (can manage system-wide settings)
     /// @dev Hash of "ROLE_ADMIN" - matches backend role definition
     /// @custom:note Admin role is enforced off-chain only, not in contracts
     bytes32 public constant ROLE_ADMIN = keccak256("ROLE_ADMIN");
-}
 
+    /// @notice Role allowed to issue and redeem shares
+    /// @dev Hash of "MINTER_ROLE"
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    /// @notice Role of the compliance officer (allowlist, lock-ups, forced transfers)
+    /// @dev Hash of "COMPLIANCE_ROLE"
+    bytes32 public constant COMPLIANCE_ROLE = keccak256("COMPLIANCE_ROLE");
+
+    /// @notice Role of the corporate actions officer (splits, renames, cap table records)
+    /// @dev Hash of "CORPORATE_ACTIONS_ROLE"
+    bytes32 public constant CORPORATE_ACTIONS_ROLE = keccak256("CORPORATE_ACTIONS_ROLE");
+
+    /// @notice Role allowed to pause and unpause token movements
+    /// @dev Hash of "PAUSER_ROLE"
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+}
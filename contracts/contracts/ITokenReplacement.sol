@@ -3,63 +3,53 @@ pragma solidity ^0.8.24;
 
 /**
  * @title ITokenReplacement
- * @notice Placeholder interface for future token replacement functionality
- * 
- * @dev This interface defines the structure for token replacement operations but is NOT
- * currently implemented. Token replacement is deferred until after Phase 2 (Backend API + Event Indexer)
- * is complete.
- * 
- * @custom:design-only This is a design placeholder. No implementation exists yet.
- * 
+ * @notice Interface for replacing the ChainEquityToken linked to a cap table
+ *
+ * @dev Implemented by CapTable. Balances cannot be enumerated on-chain, so the migration itself
+ * runs off-chain (see scripts/migration-helper.ts and docs/migration-workflow.md):
+ * 1. Snapshot holders, split-adjusted balances and allowlist from the backend indexer database
+ * 2. Deploy the replacement token
+ * 3. Call replaceToken() so indexers switch to the replacement before anything is minted on it
+ * 4. Copy the allowlist, mint the split-adjusted balances and copy transfer restrictions
+ * 5. Verify the replacement against the snapshot
+ *
  * @custom:security Token replacement is a critical operation that requires:
- * - Exact balance preservation (1:1 or split-adjusted)
+ * - Exact balance preservation (split-adjusted: the replacement starts at a 1x split factor)
  * - Allowlist state transfer
  * - Event emission for indexer tracking
  * - Access control (only issuer/owner)
- * 
- * @custom:future Implementation will be added in a future phase after:
- * - Backend indexer is operational
- * - Event tracking infrastructure is tested
- * - Migration workflows are designed and tested off-chain
- * 
+ *
  * See TokenReplacement.md for complete design documentation.
  */
 interface ITokenReplacement {
     /**
-     * @notice Emitted when a token replacement migration is completed
-     * @dev This event allows indexers to track token replacements and update their
-     * state to watch both old and new token addresses.
-     * 
+     * @notice Emitted when the linked token is replaced
+     * @dev Indexers stop indexing the old token at this event and index the new token from the
+     * next log on, including the rest of this block. The old token contract remains on-chain
+     * for historical queries.
+     *
      * @param oldToken Address of the old (replaced) token contract
      * @param newToken Address of the new (replacement) token contract
-     * @param timestamp Block timestamp when replacement was recorded
+     * @param migrationBlockNumber Block at which the old token's balances were snapshotted
      */
     event TokenReplaced(
         address indexed oldToken,
         address indexed newToken,
-        uint256 timestamp
+        uint256 migrationBlockNumber
     );
-    
+
     /**
-     * @notice Migrates balances from an old token to a new token
-     * @dev This function would handle the migration of all shareholder balances
-     * from the old token to the new token, maintaining exact ownership percentages.
-     * 
-     * @custom:security This is a critical operation that must:
-     * - Verify total supply matches between old and new tokens
-     * - Preserve all shareholder balances exactly
-     * - Transfer allowlist state
-     * - Emit events for indexer tracking
-     * 
-     * @custom:future This function is not yet implemented. Current approach uses
-     * off-chain migration with on-chain verification via recordCorporateAction().
-     * 
-     * @param oldToken Address of the old token contract to migrate from
-     * @param newToken Address of the new token contract to migrate to
+     * @notice Replaces the linked token and records a TOKEN_REPLACED corporate action
+     * @dev The corporate action data is abi.encode(oldToken, newToken, migrationBlockNumber).
+     *
+     * @param newToken Address of the replacement token contract
+     * @param migrationBlockNumber Block at which the old token's balances were snapshotted
      */
-    function migrateBalances(
-        address oldToken,
-        address newToken
-    ) external;
-}
+    function replaceToken(address newToken, uint256 migrationBlockNumber) external;
 
+    /**
+     * @notice Returns every token that has been replaced, oldest first
+     * @return address[] Replaced token addresses
+     */
+    function getPreviousTokens() external view returns (address[] memory);
+}
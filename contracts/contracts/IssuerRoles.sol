@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./IRoles.sol";
+
+/**
+ * @title IssuerRoles
+ * @notice Role-based access control whose roles follow the contract owner (the issuer).
+ *
+ * @dev Functions are gated with AccessControl's onlyRole (see IRoles.sol for the roles). The owner
+ * identifies the issuer: it holds DEFAULT_ADMIN_ROLE and every role returned by _issuerRoles(), and
+ * transferring ownership hands all of them to the new owner, so deployers such as CapTableFactory
+ * keep using transferOwnership(). The issuer can delegate a role with grantRole(); roles granted
+ * to other wallets stay in place when ownership changes.
+ */
+abstract contract IssuerRoles is Ownable, AccessControl {
+    /**
+     * @notice Returns the roles held by the owner besides DEFAULT_ADMIN_ROLE
+     */
+    function _issuerRoles() internal pure virtual returns (bytes32[] memory);
+
+    /**
+     * @notice Moves ownership and the owner's roles to a new owner
+     * @dev Also runs from the Ownable constructor, granting the deployer every role. Renouncing
+     * ownership (newOwner = address(0)) revokes the owner's roles.
+     */
+    function _transferOwnership(address newOwner) internal virtual override {
+        address oldOwner = owner();
+        super._transferOwnership(newOwner);
+
+        bytes32[] memory roles = _issuerRoles();
+        _moveRole(DEFAULT_ADMIN_ROLE, oldOwner, newOwner);
+        for (uint256 i = 0; i < roles.length; i++) {
+            _moveRole(roles[i], oldOwner, newOwner);
+        }
+    }
+
+    /**
+     * @notice Revokes a role from one account and grants it to another (address(0) = none)
+     */
+    function _moveRole(bytes32 role, address from, address to) private {
+        if (from != address(0)) {
+            _revokeRole(role, from);
+        }
+        if (to != address(0)) {
+            _grantRole(role, to);
+        }
+    }
+}
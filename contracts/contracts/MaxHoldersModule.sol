@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./ComplianceModule.sol";
+
+/**
+ * @title MaxHoldersModule
+ * @notice Caps the number of wallets holding the token (e.g. Section 12(g) holder-of-record limits)
+ *
+ * @dev Tracks holders from the balance changes the compliance reports. A transfer or mint that
+ * would add a holder beyond maxHolders is rejected; one that moves a sender's whole balance to a
+ * new holder keeps the count and is allowed. If the module is plugged in after shares were
+ * issued, the issuer seeds the existing holders with syncHolders().
+ */
+contract MaxHoldersModule is ComplianceModule {
+    /// @notice Maximum number of holders (0 = no limit)
+    uint256 public maxHolders;
+
+    /// @notice Number of wallets currently holding the token
+    uint256 public holderCount;
+
+    /// @notice Whether a wallet is counted as a holder
+    mapping(address => bool) public isHolder;
+
+    /// @notice Emitted when the holder limit changes
+    event MaxHoldersSet(address indexed token, uint256 maxHolders);
+
+    /**
+     * @param compliance_ ModularCompliance to bind to
+     */
+    constructor(address compliance_) ComplianceModule(compliance_) {}
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function name() external pure returns (string memory) {
+        return "MaxHolders";
+    }
+
+    /**
+     * @notice Sets the holder limit
+     * @dev A limit below the current holder count only blocks new holders.
+     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @param maxHolders_ Maximum number of holders (0 = no limit)
+     */
+    function setMaxHolders(uint256 maxHolders_) external onlyOwner {
+        maxHolders = maxHolders_;
+        emit MaxHoldersSet(token, maxHolders_);
+    }
+
+    /**
+     * @notice Recounts wallets from their current balances
+     * @dev Seeds holders issued to before the module was plugged in. Idempotent.
+     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @param wallets Wallets to recount
+     */
+    function syncHolders(address[] calldata wallets) external onlyOwner {
+        for (uint256 i = 0; i < wallets.length; i++) {
+            _updateHolder(wallets[i]);
+        }
+    }
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function moduleCheck(address from, address to, uint256 value) external view returns (bool) {
+        if (maxHolders == 0 || to == address(0) || value == 0 || isHolder[to]) {
+            return true;
+        }
+
+        uint256 count = holderCount + 1;
+        // A sender moving its whole balance stops being a holder
+        if (from != address(0) && isHolder[from] && IERC20(token).balanceOf(from) == value) {
+            count--;
+        }
+        return count <= maxHolders;
+    }
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function moduleAction(address from, address to, uint256) external override onlyCompliance {
+        _updateHolder(from);
+        _updateHolder(to);
+    }
+
+    /**
+     * @notice Counts or uncounts a wallet as holder from its current balance
+     */
+    function _updateHolder(address wallet) internal {
+        if (wallet == address(0)) {
+            return;
+        }
+        bool holds = IERC20(token).balanceOf(wallet) > 0;
+        if (holds && !isHolder[wallet]) {
+            isHolder[wallet] = true;
+            holderCount++;
+        } else if (!holds && isHolder[wallet]) {
+            isHolder[wallet] = false;
+            holderCount--;
+        }
+    }
+}
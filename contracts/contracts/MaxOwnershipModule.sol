@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "./ComplianceModule.sol";
+import "./ChainEquityToken.sol";
+
+/**
+ * @title MaxOwnershipModule
+ * @notice Caps the share of the authorized supply a single wallet may hold
+ *
+ * @dev The limit is in basis points of the token's totalAuthorized, so it does not move as shares
+ * are issued or redeemed. Transfers and mints that would take the recipient above the limit are
+ * rejected; wallets already above it can still sell down.
+ */
+contract MaxOwnershipModule is ComplianceModule {
+    uint256 private constant BPS = 10_000;
+
+    /// @notice Maximum holding per wallet in basis points of totalAuthorized (0 = no limit)
+    uint256 public maxOwnershipBps;
+
+    /// @notice Emitted when the ownership limit changes
+    event MaxOwnershipSet(address indexed token, uint256 maxOwnershipBps);
+
+    /**
+     * @param compliance_ ModularCompliance to bind to
+     */
+    constructor(address compliance_) ComplianceModule(compliance_) {}
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function name() external pure returns (string memory) {
+        return "MaxOwnership";
+    }
+
+    /**
+     * @notice Sets the ownership limit
+     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @param maxOwnershipBps_ Maximum holding in basis points of totalAuthorized (0 = no limit)
+     */
+    function setMaxOwnership(uint256 maxOwnershipBps_) external onlyOwner {
+        require(maxOwnershipBps_ <= BPS, "MaxOwnershipModule: limit exceeds 100%");
+        maxOwnershipBps = maxOwnershipBps_;
+        emit MaxOwnershipSet(token, maxOwnershipBps_);
+    }
+
+    /**
+     * @inheritdoc IComplianceModule
+     */
+    function moduleCheck(address, address to, uint256 value) external view returns (bool) {
+        if (maxOwnershipBps == 0 || to == address(0)) {
+            return true;
+        }
+        uint256 balanceAfter = IERC20(token).balanceOf(to) + value;
+        return balanceAfter * BPS <= ChainEquityToken(token).totalAuthorized() * maxOwnershipBps;
+    }
+}
@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: UNLICENSED
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./ICompliance.sol";
+import "./IComplianceModule.sol";
+
+/**
+ * @title ModularCompliance
+ * @notice Compliance contract that allows a token movement only if every plugged-in module does
+ *
+ * @dev Bound to a single token at deployment. The issuer adds and removes modules (max holder
+ * count, per-investor max ownership, country restrictions, accredited investors, or any custom
+ * IComplianceModule) and then points the token at this contract with setCompliance(). With no
+ * modules every movement is allowed.
+ *
+ * @custom:roles Role-based access control:
+ * - Owner (issuer role): Adds and removes modules. Owner = issuer role.
+ * - Token: Only the bound token may report balance changes through transferred().
+ */
+contract ModularCompliance is ICompliance, Ownable {
+    // Upper bound on modules, so canTransfer() stays within a transfer's gas budget
+    uint256 public constant MAX_MODULES = 10;
+
+    /// @notice Token whose movements this compliance checks
+    address public immutable token;
+
+    // Plugged-in modules, in the order they were added
+    address[] private modules;
+    mapping(address => bool) public isModule;
+
+    /// @notice Emitted when a module is plugged in
+    event ModuleAdded(address indexed token, address indexed module, string moduleName);
+
+    /// @notice Emitted when a module is removed
+    event ModuleRemoved(address indexed token, address indexed module);
+
+    /**
+     * @notice Deploys a compliance for a token with the deployer as owner (issuer)
+     * @param token_ Token to bind to
+     */
+    constructor(address token_) Ownable(msg.sender) {
+        require(token_ != address(0), "ModularCompliance: token cannot be zero address");
+        token = token_;
+    }
+
+    modifier onlyToken() {
+        require(msg.sender == token, "ModularCompliance: caller is not the token");
+        _;
+    }
+
+    /**
+     * @notice Plugs a module into this compliance
+     * @dev The module must have been deployed for this compliance.
+     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @param module Module to add
+     */
+    function addModule(address module) external onlyOwner {
+        require(!isModule[module], "ModularCompliance: module already added");
+        require(modules.length < MAX_MODULES, "ModularCompliance: too many modules");
+        require(
+            IComplianceModule(module).compliance() == address(this),
+            "ModularCompliance: module bound to another compliance"
+        );
+
+        modules.push(module);
+        isModule[module] = true;
+        emit ModuleAdded(token, module, IComplianceModule(module).name());
+    }
+
+    /**
+     * @notice Removes a module from this compliance
+     * @custom:roles Requires issuer role (enforced via onlyOwner modifier). Owner = issuer role.
+     * @param module Module to remove
+     */
+    function removeModule(address module) external onlyOwner {
+        require(isModule[module], "ModularCompliance: module not added");
+
+        for (uint256 i = 0; i < modules.length; i++) {
+            if (modules[i] == module) {
+                modules[i] = modules[modules.length - 1];
+                modules.pop();
+                break;
+            }
+        }
+        isModule[module] = false;
+        emit ModuleRemoved(token, module);
+    }
+
+    /**
+     * @notice Returns the plugged-in modules
+     * @return address[] Module addresses
+     */
+    function getModules() external view returns (address[] memory) {
+        return modules;
+    }
+
+    /**
+     * @inheritdoc ICompliance
+     */
+    function canTransfer(address from, address to, uint256 value) external view returns (bool) {
+        for (uint256 i = 0; i < modules.length; i++) {
+            if (!IComplianceModule(modules[i]).moduleCheck(from, to, value)) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * @inheritdoc ICompliance
+     */
+    function transferred(address from, address to, uint256 value) external onlyToken {
+        for (uint256 i = 0; i < modules.length; i++) {
+            IComplianceModule(modules[i]).moduleAction(from, to, value);
+        }
+    }
+}
@@ -1,10 +1,12 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import CapTableFactoryModule from "./CapTableFactory";
 
 /**
  * Deployment module for Acme Inc. Company
  *
  * Deploys both ChainEquityToken and CapTable contracts, then links them together.
  * This module ensures deterministic deployment order: token → capTable → link.
+ * It also deploys CapTableFactory, used to create further companies (see CompanyModule.ts).
  */
 export default buildModule("AcmeCompany", (m) => {
   // Step 1: Deploy ChainEquityToken
@@ -25,5 +27,8 @@ export default buildModule("AcmeCompany", (m) => {
   // Step 3: Link token to cap table (must happen after both are deployed)
   m.call(capTable, "linkToken", [token]);
 
-  return { token, capTable };
+  // Step 4: Deploy the factory for companies created later
+  const { factory } = m.useModule(CapTableFactoryModule);
+
+  return { token, capTable, factory };
 });
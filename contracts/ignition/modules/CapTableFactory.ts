@@ -0,0 +1,16 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Deployment module for CapTableFactory
+ *
+ * Deploys the factory that creates linked ChainEquityToken + CapTable pairs for new companies,
+ * together with the ChainEquityTokenDeployer it creates tokens through.
+ * The deployer becomes the factory owner (platform admin), the only account that can create
+ * companies. The backend discovers companies from the factory's CompanyCreated events.
+ */
+export default buildModule("CapTableFactoryModule", (m) => {
+  const tokenDeployer = m.contract("ChainEquityTokenDeployer");
+  const factory = m.contract("CapTableFactory", [tokenDeployer]);
+
+  return { factory, tokenDeployer };
+});
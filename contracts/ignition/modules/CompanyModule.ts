@@ -1,37 +1,60 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import CapTableFactoryModule from "./CapTableFactory";
 
 /**
  * Generic deployment module for Company deployment
  *
- * Deploys both ChainEquityToken and CapTable contracts, then links them together.
- * This module ensures deterministic deployment order: token → capTable → link.
+ * Creates a company through CapTableFactory, which deploys ChainEquityToken and CapTable,
+ * links them and hands both to the issuer in a single transaction. The factory is deployed
+ * first if this network does not have one yet.
  *
- * This module can be customized by modifying the parameters directly in the module,
- * or by creating a new module file that imports and uses this pattern.
+ * Company details are Ignition parameters, so no module edits are needed per company:
  *
- * For a reusable factory function, see the documentation.
+ *   npx hardhat ignition deploy ignition/modules/CompanyModule.ts --network localhost \
+ *     --parameters parameters/globex.json
+ *
+ * with parameters/globex.json:
+ *
+ *   { "CompanyModule": { "companyName": "Globex", "companySymbol": "GLBX",
+ *     "tokenName": "Globex Equity", "totalAuthorized": "1000000000000000000000000" } }
+ *
+ * The issuer defaults to the deploying account.
  */
 export default buildModule("CompanyModule", (m) => {
-  // Configuration - customize these values for your deployment
-  const companyName = "Acme Inc.";
-  const companySymbol = "ACME";
-  const tokenName = "Acme Inc. Equity";
-  const totalAuthorized = 1_000_000n * 10n ** 18n; // 1M shares with 18 decimals
+  const { factory } = m.useModule(CapTableFactoryModule);
 
-  // Step 1: Deploy ChainEquityToken
-  const token = m.contract("ChainEquityToken", [
-    tokenName,
+  const companyName = m.getParameter<string>("companyName");
+  const companySymbol = m.getParameter<string>("companySymbol");
+  const tokenName = m.getParameter<string>("tokenName");
+  // Use bigint for portability and consistency with existing modules.
+  const totalAuthorized = m.getParameter<bigint>(
+    "totalAuthorized",
+    1_000_000n * 10n ** 18n // 1M shares with 18 decimals
+  );
+  const issuer = m.getParameter("issuer", m.getAccount(0));
+
+  const createCompany = m.call(factory, "createCompany", [
+    companyName,
     companySymbol,
-    // Use bigint for portability and consistency with existing modules.
-    // Equivalent to parseEther() but does not depend on Hardhat runtime.
+    tokenName,
     totalAuthorized,
+    issuer,
   ]);
 
-  // Step 2: Deploy CapTable
-  const capTable = m.contract("CapTable", [companyName, companySymbol]);
+  // Addresses of the pair the factory deployed
+  const capTableAddress = m.readEventArgument(
+    createCompany,
+    "CompanyCreated",
+    "capTable"
+  );
+  const tokenAddress = m.readEventArgument(
+    createCompany,
+    "CompanyCreated",
+    "token"
+  );
 
-  // Step 3: Link token to cap table (must happen after both are deployed)
-  m.call(capTable, "linkToken", [token]);
+  const token = m.contractAt("ChainEquityToken", tokenAddress);
+  const capTable = m.contractAt("CapTable", capTableAddress);
 
-  return { token, capTable };
+  return { factory, token, capTable };
 });
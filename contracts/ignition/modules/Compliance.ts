@@ -0,0 +1,54 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+/**
+ * Deployment module for a company's modular compliance
+ *
+ * Deploys a ModularCompliance bound to an existing ChainEquityToken together with the four
+ * built-in modules (max holders, max ownership, country restrictions, accredited investors) and
+ * points the token at the compliance. The max holders, max ownership and country modules are
+ * plugged in unconfigured, so they allow every movement until the issuer sets limits. The
+ * accredited-investor module is deployed but left out, since it blocks every recipient not yet
+ * marked accredited: the issuer records accreditations first and plugs it in from the frontend
+ * Compliance page.
+ *
+ * Must be deployed by the token's issuer:
+ *
+ *   npx hardhat ignition deploy ignition/modules/Compliance.ts --network localhost \
+ *     --parameters '{"ComplianceModule":{"tokenAddress":"0x..."}}'
+ */
+export default buildModule("ComplianceModule", (m) => {
+  const tokenAddress = m.getParameter<string>("tokenAddress");
+
+  const token = m.contractAt("ChainEquityToken", tokenAddress);
+  const compliance = m.contract("ModularCompliance", [tokenAddress]);
+
+  const maxHolders = m.contract("MaxHoldersModule", [compliance]);
+  const maxOwnership = m.contract("MaxOwnershipModule", [compliance]);
+  const countryRestriction = m.contract("CountryRestrictionModule", [
+    compliance,
+  ]);
+  const accreditedInvestor = m.contract("AccreditedInvestorModule", [
+    compliance,
+  ]);
+
+  const added = [
+    m.call(compliance, "addModule", [maxHolders], { id: "addMaxHolders" }),
+    m.call(compliance, "addModule", [maxOwnership], {
+      id: "addMaxOwnership",
+    }),
+    m.call(compliance, "addModule", [countryRestriction], {
+      id: "addCountryRestriction",
+    }),
+  ];
+
+  m.call(token, "setCompliance", [compliance], { after: added });
+
+  return {
+    token,
+    compliance,
+    maxHolders,
+    maxOwnership,
+    countryRestriction,
+    accreditedInvestor,
+  };
+});
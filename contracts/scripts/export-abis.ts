@@ -19,6 +19,12 @@ async function main() {
   const contracts = [
     { name: "CapTable", artifactPath: "CapTable.sol/CapTable.json" },
     { name: "ChainEquityToken", artifactPath: "ChainEquityToken.sol/ChainEquityToken.json" },
+    { name: "CapTableFactory", artifactPath: "CapTableFactory.sol/CapTableFactory.json" },
+    { name: "ModularCompliance", artifactPath: "ModularCompliance.sol/ModularCompliance.json" },
+    { name: "MaxHoldersModule", artifactPath: "MaxHoldersModule.sol/MaxHoldersModule.json" },
+    { name: "MaxOwnershipModule", artifactPath: "MaxOwnershipModule.sol/MaxOwnershipModule.json" },
+    { name: "CountryRestrictionModule", artifactPath: "CountryRestrictionModule.sol/CountryRestrictionModule.json" },
+    { name: "AccreditedInvestorModule", artifactPath: "AccreditedInvestorModule.sol/AccreditedInvestorModule.json" },
   ];
 
   // Ensure exports/abis directory exists
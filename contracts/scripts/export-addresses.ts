@@ -7,7 +7,8 @@ import * as path from "path";
  * to a structured JSON file for backend/frontend consumption.
  * 
  * Reads addresses from ignition/deployments/chain-{chainId}/deployed_addresses.json
- * and writes to exports/deployments.json in nested format.
+ * and writes to exports/deployments.json in nested format. The CapTableFactory address, when
+ * deployed, is written to `factories[chainId]` next to the per-company `networks` entries.
  * 
  * This script can run under Hardhat or standalone (e.g. Bun/Node).
  * Falls back to a local RPC provider if Hardhat's runtime is not injected.
@@ -69,8 +70,14 @@ async function main() {
     );
   }
 
+  // Factory used by the backend to discover companies created later
+  const factoryAddress = deployedAddresses["CapTableFactoryModule#CapTableFactory"];
+
   console.log(`Token address: ${tokenAddress}`);
   console.log(`CapTable address: ${capTableAddress}`);
+  if (factoryAddress) {
+    console.log(`CapTableFactory address: ${factoryAddress}`);
+  }
 
   // Path to exports file
   const exportsPath = path.join(__dirname, "..", "exports", "deployments.json");
@@ -85,6 +92,9 @@ async function main() {
         };
       };
     };
+    factories?: {
+      [chainId: string]: string;
+    };
   };
 
   if (fs.existsSync(exportsPath)) {
@@ -109,6 +119,13 @@ async function main() {
     token: tokenAddress,
   };
 
+  if (factoryAddress) {
+    deployments.factories = {
+      ...deployments.factories,
+      [chainId]: factoryAddress,
+    };
+  }
+
   // Ensure exports directory exists
   const exportsDir = path.dirname(exportsPath);
   if (!fs.existsSync(exportsDir)) {
@@ -1,43 +1,62 @@
 /**
- * Token Migration Helper Script Template
- * 
- * This is a template/documentation script for Phase 2 implementation.
- * It provides the structure and guidance for implementing token migration utilities.
- * 
- * STATUS: Template only - Implementation deferred until Phase 2 (Backend API + Event Indexer)
- * 
- * PURPOSE:
- * - Balance snapshot generation
- * - Migration verification utilities
- * - Allowlist state transfer helpers
- * - Corporate action recording helpers
- * 
- * See docs/migration-workflow.md for complete migration workflow documentation.
- * 
- * USAGE (when implemented):
- *   bunx hardhat run scripts/migration-helper.ts --network localhost
- *   OR
- *   bun run scripts/migration-helper.ts
+ * Token Migration Helper Script
+ *
+ * Replaces the ChainEquityToken linked to a CapTable with a freshly deployed token,
+ * preserving every holder's split-adjusted balance and the allowlist.
+ *
+ * The snapshot comes from the backend indexer database (old token balances cannot be
+ * enumerated on-chain). Generate it first from the backend package:
+ *   bun run migration:snapshot ../contracts/migration-snapshot.json
+ *
+ * Workflow (see docs/migration-workflow.md):
+ *   1. Load the snapshot and verify it against the old token on-chain
+ *   2. Deploy the replacement token (same name/symbol unless overridden)
+ *   3. CapTable.replaceToken() - records TOKEN_REPLACED and emits TokenReplaced, so the
+ *      backend indexer switches to the new token before anything is minted on it
+ *   4. Copy the allowlist and mint each holder's split-adjusted balance
+ *   5. Copy the transfer restriction setting
+ *   6. Verify the new token against the snapshot
+ *
+ * USAGE:
+ *   MIGRATION_SNAPSHOT=./migration-snapshot.json \
+ *     npx hardhat run scripts/migration-helper.ts --network localhost
+ *
+ * Optional environment variables:
+ *   CAPTABLE_ADDRESS   CapTable address (default: AcmeInc from exports/deployments.json)
+ *   NEW_TOKEN_NAME     Name for the replacement token (default: old token's name)
+ *   NEW_TOKEN_SYMBOL   Symbol for the replacement token (default: old token's symbol)
+ *   DRY_RUN=1          Verify the snapshot only, without sending transactions
+ *
+ * exports/deployments.json keeps the original token address: the backend indexes the
+ * original token from it and follows TokenReplaced events to the replacement.
  */
 
 import hre from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
+import type { CapTable, ChainEquityToken } from "../typechain-types";
+
+/**
+ * Split factor precision (1e18 = 1x), matching ChainEquityToken.splitFactor
+ */
+const SPLIT_FACTOR_PRECISION = 10n ** 18n;
 
 /**
  * Snapshot data structure for token migration
+ * Written by backend/scripts/export-migration-snapshot.ts; amounts are decimal strings
  */
 interface MigrationSnapshot {
   blockNumber: number;
   timestamp: number;
   oldTokenAddress: string;
+  splitFactor: string;
   totalSupply: string;
+  totalEffectiveSupply: string;
   shareholderCount: number;
   shareholders: Array<{
     address: string;
     balance: string;
-    effectiveBalance?: string;
-    isApproved: boolean;
+    effectiveBalance: string;
   }>;
   approvedAddresses: string[];
   transfersRestricted: boolean;
@@ -55,330 +74,495 @@ interface MigrationResult {
 }
 
 /**
- * Step 1: Generate balance snapshot from old token
- * 
- * This function queries all shareholder balances and creates a snapshot
- * for migration purposes.
- * 
- * @param oldTokenAddress Address of the old token contract
- * @param provider Ethereum provider
- * @returns Migration snapshot with all balances and state
+ * Verification result structure
  */
-async function generateSnapshot(
-  oldTokenAddress: string,
-  provider: any
-): Promise<MigrationSnapshot> {
-  // TODO: Implement in Phase 2
-  // 1. Connect to old token contract
-  // 2. Get current block number (snapshot block)
-  // 3. Query totalSupply()
-  // 4. Query all shareholder balances (requires indexer or event scanning)
-  // 5. Query allowlist state for all known addresses
-  // 6. Query transfersRestricted state
-  // 7. Return structured snapshot
-  
-  throw new Error("Not implemented - Phase 2");
+interface VerificationResult {
+  success: boolean;
+  errors: string[];
+  warnings: string[];
 }
 
 /**
- * Step 2: Verify snapshot integrity
- * 
- * Verifies that the snapshot is consistent and complete.
- * 
- * @param snapshot Migration snapshot to verify
- * @returns true if snapshot is valid, throws error if invalid
+ * Load a snapshot written by the backend export script
+ *
+ * @param snapshotPath Path to snapshot file
+ * @returns Migration snapshot
  */
-async function verifySnapshot(snapshot: MigrationSnapshot): Promise<boolean> {
-  // TODO: Implement in Phase 2
-  // 1. Verify totalSupply matches sum of all balances
-  // 2. Check for duplicate addresses
-  // 3. Verify block number is valid
-  // 4. Check snapshot timestamp
-  // 5. Return true if valid, throw error if invalid
-  
-  throw new Error("Not implemented - Phase 2");
+function loadSnapshot(snapshotPath: string): MigrationSnapshot {
+  if (!fs.existsSync(snapshotPath)) {
+    throw new Error(`Snapshot file not found at ${snapshotPath}`);
+  }
+
+  const snapshot = JSON.parse(
+    fs.readFileSync(snapshotPath, "utf-8")
+  ) as MigrationSnapshot;
+
+  if (
+    typeof snapshot.blockNumber !== "number" ||
+    !hre.ethers.isAddress(snapshot.oldTokenAddress) ||
+    !Array.isArray(snapshot.shareholders) ||
+    !Array.isArray(snapshot.approvedAddresses) ||
+    typeof snapshot.transfersRestricted !== "boolean"
+  ) {
+    throw new Error(`Invalid snapshot structure in ${snapshotPath}`);
+  }
+
+  return snapshot;
 }
 
 /**
- * Step 3: Save snapshot to file
- * 
- * Saves snapshot to JSON file for backup and verification.
- * 
+ * Save a snapshot to file
+ *
  * @param snapshot Migration snapshot
  * @param outputPath Path to save snapshot file
  */
 function saveSnapshot(snapshot: MigrationSnapshot, outputPath: string): void {
-  // TODO: Implement in Phase 2
-  // 1. Create output directory if it doesn't exist
-  // 2. Write snapshot to JSON file
-  // 3. Add metadata (version, timestamp)
-  
-  throw new Error("Not implemented - Phase 2");
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(snapshot, null, 2));
 }
 
 /**
- * Step 4: Load snapshot from file
- * 
- * Loads a previously saved snapshot from file.
- * 
- * @param snapshotPath Path to snapshot file
- * @returns Migration snapshot
+ * Verify that a snapshot is internally consistent and still matches the old token
+ *
+ * Any activity on the old token after the snapshot (mints, transfers, approvals) shows up
+ * as a mismatch, so the migration never runs against a stale snapshot.
+ *
+ * @param snapshot Migration snapshot to verify
+ * @param oldToken Old token contract
+ * @returns Verification result with any errors or warnings
  */
-function loadSnapshot(snapshotPath: string): MigrationSnapshot {
-  // TODO: Implement in Phase 2
-  // 1. Read JSON file
-  // 2. Validate structure
-  // 3. Return snapshot object
-  
-  throw new Error("Not implemented - Phase 2");
+async function verifySnapshot(
+  snapshot: MigrationSnapshot,
+  oldToken: ChainEquityToken
+): Promise<VerificationResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // 1. Internal consistency
+  const seen = new Set<string>();
+  let totalSupply = 0n;
+  let totalEffectiveSupply = 0n;
+  for (const holder of snapshot.shareholders) {
+    const address = holder.address.toLowerCase();
+    if (seen.has(address)) {
+      errors.push(`Duplicate shareholder ${holder.address}`);
+    }
+    seen.add(address);
+
+    const expectedEffective =
+      (BigInt(holder.balance) * BigInt(snapshot.splitFactor)) /
+      SPLIT_FACTOR_PRECISION;
+    if (BigInt(holder.effectiveBalance) !== expectedEffective) {
+      errors.push(
+        `Effective balance for ${holder.address} is ${holder.effectiveBalance}, expected ${expectedEffective}`
+      );
+    }
+
+    totalSupply += BigInt(holder.balance);
+    totalEffectiveSupply += BigInt(holder.effectiveBalance);
+  }
+
+  if (totalSupply !== BigInt(snapshot.totalSupply)) {
+    errors.push(
+      `Sum of balances ${totalSupply} does not match snapshot total supply ${snapshot.totalSupply}`
+    );
+  }
+  if (totalEffectiveSupply !== BigInt(snapshot.totalEffectiveSupply)) {
+    errors.push(
+      `Sum of effective balances ${totalEffectiveSupply} does not match snapshot total ${snapshot.totalEffectiveSupply}`
+    );
+  }
+
+  // 2. On-chain state of the old token
+  const oldTokenAddress = await oldToken.getAddress();
+  if (oldTokenAddress.toLowerCase() !== snapshot.oldTokenAddress.toLowerCase()) {
+    errors.push(
+      `Snapshot was taken for ${snapshot.oldTokenAddress}, but the linked token is ${oldTokenAddress}`
+    );
+  }
+
+  const [onChainSupply, onChainFactor, onChainRestricted] = await Promise.all([
+    oldToken.totalSupply(),
+    oldToken.splitFactor(),
+    oldToken.transfersRestricted(),
+  ]);
+  if (onChainSupply !== BigInt(snapshot.totalSupply)) {
+    errors.push(
+      `Old token total supply ${onChainSupply} does not match snapshot ${snapshot.totalSupply} (indexer behind or activity after snapshot)`
+    );
+  }
+  if (onChainFactor !== BigInt(snapshot.splitFactor)) {
+    errors.push(
+      `Old token split factor ${onChainFactor} does not match snapshot ${snapshot.splitFactor}`
+    );
+  }
+  if (onChainRestricted !== snapshot.transfersRestricted) {
+    errors.push(
+      `Old token transfer restriction ${onChainRestricted} does not match snapshot ${snapshot.transfersRestricted}`
+    );
+  }
+
+  for (const holder of snapshot.shareholders) {
+    const balance = await oldToken.balanceOf(holder.address);
+    if (balance !== BigInt(holder.balance)) {
+      errors.push(
+        `Old token balance for ${holder.address} is ${balance}, snapshot has ${holder.balance}`
+      );
+    }
+  }
+
+  for (const address of snapshot.approvedAddresses) {
+    if (!(await oldToken.allowlist(address))) {
+      errors.push(`${address} is in the snapshot allowlist but not approved on the old token`);
+    }
+  }
+
+  if (snapshot.shareholders.length === 0) {
+    warnings.push("Snapshot has no shareholders; only the allowlist will be migrated");
+  }
+
+  return { success: errors.length === 0, errors, warnings };
 }
 
 /**
- * Step 5: Migrate balances to new token
- * 
- * Mints all balances from snapshot to new token contract.
- * 
- * @param newTokenAddress Address of new token contract
+ * Deploy the replacement token
+ *
+ * The replacement starts at a 1x split factor and holds split-adjusted balances, so its
+ * authorized shares are the old token's authorized shares at the snapshot split factor.
+ *
+ * @param oldToken Old token contract
  * @param snapshot Migration snapshot
- * @param issuerWallet Issuer wallet (signer)
- * @returns Array of transaction receipts
+ * @param options Optional name/symbol overrides
+ * @returns Deployed replacement token
  */
-async function migrateBalances(
-  newTokenAddress: string,
+async function deployReplacementToken(
+  oldToken: ChainEquityToken,
   snapshot: MigrationSnapshot,
-  issuerWallet: any
-): Promise<any[]> {
-  // TODO: Implement in Phase 2
-  // 1. Connect to new token contract
-  // 2. For each shareholder in snapshot:
-  //    a. Call mint(shareholder.address, shareholder.balance)
-  //    b. Wait for transaction confirmation
-  //    c. Log progress
-  // 3. Handle errors gracefully (continue on failure, log issues)
-  // 4. Return array of transaction receipts
-  
-  throw new Error("Not implemented - Phase 2");
+  options: { name?: string; symbol?: string } = {}
+): Promise<ChainEquityToken> {
+  const name = options.name ?? (await oldToken.name());
+  const symbol = options.symbol ?? (await oldToken.symbol());
+  const totalAuthorized =
+    ((await oldToken.totalAuthorized()) * BigInt(snapshot.splitFactor)) /
+    SPLIT_FACTOR_PRECISION;
+
+  if (totalAuthorized < BigInt(snapshot.totalEffectiveSupply)) {
+    throw new Error(
+      `Split-adjusted authorized shares ${totalAuthorized} are below the migrated supply ${snapshot.totalEffectiveSupply}`
+    );
+  }
+
+  const factory = await hre.ethers.getContractFactory("ChainEquityToken");
+  const newToken = (await factory.deploy(
+    name,
+    symbol,
+    totalAuthorized
+  )) as unknown as ChainEquityToken;
+  await newToken.waitForDeployment();
+
+  console.log(
+    `🚀 Deployed replacement ${name} (${symbol}) at ${await newToken.getAddress()}`
+  );
+  return newToken;
 }
 
 /**
- * Step 6: Migrate allowlist to new token
- * 
- * Copies all approved addresses from old token to new token.
- * 
- * @param newTokenAddress Address of new token contract
- * @param approvedAddresses Array of approved addresses
- * @param issuerWallet Issuer wallet (signer)
- * @returns Array of transaction receipts
+ * Replace the linked token on the CapTable
+ *
+ * Records TOKEN_REPLACED with abi.encode(oldToken, newToken, migrationBlockNumber).
+ *
+ * @param capTable CapTable contract
+ * @param newTokenAddress Address of the replacement token
+ * @param migrationBlockNumber Block number the snapshot reflects
+ * @returns Corporate action ID of the TOKEN_REPLACED record
  */
-async function migrateAllowlist(
+async function recordCorporateAction(
+  capTable: CapTable,
   newTokenAddress: string,
-  approvedAddresses: string[],
-  issuerWallet: any
-): Promise<any[]> {
-  // TODO: Implement in Phase 2
-  // 1. Connect to new token contract
-  // 2. For each approved address:
-  //    a. Call approveWallet(address)
-  //    b. Wait for transaction confirmation
-  //    c. Log progress
-  // 3. Handle errors gracefully
-  // 4. Return array of transaction receipts
-  
-  throw new Error("Not implemented - Phase 2");
+  migrationBlockNumber: number
+): Promise<number> {
+  const tx = await capTable.replaceToken(newTokenAddress, migrationBlockNumber);
+  const receipt = await tx.wait();
+
+  for (const log of receipt?.logs ?? []) {
+    const parsed = capTable.interface.parseLog(log);
+    if (parsed?.name === "CorporateActionRecorded") {
+      const actionId = Number(parsed.args.actionId);
+      console.log(`📋 Recorded TOKEN_REPLACED (action ${actionId})`);
+      return actionId;
+    }
+  }
+
+  throw new Error("replaceToken did not emit CorporateActionRecorded");
 }
 
 /**
- * Step 7: Copy transfer restrictions
- * 
- * Sets transfer restrictions on new token to match old token.
- * 
- * @param newTokenAddress Address of new token contract
- * @param transfersRestricted Whether transfers are restricted
- * @param issuerWallet Issuer wallet (signer)
- * @returns Transaction receipt
+ * Copy the allowlist to the replacement token
+ *
+ * @param newToken Replacement token contract
+ * @param approvedAddresses Addresses approved on the old token
  */
-async function copyTransferRestrictions(
-  newTokenAddress: string,
-  transfersRestricted: boolean,
-  issuerWallet: any
-): Promise<any> {
-  // TODO: Implement in Phase 2
-  // 1. Connect to new token contract
-  // 2. Call setTransfersRestricted(transfersRestricted)
-  // 3. Wait for transaction confirmation
-  // 4. Return transaction receipt
-  
-  throw new Error("Not implemented - Phase 2");
+async function migrateAllowlist(
+  newToken: ChainEquityToken,
+  approvedAddresses: string[]
+): Promise<void> {
+  for (const address of approvedAddresses) {
+    if (await newToken.allowlist(address)) {
+      continue;
+    }
+    await (await newToken.approveWallet(address)).wait();
+  }
+  console.log(`✅ Approved ${approvedAddresses.length} wallets on the replacement token`);
 }
 
 /**
- * Step 8: Record corporate action
- * 
- * Records token replacement in CapTable.
- * 
- * @param capTableAddress Address of CapTable contract
- * @param oldTokenAddress Address of old token
- * @param newTokenAddress Address of new token
- * @param migrationBlockNumber Block number when snapshot was taken
- * @param issuerWallet Issuer wallet (signer)
- * @returns Transaction receipt and action ID
+ * Mint split-adjusted balances on the replacement token
+ *
+ * Minting requires an approved recipient, so holders that were revoked on the old token
+ * are approved for the mint and revoked again, preserving their allowlist state.
+ *
+ * @param newToken Replacement token contract
+ * @param snapshot Migration snapshot
  */
-async function recordCorporateAction(
-  capTableAddress: string,
-  oldTokenAddress: string,
-  newTokenAddress: string,
-  migrationBlockNumber: number,
-  issuerWallet: any
-): Promise<{ receipt: any; actionId: number }> {
-  // TODO: Implement in Phase 2
-  // 1. Connect to CapTable contract
-  // 2. Encode data: abi.encode(oldTokenAddress, newTokenAddress, migrationBlockNumber)
-  // 3. Call recordCorporateAction("TOKEN_REPLACED", encodedData)
-  // 4. Wait for transaction confirmation
-  // 5. Parse CorporateActionRecorded event to get actionId
-  // 6. Return receipt and actionId
-  
-  throw new Error("Not implemented - Phase 2");
+async function migrateBalances(
+  newToken: ChainEquityToken,
+  snapshot: MigrationSnapshot
+): Promise<void> {
+  const approved = new Set(
+    snapshot.approvedAddresses.map((address) => address.toLowerCase())
+  );
+
+  let minted = 0;
+  for (const holder of snapshot.shareholders) {
+    const amount = BigInt(holder.effectiveBalance);
+    if (amount === 0n) {
+      continue;
+    }
+
+    const isApproved = approved.has(holder.address.toLowerCase());
+    if (!isApproved) {
+      await (await newToken.approveWallet(holder.address)).wait();
+    }
+    await (await newToken.mint(holder.address, amount)).wait();
+    if (!isApproved) {
+      await (await newToken.revokeWallet(holder.address)).wait();
+    }
+    minted++;
+  }
+  console.log(`✅ Minted split-adjusted balances for ${minted} shareholders`);
 }
 
 /**
- * Step 9: Verify migration completeness
- * 
- * Verifies that migration was successful by comparing old and new tokens.
- * 
- * @param oldTokenAddress Address of old token
- * @param newTokenAddress Address of new token
+ * Copy the transfer restriction setting to the replacement token
+ *
+ * @param newToken Replacement token contract
+ * @param transfersRestricted Whether transfers are restricted on the old token
+ */
+async function copyTransferRestrictions(
+  newToken: ChainEquityToken,
+  transfersRestricted: boolean
+): Promise<void> {
+  if ((await newToken.transfersRestricted()) !== transfersRestricted) {
+    await (await newToken.setTransfersRestricted(transfersRestricted)).wait();
+  }
+}
+
+/**
+ * Verify the replacement token against the snapshot
+ *
+ * @param newToken Replacement token contract
  * @param snapshot Migration snapshot
- * @param provider Ethereum provider
  * @returns Verification result with any errors or warnings
  */
 async function verifyMigration(
-  oldTokenAddress: string,
-  newTokenAddress: string,
-  snapshot: MigrationSnapshot,
-  provider: any
-): Promise<{ success: boolean; errors: string[]; warnings: string[] }> {
-  // TODO: Implement in Phase 2
-  // 1. Connect to both old and new token contracts
-  // 2. Verify totalSupply matches
-  // 3. For each shareholder in snapshot:
-  //    a. Compare oldToken.balanceOf(addr) with newToken.balanceOf(addr)
-  //    b. Log any mismatches
-  // 4. Verify allowlist state matches
-  // 5. Verify transfer restrictions match
-  // 6. Return verification result
-  
-  throw new Error("Not implemented - Phase 2");
+  newToken: ChainEquityToken,
+  snapshot: MigrationSnapshot
+): Promise<VerificationResult> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const [totalSupply, splitFactor, transfersRestricted] = await Promise.all([
+    newToken.totalSupply(),
+    newToken.splitFactor(),
+    newToken.transfersRestricted(),
+  ]);
+
+  if (totalSupply !== BigInt(snapshot.totalEffectiveSupply)) {
+    errors.push(
+      `Replacement total supply ${totalSupply} does not match split-adjusted snapshot supply ${snapshot.totalEffectiveSupply}`
+    );
+  }
+  if (splitFactor !== SPLIT_FACTOR_PRECISION) {
+    errors.push(`Replacement split factor is ${splitFactor}, expected 1x`);
+  }
+  if (transfersRestricted !== snapshot.transfersRestricted) {
+    errors.push(
+      `Replacement transfer restriction ${transfersRestricted} does not match snapshot ${snapshot.transfersRestricted}`
+    );
+  }
+
+  for (const holder of snapshot.shareholders) {
+    const balance = await newToken.balanceOf(holder.address);
+    if (balance !== BigInt(holder.effectiveBalance)) {
+      errors.push(
+        `Replacement balance for ${holder.address} is ${balance}, expected ${holder.effectiveBalance}`
+      );
+    }
+  }
+
+  for (const address of snapshot.approvedAddresses) {
+    if (!(await newToken.allowlist(address))) {
+      errors.push(`${address} is not approved on the replacement token`);
+    }
+  }
+
+  if (BigInt(snapshot.totalEffectiveSupply) * SPLIT_FACTOR_PRECISION !==
+    BigInt(snapshot.totalSupply) * BigInt(snapshot.splitFactor)) {
+    warnings.push(
+      "Split-adjusted balances were rounded down to the smallest token unit; see fractional share rules in ChainEquityToken.fractionalBalanceOf"
+    );
+  }
+
+  return { success: errors.length === 0, errors, warnings };
 }
 
 /**
  * Main migration function
- * 
+ *
  * Orchestrates the complete token migration workflow.
- * 
- * @param oldTokenAddress Address of old token contract
- * @param newTokenAddress Address of new token contract (or deploy new)
+ *
+ * @param snapshot Migration snapshot from the backend indexer database
  * @param capTableAddress Address of CapTable contract
- * @param issuerWallet Issuer wallet (signer)
- * @param options Migration options (dry-run, skip verification, etc.)
+ * @param options Migration options (dry-run, name/symbol overrides)
  * @returns Migration result
  */
 async function migrateToken(
-  oldTokenAddress: string,
-  newTokenAddress: string | null,
+  snapshot: MigrationSnapshot,
   capTableAddress: string,
-  issuerWallet: any,
   options: {
     dryRun?: boolean;
-    skipVerification?: boolean;
-    snapshotPath?: string;
+    name?: string;
+    symbol?: string;
   } = {}
 ): Promise<MigrationResult> {
-  // TODO: Implement in Phase 2
-  // This function orchestrates the complete migration workflow:
-  // 1. Generate or load snapshot
-  // 2. Verify snapshot integrity
-  // 3. Deploy new token (if newTokenAddress is null)
-  // 4. Migrate balances
-  // 5. Migrate allowlist
-  // 6. Copy transfer restrictions
-  // 7. Record corporate action
-  // 8. Verify migration (unless skipped)
-  // 9. Return result
-  
-  throw new Error("Not implemented - Phase 2");
-}
+  const capTable = (await hre.ethers.getContractAt(
+    "CapTable",
+    capTableAddress
+  )) as unknown as CapTable;
+  const oldToken = (await hre.ethers.getContractAt(
+    "ChainEquityToken",
+    await capTable.token()
+  )) as unknown as ChainEquityToken;
 
-/**
- * Helper: Get all shareholder addresses
- * 
- * Queries all addresses that have a balance > 0 on the token.
- * This requires either:
- * - Backend indexer with shareholder database
- * - Event scanning (Transfer events from address(0) indicate mints)
- * 
- * @param tokenAddress Address of token contract
- * @param provider Ethereum provider
- * @returns Array of shareholder addresses
- */
-async function getAllShareholders(
-  tokenAddress: string,
-  provider: any
-): Promise<string[]> {
-  // TODO: Implement in Phase 2
-  // Option 1: Query backend API for shareholders
-  // Option 2: Scan Transfer events from address(0) (mint events)
-  // Option 3: Use backend indexer database
-  
-  throw new Error("Not implemented - Phase 2");
+  // 1. Verify the snapshot against the old token
+  const snapshotCheck = await verifySnapshot(snapshot, oldToken);
+  if (!snapshotCheck.success || options.dryRun) {
+    return {
+      success: snapshotCheck.success,
+      errors: snapshotCheck.errors,
+      warnings: snapshotCheck.warnings,
+    };
+  }
+
+  // 2. Deploy the replacement
+  const newToken = await deployReplacementToken(oldToken, snapshot, options);
+  const newTokenAddress = await newToken.getAddress();
+
+  // 3. Switch the CapTable (and the indexer) to the replacement before minting
+  const actionId = await recordCorporateAction(
+    capTable,
+    newTokenAddress,
+    snapshot.blockNumber
+  );
+
+  // 4-5. Copy allowlist, balances and restrictions
+  await migrateAllowlist(newToken, snapshot.approvedAddresses);
+  await migrateBalances(newToken, snapshot);
+  await copyTransferRestrictions(newToken, snapshot.transfersRestricted);
+
+  // 6. Verify
+  const migrationCheck = await verifyMigration(newToken, snapshot);
+
+  return {
+    success: migrationCheck.success,
+    newTokenAddress,
+    actionId,
+    errors: migrationCheck.errors,
+    warnings: [...snapshotCheck.warnings, ...migrationCheck.warnings],
+  };
 }
 
 /**
- * Helper: Get all approved addresses
- * 
- * Queries all addresses that are approved on the allowlist.
- * This requires either:
- * - Backend indexer with allowlist database
- * - Event scanning (WalletApproved events)
- * 
- * @param tokenAddress Address of token contract
- * @param provider Ethereum provider
- * @returns Array of approved addresses
+ * Resolve the CapTable address from CAPTABLE_ADDRESS or exports/deployments.json
  */
-async function getAllApprovedAddresses(
-  tokenAddress: string,
-  provider: any
-): Promise<string[]> {
-  // TODO: Implement in Phase 2
-  // Option 1: Query backend API for approved addresses
-  // Option 2: Scan WalletApproved events
-  // Option 3: Use backend indexer database
-  
-  throw new Error("Not implemented - Phase 2");
+async function getCapTableAddress(): Promise<string> {
+  if (process.env.CAPTABLE_ADDRESS) {
+    return process.env.CAPTABLE_ADDRESS;
+  }
+
+  const deploymentsPath = path.join(__dirname, "..", "exports", "deployments.json");
+  if (!fs.existsSync(deploymentsPath)) {
+    throw new Error(
+      `Deployments file not found at ${deploymentsPath}. Set CAPTABLE_ADDRESS or run export-addresses.ts first.`
+    );
+  }
+
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const deployments = JSON.parse(fs.readFileSync(deploymentsPath, "utf-8"));
+  const address = deployments.networks?.[chainId.toString()]?.AcmeInc?.capTable;
+  if (!address) {
+    throw new Error(`No AcmeInc CapTable deployment found for chain ${chainId}`);
+  }
+  return address;
 }
 
 /**
  * Main script entry point
- * 
- * This is the main function that runs when the script is executed.
- * It provides a CLI interface for token migration operations.
  */
 async function main() {
   console.log("Token Migration Helper Script");
   console.log("==============================\n");
-  console.log("⚠️  This is a template script. Implementation deferred until Phase 2.\n");
-  console.log("When implemented, this script will provide:");
-  console.log("  - Balance snapshot generation");
-  console.log("  - Migration workflow orchestration");
-  console.log("  - Verification utilities");
-  console.log("  - Allowlist state transfer");
-  console.log("\nSee docs/migration-workflow.md for complete migration documentation.\n");
-  
-  // TODO: Implement CLI interface in Phase 2
-  // Example usage:
-  //   bunx hardhat run scripts/migration-helper.ts --snapshot old-token-address
-  //   bunx hardhat run scripts/migration-helper.ts --migrate old-token-address new-token-address
-  //   bunx hardhat run scripts/migration-helper.ts --verify old-token-address new-token-address
+
+  const snapshotPath = process.env.MIGRATION_SNAPSHOT;
+  if (!snapshotPath) {
+    throw new Error(
+      "Set MIGRATION_SNAPSHOT to a snapshot exported with `bun run migration:snapshot` in backend/"
+    );
+  }
+
+  const snapshot = loadSnapshot(path.resolve(snapshotPath));
+  const capTableAddress = await getCapTableAddress();
+  const dryRun = process.env.DRY_RUN === "1";
+
+  console.log(
+    `📸 Snapshot at block ${snapshot.blockNumber}: ${snapshot.shareholderCount} shareholders, ${snapshot.approvedAddresses.length} approved wallets`
+  );
+  console.log(`🏛️  CapTable: ${capTableAddress}${dryRun ? " (dry run)" : ""}\n`);
+
+  const result = await migrateToken(snapshot, capTableAddress, {
+    dryRun,
+    name: process.env.NEW_TOKEN_NAME,
+    symbol: process.env.NEW_TOKEN_SYMBOL,
+  });
+
+  for (const warning of result.warnings ?? []) {
+    console.warn(`⚠️  ${warning}`);
+  }
+  for (const error of result.errors ?? []) {
+    console.error(`❌ ${error}`);
+  }
+
+  if (!result.success) {
+    throw new Error("Token migration failed verification");
+  }
+
+  if (dryRun) {
+    console.log("\n✅ Snapshot verified; no transactions sent (dry run)");
+  } else {
+    console.log(
+      `\n✅ Migrated to ${result.newTokenAddress} (TOKEN_REPLACED action ${result.actionId})`
+    );
+  }
 }
 
 // Run main function if script is executed directly
@@ -391,21 +575,19 @@ if (require.main === module) {
     });
 }
 
-// Export functions for use in other scripts (when implemented)
+// Export functions for use in other scripts and tests
 export {
-  generateSnapshot,
-  verifySnapshot,
-  saveSnapshot,
   loadSnapshot,
-  migrateBalances,
+  saveSnapshot,
+  verifySnapshot,
+  deployReplacementToken,
+  recordCorporateAction,
   migrateAllowlist,
+  migrateBalances,
   copyTransferRestrictions,
-  recordCorporateAction,
   verifyMigration,
   migrateToken,
-  getAllShareholders,
-  getAllApprovedAddresses,
   type MigrationSnapshot,
   type MigrationResult,
+  type VerificationResult,
 };
-
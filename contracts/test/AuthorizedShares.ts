@@ -0,0 +1,131 @@
+/**
+ * Authorized Shares Test Suite
+ * ----------------------------
+ * Tests cover:
+ * - increaseAuthorizedShares/decreaseAuthorizedShares (AuthorizedSharesChanged) gated by
+ *   CORPORATE_ACTIONS_ROLE
+ * - Decreases cannot go below the outstanding supply
+ * - Mints use the amended limit
+ * - AUTHORIZED_SHARES_CHANGE corporate actions must match the linked token
+ */
+
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Authorized Shares", function () {
+  const parse = hre.ethers.parseEther;
+  const encode = (oldAuthorized: bigint, newAuthorized: bigint) =>
+    hre.ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint256", "uint256"],
+      [oldAuthorized, newAuthorized]
+    );
+
+  async function deployFixture() {
+    const [owner, alice] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      parse("1000")
+    );
+    await token.approveWallet(alice.address);
+    await token.mint(alice.address, parse("800"));
+
+    const CapTable = await hre.ethers.getContractFactory("CapTable");
+    const capTable = await CapTable.deploy("Acme Inc.", "ACME");
+    await capTable.linkToken(await token.getAddress());
+
+    return { token, capTable, owner, alice };
+  }
+
+  describe("increaseAuthorizedShares", function () {
+    it("raises the limit and emits AuthorizedSharesChanged", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.mint(alice.address, parse("300"))).to.be.revertedWith(
+        "ChainEquityToken: exceeds authorized supply"
+      );
+
+      await expect(token.increaseAuthorizedShares(parse("500")))
+        .to.emit(token, "AuthorizedSharesChanged")
+        .withArgs(parse("1000"), parse("1500"));
+      expect(await token.totalAuthorized()).to.equal(parse("1500"));
+
+      await token.mint(alice.address, parse("300"));
+      expect(await token.totalSupply()).to.equal(parse("1100"));
+    });
+
+    it("rejects a zero amount", async function () {
+      const { token } = await loadFixture(deployFixture);
+
+      await expect(token.increaseAuthorizedShares(0)).to.be.revertedWith(
+        "ChainEquityToken: amount must be > 0"
+      );
+    });
+
+    it("requires CORPORATE_ACTIONS_ROLE", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.connect(alice).increaseAuthorizedShares(parse("1")))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.CORPORATE_ACTIONS_ROLE());
+    });
+  });
+
+  describe("decreaseAuthorizedShares", function () {
+    it("lowers the limit down to the outstanding supply", async function () {
+      const { token } = await loadFixture(deployFixture);
+
+      await expect(token.decreaseAuthorizedShares(parse("200")))
+        .to.emit(token, "AuthorizedSharesChanged")
+        .withArgs(parse("1000"), parse("800"));
+      expect(await token.totalAuthorized()).to.equal(parse("800"));
+    });
+
+    it("rejects going below the outstanding supply or to zero", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.decreaseAuthorizedShares(parse("201"))).to.be.revertedWith(
+        "ChainEquityToken: authorized below outstanding supply"
+      );
+
+      await token.redeem(alice.address, parse("800"));
+      await expect(token.decreaseAuthorizedShares(parse("1000"))).to.be.revertedWith(
+        "ChainEquityToken: totalAuthorized must be > 0"
+      );
+    });
+  });
+
+  describe("AUTHORIZED_SHARES_CHANGE corporate action", function () {
+    it("records an amendment that matches the token", async function () {
+      const { token, capTable } = await loadFixture(deployFixture);
+      await token.increaseAuthorizedShares(parse("500"));
+
+      await expect(
+        capTable.recordCorporateAction(
+          "AUTHORIZED_SHARES_CHANGE",
+          encode(parse("1000"), parse("1500"))
+        )
+      ).to.emit(capTable, "CorporateActionRecorded");
+
+      const action = await capTable.getCorporateAction(1);
+      expect(action.actionType).to.equal("AUTHORIZED_SHARES_CHANGE");
+      expect(action.data).to.equal(encode(parse("1000"), parse("1500")));
+    });
+
+    it("rejects an amendment the token does not reflect", async function () {
+      const { capTable } = await loadFixture(deployFixture);
+
+      await expect(
+        capTable.recordCorporateAction(
+          "AUTHORIZED_SHARES_CHANGE",
+          encode(parse("1000"), parse("1500"))
+        )
+      ).to.be.revertedWith("CapTable: authorized shares do not match token");
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Batch Operations Test Suite
+ * ---------------------------
+ * Tests cover:
+ * - batchApprove (WalletApproved per new wallet) gated by COMPLIANCE_ROLE, skipping approved wallets
+ * - batchMint (Issued per row) gated by MINTER_ROLE
+ * - The whole batch reverts on an unapproved recipient or when it exceeds the authorized supply
+ */
+
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Batch Operations", function () {
+  const parse = hre.ethers.parseEther;
+
+  async function deployFixture() {
+    const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      parse("1000")
+    );
+
+    return { token, owner, alice, bob, carol };
+  }
+
+  describe("batchApprove", function () {
+    it("approves every wallet and skips wallets already approved", async function () {
+      const { token, owner, alice, bob, carol } = await loadFixture(deployFixture);
+      await token.approveWallet(alice.address);
+
+      const tx = token.batchApprove([alice.address, bob.address, carol.address]);
+      await expect(tx)
+        .to.emit(token, "WalletApproved")
+        .withArgs(owner.address, bob.address);
+      await expect(tx)
+        .to.emit(token, "WalletApproved")
+        .withArgs(owner.address, carol.address);
+
+      const receipt = await (await tx).wait();
+      const approvals = receipt!.logs.filter(
+        (log) => token.interface.parseLog(log)?.name === "WalletApproved"
+      );
+      expect(approvals).to.have.length(2);
+
+      for (const wallet of [alice, bob, carol]) {
+        expect(await token.isApproved(wallet.address)).to.equal(true);
+      }
+    });
+
+    it("rejects an empty batch or the zero address", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.batchApprove([])).to.be.revertedWith(
+        "ChainEquityToken: empty batch"
+      );
+      await expect(
+        token.batchApprove([alice.address, hre.ethers.ZeroAddress])
+      ).to.be.revertedWith("ChainEquityToken: cannot approve zero address");
+      expect(await token.isApproved(alice.address)).to.equal(false);
+    });
+
+    it("requires COMPLIANCE_ROLE", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.connect(alice).batchApprove([alice.address]))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.COMPLIANCE_ROLE());
+    });
+  });
+
+  describe("batchMint", function () {
+    it("mints to every recipient", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      await token.batchApprove([alice.address, bob.address]);
+
+      const tx = token.batchMint(
+        [alice.address, bob.address],
+        [parse("100"), parse("250")]
+      );
+      await expect(tx).to.emit(token, "Issued").withArgs(alice.address, parse("100"));
+      await expect(tx).to.emit(token, "Issued").withArgs(bob.address, parse("250"));
+
+      expect(await token.balanceOf(alice.address)).to.equal(parse("100"));
+      expect(await token.balanceOf(bob.address)).to.equal(parse("250"));
+      expect(await token.totalSupply()).to.equal(parse("350"));
+    });
+
+    it("rejects empty or mismatched batches", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.batchMint([], [])).to.be.revertedWith(
+        "ChainEquityToken: empty batch"
+      );
+      await expect(
+        token.batchMint([alice.address], [parse("1"), parse("2")])
+      ).to.be.revertedWith("ChainEquityToken: length mismatch");
+    });
+
+    it("reverts the whole batch for an unapproved recipient", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      await token.approveWallet(alice.address);
+
+      await expect(
+        token.batchMint([alice.address, bob.address], [parse("1"), parse("1")])
+      ).to.be.revertedWith("ChainEquityToken: recipient not approved");
+      expect(await token.totalSupply()).to.equal(0);
+    });
+
+    it("reverts when the batch total exceeds the authorized supply", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      await token.batchApprove([alice.address, bob.address]);
+
+      await expect(
+        token.batchMint([alice.address, bob.address], [parse("600"), parse("401")])
+      ).to.be.revertedWith("ChainEquityToken: exceeds authorized supply");
+    });
+
+    it("requires MINTER_ROLE", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(
+        token.connect(alice).batchMint([alice.address], [parse("1")])
+      )
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.MINTER_ROLE());
+    });
+  });
+});
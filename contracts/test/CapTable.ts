@@ -173,7 +173,7 @@ describe("CapTable", function () {
       const capTableAsAlice = capTable.connect(alice);
       await expect(
         capTableAsAlice.linkToken(await token.getAddress())
-      ).to.be.revertedWithCustomError(capTable, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(capTable, "AccessControlUnauthorizedAccount");
     });
 
     it("allows linking with different token contracts", async function () {
@@ -289,6 +289,57 @@ describe("CapTable", function () {
         .withArgs(1n, "SYMBOL_CHANGE", receipt!.blockNumber);
     });
 
+    it("syncs the company symbol when a symbol change action is recorded", async function () {
+      const { capTable } = await loadFixture(deployCapTableFixture);
+
+      const ChainEquityToken = await hre.ethers.getContractFactory(
+        "ChainEquityToken"
+      );
+      const token = await ChainEquityToken.deploy(
+        "Test Token",
+        "TEST",
+        hre.ethers.parseEther("1000000")
+      );
+      await capTable.linkToken(await token.getAddress());
+
+      await token.changeSymbol("ACME2");
+      const symbolData = hre.ethers.AbiCoder.defaultAbiCoder().encode(
+        ["string"],
+        [await token.symbol()]
+      );
+
+      await expect(capTable.recordCorporateAction("SYMBOL_CHANGE", symbolData))
+        .to.emit(capTable, "SymbolUpdated")
+        .withArgs("ACME", "ACME2");
+      expect(await capTable.symbol()).to.equal("ACME2");
+
+      const [, symbol] = await capTable.getCompanyInfo();
+      expect(symbol).to.equal("ACME2");
+    });
+
+    it("reverts when a symbol change action has an empty symbol", async function () {
+      const { capTable } = await loadFixture(deployCapTableFixture);
+
+      const ChainEquityToken = await hre.ethers.getContractFactory(
+        "ChainEquityToken"
+      );
+      const token = await ChainEquityToken.deploy(
+        "Test Token",
+        "TEST",
+        hre.ethers.parseEther("1000000")
+      );
+      await capTable.linkToken(await token.getAddress());
+
+      const symbolData = hre.ethers.AbiCoder.defaultAbiCoder().encode(
+        ["string"],
+        [""]
+      );
+
+      await expect(
+        capTable.recordCorporateAction("SYMBOL_CHANGE", symbolData)
+      ).to.be.revertedWith("CapTable: symbol cannot be empty");
+    });
+
     it("reverts when recording action if token not linked", async function () {
       const { capTable } = await loadFixture(deployCapTableFixture);
 
@@ -350,7 +401,7 @@ describe("CapTable", function () {
       const capTableAsAlice = capTable.connect(alice);
       await expect(
         capTableAsAlice.recordCorporateAction("SPLIT", splitData)
-      ).to.be.revertedWithCustomError(capTable, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(capTable, "AccessControlUnauthorizedAccount");
     });
 
     it("stores actions with incremental IDs", async function () {
@@ -780,7 +831,7 @@ describe("CapTable", function () {
       const capTableAsAlice = capTable.connect(alice);
       await expect(
         capTableAsAlice.linkToken(await token.getAddress())
-      ).to.be.revertedWithCustomError(capTable, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(capTable, "AccessControlUnauthorizedAccount");
     });
 
     it("only owner can record corporate actions", async function () {
@@ -805,7 +856,7 @@ describe("CapTable", function () {
       const capTableAsAlice = capTable.connect(alice);
       await expect(
         capTableAsAlice.recordCorporateAction("SPLIT", splitData)
-      ).to.be.revertedWithCustomError(capTable, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(capTable, "AccessControlUnauthorizedAccount");
     });
   });
 });
@@ -0,0 +1,201 @@
+/**
+ * CapTableFactory.sol Test Summary
+ * ---------------------------------
+ * Validates:
+ * - Token + CapTable deployment, linking and metadata in one transaction
+ * - Ownership handed to the issuer (issuer can operate both contracts, factory cannot)
+ * - CompanyCreated event and the on-chain company registry
+ * - Access control and input validation
+ */
+
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("CapTableFactory", function () {
+  const TOTAL_AUTH = hre.ethers.parseEther("1000000");
+
+  async function deployFactoryFixture() {
+    const [admin, issuer, alice] = await hre.ethers.getSigners();
+
+    const tokenDeployer = await hre.ethers.deployContract(
+      "ChainEquityTokenDeployer"
+    );
+    const CapTableFactory = await hre.ethers.getContractFactory(
+      "CapTableFactory"
+    );
+    const factory = await CapTableFactory.deploy(
+      await tokenDeployer.getAddress()
+    );
+
+    return { factory, admin, issuer, alice };
+  }
+
+  async function createCompanyFixture() {
+    const fixture = await deployFactoryFixture();
+    const { factory, issuer } = fixture;
+
+    const tx = await factory.createCompany(
+      "Acme Inc.",
+      "ACME",
+      "Acme Inc. Equity",
+      TOTAL_AUTH,
+      issuer.address
+    );
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => factory.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "CompanyCreated")!;
+
+    const capTable = await hre.ethers.getContractAt(
+      "CapTable",
+      event.args.capTable
+    );
+    const token = await hre.ethers.getContractAt(
+      "ChainEquityToken",
+      event.args.token
+    );
+
+    return { ...fixture, tx, capTable, token };
+  }
+
+  describe("createCompany", function () {
+    it("deploys a linked token and cap table with the company metadata", async function () {
+      const { capTable, token } = await loadFixture(createCompanyFixture);
+
+      expect(await capTable.name()).to.equal("Acme Inc.");
+      expect(await capTable.symbol()).to.equal("ACME");
+      expect(await capTable.token()).to.equal(await token.getAddress());
+      expect(await capTable.isTokenLinked()).to.equal(true);
+
+      expect(await token.name()).to.equal("Acme Inc. Equity");
+      expect(await token.symbol()).to.equal("ACME");
+      expect(await token.totalAuthorized()).to.equal(TOTAL_AUTH);
+    });
+
+    it("emits CompanyCreated with both addresses and the issuer", async function () {
+      const { factory, tx, capTable, token, issuer } = await loadFixture(
+        createCompanyFixture
+      );
+
+      await expect(tx)
+        .to.emit(factory, "CompanyCreated")
+        .withArgs(
+          await capTable.getAddress(),
+          await token.getAddress(),
+          issuer.address,
+          "Acme Inc.",
+          "ACME"
+        );
+      await expect(tx)
+        .to.emit(capTable, "TokenLinked")
+        .withArgs(await capTable.getAddress(), await token.getAddress());
+    });
+
+    it("transfers ownership of both contracts to the issuer", async function () {
+      const { factory, capTable, token, issuer, alice } = await loadFixture(
+        createCompanyFixture
+      );
+
+      expect(await token.owner()).to.equal(issuer.address);
+      expect(await capTable.owner()).to.equal(issuer.address);
+
+      // The issuer can operate the company straight away
+      await token.connect(issuer).approveWallet(alice.address);
+      await token.connect(issuer).mint(alice.address, 100n);
+      await capTable
+        .connect(issuer)
+        .recordCorporateAction(
+          "SYMBOL_CHANGE",
+          hre.ethers.AbiCoder.defaultAbiCoder().encode(["string"], ["ACM2"])
+        );
+      expect(await capTable.symbol()).to.equal("ACM2");
+
+      // The factory keeps no control over the company
+      await expect(token.mint(alice.address, 1n)).to.be.revertedWithCustomError(
+        token,
+        "AccessControlUnauthorizedAccount"
+      );
+      expect(await token.owner()).to.not.equal(await factory.getAddress());
+      for (const account of [await factory.getAddress(), await factory.tokenDeployer()]) {
+        expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), account)).to.equal(false);
+        expect(await capTable.hasRole(await capTable.DEFAULT_ADMIN_ROLE(), account)).to.equal(false);
+      }
+      expect(await token.hasRole(await token.MINTER_ROLE(), issuer.address)).to.equal(true);
+    });
+
+    it("records every company in the registry", async function () {
+      const { factory, capTable, issuer } = await loadFixture(
+        createCompanyFixture
+      );
+
+      await factory.createCompany(
+        "Globex",
+        "GLBX",
+        "Globex Equity",
+        TOTAL_AUTH,
+        issuer.address
+      );
+
+      const capTables = await factory.getCapTables();
+      expect(await factory.getCompanyCount()).to.equal(2n);
+      expect(capTables[0]).to.equal(await capTable.getAddress());
+      expect(
+        await (await hre.ethers.getContractAt("CapTable", capTables[1])).name()
+      ).to.equal("Globex");
+    });
+
+    it("reverts for a zero issuer", async function () {
+      const { factory } = await loadFixture(deployFactoryFixture);
+
+      await expect(
+        factory.createCompany(
+          "Acme Inc.",
+          "ACME",
+          "Acme Inc. Equity",
+          TOTAL_AUTH,
+          hre.ethers.ZeroAddress
+        )
+      ).to.be.revertedWith("CapTableFactory: issuer cannot be zero address");
+    });
+
+    it("reverts with the token and cap table validation errors", async function () {
+      const { factory, issuer } = await loadFixture(deployFactoryFixture);
+
+      await expect(
+        factory.createCompany(
+          "Acme Inc.",
+          "ACME",
+          "Acme Inc. Equity",
+          0n,
+          issuer.address
+        )
+      ).to.be.revertedWith("ChainEquityToken: totalAuthorized must be > 0");
+      await expect(
+        factory.createCompany(
+          "",
+          "ACME",
+          "Acme Inc. Equity",
+          TOTAL_AUTH,
+          issuer.address
+        )
+      ).to.be.revertedWith("CapTable: name cannot be empty");
+    });
+
+    it("only the factory owner can create companies", async function () {
+      const { factory, issuer } = await loadFixture(deployFactoryFixture);
+
+      await expect(
+        factory
+          .connect(issuer)
+          .createCompany(
+            "Acme Inc.",
+            "ACME",
+            "Acme Inc. Equity",
+            TOTAL_AUTH,
+            issuer.address
+          )
+      ).to.be.revertedWithCustomError(factory, "OwnableUnauthorizedAccount");
+    });
+  });
+});
@@ -262,6 +262,83 @@ describe("ChainEquityToken", function () {
     });
   });
 
+  describe("Redemption", function () {
+    it("allows owner to redeem tokens from a holder", async function () {
+      const { token, alice } = await loadFixture(deployChainEquityTokenFixture);
+
+      await token.approveWallet(alice.address);
+      await token.mint(alice.address, MINT_100);
+
+      await expect(token.redeem(alice.address, TRANSFER_30))
+        .to.emit(token, "Redeemed")
+        .withArgs(alice.address, TRANSFER_30)
+        .and.to.emit(token, "Transfer")
+        .withArgs(alice.address, hre.ethers.ZeroAddress, TRANSFER_30);
+
+      expect(await token.balanceOf(alice.address)).to.equal(BALANCE_70);
+      expect(await token.totalSupply()).to.equal(BALANCE_70);
+    });
+
+    it("allows redeeming from a revoked wallet", async function () {
+      const { token, alice } = await loadFixture(deployChainEquityTokenFixture);
+
+      await token.approveWallet(alice.address);
+      await token.mint(alice.address, MINT_100);
+      await token.revokeWallet(alice.address);
+
+      await expect(token.redeem(alice.address, MINT_100))
+        .to.emit(token, "Redeemed")
+        .withArgs(alice.address, MINT_100);
+      expect(await token.balanceOf(alice.address)).to.equal(BALANCE_0);
+    });
+
+    it("frees authorized supply for new issuance", async function () {
+      const { token, alice } = await loadFixture(deployChainEquityTokenFixture);
+
+      await token.approveWallet(alice.address);
+      await token.mint(alice.address, TOTAL_AUTH);
+      await token.redeem(alice.address, MINT_10);
+
+      await expect(token.mint(alice.address, MINT_10)).to.emit(token, "Issued");
+      expect(await token.totalSupply()).to.equal(TOTAL_AUTH);
+    });
+
+    it("reverts when redeeming more than the holder's balance", async function () {
+      const { token, alice } = await loadFixture(deployChainEquityTokenFixture);
+
+      await token.approveWallet(alice.address);
+      await token.mint(alice.address, MINT_10);
+
+      await expect(token.redeem(alice.address, MINT_50)).to.be.revertedWith(
+        "ChainEquityToken: redeem amount exceeds balance"
+      );
+    });
+
+    it("reverts when redeeming zero or from the zero address", async function () {
+      const { token, alice } = await loadFixture(deployChainEquityTokenFixture);
+
+      await expect(token.redeem(alice.address, 0n)).to.be.revertedWith(
+        "ChainEquityToken: redeem amount must be > 0"
+      );
+      await expect(
+        token.redeem(hre.ethers.ZeroAddress, MINT_10)
+      ).to.be.revertedWith("ChainEquityToken: cannot redeem from zero address");
+    });
+
+    it("reverts when non-owner tries to redeem", async function () {
+      const { token, alice, bob } = await loadFixture(
+        deployChainEquityTokenFixture
+      );
+
+      await token.approveWallet(alice.address);
+      await token.mint(alice.address, MINT_100);
+
+      await expect(token.connect(bob).redeem(alice.address, MINT_10))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(bob.address, await token.MINTER_ROLE());
+    });
+  });
+
   describe("Transfers (restricted)", function () {
     it("reverts transfer when sender is not approved and restricted", async function () {
       const { token, alice, bob } = await loadFixture(
@@ -380,13 +457,55 @@ describe("ChainEquityToken", function () {
       expect(effBal).to.equal(BALANCE_700);
     });
 
-    it("reverts when split multiplier is less than 1", async function () {
+    it("reverts when split multiplier is 0", async function () {
       const { token } = await loadFixture(deployChainEquityTokenFixture);
 
-      const invalidMultiplier = parse("0.5");
-      await expect(token.executeSplit(invalidMultiplier)).to.be.revertedWith(
-        "ChainEquityToken: split multiplier must be >= 1"
+      await expect(token.executeSplit(0n)).to.be.revertedWith(
+        "ChainEquityToken: split multiplier must be > 0"
+      );
+    });
+
+    it("executes a 1-for-10 reverse split", async function () {
+      const { token, alice } = await loadFixture(deployChainEquityTokenFixture);
+
+      await token.approveWallet(alice.address);
+      await token.mint(alice.address, MINT_100);
+
+      const tx = await token.executeSplit(parse("0.1"));
+      const receipt = await tx.wait();
+      await expect(tx)
+        .to.emit(token, "SplitExecuted")
+        .withArgs(SPLIT_1X, parse("0.1"), receipt!.blockNumber);
+
+      expect(await token.effectiveBalanceOf(alice.address)).to.equal(MINT_10);
+      expect(await token.balanceOf(alice.address)).to.equal(MINT_100);
+    });
+
+    it("reports the fractional remainder left by a reverse split", async function () {
+      const { token, alice, bob } = await loadFixture(
+        deployChainEquityTokenFixture
+      );
+
+      await token.approveWallet(alice.address);
+      await token.approveWallet(bob.address);
+      await token.mint(alice.address, parse("105"));
+      await token.mint(bob.address, MINT_100);
+
+      // 1-for-10: Alice holds 10.5 effective shares, Bob exactly 10
+      await token.executeSplit(parse("0.1"));
+
+      expect(await token.effectiveBalanceOf(alice.address)).to.equal(
+        parse("10.5")
+      );
+      expect(await token.fractionalBalanceOf(alice.address)).to.equal(
+        parse("0.5")
       );
+      expect(await token.fractionalBalanceOf(bob.address)).to.equal(0n);
+
+      // Cash in lieu: the issuer redeems the 5 base tokens behind the half share
+      await token.redeem(alice.address, parse("5"));
+      expect(await token.effectiveBalanceOf(alice.address)).to.equal(MINT_10);
+      expect(await token.fractionalBalanceOf(alice.address)).to.equal(0n);
     });
 
     it("reverts when split multiplier equals current splitFactor", async function () {
@@ -486,22 +605,29 @@ describe("ChainEquityToken", function () {
         .withArgs(oldSymbol, "NEWSYM");
     });
 
+    it("updates the symbol returned by symbol()", async function () {
+      const { token } = await loadFixture(deployChainEquityTokenFixture);
+
+      await token.changeSymbol("NEWSYM");
+      expect(await token.symbol()).to.equal("NEWSYM");
+    });
+
     it("allows changing symbol multiple times", async function () {
       const { token } = await loadFixture(deployChainEquityTokenFixture);
 
       await token.changeSymbol("SYM1");
       await expect(token.changeSymbol("SYM2"))
         .to.emit(token, "SymbolChanged")
-        .withArgs("ACME", "SYM2");
+        .withArgs("SYM1", "SYM2");
+      expect(await token.symbol()).to.equal("SYM2");
     });
 
-    it("allows changing symbol with empty string", async function () {
+    it("reverts when changing symbol to an empty string", async function () {
       const { token } = await loadFixture(deployChainEquityTokenFixture);
 
-      const oldSymbol = await token.symbol();
-      await expect(token.changeSymbol(""))
-        .to.emit(token, "SymbolChanged")
-        .withArgs(oldSymbol, "");
+      await expect(token.changeSymbol("")).to.be.revertedWith(
+        "ChainEquityToken: symbol cannot be empty"
+      );
     });
 
     it("allows changing symbol with very long string", async function () {
@@ -512,6 +638,35 @@ describe("ChainEquityToken", function () {
       await expect(token.changeSymbol(longSymbol))
         .to.emit(token, "SymbolChanged")
         .withArgs(oldSymbol, longSymbol);
+      expect(await token.symbol()).to.equal(longSymbol);
+    });
+  });
+
+  describe("Name Change", function () {
+    it("updates the name returned by name() and emits NameChanged", async function () {
+      const { token } = await loadFixture(deployChainEquityTokenFixture);
+
+      const oldName = await token.name();
+      await expect(token.changeName("Acme Holdings Equity"))
+        .to.emit(token, "NameChanged")
+        .withArgs(oldName, "Acme Holdings Equity");
+      expect(await token.name()).to.equal("Acme Holdings Equity");
+    });
+
+    it("reverts when changing name to an empty string", async function () {
+      const { token } = await loadFixture(deployChainEquityTokenFixture);
+
+      await expect(token.changeName("")).to.be.revertedWith(
+        "ChainEquityToken: name cannot be empty"
+      );
+    });
+
+    it("reverts when non-owner tries to change name", async function () {
+      const { token, alice } = await loadFixture(deployChainEquityTokenFixture);
+
+      await expect(
+        token.connect(alice).changeName("Hacked")
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
     });
   });
 
@@ -555,7 +710,7 @@ describe("ChainEquityToken", function () {
       await expect(
         // @ts-expect-error - TypeScript can't infer contract methods from connect()
         tokenAsAlice.setTransfersRestricted(false)
-      ).to.be.revertedWithCustomError(token, "OwnableUnauthorizedAccount");
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
     });
   });
 
@@ -0,0 +1,372 @@
+/**
+ * Modular Compliance Test Suite
+ * -----------------------------
+ * Tests cover:
+ * - ModularCompliance module management and token binding
+ * - Token integration: transfers and mints gated by the compliance, balance changes reported
+ * - MaxHolders, MaxOwnership, CountryRestriction and AccreditedInvestor module rules
+ * - Configuration events carrying the token as first indexed topic
+ */
+
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Modular Compliance", function () {
+  const parse = hre.ethers.parseEther;
+  const COMPLIANCE_CHECK_FAILED = 5;
+  const US = hre.ethers.hexlify(hre.ethers.toUtf8Bytes("US"));
+  const DE = hre.ethers.hexlify(hre.ethers.toUtf8Bytes("DE"));
+
+  async function deployComplianceFixture() {
+    const [owner, alice, bob, carol, outsider] = await hre.ethers.getSigners();
+
+    const token = await hre.ethers.deployContract("ChainEquityToken", [
+      "Acme Inc. Equity",
+      "ACME",
+      parse("1000"),
+    ]);
+    const tokenAddress = await token.getAddress();
+    for (const wallet of [alice, bob, carol]) {
+      await token.approveWallet(wallet.address);
+    }
+    await token.mint(alice.address, parse("100"));
+
+    const compliance = await hre.ethers.deployContract("ModularCompliance", [
+      tokenAddress,
+    ]);
+    const complianceAddress = await compliance.getAddress();
+    await token.setCompliance(complianceAddress);
+
+    return {
+      token,
+      tokenAddress,
+      compliance,
+      complianceAddress,
+      owner,
+      alice,
+      bob,
+      carol,
+      outsider,
+    };
+  }
+
+  async function deployModule(
+    name:
+      | "MaxHoldersModule"
+      | "MaxOwnershipModule"
+      | "CountryRestrictionModule"
+      | "AccreditedInvestorModule",
+    fixture: Awaited<ReturnType<typeof deployComplianceFixture>>
+  ) {
+    const module = await hre.ethers.deployContract(name, [
+      fixture.complianceAddress,
+    ]);
+    await fixture.compliance.addModule(await module.getAddress());
+    return module;
+  }
+
+  describe("ModularCompliance", function () {
+    it("binds to the token and allows every movement without modules", async function () {
+      const { token, tokenAddress, compliance, complianceAddress, alice, bob } =
+        await loadFixture(deployComplianceFixture);
+
+      expect(await compliance.token()).to.equal(tokenAddress);
+      expect(await token.compliance()).to.equal(complianceAddress);
+      expect(await compliance.getModules()).to.deep.equal([]);
+
+      await token.connect(alice).transfer(bob.address, parse("10"));
+      expect(await token.balanceOf(bob.address)).to.equal(parse("10"));
+    });
+
+    it("adds and removes modules with indexed events", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const { compliance, complianceAddress, tokenAddress } = fixture;
+
+      const module = await hre.ethers.deployContract("MaxHoldersModule", [
+        complianceAddress,
+      ]);
+      const moduleAddress = await module.getAddress();
+
+      await expect(compliance.addModule(moduleAddress))
+        .to.emit(compliance, "ModuleAdded")
+        .withArgs(tokenAddress, moduleAddress, "MaxHolders");
+      expect(await compliance.isModule(moduleAddress)).to.be.true;
+      expect(await compliance.getModules()).to.deep.equal([moduleAddress]);
+
+      await expect(compliance.addModule(moduleAddress)).to.be.revertedWith(
+        "ModularCompliance: module already added"
+      );
+
+      await expect(compliance.removeModule(moduleAddress))
+        .to.emit(compliance, "ModuleRemoved")
+        .withArgs(tokenAddress, moduleAddress);
+      expect(await compliance.isModule(moduleAddress)).to.be.false;
+      expect(await compliance.getModules()).to.deep.equal([]);
+
+      await expect(compliance.removeModule(moduleAddress)).to.be.revertedWith(
+        "ModularCompliance: module not added"
+      );
+    });
+
+    it("rejects modules bound to another compliance", async function () {
+      const { compliance, tokenAddress } = await loadFixture(
+        deployComplianceFixture
+      );
+
+      const other = await hre.ethers.deployContract("ModularCompliance", [
+        tokenAddress,
+      ]);
+      const module = await hre.ethers.deployContract("MaxHoldersModule", [
+        await other.getAddress(),
+      ]);
+
+      await expect(
+        compliance.addModule(await module.getAddress())
+      ).to.be.revertedWith("ModularCompliance: module bound to another compliance");
+    });
+
+    it("restricts module management and balance reports", async function () {
+      const { compliance, complianceAddress, outsider } = await loadFixture(
+        deployComplianceFixture
+      );
+
+      const module = await hre.ethers.deployContract("MaxHoldersModule", [
+        complianceAddress,
+      ]);
+
+      await expect(
+        compliance.connect(outsider).addModule(await module.getAddress())
+      ).to.be.revertedWithCustomError(compliance, "OwnableUnauthorizedAccount");
+      await expect(
+        compliance
+          .connect(outsider)
+          .transferred(outsider.address, outsider.address, 1n)
+      ).to.be.revertedWith("ModularCompliance: caller is not the token");
+      await expect(
+        module.moduleAction(outsider.address, outsider.address, 1n)
+      ).to.be.revertedWith("ComplianceModule: caller is not the compliance");
+    });
+  });
+
+  describe("Token integration", function () {
+    it("sets and removes the compliance", async function () {
+      const { token, complianceAddress, outsider } = await loadFixture(
+        deployComplianceFixture
+      );
+
+      await expect(token.setCompliance(hre.ethers.ZeroAddress))
+        .to.emit(token, "ComplianceSet")
+        .withArgs(hre.ethers.ZeroAddress);
+      expect(await token.compliance()).to.equal(hre.ethers.ZeroAddress);
+
+      await expect(
+        token.connect(outsider).setCompliance(complianceAddress)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+      await expect(token.setCompliance(complianceAddress))
+        .to.emit(token, "ComplianceSet")
+        .withArgs(complianceAddress);
+    });
+
+    it("rejects a compliance bound to another token", async function () {
+      const { token } = await loadFixture(deployComplianceFixture);
+
+      const other = await hre.ethers.deployContract("ChainEquityToken", [
+        "Other",
+        "OTH",
+        parse("1000"),
+      ]);
+      const compliance = await hre.ethers.deployContract("ModularCompliance", [
+        await other.getAddress(),
+      ]);
+
+      await expect(
+        token.setCompliance(await compliance.getAddress())
+      ).to.be.revertedWith("ChainEquityToken: compliance bound to another token");
+    });
+
+    it("reports and enforces compliance failures on transfers and mints", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const { token, alice, carol } = fixture;
+      const module = await deployModule("AccreditedInvestorModule", fixture);
+      await module.setAccredited(alice.address, true);
+
+      expect(
+        await token.detectTransferRestriction(alice.address, carol.address, 1n)
+      ).to.equal(COMPLIANCE_CHECK_FAILED);
+      expect(
+        await token.messageForTransferRestriction(COMPLIANCE_CHECK_FAILED)
+      ).to.equal("ChainEquityToken: compliance check failed");
+      await expect(
+        token.connect(alice).transfer(carol.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: compliance check failed");
+      await expect(token.mint(carol.address, 1n)).to.be.revertedWith(
+        "ChainEquityToken: compliance check failed"
+      );
+    });
+
+    it("never blocks burns", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const { token, alice } = fixture;
+      const module = await deployModule("AccreditedInvestorModule", fixture);
+      await module.setAccredited(alice.address, false);
+
+      await token.redeem(alice.address, parse("100"));
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+    });
+  });
+
+  describe("MaxHoldersModule", function () {
+    async function maxHoldersFixture() {
+      const fixture = await deployComplianceFixture();
+      const module = await deployModule("MaxHoldersModule", fixture);
+      await module.syncHolders([fixture.alice.address]);
+      return { ...fixture, module };
+    }
+
+    it("caps the number of holders", async function () {
+      const { token, tokenAddress, module, alice, bob, carol } =
+        await loadFixture(maxHoldersFixture);
+
+      expect(await module.holderCount()).to.equal(1n);
+      await expect(module.setMaxHolders(2))
+        .to.emit(module, "MaxHoldersSet")
+        .withArgs(tokenAddress, 2n);
+
+      await token.connect(alice).transfer(bob.address, parse("10"));
+      expect(await module.holderCount()).to.equal(2n);
+
+      await expect(
+        token.connect(alice).transfer(carol.address, parse("10"))
+      ).to.be.revertedWith("ChainEquityToken: compliance check failed");
+      await expect(token.mint(carol.address, parse("10"))).to.be.revertedWith(
+        "ChainEquityToken: compliance check failed"
+      );
+
+      // Existing holders can still receive shares
+      await token.mint(bob.address, parse("10"));
+    });
+
+    it("frees a slot when a holder moves its whole balance", async function () {
+      const { token, module, alice, bob, carol } = await loadFixture(
+        maxHoldersFixture
+      );
+      await module.setMaxHolders(2);
+      await token.connect(alice).transfer(bob.address, parse("10"));
+
+      await token.connect(bob).transfer(carol.address, parse("10"));
+      expect(await module.isHolder(bob.address)).to.be.false;
+      expect(await module.isHolder(carol.address)).to.be.true;
+      expect(await module.holderCount()).to.equal(2n);
+    });
+
+    it("uncounts redeemed holders", async function () {
+      const { token, module, alice } = await loadFixture(maxHoldersFixture);
+
+      await token.redeem(alice.address, parse("100"));
+      expect(await module.holderCount()).to.equal(0n);
+    });
+  });
+
+  describe("MaxOwnershipModule", function () {
+    it("caps each investor's share of authorized shares", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const { token, tokenAddress, alice, bob } = fixture;
+      const module = await deployModule("MaxOwnershipModule", fixture);
+
+      // 15% of 1000 authorized shares = 150
+      await expect(module.setMaxOwnership(1500))
+        .to.emit(module, "MaxOwnershipSet")
+        .withArgs(tokenAddress, 1500n);
+
+      await token.mint(alice.address, parse("50"));
+      await expect(token.mint(alice.address, 1n)).to.be.revertedWith(
+        "ChainEquityToken: compliance check failed"
+      );
+      await token.connect(alice).transfer(bob.address, parse("150"));
+      await expect(
+        token.connect(alice).transfer(bob.address, 0n)
+      ).not.to.be.reverted;
+    });
+
+    it("rejects limits above 100%", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const module = await deployModule("MaxOwnershipModule", fixture);
+
+      await expect(module.setMaxOwnership(10001)).to.be.revertedWith(
+        "MaxOwnershipModule: limit exceeds 100%"
+      );
+    });
+  });
+
+  describe("CountryRestrictionModule", function () {
+    it("blocks recipients resident in restricted countries", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const { token, tokenAddress, alice, bob, carol } = fixture;
+      const module = await deployModule("CountryRestrictionModule", fixture);
+
+      await expect(module.setInvestorCountry(bob.address, US))
+        .to.emit(module, "InvestorCountrySet")
+        .withArgs(tokenAddress, bob.address, US);
+      await module.setInvestorCountry(carol.address, DE);
+      await expect(module.setCountryRestricted(US, true))
+        .to.emit(module, "CountryRestrictionSet")
+        .withArgs(tokenAddress, US, true);
+
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: compliance check failed");
+      await token.connect(alice).transfer(carol.address, 1n);
+
+      await module.setCountryRestricted(US, false);
+      await token.connect(alice).transfer(bob.address, 1n);
+    });
+
+    it("lets holders in a restricted country sell", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const { token, alice, bob } = fixture;
+      const module = await deployModule("CountryRestrictionModule", fixture);
+
+      await module.setInvestorCountry(alice.address, US);
+      await module.setCountryRestricted(US, true);
+
+      await token.connect(alice).transfer(bob.address, 1n);
+    });
+
+    it("rejects the empty country code", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const module = await deployModule("CountryRestrictionModule", fixture);
+
+      await expect(
+        module.setCountryRestricted("0x0000", true)
+      ).to.be.revertedWith("CountryRestrictionModule: invalid country");
+    });
+  });
+
+  describe("AccreditedInvestorModule", function () {
+    it("only lets accredited investors receive shares", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const { token, tokenAddress, alice, bob } = fixture;
+      const module = await deployModule("AccreditedInvestorModule", fixture);
+
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: compliance check failed");
+
+      await expect(module.setAccredited(bob.address, true))
+        .to.emit(module, "AccreditationSet")
+        .withArgs(tokenAddress, bob.address, true);
+      await token.connect(alice).transfer(bob.address, 1n);
+    });
+
+    it("restricts configuration to the issuer", async function () {
+      const fixture = await loadFixture(deployComplianceFixture);
+      const { outsider } = fixture;
+      const module = await deployModule("AccreditedInvestorModule", fixture);
+
+      await expect(
+        module.connect(outsider).setAccredited(outsider.address, true)
+      ).to.be.revertedWithCustomError(module, "OwnableUnauthorizedAccount");
+    });
+  });
+});
@@ -397,6 +397,7 @@ describe("Event System (Task 1.5)", function () {
       const expectedSignatures = {
         Transfer: hre.ethers.id("Transfer(address,address,uint256)"),
         Issued: hre.ethers.id("Issued(address,uint256)"),
+        Redeemed: hre.ethers.id("Redeemed(address,uint256)"),
         SplitExecuted: hre.ethers.id("SplitExecuted(uint256,uint256,uint256)"),
         CapTableCreated: hre.ethers.id(
           "CapTableCreated(address,string,string,address)"
@@ -0,0 +1,176 @@
+/**
+ * Lockups Test Suite
+ * -------------------
+ * Tests cover:
+ * - Company-wide lock-ups (setGlobalLockup, GlobalLockupSet)
+ * - Per-wallet lock-ups (setLockup, LockupSet) and lockupEndOf
+ * - Holding periods started by issuance (setHoldingPeriod, HoldingPeriodSet)
+ * - Issuance and redemption are not blocked by lock-ups
+ * - Access control
+ */
+
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Lockups", function () {
+  const parse = hre.ethers.parseEther;
+  const DAY = 24n * 60n * 60n;
+
+  async function deployLockupFixture() {
+    const [owner, alice, bob] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      parse("1000000")
+    );
+    await token.approveWallet(alice.address);
+    await token.approveWallet(bob.address);
+    await token.mint(alice.address, parse("100"));
+
+    return { token, owner, alice, bob };
+  }
+
+  describe("Global lock-up", function () {
+    it("blocks transfers from every wallet until it ends", async function () {
+      const { token, alice, bob } = await loadFixture(deployLockupFixture);
+      const until = BigInt(await time.latest()) + 180n * DAY;
+
+      await expect(token.setGlobalLockup(until))
+        .to.emit(token, "GlobalLockupSet")
+        .withArgs(until);
+      expect(await token.lockupEndOf(alice.address)).to.equal(until);
+
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: sender is locked up");
+
+      await time.increaseTo(until);
+      await token.connect(alice).transfer(bob.address, 1n);
+      expect(await token.balanceOf(bob.address)).to.equal(1n);
+    });
+
+    it("can be lifted early and applies with restrictions disabled", async function () {
+      const { token, alice, bob } = await loadFixture(deployLockupFixture);
+      await token.setTransfersRestricted(false);
+      await token.setGlobalLockup(BigInt(await time.latest()) + 180n * DAY);
+
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: sender is locked up");
+
+      await token.setGlobalLockup(0n);
+      await token.connect(alice).transfer(bob.address, 1n);
+    });
+  });
+
+  describe("Wallet lock-up", function () {
+    it("blocks only the locked wallet", async function () {
+      const { token, alice, bob } = await loadFixture(deployLockupFixture);
+      const until = BigInt(await time.latest()) + 30n * DAY;
+      await token.mint(bob.address, parse("10"));
+
+      await expect(token.setLockup(alice.address, until))
+        .to.emit(token, "LockupSet")
+        .withArgs(alice.address, until);
+
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: sender is locked up");
+      // The locked wallet can still receive shares
+      await token.connect(bob).transfer(alice.address, 1n);
+    });
+
+    it("uses the later of the global and the wallet lock-up", async function () {
+      const { token, alice, bob } = await loadFixture(deployLockupFixture);
+      const now = BigInt(await time.latest());
+      await token.setGlobalLockup(now + 10n * DAY);
+      await token.setLockup(alice.address, now + 20n * DAY);
+
+      expect(await token.lockupEndOf(alice.address)).to.equal(now + 20n * DAY);
+      expect(await token.lockupEndOf(bob.address)).to.equal(now + 10n * DAY);
+    });
+  });
+
+  describe("Holding period", function () {
+    it("locks up the recipient of an issuance for the holding period", async function () {
+      const { token, alice, bob } = await loadFixture(deployLockupFixture);
+      const period = 365n * DAY;
+
+      await expect(token.setHoldingPeriod(period))
+        .to.emit(token, "HoldingPeriodSet")
+        .withArgs(period);
+
+      // Shares issued before the holding period was set are not locked
+      await token.connect(alice).transfer(bob.address, 1n);
+
+      const issuedAt = BigInt(await time.latest()) + 1n;
+      await time.setNextBlockTimestamp(issuedAt);
+      await expect(token.mint(alice.address, parse("10")))
+        .to.emit(token, "LockupSet")
+        .withArgs(alice.address, issuedAt + period);
+
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: sender is locked up");
+
+      await time.increaseTo(issuedAt + period);
+      await token.connect(alice).transfer(bob.address, 1n);
+    });
+
+    it("never shortens a longer wallet lock-up", async function () {
+      const { token, alice } = await loadFixture(deployLockupFixture);
+      const until = BigInt(await time.latest()) + 1000n * DAY;
+      await token.setLockup(alice.address, until);
+      await token.setHoldingPeriod(DAY);
+
+      await expect(token.mint(alice.address, 1n)).to.not.emit(
+        token,
+        "LockupSet"
+      );
+      expect(await token.lockupUntil(alice.address)).to.equal(until);
+    });
+  });
+
+  describe("Issuance and redemption", function () {
+    it("are not blocked by lock-ups", async function () {
+      const { token, alice } = await loadFixture(deployLockupFixture);
+      await token.setGlobalLockup(BigInt(await time.latest()) + 180n * DAY);
+
+      await token.mint(alice.address, parse("1"));
+      await token.redeem(alice.address, parse("101"));
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+    });
+  });
+
+  describe("Access control", function () {
+    it("only the issuer can set lock-ups and the holding period", async function () {
+      const { token, alice } = await loadFixture(deployLockupFixture);
+
+      await expect(
+        token.connect(alice).setGlobalLockup(1n)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+      await expect(
+        token.connect(alice).setLockup(alice.address, 0n)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+      await expect(
+        token.connect(alice).setHoldingPeriod(1n)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+
+    it("rejects a zero wallet", async function () {
+      const { token } = await loadFixture(deployLockupFixture);
+
+      await expect(
+        token.setLockup(hre.ethers.ZeroAddress, 1n)
+      ).to.be.revertedWith("ChainEquityToken: cannot lock up zero address");
+    });
+  });
+});
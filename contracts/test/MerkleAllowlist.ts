@@ -0,0 +1,161 @@
+/**
+ * Merkle Allowlist Test Suite
+ * ---------------------------
+ * Tests cover:
+ * - setAllowlistRoot (AllowlistRootUpdated) gated by COMPLIANCE_ROLE
+ * - isApprovedWithProof for mapping and Merkle approvals
+ * - transferWithProof and mintWithProof for wallets only approved by the tree
+ * - Plain transfer()/mint() still only consult the mapping; a new root revokes left out wallets
+ */
+
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+/**
+ * Merkle tree in the OpenZeppelin StandardMerkleTree layout: double-hashed address leaves
+ * sorted by hash, sorted pair hashing, nodes stored as a complete binary tree
+ */
+function buildTree(wallets: string[]) {
+  const { keccak256, AbiCoder, concat } = hre.ethers;
+  const leafOf = (wallet: string) =>
+    keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [wallet])));
+  const hashPair = (a: string, b: string) =>
+    keccak256(BigInt(a) < BigInt(b) ? concat([a, b]) : concat([b, a]));
+
+  const leaves = wallets.map(leafOf).sort();
+  const tree: string[] = new Array(2 * leaves.length - 1);
+  leaves.forEach((leaf, i) => (tree[tree.length - 1 - i] = leaf));
+  for (let i = tree.length - 1 - leaves.length; i >= 0; i--) {
+    tree[i] = hashPair(tree[2 * i + 1], tree[2 * i + 2]);
+  }
+
+  return {
+    root: tree[0],
+    proof(wallet: string): string[] {
+      const proof: string[] = [];
+      for (let i = tree.indexOf(leafOf(wallet)); i > 0; i = Math.floor((i - 1) / 2)) {
+        proof.push(tree[i % 2 === 1 ? i + 1 : i - 1]);
+      }
+      return proof;
+    },
+  };
+}
+
+describe("Merkle Allowlist", function () {
+  const parse = hre.ethers.parseEther;
+
+  async function deployFixture() {
+    const [owner, alice, bob, carol, dave] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      parse("1000")
+    );
+
+    const tree = buildTree([alice.address, bob.address, carol.address]);
+    await token.setAllowlistRoot(tree.root);
+
+    return { token, tree, owner, alice, bob, carol, dave };
+  }
+
+  describe("setAllowlistRoot", function () {
+    it("publishes the root and emits AllowlistRootUpdated", async function () {
+      const { token, tree } = await loadFixture(deployFixture);
+
+      expect(await token.allowlistRoot()).to.equal(tree.root);
+      await expect(token.setAllowlistRoot(hre.ethers.ZeroHash))
+        .to.emit(token, "AllowlistRootUpdated")
+        .withArgs(tree.root, hre.ethers.ZeroHash);
+      await expect(token.setAllowlistRoot(hre.ethers.ZeroHash)).to.be.revertedWith(
+        "ChainEquityToken: allowlist root unchanged"
+      );
+    });
+
+    it("requires COMPLIANCE_ROLE", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.connect(alice).setAllowlistRoot(hre.ethers.ZeroHash))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.COMPLIANCE_ROLE());
+    });
+  });
+
+  describe("isApprovedWithProof", function () {
+    it("accepts wallets in the tree or the mapping", async function () {
+      const { token, tree, alice, bob, dave } = await loadFixture(deployFixture);
+
+      expect(await token.isApprovedWithProof(alice.address, tree.proof(alice.address))).to.equal(true);
+      expect(await token.isApprovedWithProof(alice.address, tree.proof(bob.address))).to.equal(false);
+      expect(await token.isApprovedWithProof(dave.address, [])).to.equal(false);
+      expect(await token.isApproved(alice.address)).to.equal(false);
+
+      await token.approveWallet(dave.address);
+      expect(await token.isApprovedWithProof(dave.address, [])).to.equal(true);
+    });
+  });
+
+  describe("mintWithProof and transferWithProof", function () {
+    it("moves shares between wallets only approved by the tree", async function () {
+      const { token, tree, alice, bob } = await loadFixture(deployFixture);
+
+      await expect(token.mint(alice.address, parse("100"))).to.be.revertedWith(
+        "ChainEquityToken: recipient not approved"
+      );
+      await expect(token.mintWithProof(alice.address, parse("100"), tree.proof(alice.address)))
+        .to.emit(token, "Issued")
+        .withArgs(alice.address, parse("100"));
+
+      await expect(
+        token.connect(alice).transfer(bob.address, parse("10"))
+      ).to.be.revertedWith("ChainEquityToken: sender not approved");
+      await token
+        .connect(alice)
+        .transferWithProof(bob.address, parse("10"), tree.proof(alice.address), tree.proof(bob.address));
+
+      expect(await token.balanceOf(bob.address)).to.equal(parse("10"));
+    });
+
+    it("rejects wallets left out of the tree", async function () {
+      const { token, tree, alice, dave } = await loadFixture(deployFixture);
+      await token.mintWithProof(alice.address, parse("100"), tree.proof(alice.address));
+
+      await expect(
+        token.mintWithProof(dave.address, parse("1"), tree.proof(alice.address))
+      ).to.be.revertedWith("ChainEquityToken: recipient not approved");
+      await expect(
+        token
+          .connect(alice)
+          .transferWithProof(dave.address, parse("1"), tree.proof(alice.address), [])
+      ).to.be.revertedWith("ChainEquityToken: recipient not approved");
+    });
+
+    it("revokes wallets left out of a new root", async function () {
+      const { token, tree, alice, bob, carol } = await loadFixture(deployFixture);
+      await token.mintWithProof(alice.address, parse("100"), tree.proof(alice.address));
+
+      const next = buildTree([bob.address, carol.address]);
+      await token.setAllowlistRoot(next.root);
+
+      await expect(
+        token
+          .connect(alice)
+          .transferWithProof(bob.address, parse("1"), tree.proof(alice.address), next.proof(bob.address))
+      ).to.be.revertedWith("ChainEquityToken: sender not approved");
+    });
+
+    it("requires MINTER_ROLE to mint", async function () {
+      const { token, tree, alice } = await loadFixture(deployFixture);
+
+      await expect(
+        token.connect(alice).mintWithProof(alice.address, parse("1"), tree.proof(alice.address))
+      )
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.MINTER_ROLE());
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Pause Test Suite
+ * -----------------
+ * Tests cover:
+ * - pause/unpause (Paused, Unpaused) gated by PAUSER_ROLE
+ * - Transfers, mints, vesting grants, redemptions and splits revert while paused
+ * - detectTransferRestriction reports TOKEN_PAUSED before any other restriction
+ * - Forced transfers and wallet recoveries stay available while paused
+ */
+
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Pause", function () {
+  const parse = hre.ethers.parseEther;
+  const TOKEN_PAUSED = 6;
+  const PAUSED_MESSAGE = "ChainEquityToken: token is paused";
+
+  async function deployPausedFixture() {
+    const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      parse("1000000")
+    );
+    await token.approveWallet(alice.address);
+    await token.approveWallet(bob.address);
+    await token.mint(alice.address, parse("100"));
+    await token.pause();
+
+    return { token, owner, alice, bob, carol };
+  }
+
+  describe("pause / unpause", function () {
+    it("toggles the paused state and emits Paused and Unpaused", async function () {
+      const { token, owner } = await loadFixture(deployPausedFixture);
+      expect(await token.paused()).to.equal(true);
+
+      await expect(token.unpause())
+        .to.emit(token, "Unpaused")
+        .withArgs(owner.address);
+      expect(await token.paused()).to.equal(false);
+
+      await expect(token.pause()).to.emit(token, "Paused").withArgs(owner.address);
+    });
+
+    it("rejects pausing twice and unpausing an active token", async function () {
+      const { token } = await loadFixture(deployPausedFixture);
+
+      await expect(token.pause()).to.be.revertedWithCustomError(
+        token,
+        "EnforcedPause"
+      );
+      await token.unpause();
+      await expect(token.unpause()).to.be.revertedWithCustomError(
+        token,
+        "ExpectedPause"
+      );
+    });
+
+    it("requires PAUSER_ROLE", async function () {
+      const { token, alice } = await loadFixture(deployPausedFixture);
+      const PAUSER_ROLE = await token.PAUSER_ROLE();
+
+      await expect(token.connect(alice).unpause())
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, PAUSER_ROLE);
+
+      await token.grantRole(PAUSER_ROLE, alice.address);
+      await expect(token.connect(alice).unpause()).to.emit(token, "Unpaused");
+    });
+  });
+
+  describe("while paused", function () {
+    it("blocks transfers and reports TOKEN_PAUSED first", async function () {
+      const { token, alice, bob, carol } = await loadFixture(deployPausedFixture);
+
+      // Carol is not approved either, but the pause takes precedence
+      expect(
+        await token.detectTransferRestriction(alice.address, carol.address, parse("1"))
+      ).to.equal(TOKEN_PAUSED);
+      expect(await token.messageForTransferRestriction(TOKEN_PAUSED)).to.equal(
+        PAUSED_MESSAGE
+      );
+      await expect(
+        token.connect(alice).transfer(bob.address, parse("1"))
+      ).to.be.revertedWith(PAUSED_MESSAGE);
+    });
+
+    it("blocks mints, vesting grants, redemptions and splits", async function () {
+      const { token, alice } = await loadFixture(deployPausedFixture);
+
+      await expect(token.mint(alice.address, parse("1"))).to.be.revertedWith(
+        PAUSED_MESSAGE
+      );
+      await expect(
+        token.grantVested(alice.address, parse("1"), 0, 0, 100, 1)
+      ).to.be.revertedWith(PAUSED_MESSAGE);
+      await expect(token.redeem(alice.address, parse("1"))).to.be.revertedWith(
+        PAUSED_MESSAGE
+      );
+      await expect(token.executeSplit(parse("2"))).to.be.revertedWith(
+        PAUSED_MESSAGE
+      );
+    });
+
+    it("still allows forced transfers and wallet recovery", async function () {
+      const { token, alice, bob, carol } = await loadFixture(deployPausedFixture);
+
+      await token.forcedTransfer(alice.address, bob.address, parse("40"), 2);
+      await expect(token.recoverWallet(alice.address, carol.address))
+        .to.emit(token, "WalletRecovered")
+        .withArgs(alice.address, carol.address, parse("60"), 1);
+
+      expect(await token.balanceOf(bob.address)).to.equal(parse("40"));
+      expect(await token.balanceOf(carol.address)).to.equal(parse("60"));
+    });
+
+    it("resumes transfers after unpause", async function () {
+      const { token, alice, bob } = await loadFixture(deployPausedFixture);
+      await token.unpause();
+
+      await token.connect(alice).transfer(bob.address, parse("10"));
+      expect(await token.balanceOf(bob.address)).to.equal(parse("10"));
+    });
+  });
+});
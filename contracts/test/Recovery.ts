@@ -0,0 +1,213 @@
+/**
+ * Recovery Test Suite
+ * --------------------
+ * Tests cover:
+ * - Forced transfers (forcedTransfer, ForcedTransfer) bypassing transfer restrictions
+ * - Lost-wallet recovery (recoverWallet, WalletRecovered): balance, approval, vesting grants
+ *   and lock-ups move to the new wallet
+ * - Compliance is still notified of forced movements
+ * - Access control and input validation
+ */
+
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Recovery", function () {
+  const parse = hre.ethers.parseEther;
+  const DAY = 24n * 60n * 60n;
+  const REASON_LOST_WALLET = 1;
+  const REASON_COURT_ORDER = 2;
+
+  async function deployRecoveryFixture() {
+    const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      parse("1000000")
+    );
+    await token.approveWallet(alice.address);
+    await token.approveWallet(bob.address);
+    await token.mint(alice.address, parse("100"));
+
+    return { token, owner, alice, bob, carol };
+  }
+
+  describe("forcedTransfer", function () {
+    it("moves shares and emits the reason code", async function () {
+      const { token, alice, bob } = await loadFixture(deployRecoveryFixture);
+
+      await expect(
+        token.forcedTransfer(
+          alice.address,
+          bob.address,
+          parse("40"),
+          REASON_COURT_ORDER
+        )
+      )
+        .to.emit(token, "ForcedTransfer")
+        .withArgs(alice.address, bob.address, parse("40"), REASON_COURT_ORDER)
+        .and.to.emit(token, "Transfer")
+        .withArgs(alice.address, bob.address, parse("40"));
+
+      expect(await token.balanceOf(alice.address)).to.equal(parse("60"));
+      expect(await token.balanceOf(bob.address)).to.equal(parse("40"));
+    });
+
+    it("bypasses lock-ups and a revoked sender", async function () {
+      const { token, alice, bob } = await loadFixture(deployRecoveryFixture);
+      await token.setLockup(alice.address, BigInt(await time.latest()) + 30n * DAY);
+      await token.revokeWallet(alice.address);
+
+      await token.forcedTransfer(
+        alice.address,
+        bob.address,
+        parse("100"),
+        REASON_COURT_ORDER
+      );
+      expect(await token.balanceOf(bob.address)).to.equal(parse("100"));
+    });
+
+    it("requires an approved recipient and a reason code", async function () {
+      const { token, alice, bob, carol } = await loadFixture(
+        deployRecoveryFixture
+      );
+
+      await expect(
+        token.forcedTransfer(alice.address, carol.address, 1n, REASON_COURT_ORDER)
+      ).to.be.revertedWith("ChainEquityToken: recipient not approved");
+      await expect(
+        token.forcedTransfer(alice.address, bob.address, 1n, 0)
+      ).to.be.revertedWith("ChainEquityToken: reason code required");
+      await expect(
+        token.forcedTransfer(alice.address, bob.address, 0n, REASON_COURT_ORDER)
+      ).to.be.revertedWith("ChainEquityToken: forced transfer amount must be > 0");
+    });
+
+    it("only allows the issuer", async function () {
+      const { token, alice, bob } = await loadFixture(deployRecoveryFixture);
+
+      await expect(
+        token
+          .connect(bob)
+          .forcedTransfer(alice.address, bob.address, 1n, REASON_COURT_ORDER)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("recoverWallet", function () {
+    it("moves the balance and approval to the new wallet", async function () {
+      const { token, owner, alice, carol } = await loadFixture(
+        deployRecoveryFixture
+      );
+
+      await expect(token.recoverWallet(alice.address, carol.address))
+        .to.emit(token, "WalletRecovered")
+        .withArgs(alice.address, carol.address, parse("100"), REASON_LOST_WALLET)
+        .and.to.emit(token, "WalletRevoked")
+        .withArgs(owner.address, alice.address)
+        .and.to.emit(token, "WalletApproved")
+        .withArgs(owner.address, carol.address);
+
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+      expect(await token.balanceOf(carol.address)).to.equal(parse("100"));
+      expect(await token.isApproved(alice.address)).to.equal(false);
+      expect(await token.isApproved(carol.address)).to.equal(true);
+    });
+
+    it("moves vesting grants and lock-ups to the new wallet", async function () {
+      const { token, alice, bob, carol } = await loadFixture(
+        deployRecoveryFixture
+      );
+      const now = BigInt(await time.latest());
+      await token.grantVested(
+        alice.address,
+        parse("50"),
+        now,
+        0n,
+        100n * DAY,
+        1n
+      );
+      await token.setLockup(alice.address, now + 10n * DAY);
+
+      await expect(token.recoverWallet(alice.address, carol.address))
+        .to.emit(token, "LockupSet")
+        .withArgs(carol.address, now + 10n * DAY);
+
+      expect(await token.getVestingGrantIds(alice.address)).to.deep.equal([]);
+      expect(await token.getVestingGrantIds(carol.address)).to.deep.equal([1n]);
+      expect((await token.getVestingGrant(1n)).beneficiary).to.equal(
+        carol.address
+      );
+      expect(await token.lockedBalanceOf(carol.address)).to.be.greaterThan(0n);
+      expect(await token.lockupEndOf(carol.address)).to.equal(now + 10n * DAY);
+
+      // Unvested shares stay locked on the new wallet
+      await time.increaseTo(now + 10n * DAY);
+      await expect(
+        token.connect(carol).transfer(bob.address, parse("140"))
+      ).to.be.revertedWith("ChainEquityToken: transfer exceeds vested balance");
+    });
+
+    it("records a recovery of an empty wallet", async function () {
+      const { token, bob, carol } = await loadFixture(deployRecoveryFixture);
+
+      await expect(token.recoverWallet(bob.address, carol.address))
+        .to.emit(token, "WalletRecovered")
+        .withArgs(bob.address, carol.address, 0n, REASON_LOST_WALLET)
+        .and.not.to.emit(token, "Transfer");
+    });
+
+    it("rejects invalid wallets and non-issuers", async function () {
+      const { token, alice, carol } = await loadFixture(deployRecoveryFixture);
+
+      await expect(
+        token.recoverWallet(alice.address, alice.address)
+      ).to.be.revertedWith(
+        "ChainEquityToken: new wallet must differ from lost wallet"
+      );
+      await expect(
+        token.recoverWallet(alice.address, hre.ethers.ZeroAddress)
+      ).to.be.revertedWith("ChainEquityToken: new wallet cannot be zero address");
+      await expect(
+        token.connect(alice).recoverWallet(alice.address, carol.address)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Compliance", function () {
+    it("notifies the compliance of forced movements", async function () {
+      const { token, alice, bob, carol } = await loadFixture(
+        deployRecoveryFixture
+      );
+      const compliance = await hre.ethers.deployContract("ModularCompliance", [
+        await token.getAddress(),
+      ]);
+      const maxHolders = await hre.ethers.deployContract("MaxHoldersModule", [
+        await compliance.getAddress(),
+      ]);
+      await maxHolders.syncHolders([alice.address]);
+      await compliance.addModule(await maxHolders.getAddress());
+      await token.setCompliance(await compliance.getAddress());
+
+      await token.recoverWallet(alice.address, carol.address);
+      expect(await maxHolders.isHolder(alice.address)).to.equal(false);
+      expect(await maxHolders.isHolder(carol.address)).to.equal(true);
+
+      await token.forcedTransfer(
+        carol.address,
+        bob.address,
+        parse("10"),
+        REASON_COURT_ORDER
+      );
+      expect(await maxHolders.holderCount()).to.equal(2n);
+    });
+  });
+});
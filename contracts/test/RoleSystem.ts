@@ -3,13 +3,15 @@
  * ----------------------------
  * Validates:
  * - Role constants are defined correctly in IRoles interface
- * - Owner-based access control (owner = issuer role)
+ * - Owner-based access control (owner = issuer role, holding every AccessControl role)
  * - Non-owner cannot perform issuer actions
  * - CapTable owner-only access
- * - Role system documentation and design decisions
+ * - Delegated roles: minter, compliance officer and corporate actions officer
+ * - Ownership transfers hand the owner's roles to the new owner
  *
- * Note: Detailed role validation (admin vs issuer granularity) is handled off-chain
- * in the backend. Contracts use simple ownership model where owner = issuer role.
+ * Note: Admin vs issuer granularity is handled off-chain in the backend, which indexes
+ * RoleGranted/RoleRevoked per company and lets a holder of the role a route needs through on that
+ * company only.
  */
 
 import { loadFixture } from '@nomicfoundation/hardhat-toolbox/network-helpers';
@@ -115,7 +117,7 @@ describe('Role System', function () {
       
       await expect(
         token.connect(alice).approveWallet(bob.address)
-      ).to.be.revertedWithCustomError(token, 'OwnableUnauthorizedAccount');
+      ).to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount');
     });
 
     it('reverts when non-owner tries to mint tokens', async function () {
@@ -126,7 +128,7 @@ describe('Role System', function () {
       
       await expect(
         token.connect(alice).mint(bob.address, hre.ethers.parseEther('1000'))
-      ).to.be.revertedWithCustomError(token, 'OwnableUnauthorizedAccount');
+      ).to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount');
     });
 
     it('reverts when non-owner tries to execute split', async function () {
@@ -134,7 +136,7 @@ describe('Role System', function () {
       
       await expect(
         token.connect(alice).executeSplit(hre.ethers.parseEther('2'))
-      ).to.be.revertedWithCustomError(token, 'OwnableUnauthorizedAccount');
+      ).to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount');
     });
 
     it('reverts when non-owner tries to change symbol', async function () {
@@ -142,7 +144,7 @@ describe('Role System', function () {
       
       await expect(
         token.connect(alice).changeSymbol('NEW')
-      ).to.be.revertedWithCustomError(token, 'OwnableUnauthorizedAccount');
+      ).to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount');
     });
 
     it('reverts when non-owner tries to set transfer restrictions', async function () {
@@ -150,7 +152,7 @@ describe('Role System', function () {
       
       await expect(
         token.connect(alice).setTransfersRestricted(false)
-      ).to.be.revertedWithCustomError(token, 'OwnableUnauthorizedAccount');
+      ).to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount');
     });
   });
 
@@ -184,7 +186,7 @@ describe('Role System', function () {
       
       await expect(
         capTable.connect(alice).linkToken(await token.getAddress())
-      ).to.be.revertedWithCustomError(capTable, 'OwnableUnauthorizedAccount');
+      ).to.be.revertedWithCustomError(capTable, 'AccessControlUnauthorizedAccount');
     });
 
     it('reverts when non-owner tries to record corporate action', async function () {
@@ -200,7 +202,7 @@ describe('Role System', function () {
       
       await expect(
         capTable.connect(alice).recordCorporateAction('SPLIT', actionData)
-      ).to.be.revertedWithCustomError(capTable, 'OwnableUnauthorizedAccount');
+      ).to.be.revertedWithCustomError(capTable, 'AccessControlUnauthorizedAccount');
     });
   });
 
@@ -216,18 +218,23 @@ describe('Role System', function () {
         .to.emit(token, 'WalletApproved');
     });
 
-    it('contracts use simple ownership model (owner = issuer)', async function () {
+    it('owner holds every role on both contracts', async function () {
       const { token, capTable, owner } = await loadFixture(deployRoleSystemFixture);
       
-      // Both contracts use owner for issuer role
       expect(await token.owner()).to.equal(owner.address);
       expect(await capTable.owner()).to.equal(owner.address);
       
-      // Owner can perform issuer actions on both contracts
-      await expect(token.connect(owner).approveWallet(owner.address))
-        .to.emit(token, 'WalletApproved');
-      
-      await capTable.connect(owner).linkToken(await token.getAddress());
+      for (const role of [
+        await token.DEFAULT_ADMIN_ROLE(),
+        await token.MINTER_ROLE(),
+        await token.COMPLIANCE_ROLE(),
+        await token.CORPORATE_ACTIONS_ROLE(),
+        await token.PAUSER_ROLE(),
+      ]) {
+        expect(await token.hasRole(role, owner.address)).to.equal(true);
+      }
+      expect(await capTable.hasRole(await capTable.DEFAULT_ADMIN_ROLE(), owner.address)).to.equal(true);
+      expect(await capTable.hasRole(await capTable.CORPORATE_ACTIONS_ROLE(), owner.address)).to.equal(true);
     });
 
     it('role constants are defined for off-chain consistency', async function () {
@@ -245,5 +252,101 @@ describe('Role System', function () {
       expect(adminHash).to.not.equal('0x0000000000000000000000000000000000000000000000000000000000000000');
     });
   });
-});
 
+  describe('Delegated Roles', function () {
+    it('defines role hashes matching the role names', async function () {
+      const { token, capTable } = await loadFixture(deployRoleSystemFixture);
+      const hash = (name: string) => hre.ethers.keccak256(hre.ethers.toUtf8Bytes(name));
+      
+      expect(await token.MINTER_ROLE()).to.equal(hash('MINTER_ROLE'));
+      expect(await token.COMPLIANCE_ROLE()).to.equal(hash('COMPLIANCE_ROLE'));
+      expect(await token.CORPORATE_ACTIONS_ROLE()).to.equal(hash('CORPORATE_ACTIONS_ROLE'));
+      expect(await token.PAUSER_ROLE()).to.equal(hash('PAUSER_ROLE'));
+      expect(await capTable.CORPORATE_ACTIONS_ROLE()).to.equal(hash('CORPORATE_ACTIONS_ROLE'));
+    });
+
+    it('lets a minter issue shares but not approve wallets', async function () {
+      const { token, owner, alice, bob } = await loadFixture(deployRoleSystemFixture);
+      const minterRole = await token.MINTER_ROLE();
+      
+      await expect(token.connect(owner).grantRole(minterRole, alice.address))
+        .to.emit(token, 'RoleGranted')
+        .withArgs(minterRole, alice.address, owner.address);
+      await token.connect(owner).approveWallet(bob.address);
+      
+      await expect(token.connect(alice).mint(bob.address, hre.ethers.parseEther('10')))
+        .to.emit(token, 'Issued')
+        .withArgs(bob.address, hre.ethers.parseEther('10'));
+      await expect(token.connect(alice).approveWallet(alice.address))
+        .to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount')
+        .withArgs(alice.address, await token.COMPLIANCE_ROLE());
+    });
+
+    it('stops a compliance officer once the role is revoked', async function () {
+      const { token, owner, alice, bob } = await loadFixture(deployRoleSystemFixture);
+      const complianceRole = await token.COMPLIANCE_ROLE();
+      
+      await token.connect(owner).grantRole(complianceRole, alice.address);
+      await expect(token.connect(alice).approveWallet(bob.address))
+        .to.emit(token, 'WalletApproved')
+        .withArgs(alice.address, bob.address);
+      
+      await expect(token.connect(owner).revokeRole(complianceRole, alice.address))
+        .to.emit(token, 'RoleRevoked')
+        .withArgs(complianceRole, alice.address, owner.address);
+      await expect(token.connect(alice).revokeWallet(bob.address))
+        .to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount')
+        .withArgs(alice.address, complianceRole);
+    });
+
+    it('only lets the default admin grant roles', async function () {
+      const { token, owner, alice, bob } = await loadFixture(deployRoleSystemFixture);
+      const minterRole = await token.MINTER_ROLE();
+      
+      await token.connect(owner).grantRole(minterRole, alice.address);
+      
+      await expect(token.connect(alice).grantRole(minterRole, bob.address))
+        .to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount')
+        .withArgs(alice.address, await token.DEFAULT_ADMIN_ROLE());
+    });
+
+    it('lets a corporate actions officer record actions but not link the token', async function () {
+      const { token, capTable, owner, alice } = await loadFixture(deployRoleSystemFixture);
+      
+      await capTable.connect(owner).grantRole(await capTable.CORPORATE_ACTIONS_ROLE(), alice.address);
+      await expect(capTable.connect(alice).linkToken(await token.getAddress()))
+        .to.be.revertedWithCustomError(capTable, 'AccessControlUnauthorizedAccount')
+        .withArgs(alice.address, await capTable.DEFAULT_ADMIN_ROLE());
+      
+      await capTable.connect(owner).linkToken(await token.getAddress());
+      const actionData = hre.ethers.AbiCoder.defaultAbiCoder().encode(
+        ['uint256'],
+        [hre.ethers.parseEther('2')]
+      );
+      await expect(capTable.connect(alice).recordCorporateAction('SPLIT', actionData))
+        .to.emit(capTable, 'CorporateActionRecorded');
+    });
+
+    it('hands the owner roles to the new owner and keeps delegated roles', async function () {
+      const { token, owner, alice, bob } = await loadFixture(deployRoleSystemFixture);
+      const adminRole = await token.DEFAULT_ADMIN_ROLE();
+      const minterRole = await token.MINTER_ROLE();
+      
+      await token.connect(owner).grantRole(minterRole, bob.address);
+      
+      await expect(token.connect(owner).transferOwnership(alice.address))
+        .to.emit(token, 'RoleRevoked')
+        .withArgs(adminRole, owner.address, owner.address)
+        .and.to.emit(token, 'RoleGranted')
+        .withArgs(adminRole, alice.address, owner.address);
+      
+      expect(await token.hasRole(adminRole, alice.address)).to.equal(true);
+      expect(await token.hasRole(minterRole, alice.address)).to.equal(true);
+      expect(await token.hasRole(adminRole, owner.address)).to.equal(false);
+      expect(await token.hasRole(minterRole, owner.address)).to.equal(false);
+      expect(await token.hasRole(minterRole, bob.address)).to.equal(true);
+      await expect(token.connect(owner).approveWallet(bob.address))
+        .to.be.revertedWithCustomError(token, 'AccessControlUnauthorizedAccount');
+    });
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Share Classes Test Suite
+ * -------------------------
+ * Tests cover:
+ * - CapTable.addShareClass registration, ShareClassAdded and SHARE_CLASS_ADDED recording
+ * - Share class lookups by ID and token
+ * - Validation (common/replaced tokens, duplicates, ownership, minted supply, terms)
+ * - Share class tokens cannot become the common token via replaceToken
+ * - Class tokens keep their own authorized shares and allowlist
+ */
+
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Share Classes", function () {
+  const parse = hre.ethers.parseEther;
+  const TOTAL_AUTH = parse("1000000");
+  const SERIES_A_AUTH = parse("250000");
+  const PREFERENCE_1X = parse("1");
+  const CONVERSION_2X = parse("2");
+
+  async function deployClassesFixture() {
+    const [owner, alice, bob] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const common = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      TOTAL_AUTH
+    );
+    const seriesA = await ChainEquityToken.deploy(
+      "Acme Inc. Series A Preferred",
+      "ACME-A",
+      SERIES_A_AUTH
+    );
+
+    const CapTable = await hre.ethers.getContractFactory("CapTable");
+    const capTable = await CapTable.deploy("Acme Inc.", "ACME");
+    await capTable.linkToken(await common.getAddress());
+
+    return { common, seriesA, capTable, ChainEquityToken, owner, alice, bob };
+  }
+
+  describe("addShareClass", function () {
+    it("registers the class and emits ShareClassAdded with its authorized shares", async function () {
+      const { seriesA, capTable } = await loadFixture(deployClassesFixture);
+      const seriesAAddress = await seriesA.getAddress();
+
+      await expect(
+        capTable.addShareClass(
+          "Series A Preferred",
+          seriesAAddress,
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          1
+        )
+      )
+        .to.emit(capTable, "ShareClassAdded")
+        .withArgs(
+          1,
+          seriesAAddress,
+          "Series A Preferred",
+          SERIES_A_AUTH,
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          1
+        );
+
+      const shareClass = await capTable.getShareClass(1);
+      expect(shareClass.id).to.equal(1n);
+      expect(shareClass.name).to.equal("Series A Preferred");
+      expect(shareClass.token).to.equal(seriesAAddress);
+      expect(shareClass.liquidationPreference).to.equal(PREFERENCE_1X);
+      expect(shareClass.conversionRatio).to.equal(CONVERSION_2X);
+      expect(shareClass.seniority).to.equal(1n);
+      expect(await capTable.shareClassCount()).to.equal(1n);
+      expect(await capTable.shareClassIdOf(seriesAAddress)).to.equal(1n);
+    });
+
+    it("records a SHARE_CLASS_ADDED corporate action", async function () {
+      const { seriesA, capTable } = await loadFixture(deployClassesFixture);
+      const seriesAAddress = await seriesA.getAddress();
+
+      await expect(
+        capTable.addShareClass(
+          "Series A Preferred",
+          seriesAAddress,
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          1
+        )
+      ).to.emit(capTable, "CorporateActionRecorded");
+
+      const action = await capTable.getCorporateAction(1);
+      expect(action.actionType).to.equal("SHARE_CLASS_ADDED");
+      const [classId, classToken] =
+        hre.ethers.AbiCoder.defaultAbiCoder().decode(
+          ["uint256", "address"],
+          action.data
+        );
+      expect(classId).to.equal(1n);
+      expect(classToken).to.equal(seriesAAddress);
+    });
+
+    it("assigns incremental IDs to further classes", async function () {
+      const { seriesA, capTable, ChainEquityToken } = await loadFixture(
+        deployClassesFixture
+      );
+      const seriesB = await ChainEquityToken.deploy(
+        "Acme Inc. Series B Preferred",
+        "ACME-B",
+        SERIES_A_AUTH
+      );
+
+      await capTable.addShareClass(
+        "Series A Preferred",
+        await seriesA.getAddress(),
+        PREFERENCE_1X,
+        CONVERSION_2X,
+        1
+      );
+      await capTable.addShareClass(
+        "Series B Preferred",
+        await seriesB.getAddress(),
+        parse("1.5"),
+        PREFERENCE_1X,
+        2
+      );
+
+      expect(await capTable.shareClassCount()).to.equal(2n);
+      expect((await capTable.getShareClass(2)).seniority).to.equal(2n);
+      expect(
+        await capTable.shareClassIdOf(await seriesB.getAddress())
+      ).to.equal(2n);
+    });
+
+    it("keeps the class token's own authorized shares and allowlist", async function () {
+      const { common, seriesA, capTable, alice } = await loadFixture(
+        deployClassesFixture
+      );
+      await capTable.addShareClass(
+        "Series A Preferred",
+        await seriesA.getAddress(),
+        PREFERENCE_1X,
+        CONVERSION_2X,
+        1
+      );
+
+      await seriesA.approveWallet(alice.address);
+      await seriesA.mint(alice.address, SERIES_A_AUTH);
+      await expect(seriesA.mint(alice.address, 1n)).to.be.revertedWith(
+        "ChainEquityToken: exceeds authorized supply"
+      );
+
+      // Common is unaffected by the class token
+      expect(await common.totalSupply()).to.equal(0n);
+      expect(await common.isApproved(alice.address)).to.equal(false);
+    });
+  });
+
+  describe("Validation", function () {
+    it("rejects the common token and replaced tokens", async function () {
+      const { common, capTable, ChainEquityToken } = await loadFixture(
+        deployClassesFixture
+      );
+      await expect(
+        capTable.addShareClass(
+          "Common",
+          await common.getAddress(),
+          0n,
+          PREFERENCE_1X,
+          1
+        )
+      ).to.be.revertedWith("CapTable: token is a common token");
+
+      const replacement = await ChainEquityToken.deploy(
+        "Acme Inc. Equity",
+        "ACME",
+        TOTAL_AUTH
+      );
+      await capTable.replaceToken(await replacement.getAddress(), 0);
+      await expect(
+        capTable.addShareClass(
+          "Old Common",
+          await common.getAddress(),
+          0n,
+          PREFERENCE_1X,
+          1
+        )
+      ).to.be.revertedWith("CapTable: token is a common token");
+    });
+
+    it("rejects a token that is already a share class", async function () {
+      const { seriesA, capTable } = await loadFixture(deployClassesFixture);
+      const seriesAAddress = await seriesA.getAddress();
+      await capTable.addShareClass(
+        "Series A Preferred",
+        seriesAAddress,
+        PREFERENCE_1X,
+        CONVERSION_2X,
+        1
+      );
+
+      await expect(
+        capTable.addShareClass(
+          "Series A Again",
+          seriesAAddress,
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          1
+        )
+      ).to.be.revertedWith("CapTable: token is already a share class");
+    });
+
+    it("prevents replacing the common token with a share class token", async function () {
+      const { seriesA, capTable } = await loadFixture(deployClassesFixture);
+      const seriesAAddress = await seriesA.getAddress();
+      await capTable.addShareClass(
+        "Series A Preferred",
+        seriesAAddress,
+        PREFERENCE_1X,
+        CONVERSION_2X,
+        1
+      );
+
+      await expect(
+        capTable.replaceToken(seriesAAddress, 0)
+      ).to.be.revertedWith("CapTable: new token is a share class");
+    });
+
+    it("rejects class tokens not owned by the issuer or with minted shares", async function () {
+      const { seriesA, capTable, ChainEquityToken, alice } = await loadFixture(
+        deployClassesFixture
+      );
+      const foreign = await ChainEquityToken.connect(alice).deploy(
+        "Foreign Preferred",
+        "FRGN",
+        SERIES_A_AUTH
+      );
+      await expect(
+        capTable.addShareClass(
+          "Foreign",
+          await foreign.getAddress(),
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          1
+        )
+      ).to.be.revertedWith("CapTable: class token must be owned by the issuer");
+
+      await seriesA.approveWallet(alice.address);
+      await seriesA.mint(alice.address, 1n);
+      await expect(
+        capTable.addShareClass(
+          "Series A Preferred",
+          await seriesA.getAddress(),
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          1
+        )
+      ).to.be.revertedWith("CapTable: class token must not have minted shares");
+    });
+
+    it("rejects invalid class terms", async function () {
+      const { seriesA, capTable } = await loadFixture(deployClassesFixture);
+      const seriesAAddress = await seriesA.getAddress();
+
+      await expect(
+        capTable.addShareClass("", seriesAAddress, PREFERENCE_1X, CONVERSION_2X, 1)
+      ).to.be.revertedWith("CapTable: class name cannot be empty");
+      await expect(
+        capTable.addShareClass(
+          "Series A Preferred",
+          hre.ethers.ZeroAddress,
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          1
+        )
+      ).to.be.revertedWith("CapTable: token address cannot be zero");
+      await expect(
+        capTable.addShareClass(
+          "Series A Preferred",
+          seriesAAddress,
+          PREFERENCE_1X,
+          0n,
+          1
+        )
+      ).to.be.revertedWith("CapTable: conversion ratio must be > 0");
+      await expect(
+        capTable.addShareClass(
+          "Series A Preferred",
+          seriesAAddress,
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          0
+        )
+      ).to.be.revertedWith("CapTable: seniority must be > 0");
+    });
+
+    it("requires a linked token and the issuer", async function () {
+      const { seriesA, capTable, alice } = await loadFixture(
+        deployClassesFixture
+      );
+      await expect(
+        capTable
+          .connect(alice)
+          .addShareClass(
+            "Series A Preferred",
+            await seriesA.getAddress(),
+            PREFERENCE_1X,
+            CONVERSION_2X,
+            1
+          )
+      ).to.be.revertedWithCustomError(capTable, "AccessControlUnauthorizedAccount");
+
+      const CapTable = await hre.ethers.getContractFactory("CapTable");
+      const unlinked = await CapTable.deploy("Globex", "GLBX");
+      await expect(
+        unlinked.addShareClass(
+          "Series A Preferred",
+          await seriesA.getAddress(),
+          PREFERENCE_1X,
+          CONVERSION_2X,
+          1
+        )
+      ).to.be.revertedWith(
+        "CapTable: token must be linked before recording actions"
+      );
+    });
+
+    it("rejects unknown share class IDs", async function () {
+      const { capTable } = await loadFixture(deployClassesFixture);
+
+      await expect(capTable.getShareClass(0)).to.be.revertedWith(
+        "CapTable: invalid share class ID"
+      );
+      await expect(capTable.getShareClass(1)).to.be.revertedWith(
+        "CapTable: invalid share class ID"
+      );
+    });
+  });
+});
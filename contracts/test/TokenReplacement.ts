@@ -0,0 +1,308 @@
+/**
+ * Token Replacement Test Suite
+ * -----------------------------
+ * Tests cover:
+ * - CapTable.replaceToken validation, events and TOKEN_REPLACED recording
+ * - Previous token tracking
+ * - End-to-end migration with scripts/migration-helper.ts (split-adjusted balances,
+ *   allowlist and transfer restrictions preserved)
+ */
+
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+import {
+  migrateToken,
+  verifySnapshot,
+  type MigrationSnapshot,
+} from "../scripts/migration-helper";
+import type { ChainEquityToken } from "../typechain-types";
+
+describe("Token Replacement", function () {
+  const parse = hre.ethers.parseEther;
+  const TOTAL_AUTH = parse("1000000");
+  const SPLIT_2X = parse("2");
+  const PRECISION = parse("1");
+
+  async function deployLinkedFixture() {
+    const [owner, alice, bob, charlie] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      TOTAL_AUTH
+    );
+    const replacement = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      TOTAL_AUTH
+    );
+
+    const CapTable = await hre.ethers.getContractFactory("CapTable");
+    const capTable = await CapTable.deploy("Acme Inc.", "ACME");
+    await capTable.linkToken(await token.getAddress());
+
+    return { token, replacement, capTable, owner, alice, bob, charlie };
+  }
+
+  /**
+   * Build a snapshot from on-chain state, the way the backend export script does from the
+   * indexer database
+   */
+  async function buildSnapshot(
+    token: ChainEquityToken,
+    holders: string[],
+    approved: string[]
+  ): Promise<MigrationSnapshot> {
+    const splitFactor = await token.splitFactor();
+    const shareholders = await Promise.all(
+      holders.map(async (address) => {
+        const balance = await token.balanceOf(address);
+        return {
+          address,
+          balance: balance.toString(),
+          effectiveBalance: ((balance * splitFactor) / PRECISION).toString(),
+        };
+      })
+    );
+
+    return {
+      blockNumber: await hre.ethers.provider.getBlockNumber(),
+      timestamp: Math.floor(Date.now() / 1000),
+      oldTokenAddress: await token.getAddress(),
+      splitFactor: splitFactor.toString(),
+      totalSupply: (await token.totalSupply()).toString(),
+      totalEffectiveSupply: shareholders
+        .reduce((sum, holder) => sum + BigInt(holder.effectiveBalance), 0n)
+        .toString(),
+      shareholderCount: shareholders.length,
+      shareholders,
+      approvedAddresses: approved,
+      transfersRestricted: await token.transfersRestricted(),
+    };
+  }
+
+  describe("replaceToken", function () {
+    it("switches the linked token, records TOKEN_REPLACED and emits TokenReplaced", async function () {
+      const { token, replacement, capTable } = await loadFixture(
+        deployLinkedFixture
+      );
+      const oldAddress = await token.getAddress();
+      const newAddress = await replacement.getAddress();
+      const migrationBlock = await hre.ethers.provider.getBlockNumber();
+
+      const tx = await capTable.replaceToken(newAddress, migrationBlock);
+      const receipt = await tx.wait();
+      await expect(tx)
+        .to.emit(capTable, "TokenReplaced")
+        .withArgs(oldAddress, newAddress, migrationBlock);
+      await expect(tx)
+        .to.emit(capTable, "CorporateActionRecorded")
+        .withArgs(1n, "TOKEN_REPLACED", receipt!.blockNumber);
+
+      expect(await capTable.token()).to.equal(newAddress);
+      expect(await capTable.getPreviousTokens()).to.deep.equal([oldAddress]);
+
+      const action = await capTable.getCorporateAction(1);
+      expect(action.actionType).to.equal("TOKEN_REPLACED");
+      const [decodedOld, decodedNew, decodedBlock] =
+        hre.ethers.AbiCoder.defaultAbiCoder().decode(
+          ["address", "address", "uint256"],
+          action.data
+        );
+      expect(decodedOld).to.equal(oldAddress);
+      expect(decodedNew).to.equal(newAddress);
+      expect(decodedBlock).to.equal(migrationBlock);
+    });
+
+    it("supports successive replacements", async function () {
+      const { token, replacement, capTable } = await loadFixture(
+        deployLinkedFixture
+      );
+      const ChainEquityToken = await hre.ethers.getContractFactory(
+        "ChainEquityToken"
+      );
+      const third = await ChainEquityToken.deploy("Acme", "ACME", TOTAL_AUTH);
+      const block = await hre.ethers.provider.getBlockNumber();
+
+      await capTable.replaceToken(await replacement.getAddress(), block);
+      await capTable.replaceToken(await third.getAddress(), block);
+
+      expect(await capTable.getPreviousTokens()).to.deep.equal([
+        await token.getAddress(),
+        await replacement.getAddress(),
+      ]);
+      expect(await capTable.token()).to.equal(await third.getAddress());
+    });
+
+    it("reverts when no token is linked", async function () {
+      const { replacement } = await loadFixture(deployLinkedFixture);
+      const CapTable = await hre.ethers.getContractFactory("CapTable");
+      const unlinked = await CapTable.deploy("Other Inc.", "OTHR");
+
+      await expect(
+        unlinked.replaceToken(await replacement.getAddress(), 0)
+      ).to.be.revertedWith("CapTable: token must be linked before replacing");
+    });
+
+    it("rejects invalid replacement tokens", async function () {
+      const { token, capTable } = await loadFixture(deployLinkedFixture);
+
+      await expect(
+        capTable.replaceToken(hre.ethers.ZeroAddress, 0)
+      ).to.be.revertedWith("CapTable: token address cannot be zero");
+      await expect(
+        capTable.replaceToken(await token.getAddress(), 0)
+      ).to.be.revertedWith("CapTable: new token must differ from current token");
+    });
+
+    it("rejects a token that was already replaced", async function () {
+      const { token, replacement, capTable } = await loadFixture(
+        deployLinkedFixture
+      );
+      await capTable.replaceToken(await replacement.getAddress(), 0);
+
+      await expect(
+        capTable.replaceToken(await token.getAddress(), 0)
+      ).to.be.revertedWith("CapTable: token was already replaced");
+    });
+
+    it("rejects a migration block in the future", async function () {
+      const { replacement, capTable } = await loadFixture(deployLinkedFixture);
+      const future = (await hre.ethers.provider.getBlockNumber()) + 10;
+
+      await expect(
+        capTable.replaceToken(await replacement.getAddress(), future)
+      ).to.be.revertedWith("CapTable: migration block cannot be in the future");
+    });
+
+    it("requires the replacement to be owned by the issuer", async function () {
+      const { capTable, alice } = await loadFixture(deployLinkedFixture);
+      const ChainEquityToken = await hre.ethers.getContractFactory(
+        "ChainEquityToken"
+      );
+      const foreign = await ChainEquityToken.connect(alice).deploy(
+        "Foreign",
+        "FRGN",
+        TOTAL_AUTH
+      );
+
+      await expect(
+        capTable.replaceToken(await foreign.getAddress(), 0)
+      ).to.be.revertedWith("CapTable: new token must be owned by the issuer");
+    });
+
+    it("requires the replacement to have no minted shares", async function () {
+      const { replacement, capTable, alice } = await loadFixture(
+        deployLinkedFixture
+      );
+      await replacement.approveWallet(alice.address);
+      await replacement.mint(alice.address, parse("1"));
+
+      await expect(
+        capTable.replaceToken(await replacement.getAddress(), 0)
+      ).to.be.revertedWith("CapTable: new token must not have minted shares");
+    });
+
+    it("only allows the owner to replace the token", async function () {
+      const { replacement, capTable, alice } = await loadFixture(
+        deployLinkedFixture
+      );
+
+      await expect(
+        capTable.connect(alice).replaceToken(await replacement.getAddress(), 0)
+      )
+        .to.be.revertedWithCustomError(capTable, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await capTable.CORPORATE_ACTIONS_ROLE());
+    });
+  });
+
+  describe("Migration helper", function () {
+    async function migratedHoldingsFixture() {
+      const fixture = await deployLinkedFixture();
+      const { token, alice, bob, charlie } = fixture;
+
+      // alice and bob hold shares, charlie is approved without shares, bob is later revoked
+      for (const signer of [alice, bob, charlie]) {
+        await token.approveWallet(signer.address);
+      }
+      await token.mint(alice.address, parse("100"));
+      await token.mint(bob.address, parse("33"));
+      await token.executeSplit(SPLIT_2X);
+      await token.revokeWallet(bob.address);
+      await token.setTransfersRestricted(false);
+
+      const snapshot = await buildSnapshot(
+        token,
+        [alice.address, bob.address],
+        [alice.address, charlie.address]
+      );
+
+      return { ...fixture, snapshot };
+    }
+
+    it("migrates split-adjusted balances, allowlist and restrictions", async function () {
+      const { token, capTable, snapshot, alice, bob, charlie } =
+        await loadFixture(migratedHoldingsFixture);
+
+      const result = await migrateToken(snapshot, await capTable.getAddress());
+      expect(result.errors).to.deep.equal([]);
+      expect(result.success).to.equal(true);
+      expect(result.actionId).to.equal(1);
+
+      const newToken = (await hre.ethers.getContractAt(
+        "ChainEquityToken",
+        result.newTokenAddress!
+      )) as unknown as ChainEquityToken;
+
+      expect(await capTable.token()).to.equal(result.newTokenAddress);
+      expect(await capTable.getPreviousTokens()).to.deep.equal([
+        await token.getAddress(),
+      ]);
+
+      expect(await newToken.splitFactor()).to.equal(PRECISION);
+      expect(await newToken.balanceOf(alice.address)).to.equal(parse("200"));
+      expect(await newToken.balanceOf(bob.address)).to.equal(parse("66"));
+      expect(await newToken.totalSupply()).to.equal(parse("266"));
+      expect(await newToken.totalAuthorized()).to.equal(TOTAL_AUTH * 2n);
+      expect(await newToken.allowlist(alice.address)).to.equal(true);
+      expect(await newToken.allowlist(bob.address)).to.equal(false);
+      expect(await newToken.allowlist(charlie.address)).to.equal(true);
+      expect(await newToken.transfersRestricted()).to.equal(false);
+
+      // The old token is untouched and still queryable
+      expect(await token.balanceOf(alice.address)).to.equal(parse("100"));
+    });
+
+    it("only verifies the snapshot on a dry run", async function () {
+      const { capTable, token, snapshot } = await loadFixture(
+        migratedHoldingsFixture
+      );
+
+      const result = await migrateToken(snapshot, await capTable.getAddress(), {
+        dryRun: true,
+      });
+
+      expect(result.success).to.equal(true);
+      expect(result.newTokenAddress).to.equal(undefined);
+      expect(await capTable.token()).to.equal(await token.getAddress());
+    });
+
+    it("rejects a stale snapshot without sending transactions", async function () {
+      const { capTable, token, snapshot, alice } = await loadFixture(
+        migratedHoldingsFixture
+      );
+      await token.mint(alice.address, parse("1"));
+
+      const check = await verifySnapshot(snapshot, token);
+      expect(check.success).to.equal(false);
+
+      const result = await migrateToken(snapshot, await capTable.getAddress());
+      expect(result.success).to.equal(false);
+      expect(await capTable.token()).to.equal(await token.getAddress());
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Transfer Restrictions (ERC-1404) Test Suite
+ * --------------------------------------------
+ * Tests cover:
+ * - detectTransferRestriction codes for allowlist, lock-up and vesting restrictions
+ * - messageForTransferRestriction matches the revert reason of the rejected transfer
+ * - Restrictions that do not apply while transfers are unrestricted
+ */
+
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Transfer Restrictions (ERC-1404)", function () {
+  const parse = hre.ethers.parseEther;
+  const DAY = 24n * 60n * 60n;
+
+  const SUCCESS = 0;
+  const SENDER_NOT_APPROVED = 1;
+  const RECIPIENT_NOT_APPROVED = 2;
+  const SENDER_LOCKED_UP = 3;
+  const EXCEEDS_VESTED_BALANCE = 4;
+
+  async function deployRestrictionFixture() {
+    const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      parse("1000000")
+    );
+    await token.approveWallet(alice.address);
+    await token.approveWallet(bob.address);
+    await token.mint(alice.address, parse("100"));
+
+    return { token, owner, alice, bob, carol };
+  }
+
+  /**
+   * Expect a transfer to be detected as restricted and to revert with the code's message
+   */
+  async function expectRestricted(
+    token: Awaited<ReturnType<typeof deployRestrictionFixture>>["token"],
+    from: Awaited<ReturnType<typeof hre.ethers.getSigners>>[number],
+    to: string,
+    value: bigint,
+    code: number
+  ) {
+    expect(
+      await token.detectTransferRestriction(from.address, to, value)
+    ).to.equal(code);
+    const message = await token.messageForTransferRestriction(code);
+    await expect(token.connect(from).transfer(to, value)).to.be.revertedWith(
+      message
+    );
+  }
+
+  describe("detectTransferRestriction", function () {
+    it("returns SUCCESS for an allowed transfer", async function () {
+      const { token, alice, bob } = await loadFixture(deployRestrictionFixture);
+
+      expect(
+        await token.detectTransferRestriction(alice.address, bob.address, 1n)
+      ).to.equal(SUCCESS);
+      expect(await token.messageForTransferRestriction(SUCCESS)).to.equal(
+        "No restriction"
+      );
+    });
+
+    it("detects a sender or recipient missing from the allowlist", async function () {
+      const { token, alice, bob, carol } = await loadFixture(
+        deployRestrictionFixture
+      );
+
+      await expectRestricted(
+        token,
+        alice,
+        carol.address,
+        1n,
+        RECIPIENT_NOT_APPROVED
+      );
+
+      await token.revokeWallet(alice.address);
+      await expectRestricted(
+        token,
+        alice,
+        bob.address,
+        1n,
+        SENDER_NOT_APPROVED
+      );
+    });
+
+    it("detects a sender under lock-up", async function () {
+      const { token, alice, bob } = await loadFixture(deployRestrictionFixture);
+      await token.setLockup(alice.address, BigInt(await time.latest()) + DAY);
+
+      await expectRestricted(token, alice, bob.address, 1n, SENDER_LOCKED_UP);
+    });
+
+    it("detects a transfer of unvested shares", async function () {
+      const { token, alice, bob } = await loadFixture(deployRestrictionFixture);
+      const start = BigInt(await time.latest());
+      await token.grantVested(
+        alice.address,
+        parse("50"),
+        start,
+        0n,
+        100n * DAY,
+        1n
+      );
+
+      // 100 fully vested shares can move, the 50 granted ones not yet
+      expect(
+        await token.detectTransferRestriction(
+          alice.address,
+          bob.address,
+          parse("100")
+        )
+      ).to.equal(SUCCESS);
+      await expectRestricted(
+        token,
+        alice,
+        bob.address,
+        parse("120"),
+        EXCEEDS_VESTED_BALANCE
+      );
+    });
+
+    it("reports allowlist restrictions before lock-ups and vesting", async function () {
+      const { token, alice, carol } = await loadFixture(
+        deployRestrictionFixture
+      );
+      await token.setGlobalLockup(BigInt(await time.latest()) + DAY);
+
+      expect(
+        await token.detectTransferRestriction(alice.address, carol.address, 1n)
+      ).to.equal(RECIPIENT_NOT_APPROVED);
+    });
+
+    it("ignores the allowlist while transfers are unrestricted", async function () {
+      const { token, alice, carol } = await loadFixture(
+        deployRestrictionFixture
+      );
+      await token.setTransfersRestricted(false);
+
+      expect(
+        await token.detectTransferRestriction(alice.address, carol.address, 1n)
+      ).to.equal(SUCCESS);
+
+      await token.setGlobalLockup(BigInt(await time.latest()) + DAY);
+      await expectRestricted(
+        token,
+        alice,
+        carol.address,
+        1n,
+        SENDER_LOCKED_UP
+      );
+    });
+  });
+
+  describe("messageForTransferRestriction", function () {
+    it("returns a message for every code", async function () {
+      const { token } = await loadFixture(deployRestrictionFixture);
+
+      expect(
+        await token.messageForTransferRestriction(SENDER_NOT_APPROVED)
+      ).to.equal("ChainEquityToken: sender not approved");
+      expect(
+        await token.messageForTransferRestriction(EXCEEDS_VESTED_BALANCE)
+      ).to.equal("ChainEquityToken: transfer exceeds vested balance");
+      expect(await token.messageForTransferRestriction(99)).to.equal(
+        "ChainEquityToken: unknown restriction code"
+      );
+    });
+  });
+});
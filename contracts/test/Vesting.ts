@@ -0,0 +1,249 @@
+/**
+ * Vesting Test Suite
+ * -------------------
+ * Tests cover:
+ * - grantVested issuance, VestingGrantCreated and grant lookups
+ * - Cliff, linear and graded schedules (vestedAmountOf, lockedBalanceOf)
+ * - Transfers limited to vested shares, with and without transfer restrictions
+ * - Early termination: revokeVestingGrant claws back unvested shares
+ * - Validation and access control
+ */
+
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import hre from "hardhat";
+
+describe("Vesting", function () {
+  const parse = hre.ethers.parseEther;
+  const TOTAL_AUTH = parse("1000000");
+  const GRANT = parse("1200");
+  const MONTH = 30n * 24n * 60n * 60n;
+  const YEAR = 12n * MONTH;
+
+  async function deployVestingFixture() {
+    const [owner, alice, bob] = await hre.ethers.getSigners();
+
+    const ChainEquityToken = await hre.ethers.getContractFactory(
+      "ChainEquityToken"
+    );
+    const token = await ChainEquityToken.deploy(
+      "Acme Inc. Equity",
+      "ACME",
+      TOTAL_AUTH
+    );
+    await token.approveWallet(alice.address);
+    await token.approveWallet(bob.address);
+
+    // Four-year grant to Alice with a one-year cliff, vesting monthly
+    const start = BigInt(await time.latest()) + 100n;
+    await token.grantVested(alice.address, GRANT, start, YEAR, 4n * YEAR, MONTH);
+
+    return { token, owner, alice, bob, start };
+  }
+
+  describe("grantVested", function () {
+    it("mints the grant to the beneficiary and emits Issued and VestingGrantCreated", async function () {
+      const { token, alice, bob } = await loadFixture(deployVestingFixture);
+      const start = BigInt(await time.latest());
+
+      await expect(
+        token.grantVested(bob.address, GRANT, start, 0n, YEAR, 1n)
+      )
+        .to.emit(token, "Issued")
+        .withArgs(bob.address, GRANT)
+        .and.to.emit(token, "VestingGrantCreated")
+        .withArgs(2n, bob.address, GRANT, start, 0n, YEAR, 1n);
+
+      expect(await token.balanceOf(bob.address)).to.equal(GRANT);
+      expect(await token.balanceOf(alice.address)).to.equal(GRANT);
+      expect(await token.vestingGrantCount()).to.equal(2n);
+      expect(await token.getVestingGrantIds(bob.address)).to.deep.equal([2n]);
+
+      const grant = await token.getVestingGrant(2n);
+      expect(grant.beneficiary).to.equal(bob.address);
+      expect(grant.amount).to.equal(GRANT);
+      expect(grant.revokedAt).to.equal(0n);
+    });
+
+    it("counts towards the authorized supply", async function () {
+      const { token, bob } = await loadFixture(deployVestingFixture);
+
+      await expect(
+        token.grantVested(bob.address, TOTAL_AUTH, 0n, 0n, YEAR, 1n)
+      ).to.be.revertedWith("ChainEquityToken: exceeds authorized supply");
+    });
+  });
+
+  describe("Schedules", function () {
+    it("vests nothing before the cliff, then the elapsed whole months", async function () {
+      const { token, start } = await loadFixture(deployVestingFixture);
+
+      expect(await token.vestedAmountOf(1n, start + YEAR - 1n)).to.equal(0n);
+      // 12 of 48 months at the cliff
+      expect(await token.vestedAmountOf(1n, start + YEAR)).to.equal(
+        GRANT / 4n
+      );
+      // Graded: nothing more until the next month completes
+      expect(await token.vestedAmountOf(1n, start + YEAR + MONTH - 1n)).to.equal(
+        GRANT / 4n
+      );
+      expect(await token.vestedAmountOf(1n, start + YEAR + MONTH)).to.equal(
+        (GRANT * 13n) / 48n
+      );
+      expect(await token.vestedAmountOf(1n, start + 4n * YEAR)).to.equal(GRANT);
+    });
+
+    it("vests linearly with a one-second release interval", async function () {
+      const { token, bob } = await loadFixture(deployVestingFixture);
+      const start = 1_000_000n;
+      await token.grantVested(bob.address, GRANT, start, 0n, 1000n, 1n);
+
+      expect(await token.vestedAmountOf(2n, start + 1n)).to.equal(
+        GRANT / 1000n
+      );
+      expect(await token.vestedAmountOf(2n, start + 250n)).to.equal(GRANT / 4n);
+    });
+
+    it("locks the unvested part of the beneficiary's balance", async function () {
+      const { token, alice, start } = await loadFixture(deployVestingFixture);
+
+      expect(await token.lockedBalanceOf(alice.address)).to.equal(GRANT);
+
+      await time.increaseTo(start + 2n * YEAR);
+      expect(await token.lockedBalanceOf(alice.address)).to.equal(GRANT / 2n);
+
+      await time.increaseTo(start + 4n * YEAR);
+      expect(await token.lockedBalanceOf(alice.address)).to.equal(0n);
+    });
+  });
+
+  describe("Transfers", function () {
+    it("only allows transferring vested shares", async function () {
+      const { token, alice, bob, start } = await loadFixture(
+        deployVestingFixture
+      );
+
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: transfer exceeds vested balance");
+
+      await time.increaseTo(start + YEAR);
+      await token.connect(alice).transfer(bob.address, GRANT / 4n);
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: transfer exceeds vested balance");
+
+      expect(await token.balanceOf(bob.address)).to.equal(GRANT / 4n);
+    });
+
+    it("keeps other shares of the beneficiary transferable", async function () {
+      const { token, alice, bob } = await loadFixture(deployVestingFixture);
+      await token.mint(alice.address, 100n);
+
+      await token.connect(alice).transfer(bob.address, 100n);
+      expect(await token.balanceOf(bob.address)).to.equal(100n);
+    });
+
+    it("applies when transfer restrictions are disabled", async function () {
+      const { token, alice, bob } = await loadFixture(deployVestingFixture);
+      await token.setTransfersRestricted(false);
+
+      await expect(
+        token.connect(alice).transfer(bob.address, 1n)
+      ).to.be.revertedWith("ChainEquityToken: transfer exceeds vested balance");
+    });
+  });
+
+  describe("revokeVestingGrant", function () {
+    it("claws back the unvested shares and keeps the vested ones", async function () {
+      const { token, alice, bob, start } = await loadFixture(
+        deployVestingFixture
+      );
+      await time.setNextBlockTimestamp(start + 2n * YEAR);
+
+      await expect(token.revokeVestingGrant(1n))
+        .to.emit(token, "Redeemed")
+        .withArgs(alice.address, GRANT / 2n)
+        .and.to.emit(token, "VestingGrantRevoked")
+        .withArgs(1n, alice.address, GRANT / 2n, GRANT / 2n);
+
+      expect(await token.balanceOf(alice.address)).to.equal(GRANT / 2n);
+      expect(await token.totalSupply()).to.equal(GRANT / 2n);
+      expect(await token.lockedBalanceOf(alice.address)).to.equal(0n);
+      expect((await token.getVestingGrant(1n)).revokedAt).to.equal(
+        start + 2n * YEAR
+      );
+      // Vesting stops at the revocation time
+      expect(await token.vestedAmountOf(1n, start + 4n * YEAR)).to.equal(
+        GRANT / 2n
+      );
+
+      await token.connect(alice).transfer(bob.address, GRANT / 2n);
+    });
+
+    it("claws back the whole grant before the cliff", async function () {
+      const { token, alice } = await loadFixture(deployVestingFixture);
+
+      await expect(token.revokeVestingGrant(1n))
+        .to.emit(token, "VestingGrantRevoked")
+        .withArgs(1n, alice.address, 0n, GRANT);
+      expect(await token.balanceOf(alice.address)).to.equal(0n);
+    });
+
+    it("rejects unknown and revoked grants", async function () {
+      const { token } = await loadFixture(deployVestingFixture);
+
+      await expect(token.revokeVestingGrant(2n)).to.be.revertedWith(
+        "ChainEquityToken: invalid grant ID"
+      );
+      await token.revokeVestingGrant(1n);
+      await expect(token.revokeVestingGrant(1n)).to.be.revertedWith(
+        "ChainEquityToken: grant already revoked"
+      );
+    });
+  });
+
+  describe("Validation", function () {
+    it("rejects invalid schedules", async function () {
+      const { token, bob } = await loadFixture(deployVestingFixture);
+
+      await expect(
+        token.grantVested(bob.address, 0n, 0n, 0n, YEAR, 1n)
+      ).to.be.revertedWith("ChainEquityToken: grant amount must be > 0");
+      await expect(
+        token.grantVested(bob.address, GRANT, 0n, 0n, 0n, 1n)
+      ).to.be.revertedWith("ChainEquityToken: vesting duration must be > 0");
+      await expect(
+        token.grantVested(bob.address, GRANT, 0n, 2n * YEAR, YEAR, 1n)
+      ).to.be.revertedWith("ChainEquityToken: cliff exceeds vesting duration");
+      await expect(
+        token.grantVested(bob.address, GRANT, 0n, 0n, YEAR, 0n)
+      ).to.be.revertedWith("ChainEquityToken: invalid release interval");
+      await expect(
+        token.grantVested(bob.address, GRANT, 0n, 0n, YEAR, 2n * YEAR)
+      ).to.be.revertedWith("ChainEquityToken: invalid release interval");
+    });
+
+    it("requires an approved beneficiary", async function () {
+      const { token, owner } = await loadFixture(deployVestingFixture);
+
+      await expect(
+        token.grantVested(owner.address, GRANT, 0n, 0n, YEAR, 1n)
+      ).to.be.revertedWith("ChainEquityToken: recipient not approved");
+    });
+
+    it("only allows the issuer to grant and revoke", async function () {
+      const { token, alice, bob } = await loadFixture(deployVestingFixture);
+
+      await expect(
+        token.connect(alice).grantVested(bob.address, GRANT, 0n, 0n, YEAR, 1n)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+      await expect(
+        token.connect(alice).revokeVestingGrant(1n)
+      ).to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+    });
+  });
+});
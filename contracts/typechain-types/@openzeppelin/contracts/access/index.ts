@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export type { AccessControl } from "./AccessControl";
+export type { IAccessControl } from "./IAccessControl";
 export type { Ownable } from "./Ownable";
@@ -45,17 +45,50 @@ export declare namespace CapTable {
     timestamp: bigint;
     data: string;
   };
+
+  export type ShareClassStruct = {
+    id: BigNumberish;
+    name: string;
+    token: AddressLike;
+    liquidationPreference: BigNumberish;
+    conversionRatio: BigNumberish;
+    seniority: BigNumberish;
+  };
+
+  export type ShareClassStructOutput = [
+    id: bigint,
+    name: string,
+    token: string,
+    liquidationPreference: bigint,
+    conversionRatio: bigint,
+    seniority: bigint
+  ] & {
+    id: bigint;
+    name: string;
+    token: string;
+    liquidationPreference: bigint;
+    conversionRatio: bigint;
+    seniority: bigint;
+  };
 }
 
 export interface CapTableInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "CORPORATE_ACTIONS_ROLE"
+      | "DEFAULT_ADMIN_ROLE"
+      | "addShareClass"
       | "corporateActionById"
       | "corporateActionCount"
       | "createdAt"
       | "getCompanyInfo"
       | "getCorporateAction"
       | "getCorporateActionCount"
+      | "getPreviousTokens"
+      | "getRoleAdmin"
+      | "getShareClass"
+      | "grantRole"
+      | "hasRole"
       | "isTokenLinked"
       | "linkToken"
       | "name"
@@ -63,6 +96,12 @@ export interface CapTableInterface extends Interface {
       | "owner"
       | "recordCorporateAction"
       | "renounceOwnership"
+      | "renounceRole"
+      | "replaceToken"
+      | "revokeRole"
+      | "shareClassCount"
+      | "shareClassIdOf"
+      | "supportsInterface"
       | "symbol"
       | "token"
       | "transferOwnership"
@@ -73,9 +112,27 @@ export interface CapTableInterface extends Interface {
       | "CapTableCreated"
       | "CorporateActionRecorded"
       | "OwnershipTransferred"
+      | "RoleAdminChanged"
+      | "RoleGranted"
+      | "RoleRevoked"
+      | "ShareClassAdded"
+      | "SymbolUpdated"
       | "TokenLinked"
+      | "TokenReplaced"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "CORPORATE_ACTIONS_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addShareClass",
+    values: [string, AddressLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "corporateActionById",
     values: [BigNumberish]
@@ -97,6 +154,26 @@ export interface CapTableInterface extends Interface {
     functionFragment: "getCorporateActionCount",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getPreviousTokens",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleAdmin",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getShareClass",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "isTokenLinked",
     values?: undefined
@@ -119,6 +196,30 @@ export interface CapTableInterface extends Interface {
     functionFragment: "renounceOwnership",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "replaceToken",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareClassCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "shareClassIdOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
   encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
   encodeFunctionData(functionFragment: "token", values?: undefined): string;
   encodeFunctionData(
@@ -126,6 +227,18 @@ export interface CapTableInterface extends Interface {
     values: [AddressLike]
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "CORPORATE_ACTIONS_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addShareClass",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "corporateActionById",
     data: BytesLike
@@ -147,6 +260,20 @@ export interface CapTableInterface extends Interface {
     functionFragment: "getCorporateActionCount",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPreviousTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getShareClass",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isTokenLinked",
     data: BytesLike
@@ -166,6 +293,27 @@ export interface CapTableInterface extends Interface {
     functionFragment: "renounceOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "replaceToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "shareClassCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "shareClassIdOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
   decodeFunctionResult(
@@ -234,6 +382,111 @@ export namespace OwnershipTransferredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace RoleAdminChangedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    previousAdminRole: BytesLike,
+    newAdminRole: BytesLike
+  ];
+  export type OutputTuple = [
+    role: string,
+    previousAdminRole: string,
+    newAdminRole: string
+  ];
+  export interface OutputObject {
+    role: string;
+    previousAdminRole: string;
+    newAdminRole: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ShareClassAddedEvent {
+  export type InputTuple = [
+    classId: BigNumberish,
+    token: AddressLike,
+    name: string,
+    authorizedShares: BigNumberish,
+    liquidationPreference: BigNumberish,
+    conversionRatio: BigNumberish,
+    seniority: BigNumberish
+  ];
+  export type OutputTuple = [
+    classId: bigint,
+    token: string,
+    name: string,
+    authorizedShares: bigint,
+    liquidationPreference: bigint,
+    conversionRatio: bigint,
+    seniority: bigint
+  ];
+  export interface OutputObject {
+    classId: bigint;
+    token: string;
+    name: string;
+    authorizedShares: bigint;
+    liquidationPreference: bigint;
+    conversionRatio: bigint;
+    seniority: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SymbolUpdatedEvent {
+  export type InputTuple = [oldSymbol: string, newSymbol: string];
+  export type OutputTuple = [oldSymbol: string, newSymbol: string];
+  export interface OutputObject {
+    oldSymbol: string;
+    newSymbol: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace TokenLinkedEvent {
   export type InputTuple = [capTable: AddressLike, token: AddressLike];
   export type OutputTuple = [capTable: string, token: string];
@@ -247,6 +500,28 @@ export namespace TokenLinkedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace TokenReplacedEvent {
+  export type InputTuple = [
+    oldToken: AddressLike,
+    newToken: AddressLike,
+    migrationBlockNumber: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldToken: string,
+    newToken: string,
+    migrationBlockNumber: bigint
+  ];
+  export interface OutputObject {
+    oldToken: string;
+    newToken: string;
+    migrationBlockNumber: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface CapTable extends BaseContract {
   connect(runner?: ContractRunner | null): CapTable;
   waitForDeployment(): Promise<this>;
@@ -290,6 +565,22 @@ export interface CapTable extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  CORPORATE_ACTIONS_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  addShareClass: TypedContractMethod<
+    [
+      _name: string,
+      _token: AddressLike,
+      liquidationPreference: BigNumberish,
+      conversionRatio: BigNumberish,
+      seniority: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
   corporateActionById: TypedContractMethod<
     [arg0: BigNumberish],
     [
@@ -322,6 +613,28 @@ export interface CapTable extends BaseContract {
 
   getCorporateActionCount: TypedContractMethod<[], [bigint], "view">;
 
+  getPreviousTokens: TypedContractMethod<[], [string[]], "view">;
+
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], [string], "view">;
+
+  getShareClass: TypedContractMethod<
+    [id: BigNumberish],
+    [CapTable.ShareClassStructOutput],
+    "view"
+  >;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
   isTokenLinked: TypedContractMethod<[], [boolean], "view">;
 
   linkToken: TypedContractMethod<[_token: AddressLike], [void], "nonpayable">;
@@ -340,6 +653,34 @@ export interface CapTable extends BaseContract {
 
   renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
 
+  renounceRole: TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  replaceToken: TypedContractMethod<
+    [newToken: AddressLike, migrationBlockNumber: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  shareClassCount: TypedContractMethod<[], [bigint], "view">;
+
+  shareClassIdOf: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
   symbol: TypedContractMethod<[], [string], "view">;
 
   token: TypedContractMethod<[], [string], "view">;
@@ -354,6 +695,25 @@ export interface CapTable extends BaseContract {
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "CORPORATE_ACTIONS_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "addShareClass"
+  ): TypedContractMethod<
+    [
+      _name: string,
+      _token: AddressLike,
+      liquidationPreference: BigNumberish,
+      conversionRatio: BigNumberish,
+      seniority: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "corporateActionById"
   ): TypedContractMethod<
@@ -392,6 +752,33 @@ export interface CapTable extends BaseContract {
   getFunction(
     nameOrSignature: "getCorporateActionCount"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPreviousTokens"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRoleAdmin"
+  ): TypedContractMethod<[role: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getShareClass"
+  ): TypedContractMethod<
+    [id: BigNumberish],
+    [CapTable.ShareClassStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "isTokenLinked"
   ): TypedContractMethod<[], [boolean], "view">;
@@ -417,6 +804,36 @@ export interface CapTable extends BaseContract {
   getFunction(
     nameOrSignature: "renounceOwnership"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "replaceToken"
+  ): TypedContractMethod<
+    [newToken: AddressLike, migrationBlockNumber: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "shareClassCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "shareClassIdOf"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "symbol"
   ): TypedContractMethod<[], [string], "view">;
@@ -448,6 +865,41 @@ export interface CapTable extends BaseContract {
     OwnershipTransferredEvent.OutputTuple,
     OwnershipTransferredEvent.OutputObject
   >;
+  getEvent(
+    key: "RoleAdminChanged"
+  ): TypedContractEvent<
+    RoleAdminChangedEvent.InputTuple,
+    RoleAdminChangedEvent.OutputTuple,
+    RoleAdminChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ShareClassAdded"
+  ): TypedContractEvent<
+    ShareClassAddedEvent.InputTuple,
+    ShareClassAddedEvent.OutputTuple,
+    ShareClassAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SymbolUpdated"
+  ): TypedContractEvent<
+    SymbolUpdatedEvent.InputTuple,
+    SymbolUpdatedEvent.OutputTuple,
+    SymbolUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "TokenLinked"
   ): TypedContractEvent<
@@ -455,6 +907,13 @@ export interface CapTable extends BaseContract {
     TokenLinkedEvent.OutputTuple,
     TokenLinkedEvent.OutputObject
   >;
+  getEvent(
+    key: "TokenReplaced"
+  ): TypedContractEvent<
+    TokenReplacedEvent.InputTuple,
+    TokenReplacedEvent.OutputTuple,
+    TokenReplacedEvent.OutputObject
+  >;
 
   filters: {
     "CapTableCreated(address,string,string,address)": TypedContractEvent<
@@ -490,6 +949,61 @@ export interface CapTable extends BaseContract {
       OwnershipTransferredEvent.OutputObject
     >;
 
+    "RoleAdminChanged(bytes32,bytes32,bytes32)": TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+    RoleAdminChanged: TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
+    "ShareClassAdded(uint256,address,string,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      ShareClassAddedEvent.InputTuple,
+      ShareClassAddedEvent.OutputTuple,
+      ShareClassAddedEvent.OutputObject
+    >;
+    ShareClassAdded: TypedContractEvent<
+      ShareClassAddedEvent.InputTuple,
+      ShareClassAddedEvent.OutputTuple,
+      ShareClassAddedEvent.OutputObject
+    >;
+
+    "SymbolUpdated(string,string)": TypedContractEvent<
+      SymbolUpdatedEvent.InputTuple,
+      SymbolUpdatedEvent.OutputTuple,
+      SymbolUpdatedEvent.OutputObject
+    >;
+    SymbolUpdated: TypedContractEvent<
+      SymbolUpdatedEvent.InputTuple,
+      SymbolUpdatedEvent.OutputTuple,
+      SymbolUpdatedEvent.OutputObject
+    >;
+
     "TokenLinked(address,address)": TypedContractEvent<
       TokenLinkedEvent.InputTuple,
       TokenLinkedEvent.OutputTuple,
@@ -500,5 +1014,16 @@ export interface CapTable extends BaseContract {
       TokenLinkedEvent.OutputTuple,
       TokenLinkedEvent.OutputObject
     >;
+
+    "TokenReplaced(address,address,uint256)": TypedContractEvent<
+      TokenReplacedEvent.InputTuple,
+      TokenReplacedEvent.OutputTuple,
+      TokenReplacedEvent.OutputObject
+    >;
+    TokenReplaced: TypedContractEvent<
+      TokenReplacedEvent.InputTuple,
+      TokenReplacedEvent.OutputTuple,
+      TokenReplacedEvent.OutputObject
+    >;
   };
 }
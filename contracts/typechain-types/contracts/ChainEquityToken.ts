@@ -23,49 +23,214 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace ChainEquityToken {
+  export type VestingGrantStruct = {
+    beneficiary: AddressLike;
+    amount: BigNumberish;
+    start: BigNumberish;
+    cliffDuration: BigNumberish;
+    duration: BigNumberish;
+    releaseInterval: BigNumberish;
+    revokedAt: BigNumberish;
+  };
+
+  export type VestingGrantStructOutput = [
+    beneficiary: string,
+    amount: bigint,
+    start: bigint,
+    cliffDuration: bigint,
+    duration: bigint,
+    releaseInterval: bigint,
+    revokedAt: bigint
+  ] & {
+    beneficiary: string;
+    amount: bigint;
+    start: bigint;
+    cliffDuration: bigint;
+    duration: bigint;
+    releaseInterval: bigint;
+    revokedAt: bigint;
+  };
+}
+
 export interface ChainEquityTokenInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "COMPLIANCE_CHECK_FAILED"
+      | "COMPLIANCE_ROLE"
+      | "CORPORATE_ACTIONS_ROLE"
+      | "DEFAULT_ADMIN_ROLE"
+      | "EXCEEDS_VESTED_BALANCE"
+      | "MINTER_ROLE"
+      | "PAUSER_ROLE"
+      | "REASON_COURT_ORDER"
+      | "REASON_ERROR_CORRECTION"
+      | "REASON_LOST_WALLET"
+      | "REASON_REGULATORY_ACTION"
+      | "RECIPIENT_NOT_APPROVED"
+      | "SENDER_LOCKED_UP"
+      | "SENDER_NOT_APPROVED"
+      | "SUCCESS"
+      | "TOKEN_PAUSED"
       | "allowance"
       | "allowlist"
+      | "allowlistRoot"
       | "approve"
       | "approveWallet"
       | "balanceOf"
+      | "batchApprove"
+      | "batchMint"
+      | "changeName"
       | "changeSymbol"
+      | "compliance"
       | "decimals"
+      | "decreaseAuthorizedShares"
+      | "detectTransferRestriction"
       | "effectiveBalanceOf"
       | "executeSplit"
+      | "forcedTransfer"
+      | "fractionalBalanceOf"
+      | "getRoleAdmin"
+      | "getVestingGrant"
+      | "getVestingGrantIds"
+      | "globalLockupUntil"
+      | "grantRole"
+      | "grantVested"
+      | "hasRole"
+      | "holdingPeriod"
+      | "increaseAuthorizedShares"
       | "isApproved"
+      | "isApprovedWithProof"
+      | "lockedBalanceOf"
+      | "lockupEndOf"
+      | "lockupUntil"
+      | "messageForTransferRestriction"
       | "mint"
+      | "mintWithProof"
       | "name"
       | "owner"
+      | "pause"
+      | "paused"
+      | "recoverWallet"
+      | "redeem"
       | "renounceOwnership"
+      | "renounceRole"
+      | "revokeRole"
+      | "revokeVestingGrant"
       | "revokeWallet"
+      | "setAllowlistRoot"
+      | "setCompliance"
+      | "setGlobalLockup"
+      | "setHoldingPeriod"
+      | "setLockup"
       | "setTransfersRestricted"
       | "splitFactor"
+      | "supportsInterface"
       | "symbol"
       | "totalAuthorized"
       | "totalSupply"
       | "transfer"
       | "transferFrom"
       | "transferOwnership"
+      | "transferWithProof"
       | "transfersRestricted"
+      | "unpause"
+      | "vestedAmountOf"
+      | "vestingGrantCount"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "AllowlistRootUpdated"
       | "Approval"
+      | "AuthorizedSharesChanged"
+      | "ComplianceSet"
       | "Deployed"
+      | "ForcedTransfer"
+      | "GlobalLockupSet"
+      | "HoldingPeriodSet"
       | "Issued"
+      | "LockupSet"
+      | "NameChanged"
       | "OwnershipTransferred"
+      | "Paused"
+      | "Redeemed"
+      | "RoleAdminChanged"
+      | "RoleGranted"
+      | "RoleRevoked"
       | "SplitExecuted"
       | "SymbolChanged"
       | "Transfer"
       | "TransfersRestrictedChanged"
+      | "Unpaused"
+      | "VestingGrantCreated"
+      | "VestingGrantRevoked"
       | "WalletApproved"
+      | "WalletRecovered"
       | "WalletRevoked"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "COMPLIANCE_CHECK_FAILED",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "COMPLIANCE_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CORPORATE_ACTIONS_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "EXCEEDS_VESTED_BALANCE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MINTER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REASON_COURT_ORDER",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REASON_ERROR_CORRECTION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REASON_LOST_WALLET",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REASON_REGULATORY_ACTION",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RECIPIENT_NOT_APPROVED",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SENDER_LOCKED_UP",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "SENDER_NOT_APPROVED",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "SUCCESS", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "TOKEN_PAUSED",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "allowance",
     values: [AddressLike, AddressLike]
@@ -74,6 +239,10 @@ export interface ChainEquityTokenInterface extends Interface {
     functionFragment: "allowlist",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "allowlistRoot",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "approve",
     values: [AddressLike, BigNumberish]
@@ -86,11 +255,32 @@ export interface ChainEquityTokenInterface extends Interface {
     functionFragment: "balanceOf",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "batchApprove",
+    values: [AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchMint",
+    values: [AddressLike[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(functionFragment: "changeName", values: [string]): string;
   encodeFunctionData(
     functionFragment: "changeSymbol",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "compliance",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "decimals", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "decreaseAuthorizedShares",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "detectTransferRestriction",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "effectiveBalanceOf",
     values: [AddressLike]
@@ -99,24 +289,141 @@ export interface ChainEquityTokenInterface extends Interface {
     functionFragment: "executeSplit",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "forcedTransfer",
+    values: [AddressLike, AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fractionalBalanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleAdmin",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVestingGrant",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getVestingGrantIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "globalLockupUntil",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantVested",
+    values: [
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "holdingPeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "increaseAuthorizedShares",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "isApproved",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "isApprovedWithProof",
+    values: [AddressLike, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lockedBalanceOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lockupEndOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lockupUntil",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "messageForTransferRestriction",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "mint",
     values: [AddressLike, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "mintWithProof",
+    values: [AddressLike, BigNumberish, BytesLike[]]
+  ): string;
   encodeFunctionData(functionFragment: "name", values?: undefined): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "recoverWallet",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redeem",
+    values: [AddressLike, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "renounceOwnership",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeVestingGrant",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "revokeWallet",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowlistRoot",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCompliance",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setGlobalLockup",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setHoldingPeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setLockup",
+    values: [AddressLike, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "setTransfersRestricted",
     values: [boolean]
@@ -125,6 +432,10 @@ export interface ChainEquityTokenInterface extends Interface {
     functionFragment: "splitFactor",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
   encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "totalAuthorized",
@@ -146,24 +457,117 @@ export interface ChainEquityTokenInterface extends Interface {
     functionFragment: "transferOwnership",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "transferWithProof",
+    values: [AddressLike, BigNumberish, BytesLike[], BytesLike[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "transfersRestricted",
     values?: undefined
   ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "vestedAmountOf",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vestingGrantCount",
+    values?: undefined
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "COMPLIANCE_CHECK_FAILED",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "COMPLIANCE_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CORPORATE_ACTIONS_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "EXCEEDS_VESTED_BALANCE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MINTER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REASON_COURT_ORDER",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REASON_ERROR_CORRECTION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REASON_LOST_WALLET",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REASON_REGULATORY_ACTION",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RECIPIENT_NOT_APPROVED",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SENDER_LOCKED_UP",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "SENDER_NOT_APPROVED",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "SUCCESS", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "TOKEN_PAUSED",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "allowance", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "allowlist", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "allowlistRoot",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "approveWallet",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "batchApprove",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batchMint", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "changeName", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "changeSymbol",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "compliance", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "decimals", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "decreaseAuthorizedShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "detectTransferRestriction",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "effectiveBalanceOf",
     data: BytesLike
@@ -172,18 +576,113 @@ export interface ChainEquityTokenInterface extends Interface {
     functionFragment: "executeSplit",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "forcedTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "fractionalBalanceOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVestingGrant",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getVestingGrantIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "globalLockupUntil",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "grantVested",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "holdingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "increaseAuthorizedShares",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "isApproved", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedWithProof",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lockedBalanceOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lockupEndOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lockupUntil",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "messageForTransferRestriction",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "mint", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "mintWithProof",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recoverWallet",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "redeem", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "renounceOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeVestingGrant",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "revokeWallet",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowlistRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCompliance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setGlobalLockup",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setHoldingPeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setLockup", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "setTransfersRestricted",
     data: BytesLike
@@ -192,6 +691,10 @@ export interface ChainEquityTokenInterface extends Interface {
     functionFragment: "splitFactor",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "totalAuthorized",
@@ -210,23 +713,187 @@ export interface ChainEquityTokenInterface extends Interface {
     functionFragment: "transferOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferWithProof",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "transfersRestricted",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "vestedAmountOf",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "vestingGrantCount",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AllowlistRootUpdatedEvent {
+  export type InputTuple = [oldRoot: BytesLike, newRoot: BytesLike];
+  export type OutputTuple = [oldRoot: string, newRoot: string];
+  export interface OutputObject {
+    oldRoot: string;
+    newRoot: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ApprovalEvent {
+  export type InputTuple = [
+    owner: AddressLike,
+    spender: AddressLike,
+    value: BigNumberish
+  ];
+  export type OutputTuple = [owner: string, spender: string, value: bigint];
+  export interface OutputObject {
+    owner: string;
+    spender: string;
+    value: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace AuthorizedSharesChangedEvent {
+  export type InputTuple = [
+    oldAuthorized: BigNumberish,
+    newAuthorized: BigNumberish
+  ];
+  export type OutputTuple = [oldAuthorized: bigint, newAuthorized: bigint];
+  export interface OutputObject {
+    oldAuthorized: bigint;
+    newAuthorized: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ComplianceSetEvent {
+  export type InputTuple = [compliance: AddressLike];
+  export type OutputTuple = [compliance: string];
+  export interface OutputObject {
+    compliance: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DeployedEvent {
+  export type InputTuple = [
+    name: string,
+    symbol: string,
+    totalAuthorized: BigNumberish
+  ];
+  export type OutputTuple = [
+    name: string,
+    symbol: string,
+    totalAuthorized: bigint
+  ];
+  export interface OutputObject {
+    name: string;
+    symbol: string;
+    totalAuthorized: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ForcedTransferEvent {
+  export type InputTuple = [
+    from: AddressLike,
+    to: AddressLike,
+    amount: BigNumberish,
+    reasonCode: BigNumberish
+  ];
+  export type OutputTuple = [
+    from: string,
+    to: string,
+    amount: bigint,
+    reasonCode: bigint
+  ];
+  export interface OutputObject {
+    from: string;
+    to: string;
+    amount: bigint;
+    reasonCode: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace GlobalLockupSetEvent {
+  export type InputTuple = [until: BigNumberish];
+  export type OutputTuple = [until: bigint];
+  export interface OutputObject {
+    until: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace HoldingPeriodSetEvent {
+  export type InputTuple = [period: BigNumberish];
+  export type OutputTuple = [period: bigint];
+  export interface OutputObject {
+    period: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IssuedEvent {
+  export type InputTuple = [to: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [to: string, amount: bigint];
+  export interface OutputObject {
+    to: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace LockupSetEvent {
+  export type InputTuple = [wallet: AddressLike, until: BigNumberish];
+  export type OutputTuple = [wallet: string, until: bigint];
+  export interface OutputObject {
+    wallet: string;
+    until: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace ApprovalEvent {
-  export type InputTuple = [
-    owner: AddressLike,
-    spender: AddressLike,
-    value: BigNumberish
-  ];
-  export type OutputTuple = [owner: string, spender: string, value: bigint];
+export namespace NameChangedEvent {
+  export type InputTuple = [oldName: string, newName: string];
+  export type OutputTuple = [oldName: string, newName: string];
   export interface OutputObject {
-    owner: string;
-    spender: string;
-    value: bigint;
+    oldName: string;
+    newName: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -234,21 +901,59 @@ export namespace ApprovalEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace DeployedEvent {
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RedeemedEvent {
+  export type InputTuple = [from: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [from: string, amount: bigint];
+  export interface OutputObject {
+    from: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleAdminChangedEvent {
   export type InputTuple = [
-    name: string,
-    symbol: string,
-    totalAuthorized: BigNumberish
+    role: BytesLike,
+    previousAdminRole: BytesLike,
+    newAdminRole: BytesLike
   ];
   export type OutputTuple = [
-    name: string,
-    symbol: string,
-    totalAuthorized: bigint
+    role: string,
+    previousAdminRole: string,
+    newAdminRole: string
   ];
   export interface OutputObject {
-    name: string;
-    symbol: string;
-    totalAuthorized: bigint;
+    role: string;
+    previousAdminRole: string;
+    newAdminRole: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -256,12 +961,17 @@ export namespace DeployedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace IssuedEvent {
-  export type InputTuple = [to: AddressLike, amount: BigNumberish];
-  export type OutputTuple = [to: string, amount: bigint];
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
   export interface OutputObject {
-    to: string;
-    amount: bigint;
+    role: string;
+    account: string;
+    sender: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -269,12 +979,17 @@ export namespace IssuedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace OwnershipTransferredEvent {
-  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
-  export type OutputTuple = [previousOwner: string, newOwner: string];
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
   export interface OutputObject {
-    previousOwner: string;
-    newOwner: string;
+    role: string;
+    account: string;
+    sender: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -347,6 +1062,77 @@ export namespace TransfersRestrictedChangedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VestingGrantCreatedEvent {
+  export type InputTuple = [
+    grantId: BigNumberish,
+    beneficiary: AddressLike,
+    amount: BigNumberish,
+    start: BigNumberish,
+    cliffDuration: BigNumberish,
+    duration: BigNumberish,
+    releaseInterval: BigNumberish
+  ];
+  export type OutputTuple = [
+    grantId: bigint,
+    beneficiary: string,
+    amount: bigint,
+    start: bigint,
+    cliffDuration: bigint,
+    duration: bigint,
+    releaseInterval: bigint
+  ];
+  export interface OutputObject {
+    grantId: bigint;
+    beneficiary: string;
+    amount: bigint;
+    start: bigint;
+    cliffDuration: bigint;
+    duration: bigint;
+    releaseInterval: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VestingGrantRevokedEvent {
+  export type InputTuple = [
+    grantId: BigNumberish,
+    beneficiary: AddressLike,
+    vestedAmount: BigNumberish,
+    clawedBackAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    grantId: bigint,
+    beneficiary: string,
+    vestedAmount: bigint,
+    clawedBackAmount: bigint
+  ];
+  export interface OutputObject {
+    grantId: bigint;
+    beneficiary: string;
+    vestedAmount: bigint;
+    clawedBackAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace WalletApprovedEvent {
   export type InputTuple = [issuer: AddressLike, wallet: AddressLike];
   export type OutputTuple = [issuer: string, wallet: string];
@@ -360,6 +1146,31 @@ export namespace WalletApprovedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace WalletRecoveredEvent {
+  export type InputTuple = [
+    lostWallet: AddressLike,
+    newWallet: AddressLike,
+    amount: BigNumberish,
+    reasonCode: BigNumberish
+  ];
+  export type OutputTuple = [
+    lostWallet: string,
+    newWallet: string,
+    amount: bigint,
+    reasonCode: bigint
+  ];
+  export interface OutputObject {
+    lostWallet: string;
+    newWallet: string;
+    amount: bigint;
+    reasonCode: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace WalletRevokedEvent {
   export type InputTuple = [issuer: AddressLike, wallet: AddressLike];
   export type OutputTuple = [issuer: string, wallet: string];
@@ -416,6 +1227,38 @@ export interface ChainEquityToken extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  COMPLIANCE_CHECK_FAILED: TypedContractMethod<[], [bigint], "view">;
+
+  COMPLIANCE_ROLE: TypedContractMethod<[], [string], "view">;
+
+  CORPORATE_ACTIONS_ROLE: TypedContractMethod<[], [string], "view">;
+
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  EXCEEDS_VESTED_BALANCE: TypedContractMethod<[], [bigint], "view">;
+
+  MINTER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  REASON_COURT_ORDER: TypedContractMethod<[], [bigint], "view">;
+
+  REASON_ERROR_CORRECTION: TypedContractMethod<[], [bigint], "view">;
+
+  REASON_LOST_WALLET: TypedContractMethod<[], [bigint], "view">;
+
+  REASON_REGULATORY_ACTION: TypedContractMethod<[], [bigint], "view">;
+
+  RECIPIENT_NOT_APPROVED: TypedContractMethod<[], [bigint], "view">;
+
+  SENDER_LOCKED_UP: TypedContractMethod<[], [bigint], "view">;
+
+  SENDER_NOT_APPROVED: TypedContractMethod<[], [bigint], "view">;
+
+  SUCCESS: TypedContractMethod<[], [bigint], "view">;
+
+  TOKEN_PAUSED: TypedContractMethod<[], [bigint], "view">;
+
   allowance: TypedContractMethod<
     [owner: AddressLike, spender: AddressLike],
     [bigint],
@@ -424,6 +1267,8 @@ export interface ChainEquityToken extends BaseContract {
 
   allowlist: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
 
+  allowlistRoot: TypedContractMethod<[], [string], "view">;
+
   approve: TypedContractMethod<
     [spender: AddressLike, value: BigNumberish],
     [boolean],
@@ -438,10 +1283,38 @@ export interface ChainEquityToken extends BaseContract {
 
   balanceOf: TypedContractMethod<[account: AddressLike], [bigint], "view">;
 
+  batchApprove: TypedContractMethod<
+    [wallets: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  batchMint: TypedContractMethod<
+    [recipients: AddressLike[], amounts: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  changeName: TypedContractMethod<[newName: string], [void], "nonpayable">;
+
   changeSymbol: TypedContractMethod<[newSymbol: string], [void], "nonpayable">;
 
+  compliance: TypedContractMethod<[], [string], "view">;
+
   decimals: TypedContractMethod<[], [bigint], "view">;
 
+  decreaseAuthorizedShares: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  detectTransferRestriction: TypedContractMethod<
+    [from: AddressLike, to: AddressLike, value: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
   effectiveBalanceOf: TypedContractMethod<
     [account: AddressLike],
     [bigint],
@@ -454,26 +1327,184 @@ export interface ChainEquityToken extends BaseContract {
     "nonpayable"
   >;
 
+  forcedTransfer: TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      amount: BigNumberish,
+      reasonCode: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  fractionalBalanceOf: TypedContractMethod<
+    [account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], [string], "view">;
+
+  getVestingGrant: TypedContractMethod<
+    [grantId: BigNumberish],
+    [ChainEquityToken.VestingGrantStructOutput],
+    "view"
+  >;
+
+  getVestingGrantIds: TypedContractMethod<
+    [beneficiary: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  globalLockupUntil: TypedContractMethod<[], [bigint], "view">;
+
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  grantVested: TypedContractMethod<
+    [
+      to: AddressLike,
+      amount: BigNumberish,
+      start: BigNumberish,
+      cliffDuration: BigNumberish,
+      duration: BigNumberish,
+      releaseInterval: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  holdingPeriod: TypedContractMethod<[], [bigint], "view">;
+
+  increaseAuthorizedShares: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   isApproved: TypedContractMethod<[wallet: AddressLike], [boolean], "view">;
 
+  isApprovedWithProof: TypedContractMethod<
+    [wallet: AddressLike, proof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+
+  lockedBalanceOf: TypedContractMethod<
+    [account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lockupEndOf: TypedContractMethod<[wallet: AddressLike], [bigint], "view">;
+
+  lockupUntil: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  messageForTransferRestriction: TypedContractMethod<
+    [restrictionCode: BigNumberish],
+    [string],
+    "view"
+  >;
+
   mint: TypedContractMethod<
     [to: AddressLike, amount: BigNumberish],
     [void],
     "nonpayable"
   >;
 
+  mintWithProof: TypedContractMethod<
+    [to: AddressLike, amount: BigNumberish, proof: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
+
   name: TypedContractMethod<[], [string], "view">;
 
   owner: TypedContractMethod<[], [string], "view">;
 
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  recoverWallet: TypedContractMethod<
+    [lostWallet: AddressLike, newWallet: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  redeem: TypedContractMethod<
+    [from: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
 
+  renounceRole: TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeVestingGrant: TypedContractMethod<
+    [grantId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   revokeWallet: TypedContractMethod<
     [wallet: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  setAllowlistRoot: TypedContractMethod<
+    [newRoot: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setCompliance: TypedContractMethod<
+    [newCompliance: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setGlobalLockup: TypedContractMethod<
+    [until: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setHoldingPeriod: TypedContractMethod<
+    [period: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setLockup: TypedContractMethod<
+    [wallet: AddressLike, until: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   setTransfersRestricted: TypedContractMethod<
     [restricted: boolean],
     [void],
@@ -482,6 +1513,12 @@ export interface ChainEquityToken extends BaseContract {
 
   splitFactor: TypedContractMethod<[], [bigint], "view">;
 
+  supportsInterface: TypedContractMethod<
+    [interfaceId: BytesLike],
+    [boolean],
+    "view"
+  >;
+
   symbol: TypedContractMethod<[], [string], "view">;
 
   totalAuthorized: TypedContractMethod<[], [bigint], "view">;
@@ -506,12 +1543,81 @@ export interface ChainEquityToken extends BaseContract {
     "nonpayable"
   >;
 
+  transferWithProof: TypedContractMethod<
+    [
+      to: AddressLike,
+      amount: BigNumberish,
+      fromProof: BytesLike[],
+      toProof: BytesLike[]
+    ],
+    [boolean],
+    "nonpayable"
+  >;
+
   transfersRestricted: TypedContractMethod<[], [boolean], "view">;
 
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  vestedAmountOf: TypedContractMethod<
+    [grantId: BigNumberish, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  vestingGrantCount: TypedContractMethod<[], [bigint], "view">;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "COMPLIANCE_CHECK_FAILED"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "COMPLIANCE_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "CORPORATE_ACTIONS_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "DEFAULT_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "EXCEEDS_VESTED_BALANCE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MINTER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "REASON_COURT_ORDER"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REASON_ERROR_CORRECTION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REASON_LOST_WALLET"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REASON_REGULATORY_ACTION"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "RECIPIENT_NOT_APPROVED"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SENDER_LOCKED_UP"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SENDER_NOT_APPROVED"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "SUCCESS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "TOKEN_PAUSED"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "allowance"
   ): TypedContractMethod<
@@ -522,6 +1628,9 @@ export interface ChainEquityToken extends BaseContract {
   getFunction(
     nameOrSignature: "allowlist"
   ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "allowlistRoot"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "approve"
   ): TypedContractMethod<
@@ -535,21 +1644,131 @@ export interface ChainEquityToken extends BaseContract {
   getFunction(
     nameOrSignature: "balanceOf"
   ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "batchApprove"
+  ): TypedContractMethod<[wallets: AddressLike[]], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchMint"
+  ): TypedContractMethod<
+    [recipients: AddressLike[], amounts: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "changeName"
+  ): TypedContractMethod<[newName: string], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "changeSymbol"
   ): TypedContractMethod<[newSymbol: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "compliance"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "decimals"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decreaseAuthorizedShares"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "detectTransferRestriction"
+  ): TypedContractMethod<
+    [from: AddressLike, to: AddressLike, value: BigNumberish],
+    [bigint],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "effectiveBalanceOf"
   ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "executeSplit"
   ): TypedContractMethod<[multiplier: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "forcedTransfer"
+  ): TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      amount: BigNumberish,
+      reasonCode: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fractionalBalanceOf"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getRoleAdmin"
+  ): TypedContractMethod<[role: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "getVestingGrant"
+  ): TypedContractMethod<
+    [grantId: BigNumberish],
+    [ChainEquityToken.VestingGrantStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getVestingGrantIds"
+  ): TypedContractMethod<[beneficiary: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "globalLockupUntil"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantVested"
+  ): TypedContractMethod<
+    [
+      to: AddressLike,
+      amount: BigNumberish,
+      start: BigNumberish,
+      cliffDuration: BigNumberish,
+      duration: BigNumberish,
+      releaseInterval: BigNumberish
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "holdingPeriod"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "increaseAuthorizedShares"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "isApproved"
   ): TypedContractMethod<[wallet: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isApprovedWithProof"
+  ): TypedContractMethod<
+    [wallet: AddressLike, proof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lockedBalanceOf"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lockupEndOf"
+  ): TypedContractMethod<[wallet: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lockupUntil"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "messageForTransferRestriction"
+  ): TypedContractMethod<[restrictionCode: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "mint"
   ): TypedContractMethod<
@@ -557,24 +1776,90 @@ export interface ChainEquityToken extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "mintWithProof"
+  ): TypedContractMethod<
+    [to: AddressLike, amount: BigNumberish, proof: BytesLike[]],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "name"
   ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "owner"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "recoverWallet"
+  ): TypedContractMethod<
+    [lostWallet: AddressLike, newWallet: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "redeem"
+  ): TypedContractMethod<
+    [from: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "renounceOwnership"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "renounceRole"
+  ): TypedContractMethod<
+    [role: BytesLike, callerConfirmation: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeVestingGrant"
+  ): TypedContractMethod<[grantId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "revokeWallet"
   ): TypedContractMethod<[wallet: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setAllowlistRoot"
+  ): TypedContractMethod<[newRoot: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCompliance"
+  ): TypedContractMethod<[newCompliance: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setGlobalLockup"
+  ): TypedContractMethod<[until: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setHoldingPeriod"
+  ): TypedContractMethod<[period: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setLockup"
+  ): TypedContractMethod<
+    [wallet: AddressLike, until: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "setTransfersRestricted"
   ): TypedContractMethod<[restricted: boolean], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "splitFactor"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "supportsInterface"
+  ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
   getFunction(
     nameOrSignature: "symbol"
   ): TypedContractMethod<[], [string], "view">;
@@ -601,10 +1886,42 @@ export interface ChainEquityToken extends BaseContract {
   getFunction(
     nameOrSignature: "transferOwnership"
   ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "transferWithProof"
+  ): TypedContractMethod<
+    [
+      to: AddressLike,
+      amount: BigNumberish,
+      fromProof: BytesLike[],
+      toProof: BytesLike[]
+    ],
+    [boolean],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "transfersRestricted"
   ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "vestedAmountOf"
+  ): TypedContractMethod<
+    [grantId: BigNumberish, timestamp: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "vestingGrantCount"
+  ): TypedContractMethod<[], [bigint], "view">;
 
+  getEvent(
+    key: "AllowlistRootUpdated"
+  ): TypedContractEvent<
+    AllowlistRootUpdatedEvent.InputTuple,
+    AllowlistRootUpdatedEvent.OutputTuple,
+    AllowlistRootUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "Approval"
   ): TypedContractEvent<
@@ -612,6 +1929,20 @@ export interface ChainEquityToken extends BaseContract {
     ApprovalEvent.OutputTuple,
     ApprovalEvent.OutputObject
   >;
+  getEvent(
+    key: "AuthorizedSharesChanged"
+  ): TypedContractEvent<
+    AuthorizedSharesChangedEvent.InputTuple,
+    AuthorizedSharesChangedEvent.OutputTuple,
+    AuthorizedSharesChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ComplianceSet"
+  ): TypedContractEvent<
+    ComplianceSetEvent.InputTuple,
+    ComplianceSetEvent.OutputTuple,
+    ComplianceSetEvent.OutputObject
+  >;
   getEvent(
     key: "Deployed"
   ): TypedContractEvent<
@@ -619,6 +1950,27 @@ export interface ChainEquityToken extends BaseContract {
     DeployedEvent.OutputTuple,
     DeployedEvent.OutputObject
   >;
+  getEvent(
+    key: "ForcedTransfer"
+  ): TypedContractEvent<
+    ForcedTransferEvent.InputTuple,
+    ForcedTransferEvent.OutputTuple,
+    ForcedTransferEvent.OutputObject
+  >;
+  getEvent(
+    key: "GlobalLockupSet"
+  ): TypedContractEvent<
+    GlobalLockupSetEvent.InputTuple,
+    GlobalLockupSetEvent.OutputTuple,
+    GlobalLockupSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "HoldingPeriodSet"
+  ): TypedContractEvent<
+    HoldingPeriodSetEvent.InputTuple,
+    HoldingPeriodSetEvent.OutputTuple,
+    HoldingPeriodSetEvent.OutputObject
+  >;
   getEvent(
     key: "Issued"
   ): TypedContractEvent<
@@ -626,6 +1978,20 @@ export interface ChainEquityToken extends BaseContract {
     IssuedEvent.OutputTuple,
     IssuedEvent.OutputObject
   >;
+  getEvent(
+    key: "LockupSet"
+  ): TypedContractEvent<
+    LockupSetEvent.InputTuple,
+    LockupSetEvent.OutputTuple,
+    LockupSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "NameChanged"
+  ): TypedContractEvent<
+    NameChangedEvent.InputTuple,
+    NameChangedEvent.OutputTuple,
+    NameChangedEvent.OutputObject
+  >;
   getEvent(
     key: "OwnershipTransferred"
   ): TypedContractEvent<
@@ -633,6 +1999,41 @@ export interface ChainEquityToken extends BaseContract {
     OwnershipTransferredEvent.OutputTuple,
     OwnershipTransferredEvent.OutputObject
   >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Redeemed"
+  ): TypedContractEvent<
+    RedeemedEvent.InputTuple,
+    RedeemedEvent.OutputTuple,
+    RedeemedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleAdminChanged"
+  ): TypedContractEvent<
+    RoleAdminChangedEvent.InputTuple,
+    RoleAdminChangedEvent.OutputTuple,
+    RoleAdminChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
   getEvent(
     key: "SplitExecuted"
   ): TypedContractEvent<
@@ -661,6 +2062,27 @@ export interface ChainEquityToken extends BaseContract {
     TransfersRestrictedChangedEvent.OutputTuple,
     TransfersRestrictedChangedEvent.OutputObject
   >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VestingGrantCreated"
+  ): TypedContractEvent<
+    VestingGrantCreatedEvent.InputTuple,
+    VestingGrantCreatedEvent.OutputTuple,
+    VestingGrantCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VestingGrantRevoked"
+  ): TypedContractEvent<
+    VestingGrantRevokedEvent.InputTuple,
+    VestingGrantRevokedEvent.OutputTuple,
+    VestingGrantRevokedEvent.OutputObject
+  >;
   getEvent(
     key: "WalletApproved"
   ): TypedContractEvent<
@@ -668,6 +2090,13 @@ export interface ChainEquityToken extends BaseContract {
     WalletApprovedEvent.OutputTuple,
     WalletApprovedEvent.OutputObject
   >;
+  getEvent(
+    key: "WalletRecovered"
+  ): TypedContractEvent<
+    WalletRecoveredEvent.InputTuple,
+    WalletRecoveredEvent.OutputTuple,
+    WalletRecoveredEvent.OutputObject
+  >;
   getEvent(
     key: "WalletRevoked"
   ): TypedContractEvent<
@@ -677,6 +2106,17 @@ export interface ChainEquityToken extends BaseContract {
   >;
 
   filters: {
+    "AllowlistRootUpdated(bytes32,bytes32)": TypedContractEvent<
+      AllowlistRootUpdatedEvent.InputTuple,
+      AllowlistRootUpdatedEvent.OutputTuple,
+      AllowlistRootUpdatedEvent.OutputObject
+    >;
+    AllowlistRootUpdated: TypedContractEvent<
+      AllowlistRootUpdatedEvent.InputTuple,
+      AllowlistRootUpdatedEvent.OutputTuple,
+      AllowlistRootUpdatedEvent.OutputObject
+    >;
+
     "Approval(address,address,uint256)": TypedContractEvent<
       ApprovalEvent.InputTuple,
       ApprovalEvent.OutputTuple,
@@ -688,6 +2128,28 @@ export interface ChainEquityToken extends BaseContract {
       ApprovalEvent.OutputObject
     >;
 
+    "AuthorizedSharesChanged(uint256,uint256)": TypedContractEvent<
+      AuthorizedSharesChangedEvent.InputTuple,
+      AuthorizedSharesChangedEvent.OutputTuple,
+      AuthorizedSharesChangedEvent.OutputObject
+    >;
+    AuthorizedSharesChanged: TypedContractEvent<
+      AuthorizedSharesChangedEvent.InputTuple,
+      AuthorizedSharesChangedEvent.OutputTuple,
+      AuthorizedSharesChangedEvent.OutputObject
+    >;
+
+    "ComplianceSet(address)": TypedContractEvent<
+      ComplianceSetEvent.InputTuple,
+      ComplianceSetEvent.OutputTuple,
+      ComplianceSetEvent.OutputObject
+    >;
+    ComplianceSet: TypedContractEvent<
+      ComplianceSetEvent.InputTuple,
+      ComplianceSetEvent.OutputTuple,
+      ComplianceSetEvent.OutputObject
+    >;
+
     "Deployed(string,string,uint256)": TypedContractEvent<
       DeployedEvent.InputTuple,
       DeployedEvent.OutputTuple,
@@ -699,6 +2161,39 @@ export interface ChainEquityToken extends BaseContract {
       DeployedEvent.OutputObject
     >;
 
+    "ForcedTransfer(address,address,uint256,uint8)": TypedContractEvent<
+      ForcedTransferEvent.InputTuple,
+      ForcedTransferEvent.OutputTuple,
+      ForcedTransferEvent.OutputObject
+    >;
+    ForcedTransfer: TypedContractEvent<
+      ForcedTransferEvent.InputTuple,
+      ForcedTransferEvent.OutputTuple,
+      ForcedTransferEvent.OutputObject
+    >;
+
+    "GlobalLockupSet(uint64)": TypedContractEvent<
+      GlobalLockupSetEvent.InputTuple,
+      GlobalLockupSetEvent.OutputTuple,
+      GlobalLockupSetEvent.OutputObject
+    >;
+    GlobalLockupSet: TypedContractEvent<
+      GlobalLockupSetEvent.InputTuple,
+      GlobalLockupSetEvent.OutputTuple,
+      GlobalLockupSetEvent.OutputObject
+    >;
+
+    "HoldingPeriodSet(uint64)": TypedContractEvent<
+      HoldingPeriodSetEvent.InputTuple,
+      HoldingPeriodSetEvent.OutputTuple,
+      HoldingPeriodSetEvent.OutputObject
+    >;
+    HoldingPeriodSet: TypedContractEvent<
+      HoldingPeriodSetEvent.InputTuple,
+      HoldingPeriodSetEvent.OutputTuple,
+      HoldingPeriodSetEvent.OutputObject
+    >;
+
     "Issued(address,uint256)": TypedContractEvent<
       IssuedEvent.InputTuple,
       IssuedEvent.OutputTuple,
@@ -710,6 +2205,28 @@ export interface ChainEquityToken extends BaseContract {
       IssuedEvent.OutputObject
     >;
 
+    "LockupSet(address,uint64)": TypedContractEvent<
+      LockupSetEvent.InputTuple,
+      LockupSetEvent.OutputTuple,
+      LockupSetEvent.OutputObject
+    >;
+    LockupSet: TypedContractEvent<
+      LockupSetEvent.InputTuple,
+      LockupSetEvent.OutputTuple,
+      LockupSetEvent.OutputObject
+    >;
+
+    "NameChanged(string,string)": TypedContractEvent<
+      NameChangedEvent.InputTuple,
+      NameChangedEvent.OutputTuple,
+      NameChangedEvent.OutputObject
+    >;
+    NameChanged: TypedContractEvent<
+      NameChangedEvent.InputTuple,
+      NameChangedEvent.OutputTuple,
+      NameChangedEvent.OutputObject
+    >;
+
     "OwnershipTransferred(address,address)": TypedContractEvent<
       OwnershipTransferredEvent.InputTuple,
       OwnershipTransferredEvent.OutputTuple,
@@ -721,6 +2238,61 @@ export interface ChainEquityToken extends BaseContract {
       OwnershipTransferredEvent.OutputObject
     >;
 
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "Redeemed(address,uint256)": TypedContractEvent<
+      RedeemedEvent.InputTuple,
+      RedeemedEvent.OutputTuple,
+      RedeemedEvent.OutputObject
+    >;
+    Redeemed: TypedContractEvent<
+      RedeemedEvent.InputTuple,
+      RedeemedEvent.OutputTuple,
+      RedeemedEvent.OutputObject
+    >;
+
+    "RoleAdminChanged(bytes32,bytes32,bytes32)": TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+    RoleAdminChanged: TypedContractEvent<
+      RoleAdminChangedEvent.InputTuple,
+      RoleAdminChangedEvent.OutputTuple,
+      RoleAdminChangedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+
     "SplitExecuted(uint256,uint256,uint256)": TypedContractEvent<
       SplitExecutedEvent.InputTuple,
       SplitExecutedEvent.OutputTuple,
@@ -765,6 +2337,39 @@ export interface ChainEquityToken extends BaseContract {
       TransfersRestrictedChangedEvent.OutputObject
     >;
 
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "VestingGrantCreated(uint256,address,uint256,uint64,uint64,uint64,uint64)": TypedContractEvent<
+      VestingGrantCreatedEvent.InputTuple,
+      VestingGrantCreatedEvent.OutputTuple,
+      VestingGrantCreatedEvent.OutputObject
+    >;
+    VestingGrantCreated: TypedContractEvent<
+      VestingGrantCreatedEvent.InputTuple,
+      VestingGrantCreatedEvent.OutputTuple,
+      VestingGrantCreatedEvent.OutputObject
+    >;
+
+    "VestingGrantRevoked(uint256,address,uint256,uint256)": TypedContractEvent<
+      VestingGrantRevokedEvent.InputTuple,
+      VestingGrantRevokedEvent.OutputTuple,
+      VestingGrantRevokedEvent.OutputObject
+    >;
+    VestingGrantRevoked: TypedContractEvent<
+      VestingGrantRevokedEvent.InputTuple,
+      VestingGrantRevokedEvent.OutputTuple,
+      VestingGrantRevokedEvent.OutputObject
+    >;
+
     "WalletApproved(address,address)": TypedContractEvent<
       WalletApprovedEvent.InputTuple,
       WalletApprovedEvent.OutputTuple,
@@ -776,6 +2381,17 @@ export interface ChainEquityToken extends BaseContract {
       WalletApprovedEvent.OutputObject
     >;
 
+    "WalletRecovered(address,address,uint256,uint8)": TypedContractEvent<
+      WalletRecoveredEvent.InputTuple,
+      WalletRecoveredEvent.OutputTuple,
+      WalletRecoveredEvent.OutputObject
+    >;
+    WalletRecovered: TypedContractEvent<
+      WalletRecoveredEvent.InputTuple,
+      WalletRecoveredEvent.OutputTuple,
+      WalletRecoveredEvent.OutputObject
+    >;
+
     "WalletRevoked(address,address)": TypedContractEvent<
       WalletRevokedEvent.InputTuple,
       WalletRevokedEvent.OutputTuple,
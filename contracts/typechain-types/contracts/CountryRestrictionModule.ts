@@ -0,0 +1,385 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface CountryRestrictionModuleInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "compliance"
+      | "investorCountry"
+      | "isCountryRestricted"
+      | "moduleAction"
+      | "moduleCheck"
+      | "name"
+      | "owner"
+      | "renounceOwnership"
+      | "setCountryRestricted"
+      | "setInvestorCountry"
+      | "token"
+      | "transferOwnership"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "CountryRestrictionSet"
+      | "InvestorCountrySet"
+      | "OwnershipTransferred"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "compliance",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "investorCountry",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isCountryRestricted",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "moduleAction",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "moduleCheck",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCountryRestricted",
+    values: [BytesLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setInvestorCountry",
+    values: [AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "token", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "compliance", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "investorCountry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isCountryRestricted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "moduleAction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "moduleCheck",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCountryRestricted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setInvestorCountry",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "token", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace CountryRestrictionSetEvent {
+  export type InputTuple = [
+    token: AddressLike,
+    country: BytesLike,
+    restricted: boolean
+  ];
+  export type OutputTuple = [
+    token: string,
+    country: string,
+    restricted: boolean
+  ];
+  export interface OutputObject {
+    token: string;
+    country: string;
+    restricted: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace InvestorCountrySetEvent {
+  export type InputTuple = [
+    token: AddressLike,
+    wallet: AddressLike,
+    country: BytesLike
+  ];
+  export type OutputTuple = [token: string, wallet: string, country: string];
+  export interface OutputObject {
+    token: string;
+    wallet: string;
+    country: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface CountryRestrictionModule extends BaseContract {
+  connect(runner?: ContractRunner | null): CountryRestrictionModule;
+  waitForDeployment(): Promise<this>;
+
+  interface: CountryRestrictionModuleInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  compliance: TypedContractMethod<[], [string], "view">;
+
+  investorCountry: TypedContractMethod<[arg0: AddressLike], [string], "view">;
+
+  isCountryRestricted: TypedContractMethod<
+    [arg0: BytesLike],
+    [boolean],
+    "view"
+  >;
+
+  moduleAction: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  moduleCheck: TypedContractMethod<
+    [arg0: AddressLike, to: AddressLike, arg2: BigNumberish],
+    [boolean],
+    "view"
+  >;
+
+  name: TypedContractMethod<[], [string], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  setCountryRestricted: TypedContractMethod<
+    [country: BytesLike, restricted: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setInvestorCountry: TypedContractMethod<
+    [wallet: AddressLike, country: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  token: TypedContractMethod<[], [string], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "compliance"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "investorCountry"
+  ): TypedContractMethod<[arg0: AddressLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "isCountryRestricted"
+  ): TypedContractMethod<[arg0: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "moduleAction"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike, arg2: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "moduleCheck"
+  ): TypedContractMethod<
+    [arg0: AddressLike, to: AddressLike, arg2: BigNumberish],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "name"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCountryRestricted"
+  ): TypedContractMethod<
+    [country: BytesLike, restricted: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setInvestorCountry"
+  ): TypedContractMethod<
+    [wallet: AddressLike, country: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "token"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+
+  getEvent(
+    key: "CountryRestrictionSet"
+  ): TypedContractEvent<
+    CountryRestrictionSetEvent.InputTuple,
+    CountryRestrictionSetEvent.OutputTuple,
+    CountryRestrictionSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "InvestorCountrySet"
+  ): TypedContractEvent<
+    InvestorCountrySetEvent.InputTuple,
+    InvestorCountrySetEvent.OutputTuple,
+    InvestorCountrySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+
+  filters: {
+    "CountryRestrictionSet(address,bytes2,bool)": TypedContractEvent<
+      CountryRestrictionSetEvent.InputTuple,
+      CountryRestrictionSetEvent.OutputTuple,
+      CountryRestrictionSetEvent.OutputObject
+    >;
+    CountryRestrictionSet: TypedContractEvent<
+      CountryRestrictionSetEvent.InputTuple,
+      CountryRestrictionSetEvent.OutputTuple,
+      CountryRestrictionSetEvent.OutputObject
+    >;
+
+    "InvestorCountrySet(address,address,bytes2)": TypedContractEvent<
+      InvestorCountrySetEvent.InputTuple,
+      InvestorCountrySetEvent.OutputTuple,
+      InvestorCountrySetEvent.OutputObject
+    >;
+    InvestorCountrySet: TypedContractEvent<
+      InvestorCountrySetEvent.InputTuple,
+      InvestorCountrySetEvent.OutputTuple,
+      InvestorCountrySetEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+  };
+}
@@ -21,9 +21,32 @@ import type {
 
 export interface RolesInterface extends Interface {
   getFunction(
-    nameOrSignature: "ROLE_ADMIN" | "ROLE_INVESTOR" | "ROLE_ISSUER"
+    nameOrSignature:
+      | "COMPLIANCE_ROLE"
+      | "CORPORATE_ACTIONS_ROLE"
+      | "MINTER_ROLE"
+      | "PAUSER_ROLE"
+      | "ROLE_ADMIN"
+      | "ROLE_INVESTOR"
+      | "ROLE_ISSUER"
   ): FunctionFragment;
 
+  encodeFunctionData(
+    functionFragment: "COMPLIANCE_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CORPORATE_ACTIONS_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MINTER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "ROLE_ADMIN",
     values?: undefined
@@ -37,6 +60,22 @@ export interface RolesInterface extends Interface {
     values?: undefined
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "COMPLIANCE_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CORPORATE_ACTIONS_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MINTER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "ROLE_ADMIN", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "ROLE_INVESTOR",
@@ -91,6 +130,14 @@ export interface Roles extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  COMPLIANCE_ROLE: TypedContractMethod<[], [string], "view">;
+
+  CORPORATE_ACTIONS_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MINTER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  PAUSER_ROLE: TypedContractMethod<[], [string], "view">;
+
   ROLE_ADMIN: TypedContractMethod<[], [string], "view">;
 
   ROLE_INVESTOR: TypedContractMethod<[], [string], "view">;
@@ -101,6 +148,18 @@ export interface Roles extends BaseContract {
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "COMPLIANCE_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "CORPORATE_ACTIONS_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MINTER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "PAUSER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "ROLE_ADMIN"
   ): TypedContractMethod<[], [string], "view">;
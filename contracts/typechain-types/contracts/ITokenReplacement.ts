@@ -24,17 +24,27 @@ import type {
 } from "../common";
 
 export interface ITokenReplacementInterface extends Interface {
-  getFunction(nameOrSignature: "migrateBalances"): FunctionFragment;
+  getFunction(
+    nameOrSignature: "getPreviousTokens" | "replaceToken"
+  ): FunctionFragment;
 
   getEvent(nameOrSignatureOrTopic: "TokenReplaced"): EventFragment;
 
   encodeFunctionData(
-    functionFragment: "migrateBalances",
-    values: [AddressLike, AddressLike]
+    functionFragment: "getPreviousTokens",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "replaceToken",
+    values: [AddressLike, BigNumberish]
   ): string;
 
   decodeFunctionResult(
-    functionFragment: "migrateBalances",
+    functionFragment: "getPreviousTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "replaceToken",
     data: BytesLike
   ): Result;
 }
@@ -43,17 +53,17 @@ export namespace TokenReplacedEvent {
   export type InputTuple = [
     oldToken: AddressLike,
     newToken: AddressLike,
-    timestamp: BigNumberish
+    migrationBlockNumber: BigNumberish
   ];
   export type OutputTuple = [
     oldToken: string,
     newToken: string,
-    timestamp: bigint
+    migrationBlockNumber: bigint
   ];
   export interface OutputObject {
     oldToken: string;
     newToken: string;
-    timestamp: bigint;
+    migrationBlockNumber: bigint;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -104,8 +114,10 @@ export interface ITokenReplacement extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
-  migrateBalances: TypedContractMethod<
-    [oldToken: AddressLike, newToken: AddressLike],
+  getPreviousTokens: TypedContractMethod<[], [string[]], "view">;
+
+  replaceToken: TypedContractMethod<
+    [newToken: AddressLike, migrationBlockNumber: BigNumberish],
     [void],
     "nonpayable"
   >;
@@ -115,9 +127,12 @@ export interface ITokenReplacement extends BaseContract {
   ): T;
 
   getFunction(
-    nameOrSignature: "migrateBalances"
+    nameOrSignature: "getPreviousTokens"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "replaceToken"
   ): TypedContractMethod<
-    [oldToken: AddressLike, newToken: AddressLike],
+    [newToken: AddressLike, migrationBlockNumber: BigNumberish],
     [void],
     "nonpayable"
   >;
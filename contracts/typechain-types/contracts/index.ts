@@ -3,6 +3,18 @@
 /* eslint-disable */
 import type * as iRolesSol from "./IRoles.sol";
 export type { iRolesSol };
+export type { AccreditedInvestorModule } from "./AccreditedInvestorModule";
 export type { CapTable } from "./CapTable";
+export type { CapTableFactory } from "./CapTableFactory";
 export type { ChainEquityToken } from "./ChainEquityToken";
+export type { ChainEquityTokenDeployer } from "./ChainEquityTokenDeployer";
+export type { ComplianceModule } from "./ComplianceModule";
+export type { CountryRestrictionModule } from "./CountryRestrictionModule";
+export type { ICompliance } from "./ICompliance";
+export type { IComplianceModule } from "./IComplianceModule";
+export type { IERC1404 } from "./IERC1404";
 export type { ITokenReplacement } from "./ITokenReplacement";
+export type { IssuerRoles } from "./IssuerRoles";
+export type { MaxHoldersModule } from "./MaxHoldersModule";
+export type { MaxOwnershipModule } from "./MaxOwnershipModule";
+export type { ModularCompliance } from "./ModularCompliance";
@@ -4,3 +4,4 @@
 export * as access from "./access";
 export * as interfaces from "./interfaces";
 export * as token from "./token";
+export * as utils from "./utils";
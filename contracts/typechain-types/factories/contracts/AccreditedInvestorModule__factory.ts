@@ -0,0 +1,320 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  AccreditedInvestorModule,
+  AccreditedInvestorModuleInterface,
+} from "../../contracts/AccreditedInvestorModule";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "compliance_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "accredited",
+        type: "bool",
+      },
+    ],
+    name: "AccreditationSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "compliance",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isAccredited",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "moduleAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "moduleCheck",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "accredited",
+        type: "bool",
+      },
+    ],
+    name: "setAccredited",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c060405234801561001057600080fd5b506040516107d53803806107d583398101604081905261002f916101af565b80338061005757604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6100608161015f565b506001600160a01b0381166100dd5760405162461bcd60e51b815260206004820152603360248201527f436f6d706c69616e63654d6f64756c653a20636f6d706c69616e63652063616e60448201527f6e6f74206265207a65726f206164647265737300000000000000000000000000606482015260840161004e565b6001600160a01b038116608081905260408051637e062a3560e11b8152905163fc0c546a916004808201926020929091908290030181865afa158015610127573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061014b91906101af565b6001600160a01b031660a052506101df9050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6000602082840312156101c157600080fd5b81516001600160a01b03811681146101d857600080fd5b9392505050565b60805160a0516105c3610212600039600081816101be015261034601526000818161011801526101ff01526105c36000f3fe608060405234801561001057600080fd5b506004361061009e5760003560e01c806382a9f1451161006657806382a9f1451461016f5780638da5cb5b14610182578063eb7cd59d14610193578063f2fde38b146101a6578063fc0c546a146101b957600080fd5b806306fdde03146100a35780632d598d7b146100e05780636290865d14610113578063715018a6146101525780637571e53c1461015c575b600080fd5b604080518082018252601281527120b1b1b932b234ba32b224b73b32b9ba37b960711b602082015290516100d79190610489565b60405180910390f35b6101036100ee3660046104f3565b60016020526000908152604090205460ff1681565b60405190151581526020016100d7565b61013a7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100d7565b61015a6101e0565b005b61015a61016a366004610515565b6101f4565b61015a61017d366004610551565b61028d565b6000546001600160a01b031661013a565b6101036101a1366004610515565b610396565b61015a6101b43660046104f3565b6103ce565b61013a7f000000000000000000000000000000000000000000000000000000000000000081565b6101e861040c565b6101f26000610439565b565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146102885760405162461bcd60e51b815260206004820152602e60248201527f436f6d706c69616e63654d6f64756c653a2063616c6c6572206973206e6f742060448201526d74686520636f6d706c69616e636560901b60648201526084015b60405180910390fd5b505050565b61029561040c565b6001600160a01b0382166103115760405162461bcd60e51b815260206004820152603760248201527f41636372656469746564496e766573746f724d6f64756c653a2077616c6c657460448201527f2063616e6e6f74206265207a65726f2061646472657373000000000000000000606482015260840161027f565b6001600160a01b03828116600081815260016020908152604091829020805460ff1916861515908117909155915191825291927f000000000000000000000000000000000000000000000000000000000000000016917f38a943a156bf84e02d39a5c4c6c71da7ee1862c217bc5631430bfdfdc451562d910160405180910390a35050565b60006001600160a01b03831615806103c657506001600160a01b03831660009081526001602052604090205460ff165b949350505050565b6103d661040c565b6001600160a01b03811661040057604051631e4fbdf760e01b81526000600482015260240161027f565b61040981610439565b50565b6000546001600160a01b031633146101f25760405163118cdaa760e01b815233600482015260240161027f565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b602081526000825180602084015260005b818110156104b7576020818601810151604086840101520161049a565b506000604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b03811681146104ee57600080fd5b919050565b60006020828403121561050557600080fd5b61050e826104d7565b9392505050565b60008060006060848603121561052a57600080fd5b610533846104d7565b9250610541602085016104d7565b9150604084013590509250925092565b6000806040838503121561056457600080fd5b61056d836104d7565b91506020830135801515811461058257600080fd5b80915050925092905056fea2646970667358221220817a51b2abe9250c72da2ee137d3d9335c1c20d2d6e87fc0c3996e098bde8d8064736f6c634300081a0033";
+
+type AccreditedInvestorModuleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: AccreditedInvestorModuleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class AccreditedInvestorModule__factory extends ContractFactory {
+  constructor(...args: AccreditedInvestorModuleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    compliance_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(compliance_, overrides || {});
+  }
+  override deploy(
+    compliance_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(compliance_, overrides || {}) as Promise<
+      AccreditedInvestorModule & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): AccreditedInvestorModule__factory {
+    return super.connect(runner) as AccreditedInvestorModule__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): AccreditedInvestorModuleInterface {
+    return new Interface(_abi) as AccreditedInvestorModuleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): AccreditedInvestorModule {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as AccreditedInvestorModule;
+  }
+}
@@ -0,0 +1,281 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CapTableFactory,
+  CapTableFactoryInterface,
+} from "../../contracts/CapTableFactory";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "tokenDeployer_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "capTable",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+    ],
+    name: "CompanyCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "tokenName",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "totalAuthorized",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "issuer",
+        type: "address",
+      },
+    ],
+    name: "createCompany",
+    outputs: [
+      {
+        internalType: "address",
+        name: "capTable",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCapTables",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getCompanyCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tokenDeployer",
+    outputs: [
+      {
+        internalType: "contract ChainEquityTokenDeployer",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234801561001057600080fd5b5060405161387d38038061387d83398101604081905261002f9161013d565b338061005657604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b61005f816100ed565b506001600160a01b0381166100dc5760405162461bcd60e51b815260206004820152603660248201527f4361705461626c65466163746f72793a20746f6b656e206465706c6f7965722060448201527f63616e6e6f74206265207a65726f206164647265737300000000000000000000606482015260840161004d565b6001600160a01b031660805261016d565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b60006020828403121561014f57600080fd5b81516001600160a01b038116811461016657600080fd5b9392505050565b6080516136ef61018e60003960008181608701526101e401526136ef6000f3fe608060405234801561001057600080fd5b506004361061007d5760003560e01c80638da5cb5b1161005b5780638da5cb5b14610103578063a962754d14610114578063f078264014610129578063f2fde38b1461013a57600080fd5b80632a2dae0a146100825780634e788f43146100c6578063715018a6146100f9575b600080fd5b6100a97f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020015b60405180910390f35b6100d96100d436600461060c565b61014d565b604080516001600160a01b039384168152929091166020830152016100bd565b610101610470565b005b6000546001600160a01b03166100a9565b61011c610484565b6040516100bd91906106cf565b6001546040519081526020016100bd565b61010161014836600461071b565b6104e6565b600080610158610524565b6001600160a01b0383166101ca5760405162461bcd60e51b815260206004820152602e60248201527f4361705461626c65466163746f72793a206973737565722063616e6e6f74206260448201526d65207a65726f206164647265737360901b60648201526084015b60405180910390fd5b604051634ef9809760e01b81526000906001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001690634ef9809790610221908a908a908e908e908c90600401610768565b6020604051808303816000875af1158015610240573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061026491906107a2565b905060008b8b8b8b604051610278906105a1565b61028594939291906107bf565b604051809103906000f0801580156102a1573d6000803e3d6000fd5b50604051630a5312e960e01b81526001600160a01b03848116600483015291925090821690630a5312e990602401600060405180830381600087803b1580156102e957600080fd5b505af11580156102fd573d6000803e3d6000fd5b505060405163f2fde38b60e01b81526001600160a01b0388811660048301528516925063f2fde38b9150602401600060405180830381600087803b15801561034457600080fd5b505af1158015610358573d6000803e3d6000fd5b505060405163f2fde38b60e01b81526001600160a01b0388811660048301528416925063f2fde38b9150602401600060405180830381600087803b15801561039f57600080fd5b505af11580156103b3573d6000803e3d6000fd5b505050508093508192506001849080600181540180825580915050600190039060005260206000200160009091909190916101000a8154816001600160a01b0302191690836001600160a01b03160217905550846001600160a01b0316836001600160a01b0316856001600160a01b03167f7aa553e348f76d5aca0156d6565a273cfd817a25cc19e155711d6f34811f34f08f8f8f8f60405161045994939291906107bf565b60405180910390a450509850989650505050505050565b610478610524565b6104826000610551565b565b606060018054806020026020016040519081016040528092919081815260200182805480156104dc57602002820191906000526020600020905b81546001600160a01b031681526001909101906020018083116104be575b5050505050905090565b6104ee610524565b6001600160a01b03811661051857604051631e4fbdf760e01b8152600060048201526024016101c1565b61052181610551565b50565b6000546001600160a01b031633146104825760405163118cdaa760e01b81523360048201526024016101c1565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b612ec8806107f283390190565b60008083601f8401126105c057600080fd5b50813567ffffffffffffffff8111156105d857600080fd5b6020830191508360208285010111156105f057600080fd5b9250929050565b6001600160a01b038116811461052157600080fd5b60008060008060008060008060a0898b03121561062857600080fd5b883567ffffffffffffffff81111561063f57600080fd5b61064b8b828c016105ae565b909950975050602089013567ffffffffffffffff81111561066b57600080fd5b6106778b828c016105ae565b909750955050604089013567ffffffffffffffff81111561069757600080fd5b6106a38b828c016105ae565b9095509350506060890135915060808901356106be816105f7565b809150509295985092959890939650565b602080825282518282018190526000918401906040840190835b818110156107105783516001600160a01b03168352602093840193909201916001016106e9565b509095945050505050565b60006020828403121561072d57600080fd5b8135610738816105f7565b9392505050565b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b60608152600061077c60608301878961073f565b828103602084015261078f81868861073f565b9150508260408301529695505050505050565b6000602082840312156107b457600080fd5b8151610738816105f7565b6040815260006107d360408301868861073f565b82810360208401526107e681858761073f565b97965050505050505056fe608060405234801561001057600080fd5b50604051612ec8380380612ec883398101604081905261002f916104ad565b338061005657604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b61005f8161016f565b5060008251116100b15760405162461bcd60e51b815260206004820152601e60248201527f4361705461626c653a206e616d652063616e6e6f7420626520656d7074790000604482015260640161004d565b60008151116101025760405162461bcd60e51b815260206004820181905260248201527f4361705461626c653a2073796d626f6c2063616e6e6f7420626520656d707479604482015260640161004d565b600261010e838261059e565b50600361011b828261059e565b504260055560016006556000600755604051339030907ff8b8253a4b6c8bb18237e1841f3779d071b48fdf43c7f7b361c996ba810f9da9906101609086908690610688565b60405180910390a350506106cc565b6000546001600160a01b0316610184826101e0565b600061018e610230565b905061019c60008385610295565b60005b81518110156101da576101d28282815181106101bd576101bd6106b6565b6020026020010151848661029560201b60201c565b60010161019f565b50505050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b604080516001808252818301909252606091602080830190803683370190505090507ff6f39e738002e327006e2fbd53d2cc27417142e4d33711a08cd4b208c0d00b0981600081518110610286576102866106b6565b60200260200101818152505090565b6001600160a01b038216156102b0576102ae83836102ce565b505b6001600160a01b038116156102c9576101da838261035f565b505050565b60008281526001602090815260408083206001600160a01b038516845290915281205460ff16156103555760008381526001602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a4506001610359565b5060005b92915050565b60008281526001602090815260408083206001600160a01b038516845290915281205460ff166103555760008381526001602081815260408084206001600160a01b0387168086529252808420805460ff19169093179092559051339286917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9190a4506001610359565b634e487b7160e01b600052604160045260246000fd5b60005b8381101561041b578181015183820152602001610403565b50506000910152565b600082601f83011261043557600080fd5b81516001600160401b0381111561044e5761044e6103ea565b604051601f8201601f19908116603f011681016001600160401b038111828210171561047c5761047c6103ea565b60405281815283820160200185101561049457600080fd5b6104a5826020830160208701610400565b949350505050565b600080604083850312156104c057600080fd5b82516001600160401b038111156104d657600080fd5b6104e285828601610424565b602085015190935090506001600160401b0381111561050057600080fd5b61050c85828601610424565b9150509250929050565b600181811c9082168061052a57607f821691505b60208210810361054a57634e487b7160e01b600052602260045260246000fd5b50919050565b601f8211156102c957806000526020600020601f840160051c810160208510156105775750805b601f840160051c820191505b818110156105975760008155600101610583565b5050505050565b81516001600160401b038111156105b7576105b76103ea565b6105cb816105c58454610516565b84610550565b6020601f8211600181146105ff57600083156105e75750848201515b600019600385901b1c1916600184901b178455610597565b600084815260208120601f198516915b8281101561062f578785015182556020948501946001909201910161060f565b508482101561064d5786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b60008151808452610674816020860160208601610400565b601f01601f19169290920160200192915050565b60408152600061069b604083018561065c565b82810360208401526106ad818561065c565b95945050505050565b634e487b7160e01b600052603260045260246000fd5b6127ed806106db6000396000f3fe608060405234801561001057600080fd5b50600436106101da5760003560e01c80638da5cb5b11610104578063bcc7a63b116100a2578063d547741f11610071578063d547741f146103ff578063d7710d6214610412578063f2fde38b1461042b578063fc0c546a1461043e57600080fd5b8063bcc7a63b146103b0578063c3299819146103c3578063c9d355a8146103e3578063cf09e0d0146103f657600080fd5b80639d1d17f7116100de5780639d1d17f714610351578063a217fddf14610364578063b334a7e81461036c578063b8d3f4dc1461039057600080fd5b80638da5cb5b1461031157806391d148541461033657806395d89b411461034957600080fd5b806335e67acc1161017c578063650f1eaa1161014b578063650f1eaa146102d95780636766b69a146102ec578063715018a6146103015780638859794c1461030957600080fd5b806335e67acc1461029f57806336568abe146102b4578063452e40fb146102c757806346abe73a146102d057600080fd5b8063248a9ca3116101b8578063248a9ca314610231578063289f648c146102635780632cd19e3e1461026c5780632f2ff15d1461028c57600080fd5b806301ffc9a7146101df57806306fdde03146102075780630a5312e91461021c575b600080fd5b6101f26101ed366004612003565b610451565b60405190151581526020015b60405180910390f35b61020f610488565b6040516101fe9190612084565b61022f61022a3660046120ac565b610516565b005b61025561023f3660046120c9565b6000908152600160208190526040909120015490565b6040519081526020016101fe565b610255600b5481565b61027f61027a3660046120c9565b6105f6565b6040516101fe91906120e2565b61022f61029a366004612142565b6107ec565b6102a7610818565b6040516101fe9190612172565b61022f6102c2366004612142565b61087a565b61025560075481565b61025560065481565b6102556102e736600461228b565b6108b2565b61025560008051602061279883398151915281565b61022f610e89565b600754610255565b6000546001600160a01b03165b6040516001600160a01b0390911681526020016101fe565b6101f2610344366004612142565b610e9d565b61020f610ec8565b61022f61035f3660046122f5565b610ed5565b610255600081565b61037f61037a3660046120c9565b610ef7565b6040516101fe959493929190612372565b61025561039e3660046120ac565b600d6020526000908152604090205481565b6004546001600160a01b031615156101f2565b6103d66103d13660046120c9565b611036565b6040516101fe91906123b5565b61022f6103f1366004612417565b6111c8565b61025560055481565b61022f61040d366004612142565b611700565b61041a611726565b6040516101fe959493929190612443565b61022f6104393660046120ac565b611880565b60045461031e906001600160a01b031681565b60006001600160e01b03198216637965db0b60e01b148061048257506301ffc9a760e01b6001600160e01b03198316145b92915050565b600280546104959061248d565b80601f01602080910402602001604051908101604052809291908181526020018280546104c19061248d565b801561050e5780601f106104e35761010080835404028352916020019161050e565b820191906000526020600020905b8154815290600101906020018083116104f157829003601f168201915b505050505081565b6000610521816118be565b6001600160a01b0382166105505760405162461bcd60e51b8152600401610547906124c7565b60405180910390fd5b6004546001600160a01b0316156105a95760405162461bcd60e51b815260206004820152601e60248201527f4361705461626c653a20746f6b656e20616c7265616479206c696e6b656400006044820152606401610547565b600480546001600160a01b0319166001600160a01b03841690811790915560405130907fa8261d398ddc63db24cc53cd0c63c9464cabad1bc478ede2107b32c1c4010b7a90600090a35050565b6106286040518060a0016040528060008152602001606081526020016000815260200160008152602001606081525090565b600082118015610639575060065482105b6106855760405162461bcd60e51b815260206004820152601b60248201527f4361705461626c653a20696e76616c696420616374696f6e20494400000000006044820152606401610547565b600860008381526020019081526020016000206040518060a0016040529081600082015481526020016001820180546106bd9061248d565b80601f01602080910402602001604051908101604052809291908181526020018280546106e99061248d565b80156107365780601f1061070b57610100808354040283529160200191610736565b820191906000526020600020905b81548152906001019060200180831161071957829003601f168201915b5050505050815260200160028201548152602001600382015481526020016004820180546107639061248d565b80601f016020809104026020016040519081016040528092919081815260200182805461078f9061248d565b80156107dc5780601f106107b1576101008083540402835291602001916107dc565b820191906000526020600020905b8154815290600101906020018083116107bf57829003601f168201915b5050505050815250509050919050565b60008281526001602081905260409091200154610808816118be565b61081283836118c8565b50505050565b6060600980548060200260200160405190810160405280929190818152602001828054801561087057602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311610852575b5050505050905090565b6001600160a01b03811633146108a35760405163334bd91960e11b815260040160405180910390fd5b6108ad8282611941565b505050565b60006000805160206127988339815191526108cc816118be565b60008751116109295760405162461bcd60e51b8152602060048201526024808201527f4361705461626c653a20636c617373206e616d652063616e6e6f7420626520656044820152636d70747960e01b6064820152608401610547565b6001600160a01b03861661094f5760405162461bcd60e51b8152600401610547906124c7565b6004546001600160a01b0387811691161480159061098657506001600160a01b0386166000908152600a602052604090205460ff16155b6109dc5760405162461bcd60e51b815260206004820152602160248201527f4361705461626c653a20746f6b656e206973206120636f6d6d6f6e20746f6b656044820152603760f91b6064820152608401610547565b6001600160a01b0386166000908152600d602052604090205415610a535760405162461bcd60e51b815260206004820152602860248201527f4361705461626c653a20746f6b656e20697320616c7265616479206120736861604482015267726520636c61737360c01b6064820152608401610547565b60008411610ab25760405162461bcd60e51b815260206004820152602660248201527f4361705461626c653a20636f6e76657273696f6e20726174696f206d7573742060448201526506265203e20360d41b6064820152608401610547565b60008311610b025760405162461bcd60e51b815260206004820152601f60248201527f4361705461626c653a2073656e696f72697479206d757374206265203e2030006044820152606401610547565b6000546001600160a01b03166001600160a01b0316866001600160a01b0316638da5cb5b6040518163ffffffff1660e01b8152600401602060405180830381865afa158015610b55573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610b79919061250d565b6001600160a01b031614610be95760405162461bcd60e51b815260206004820152603160248201527f4361705461626c653a20636c61737320746f6b656e206d757374206265206f776044820152703732b210313c903a34329034b9b9bab2b960791b6064820152608401610547565b856001600160a01b03166318160ddd6040518163ffffffff1660e01b8152600401602060405180830381865afa158015610c27573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610c4b919061252a565b15610cb25760405162461bcd60e51b815260206004820152603160248201527f4361705461626c653a20636c61737320746f6b656e206d757374206e6f742068604482015270617665206d696e7465642073686172657360781b6064820152608401610547565b600b8054906000610cc283612543565b9091555050600b546040805160c08101825282815260208082018b81526001600160a01b038b1683850152606083018a90526080830189905260a083018890526000858152600c909252929020815181559151929450916001820190610d2890826125b8565b506040828101516002830180546001600160a01b0319166001600160a01b0392831617905560608085015160038501556080850151600485015560a0909401516005909301929092559088166000818152600d60209081529083902086905582518084018452601181527014d210549157d0d31054d4d7d051111151607a1b81830152835191820187905292810191909152610dd492015b6040516020818303038152906040526119ae565b856001600160a01b0316827f7ef14badbe6e26b6030d8436b464cc8dcdcca0e4706052f88e7a725156e99e1c89896001600160a01b03166326d8ffaf6040518163ffffffff1660e01b8152600401602060405180830381865afa158015610e3f573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610e63919061252a565b898989604051610e77959493929190612677565b60405180910390a35095945050505050565b610e91611e5d565b610e9b6000611e8a565b565b60009182526001602090815260408084206001600160a01b0393909316845291905290205460ff1690565b600380546104959061248d565b600080516020612798833981519152610eed816118be565b6108ad83836119ae565b60086020526000908152604090208054600182018054919291610f199061248d565b80601f0160208091040260200160405190810160405280929190818152602001828054610f459061248d565b8015610f925780601f10610f6757610100808354040283529160200191610f92565b820191906000526020600020905b815481529060010190602001808311610f7557829003601f168201915b505050505090806002015490806003015490806004018054610fb39061248d565b80601f0160208091040260200160405190810160405280929190818152602001828054610fdf9061248d565b801561102c5780601f106110015761010080835404028352916020019161102c565b820191906000526020600020905b81548152906001019060200180831161100f57829003601f168201915b5050505050905085565b6110786040518060c00160405280600081526020016060815260200160006001600160a01b031681526020016000815260200160008152602001600081525090565b60008211801561108a5750600b548211155b6110d65760405162461bcd60e51b815260206004820181905260248201527f4361705461626c653a20696e76616c696420736861726520636c6173732049446044820152606401610547565b600c60008381526020019081526020016000206040518060c00160405290816000820154815260200160018201805461110e9061248d565b80601f016020809104026020016040519081016040528092919081815260200182805461113a9061248d565b80156111875780601f1061115c57610100808354040283529160200191611187565b820191906000526020600020905b81548152906001019060200180831161116a57829003601f168201915b505050918352505060028201546001600160a01b03166020820152600382015460408201526004820154606082015260059091015460809091015292915050565b6000805160206127988339815191526111e0816118be565b6004546001600160a01b03166112505760405162461bcd60e51b815260206004820152602f60248201527f4361705461626c653a20746f6b656e206d757374206265206c696e6b6564206260448201526e65666f7265207265706c6163696e6760881b6064820152608401610547565b6001600160a01b0383166112765760405162461bcd60e51b8152600401610547906124c7565b6004546001600160a01b03908116908416036112ef5760405162461bcd60e51b815260206004820152603260248201527f4361705461626c653a206e657720746f6b656e206d7573742064696666657220604482015271333937b69031bab93932b73a103a37b5b2b760711b6064820152608401610547565b6001600160a01b0383166000908152600a602052604090205460ff16156113645760405162461bcd60e51b8152602060048201526024808201527f4361705461626c653a20746f6b656e2077617320616c7265616479207265706c6044820152631858d95960e21b6064820152608401610547565b6001600160a01b0383166000908152600d6020526040902054156113d65760405162461bcd60e51b8152602060048201526024808201527f4361705461626c653a206e657720746f6b656e206973206120736861726520636044820152636c61737360e01b6064820152608401610547565b438211156114405760405162461bcd60e51b815260206004820152603160248201527f4361705461626c653a206d6967726174696f6e20626c6f636b2063616e6e6f7460448201527020626520696e207468652066757475726560781b6064820152608401610547565b6000546001600160a01b03166001600160a01b0316836001600160a01b0316638da5cb5b6040518163ffffffff1660e01b8152600401602060405180830381865afa158015611493573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906114b7919061250d565b6001600160a01b0316146115255760405162461bcd60e51b815260206004820152602f60248201527f4361705461626c653a206e657720746f6b656e206d757374206265206f776e6560448201526e3210313c903a34329034b9b9bab2b960891b6064820152608401610547565b826001600160a01b03166318160ddd6040518163ffffffff1660e01b8152600401602060405180830381865afa158015611563573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611587919061252a565b156115ec5760405162461bcd60e51b815260206004820152602f60248201527f4361705461626c653a206e657720746f6b656e206d757374206e6f742068617660448201526e65206d696e7465642073686172657360881b6064820152608401610547565b600480546009805460018082019092557f6e1540171b6c0c960b71a7020d9f60077f6af931a8bbf590da0223dacf75c7af0180546001600160a01b039384166001600160a01b031991821681179092556000828152600a6020908152604091829020805460ff1916909517909455855490911693881693841790945583518085018552600e81526d1513d2d15397d49154131050d15160921b818401528451928301829052938201929092526060810185905290916116ad91608001610dc0565b836001600160a01b0316816001600160a01b03167fd686e0b3d7f1d99f955c67f268c960e0789b9abb0dc6b46fd0c3da9d0e5829eb856040516116f291815260200190565b60405180910390a350505050565b6000828152600160208190526040909120015461171c816118be565b6108128383611941565b6060806000806000600260036117446000546001600160a01b031690565b60045460055484546001600160a01b039092169185906117639061248d565b80601f016020809104026020016040519081016040528092919081815260200182805461178f9061248d565b80156117dc5780601f106117b1576101008083540402835291602001916117dc565b820191906000526020600020905b8154815290600101906020018083116117bf57829003601f168201915b505050505094508380546117ef9061248d565b80601f016020809104026020016040519081016040528092919081815260200182805461181b9061248d565b80156118685780601f1061183d57610100808354040283529160200191611868565b820191906000526020600020905b81548152906001019060200180831161184b57829003601f168201915b50505050509350945094509450945094509091929394565b611888611e5d565b6001600160a01b0381166118b257604051631e4fbdf760e01b815260006004820152602401610547565b6118bb81611e8a565b50565b6118bb8133611eef565b60006118d48383610e9d565b6119395760008381526001602081815260408084206001600160a01b0387168086529252808420805460ff19169093179092559051339286917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d9190a4506001610482565b506000610482565b600061194d8383610e9d565b156119395760008381526001602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a4506001610482565b6000825111611a0d5760405162461bcd60e51b815260206004820152602560248201527f4361705461626c653a20616374696f6e20747970652063616e6e6f7420626520604482015264656d70747960d81b6064820152608401610547565b6004546001600160a01b0316611a8b5760405162461bcd60e51b815260206004820152603760248201527f4361705461626c653a20746f6b656e206d757374206265206c696e6b6564206260448201527f65666f7265207265636f7264696e6720616374696f6e730000000000000000006064820152608401610547565b600680549081906000611a9d83612543565b90915550506040805160a081018252828152602080820186815243838501524260608401526080830186905260008581526008909252929020815181559151909182916001820190611aef90826125b8565b50604082015160028201556060820151600382015560808201516004820190611b1890826125b8565b50506007805491506000611b2b83612543565b909155505060408051808201909152600d81526c53594d424f4c5f4348414e474560981b6020918201528451908501207fa621306a1a5e7cf54da174de0a8ae560b1e2f0b0844b1e5bba7032bb7537d9b701611cc957600083806020019051810190611b9791906126ae565b90506000815111611bea5760405162461bcd60e51b815260206004820181905260248201527f4361705461626c653a2073796d626f6c2063616e6e6f7420626520656d7074796044820152606401610547565b600060038054611bf99061248d565b80601f0160208091040260200160405190810160405280929190818152602001828054611c259061248d565b8015611c725780601f10611c4757610100808354040283529160200191611c72565b820191906000526020600020905b815481529060010190602001808311611c5557829003601f168201915b505050505090508160039081611c8891906125b8565b507fe539f7c7cd6b523196945e98454143f55e93314cc40672ad65628a7df42d483f8183604051611cba92919061271c565b60405180910390a15050611e15565b60408051808201909152601881527f415554484f52495a45445f5348415245535f4348414e474500000000000000006020918201528451908501207f6f75be80f47e4ff7e43776e81f09fee844db3e2ca71378cf30506b5d876dd13801611e1557600083806020019051810190611d409190612741565b60048054604080516326d8ffaf60e01b815290519395506001600160a01b0390911693506326d8ffaf92818301926020928290030181865afa158015611d8a573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611dae919061252a565b8114611e135760405162461bcd60e51b815260206004820152602e60248201527f4361705461626c653a20617574686f72697a65642073686172657320646f206e60448201526d37ba1036b0ba31b4103a37b5b2b760911b6064820152608401610547565b505b83604051611e239190612765565b6040518091039020827f6b7cc5d68042f3d2c6f2152655f063b69ff14b44d1d490bdcf525c5773813fd8436040516116f291815260200190565b6000546001600160a01b03163314610e9b5760405163118cdaa760e01b8152336004820152602401610547565b6000546001600160a01b0316611e9f82611f2c565b6000611ea9611f7c565b9050611eb760008385611fcf565b60005b815181101561081257611ee7828281518110611ed857611ed8612781565b60200260200101518486611fcf565b600101611eba565b611ef98282610e9d565b611f285760405163e2517d3f60e01b81526001600160a01b038216600482015260248101839052604401610547565b5050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6040805160018082528183019092526060916020808301908036833701905050905060008051602061279883398151915281600081518110611fc057611fc0612781565b60200260200101818152505090565b6001600160a01b03821615611fea57611fe88383611941565b505b6001600160a01b038116156108ad5761081283826118c8565b60006020828403121561201557600080fd5b81356001600160e01b03198116811461202d57600080fd5b9392505050565b60005b8381101561204f578181015183820152602001612037565b50506000910152565b60008151808452612070816020860160208601612034565b601f01601f19169290920160200192915050565b60208152600061202d6020830184612058565b6001600160a01b03811681146118bb57600080fd5b6000602082840312156120be57600080fd5b813561202d81612097565b6000602082840312156120db57600080fd5b5035919050565b60208152815160208201526000602083015160a0604084015261210860c0840182612058565b905060408401516060840152606084015160808401526080840151601f198483030160a08501526121398282612058565b95945050505050565b6000806040838503121561215557600080fd5b82359150602083013561216781612097565b809150509250929050565b602080825282518282018190526000918401906040840190835b818110156121b35783516001600160a01b031683526020938401939092019160010161218c565b509095945050505050565b634e487b7160e01b600052604160045260246000fd5b604051601f8201601f1916810167ffffffffffffffff811182821017156121fd576121fd6121be565b604052919050565b600067ffffffffffffffff82111561221f5761221f6121be565b50601f01601f191660200190565b600061224061223b84612205565b6121d4565b905082815283838301111561225457600080fd5b828260208301376000602084830101529392505050565b600082601f83011261227c57600080fd5b61202d8383356020850161222d565b600080600080600060a086880312156122a357600080fd5b853567ffffffffffffffff8111156122ba57600080fd5b6122c68882890161226b565b95505060208601356122d781612097565b94979496505050506040830135926060810135926080909101359150565b6000806040838503121561230857600080fd5b823567ffffffffffffffff81111561231f57600080fd5b61232b8582860161226b565b925050602083013567ffffffffffffffff81111561234857600080fd5b8301601f8101851361235957600080fd5b6123688582356020840161222d565b9150509250929050565b85815260a06020820152600061238b60a0830187612058565b85604084015284606084015282810360808401526123a98185612058565b98975050505050505050565b60208152815160208201526000602083015160c060408401526123db60e0840182612058565b905060018060a01b03604085015116606084015260608401516080840152608084015160a084015260a084015160c08401528091505092915050565b6000806040838503121561242a57600080fd5b823561243581612097565b946020939093013593505050565b60a08152600061245660a0830188612058565b82810360208401526124688188612058565b6001600160a01b03968716604085015294909516606083015250608001529392505050565b600181811c908216806124a157607f821691505b6020821081036124c157634e487b7160e01b600052602260045260246000fd5b50919050565b60208082526026908201527f4361705461626c653a20746f6b656e20616464726573732063616e6e6f74206260408201526565207a65726f60d01b606082015260800190565b60006020828403121561251f57600080fd5b815161202d81612097565b60006020828403121561253c57600080fd5b5051919050565b60006001820161256357634e487b7160e01b600052601160045260246000fd5b5060010190565b601f8211156108ad57806000526020600020601f840160051c810160208510156125915750805b601f840160051c820191505b818110156125b1576000815560010161259d565b5050505050565b815167ffffffffffffffff8111156125d2576125d26121be565b6125e6816125e0845461248d565b8461256a565b6020601f82116001811461261a57600083156126025750848201515b600019600385901b1c1916600184901b1784556125b1565b600084815260208120601f198516915b8281101561264a578785015182556020948501946001909201910161262a565b50848210156126685786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b60a08152600061268a60a0830188612058565b90508560208301528460408301528360608301528260808301529695505050505050565b6000602082840312156126c057600080fd5b815167ffffffffffffffff8111156126d757600080fd5b8201601f810184136126e857600080fd5b80516126f661223b82612205565b81815285602083850101111561270b57600080fd5b612139826020830160208601612034565b60408152600061272f6040830185612058565b82810360208401526121398185612058565b6000806040838503121561275457600080fd5b505080516020909101519092909150565b60008251612777818460208701612034565b9190910192915050565b634e487b7160e01b600052603260045260246000fdfef6f39e738002e327006e2fbd53d2cc27417142e4d33711a08cd4b208c0d00b09a2646970667358221220d8804eac30c99595a32cc01d8ad389faa52d7f8361ca751b5246f432f29c22b364736f6c634300081a0033a26469706673582212205eea4289c0380054ddb456a285dcce00b5498b0fd87fde186786f35343e905dd64736f6c634300081a0033";
+
+type CapTableFactoryConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CapTableFactoryConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CapTableFactory__factory extends ContractFactory {
+  constructor(...args: CapTableFactoryConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    tokenDeployer_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(tokenDeployer_, overrides || {});
+  }
+  override deploy(
+    tokenDeployer_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(tokenDeployer_, overrides || {}) as Promise<
+      CapTableFactory & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): CapTableFactory__factory {
+    return super.connect(runner) as CapTableFactory__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CapTableFactoryInterface {
+    return new Interface(_abi) as CapTableFactoryInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CapTableFactory {
+    return new Contract(address, _abi, runner) as unknown as CapTableFactory;
+  }
+}
@@ -0,0 +1,102 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ChainEquityTokenDeployer,
+  ChainEquityTokenDeployerInterface,
+} from "../../contracts/ChainEquityTokenDeployer";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "symbol",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "totalAuthorized",
+        type: "uint256",
+      },
+    ],
+    name: "deploy",
+    outputs: [
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052348015600f57600080fd5b5061554f8061001f6000396000f3fe608060405234801561001057600080fd5b506004361061002b5760003560e01c80634ef9809714610030575b600080fd5b61004361003e36600461015b565b61005f565b6040516001600160a01b03909116815260200160405180910390f35b600080868686868660405161007390610105565b6100819594939291906101fd565b604051809103906000f08015801561009d573d6000803e3d6000fd5b5060405163f2fde38b60e01b81523360048201529091506001600160a01b0382169063f2fde38b90602401600060405180830381600087803b1580156100e257600080fd5b505af11580156100f6573d6000803e3d6000fd5b50929998505050505050505050565b6152e28061023883390190565b60008083601f84011261012457600080fd5b50813567ffffffffffffffff81111561013c57600080fd5b60208301915083602082850101111561015457600080fd5b9250929050565b60008060008060006060868803121561017357600080fd5b853567ffffffffffffffff81111561018a57600080fd5b61019688828901610112565b909650945050602086013567ffffffffffffffff8111156101b657600080fd5b6101c288828901610112565b96999598509660400135949350505050565b81835281816020850137506000828201602090810191909152601f909101601f19169091010190565b6060815260006102116060830187896101d4565b82810360208401526102248186886101d4565b915050826040830152969550505050505056fe608060405234801561001057600080fd5b506040516152e23803806152e283398101604081905261002f9161059c565b338383600361003e8382610696565b50600461004b8282610696565b5050506001600160a01b03811661007d57604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b61008681610169565b50600081116100ed5760405162461bcd60e51b815260206004820152602d60248201527f436861696e457175697479546f6b656e3a20746f74616c417574686f72697a6560448201526c064206d757374206265203e203609c1b6064820152608401610074565b6009819055600a6100fe8482610696565b50600b61010b8382610696565b506007805460ff19166001179055670de0b6b3a76400006008556040517f6e2d918accb9c0c20d356d108319129bcb7173e961ceeee40602ec084cc0196c9061015990859085908590610780565b60405180910390a15050506107cc565b600061018260055461010090046001600160a01b031690565b905061018d826101e9565b6000610197610243565b90506101a560008385610369565b60005b81518110156101e3576101db8282815181106101c6576101c66107b6565b6020026020010151848661036960201b60201c565b6001016101a8565b50505050565b600580546001600160a01b03838116610100818102610100600160a81b031985161790945560405193909204169182907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b60408051600480825260a08201909252606091602082016080803683370190505090507f9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a68160008151811061029a5761029a6107b6565b6020026020010181815250507f442a94f1a1fac79af32856af2a64f63648cfa2ef3b98610a5bb7cbec4cee6985816001815181106102da576102da6107b6565b6020026020010181815250507ff6f39e738002e327006e2fbd53d2cc27417142e4d33711a08cd4b208c0d00b098160028151811061031a5761031a6107b6565b6020026020010181815250507f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a8160038151811061035a5761035a6107b6565b60200260200101818152505090565b6001600160a01b038216156103845761038283836103a2565b505b6001600160a01b0381161561039d576101e38382610433565b505050565b60008281526006602090815260408083206001600160a01b038516845290915281205460ff16156104295760008381526006602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a450600161042d565b5060005b92915050565b60008281526006602090815260408083206001600160a01b038516845290915281205460ff166104295760008381526006602090815260408083206001600160a01b03861684529091529020805460ff191660011790556104913390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a450600161042d565b634e487b7160e01b600052604160045260246000fd5b60005b8381101561050a5781810151838201526020016104f2565b50506000910152565b600082601f83011261052457600080fd5b81516001600160401b0381111561053d5761053d6104d9565b604051601f8201601f19908116603f011681016001600160401b038111828210171561056b5761056b6104d9565b60405281815283820160200185101561058357600080fd5b6105948260208301602087016104ef565b949350505050565b6000806000606084860312156105b157600080fd5b83516001600160401b038111156105c757600080fd5b6105d386828701610513565b602086015190945090506001600160401b038111156105f157600080fd5b6105fd86828701610513565b925050604084015190509250925092565b600181811c9082168061062257607f821691505b60208210810361064257634e487b7160e01b600052602260045260246000fd5b50919050565b601f82111561039d57806000526020600020601f840160051c8101602085101561066f5750805b601f840160051c820191505b8181101561068f576000815560010161067b565b5050505050565b81516001600160401b038111156106af576106af6104d9565b6106c3816106bd845461060e565b84610648565b6020601f8211600181146106f757600083156106df5750848201515b600019600385901b1c1916600184901b17845561068f565b600084815260208120601f198516915b828110156107275787850151825560209485019460019092019101610707565b50848210156107455786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b6000815180845261076c8160208601602086016104ef565b601f01601f19169290920160200192915050565b6060815260006107936060830186610754565b82810360208401526107a58186610754565b915050826040830152949350505050565b634e487b7160e01b600052603260045260246000fd5b614b07806107db6000396000f3fe608060405234801561001057600080fd5b506004361061048a5760003560e01c8063715018a611610262578063b9a06a5211610151578063d5391393116100ce578063e166fbd611610092578063e166fbd614610a0f578063e63ab1e914610a22578063ea5ed3db14610a37578063eccb9fc814610a4a578063f2fde38b14610a5d578063f898178914610a7057600080fd5b8063d539139314610994578063d547741f146109a9578063dd4875a8146108ea578063dd62ed3e146109bc578063dda6be3f146109f557600080fd5b8063c7a6472311610115578063c7a6472314610933578063c7b15eaf14610946578063c9192b0714610959578063d0a6d1a614610979578063d4ce14151461098157600080fd5b8063b9a06a52146108ea578063beb4a5fb146108f2578063c1a8748c146108fa578063c22dc7e71461090d578063c41100a11461092057600080fd5b806399292599116101df578063a7cd52cb116101a3578063a7cd52cb14610886578063a9059cbb146108a9578063aa1be9cc146108bc578063ad0b67cf146108c4578063aedfe6ef146108d757600080fd5b806399292599146108465780639c9c666914610859578063a217fddf14610862578063a3895fff1461086a578063a5507b351461087d57600080fd5b80638456cb59116102265780638456cb59146107fa5780638da5cb5b146108025780638e0acd121461081857806391d148541461082b57806395d89b411461083e57600080fd5b8063715018a6146107ac57806378228c1f146107b45780637f4ab1dd146107c7578063808a9d40146107da5780638423df79146107ed57600080fd5b806343f3e9f91161037e5780635c975abb116102fb578063673448dd116102bf578063673448dd146107325780636766b69a1461075e57806368573107146107735780636fbaff371461078657806370a082311461079957600080fd5b80635c975abb146106f45780635e26eaf1146106ff5780635f0211611461054e5780636290865d1461070757806366b213e0146106ff57600080fd5b80634e9a0cd0116103425780634e9a0cd014610695578063502d883c146106a85780635353a2d8146106bb57806355ec6d48146106ce57806359355736146106e157600080fd5b806343f3e9f91461061b5780634917abf2146106465780634a531e811461066f5780634a544148146105cb5780634bbffcb11461068257600080fd5b8063222867371161040c5780632f2ff15d116103d05780632f2ff15d146105d3578063313ce567146105e657806336568abe146105ed5780633f4ba83a1461060057806340c10f191461060857600080fd5b8063222867371461058357806323b872dd1461058c578063248a9ca31461059f57806326d8ffaf146105c25780632a9820e4146105cb57600080fd5b8063095ea7b311610453578063095ea7b3146105265780630fcb0ae51461053957806314e9a9451461054e57806318160ddd146105685780631e9a69501461057057600080fd5b806246c0a11461048f57806301ffc9a7146104b8578063062d3bd7146104db57806306fdde03146104fe5780630745966114610513575b600080fd5b6104a261049d366004613e44565b610a83565b6040516104af9190613e5d565b60405180910390f35b6104cb6104c6366004613ee8565b610b77565b60405190151581526020016104af565b6104f06000805160206149b683398151915281565b6040519081526020016104af565b610506610bae565b6040516104af9190613f58565b6104cb610521366004613fcb565b610c40565b6104cb61053436600461405a565b610c9a565b61054c610547366004614086565b610cb2565b005b610556600381565b60405160ff90911681526020016104af565b6002546104f0565b61054c61057e36600461405a565b610db9565b6104f0600e5481565b6104cb61059a3660046140a3565b610f67565b6104f06105ad366004613e44565b60009081526006602052604090206001015490565b6104f060095481565b610556600281565b61054c6105e13660046140e4565b610f8d565b6012610556565b61054c6105fb3660046140e4565b610fb8565b61054c610ff0565b61054c61061636600461405a565b611013565b60115461062e906001600160401b031681565b6040516001600160401b0390911681526020016104af565b61062e610654366004614086565b6012602052600090815260409020546001600160401b031681565b61054c61067d366004614130565b611054565b61054c610690366004613e44565b61113e565b6104f06106a3366004614165565b611287565b6104f06106b6366004614086565b61165f565b61054c6106c93660046141ea565b61167d565b6104f06106dc3660046142a0565b6117d2565b6104f06106ef366004614086565b611819565b60055460ff166104cb565b610556600481565b60135461071a906001600160a01b031681565b6040516001600160a01b0390911681526020016104af565b6104cb610740366004614086565b6001600160a01b03166000908152600c602052604090205460ff1690565b6104f0600080516020614a3783398151915281565b61054c6107813660046142c2565b6118bc565b61054c610794366004614331565b611a25565b6104f06107a7366004614086565b611a59565b61054c611a74565b61054c6107c2366004614374565b611a88565b6105066107d53660046143b3565b611ece565b61054c6107e8366004614086565b612023565b6007546104cb9060ff1681565b61054c6120fc565b60055461010090046001600160a01b031661071a565b61054c610826366004613e44565b61211c565b6104cb6108393660046140e4565b6121da565b610506612205565b61054c610854366004613e44565b612214565b6104f0600d5481565b6104f0600081565b61054c6108783660046141ea565b612266565b6104f060085481565b6104cb610894366004614086565b600c6020526000908152604090205460ff1681565b6104cb6108b736600461405a565b6123b0565b610556600581565b6104cb6108d23660046143ce565b6123be565b61054c6108e5366004614422565b612459565b610556600181565b610556600681565b61062e610908366004614086565b612647565b61054c61091b366004614481565b612687565b61054c61092e366004613e44565b6126e8565b6104f0610941366004614086565b6128b8565b61054c61095436600461449e565b6128e3565b61096c610967366004614086565b61294a565b6040516104af91906144b9565b610556600081565b61055661098f3660046140a3565b6129b6565b6104f0600080516020614a1783398151915281565b61054c6109b73660046140e4565b6129f9565b6104f06109ca366004614374565b6001600160a01b03918216600090815260016020908152604080832093909416825291909152205490565b60115461062e90600160401b90046001600160401b031681565b61054c610a1d36600461449e565b612a1e565b6104f06000805160206149f783398151915281565b61054c610a453660046144fc565b612a96565b61054c610a58366004613e44565b612bcb565b61054c610a6b366004614086565b612cf8565b61054c610a7e366004614086565b612d33565b6040805160e081018252600080825260208201819052918101829052606081018290526080810182905260a0810182905260c0810191909152600082118015610ace5750600e548211155b610af35760405162461bcd60e51b8152600401610aea9061453d565b60405180910390fd5b506000908152600f6020908152604091829020825160e08101845281546001600160a01b0316815260018201549281019290925260028101546001600160401b0380821694840194909452600160401b810484166060840152600160801b810484166080840152600160c01b9004831660a08301526003015490911660c082015290565b60006001600160e01b03198216637965db0b60e01b1480610ba857506301ffc9a760e01b6001600160e01b03198316145b92915050565b6060600a8054610bbd9061457f565b80601f0160208091040260200160405190810160405280929190818152602001828054610be99061457f565b8015610c365780601f10610c0b57610100808354040283529160200191610c36565b820191906000526020600020905b815481529060010190602001808311610c1957829003601f168201915b5050505050905090565b60006001600160a01b038716610c6c5760405163ec442f0560e01b815260006004820152602401610aea565b610c8d338888610c7d338a8a6123be565b610c888c89896123be565b612e86565b5060019695505050505050565b600033610ca88185856130ce565b5060019392505050565b6000805160206149b6833981519152610cca816130db565b6001600160a01b038216610cf05760405162461bcd60e51b8152600401610aea906145b9565b6001600160a01b0382166000908152600c602052604090205460ff1615610d6b5760405162461bcd60e51b815260206004820152602960248201527f436861696e457175697479546f6b656e3a2077616c6c657420616c726561647960448201526808185c1c1c9bdd995960ba1b6064820152608401610aea565b6001600160a01b0382166000818152600c6020526040808220805460ff191660011790555133917fbec08b8efdf9dc7b9f98864f4176d2ef3f5e9a67885a39913540e41b23b1587291a35050565b600080516020614a17833981519152610dd1816130db565b6001600160a01b038316610e415760405162461bcd60e51b815260206004820152603160248201527f436861696e457175697479546f6b656e3a2063616e6e6f742072656465656d2060448201527066726f6d207a65726f206164647265737360781b6064820152608401610aea565b60008211610ea55760405162461bcd60e51b815260206004820152602b60248201527f436861696e457175697479546f6b656e3a2072656465656d20616d6f756e742060448201526a06d757374206265203e20360ac1b6064820152608401610aea565b81610eaf84611a59565b1015610f155760405162461bcd60e51b815260206004820152602f60248201527f436861696e457175697479546f6b656e3a2072656465656d20616d6f756e742060448201526e657863656564732062616c616e636560881b6064820152608401610aea565b610f1f83836130e5565b826001600160a01b03167f4896181ff8f4543cc00db9fe9b6fb7e6f032b7eb772c72ab1ec1b4d2e03b936983604051610f5a91815260200190565b60405180910390a2505050565b600033610f7585828561311b565b610f80858585613194565b60019150505b9392505050565b600082815260066020526040902060010154610fa8816130db565b610fb283836131f3565b50505050565b6001600160a01b0381163314610fe15760405163334bd91960e11b815260040160405180910390fd5b610feb8282613287565b505050565b6000805160206149f7833981519152611008816130db565b6110106132f4565b50565b600080516020614a1783398151915261102b816130db565b6001600160a01b0383166000908152600c6020526040902054610feb908490849060ff16613346565b6000805160206149b683398151915261106c816130db565b6001600160a01b0383166110d85760405162461bcd60e51b815260206004820152602d60248201527f436861696e457175697479546f6b656e3a2063616e6e6f74206c6f636b20757060448201526c207a65726f206164647265737360981b6064820152608401610aea565b6001600160a01b038316600081815260126020908152604091829020805467ffffffffffffffff19166001600160401b03871690811790915591519182527f63ae462e7d5d9c264eae8383c53dac7d13de712c37ccb3d0d4134406d2426ed79101610f5a565b600080516020614a37833981519152611156816130db565b60055460ff16156111795760405162461bcd60e51b8152600401610aea90614606565b600082116111e05760405162461bcd60e51b815260206004820152602e60248201527f436861696e457175697479546f6b656e3a2073706c6974206d756c7469706c6960448201526d06572206d757374206265203e20360941b6064820152608401610aea565b60085482036112425760405162461bcd60e51b815260206004820152602860248201527f436861696e457175697479546f6b656e3a2073706c697420666163746f7220756044820152671b98da185b99d95960c21b6064820152608401610aea565b6008805490839055604051438152839082907f4f28e268fa9d3b2d891a818ee15921e1598687b03a6aac968dba66216e10c99a906020015b60405180910390a3505050565b6000600080516020614a178339815191526112a1816130db565b600087116113045760405162461bcd60e51b815260206004820152602a60248201527f436861696e457175697479546f6b656e3a206772616e7420616d6f756e74206d6044820152690757374206265203e20360b41b6064820152608401610aea565b6000846001600160401b0316116113745760405162461bcd60e51b815260206004820152602e60248201527f436861696e457175697479546f6b656e3a2076657374696e672064757261746960448201526d06f6e206d757374206265203e20360941b6064820152608401610aea565b836001600160401b0316856001600160401b031611156113ef5760405162461bcd60e51b815260206004820152603060248201527f436861696e457175697479546f6b656e3a20636c69666620657863656564732060448201526f3b32b9ba34b73390323ab930ba34b7b760811b6064820152608401610aea565b6000836001600160401b031611801561141a5750836001600160401b0316836001600160401b031611155b6114795760405162461bcd60e51b815260206004820152602a60248201527f436861696e457175697479546f6b656e3a20696e76616c69642072656c65617360448201526919481a5b9d195c9d985b60b21b6064820152608401610aea565b6001600160a01b0388166000908152600c60205260409020546114a2908990899060ff16613346565b600e600081546114b19061465d565b91829055506040805160e0810182526001600160a01b03808c1680835260208084018d81526001600160401b03808e168688019081528d8216606088019081528d8316608089019081528d841660a08a01908152600060c08b018181528d8252600f89528c82209b518c549b166001600160a01b0319909b169a909a178b5595516001808c0191909155935160028b0180549451935192518716600160c01b026001600160c01b03938816600160801b02939093166fffffffffffffffffffffffffffffffff948816600160401b026fffffffffffffffffffffffffffffffff19909616928816929092179490941792909216919091171790559451600390960180549690911667ffffffffffffffff199690961695909517909455818452601081528484208054938401815584529092200183905590519193509083907efb30a11c0c86ee964aae901522706570af642d759d67966976c4b8da18bda19061164c908b908b908b908b908b909485526001600160401b03938416602086015291831660408501528216606084015216608082015260a00190565b60405180910390a3509695505050505050565b6000670de0b6b3a7640000611673836128b8565b610ba8919061468c565b600080516020614a37833981519152611695816130db565b60008251116116f55760405162461bcd60e51b815260206004820152602660248201527f436861696e457175697479546f6b656e3a206e616d652063616e6e6f7420626560448201526520656d70747960d01b6064820152608401610aea565b6000600a80546117049061457f565b80601f01602080910402602001604051908101604052809291908181526020018280546117309061457f565b801561177d5780601f106117525761010080835404028352916020019161177d565b820191906000526020600020905b81548152906001019060200180831161176057829003601f168201915b5050505050905082600a908161179391906146e7565b507f6c20b91d1723b78732eba64ff11ebd7966a6e4af568a00fa4f6b72c20f58b02a81846040516117c59291906147a5565b60405180910390a1505050565b600080831180156117e55750600e548311155b6118015760405162461bcd60e51b8152600401610aea9061453d565b6000838152600f60205260409020610f869083613571565b6001600160a01b0381166000908152601060205260408120815b81548110156118b5576000600f6000848481548110611854576118546147ca565b60009182526020808320909101548352820192909252604001812060038101549092506001600160401b031690036118ac576118908142613571565b816001015461189f91906147e0565b6118a990856147f3565b93505b50600101611833565b5050919050565b600080516020614a178339815191526118d4816130db565b836119215760405162461bcd60e51b815260206004820152601d60248201527f436861696e457175697479546f6b656e3a20656d7074792062617463680000006044820152606401610aea565b83821461197a5760405162461bcd60e51b815260206004820152602160248201527f436861696e457175697479546f6b656e3a206c656e677468206d69736d6174636044820152600d60fb1b6064820152608401610aea565b60005b84811015611a1d57611a1586868381811061199a5761199a6147ca565b90506020020160208101906119af9190614086565b8585848181106119c1576119c16147ca565b90506020020135600c60008a8a878181106119de576119de6147ca565b90506020020160208101906119f39190614086565b6001600160a01b0316815260208101919091526040016000205460ff16613346565b60010161197d565b505050505050565b600080516020614a17833981519152611a3d816130db565b611a528585611a4d8887876123be565b613346565b5050505050565b6001600160a01b031660009081526020819052604090205490565b611a7c61368e565b611a8660006136c1565b565b6000805160206149b6833981519152611aa0816130db565b6001600160a01b038316611b0c5760405162461bcd60e51b815260206004820152602d60248201527f436861696e457175697479546f6b656e3a2063616e6e6f74207265636f76657260448201526c207a65726f206164647265737360981b6064820152608401610aea565b6001600160a01b038216611b7e5760405162461bcd60e51b815260206004820152603360248201527f436861696e457175697479546f6b656e3a206e65772077616c6c65742063616e6044820152726e6f74206265207a65726f206164647265737360681b6064820152608401610aea565b816001600160a01b0316836001600160a01b031603611c055760405162461bcd60e51b815260206004820152603960248201527f436861696e457175697479546f6b656e3a206e65772077616c6c6574206d757360448201527f74206469666665722066726f6d206c6f73742077616c6c6574000000000000006064820152608401610aea565b6001600160a01b0383166000908152600c602052604090205460ff1615611cd8576001600160a01b0383166000818152600c6020526040808220805460ff191690555133917f9acdbd9054166a56a857b5a2526ae7449bc952f1303dee2ac6dee9b41cd16a4a91a36001600160a01b0382166000908152600c602052604090205460ff16611cd8576001600160a01b0382166000818152600c6020526040808220805460ff191660011790555133917fbec08b8efdf9dc7b9f98864f4176d2ef3f5e9a67885a39913540e41b23b1587291a35b6001600160a01b0383166000908152601060205260408120905b8154811015611d915783600f6000848481548110611d1257611d126147ca565b6000918252602080832091909101548352828101939093526040918201812080546001600160a01b0319166001600160a01b039586161790559287168352601090915290208254839083908110611d6b57611d6b6147ca565b600091825260208083209091015483546001818101865594845291909220015501611cf2565b506001600160a01b0384166000908152601060205260408120611db391613e12565b6001600160a01b038084166000908152601260205260408082205492871682529020546001600160401b0391821691161115611e5f576001600160a01b0384811660009081526012602090815260408083205493871680845292819020805467ffffffffffffffff19166001600160401b0390951694851790555192835290917f63ae462e7d5d9c264eae8383c53dac7d13de712c37ccb3d0d4134406d2426ed7910160405180910390a25b6000611e6a85611a59565b90508015611e7d57611e7d85858361372b565b60408051828152600160208201526001600160a01b0380871692908816917fa09ac573cf3b5050fd59c704eb8361e137f953d175d10756d909d26dda75b5f791015b60405180910390a35050505050565b606060ff8216611f0257505060408051808201909152600e81526d2737903932b9ba3934b1ba34b7b760911b602082015290565b60001960ff831601611f2d57604051806060016040528060258152602001614a7c6025913992915050565b60011960ff831601611f585760405180606001604052806028815260200161493b6028913992915050565b60021960ff831601611f8357604051806060016040528060258152602001614a576025913992915050565b60031960ff831601611fae57604051806060016040528060318152602001614aa16031913992915050565b60041960ff831601611fd9576040518060600160405280602981526020016149636029913992915050565b60051960ff831601612004576040518060600160405280602181526020016149d66021913992915050565b6040518060600160405280602a815260200161498c602a913992915050565b6000805160206149b683398151915261203b816130db565b6001600160a01b0382166000908152600c602052604090205460ff166120b15760405162461bcd60e51b815260206004820152602560248201527f436861696e457175697479546f6b656e3a2077616c6c6574206e6f74206170706044820152641c9bdd995960da1b6064820152608401610aea565b6001600160a01b0382166000818152600c6020526040808220805460ff191690555133917f9acdbd9054166a56a857b5a2526ae7449bc952f1303dee2ac6dee9b41cd16a4a91a35050565b6000805160206149f7833981519152612114816130db565b6110106137b2565b6000805160206149b6833981519152612134816130db565b600d5482036121985760405162461bcd60e51b815260206004820152602a60248201527f436861696e457175697479546f6b656e3a20616c6c6f776c69737420726f6f74604482015269081d5b98da185b99d95960b21b6064820152608401610aea565b600d5460408051918252602082018490527f46d29081335f92e529d434a5c3442c664096e0d138f259e9f0351f95996c78db910160405180910390a150600d55565b60009182526006602090815260408084206001600160a01b0393909316845291905290205460ff1690565b6060600b8054610bbd9061457f565b600080516020614a3783398151915261222c816130db565b6000821161224c5760405162461bcd60e51b8152600401610aea90614806565b6122628260095461225d91906147f3565b6137ef565b5050565b600080516020614a3783398151915261227e816130db565b60008251116122e05760405162461bcd60e51b815260206004820152602860248201527f436861696e457175697479546f6b656e3a2073796d626f6c2063616e6e6f7420604482015267626520656d70747960c01b6064820152608401610aea565b6000600b80546122ef9061457f565b80601f016020809104026020016040519081016040528092919081815260200182805461231b9061457f565b80156123685780601f1061233d57610100808354040283529160200191612368565b820191906000526020600020905b81548152906001019060200180831161234b57829003601f168201915b5050505050905082600b908161237e91906146e7565b507fd7ad744cc76ebad190995130eec8ba506b3605612d23b5b9cef8e27f14d138b481846040516117c59291906147a5565b600033610ca8818585613194565b6001600160a01b0383166000908152600c602052604081205460ff16156123e757506001610f86565b600d546123f657506000610f86565b604080516001600160a01b03861660208201526000910160408051601f19818403018152828252805160209182012090830152016040516020818303038152906040528051906020012090506124508484600d548461382d565b95945050505050565b6000805160206149b6833981519152612471816130db565b6001600160a01b0385166124ed5760405162461bcd60e51b815260206004820152603960248201527f436861696e457175697479546f6b656e3a2063616e6e6f7420666f726365207460448201527f72616e736665722066726f6d207a65726f2061646472657373000000000000006064820152608401610aea565b6001600160a01b0384166000908152600c602052604090205460ff166125255760405162461bcd60e51b8152600401610aea9061484a565b600083116125925760405162461bcd60e51b815260206004820152603460248201527f436861696e457175697479546f6b656e3a20666f72636564207472616e73666560448201527307220616d6f756e74206d757374206265203e20360641b6064820152608401610aea565b60008260ff16116125f45760405162461bcd60e51b815260206004820152602660248201527f436861696e457175697479546f6b656e3a20726561736f6e20636f64652072656044820152651c5d5a5c995960d21b6064820152608401610aea565b6125ff85858561372b565b6040805184815260ff841660208201526001600160a01b0380871692908816917fd522f397529f4fc6c2b06a0ca29891910cf9fc92ee16ade251e268b1b9e0b52b9101611ebf565b6001600160a01b0381166000908152601260205260408120546011546001600160401b0391821691168111610ba8576011546001600160401b0316610f86565b6000805160206149b683398151915261269f816130db565b6007805460ff19168315159081179091556040519081527fa26ccfb9f7cddf8ed45b4d2121700e52179cbc6aa9d90746594fba07e5df9f74906020015b60405180910390a15050565b600080516020614a17833981519152612700816130db565b6000828152600f6020526040902080546001600160a01b03166127355760405162461bcd60e51b8152600401610aea9061453d565b60038101546001600160401b0316156127a05760405162461bcd60e51b815260206004820152602760248201527f436861696e457175697479546f6b656e3a206772616e7420616c7265616479206044820152661c995d9bdad95960ca1b6064820152608401610aea565b60006127ac8242613571565b60038301805467ffffffffffffffff1916426001600160401b031617905560018301549091506000906127e09083906147e0565b83549091506127f7906001600160a01b0316611a59565b811115612815578254612812906001600160a01b0316611a59565b90505b8015612872578254612830906001600160a01b0316826130e5565b82546040518281526001600160a01b03909116907f4896181ff8f4543cc00db9fe9b6fb7e6f032b7eb772c72ab1ec1b4d2e03b93699060200160405180910390a25b825460408051848152602081018490526001600160a01b039092169187917fc0f50ae2f7d6303ab4fa4e447b6d19e155f40bf345e844595d349a8eda458f759101611ebf565b6000670de0b6b3a76400006008546128cf84611a59565b6128d99190614892565b610ba891906148a9565b6000805160206149b68339815191526128fb816130db565b6011805467ffffffffffffffff19166001600160401b0384169081179091556040519081527f1d072619ddc0481090a876270f280365c8f9a632611274cc765c291d0d9ee2ff906020016126dc565b6001600160a01b0381166000908152601060209081526040918290208054835181840281018401909452808452606093928301828280156129aa57602002820191906000526020600020905b815481526020019060010190808311612996575b50505050509050919050565b6001600160a01b038084166000908152600c602052604080822054928516825281205490916129f19186918691869160ff9081169116613845565b949350505050565b600082815260066020526040902060010154612a14816130db565b610fb28383613287565b6000805160206149b6833981519152612a36816130db565b601180546fffffffffffffffff00000000000000001916600160401b6001600160401b038516908102919091179091556040519081527f48dee3c94dad072b67fb17f7a241358742619b56a80e9d1bdf44d7499b1857dc906020016126dc565b6000805160206149b6833981519152612aae816130db565b81612afb5760405162461bcd60e51b815260206004820152601d60248201527f436861696e457175697479546f6b656e3a20656d7074792062617463680000006044820152606401610aea565b60005b82811015610fb2576000848483818110612b1a57612b1a6147ca565b9050602002016020810190612b2f9190614086565b90506001600160a01b038116612b575760405162461bcd60e51b8152600401610aea906145b9565b6001600160a01b0381166000908152600c602052604090205460ff16612bc2576001600160a01b0381166000818152600c6020526040808220805460ff191660011790555133917fbec08b8efdf9dc7b9f98864f4176d2ef3f5e9a67885a39913540e41b23b1587291a35b50600101612afe565b600080516020614a37833981519152612be3816130db565b60008211612c035760405162461bcd60e51b8152600401610aea90614806565b6009548210612c6a5760405162461bcd60e51b815260206004820152602d60248201527f436861696e457175697479546f6b656e3a20746f74616c417574686f72697a6560448201526c064206d757374206265203e203609c1b6064820152608401610aea565b60025482600954612c7b91906147e0565b1015612ce75760405162461bcd60e51b815260206004820152603560248201527f436861696e457175697479546f6b656e3a20617574686f72697a65642062656c6044820152746f77206f75747374616e64696e6720737570706c7960581b6064820152608401610aea565b6122628260095461225d91906147e0565b612d0061368e565b6001600160a01b038116612d2a57604051631e4fbdf760e01b815260006004820152602401610aea565b611010816136c1565b6000805160206149b6833981519152612d4b816130db565b6001600160a01b0382161580612dd35750306001600160a01b0316826001600160a01b031663fc0c546a6040518163ffffffff1660e01b8152600401602060405180830381865afa158015612da4573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612dc891906148bd565b6001600160a01b0316145b612e3b5760405162461bcd60e51b815260206004820152603360248201527f436861696e457175697479546f6b656e3a20636f6d706c69616e636520626f756044820152723732103a379030b737ba3432b9103a37b5b2b760691b6064820152608401610aea565b601380546001600160a01b0319166001600160a01b0384169081179091556040517fa970409706553acbb8c86c1bc79621a1e9decfe2e5f083d3ee9dc215d07cea3990600090a25050565b60055460ff1615612ea95760405162461bcd60e51b8152600401610aea90614606565b6001600160a01b03851615801590612ec957506001600160a01b03841615155b15612f10576000612edd8686868686613845565b905060ff811615612f0a57612ef181611ece565b60405162461bcd60e51b8152600401610aea9190613f58565b50613045565b6001600160a01b038516158015612f2f57506001600160a01b03841615155b156130455760075460ff161580612f435750805b612f5f5760405162461bcd60e51b8152600401610aea9061484a565b6013546001600160a01b03161580612fe757506013546040516372331c7360e11b81526001600160a01b039091169063e46638e690612fa6908890889088906004016148da565b602060405180830381865afa158015612fc3573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612fe791906148fe565b6130455760405162461bcd60e51b815260206004820152602960248201527f436861696e457175697479546f6b656e3a20636f6d706c69616e63652063686560448201526818dac819985a5b195960ba1b6064820152608401610aea565b61305085858561398a565b6013546001600160a01b031615611a52576013546040516322ebca6d60e21b81526001600160a01b0390911690638baf29b490613095908890889088906004016148da565b600060405180830381600087803b1580156130af57600080fd5b505af11580156130c3573d6000803e3d6000fd5b505050505050505050565b610feb8383836001613aa7565b6110108133613b7c565b6001600160a01b03821661310f57604051634b637e8f60e11b815260006004820152602401610aea565b61226282600083613bb5565b6001600160a01b03838116600090815260016020908152604080832093861683529290522054600019811015610fb2578181101561318557604051637dc7a0d960e11b81526001600160a01b03841660048201526024810182905260448101839052606401610aea565b610fb284848484036000613aa7565b6001600160a01b0383166131be57604051634b637e8f60e11b815260006004820152602401610aea565b6001600160a01b0382166131e85760405163ec442f0560e01b815260006004820152602401610aea565b610feb838383613bb5565b60006131ff83836121da565b61327f5760008381526006602090815260408083206001600160a01b03861684529091529020805460ff191660011790556132373390565b6001600160a01b0316826001600160a01b0316847f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a4506001610ba8565b506000610ba8565b600061329383836121da565b1561327f5760008381526006602090815260408083206001600160a01b0386168085529252808320805460ff1916905551339286917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b9190a4506001610ba8565b6132fc613bee565b6005805460ff191690557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa335b6040516001600160a01b03909116815260200160405180910390a1565b6001600160a01b0383166133b25760405162461bcd60e51b815260206004820152602d60248201527f436861696e457175697479546f6b656e3a2063616e6e6f74206d696e7420746f60448201526c207a65726f206164647265737360981b6064820152608401610aea565b806133cf5760405162461bcd60e51b8152600401610aea9061484a565b600954826133dc60025490565b6133e691906147f3565b11156134485760405162461bcd60e51b815260206004820152602b60248201527f436861696e457175697479546f6b656e3a206578636565647320617574686f7260448201526a697a656420737570706c7960a81b6064820152608401610aea565b61345760008484600085612e86565b826001600160a01b03167fa59f12e354e8cd10bb74c559844c2dd69a5458e31fe56c7594c62ca57480509a8360405161349291815260200190565b60405180910390a2601154600160401b90046001600160401b031615610feb576011546000906134d290600160401b90046001600160401b03164261491b565b6001600160a01b0385166000908152601260205260409020549091506001600160401b039081169082161115610fb2576001600160a01b038416600081815260126020908152604091829020805467ffffffffffffffff19166001600160401b03861690811790915591519182527f63ae462e7d5d9c264eae8383c53dac7d13de712c37ccb3d0d4134406d2426ed7910160405180910390a250505050565b60038201546000906001600160401b03161580159061359c575060038301546001600160401b031682115b156135b25760038301546001600160401b031691505b60028301546135d3906001600160401b03600160401b8204811691166147f3565b8210156135e257506000610ba8565b6002830154613603906001600160401b03600160801b8204811691166147f3565b821061361457506001820154610ba8565b600283015460009061362f906001600160401b0316846147e0565b600285015490915061365190600160c01b90046001600160401b03168261468c565b61365b90826147e0565b60028501546001860154919250600160801b90046001600160401b031690613684908390614892565b6129f191906148a9565b6005546001600160a01b03610100909104163314611a865760405163118cdaa760e01b8152336004820152602401610aea565b60055461010090046001600160a01b03166136db82613c11565b60006136e5613c6b565b90506136f360008385613d49565b60005b8151811015610fb257613723828281518110613714576137146147ca565b60200260200101518486613d49565b6001016136f6565b61373683838361398a565b6013546001600160a01b031615610feb576013546040516322ebca6d60e21b81526001600160a01b0390911690638baf29b49061377b908690869086906004016148da565b600060405180830381600087803b15801561379557600080fd5b505af11580156137a9573d6000803e3d6000fd5b50505050505050565b6137ba613d7d565b6005805460ff191660011790557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586133293390565b600980549082905560408051828152602081018490527fc8d5ae33af4510321c7ab36578ad8407ebd13860b67bba061c8e220d9858c04f91016126dc565b60008261383b868685613da1565b1495945050505050565b600061385360055460ff1690565b1561386057506006612450565b60075460ff1615613885578261387857506001612450565b8161388557506002612450565b61388e86612647565b6001600160401b03164210156138a657506003612450565b60006138b187611819565b90506000811180156138d357506138c881866147f3565b6138d188611a59565b105b156138e2576004915050612450565b6013546001600160a01b03161580159061396e57506013546040516372331c7360e11b81526001600160a01b039091169063e46638e69061392b908a908a908a906004016148da565b602060405180830381865afa158015613948573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061396c91906148fe565b155b1561397d576005915050612450565b5060009695505050505050565b6001600160a01b0383166139b55780600260008282546139aa91906147f3565b90915550613a279050565b6001600160a01b03831660009081526020819052604090205481811015613a085760405163391434e360e21b81526001600160a01b03851660048201526024810182905260448101839052606401610aea565b6001600160a01b03841660009081526020819052604090209082900390555b6001600160a01b038216613a4357600280548290039055613a62565b6001600160a01b03821660009081526020819052604090208054820190555b816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161127a91815260200190565b6001600160a01b038416613ad15760405163e602df0560e01b815260006004820152602401610aea565b6001600160a01b038316613afb57604051634a1406b160e11b815260006004820152602401610aea565b6001600160a01b0380851660009081526001602090815260408083209387168352929052208290558015610fb257826001600160a01b0316846001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92584604051613b6e91815260200190565b60405180910390a350505050565b613b8682826121da565b6122625760405163e2517d3f60e01b81526001600160a01b038216600482015260248101839052604401610aea565b6001600160a01b038084166000908152600c6020526040808220549285168252902054610feb9185918591859160ff9182169116612e86565b60055460ff16611a8657604051638dfc202b60e01b815260040160405180910390fd5b600580546001600160a01b03838116610100818102610100600160a81b031985161790945560405193909204169182907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a35050565b60408051600480825260a0820190925260609160208201608080368337019050509050600080516020614a1783398151915281600081518110613cb057613cb06147ca565b6020026020010181815250506000805160206149b683398151915281600181518110613cde57613cde6147ca565b602002602001018181525050600080516020614a3783398151915281600281518110613d0c57613d0c6147ca565b6020026020010181815250506000805160206149f783398151915281600381518110613d3a57613d3a6147ca565b60200260200101818152505090565b6001600160a01b03821615613d6457613d628383613287565b505b6001600160a01b03811615610feb57610fb283826131f3565b60055460ff1615611a865760405163d93c066560e01b815260040160405180910390fd5b600081815b84811015613dda57613dd082878784818110613dc457613dc46147ca565b90506020020135613de3565b9150600101613da6565b50949350505050565b6000818310613dff576000828152602084905260409020610f86565b6000838152602083905260409020610f86565b508054600082559060005260206000209081019061101091905b80821115613e405760008155600101613e2c565b5090565b600060208284031215613e5657600080fd5b5035919050565b600060e08201905060018060a01b038351168252602083015160208301526001600160401b0360408401511660408301526001600160401b0360608401511660608301526001600160401b0360808401511660808301526001600160401b0360a08401511660a083015260c0830151613ee160c08401826001600160401b03169052565b5092915050565b600060208284031215613efa57600080fd5b81356001600160e01b031981168114610f8657600080fd5b6000815180845260005b81811015613f3857602081850181015186830182015201613f1c565b506000602082860101526020601f19601f83011685010191505092915050565b602081526000610f866020830184613f12565b6001600160a01b038116811461101057600080fd5b60008083601f840112613f9257600080fd5b5081356001600160401b03811115613fa957600080fd5b6020830191508360208260051b8501011115613fc457600080fd5b9250929050565b60008060008060008060808789031215613fe457600080fd5b8635613fef81613f6b565b95506020870135945060408701356001600160401b0381111561401157600080fd5b61401d89828a01613f80565b90955093505060608701356001600160401b0381111561403c57600080fd5b61404889828a01613f80565b979a9699509497509295939492505050565b6000806040838503121561406d57600080fd5b823561407881613f6b565b946020939093013593505050565b60006020828403121561409857600080fd5b8135610f8681613f6b565b6000806000606084860312156140b857600080fd5b83356140c381613f6b565b925060208401356140d381613f6b565b929592945050506040919091013590565b600080604083850312156140f757600080fd5b82359150602083013561410981613f6b565b809150509250929050565b80356001600160401b038116811461412b57600080fd5b919050565b6000806040838503121561414357600080fd5b823561414e81613f6b565b915061415c60208401614114565b90509250929050565b60008060008060008060c0878903121561417e57600080fd5b863561418981613f6b565b95506020870135945061419e60408801614114565b93506141ac60608801614114565b92506141ba60808801614114565b91506141c860a08801614114565b90509295509295509295565b634e487b7160e01b600052604160045260246000fd5b6000602082840312156141fc57600080fd5b81356001600160401b0381111561421257600080fd5b8201601f8101841361422357600080fd5b80356001600160401b0381111561423c5761423c6141d4565b604051601f8201601f19908116603f011681016001600160401b038111828210171561426a5761426a6141d4565b60405281815282820160200186101561428257600080fd5b81602084016020830137600091810160200191909152949350505050565b600080604083850312156142b357600080fd5b50508035926020909101359150565b600080600080604085870312156142d857600080fd5b84356001600160401b038111156142ee57600080fd5b6142fa87828801613f80565b90955093505060208501356001600160401b0381111561431957600080fd5b61432587828801613f80565b95989497509550505050565b6000806000806060858703121561434757600080fd5b843561435281613f6b565b93506020850135925060408501356001600160401b0381111561431957600080fd5b6000806040838503121561438757600080fd5b823561439281613f6b565b9150602083013561410981613f6b565b803560ff8116811461412b57600080fd5b6000602082840312156143c557600080fd5b610f86826143a2565b6000806000604084860312156143e357600080fd5b83356143ee81613f6b565b925060208401356001600160401b0381111561440957600080fd5b61441586828701613f80565b9497909650939450505050565b6000806000806080858703121561443857600080fd5b843561444381613f6b565b9350602085013561445381613f6b565b925060408501359150614468606086016143a2565b905092959194509250565b801515811461101057600080fd5b60006020828403121561449357600080fd5b8135610f8681614473565b6000602082840312156144b057600080fd5b610f8682614114565b602080825282518282018190526000918401906040840190835b818110156144f15783518352602093840193909201916001016144d3565b509095945050505050565b6000806020838503121561450f57600080fd5b82356001600160401b0381111561452557600080fd5b61453185828601613f80565b90969095509350505050565b60208082526022908201527f436861696e457175697479546f6b656e3a20696e76616c6964206772616e7420604082015261125160f21b606082015260800190565b600181811c9082168061459357607f821691505b6020821081036145b357634e487b7160e01b600052602260045260246000fd5b50919050565b6020808252602d908201527f436861696e457175697479546f6b656e3a2063616e6e6f7420617070726f766560408201526c207a65726f206164647265737360981b606082015260800190565b60208082526021908201527f436861696e457175697479546f6b656e3a20746f6b656e2069732070617573656040820152601960fa1b606082015260800190565b634e487b7160e01b600052601160045260246000fd5b60006001820161466f5761466f614647565b5060010190565b634e487b7160e01b600052601260045260246000fd5b60008261469b5761469b614676565b500690565b601f821115610feb57806000526020600020601f840160051c810160208510156146c75750805b601f840160051c820191505b81811015611a5257600081556001016146d3565b81516001600160401b03811115614700576147006141d4565b6147148161470e845461457f565b846146a0565b6020601f82116001811461474857600083156147305750848201515b600019600385901b1c1916600184901b178455611a52565b600084815260208120601f198516915b828110156147785787850151825560209485019460019092019101614758565b50848210156147965786840151600019600387901b60f8161c191681555b50505050600190811b01905550565b6040815260006147b86040830185613f12565b82810360208401526124508185613f12565b634e487b7160e01b600052603260045260246000fd5b81810381811115610ba857610ba8614647565b80820180821115610ba857610ba8614647565b60208082526024908201527f436861696e457175697479546f6b656e3a20616d6f756e74206d7573742062656040820152630203e20360e41b606082015260800190565b60208082526028908201527f436861696e457175697479546f6b656e3a20726563697069656e74206e6f7420604082015267185c1c1c9bdd995960c21b606082015260800190565b8082028115828204841417610ba857610ba8614647565b6000826148b8576148b8614676565b500490565b6000602082840312156148cf57600080fd5b8151610f8681613f6b565b6001600160a01b039384168152919092166020820152604081019190915260600190565b60006020828403121561491057600080fd5b8151610f8681614473565b6001600160401b038181168382160190811115610ba857610ba861464756fe436861696e457175697479546f6b656e3a20726563697069656e74206e6f7420617070726f766564436861696e457175697479546f6b656e3a20636f6d706c69616e636520636865636b206661696c6564436861696e457175697479546f6b656e3a20756e6b6e6f776e207265737472696374696f6e20636f6465442a94f1a1fac79af32856af2a64f63648cfa2ef3b98610a5bb7cbec4cee6985436861696e457175697479546f6b656e3a20746f6b656e2069732070617573656465d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6f6f39e738002e327006e2fbd53d2cc27417142e4d33711a08cd4b208c0d00b09436861696e457175697479546f6b656e3a2073656e646572206973206c6f636b6564207570436861696e457175697479546f6b656e3a2073656e646572206e6f7420617070726f766564436861696e457175697479546f6b656e3a207472616e736665722065786365656473207665737465642062616c616e6365a264697066735822122037739ac5ef4f50243e0efd0946ee6dd81ea0adf9d1dab142fa6026783d5b78f164736f6c634300081a0033a26469706673582212203f08a9595ee00b4e85ed84878480f232f80242d1faf62995ea1a1dd000aa10a464736f6c634300081a0033";
+
+type ChainEquityTokenDeployerConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ChainEquityTokenDeployerConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ChainEquityTokenDeployer__factory extends ContractFactory {
+  constructor(...args: ChainEquityTokenDeployerConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      ChainEquityTokenDeployer & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ChainEquityTokenDeployer__factory {
+    return super.connect(runner) as ChainEquityTokenDeployer__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ChainEquityTokenDeployerInterface {
+    return new Interface(_abi) as ChainEquityTokenDeployerInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ChainEquityTokenDeployer {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ChainEquityTokenDeployer;
+  }
+}
@@ -0,0 +1,382 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  CountryRestrictionModule,
+  CountryRestrictionModuleInterface,
+} from "../../contracts/CountryRestrictionModule";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "compliance_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes2",
+        name: "country",
+        type: "bytes2",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "restricted",
+        type: "bool",
+      },
+    ],
+    name: "CountryRestrictionSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes2",
+        name: "country",
+        type: "bytes2",
+      },
+    ],
+    name: "InvestorCountrySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "compliance",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "investorCountry",
+    outputs: [
+      {
+        internalType: "bytes2",
+        name: "",
+        type: "bytes2",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes2",
+        name: "",
+        type: "bytes2",
+      },
+    ],
+    name: "isCountryRestricted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "moduleAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "moduleCheck",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes2",
+        name: "country",
+        type: "bytes2",
+      },
+      {
+        internalType: "bool",
+        name: "restricted",
+        type: "bool",
+      },
+    ],
+    name: "setCountryRestricted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+      {
+        internalType: "bytes2",
+        name: "country",
+        type: "bytes2",
+      },
+    ],
+    name: "setInvestorCountry",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c060405234801561001057600080fd5b506040516109cb3803806109cb83398101604081905261002f916101af565b80338061005757604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6100608161015f565b506001600160a01b0381166100dd5760405162461bcd60e51b815260206004820152603360248201527f436f6d706c69616e63654d6f64756c653a20636f6d706c69616e63652063616e60448201527f6e6f74206265207a65726f206164647265737300000000000000000000000000606482015260840161004e565b6001600160a01b038116608081905260408051637e062a3560e11b8152905163fc0c546a916004808201926020929091908290030181865afa158015610127573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061014b91906101af565b6001600160a01b031660a052506101df9050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6000602082840312156101c157600080fd5b81516001600160a01b03811681146101d857600080fd5b9392505050565b60805160a0516107b3610218600039600081816102230152818161039a01526104b501526000818160fb015261026401526107b36000f3fe608060405234801561001057600080fd5b50600436106100b45760003560e01c80638da5cb5b116100715780638da5cb5b146101c15780639ab7cc6c146101d25780639e8ffed1146101e5578063eb7cd59d146101f8578063f2fde38b1461020b578063fc0c546a1461021e57600080fd5b806306fdde03146100b95780636290865d146100f65780636e9832ab14610135578063715018a6146101685780637571e53c146101725780637e42683b14610185575b600080fd5b604080518082018252601281527121b7bab73a393ca932b9ba3934b1ba34b7b760711b602082015290516100ed9190610613565b60405180910390f35b61011d7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100ed565b61015861014336600461067e565b60026020526000908152604090205460ff1681565b60405190151581526020016100ed565b610170610245565b005b6101706101803660046106b7565b610259565b6101a86101933660046106f3565b60016020526000908152604090205460f01b81565b6040516001600160f01b031990911681526020016100ed565b6000546001600160a01b031661011d565b6101706101e036600461070e565b6102f2565b6101706101f336600461074a565b6103f2565b6101586102063660046106b7565b610505565b6101706102193660046106f3565b610558565b61011d7f000000000000000000000000000000000000000000000000000000000000000081565b61024d610596565b61025760006105c3565b565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146102ed5760405162461bcd60e51b815260206004820152602e60248201527f436f6d706c69616e63654d6f64756c653a2063616c6c6572206973206e6f742060448201526d74686520636f6d706c69616e636560901b60648201526084015b60405180910390fd5b505050565b6102fa610596565b6001600160f01b031982166103635760405162461bcd60e51b815260206004820152602960248201527f436f756e7472795265737472696374696f6e4d6f64756c653a20696e76616c696044820152686420636f756e74727960b81b60648201526084016102e4565b6001600160f01b03198216600081815260026020908152604091829020805460ff19168515159081179091558251938452908301527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316917f9402842b80f935be0913bb440f64aadcc3984eb065fb3dc48954ae3d9b72d83d910160405180910390a25050565b6103fa610596565b6001600160a01b0382166104765760405162461bcd60e51b815260206004820152603760248201527f436f756e7472795265737472696374696f6e4d6f64756c653a2077616c6c657460448201527f2063616e6e6f74206265207a65726f206164647265737300000000000000000060648201526084016102e4565b6001600160a01b03828116600081815260016020908152604091829020805461ffff191660f087901c17905590516001600160f01b03198516815291927f000000000000000000000000000000000000000000000000000000000000000016917f1f72f61244d6f2328879f70ce07c4d69ceaaf6062bc1a2b81d7d73b895d5c9e0910160405180910390a35050565b60006001600160a01b038316158061055057506001600160a01b03831660009081526001602090815260408083205460f01b6001600160f01b0319168352600290915290205460ff16155b949350505050565b610560610596565b6001600160a01b03811661058a57604051631e4fbdf760e01b8152600060048201526024016102e4565b610593816105c3565b50565b6000546001600160a01b031633146102575760405163118cdaa760e01b81523360048201526024016102e4565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b602081526000825180602084015260005b818110156106415760208186018101516040868401015201610624565b506000604082850101526040601f19601f83011684010191505092915050565b80356001600160f01b03198116811461067957600080fd5b919050565b60006020828403121561069057600080fd5b61069982610661565b9392505050565b80356001600160a01b038116811461067957600080fd5b6000806000606084860312156106cc57600080fd5b6106d5846106a0565b92506106e3602085016106a0565b9150604084013590509250925092565b60006020828403121561070557600080fd5b610699826106a0565b6000806040838503121561072157600080fd5b61072a83610661565b91506020830135801515811461073f57600080fd5b809150509250929050565b6000806040838503121561075d57600080fd5b610766836106a0565b915061077460208401610661565b9050925092905056fea26469706673582212203f2b7aca706b2fd9d1f660a4c2a1229f132b6ae0e4b4292935b0998cc9faadb764736f6c634300081a0033";
+
+type CountryRestrictionModuleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: CountryRestrictionModuleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class CountryRestrictionModule__factory extends ContractFactory {
+  constructor(...args: CountryRestrictionModuleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    compliance_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(compliance_, overrides || {});
+  }
+  override deploy(
+    compliance_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(compliance_, overrides || {}) as Promise<
+      CountryRestrictionModule & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): CountryRestrictionModule__factory {
+    return super.connect(runner) as CountryRestrictionModule__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): CountryRestrictionModuleInterface {
+    return new Interface(_abi) as CountryRestrictionModuleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): CountryRestrictionModule {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as CountryRestrictionModule;
+  }
+}
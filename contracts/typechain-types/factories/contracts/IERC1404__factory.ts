@@ -0,0 +1,67 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type { IERC1404, IERC1404Interface } from "../../contracts/IERC1404";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "detectTransferRestriction",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "restrictionCode",
+        type: "uint8",
+      },
+    ],
+    name: "messageForTransferRestriction",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IERC1404__factory {
+  static readonly abi = _abi;
+  static createInterface(): IERC1404Interface {
+    return new Interface(_abi) as IERC1404Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): IERC1404 {
+    return new Contract(address, _abi, runner) as unknown as IERC1404;
+  }
+}
@@ -15,6 +15,58 @@ import type {
 } from "../../../contracts/IRoles.sol/Roles";
 
 const _abi = [
+  {
+    inputs: [],
+    name: "COMPLIANCE_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CORPORATE_ACTIONS_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MINTER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "ROLE_ADMIN",
@@ -57,7 +109,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x61010661003a600b82828239805160001a60731461002d57634e487b7160e01b600052600060045260246000fd5b30600052607381538281f3fe730000000000000000000000000000000000000000301460806040526004361060475760003560e01c80635645927a14604c578063794d3850146084578063d391014b1460aa575b600080fd5b60727faf6434f6eb154f0a8fb99159f5a5d62e65539f790f541f86c973b2514c8e39b281565b60405190815260200160405180910390f35b60727fb5f4ba1c5fe0704bb1c4399e6baa562444b507b8daf8d7c95ffa2d49b06b442c81565b60727f2172861495e7b85edac73e3cd5fbb42dd675baadf627720e687bcfdaca0250968156fea2646970667358221220142196884312110ecb1bfb8d1b8fd1acfdf916dabcc3eaef010dd7453cb95e3e64736f6c63430008180033";
+  "0x6101e5610039600b82828239805160001a607314602c57634e487b7160e01b600052600060045260246000fd5b30600052607381538281f3fe73000000000000000000000000000000000000000030146080604052600436106100875760003560e01c8063794d385011610065578063794d385014610113578063d391014b1461013a578063d539139314610161578063e63ab1e91461018857600080fd5b8063062d3bd71461008c5780635645927a146100c55780636766b69a146100ec575b600080fd5b6100b37f442a94f1a1fac79af32856af2a64f63648cfa2ef3b98610a5bb7cbec4cee698581565b60405190815260200160405180910390f35b6100b37faf6434f6eb154f0a8fb99159f5a5d62e65539f790f541f86c973b2514c8e39b281565b6100b37ff6f39e738002e327006e2fbd53d2cc27417142e4d33711a08cd4b208c0d00b0981565b6100b37fb5f4ba1c5fe0704bb1c4399e6baa562444b507b8daf8d7c95ffa2d49b06b442c81565b6100b37f2172861495e7b85edac73e3cd5fbb42dd675baadf627720e687bcfdaca02509681565b6100b37f9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a681565b6100b37f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a8156fea26469706673582212206886445ce03156146a7dfac2d1022301b5938535b9d7bd184ea0dece66aa613864736f6c634300081a0033";
 
 type RolesConstructorParams =
   | [signer?: Signer]
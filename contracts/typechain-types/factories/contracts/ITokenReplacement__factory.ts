@@ -27,7 +27,7 @@ const _abi = [
       {
         indexed: false,
         internalType: "uint256",
-        name: "timestamp",
+        name: "migrationBlockNumber",
         type: "uint256",
       },
     ],
@@ -35,19 +35,32 @@ const _abi = [
     type: "event",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "getPreviousTokens",
+    outputs: [
       {
-        internalType: "address",
-        name: "oldToken",
-        type: "address",
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "address",
         name: "newToken",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "migrationBlockNumber",
+        type: "uint256",
+      },
     ],
-    name: "migrateBalances",
+    name: "replaceToken",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -0,0 +1,342 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MaxHoldersModule,
+  MaxHoldersModuleInterface,
+} from "../../contracts/MaxHoldersModule";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "compliance_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxHolders",
+        type: "uint256",
+      },
+    ],
+    name: "MaxHoldersSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "compliance",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "holderCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isHolder",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxHolders",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "moduleAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "moduleCheck",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "maxHolders_",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxHolders",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "wallets",
+        type: "address[]",
+      },
+    ],
+    name: "syncHolders",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c060405234801561001057600080fd5b50604051610b58380380610b5883398101604081905261002f916101af565b80338061005757604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6100608161015f565b506001600160a01b0381166100dd5760405162461bcd60e51b815260206004820152603360248201527f436f6d706c69616e63654d6f64756c653a20636f6d706c69616e63652063616e60448201527f6e6f74206265207a65726f206164647265737300000000000000000000000000606482015260840161004e565b6001600160a01b038116608081905260408051637e062a3560e11b8152905163fc0c546a916004808201926020929091908290030181865afa158015610127573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061014b91906101af565b6001600160a01b031660a052506101df9050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6000602082840312156101c157600080fd5b81516001600160a01b03811681146101d857600080fd5b9392505050565b60805160a0516109386102206000396000818161021a015281816103620152818161047101526105a201526000818161013a01526102aa01526109386000f3fe608060405234801561001057600080fd5b50600436106100cf5760003560e01c80638365066b1161008c578063d4d7b19a11610066578063d4d7b19a146101bc578063eb7cd59d146101ef578063f2fde38b14610202578063fc0c546a1461021557600080fd5b80638365066b1461018f5780638bf5c4ee146101a25780638da5cb5b146101ab57600080fd5b806306fdde03146100d45780631aab9a9f146101095780633c9d53a6146101205780636290865d14610135578063715018a6146101745780637571e53c1461017c575b600080fd5b604080518082018252600a8152694d6178486f6c6465727360b01b602082015290516101009190610722565b60405180910390f35b61011260025481565b604051908152602001610100565b61013361012e366004610770565b61023c565b005b61015c7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b039091168152602001610100565b61013361028b565b61013361018a366004610803565b61029f565b61013361019d366004610840565b610345565b61011260015481565b6000546001600160a01b031661015c565b6101df6101ca366004610859565b60036020526000908152604090205460ff1681565b6040519015158152602001610100565b6101df6101fd366004610803565b6103b3565b610133610210366004610859565b610502565b61015c7f000000000000000000000000000000000000000000000000000000000000000081565b610244610540565b60005b818110156102865761027e83838381811061026457610264610874565b90506020020160208101906102799190610859565b61056d565b600101610247565b505050565b610293610540565b61029d60006106d2565b565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146103335760405162461bcd60e51b815260206004820152602e60248201527f436f6d706c69616e63654d6f64756c653a2063616c6c6572206973206e6f742060448201526d74686520636f6d706c69616e636560901b60648201526084015b60405180910390fd5b61033c8361056d565b6102868261056d565b61034d610540565b60018190556040518181526001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016907fca3796b6c446ebdb1b266e2cd59da0e3f8c53750ef481a11748b63437d5171169060200160405180910390a250565b6000600154600014806103cd57506001600160a01b038316155b806103d6575081155b806103f957506001600160a01b03831660009081526003602052604090205460ff165b15610406575060016104fb565b6000600254600161041791906108a0565b90506001600160a01b0385161580159061044957506001600160a01b03851660009081526003602052604090205460ff165b80156104e057506040516370a0823160e01b81526001600160a01b03868116600483015284917f0000000000000000000000000000000000000000000000000000000000000000909116906370a0823190602401602060405180830381865afa1580156104ba573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906104de91906108b9565b145b156104f357806104ef816108d2565b9150505b600154101590505b9392505050565b61050a610540565b6001600160a01b03811661053457604051631e4fbdf760e01b81526000600482015260240161032a565b61053d816106d2565b50565b6000546001600160a01b0316331461029d5760405163118cdaa760e01b815233600482015260240161032a565b6001600160a01b03811661057e5750565b6040516370a0823160e01b81526001600160a01b03828116600483015260009182917f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa1580156105e9573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061060d91906108b9565b11905080801561063657506001600160a01b03821660009081526003602052604090205460ff16155b15610675576001600160a01b0382166000908152600360205260408120805460ff19166001179055600280549161066c836108e9565b91905055505050565b8015801561069b57506001600160a01b03821660009081526003602052604090205460ff165b156106ce576001600160a01b0382166000908152600360205260408120805460ff19169055600280549161066c836108d2565b5050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b602081526000825180602084015260005b818110156107505760208186018101516040868401015201610733565b506000604082850101526040601f19601f83011684010191505092915050565b6000806020838503121561078357600080fd5b823567ffffffffffffffff81111561079a57600080fd5b8301601f810185136107ab57600080fd5b803567ffffffffffffffff8111156107c257600080fd5b8560208260051b84010111156107d757600080fd5b6020919091019590945092505050565b80356001600160a01b03811681146107fe57600080fd5b919050565b60008060006060848603121561081857600080fd5b610821846107e7565b925061082f602085016107e7565b929592945050506040919091013590565b60006020828403121561085257600080fd5b5035919050565b60006020828403121561086b57600080fd5b6104fb826107e7565b634e487b7160e01b600052603260045260246000fd5b634e487b7160e01b600052601160045260246000fd5b808201808211156108b3576108b361088a565b92915050565b6000602082840312156108cb57600080fd5b5051919050565b6000816108e1576108e161088a565b506000190190565b6000600182016108fb576108fb61088a565b506001019056fea264697066735822122049932c76266e28cbeccc143ca16afa3265cf411c4a2353fc032b5819781a12eb64736f6c634300081a0033";
+
+type MaxHoldersModuleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MaxHoldersModuleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MaxHoldersModule__factory extends ContractFactory {
+  constructor(...args: MaxHoldersModuleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    compliance_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(compliance_, overrides || {});
+  }
+  override deploy(
+    compliance_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(compliance_, overrides || {}) as Promise<
+      MaxHoldersModule & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MaxHoldersModule__factory {
+    return super.connect(runner) as MaxHoldersModule__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MaxHoldersModuleInterface {
+    return new Interface(_abi) as MaxHoldersModuleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MaxHoldersModule {
+    return new Contract(address, _abi, runner) as unknown as MaxHoldersModule;
+  }
+}
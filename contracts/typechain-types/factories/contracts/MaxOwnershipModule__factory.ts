@@ -0,0 +1,297 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  MaxOwnershipModule,
+  MaxOwnershipModuleInterface,
+} from "../../contracts/MaxOwnershipModule";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "compliance_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "maxOwnershipBps",
+        type: "uint256",
+      },
+    ],
+    name: "MaxOwnershipSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "compliance",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxOwnershipBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "moduleAction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "moduleCheck",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "maxOwnershipBps_",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60c060405234801561001057600080fd5b506040516108fe3803806108fe83398101604081905261002f916101af565b80338061005757604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b6100608161015f565b506001600160a01b0381166100dd5760405162461bcd60e51b815260206004820152603360248201527f436f6d706c69616e63654d6f64756c653a20636f6d706c69616e63652063616e60448201527f6e6f74206265207a65726f206164647265737300000000000000000000000000606482015260840161004e565b6001600160a01b038116608081905260408051637e062a3560e11b8152905163fc0c546a916004808201926020929091908290030181865afa158015610127573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061014b91906101af565b6001600160a01b031660a052506101df9050565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6000602082840312156101c157600080fd5b81516001600160a01b03811681146101d857600080fd5b9392505050565b60805160a0516106df61021f600039600081816101ac0152818161025101528181610395015261041101526000818160f401526102c101526106df6000f3fe608060405234801561001057600080fd5b506004361061009e5760003560e01c80638da5cb5b116100665780638da5cb5b14610149578063d9e56e2d1461015a578063eb7cd59d14610171578063f2fde38b14610194578063fc0c546a146101a757600080fd5b806306fdde03146100a357806324bf3c2b146100da5780636290865d146100ef578063715018a61461012e5780637571e53c14610136575b600080fd5b604080518082018252600c81526b04d61784f776e6572736869760a41b602082015290516100d1919061056f565b60405180910390f35b6100ed6100e83660046105bd565b6101ce565b005b6101167f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100d1565b6100ed6102a2565b6100ed6101443660046105f2565b6102b6565b6000546001600160a01b0316610116565b61016360015481565b6040519081526020016100d1565b61018461017f3660046105f2565b61034a565b60405190151581526020016100d1565b6100ed6101a236600461062f565b6104b4565b6101167f000000000000000000000000000000000000000000000000000000000000000081565b6101d66104f2565b61271081111561023c5760405162461bcd60e51b815260206004820152602660248201527f4d61784f776e6572736869704d6f64756c653a206c696d69742065786365656460448201526573203130302560d01b60648201526084015b60405180910390fd5b60018190556040518181526001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016907f2744d758683bbd69aba207fe6b6423c985f7c9fb776727b20a2cb6644d5fbc799060200160405180910390a250565b6102aa6104f2565b6102b4600061051f565b565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146103455760405162461bcd60e51b815260206004820152602e60248201527f436f6d706c69616e63654d6f64756c653a2063616c6c6572206973206e6f742060448201526d74686520636f6d706c69616e636560901b6064820152608401610233565b505050565b60006001546000148061036457506001600160a01b038316155b15610371575060016104ad565b6040516370a0823160e01b81526001600160a01b03848116600483015260009184917f000000000000000000000000000000000000000000000000000000000000000016906370a0823190602401602060405180830381865afa1580156103dc573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610400919061064a565b61040a9190610679565b90506001547f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03166326d8ffaf6040518163ffffffff1660e01b8152600401602060405180830381865afa15801561046d573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610491919061064a565b61049b9190610692565b6104a761271083610692565b11159150505b9392505050565b6104bc6104f2565b6001600160a01b0381166104e657604051631e4fbdf760e01b815260006004820152602401610233565b6104ef8161051f565b50565b6000546001600160a01b031633146102b45760405163118cdaa760e01b8152336004820152602401610233565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b602081526000825180602084015260005b8181101561059d5760208186018101516040868401015201610580565b506000604082850101526040601f19601f83011684010191505092915050565b6000602082840312156105cf57600080fd5b5035919050565b80356001600160a01b03811681146105ed57600080fd5b919050565b60008060006060848603121561060757600080fd5b610610846105d6565b925061061e602085016105d6565b929592945050506040919091013590565b60006020828403121561064157600080fd5b6104ad826105d6565b60006020828403121561065c57600080fd5b5051919050565b634e487b7160e01b600052601160045260246000fd5b8082018082111561068c5761068c610663565b92915050565b808202811582820484141761068c5761068c61066356fea26469706673582212203bbd343c575a7de79e0e63245857e5c067cc603da6ab9ef4ca39d496cb07820d64736f6c634300081a0033";
+
+type MaxOwnershipModuleConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MaxOwnershipModuleConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MaxOwnershipModule__factory extends ContractFactory {
+  constructor(...args: MaxOwnershipModuleConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    compliance_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(compliance_, overrides || {});
+  }
+  override deploy(
+    compliance_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(compliance_, overrides || {}) as Promise<
+      MaxOwnershipModule & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MaxOwnershipModule__factory {
+    return super.connect(runner) as MaxOwnershipModule__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MaxOwnershipModuleInterface {
+    return new Interface(_abi) as MaxOwnershipModuleInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MaxOwnershipModule {
+    return new Contract(address, _abi, runner) as unknown as MaxOwnershipModule;
+  }
+}
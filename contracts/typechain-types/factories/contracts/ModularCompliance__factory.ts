@@ -0,0 +1,341 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ModularCompliance,
+  ModularComplianceInterface,
+} from "../../contracts/ModularCompliance";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "token_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "OwnableInvalidOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "OwnableUnauthorizedAccount",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "module",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "moduleName",
+        type: "string",
+      },
+    ],
+    name: "ModuleAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "module",
+        type: "address",
+      },
+    ],
+    name: "ModuleRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_MODULES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "module",
+        type: "address",
+      },
+    ],
+    name: "addModule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "canTransfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getModules",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isModule",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "module",
+        type: "address",
+      },
+    ],
+    name: "removeModule",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "token",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "transferred",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234801561001057600080fd5b50604051610dfc380380610dfc83398101604081905261002f9161012f565b338061005657604051631e4fbdf760e01b8152600060048201526024015b60405180910390fd5b61005f816100df565b506001600160a01b0381166100ce5760405162461bcd60e51b815260206004820152602f60248201527f4d6f64756c6172436f6d706c69616e63653a20746f6b656e2063616e6e6f742060448201526e6265207a65726f206164647265737360881b606482015260840161004d565b6001600160a01b031660805261015f565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b60006020828403121561014157600080fd5b81516001600160a01b038116811461015857600080fd5b9392505050565b608051610c6d61018f600039600081816101a4015281816103ff015281816104cb01526107950152610c6d6000f3fe608060405234801561001057600080fd5b50600436106100a95760003560e01c80638da5cb5b116100715780638da5cb5b1461012c578063a063246114610151578063b2494df314610164578063e46638e614610179578063f2fde38b1461018c578063fc0c546a1461019f57600080fd5b80631ed86f19146100ae57806342f6e389146100c35780635f1e8c1b146100fb578063715018a6146101115780638baf29b414610119575b600080fd5b6100c16100bc3660046109d9565b6101c6565b005b6100e66100d13660046109d9565b60026020526000908152604090205460ff1681565b60405190151581526020015b60405180910390f35b610103600a81565b6040519081526020016100f2565b6100c16104ac565b6100c16101273660046109f6565b6104c0565b6000546001600160a01b03165b6040516001600160a01b0390911681526020016100f2565b6100c161015f3660046109d9565b6105f4565b61016c6107dd565b6040516100f29190610a37565b6100e66101873660046109f6565b61083f565b6100c161019a3660046109d9565b610909565b6101397f000000000000000000000000000000000000000000000000000000000000000081565b6101ce610947565b6001600160a01b03811660009081526002602052604090205460ff161561024c5760405162461bcd60e51b815260206004820152602760248201527f4d6f64756c6172436f6d706c69616e63653a206d6f64756c6520616c726561646044820152661e48185919195960ca1b60648201526084015b60405180910390fd5b600154600a116102aa5760405162461bcd60e51b815260206004820152602360248201527f4d6f64756c6172436f6d706c69616e63653a20746f6f206d616e79206d6f64756044820152626c657360e81b6064820152608401610243565b306001600160a01b0316816001600160a01b0316636290865d6040518163ffffffff1660e01b8152600401602060405180830381865afa1580156102f2573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906103169190610a83565b6001600160a01b03161461038a5760405162461bcd60e51b815260206004820152603560248201527f4d6f64756c6172436f6d706c69616e63653a206d6f64756c6520626f756e6420604482015274746f20616e6f7468657220636f6d706c69616e636560581b6064820152608401610243565b6001805480820182557fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf60180546001600160a01b0319166001600160a01b03848116918217909255600081815260026020526040808220805460ff191690951790945583516306fdde0360e01b8152935191937f0000000000000000000000000000000000000000000000000000000000000000909316927fec0980ea76921913bd124f0fb109edd2a453d23edba8a865585e5b16901a3fb29285926306fdde0392600480820193918290030181865afa15801561046c573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f191682016040526104949190810190610ada565b6040516104a19190610b8f565b60405180910390a350565b6104b4610947565b6104be6000610974565b565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461054b5760405162461bcd60e51b815260206004820152602a60248201527f4d6f64756c6172436f6d706c69616e63653a2063616c6c6572206973206e6f74604482015269103a3432903a37b5b2b760b11b6064820152608401610243565b60005b6001548110156105ee576001818154811061056b5761056b610bc2565b600091825260209091200154604051631d5c794f60e21b81526001600160a01b03868116600483015285811660248301526044820185905290911690637571e53c90606401600060405180830381600087803b1580156105ca57600080fd5b505af11580156105de573d6000803e3d6000fd5b50506001909201915061054e9050565b50505050565b6105fc610947565b6001600160a01b03811660009081526002602052604090205460ff166106705760405162461bcd60e51b815260206004820152602360248201527f4d6f64756c6172436f6d706c69616e63653a206d6f64756c65206e6f7420616460448201526219195960ea1b6064820152608401610243565b60005b60015481101561076d57816001600160a01b03166001828154811061069a5761069a610bc2565b6000918252602090912001546001600160a01b03160361076557600180546106c3908290610bd8565b815481106106d3576106d3610bc2565b600091825260209091200154600180546001600160a01b0390921691839081106106ff576106ff610bc2565b9060005260206000200160006101000a8154816001600160a01b0302191690836001600160a01b03160217905550600180548061073e5761073e610bff565b600082815260209020810160001990810180546001600160a01b031916905501905561076d565b600101610673565b506001600160a01b03808216600081815260026020526040808220805460ff191690555191927f000000000000000000000000000000000000000000000000000000000000000016917fd66772358582078947c11fa70e2860b3ffa915277e6181a4aa293072cb57ed3c9190a350565b6060600180548060200260200160405190810160405280929190818152602001828054801561083557602002820191906000526020600020905b81546001600160a01b03168152600190910190602001808311610817575b5050505050905090565b6000805b6001548110156108fc576001818154811061086057610860610bc2565b60009182526020909120015460405163eb7cd59d60e01b81526001600160a01b0387811660048301528681166024830152604482018690529091169063eb7cd59d90606401602060405180830381865afa1580156108c2573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906108e69190610c15565b6108f4576000915050610902565b600101610843565b50600190505b9392505050565b610911610947565b6001600160a01b03811661093b57604051631e4fbdf760e01b815260006004820152602401610243565b61094481610974565b50565b6000546001600160a01b031633146104be5760405163118cdaa760e01b8152336004820152602401610243565b600080546001600160a01b038381166001600160a01b0319831681178455604051919092169283917f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e09190a35050565b6001600160a01b038116811461094457600080fd5b6000602082840312156109eb57600080fd5b8135610902816109c4565b600080600060608486031215610a0b57600080fd5b8335610a16816109c4565b92506020840135610a26816109c4565b929592945050506040919091013590565b602080825282518282018190526000918401906040840190835b81811015610a785783516001600160a01b0316835260209384019390920191600101610a51565b509095945050505050565b600060208284031215610a9557600080fd5b8151610902816109c4565b634e487b7160e01b600052604160045260246000fd5b60005b83811015610ad1578181015183820152602001610ab9565b50506000910152565b600060208284031215610aec57600080fd5b815167ffffffffffffffff811115610b0357600080fd5b8201601f81018413610b1457600080fd5b805167ffffffffffffffff811115610b2e57610b2e610aa0565b604051601f8201601f19908116603f0116810167ffffffffffffffff81118282101715610b5d57610b5d610aa0565b604052818152828201602001861015610b7557600080fd5b610b86826020830160208601610ab6565b95945050505050565b6020815260008251806020840152610bae816040850160208701610ab6565b601f01601f19169190910160400192915050565b634e487b7160e01b600052603260045260246000fd5b81810381811115610bf957634e487b7160e01b600052601160045260246000fd5b92915050565b634e487b7160e01b600052603160045260246000fd5b600060208284031215610c2757600080fd5b8151801515811461090257600080fdfea26469706673582212208e549346e0e6ee552488740e3432abc50403879fab1ef097430526ab0be64e2164736f6c634300081a0033";
+
+type ModularComplianceConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ModularComplianceConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ModularCompliance__factory extends ContractFactory {
+  constructor(...args: ModularComplianceConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    token_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(token_, overrides || {});
+  }
+  override deploy(
+    token_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(token_, overrides || {}) as Promise<
+      ModularCompliance & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): ModularCompliance__factory {
+    return super.connect(runner) as ModularCompliance__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ModularComplianceInterface {
+    return new Interface(_abi) as ModularComplianceInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ModularCompliance {
+    return new Contract(address, _abi, runner) as unknown as ModularCompliance;
+  }
+}
@@ -2,6 +2,18 @@
 /* tslint:disable */
 /* eslint-disable */
 export * as iRolesSol from "./IRoles.sol";
+export { AccreditedInvestorModule__factory } from "./AccreditedInvestorModule__factory";
 export { CapTable__factory } from "./CapTable__factory";
+export { CapTableFactory__factory } from "./CapTableFactory__factory";
 export { ChainEquityToken__factory } from "./ChainEquityToken__factory";
+export { ChainEquityTokenDeployer__factory } from "./ChainEquityTokenDeployer__factory";
+export { ComplianceModule__factory } from "./ComplianceModule__factory";
+export { CountryRestrictionModule__factory } from "./CountryRestrictionModule__factory";
+export { ICompliance__factory } from "./ICompliance__factory";
+export { IComplianceModule__factory } from "./IComplianceModule__factory";
+export { IERC1404__factory } from "./IERC1404__factory";
 export { ITokenReplacement__factory } from "./ITokenReplacement__factory";
+export { IssuerRoles__factory } from "./IssuerRoles__factory";
+export { MaxHoldersModule__factory } from "./MaxHoldersModule__factory";
+export { MaxOwnershipModule__factory } from "./MaxOwnershipModule__factory";
+export { ModularCompliance__factory } from "./ModularCompliance__factory";
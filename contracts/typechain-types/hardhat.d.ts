@@ -13,6 +13,14 @@ import * as Contracts from ".";
 
 declare module "hardhat/types/runtime" {
   interface HardhatEthersHelpers extends HardhatEthersHelpersBase {
+    getContractFactory(
+      name: "AccessControl",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.AccessControl__factory>;
+    getContractFactory(
+      name: "IAccessControl",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IAccessControl__factory>;
     getContractFactory(
       name: "Ownable",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -41,23 +49,97 @@ declare module "hardhat/types/runtime" {
       name: "IERC20",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IERC20__factory>;
+    getContractFactory(
+      name: "MerkleProof",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MerkleProof__factory>;
+    getContractFactory(
+      name: "ERC165",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ERC165__factory>;
+    getContractFactory(
+      name: "IERC165",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IERC165__factory>;
+    getContractFactory(
+      name: "Pausable",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.Pausable__factory>;
+    getContractFactory(
+      name: "AccreditedInvestorModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.AccreditedInvestorModule__factory>;
     getContractFactory(
       name: "CapTable",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.CapTable__factory>;
+    getContractFactory(
+      name: "CapTableFactory",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.CapTableFactory__factory>;
     getContractFactory(
       name: "ChainEquityToken",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.ChainEquityToken__factory>;
+    getContractFactory(
+      name: "ChainEquityTokenDeployer",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ChainEquityTokenDeployer__factory>;
+    getContractFactory(
+      name: "ComplianceModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ComplianceModule__factory>;
+    getContractFactory(
+      name: "CountryRestrictionModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.CountryRestrictionModule__factory>;
+    getContractFactory(
+      name: "ICompliance",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ICompliance__factory>;
+    getContractFactory(
+      name: "IComplianceModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IComplianceModule__factory>;
+    getContractFactory(
+      name: "IERC1404",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IERC1404__factory>;
     getContractFactory(
       name: "Roles",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.Roles__factory>;
+    getContractFactory(
+      name: "IssuerRoles",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.IssuerRoles__factory>;
     getContractFactory(
       name: "ITokenReplacement",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.ITokenReplacement__factory>;
+    getContractFactory(
+      name: "MaxHoldersModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MaxHoldersModule__factory>;
+    getContractFactory(
+      name: "MaxOwnershipModule",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.MaxOwnershipModule__factory>;
+    getContractFactory(
+      name: "ModularCompliance",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.ModularCompliance__factory>;
 
+    getContractAt(
+      name: "AccessControl",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.AccessControl>;
+    getContractAt(
+      name: "IAccessControl",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IAccessControl>;
     getContractAt(
       name: "Ownable",
       address: string | ethers.Addressable,
@@ -93,27 +175,115 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.IERC20>;
+    getContractAt(
+      name: "MerkleProof",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MerkleProof>;
+    getContractAt(
+      name: "ERC165",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ERC165>;
+    getContractAt(
+      name: "IERC165",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IERC165>;
+    getContractAt(
+      name: "Pausable",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.Pausable>;
+    getContractAt(
+      name: "AccreditedInvestorModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.AccreditedInvestorModule>;
     getContractAt(
       name: "CapTable",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.CapTable>;
+    getContractAt(
+      name: "CapTableFactory",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.CapTableFactory>;
     getContractAt(
       name: "ChainEquityToken",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.ChainEquityToken>;
+    getContractAt(
+      name: "ChainEquityTokenDeployer",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ChainEquityTokenDeployer>;
+    getContractAt(
+      name: "ComplianceModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ComplianceModule>;
+    getContractAt(
+      name: "CountryRestrictionModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.CountryRestrictionModule>;
+    getContractAt(
+      name: "ICompliance",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ICompliance>;
+    getContractAt(
+      name: "IComplianceModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IComplianceModule>;
+    getContractAt(
+      name: "IERC1404",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IERC1404>;
     getContractAt(
       name: "Roles",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.Roles>;
+    getContractAt(
+      name: "IssuerRoles",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.IssuerRoles>;
     getContractAt(
       name: "ITokenReplacement",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.ITokenReplacement>;
+    getContractAt(
+      name: "MaxHoldersModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MaxHoldersModule>;
+    getContractAt(
+      name: "MaxOwnershipModule",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.MaxOwnershipModule>;
+    getContractAt(
+      name: "ModularCompliance",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.ModularCompliance>;
 
+    deployContract(
+      name: "AccessControl",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AccessControl>;
+    deployContract(
+      name: "IAccessControl",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IAccessControl>;
     deployContract(
       name: "Ownable",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -142,23 +312,97 @@ declare module "hardhat/types/runtime" {
       name: "IERC20",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IERC20>;
+    deployContract(
+      name: "MerkleProof",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MerkleProof>;
+    deployContract(
+      name: "ERC165",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ERC165>;
+    deployContract(
+      name: "IERC165",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC165>;
+    deployContract(
+      name: "Pausable",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Pausable>;
+    deployContract(
+      name: "AccreditedInvestorModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AccreditedInvestorModule>;
     deployContract(
       name: "CapTable",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.CapTable>;
+    deployContract(
+      name: "CapTableFactory",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CapTableFactory>;
     deployContract(
       name: "ChainEquityToken",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.ChainEquityToken>;
+    deployContract(
+      name: "ChainEquityTokenDeployer",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ChainEquityTokenDeployer>;
+    deployContract(
+      name: "ComplianceModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ComplianceModule>;
+    deployContract(
+      name: "CountryRestrictionModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CountryRestrictionModule>;
+    deployContract(
+      name: "ICompliance",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ICompliance>;
+    deployContract(
+      name: "IComplianceModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IComplianceModule>;
+    deployContract(
+      name: "IERC1404",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC1404>;
     deployContract(
       name: "Roles",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.Roles>;
+    deployContract(
+      name: "IssuerRoles",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IssuerRoles>;
     deployContract(
       name: "ITokenReplacement",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.ITokenReplacement>;
+    deployContract(
+      name: "MaxHoldersModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MaxHoldersModule>;
+    deployContract(
+      name: "MaxOwnershipModule",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MaxOwnershipModule>;
+    deployContract(
+      name: "ModularCompliance",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ModularCompliance>;
 
+    deployContract(
+      name: "AccessControl",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AccessControl>;
+    deployContract(
+      name: "IAccessControl",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IAccessControl>;
     deployContract(
       name: "Ownable",
       args: any[],
@@ -194,26 +438,106 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IERC20>;
+    deployContract(
+      name: "MerkleProof",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MerkleProof>;
+    deployContract(
+      name: "ERC165",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ERC165>;
+    deployContract(
+      name: "IERC165",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC165>;
+    deployContract(
+      name: "Pausable",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Pausable>;
+    deployContract(
+      name: "AccreditedInvestorModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.AccreditedInvestorModule>;
     deployContract(
       name: "CapTable",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.CapTable>;
+    deployContract(
+      name: "CapTableFactory",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CapTableFactory>;
     deployContract(
       name: "ChainEquityToken",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.ChainEquityToken>;
+    deployContract(
+      name: "ChainEquityTokenDeployer",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ChainEquityTokenDeployer>;
+    deployContract(
+      name: "ComplianceModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ComplianceModule>;
+    deployContract(
+      name: "CountryRestrictionModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.CountryRestrictionModule>;
+    deployContract(
+      name: "ICompliance",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ICompliance>;
+    deployContract(
+      name: "IComplianceModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IComplianceModule>;
+    deployContract(
+      name: "IERC1404",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IERC1404>;
     deployContract(
       name: "Roles",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.Roles>;
+    deployContract(
+      name: "IssuerRoles",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.IssuerRoles>;
     deployContract(
       name: "ITokenReplacement",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.ITokenReplacement>;
+    deployContract(
+      name: "MaxHoldersModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MaxHoldersModule>;
+    deployContract(
+      name: "MaxOwnershipModule",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.MaxOwnershipModule>;
+    deployContract(
+      name: "ModularCompliance",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.ModularCompliance>;
 
     // default types
     getContractFactory(
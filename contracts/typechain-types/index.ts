@@ -6,6 +6,10 @@ export type { openzeppelin };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
+export type { AccessControl } from "./@openzeppelin/contracts/access/AccessControl";
+export { AccessControl__factory } from "./factories/@openzeppelin/contracts/access/AccessControl__factory";
+export type { IAccessControl } from "./@openzeppelin/contracts/access/IAccessControl";
+export { IAccessControl__factory } from "./factories/@openzeppelin/contracts/access/IAccessControl__factory";
 export type { Ownable } from "./@openzeppelin/contracts/access/Ownable";
 export { Ownable__factory } from "./factories/@openzeppelin/contracts/access/Ownable__factory";
 export type { IERC1155Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors";
@@ -20,11 +24,43 @@ export type { IERC20Metadata } from "./@openzeppelin/contracts/token/ERC20/exten
 export { IERC20Metadata__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata__factory";
 export type { IERC20 } from "./@openzeppelin/contracts/token/ERC20/IERC20";
 export { IERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/IERC20__factory";
+export type { MerkleProof } from "./@openzeppelin/contracts/utils/cryptography/MerkleProof";
+export { MerkleProof__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/MerkleProof__factory";
+export type { ERC165 } from "./@openzeppelin/contracts/utils/introspection/ERC165";
+export { ERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/ERC165__factory";
+export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
+export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
+export type { Pausable } from "./@openzeppelin/contracts/utils/Pausable";
+export { Pausable__factory } from "./factories/@openzeppelin/contracts/utils/Pausable__factory";
+export type { AccreditedInvestorModule } from "./contracts/AccreditedInvestorModule";
+export { AccreditedInvestorModule__factory } from "./factories/contracts/AccreditedInvestorModule__factory";
 export type { CapTable } from "./contracts/CapTable";
 export { CapTable__factory } from "./factories/contracts/CapTable__factory";
+export type { CapTableFactory } from "./contracts/CapTableFactory";
+export { CapTableFactory__factory } from "./factories/contracts/CapTableFactory__factory";
 export type { ChainEquityToken } from "./contracts/ChainEquityToken";
 export { ChainEquityToken__factory } from "./factories/contracts/ChainEquityToken__factory";
+export type { ChainEquityTokenDeployer } from "./contracts/ChainEquityTokenDeployer";
+export { ChainEquityTokenDeployer__factory } from "./factories/contracts/ChainEquityTokenDeployer__factory";
+export type { ComplianceModule } from "./contracts/ComplianceModule";
+export { ComplianceModule__factory } from "./factories/contracts/ComplianceModule__factory";
+export type { CountryRestrictionModule } from "./contracts/CountryRestrictionModule";
+export { CountryRestrictionModule__factory } from "./factories/contracts/CountryRestrictionModule__factory";
+export type { ICompliance } from "./contracts/ICompliance";
+export { ICompliance__factory } from "./factories/contracts/ICompliance__factory";
+export type { IComplianceModule } from "./contracts/IComplianceModule";
+export { IComplianceModule__factory } from "./factories/contracts/IComplianceModule__factory";
+export type { IERC1404 } from "./contracts/IERC1404";
+export { IERC1404__factory } from "./factories/contracts/IERC1404__factory";
 export type { Roles } from "./contracts/IRoles.sol/Roles";
 export { Roles__factory } from "./factories/contracts/IRoles.sol/Roles__factory";
+export type { IssuerRoles } from "./contracts/IssuerRoles";
+export { IssuerRoles__factory } from "./factories/contracts/IssuerRoles__factory";
 export type { ITokenReplacement } from "./contracts/ITokenReplacement";
 export { ITokenReplacement__factory } from "./factories/contracts/ITokenReplacement__factory";
+export type { MaxHoldersModule } from "./contracts/MaxHoldersModule";
+export { MaxHoldersModule__factory } from "./factories/contracts/MaxHoldersModule__factory";
+export type { MaxOwnershipModule } from "./contracts/MaxOwnershipModule";
+export { MaxOwnershipModule__factory } from "./factories/contracts/MaxOwnershipModule__factory";
+export type { ModularCompliance } from "./contracts/ModularCompliance";
+export { ModularCompliance__factory } from "./factories/contracts/ModularCompliance__factory";
@@ -11,6 +11,8 @@ import { Dashboard } from './pages/Dashboard';
 import { CapTable } from './pages/CapTable';
 import { Transactions } from './pages/Transactions';
 import { Approvals } from './pages/Approvals';
+import { Compliance } from './pages/Compliance';
+import { BulkIssuance } from './pages/BulkIssuance';
 import { Admin } from './pages/Admin';
 import { Investor } from './pages/Investor';
 import { WalletRequired } from './pages/WalletRequired';
@@ -110,15 +112,33 @@ function App() {
           </ProtectedRoute>
         }
       />
-      {/* Approvals route - wallet approval dashboard for issuer/admin */}
+      {/* Approvals route - wallet approval dashboard for issuer/admin or compliance officers */}
       <Route
         path="/approvals"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute requiredCompanyRole="COMPLIANCE_ROLE">
             <Approvals />
           </ProtectedRoute>
         }
       />
+      {/* Compliance route - compliance module settings for issuer/admin or compliance officers */}
+      <Route
+        path="/compliance"
+        element={
+          <ProtectedRoute requiredCompanyRole="COMPLIANCE_ROLE">
+            <Compliance />
+          </ProtectedRoute>
+        }
+      />
+      {/* Bulk Issuance route - CSV share issuance for issuer/admin or minters */}
+      <Route
+        path="/bulk-issuance"
+        element={
+          <ProtectedRoute requiredCompanyRole="MINTER_ROLE">
+            <BulkIssuance />
+          </ProtectedRoute>
+        }
+      />
       {/* API Test route - for testing API client integration */}
       <Route
         path="/api-test"
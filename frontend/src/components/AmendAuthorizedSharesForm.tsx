@@ -0,0 +1,524 @@
+/**
+ * @file Amend Authorized Shares Form Component
+ * @notice Form for issuers to increase or decrease the token's authorized shares
+ * @notice Once the amendment confirms, the form records it on the CapTable as an
+ *         AUTHORIZED_SHARES_CHANGE corporate action (abi.encode(oldAuthorized, newAuthorized))
+ */
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  useWriteContract,
+  useWaitForTransactionReceipt,
+  useReadContract,
+} from 'wagmi';
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { encodeAbiParameters, parseUnits, type Hex } from 'viem';
+import { useNetworkAutoSwitch } from '@/hooks/useNetworkAutoSwitch';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Copy,
+  AlertCircle,
+  Scale,
+} from 'lucide-react';
+import { chainEquityToken } from '@/config/contracts';
+import { useAccount } from 'wagmi';
+import { useCompanyStats } from '@/hooks/useApi';
+import { useRecordCorporateAction } from '@/hooks/useRecordCorporateAction';
+import { formatTokenAmount } from '@/lib/utils';
+
+/**
+ * Form validation schema
+ * Decreases are checked against the indexed headroom (authorized minus outstanding)
+ */
+const createAmendSchema = (headroom: bigint | null) => {
+  return z
+    .object({
+      direction: z.enum(['increase', 'decrease']),
+      amount: z.string().refine(val => {
+        const num = parseFloat(val);
+        return !isNaN(num) && num > 0;
+      }, 'Amount must be a positive number'),
+    })
+    .refine(
+      ({ direction, amount }) => {
+        if (direction === 'increase' || headroom === null) return true;
+        try {
+          return parseUnits(amount, 18) <= headroom;
+        } catch {
+          return false;
+        }
+      },
+      {
+        message: 'Authorized shares cannot go below the outstanding supply',
+        path: ['amount'],
+      },
+    );
+};
+
+type AmendFormValues = z.infer<ReturnType<typeof createAmendSchema>>;
+
+/**
+ * AmendAuthorizedSharesForm component props
+ */
+interface AmendAuthorizedSharesFormProps {
+  tokenAddress: string;
+  onSuccess?: () => void;
+}
+
+/**
+ * AmendAuthorizedSharesForm component
+ * Allows issuers to apply a shareholder-approved amendment to the authorized shares
+ */
+export function AmendAuthorizedSharesForm({
+  tokenAddress,
+  onSuccess,
+}: AmendAuthorizedSharesFormProps) {
+  const { isConnected } = useAccount();
+  const { isCorrectNetwork, isSwitching, switchError } = useNetworkAutoSwitch();
+  const queryClient = useQueryClient();
+  const [copiedHash, setCopiedHash] = useState(false);
+  const { data: stats } = useCompanyStats();
+  const recordAction = useRecordCorporateAction();
+
+  // Authorized shares before the submitted amendment, and the encoded
+  // AUTHORIZED_SHARES_CHANGE data until the cap table has recorded it
+  const amendedFrom = useRef<bigint | null>(null);
+  const [pendingRecord, setPendingRecord] = useState<Hex | null>(null);
+
+  // Read current authorized shares
+  const { data: currentAuthorized, refetch: refetchAuthorized } =
+    useReadContract({
+      address: tokenAddress as `0x${string}`,
+      abi: chainEquityToken.abi,
+      functionName: 'totalAuthorized',
+      query: {
+        enabled: !!tokenAddress && isConnected,
+      },
+    });
+
+  const headroom = useMemo(
+    () =>
+      stats?.totalAuthorized && stats?.totalOutstanding
+        ? BigInt(stats.totalAuthorized) - BigInt(stats.totalOutstanding)
+        : null,
+    [stats?.totalAuthorized, stats?.totalOutstanding],
+  );
+  const amendSchema = useMemo(() => createAmendSchema(headroom), [headroom]);
+
+  const form = useForm<AmendFormValues>({
+    resolver: zodResolver(amendSchema),
+    defaultValues: {
+      direction: 'increase',
+      amount: '',
+    },
+  });
+
+  const {
+    data: txHash,
+    writeContract,
+    isPending,
+    error: writeError,
+    reset: resetWrite,
+  } = useWriteContract();
+
+  const {
+    isLoading: confirming,
+    isSuccess,
+    error: receiptError,
+  } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  const { record } = recordAction;
+
+  // Invalidate queries on success and record the amendment on the cap table
+  useEffect(() => {
+    if (isSuccess && txHash) {
+      queryClient.invalidateQueries({ queryKey: ['company', 'stats'] });
+      queryClient.invalidateQueries({
+        queryKey: ['company', 'authorized-shares'],
+      });
+      refetchAuthorized().then(({ data: newAuthorized }) => {
+        const oldAuthorized = amendedFrom.current;
+        if (oldAuthorized === null || typeof newAuthorized !== 'bigint') {
+          return;
+        }
+        amendedFrom.current = null;
+
+        // The CapTable requires newAuthorized to equal token.totalAuthorized()
+        const data = encodeAbiParameters(
+          [{ type: 'uint256' }, { type: 'uint256' }],
+          [oldAuthorized, newAuthorized],
+        );
+        setPendingRecord(data);
+        record('AUTHORIZED_SHARES_CHANGE', data);
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    }
+  }, [isSuccess, txHash, queryClient, refetchAuthorized, record, onSuccess]);
+
+  // Clear the pending record once the corporate action confirms
+  const { isSuccess: recorded, reset: resetRecord } = recordAction;
+  useEffect(() => {
+    if (recorded) {
+      setPendingRecord(null);
+      queryClient.invalidateQueries({ queryKey: ['company'] });
+      setTimeout(() => {
+        resetRecord();
+      }, 3000);
+    }
+  }, [recorded, queryClient, resetRecord]);
+
+  // Reset form on success
+  useEffect(() => {
+    if (isSuccess) {
+      form.reset();
+      setTimeout(() => {
+        resetWrite();
+      }, 3000);
+    }
+  }, [isSuccess, form, resetWrite]);
+
+  const onSubmit = async (data: AmendFormValues) => {
+    if (typeof currentAuthorized !== 'bigint') return;
+    try {
+      amendedFrom.current = currentAuthorized;
+      writeContract({
+        address: tokenAddress as `0x${string}`,
+        abi: chainEquityToken.abi,
+        functionName:
+          data.direction === 'increase'
+            ? 'increaseAuthorizedShares'
+            : 'decreaseAuthorizedShares',
+        args: [parseUnits(data.amount, 18)],
+      });
+    } catch (err) {
+      console.error('Failed to write contract:', err);
+    }
+  };
+
+  const handleCopyHash = async () => {
+    if (!txHash) return;
+    try {
+      await navigator.clipboard.writeText(txHash);
+      setCopiedHash(true);
+      setTimeout(() => setCopiedHash(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy transaction hash:', err);
+    }
+  };
+
+  /**
+   * Recursively extract error messages from nested error structures
+   */
+  const extractErrorMessages = (
+    error: unknown,
+    visited = new Set(),
+  ): string[] => {
+    if (!error || visited.has(error)) return [];
+    visited.add(error);
+
+    const messages: string[] = [];
+    if (error instanceof Error) {
+      if (error.message) messages.push(error.message);
+      if (error.cause) {
+        messages.push(...extractErrorMessages(error.cause, visited));
+      }
+    }
+
+    if (typeof error === 'object' && error !== null) {
+      const err = error as Record<string, unknown>;
+      if (err.message) {
+        messages.push(...extractErrorMessages(err.message, visited));
+      }
+      if (err.data) {
+        messages.push(...extractErrorMessages(err.data, visited));
+      }
+      if (err.cause) {
+        messages.push(...extractErrorMessages(err.cause, visited));
+      }
+    }
+
+    return messages;
+  };
+
+  const errorMessages = writeError
+    ? extractErrorMessages(writeError)
+    : receiptError
+      ? extractErrorMessages(receiptError)
+      : switchError
+        ? extractErrorMessages(switchError)
+        : [];
+
+  const displayError = errorMessages[0] || null;
+  const isRecording = recordAction.isPending || recordAction.confirming;
+  const isProcessing = isPending || confirming || isSwitching || isRecording;
+
+  if (!isConnected) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Amend Authorized Shares
+          </CardTitle>
+          <CardDescription>
+            Increase or decrease the authorized shares
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Please connect your wallet to amend the authorized shares.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!isCorrectNetwork && !isSwitching) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Scale className="h-5 w-5" />
+            Amend Authorized Shares
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2 p-3 bg-yellow-50 dark:bg-yellow-950/20 border border-yellow-200 dark:border-yellow-900 rounded-lg">
+            <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+            <p className="text-sm text-yellow-900 dark:text-yellow-100">
+              Please switch to the localnet network to amend the authorized
+              shares.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          Amend Authorized Shares
+        </CardTitle>
+        <CardDescription>
+          Apply a shareholder-approved charter amendment to the maximum number
+          of shares that can be issued. Once it confirms, the amendment is
+          recorded on the cap table as an AUTHORIZED_SHARES_CHANGE corporate
+          action (a second wallet confirmation).
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {typeof currentAuthorized === 'bigint' && (
+          <div className="mb-4 p-3 bg-muted rounded-lg">
+            <p className="text-sm font-medium mb-1">Current Authorized</p>
+            <p className="text-2xl font-bold">
+              {formatTokenAmount(currentAuthorized, 18, { compact: false })}
+            </p>
+            {stats?.totalOutstanding && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Outstanding:{' '}
+                {formatTokenAmount(stats.totalOutstanding, 18, {
+                  compact: false,
+                })}
+              </p>
+            )}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="direction"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amendment</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                    disabled={isProcessing}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="increase">Increase</SelectItem>
+                      <SelectItem value="decrease">Decrease</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Shares</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      placeholder="1000000"
+                      disabled={isProcessing}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Number of shares to add to or remove from the authorized
+                    total. A decrease cannot take the total below the
+                    outstanding supply.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {displayError && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+                <div className="flex items-start gap-2">
+                  <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+                  <div className="flex-1">
+                    <p className="text-sm text-destructive font-medium">
+                      Transaction Failed
+                    </p>
+                    <p className="text-xs text-destructive/80 mt-1">
+                      {displayError}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isSuccess && txHash && (
+              <div className="p-3 bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-900 rounded-md">
+                <div className="flex items-start gap-2">
+                  <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+                  <div className="flex-1">
+                    <p className="text-sm text-green-900 dark:text-green-100 font-medium">
+                      Authorized Shares Amended Successfully
+                    </p>
+                    <div className="flex items-center gap-2 mt-2">
+                      <code className="text-xs bg-background px-2 py-1 rounded">
+                        {txHash.slice(0, 10)}...{txHash.slice(-8)}
+                      </code>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleCopyHash}
+                        className="h-6 px-2"
+                      >
+                        {copiedHash ? (
+                          <CheckCircle2 className="h-3 w-3" />
+                        ) : (
+                          <Copy className="h-3 w-3" />
+                        )}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {(pendingRecord || recordAction.isSuccess) && (
+              <div className="p-3 bg-muted rounded-md">
+                <div className="flex items-start gap-2">
+                  {recordAction.isSuccess ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+                  ) : isRecording ? (
+                    <Loader2 className="h-4 w-4 animate-spin mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
+                  )}
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">
+                      {recordAction.isSuccess
+                        ? 'Corporate Action Recorded'
+                        : isRecording
+                          ? 'Recording AUTHORIZED_SHARES_CHANGE on the cap table...'
+                          : 'Amendment not yet recorded on the cap table'}
+                    </p>
+                    {recordAction.error && (
+                      <p className="text-xs text-destructive/80 mt-1">
+                        {extractErrorMessages(recordAction.error)[0]}
+                      </p>
+                    )}
+                    {pendingRecord && !isRecording && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() =>
+                          record('AUTHORIZED_SHARES_CHANGE', pendingRecord)
+                        }
+                      >
+                        Record Corporate Action
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isProcessing}>
+              {isProcessing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {isPending || recordAction.isPending
+                    ? 'Confirm in wallet...'
+                    : confirming || recordAction.confirming
+                      ? 'Confirming...'
+                      : 'Switching network...'}
+                </>
+              ) : (
+                'Amend Authorized Shares'
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
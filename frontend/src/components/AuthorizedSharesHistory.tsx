@@ -0,0 +1,179 @@
+/**
+ * @file Authorized Shares History Component
+ * @notice Authorized vs outstanding shares at deployment, at each charter amendment and today
+ */
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { useAuthorizedSharesHistory } from '@/hooks/useApi';
+import { formatTokenAmount } from '@/lib/utils';
+
+/**
+ * One bar of the chart
+ */
+interface HistoryRow {
+  key: string;
+  label: string;
+  date: string | null;
+  authorized: string;
+  outstanding: string;
+}
+
+/**
+ * Format a unix timestamp (seconds) as a date
+ */
+function formatTimestamp(seconds: number): string {
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' }).format(
+    new Date(seconds * 1000),
+  );
+}
+
+/**
+ * Percentage (0 to 100) of total an amount represents
+ */
+function toPercent(amount: string, total: string): number {
+  if (BigInt(total) === 0n) return 0;
+  return Number((BigInt(amount) * 10000n) / BigInt(total)) / 100;
+}
+
+/**
+ * AuthorizedSharesHistory component
+ * Charts the indexed authorized shares history of the selected company's token, ending with the
+ * current totals from the company stats
+ */
+export function AuthorizedSharesHistory({
+  totalAuthorized,
+  totalOutstanding,
+  decimals,
+}: {
+  totalAuthorized: string;
+  totalOutstanding: string;
+  decimals: number;
+}) {
+  const { data, isLoading, isError, error } = useAuthorizedSharesHistory();
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="py-6">
+          <p className="text-sm text-destructive">
+            {error?.message || 'Could not load the authorized shares history'}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const rows: HistoryRow[] = [
+    ...data.history.map(entry => ({
+      key: `${entry.blockNumber}-${entry.txHash}`,
+      label:
+        entry.oldAuthorized === null
+          ? 'Deployed'
+          : BigInt(entry.newAuthorized) > BigInt(entry.oldAuthorized)
+            ? 'Increased'
+            : 'Decreased',
+      date:
+        entry.blockTimestamp !== null
+          ? formatTimestamp(entry.blockTimestamp)
+          : `Block ${entry.blockNumber}`,
+      authorized: entry.newAuthorized,
+      outstanding: entry.outstanding,
+    })),
+    {
+      key: 'current',
+      label: 'Today',
+      date: null,
+      authorized: totalAuthorized,
+      outstanding: totalOutstanding,
+    },
+  ];
+
+  // Bars share one scale so amendments show up as longer or shorter bars
+  const scale = rows.reduce(
+    (max, row) => (BigInt(row.authorized) > BigInt(max) ? row.authorized : max),
+    '0',
+  );
+  const amendments = data.history.filter(
+    entry => entry.oldAuthorized !== null,
+  ).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Authorized vs Outstanding</CardTitle>
+        <CardDescription>
+          {amendments === 0
+            ? 'Authorized shares have not been amended since the token was deployed.'
+            : `Authorized shares were amended ${amendments} time${amendments === 1 ? '' : 's'} by shareholder-approved charter amendments.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-3 rounded-sm bg-primary" />
+            Outstanding
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block h-2 w-3 rounded-sm bg-primary/20" />
+            Authorized headroom
+          </span>
+        </div>
+
+        {rows.map(row => (
+          <div key={row.key} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2">
+                <Badge variant={row.date === null ? 'default' : 'secondary'}>
+                  {row.label}
+                </Badge>
+                {row.date && (
+                  <span className="text-muted-foreground">{row.date}</span>
+                )}
+              </span>
+              <span className="font-mono text-xs">
+                {formatTokenAmount(row.outstanding, decimals)} /{' '}
+                {formatTokenAmount(row.authorized, decimals)} (
+                {toPercent(row.outstanding, row.authorized).toFixed(1)}%)
+              </span>
+            </div>
+            <div
+              className="h-3 w-full rounded-sm bg-muted"
+              role="img"
+              aria-label={`${row.label}: ${toPercent(row.outstanding, row.authorized).toFixed(1)}% of authorized shares outstanding`}
+            >
+              <div
+                className="h-full rounded-sm bg-primary/20"
+                style={{ width: `${toPercent(row.authorized, scale)}%` }}
+              >
+                <div
+                  className="h-full rounded-sm bg-primary"
+                  style={{
+                    width: `${toPercent(row.outstanding, row.authorized)}%`,
+                  }}
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
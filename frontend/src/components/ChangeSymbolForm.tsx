@@ -1,6 +1,8 @@
 /**
  * @file Change Symbol Form Component
  * @notice Form for admins/issuers to change the token symbol
+ * @notice Once the change confirms, the form records a SYMBOL_CHANGE corporate action
+ *         (abi.encode(newSymbol)) so the CapTable symbol follows the token
  */
 
 import { useForm } from 'react-hook-form';
@@ -12,7 +14,8 @@ import {
   useReadContract,
 } from 'wagmi';
 import { useQueryClient } from '@tanstack/react-query';
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { encodeAbiParameters, type Hex } from 'viem';
 import { useNetworkAutoSwitch } from '@/hooks/useNetworkAutoSwitch';
 import {
   Card,
@@ -42,6 +45,8 @@ import {
 } from 'lucide-react';
 import { chainEquityToken } from '@/config/contracts';
 import { useAccount } from 'wagmi';
+import { useCompany } from '@/hooks/useApi';
+import { useRecordCorporateAction } from '@/hooks/useRecordCorporateAction';
 
 /**
  * Form validation schema
@@ -76,9 +81,19 @@ export function ChangeSymbolForm({
   const { isCorrectNetwork, isSwitching, switchError } = useNetworkAutoSwitch();
   const queryClient = useQueryClient();
   const [copiedHash, setCopiedHash] = useState(false);
+  const { data: company } = useCompany();
+  const previousSymbols = (company?.symbolHistory ?? [])
+    .map(entry => entry.oldSymbol)
+    .filter((symbol): symbol is string => !!symbol);
+  const recordAction = useRecordCorporateAction();
+
+  // Symbol of the submitted change, and the encoded SYMBOL_CHANGE data until
+  // the cap table has recorded it
+  const submittedSymbol = useRef<string | null>(null);
+  const [pendingRecord, setPendingRecord] = useState<Hex | null>(null);
 
   // Read current symbol
-  const { data: currentSymbol } = useReadContract({
+  const { data: currentSymbol, refetch: refetchSymbol } = useReadContract({
     address: tokenAddress as `0x${string}`,
     abi: chainEquityToken.abi,
     functionName: 'symbol',
@@ -110,16 +125,39 @@ export function ChangeSymbolForm({
     hash: txHash,
   });
 
-  // Invalidate queries on success
+  const { record } = recordAction;
+
+  // Invalidate queries on success and record the change on the cap table
   useEffect(() => {
     if (isSuccess && txHash) {
       queryClient.invalidateQueries({ queryKey: ['company', 'stats'] });
       queryClient.invalidateQueries({ queryKey: ['company'] });
+      refetchSymbol();
+
+      const newSymbol = submittedSymbol.current;
+      if (newSymbol) {
+        submittedSymbol.current = null;
+        const data = encodeAbiParameters([{ type: 'string' }], [newSymbol]);
+        setPendingRecord(data);
+        record('SYMBOL_CHANGE', data);
+      }
       if (onSuccess) {
         onSuccess();
       }
     }
-  }, [isSuccess, txHash, queryClient, onSuccess]);
+  }, [isSuccess, txHash, queryClient, refetchSymbol, record, onSuccess]);
+
+  // Clear the pending record once the corporate action confirms
+  const { isSuccess: recorded, reset: resetRecord } = recordAction;
+  useEffect(() => {
+    if (recorded) {
+      setPendingRecord(null);
+      queryClient.invalidateQueries({ queryKey: ['company'] });
+      setTimeout(() => {
+        resetRecord();
+      }, 3000);
+    }
+  }, [recorded, queryClient, resetRecord]);
 
   // Reset form on success
   useEffect(() => {
@@ -132,12 +170,14 @@ export function ChangeSymbolForm({
   }, [isSuccess, form, resetWrite]);
 
   const onSubmit = async (data: SymbolFormValues) => {
+    const newSymbol = data.newSymbol.toUpperCase();
     try {
+      submittedSymbol.current = newSymbol;
       writeContract({
         address: tokenAddress as `0x${string}`,
         abi: chainEquityToken.abi,
         functionName: 'changeSymbol',
-        args: [data.newSymbol.toUpperCase()],
+        args: [newSymbol],
       });
     } catch (err) {
       console.error('Failed to write contract:', err);
@@ -198,6 +238,8 @@ export function ChangeSymbolForm({
         : [];
 
   const displayError = errorMessages[0] || null;
+  const isRecording = recordAction.isPending || recordAction.confirming;
+  const isProcessing = isPending || confirming || isSwitching || isRecording;
 
   if (!isConnected) {
     return (
@@ -207,9 +249,7 @@ export function ChangeSymbolForm({
             <Tag className="h-5 w-5" />
             Change Token Symbol
           </CardTitle>
-          <CardDescription>
-            Update the token symbol (for indexer tracking)
-          </CardDescription>
+          <CardDescription>Update the token symbol</CardDescription>
         </CardHeader>
         <CardContent>
           <p className="text-sm text-muted-foreground">
@@ -249,9 +289,10 @@ export function ChangeSymbolForm({
           Change Token Symbol
         </CardTitle>
         <CardDescription>
-          Update the token symbol. This emits an event for indexer tracking.
-          Note: The actual ERC20 symbol is immutable and would require contract
-          redeployment to change.
+          Update the token symbol. Wallets and explorers read the new symbol
+          from the token immediately; the form then records a SYMBOL_CHANGE
+          corporate action (a second wallet confirmation) so the cap table
+          symbol follows.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -259,6 +300,11 @@ export function ChangeSymbolForm({
           <div className="mb-4 p-3 bg-muted rounded-lg">
             <p className="text-sm font-medium mb-1">Current Symbol</p>
             <p className="text-2xl font-bold">{currentSymbol}</p>
+            {previousSymbols.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Previously: {previousSymbols.join(', ')}
+              </p>
+            )}
           </div>
         )}
 
@@ -274,7 +320,7 @@ export function ChangeSymbolForm({
                     <Input
                       type="text"
                       placeholder="ACME2"
-                      disabled={isPending || confirming || isSwitching}
+                      disabled={isProcessing}
                       {...field}
                       onChange={e => {
                         // Auto-uppercase
@@ -283,9 +329,9 @@ export function ChangeSymbolForm({
                     />
                   </FormControl>
                   <FormDescription>
-                    Enter the new symbol (uppercase letters and numbers only, max
-                    10 characters). This will emit a SymbolChanged event for
-                    indexer tracking.
+                    Enter the new symbol (uppercase letters and numbers only,
+                    max 10 characters). The token's symbol() returns it as soon
+                    as the transaction confirms.
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -339,17 +385,52 @@ export function ChangeSymbolForm({
               </div>
             )}
 
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isPending || confirming || isSwitching}
-            >
-              {isPending || confirming || isSwitching ? (
+            {(pendingRecord || recordAction.isSuccess) && (
+              <div className="p-3 bg-muted rounded-md">
+                <div className="flex items-start gap-2">
+                  {recordAction.isSuccess ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+                  ) : isRecording ? (
+                    <Loader2 className="h-4 w-4 animate-spin mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 mt-0.5 flex-shrink-0" />
+                  )}
+                  <div className="flex-1">
+                    <p className="text-sm font-medium">
+                      {recordAction.isSuccess
+                        ? 'Cap Table Symbol Updated'
+                        : isRecording
+                          ? 'Recording SYMBOL_CHANGE on the cap table...'
+                          : 'Symbol change not yet recorded on the cap table'}
+                    </p>
+                    {recordAction.error && (
+                      <p className="text-xs text-destructive/80 mt-1">
+                        {extractErrorMessages(recordAction.error)[0]}
+                      </p>
+                    )}
+                    {pendingRecord && !isRecording && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => record('SYMBOL_CHANGE', pendingRecord)}
+                      >
+                        Record Corporate Action
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isProcessing}>
+              {isProcessing ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  {isPending
+                  {isPending || recordAction.isPending
                     ? 'Confirm in wallet...'
-                    : confirming
+                    : confirming || recordAction.confirming
                       ? 'Confirming...'
                       : 'Switching network...'}
                 </>
@@ -0,0 +1,45 @@
+/**
+ * @file Company Switcher Component
+ * @notice Dropdown for choosing which registered company the cap table pages show
+ */
+
+import { Building2 } from 'lucide-react';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+/**
+ * CompanySwitcher component
+ * Lists every company indexed by the backend; the choice is remembered across reloads
+ */
+export function CompanySwitcher() {
+  const { companies, companyId, isLoading, selectCompany } =
+    useSelectedCompany();
+
+  return (
+    <Select
+      value={companyId !== null ? companyId.toString() : undefined}
+      onValueChange={value => selectCompany(Number(value))}
+      disabled={isLoading || companies.length === 0}
+    >
+      <SelectTrigger className="w-56" aria-label="Select company">
+        <Building2 className="mr-2 h-4 w-4 shrink-0" />
+        <SelectValue
+          placeholder={isLoading ? 'Loading companies...' : 'No companies'}
+        />
+      </SelectTrigger>
+      <SelectContent>
+        {companies.map(company => (
+          <SelectItem key={company.id} value={company.id.toString()}>
+            {company.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,522 @@
+/**
+ * @file Create Company Wizard Component
+ * @notice Multi-step form for admins to deploy a new company through CapTableFactory
+ */
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  useAccount,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from 'wagmi';
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { isAddress, parseEventLogs, parseUnits } from 'viem';
+import { useNetworkAutoSwitch } from '@/hooks/useNetworkAutoSwitch';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  AlertCircle,
+  Building2,
+} from 'lucide-react';
+import { capTableFactory } from '@/config/contracts';
+
+/**
+ * Form validation schema
+ */
+const companySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Company name is required')
+    .max(100, 'Company name must be 100 characters or less'),
+  symbol: z
+    .string()
+    .min(1, 'Symbol is required')
+    .max(10, 'Symbol must be 10 characters or less')
+    .regex(
+      /^[A-Z0-9]+$/,
+      'Symbol must contain only uppercase letters and numbers',
+    ),
+  tokenName: z
+    .string()
+    .trim()
+    .min(1, 'Token name is required')
+    .max(100, 'Token name must be 100 characters or less'),
+  totalAuthorized: z
+    .string()
+    .min(1, 'Authorized shares are required')
+    .refine(
+      val => /^\d+$/.test(val) && BigInt(val) > 0n,
+      'Authorized shares must be a whole number greater than 0',
+    ),
+  issuer: z
+    .string()
+    .min(1, 'Issuer address is required')
+    .refine(val => isAddress(val), 'Invalid Ethereum address'),
+});
+
+type CompanyFormValues = z.infer<typeof companySchema>;
+
+/**
+ * Wizard steps and the fields each one validates before moving on
+ */
+const STEPS: { title: string; fields: (keyof CompanyFormValues)[] }[] = [
+  { title: 'Company', fields: ['name', 'symbol', 'tokenName'] },
+  { title: 'Shares', fields: ['totalAuthorized', 'issuer'] },
+  { title: 'Review', fields: [] },
+];
+
+/**
+ * CreateCompanyWizard component
+ * Deploys a linked token and cap table with CapTableFactory.createCompany, waits for the
+ * backend to discover the new company and selects it
+ */
+export function CreateCompanyWizard() {
+  const { address, isConnected } = useAccount();
+  const { isCorrectNetwork, isSwitching, switchError } = useNetworkAutoSwitch();
+  const { companies, factoryAddress, selectCompany } = useSelectedCompany();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState(0);
+  const [createdCapTable, setCreatedCapTable] = useState<string | null>(null);
+
+  const form = useForm({
+    resolver: zodResolver(companySchema),
+    defaultValues: {
+      name: '',
+      symbol: '',
+      tokenName: '',
+      totalAuthorized: '1000000',
+      issuer: '',
+    },
+  });
+
+  const {
+    data: txHash,
+    writeContract,
+    isPending,
+    error: writeError,
+    reset: resetWrite,
+  } = useWriteContract();
+
+  const {
+    data: receipt,
+    isLoading: confirming,
+    isSuccess,
+    error: receiptError,
+  } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  // Default the issuer to the connected wallet
+  useEffect(() => {
+    if (address && !form.getValues('issuer')) {
+      form.setValue('issuer', address);
+    }
+  }, [address, form]);
+
+  // Read the new cap table address from the CompanyCreated event
+  useEffect(() => {
+    if (isSuccess && receipt) {
+      const [created] = parseEventLogs({
+        abi: capTableFactory.abi,
+        eventName: 'CompanyCreated',
+        logs: receipt.logs,
+      }) as unknown as { args: { capTable: string } }[];
+      setCreatedCapTable(created?.args.capTable ?? null);
+    }
+  }, [isSuccess, receipt]);
+
+  // Poll the registry until the backend has discovered the company, then select it
+  const createdCompany = createdCapTable
+    ? companies.find(
+        c => c.capTableAddress.toLowerCase() === createdCapTable.toLowerCase(),
+      )
+    : undefined;
+
+  useEffect(() => {
+    if (!createdCapTable || createdCompany) {
+      return;
+    }
+    const interval = setInterval(() => {
+      queryClient.invalidateQueries({ queryKey: ['companies'] });
+    }, 2000);
+    return () => clearInterval(interval);
+  }, [createdCapTable, createdCompany, queryClient]);
+
+  useEffect(() => {
+    if (createdCompany) {
+      selectCompany(createdCompany.id);
+    }
+  }, [createdCompany, selectCompany]);
+
+  const handleNext = async () => {
+    const valid = await form.trigger(STEPS[step].fields);
+    if (valid) {
+      // Suggest a token name from the company name
+      if (step === 0 && !form.getValues('tokenName')) {
+        form.setValue('tokenName', `${form.getValues('name')} Equity`);
+      }
+      setStep(step + 1);
+    }
+  };
+
+  const handleStartOver = () => {
+    form.reset({
+      name: '',
+      symbol: '',
+      tokenName: '',
+      totalAuthorized: '1000000',
+      issuer: address ?? '',
+    });
+    resetWrite();
+    setCreatedCapTable(null);
+    setStep(0);
+  };
+
+  const onSubmit = async (data: CompanyFormValues) => {
+    if (!factoryAddress) return;
+    try {
+      writeContract({
+        address: factoryAddress as `0x${string}`,
+        abi: capTableFactory.abi,
+        functionName: 'createCompany',
+        args: [
+          data.name,
+          data.symbol,
+          data.tokenName,
+          parseUnits(data.totalAuthorized, 18),
+          data.issuer as `0x${string}`,
+        ],
+      });
+    } catch (err) {
+      console.error('Failed to write contract:', err);
+    }
+  };
+
+  const writeMessage = writeError ?? receiptError ?? switchError;
+  const displayError = writeMessage
+    ? (writeMessage as { shortMessage?: string }).shortMessage ||
+      writeMessage.message
+    : null;
+
+  const header = (
+    <CardHeader>
+      <CardTitle className="flex items-center gap-2">
+        <Building2 className="h-5 w-5" />
+        Create Company
+      </CardTitle>
+      <CardDescription>
+        Deploy a linked token and cap table for a new company in one
+        transaction. The backend starts indexing it as soon as it is created.
+      </CardDescription>
+    </CardHeader>
+  );
+
+  if (!factoryAddress) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            No CapTableFactory is deployed on this network. Deploy
+            CapTableFactoryModule and export the addresses to create companies.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!isConnected) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Please connect your wallet to create a company.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!isCorrectNetwork && !isSwitching) {
+    return (
+      <Card>
+        {header}
+        <CardContent>
+          <div className="flex items-center gap-2 p-3 bg-yellow-50 dark:bg-yellow-950/20 border border-yellow-200 dark:border-yellow-900 rounded-lg">
+            <AlertCircle className="h-4 w-4 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />
+            <p className="text-sm text-yellow-900 dark:text-yellow-100">
+              Please switch to the localnet network to create a company.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const values = form.watch();
+  const busy = isPending || confirming || isSwitching;
+
+  return (
+    <Card>
+      {header}
+      <CardContent>
+        <ol className="flex items-center gap-2 mb-6 text-sm">
+          {STEPS.map((s, index) => (
+            <li
+              key={s.title}
+              className={
+                index === step ? 'font-semibold' : 'text-muted-foreground'
+              }
+            >
+              {index + 1}. {s.title}
+              {index < STEPS.length - 1 && (
+                <span className="ml-2 text-muted-foreground">→</span>
+              )}
+            </li>
+          ))}
+        </ol>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {step === 0 && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Company Name</FormLabel>
+                      <FormControl>
+                        <Input type="text" placeholder="Acme Inc." {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="symbol"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Symbol</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="ACME"
+                          {...field}
+                          onChange={e => {
+                            // Auto-uppercase
+                            field.onChange(e.target.value.toUpperCase());
+                          }}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Used by both the cap table and the token (uppercase
+                        letters and numbers only, max 10 characters).
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tokenName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Token Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="Acme Inc. Equity"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Defaults to the company name followed by "Equity".
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {step === 1 && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="totalAuthorized"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Authorized Shares</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          inputMode="numeric"
+                          placeholder="1000000"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Maximum number of shares the issuer can mint.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="issuer"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Issuer Address</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="0x..."
+                          className="font-mono"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Owns the token and cap table after creation. Defaults to
+                        your connected wallet.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
+
+            {step === 2 && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 p-3 bg-muted rounded-lg text-sm">
+                <dt className="text-muted-foreground">Company</dt>
+                <dd className="font-medium">{values.name}</dd>
+                <dt className="text-muted-foreground">Symbol</dt>
+                <dd className="font-medium">{values.symbol}</dd>
+                <dt className="text-muted-foreground">Token</dt>
+                <dd className="font-medium">{values.tokenName}</dd>
+                <dt className="text-muted-foreground">Authorized</dt>
+                <dd className="font-medium">
+                  {BigInt(values.totalAuthorized || '0').toLocaleString()}{' '}
+                  shares
+                </dd>
+                <dt className="text-muted-foreground">Issuer</dt>
+                <dd className="font-mono text-xs break-all">{values.issuer}</dd>
+              </dl>
+            )}
+
+            {displayError && (
+              <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+                <div className="flex items-start gap-2">
+                  <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+                  <div className="flex-1">
+                    <p className="text-sm text-destructive font-medium">
+                      Transaction Failed
+                    </p>
+                    <p className="text-xs text-destructive/80 mt-1">
+                      {displayError}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isSuccess && (
+              <div className="p-3 bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-900 rounded-md">
+                <div className="flex items-start gap-2">
+                  {createdCompany ? (
+                    <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <Loader2 className="h-4 w-4 text-green-600 dark:text-green-400 mt-0.5 flex-shrink-0 animate-spin" />
+                  )}
+                  <p className="text-sm text-green-900 dark:text-green-100 font-medium">
+                    {createdCompany
+                      ? `${createdCompany.name} created and selected`
+                      : 'Company created. Waiting for the indexer to discover it...'}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {isSuccess ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full"
+                  onClick={handleStartOver}
+                >
+                  Create Another Company
+                </Button>
+              ) : (
+                <>
+                  {step > 0 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={busy}
+                      onClick={() => setStep(step - 1)}
+                    >
+                      Back
+                    </Button>
+                  )}
+                  {step < STEPS.length - 1 ? (
+                    <Button
+                      type="button"
+                      className="flex-1"
+                      onClick={handleNext}
+                    >
+                      Next
+                    </Button>
+                  ) : (
+                    <Button type="submit" className="flex-1" disabled={busy}>
+                      {busy ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          {isPending
+                            ? 'Confirm in wallet...'
+                            : confirming
+                              ? 'Confirming...'
+                              : 'Switching network...'}
+                        </>
+                      ) : (
+                        'Create Company'
+                      )}
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
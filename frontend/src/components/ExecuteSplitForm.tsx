@@ -1,6 +1,7 @@
 /**
  * @file Execute Split Form Component
- * @notice Form for admins/issuers to execute stock splits
+ * @notice Form for admins/issuers to execute stock splits and reverse splits, with a
+ * per-holder preview of post-split positions before submitting
  */
 
 import { useForm } from 'react-hook-form';
@@ -13,7 +14,7 @@ import {
 } from 'wagmi';
 import { parseEther } from 'viem';
 import { useQueryClient } from '@tanstack/react-query';
-import { useEffect, useState } from 'react';
+import { useDeferredValue, useEffect, useState } from 'react';
 import { useNetworkAutoSwitch } from '@/hooks/useNetworkAutoSwitch';
 import {
   Card,
@@ -40,9 +41,13 @@ import {
   Copy,
   AlertCircle,
   TrendingUp,
+  PauseCircle,
 } from 'lucide-react';
 import { chainEquityToken } from '@/config/contracts';
 import { useAccount } from 'wagmi';
+import { useSplitPreview, useTokenPaused } from '@/hooks/useApi';
+import { formatAddress, formatTokenAmount } from '@/lib/utils';
+import type { SplitPreviewResponse } from '@/types/api';
 
 /**
  * Form validation schema
@@ -57,6 +62,11 @@ const splitSchema = z.object({
   ),
 });
 
+/**
+ * Multipliers the preview endpoint accepts (decimal, up to 18 fraction digits)
+ */
+const PREVIEWABLE_MULTIPLIER = /^\d{1,18}(\.\d{1,18})?$/;
+
 type SplitFormValues = z.infer<typeof splitSchema>;
 
 /**
@@ -113,11 +123,25 @@ export function ExecuteSplitForm({
     hash: txHash,
   });
 
+  // Preview each holder's post-split position as the multiplier is typed
+  const multiplier = useDeferredValue(form.watch('multiplier'));
+  const previewMultiplier =
+    PREVIEWABLE_MULTIPLIER.test(multiplier) && parseFloat(multiplier) > 0
+      ? multiplier
+      : undefined;
+  const {
+    data: preview,
+    isFetching: previewLoading,
+    error: previewError,
+  } = useSplitPreview(previewMultiplier);
+  const paused = useTokenPaused();
+
   // Invalidate queries on success
   useEffect(() => {
     if (isSuccess && txHash) {
       queryClient.invalidateQueries({ queryKey: ['company', 'stats'] });
       queryClient.invalidateQueries({ queryKey: ['shareholders'] });
+      queryClient.invalidateQueries({ queryKey: ['splits'] });
       if (onSuccess) {
         onSuccess();
       }
@@ -263,9 +287,9 @@ export function ExecuteSplitForm({
           Execute Stock Split
         </CardTitle>
         <CardDescription>
-          Execute a stock split to adjust share prices. This is a virtual split
-          that doesn't modify actual balances but adjusts the effective balance
-          multiplier.
+          Execute a stock split or reverse split to adjust share prices. This is
+          a virtual split that doesn't modify actual balances but adjusts the
+          effective balance multiplier.
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -280,6 +304,17 @@ export function ExecuteSplitForm({
             </div>
           )}
 
+        {/* executeSplit reverts while the token is paused */}
+        {paused && (
+          <div className="mb-4 flex items-center gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-lg">
+            <PauseCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+            <p className="text-sm text-destructive">
+              The token is paused. Splits cannot be executed until it is
+              unpaused.
+            </p>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
@@ -291,21 +326,31 @@ export function ExecuteSplitForm({
                   <FormControl>
                     <Input
                       type="number"
-                      step="0.01"
+                      step="any"
                       placeholder="7"
-                      disabled={isPending || confirming || isSwitching}
+                      disabled={
+                        isPending || confirming || isSwitching || paused
+                      }
                       {...field}
                     />
                   </FormControl>
                   <FormDescription>
-                    Enter the split multiplier (e.g., 7 for a 7-for-1 split, 2
-                    for a 2-for-1 split). Must be greater than 0.
+                    Enter the split multiplier (e.g., 7 for a 7-for-1 split, 0.1
+                    for a 1-for-10 reverse split). Must be greater than 0.
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {previewMultiplier && (
+              <SplitPreview
+                preview={preview}
+                isLoading={previewLoading}
+                error={previewError?.message}
+              />
+            )}
+
             {displayError && (
               <div className="p-3 bg-destructive/10 border border-destructive/20 rounded-md">
                 <div className="flex items-start gap-2">
@@ -356,7 +401,7 @@ export function ExecuteSplitForm({
             <Button
               type="submit"
               className="w-full"
-              disabled={isPending || confirming || isSwitching}
+              disabled={isPending || confirming || isSwitching || paused}
             >
               {isPending || confirming || isSwitching ? (
                 <>
@@ -378,3 +423,96 @@ export function ExecuteSplitForm({
   );
 }
 
+/**
+ * Per-holder preview of post-split positions
+ * Fractional shares are rounded down; the remainder is paid as cash in lieu and
+ * cancelled by redeeming the listed base amount
+ */
+function SplitPreview({
+  preview,
+  isLoading,
+  error,
+}: {
+  preview: SplitPreviewResponse | undefined;
+  isLoading: boolean;
+  error: string | undefined;
+}) {
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  if (!preview) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+        Loading preview...
+      </div>
+    );
+  }
+
+  if (preview.positions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No shareholders yet; the split only changes the factor.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Post-split positions</p>
+      <div className="max-h-64 overflow-auto rounded-md border">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/50 text-muted-foreground">
+            <tr>
+              <th className="py-1 px-2 text-left font-medium">Holder</th>
+              <th className="py-1 px-2 text-right font-medium">Current</th>
+              <th className="py-1 px-2 text-right font-medium">After split</th>
+              <th className="py-1 px-2 text-right font-medium">Fraction</th>
+            </tr>
+          </thead>
+          <tbody>
+            {preview.positions.map(position => (
+              <tr key={position.address} className="border-t">
+                <td className="py-1 px-2 font-mono">
+                  {formatAddress(position.address)}
+                </td>
+                <td className="py-1 px-2 text-right font-mono">
+                  {formatTokenAmount(position.currentEffectiveBalance, 18)}
+                </td>
+                <td className="py-1 px-2 text-right font-mono">
+                  {formatTokenAmount(position.wholeShares, 18)}
+                </td>
+                <td className="py-1 px-2 text-right font-mono">
+                  {position.fractionalRemainder === '0'
+                    ? '—'
+                    : formatTokenAmount(position.fractionalRemainder, 18, {
+                        compact: false,
+                        maxFraction: 6,
+                      })}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {preview.holdersWithFractions > 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {preview.holdersWithFractions} holder
+          {preview.holdersWithFractions === 1 ? '' : 's'} would hold fractional
+          shares. Positions are rounded down to whole shares; the fractions are
+          paid as cash in lieu, and you cancel them by redeeming{' '}
+          {formatTokenAmount(preview.totalCashInLieuAmount, 18, {
+            compact: false,
+            maxFraction: 6,
+          })}{' '}
+          base tokens in total.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Every holder ends up with whole shares.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -45,10 +45,15 @@ import {
   XCircle,
   Copy,
   AlertCircle,
+  PauseCircle,
 } from 'lucide-react';
 import { chainEquityToken } from '@/config/contracts';
 import { useAuth } from '@/hooks/useAuth';
-import { useInvestorsWithWallets } from '@/hooks/useApi';
+import {
+  useCompanyAccess,
+  useInvestorsWithWallets,
+  useTokenPaused,
+} from '@/hooks/useApi';
 import { formatAddress } from '@/lib/utils';
 import { useState } from 'react';
 
@@ -87,9 +92,10 @@ export function IssueSharesForm({
   const queryClient = useQueryClient();
   const [copiedHash, setCopiedHash] = useState(false);
 
-  // Fetch investors with linked wallets
+  // Fetch investors with linked wallets (the directory is issuer/admin only)
+  const isIssuer = user?.role === 'issuer' || user?.role === 'admin';
   const { data: investorsData, isLoading: investorsLoading } =
-    useInvestorsWithWallets();
+    useInvestorsWithWallets(isIssuer);
   const investors = investorsData?.investors || [];
 
   const form = useForm({
@@ -333,10 +339,11 @@ export function IssueSharesForm({
     return specificMessage;
   };
 
-  // Check if user has issuer/admin role
-  const canIssue = user?.role === 'issuer' || user?.role === 'admin';
+  // Issuers/admins, or holders of MINTER_ROLE on this company
+  const { allowed: canIssue } = useCompanyAccess('MINTER_ROLE');
 
   const isProcessing = isPending || confirming;
+  const paused = useTokenPaused();
   const error = writeError || receiptError;
   const userFriendlyError = error ? parseContractError(error) : null;
 
@@ -346,12 +353,13 @@ export function IssueSharesForm({
         <CardHeader>
           <CardTitle>Issue Shares</CardTitle>
           <CardDescription>
-            Only issuers and administrators can issue shares
+            Only issuers, administrators and minters can issue shares
           </CardDescription>
         </CardHeader>
         <CardContent>
           <p className="text-sm text-muted-foreground">
-            Your role ({user?.role}) does not have permission to issue shares.
+            Your role ({user?.role}) does not have permission to issue shares,
+            and your wallet does not hold MINTER_ROLE on this company.
           </p>
         </CardContent>
       </Card>
@@ -397,6 +405,19 @@ export function IssueSharesForm({
           </div>
         )}
 
+        {/* Pause warning: the token rejects every mint until it is unpaused */}
+        {paused && (
+          <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+            <div className="flex items-center gap-2 text-destructive">
+              <PauseCircle className="h-4 w-4" />
+              <p className="text-sm">
+                The token is paused. Shares cannot be issued until it is
+                unpaused.
+              </p>
+            </div>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
@@ -408,7 +429,7 @@ export function IssueSharesForm({
                   <Select
                     onValueChange={field.onChange}
                     value={field.value}
-                    disabled={isProcessing || investorsLoading}
+                    disabled={isProcessing || investorsLoading || paused}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -433,11 +454,20 @@ export function IssueSharesForm({
                     </SelectContent>
                   </Select>
                   <FormMessage />
-                  {investors.length === 0 && !investorsLoading && (
+                  {!isIssuer ? (
                     <p className="text-xs text-muted-foreground">
-                      Investors must link their wallets before you can issue
-                      shares to them.
+                      The investor directory is limited to issuers and
+                      administrators. Use Bulk Issuance to issue shares by
+                      wallet address.
                     </p>
+                  ) : (
+                    investors.length === 0 &&
+                    !investorsLoading && (
+                      <p className="text-xs text-muted-foreground">
+                        Investors must link their wallets before you can issue
+                        shares to them.
+                      </p>
+                    )
                   )}
                 </FormItem>
               )}
@@ -453,7 +483,7 @@ export function IssueSharesForm({
                     <Input
                       type="text"
                       placeholder="1000"
-                      disabled={isProcessing}
+                      disabled={isProcessing || paused}
                       {...field}
                     />
                   </FormControl>
@@ -464,7 +494,9 @@ export function IssueSharesForm({
 
             <Button
               type="submit"
-              disabled={isProcessing || isSwitching || !isCorrectNetwork}
+              disabled={
+                isProcessing || isSwitching || !isCorrectNetwork || paused
+              }
               className="w-full"
             >
               {isProcessing ? (
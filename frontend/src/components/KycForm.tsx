@@ -0,0 +1,388 @@
+/**
+ * @file KYC Form Component
+ * @notice Lets investors submit identity details for review and follow their request's status
+ */
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { sha256 } from 'viem';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useState, type ChangeEvent } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, XCircle, FileCheck } from 'lucide-react';
+import { KycStatusBadge } from '@/components/KycStatusBadge';
+import { useMyKycRequest } from '@/hooks/useApi';
+import { submitKycRequest, type APIError } from '@/lib/api';
+import { formatAddress } from '@/lib/utils';
+import type { KycRequest, KycRequestTransition } from '@/types/api';
+
+/**
+ * Form validation schema (mirrors the POST /api/kyc/requests body schema)
+ */
+const kycSchema = z.object({
+  fullName: z.string().trim().min(1, 'Please enter your full legal name'),
+  jurisdiction: z
+    .string()
+    .regex(/^[A-Za-z]{2}$/, 'Use a two-letter country code, e.g. US'),
+  accreditationStatus: z.enum(['accredited', 'non_accredited']),
+  documents: z
+    .array(z.object({ name: z.string(), hash: z.string() }))
+    .min(1, 'Please attach at least one identity document'),
+});
+
+type KycFormValues = z.infer<typeof kycSchema>;
+
+/**
+ * SHA-256 of a file's contents as 0x-prefixed hex
+ * Only the hash is sent to the backend; the document itself never leaves the browser
+ */
+async function hashFile(file: File): Promise<string> {
+  return sha256(new Uint8Array(await file.arrayBuffer()));
+}
+
+/**
+ * Format a unix timestamp (seconds) for display
+ */
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleString();
+}
+
+/**
+ * KycForm component
+ * Shows the investor's open KYC request, or the submission form when there is none
+ * (or the last request was denied)
+ */
+export function KycForm() {
+  const { data, isLoading, isError, error } = useMyKycRequest();
+  const request = data?.request ?? null;
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isError) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="py-6">
+          <p className="text-sm text-destructive">
+            {error?.message || 'Could not load your KYC status'}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (request && request.status !== 'denied') {
+    return (
+      <KycStatusCard request={request} transitions={data?.transitions ?? []} />
+    );
+  }
+
+  return <KycSubmitCard deniedRequest={request} />;
+}
+
+/**
+ * Status of an open KYC request with its history
+ */
+function KycStatusCard({
+  request,
+  transitions,
+}: {
+  request: KycRequest;
+  transitions: KycRequestTransition[];
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Identity Verification</CardTitle>
+          <KycStatusBadge status={request.status} />
+        </div>
+        <CardDescription>
+          {request.status === 'on_chain_approved'
+            ? 'Your wallet is approved on the token allowlist and can hold shares.'
+            : request.status === 'approved'
+              ? 'Your request was approved. Your wallet will be added to the token allowlist by the issuer.'
+              : 'Your request is waiting for review by the issuer.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <dl className="grid grid-cols-2 gap-2 text-sm">
+          <dt className="text-muted-foreground">Name</dt>
+          <dd>{request.fullName}</dd>
+          <dt className="text-muted-foreground">Jurisdiction</dt>
+          <dd>{request.jurisdiction}</dd>
+          <dt className="text-muted-foreground">Accreditation</dt>
+          <dd>
+            {request.accreditationStatus === 'accredited'
+              ? 'Accredited'
+              : 'Non-accredited'}
+          </dd>
+          <dt className="text-muted-foreground">Wallet</dt>
+          <dd className="font-mono">{formatAddress(request.walletAddress)}</dd>
+          <dt className="text-muted-foreground">Documents</dt>
+          <dd>{request.documentHashes.length}</dd>
+        </dl>
+
+        <div>
+          <p className="text-sm font-semibold mb-2">History</p>
+          <ol className="space-y-1 text-sm">
+            {transitions.map(transition => (
+              <li
+                key={transition.id}
+                className="flex items-center justify-between gap-4"
+              >
+                <span className="flex items-center gap-2">
+                  <KycStatusBadge status={transition.toStatus} />
+                  {transition.reason && (
+                    <span className="text-muted-foreground">
+                      {transition.reason}
+                    </span>
+                  )}
+                </span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {formatTimestamp(transition.createdAt)}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Submission form, shown with the denial reason after a denied request
+ */
+function KycSubmitCard({
+  deniedRequest,
+}: {
+  deniedRequest: KycRequest | null;
+}) {
+  const queryClient = useQueryClient();
+  const [isHashing, setIsHashing] = useState(false);
+
+  const form = useForm<KycFormValues>({
+    resolver: zodResolver(kycSchema),
+    defaultValues: {
+      fullName: deniedRequest?.fullName ?? '',
+      jurisdiction: deniedRequest?.jurisdiction ?? '',
+      accreditationStatus:
+        deniedRequest?.accreditationStatus ?? 'non_accredited',
+      documents: [],
+    },
+  });
+
+  const submitMutation = useMutation<unknown, APIError, KycFormValues>({
+    mutationFn: values =>
+      submitKycRequest({
+        fullName: values.fullName,
+        jurisdiction: values.jurisdiction.toUpperCase(),
+        accreditationStatus: values.accreditationStatus,
+        documentHashes: [...new Set(values.documents.map(doc => doc.hash))],
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['kyc'] });
+    },
+  });
+
+  const handleFiles = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    if (files.length === 0) return;
+
+    setIsHashing(true);
+    try {
+      const documents = await Promise.all(
+        files.map(async file => ({
+          name: file.name,
+          hash: await hashFile(file),
+        })),
+      );
+      form.setValue('documents', documents, { shouldValidate: true });
+    } finally {
+      setIsHashing(false);
+    }
+  };
+
+  const isSubmitting = submitMutation.isPending || isHashing;
+  const documents = form.watch('documents');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Identity Verification</CardTitle>
+        <CardDescription>
+          Submit your details so the issuer can approve your wallet to hold
+          shares. Documents are fingerprinted in your browser; only their
+          SHA-256 hashes are sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {deniedRequest && (
+          <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+            <p className="text-sm text-destructive">
+              Your previous request was denied
+              {deniedRequest.decisionReason
+                ? `: ${deniedRequest.decisionReason}`
+                : '.'}{' '}
+              You can correct your details and submit again.
+            </p>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(values =>
+              submitMutation.mutate(values),
+            )}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="fullName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full legal name</FormLabel>
+                  <FormControl>
+                    <Input disabled={isSubmitting} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="jurisdiction"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Country of residence</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="US"
+                      maxLength={2}
+                      disabled={isSubmitting}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="accreditationStatus"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Accreditation status</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                    disabled={isSubmitting}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="accredited">
+                        Accredited investor
+                      </SelectItem>
+                      <SelectItem value="non_accredited">
+                        Non-accredited investor
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="documents"
+              render={() => (
+                <FormItem>
+                  <FormLabel>Identity documents</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="file"
+                      multiple
+                      disabled={isSubmitting}
+                      onChange={handleFiles}
+                    />
+                  </FormControl>
+                  {documents.length > 0 && (
+                    <ul className="space-y-1 text-xs">
+                      {documents.map(doc => (
+                        <li key={doc.hash} className="flex items-center gap-2">
+                          <FileCheck className="h-3 w-3 text-green-600" />
+                          <span>{doc.name}</span>
+                          <span className="font-mono text-muted-foreground">
+                            {formatAddress(doc.hash)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {submitMutation.error && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <XCircle className="h-4 w-4" />
+                <span>{submitMutation.error.message}</span>
+              </div>
+            )}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {isHashing ? 'Hashing documents...' : 'Submitting...'}
+                </>
+              ) : (
+                'Submit for review'
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
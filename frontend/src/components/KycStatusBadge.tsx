@@ -0,0 +1,48 @@
+/**
+ * @file KYC Status Badge Component
+ * @notice Colored badge for a KYC request status
+ */
+
+import { Badge } from '@/components/ui/badge';
+import type { KycRequestStatus } from '@/types/api';
+
+/**
+ * Display label and styling per status
+ */
+const STATUS_STYLES: Record<
+  KycRequestStatus,
+  { label: string; className: string }
+> = {
+  submitted: {
+    label: 'Submitted',
+    className: 'bg-blue-500/10 text-blue-600 border-blue-500/20',
+  },
+  under_review: {
+    label: 'Under review',
+    className: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
+  },
+  approved: {
+    label: 'Approved (awaiting on-chain)',
+    className: 'bg-green-500/10 text-green-600 border-green-500/20',
+  },
+  denied: {
+    label: 'Denied',
+    className: 'bg-destructive/10 text-destructive border-destructive/20',
+  },
+  on_chain_approved: {
+    label: 'Approved on-chain',
+    className: 'bg-green-600 text-white border-transparent',
+  },
+};
+
+/**
+ * KycStatusBadge component
+ */
+export function KycStatusBadge({ status }: { status: KycRequestStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <Badge variant="outline" className={style.className}>
+      {style.label}
+    </Badge>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * @file Merkle Allowlist Card Component
+ * @notice Lets issuers/admins regenerate the Merkle allowlist tree from the KYC-approved wallets
+ *         and publish its root with setAllowlistRoot(), instead of one approveWallet() per investor
+ * @notice Wallets in the published tree transfer with transferWithProof(); the backend serves
+ *         their proofs (GET /api/allowlist/proof/:address)
+ */
+
+import { useEffect } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { zeroHash } from 'viem';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, CheckCircle2, XCircle, RefreshCw } from 'lucide-react';
+import { chainEquityToken } from '@/config/contracts';
+import { useAllowlistRoot } from '@/hooks/useApi';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
+import { regenerateAllowlistTree, type APIError } from '@/lib/api';
+import type { AllowlistTree } from '@/types/api';
+
+/**
+ * Shorten a bytes32 root for display
+ */
+function formatRoot(root: string): string {
+  return `${root.slice(0, 10)}…${root.slice(-8)}`;
+}
+
+/**
+ * Format a unix timestamp (seconds) as a date and time
+ */
+function formatTimestamp(seconds: number): string {
+  return new Intl.DateTimeFormat(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  }).format(new Date(seconds * 1000));
+}
+
+/**
+ * MerkleAllowlistCard component
+ * Compares the root published on the token with the latest tree generated by the backend
+ */
+export function MerkleAllowlistCard({
+  tokenAddress,
+  isConnected,
+  isCorrectNetwork,
+  isSwitching,
+}: {
+  tokenAddress: string | null | undefined;
+  isConnected: boolean;
+  isCorrectNetwork: boolean;
+  isSwitching: boolean;
+}) {
+  const queryClient = useQueryClient();
+  const { companyId } = useSelectedCompany();
+  const { data, isLoading } = useAllowlistRoot();
+
+  const regenerateMutation = useMutation<AllowlistTree, APIError>({
+    mutationFn: () => regenerateAllowlistTree(companyId!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['allowlist', 'root'] });
+    },
+  });
+
+  const {
+    data: txHash,
+    writeContract,
+    isPending,
+    error: writeError,
+    reset: resetWrite,
+  } = useWriteContract();
+
+  const {
+    isLoading: confirming,
+    isSuccess,
+    error: receiptError,
+  } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  // The indexer records AllowlistRootUpdated shortly after the receipt
+  useEffect(() => {
+    if (isSuccess && txHash) {
+      queryClient.invalidateQueries({ queryKey: ['allowlist'] });
+
+      setTimeout(() => {
+        resetWrite();
+      }, 3000);
+    }
+  }, [isSuccess, txHash, queryClient, resetWrite]);
+
+  const setRoot = (root: string) => {
+    if (!tokenAddress || !isConnected) {
+      return;
+    }
+
+    writeContract({
+      address: tokenAddress as `0x${string}`,
+      abi: chainEquityToken.abi,
+      functionName: 'setAllowlistRoot',
+      args: [root as `0x${string}`],
+    });
+  };
+
+  const latestTree = data?.latestTree ?? null;
+  const isProcessing = isPending || confirming;
+  const error = writeError || receiptError;
+  const canWrite =
+    isConnected &&
+    !!tokenAddress &&
+    !isProcessing &&
+    isCorrectNetwork &&
+    !isSwitching;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Merkle Allowlist</CardTitle>
+        <CardDescription>
+          Approve every KYC-approved wallet with a single root instead of one
+          transaction per wallet. Publish a new root whenever KYC approvals
+          change; wallets left out of it can no longer transfer with a proof.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Published root</p>
+              {data?.root ? (
+                <>
+                  <p className="font-mono text-sm" title={data.root}>
+                    {formatRoot(data.root)}
+                  </p>
+                  {data.blockNumber !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      Block {data.blockNumber}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm">
+                  Not published (allowlist mapping only)
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">
+                Latest generated tree
+              </p>
+              {latestTree ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <p className="font-mono text-sm" title={latestTree.root}>
+                      {formatRoot(latestTree.root)}
+                    </p>
+                    {data?.upToDate ? (
+                      <Badge variant="secondary">Published</Badge>
+                    ) : (
+                      <Badge variant="outline">Not published</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {latestTree.walletCount} wallet
+                    {latestTree.walletCount === 1 ? '' : 's'} ·{' '}
+                    {formatTimestamp(latestTree.createdAt)}
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm">No tree generated yet</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => regenerateMutation.mutate()}
+            disabled={companyId === null || regenerateMutation.isPending}
+          >
+            {regenerateMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Regenerate from KYC
+          </Button>
+          <Button
+            onClick={() => latestTree && setRoot(latestTree.root)}
+            disabled={!canWrite || !latestTree || data?.upToDate}
+          >
+            {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Publish root
+          </Button>
+          {data?.root && (
+            <Button
+              variant="ghost"
+              onClick={() => setRoot(zeroHash)}
+              disabled={!canWrite}
+            >
+              Turn off
+            </Button>
+          )}
+        </div>
+
+        {regenerateMutation.isError && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <XCircle className="h-4 w-4" />
+            {regenerateMutation.error.message}
+          </div>
+        )}
+        {isSuccess && (
+          <div className="flex items-center gap-2 text-sm text-green-600">
+            <CheckCircle2 className="h-4 w-4" />
+            Allowlist root updated
+          </div>
+        )}
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <XCircle className="h-4 w-4" />
+            {error.message || 'Failed to update the allowlist root'}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,14 +1,18 @@
 /**
  * @file Protected route component for ChainEquity frontend
- * @notice Handles authentication, role-based, and wallet-based access control
+ * @notice Handles authentication, role-based (including on-chain company roles), and wallet-based
+ *         access control
  */
 
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAccount } from 'wagmi';
 import { useAuth } from '@/hooks/useAuth';
+import { useCompanyAccess } from '@/hooks/useApi';
+import { TokenPausedBanner } from '@/components/TokenPausedBanner';
 import type { ReactNode } from 'react';
 import type { UserRole } from '@/types/auth';
+import type { OnchainRoleName } from '@/types/api';
 
 /**
  * ProtectedRoute component props
@@ -17,6 +21,8 @@ interface ProtectedRouteProps {
   children: ReactNode;
   /** Required user role for access */
   requiredRole?: UserRole;
+  /** Issuer/admin access, or this on-chain role on the selected company */
+  requiredCompanyRole?: OnchainRoleName;
   /** Whether wallet connection is required */
   requireWallet?: boolean;
   /** Redirect path for unauthenticated users (default: '/login') */
@@ -31,16 +37,20 @@ interface ProtectedRouteProps {
 export function ProtectedRoute({
   children,
   requiredRole,
+  requiredCompanyRole,
   requireWallet = false,
   redirectTo = '/login',
 }: ProtectedRouteProps) {
   const { isAuthenticated, isLoading, user } = useAuth();
   const { isConnected, isConnecting } = useAccount();
+  const companyAccess = useCompanyAccess(requiredCompanyRole);
   const navigate = useNavigate();
 
-  // Check if wallet status is loading
+  // Check if wallet status or company roles are loading
   const isWalletLoading = requireWallet && isConnecting;
-  const isChecking = isLoading || isWalletLoading;
+  const isChecking = isLoading || isWalletLoading || companyAccess.isLoading;
+  const lacksCompanyRole =
+    requiredCompanyRole !== undefined && !companyAccess.allowed;
 
   useEffect(() => {
     // Wait for loading to complete before checking conditions
@@ -60,6 +70,12 @@ export function ProtectedRoute({
       return;
     }
 
+    // Check company role requirement
+    if (lacksCompanyRole) {
+      navigate('/', { replace: true });
+      return;
+    }
+
     // Check wallet requirement
     if (requireWallet && !isConnected) {
       navigate('/', { replace: true });
@@ -71,6 +87,7 @@ export function ProtectedRoute({
     isChecking,
     requiredRole,
     user?.role,
+    lacksCompanyRole,
     requireWallet,
     isConnected,
     isConnecting,
@@ -100,12 +117,22 @@ export function ProtectedRoute({
     return null;
   }
 
+  // Show nothing if the company role is missing (redirect will happen)
+  if (lacksCompanyRole) {
+    return null;
+  }
+
   // Show nothing if wallet required but not connected (redirect will happen)
   if (requireWallet && !isConnected) {
     return null;
   }
 
-  // Render children if all conditions are met
-  return <>{children}</>;
+  // Render children if all conditions are met, under the banner shown while the token is paused
+  return (
+    <>
+      <TokenPausedBanner />
+      {children}
+    </>
+  );
 }
 
@@ -0,0 +1,48 @@
+/**
+ * @file Recovery Status Badge Component
+ * @notice Colored badge for a wallet recovery request status
+ */
+
+import { Badge } from '@/components/ui/badge';
+import type { RecoveryRequestStatus } from '@/types/api';
+
+/**
+ * Display label and styling per status
+ */
+const STATUS_STYLES: Record<
+  RecoveryRequestStatus,
+  { label: string; className: string }
+> = {
+  pending: {
+    label: 'Pending admin approval',
+    className: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20',
+  },
+  approved: {
+    label: 'Approved (awaiting on-chain)',
+    className: 'bg-green-500/10 text-green-600 border-green-500/20',
+  },
+  rejected: {
+    label: 'Rejected',
+    className: 'bg-destructive/10 text-destructive border-destructive/20',
+  },
+  executed: {
+    label: 'Recovered on-chain',
+    className: 'bg-green-600 text-white border-transparent',
+  },
+};
+
+/**
+ * RecoveryStatusBadge component
+ */
+export function RecoveryStatusBadge({
+  status,
+}: {
+  status: RecoveryRequestStatus;
+}) {
+  const style = STATUS_STYLES[status];
+  return (
+    <Badge variant="outline" className={style.className}>
+      {style.label}
+    </Badge>
+  );
+}
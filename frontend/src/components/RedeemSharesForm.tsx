@@ -0,0 +1,459 @@
+/**
+ * @file Share Redemption Form Component
+ * @notice Form for issuers to redeem (cancel) tokens held by a shareholder
+ */
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import {
+  useWriteContract,
+  useWaitForTransactionReceipt,
+  useAccount,
+} from 'wagmi';
+import { parseUnits } from 'viem';
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useMemo, useState } from 'react';
+import { useNetworkAutoSwitch } from '@/hooks/useNetworkAutoSwitch';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Copy,
+  AlertCircle,
+  PauseCircle,
+} from 'lucide-react';
+import { chainEquityToken } from '@/config/contracts';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  useCompanyAccess,
+  useShareholdersData,
+  useTokenPaused,
+} from '@/hooks/useApi';
+import { formatAddress, formatTokenAmount } from '@/lib/utils';
+
+/**
+ * Form validation schema
+ * The amount is checked against the selected holder's indexed balance
+ */
+const createRedeemSchema = (balances: Map<string, string>) => {
+  return z
+    .object({
+      holderAddress: z.string().min(1, 'Please select a shareholder'),
+      amount: z.string().refine(val => {
+        const num = parseFloat(val);
+        return !isNaN(num) && num > 0;
+      }, 'Amount must be a positive number'),
+    })
+    .refine(
+      ({ holderAddress, amount }) => {
+        const balance = balances.get(holderAddress);
+        if (!balance) return true; // Skip validation if balance not loaded yet
+        try {
+          return parseUnits(amount, 18) <= BigInt(balance);
+        } catch {
+          return false;
+        }
+      },
+      { message: 'Amount exceeds the shareholder balance', path: ['amount'] },
+    );
+};
+
+type RedeemFormValues = z.infer<ReturnType<typeof createRedeemSchema>>;
+
+/**
+ * RedeemSharesForm component props
+ */
+interface RedeemSharesFormProps {
+  tokenAddress: string;
+  onSuccess?: () => void;
+}
+
+/**
+ * Recursively extract error messages from nested error structures
+ * Viem/Wagmi errors can be deeply nested: error.data.data.message, error.cause.message, etc.
+ */
+function extractErrorMessages(error: unknown, visited = new Set()): string[] {
+  if (!error || visited.has(error)) return [];
+  visited.add(error);
+
+  if (typeof error === 'string') return [error];
+
+  const messages: string[] = [];
+  if (typeof error === 'object') {
+    const err = error as Record<string, unknown>;
+    for (const key of ['shortMessage', 'reason', 'message']) {
+      if (typeof err[key] === 'string') messages.push(err[key]);
+    }
+    for (const key of ['data', 'cause', 'error']) {
+      messages.push(...extractErrorMessages(err[key], visited));
+    }
+  }
+  return messages;
+}
+
+/**
+ * Parse contract error to extract user-friendly message
+ */
+function parseContractError(error: unknown): string {
+  const allMessages = extractErrorMessages(error);
+  const combinedMessage = allMessages.join(' ');
+
+  if (combinedMessage.includes('redeem amount exceeds balance')) {
+    return 'The redemption amount exceeds the shareholder’s on-chain balance.';
+  }
+  if (combinedMessage.includes('OwnableUnauthorizedAccount')) {
+    return 'Only the contract owner (issuer) wallet can redeem shares.';
+  }
+
+  const revertMatch = combinedMessage.match(
+    /reverted with reason:\s*(.+?)(?:\n|$)/i,
+  );
+  if (revertMatch?.[1]) {
+    return `Transaction failed: ${revertMatch[1].trim()}`;
+  }
+
+  return (
+    allMessages.find(msg => !msg.includes('Internal JSON-RPC error')) ||
+    'An error occurred while processing the transaction'
+  );
+}
+
+/**
+ * RedeemSharesForm component
+ * Allows issuers to redeem (burn) tokens from a current shareholder
+ */
+export function RedeemSharesForm({
+  tokenAddress,
+  onSuccess,
+}: RedeemSharesFormProps) {
+  const { user } = useAuth();
+  const { isConnected } = useAccount();
+  const { isCorrectNetwork, isSwitching, switchError } = useNetworkAutoSwitch();
+  const queryClient = useQueryClient();
+  const [copiedHash, setCopiedHash] = useState(false);
+
+  // Only current holders can be redeemed from
+  const { shareholders, isLoading: shareholdersLoading } = useShareholdersData({
+    limit: 100,
+  });
+  const balances = useMemo(
+    () => new Map(shareholders.map(sh => [sh.address, sh.balance])),
+    [shareholders],
+  );
+  const redeemSchema = useMemo(() => createRedeemSchema(balances), [balances]);
+
+  const form = useForm<RedeemFormValues>({
+    resolver: zodResolver(redeemSchema),
+    defaultValues: {
+      holderAddress: '',
+      amount: '',
+    },
+  });
+
+  const {
+    data: txHash,
+    writeContract,
+    isPending,
+    error: writeError,
+    reset: resetWrite,
+  } = useWriteContract();
+
+  const {
+    isLoading: confirming,
+    isSuccess,
+    error: receiptError,
+  } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  // Invalidate queries on success
+  useEffect(() => {
+    if (isSuccess && txHash) {
+      queryClient.invalidateQueries({ queryKey: ['shareholders'] });
+      queryClient.invalidateQueries({ queryKey: ['company', 'stats'] });
+      queryClient.invalidateQueries({ queryKey: ['transactions'] });
+      if (onSuccess) {
+        onSuccess();
+      }
+    }
+  }, [isSuccess, txHash, queryClient, onSuccess]);
+
+  // Reset form on success
+  useEffect(() => {
+    if (isSuccess) {
+      form.reset();
+      // Reset after a delay to allow user to see success message
+      setTimeout(() => {
+        resetWrite();
+      }, 3000);
+    }
+  }, [isSuccess, form, resetWrite]);
+
+  const onSubmit = (data: RedeemFormValues) => {
+    writeContract({
+      address: tokenAddress as `0x${string}`,
+      abi: chainEquityToken.abi,
+      functionName: 'redeem',
+      args: [data.holderAddress as `0x${string}`, parseUnits(data.amount, 18)],
+    });
+  };
+
+  const handleCopyHash = async () => {
+    if (!txHash) return;
+    try {
+      await navigator.clipboard.writeText(txHash);
+      setCopiedHash(true);
+      setTimeout(() => setCopiedHash(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy transaction hash:', err);
+    }
+  };
+
+  // Issuers/admins, or holders of MINTER_ROLE on this company
+  const { allowed: canRedeem } = useCompanyAccess('MINTER_ROLE');
+
+  const isProcessing = isPending || confirming;
+  const paused = useTokenPaused();
+  const error = writeError || receiptError;
+  const selectedBalance = balances.get(form.watch('holderAddress'));
+
+  if (!canRedeem) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Redeem Shares</CardTitle>
+          <CardDescription>
+            Only issuers, administrators and minters can redeem shares
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Your role ({user?.role}) does not have permission to redeem shares,
+            and your wallet does not hold MINTER_ROLE on this company.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!isConnected) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Redeem Shares</CardTitle>
+          <CardDescription>
+            Connect your wallet to redeem shares
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            Please connect your wallet to proceed. The connected wallet must be
+            the contract owner (issuer).
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Redeem Shares</CardTitle>
+        <CardDescription>
+          Buy back or cancel tokens held by a shareholder
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {/* Network validation warning */}
+        {isConnected && !isCorrectNetwork && !isSwitching && (
+          <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+            <div className="flex items-center gap-2 text-yellow-600">
+              <AlertCircle className="h-4 w-4" />
+              <p className="text-sm">
+                Please switch to Localnet to interact with contracts
+                {switchError && `: ${switchError.message}`}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Pause warning: the token rejects every redemption until it is unpaused */}
+        {paused && (
+          <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+            <div className="flex items-center gap-2 text-destructive">
+              <PauseCircle className="h-4 w-4" />
+              <p className="text-sm">
+                The token is paused. Shares cannot be redeemed until it is
+                unpaused.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="holderAddress"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Shareholder</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value}
+                    disabled={isProcessing || shareholdersLoading || paused}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a shareholder" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {shareholders.length === 0 ? (
+                        <SelectItem value="none" disabled>
+                          {shareholdersLoading
+                            ? 'Loading shareholders...'
+                            : 'No shareholders yet'}
+                        </SelectItem>
+                      ) : (
+                        shareholders.map(shareholder => (
+                          <SelectItem
+                            key={shareholder.address}
+                            value={shareholder.address}
+                          >
+                            {shareholder.displayName ||
+                              formatAddress(shareholder.address)}{' '}
+                            ({formatTokenAmount(shareholder.balance, 18)})
+                          </SelectItem>
+                        ))
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="text"
+                      placeholder="100"
+                      disabled={isProcessing || paused}
+                      {...field}
+                    />
+                  </FormControl>
+                  {selectedBalance && (
+                    <FormDescription>
+                      Balance:{' '}
+                      {formatTokenAmount(selectedBalance, 18, {
+                        compact: false,
+                        maxFraction: 18,
+                      })}
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={
+                isProcessing || isSwitching || !isCorrectNetwork || paused
+              }
+              className="w-full"
+            >
+              {isProcessing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  {isPending ? 'Submitting...' : 'Confirming...'}
+                </>
+              ) : (
+                'Redeem Shares'
+              )}
+            </Button>
+          </form>
+        </Form>
+
+        {/* Success Message */}
+        {isSuccess && txHash && (
+          <div className="mt-4 p-3 bg-green-500/10 border border-green-500/20 rounded-md">
+            <div className="flex items-center gap-2 text-green-600">
+              <CheckCircle2 className="h-4 w-4" />
+              <span className="text-sm font-medium">Transaction confirmed</span>
+            </div>
+            <div className="mt-2 flex items-center gap-2">
+              <code className="text-xs font-mono text-muted-foreground">
+                {formatAddress(txHash, { size: 6 })}
+              </code>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleCopyHash}
+                className="h-6 px-2"
+              >
+                <Copy className="h-3 w-3" />
+                {copiedHash ? 'Copied!' : 'Copy'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+            <div className="flex items-center gap-2 text-destructive">
+              <XCircle className="h-4 w-4" />
+              <span className="text-sm font-medium">Transaction failed</span>
+            </div>
+            <p className="text-sm text-destructive mt-2">
+              {parseContractError(error)}
+            </p>
+          </div>
+        )}
+
+        {/* Info Message */}
+        <div className="mt-4 p-3 bg-muted/50 border border-border rounded-md">
+          <p className="text-xs text-muted-foreground">
+            <strong>Note:</strong> Redeemed tokens are burned, reducing the
+            outstanding supply. Amounts are in pre-split token units. Any
+            redemption payment is settled off-chain.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
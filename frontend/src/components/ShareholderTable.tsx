@@ -21,12 +21,18 @@ export interface ShareholderTableProps {
   defaultSort?: 'ownership' | 'balance' | 'address';
 }
 
-type SortField = 'address' | 'balance' | 'effectiveBalance' | 'ownership';
+type SortField =
+  | 'address'
+  | 'balance'
+  | 'effectiveBalance'
+  | 'ownership'
+  | 'fullyDiluted';
 type SortDirection = 'asc' | 'desc';
 
 /**
  * ShareholderTable component
  * Displays shareholders in a sortable table with ownership percentages and progress bars
+ * Fully diluted ownership is shown when any shareholder holds shares of another class
  */
 export function ShareholderTable({
   shareholders,
@@ -42,6 +48,9 @@ export function ShareholderTable({
         : 'address',
   );
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const hasShareClasses = shareholders.some(
+    shareholder => (shareholder.classHoldings ?? []).length > 0,
+  );
 
   // Sort shareholders based on current sort field and direction
   const sortedShareholders = useMemo(() => {
@@ -95,6 +104,10 @@ export function ShareholderTable({
                 100
               : 0);
           break;
+        case 'fullyDiluted':
+          aValue = a.fullyDilutedPercentage ?? 0;
+          bValue = b.fullyDilutedPercentage ?? 0;
+          break;
         default:
           return 0;
       }
@@ -201,6 +214,30 @@ export function ShareholderTable({
                 <SortIcon field="ownership" />
               </div>
             </th>
+            {hasShareClasses && (
+              <th
+                className="text-right py-2 px-4 cursor-pointer hover:text-foreground transition-colors"
+                onClick={() => handleSort('fullyDiluted')}
+              >
+                <div className="inline-flex items-center gap-1 justify-end">
+                  Fully Diluted %
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Info className="h-3 w-3 cursor-help" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p className="max-w-xs">
+                          Ownership with every share class converted into common
+                          at its conversion ratio
+                        </p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                  <SortIcon field="fullyDiluted" />
+                </div>
+              </th>
+            )}
           </tr>
         </thead>
         <tbody>
@@ -255,6 +292,11 @@ export function ShareholderTable({
                     </div>
                   </div>
                 </td>
+                {hasShareClasses && (
+                  <td className="py-2 px-4 text-right">
+                    {(shareholder.fullyDilutedPercentage ?? 0).toFixed(2)}%
+                  </td>
+                )}
               </tr>
             );
           })}
@@ -0,0 +1,43 @@
+/**
+ * @file Token Paused Banner Component
+ * @notice Page-wide warning shown while the company token is paused
+ */
+
+import { PauseCircle } from 'lucide-react';
+import { useCompanyStats } from '@/hooks/useApi';
+import { formatAddress } from '@/lib/utils';
+
+/**
+ * TokenPausedBanner component
+ * Renders nothing unless the indexed pause state of the selected company's token is paused
+ */
+export function TokenPausedBanner() {
+  const { data: stats } = useCompanyStats();
+
+  if (!stats?.paused) {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className="sticky top-0 z-50 border-b border-destructive/30 bg-destructive text-white"
+    >
+      <div className="mx-auto flex max-w-6xl items-center gap-3 px-4 py-3 md:px-6">
+        <PauseCircle className="h-5 w-5 shrink-0" />
+        <div className="text-sm">
+          <span className="font-semibold">Token paused.</span> All share
+          issuances, transfers, redemptions and splits are blocked until the
+          token is unpaused.
+          {stats.pausedAt !== null && (
+            <span className="opacity-90">
+              {' '}
+              Paused {new Date(stats.pausedAt * 1000).toLocaleString()}
+              {stats.pausedBy && ` by ${formatAddress(stats.pausedBy)}`}.
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,12 @@
 /**
  * @file Share Transfer Form Component
  * @notice Form for shareholders to transfer tokens to approved addresses
+ * @notice Explains up front when a transfer will be blocked: the wallet is under a lock-up
+ *         (company-wide or its own, e.g. a holding period) or the amount exceeds its vested shares
+ * @notice Pre-checks each transfer against the token's ERC-1404 restrictions (POST
+ *         /api/transfers/precheck) before asking the user to sign
+ * @notice While a Merkle allowlist root is published, transfers go through transferWithProof()
+ *         with proofs from GET /api/allowlist/proof/:address
  */
 
 import { useForm } from 'react-hook-form';
@@ -45,17 +51,52 @@ import {
   XCircle,
   Copy,
   AlertCircle,
+  Lock,
+  PauseCircle,
 } from 'lucide-react';
 import { chainEquityToken } from '@/config/contracts';
-import { useMyShareholder } from '@/hooks/useApi';
+import {
+  useAllowlistRoot,
+  useMyShareholder,
+  useTokenPaused,
+  useVesting,
+  useWalletLockup,
+} from '@/hooks/useApi';
 import { formatAddress, formatTokenAmount } from '@/lib/utils';
 import { useState } from 'react';
-import { useInvestorsWithWallets } from '@/hooks/useApi';
+import { useAllowlist } from '@/hooks/useApi';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
+import { getAllowlistProof, precheckTransfer } from '@/lib/api';
+import type { WalletLockupStatus } from '@/types/api';
+
+/**
+ * Format a unix timestamp (seconds) for display
+ */
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toLocaleString();
+}
+
+/**
+ * Explain why a wallet's transfers are blocked by a lock-up
+ */
+function describeLockup(lockup: WalletLockupStatus): string {
+  const until = formatTimestamp(lockup.lockedUntil);
+  if (lockup.reason === 'GLOBAL') {
+    return `The issuer has locked up all transfers of this company's shares until ${until}.`;
+  }
+  if (lockup.holdingPeriod > 0) {
+    return `Your wallet is locked up until ${until}. Shares issued to you are subject to a holding period, and the issuer can also lock up individual wallets.`;
+  }
+  return `The issuer has locked up your wallet until ${until}.`;
+}
 
 /**
  * Form validation schema
  */
-const createTransferSchema = (userBalance: string | null) => {
+const createTransferSchema = (
+  userBalance: string | null,
+  unvestedBalance: string | null,
+) => {
   return z.object({
     recipientAddress: z.string().min(1, 'Please select a recipient'),
     amount: z
@@ -78,6 +119,22 @@ const createTransferSchema = (userBalance: string | null) => {
         _val => ({
           message: `Amount exceeds your balance of ${userBalance ? formatTokenAmount(userBalance, 18) : '0'}`,
         }),
+      )
+      .refine(
+        val => {
+          if (!userBalance || !unvestedBalance) return true;
+          try {
+            return (
+              parseUnits(val, 18) + BigInt(unvestedBalance) <=
+              BigInt(userBalance)
+            );
+          } catch {
+            return false;
+          }
+        },
+        {
+          message: `Only ${userBalance && unvestedBalance ? formatTokenAmount(BigInt(userBalance) - BigInt(unvestedBalance), 18) : '0'} of your shares have vested. Unvested shares cannot be transferred until they vest.`,
+        },
       ),
   });
 };
@@ -106,6 +163,11 @@ export function TransferSharesForm({
   const { isCorrectNetwork, isSwitching, switchError } = useNetworkAutoSwitch();
   const queryClient = useQueryClient();
   const [copiedHash, setCopiedHash] = useState(false);
+  const { companyId } = useSelectedCompany();
+
+  // Restriction found by the pre-check; the transfer is not sent while set
+  const [restriction, setRestriction] = useState<string | null>(null);
+  const [isPrechecking, setIsPrechecking] = useState(false);
 
   // Query by user ID (foundational), not wallet address
   // Backend will look up the linked wallet address from the authenticated user
@@ -115,12 +177,11 @@ export function TransferSharesForm({
     error: balanceError,
   } = useMyShareholder();
 
-  // Get investors with wallets - these are users with approved wallets
-  const { data: investorsData, isLoading: investorsLoading } =
-    useInvestorsWithWallets();
-  const investors = investorsData?.investors || [];
+  // Get wallets on the allowlist - only approved wallets can receive shares
+  const { data: allowlistData, isLoading: investorsLoading } = useAllowlist();
+  const approvedWallets = allowlistData?.wallets || [];
 
-  // Show ALL investors with linked wallets (approved), not just shareholders
+  // Show ALL approved wallets, not just shareholders
   // Recipients don't need balances to receive tokens - they just need approved wallets
   // Exclude the current user's address
   const availableRecipients = useMemo(() => {
@@ -128,25 +189,35 @@ export function TransferSharesForm({
 
     const currentUserAddress = shareholderData.address.toLowerCase();
 
-    // Return all investors with linked wallets, excluding current user
-    return investors
-      .filter(investor => {
-        if (!investor.walletAddress) return false;
-        const address = investor.walletAddress.toLowerCase();
-        return address !== currentUserAddress;
-      })
-      .map(investor => ({
-        address: investor.walletAddress!,
-        displayName: investor.displayName || investor.email,
-        email: investor.email,
-        uid: investor.uid,
+    return approvedWallets
+      .filter(
+        wallet => wallet.walletAddress.toLowerCase() !== currentUserAddress,
+      )
+      .map(wallet => ({
+        address: wallet.walletAddress,
+        displayName:
+          wallet.displayName ||
+          wallet.email ||
+          formatAddress(wallet.walletAddress),
+        email: wallet.email,
       }));
-  }, [investors, shareholderData?.address]);
+  }, [approvedWallets, shareholderData?.address]);
 
   // Handle 404 gracefully - it means wallet not linked or no balance
   const userBalance =
     balanceError?.status === 404 ? null : (shareholderData?.balance ?? null);
 
+  // Lock-ups and unvested shares the token would reject the transfer for
+  const { data: lockup } = useWalletLockup(shareholderData?.address);
+  const { data: vesting } = useVesting(shareholderData?.address);
+  const unvestedBalance =
+    vesting && BigInt(vesting.totalUnvested) > 0n
+      ? vesting.totalUnvested
+      : null;
+  const isLockedUp = lockup?.locked ?? false;
+  const paused = useTokenPaused();
+  const { data: allowlistRoot } = useAllowlistRoot();
+
   // Check if connected wallet matches linked wallet (for security)
   const walletMismatch =
     connectedAddress &&
@@ -155,8 +226,8 @@ export function TransferSharesForm({
 
   // Create schema with user balance for validation
   const transferSchema = useMemo(
-    () => createTransferSchema(userBalance),
-    [userBalance],
+    () => createTransferSchema(userBalance, unvestedBalance),
+    [userBalance, unvestedBalance],
   );
 
   const form = useForm<TransferFormValues>({
@@ -189,6 +260,7 @@ export function TransferSharesForm({
       queryClient.invalidateQueries({ queryKey: ['shareholders'] });
       queryClient.invalidateQueries({ queryKey: ['shareholder', 'me'] }); // Refresh user's balance
       queryClient.invalidateQueries({ queryKey: ['company', 'stats'] }); // Fix query key format
+      queryClient.invalidateQueries({ queryKey: ['vesting'] });
       if (onSuccess) {
         onSuccess();
       }
@@ -206,6 +278,12 @@ export function TransferSharesForm({
     }
   }, [isSuccess, form, resetWrite]);
 
+  // A pre-check result only applies to the values it was run for
+  useEffect(() => {
+    const subscription = form.watch(() => setRestriction(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
   // Revalidate form when balance changes
   useEffect(() => {
     if (userBalance !== null) {
@@ -222,6 +300,46 @@ export function TransferSharesForm({
       const amountInWei = parseUnits(data.amount, decimals);
       const recipientAddress = data.recipientAddress as `0x${string}`;
 
+      // Pre-check the transfer so a restriction is explained before the user signs
+      if (companyId !== null) {
+        setIsPrechecking(true);
+        try {
+          const precheck = await precheckTransfer(companyId, {
+            from: connectedAddress,
+            to: recipientAddress,
+            amount: amountInWei.toString(),
+          });
+          if (precheck.restricted) {
+            setRestriction(parseContractError(precheck.message));
+            return;
+          }
+        } catch (err) {
+          // The token enforces the same rules, so an unavailable pre-check does not block the transfer
+          console.warn('Transfer pre-check failed:', err);
+        } finally {
+          setIsPrechecking(false);
+        }
+      }
+
+      // Wallets only approved by the Merkle root need a proof; an empty proof falls back to
+      // the allowlist mapping
+      if (allowlistRoot?.root && companyId !== null) {
+        const [fromProof, toProof] = await Promise.all(
+          [connectedAddress, recipientAddress].map(wallet =>
+            getAllowlistProof(companyId, wallet)
+              .then(result => result.proof as `0x${string}`[])
+              .catch(() => [] as `0x${string}`[]),
+          ),
+        );
+        await writeContract({
+          address: tokenAddress as `0x${string}`,
+          abi: chainEquityToken.abi,
+          functionName: 'transferWithProof',
+          args: [recipientAddress, amountInWei, fromProof!, toProof!],
+        });
+        return;
+      }
+
       await writeContract({
         address: tokenAddress as `0x${string}`,
         abi: chainEquityToken.abi,
@@ -325,6 +443,16 @@ export function TransferSharesForm({
       return 'The recipient wallet address is not approved for transfers. The recipient must be approved by an administrator before they can receive shares.';
     }
 
+    if (combinedMessage.includes('sender is locked up')) {
+      return lockup?.locked
+        ? describeLockup(lockup)
+        : 'Your wallet is under a transfer lock-up. Shares cannot be transferred until the lock-up ends.';
+    }
+
+    if (combinedMessage.includes('transfer exceeds vested balance')) {
+      return 'The amount includes unvested shares. Only vested shares can be transferred.';
+    }
+
     // Check for other common contract errors
     if (combinedMessage.includes('exceeds authorized supply')) {
       return 'The transfer amount exceeds the authorized supply limit.';
@@ -417,9 +545,9 @@ export function TransferSharesForm({
     return specificMessage;
   };
 
-  const isProcessing = isPending || confirming;
+  const isProcessing = isPrechecking || isPending || confirming;
   const error = writeError || receiptError;
-  const userFriendlyError = error ? parseContractError(error) : null;
+  const userFriendlyError = error ? parseContractError(error) : restriction;
 
   if (!isConnected) {
     return (
@@ -544,6 +672,19 @@ export function TransferSharesForm({
           </div>
         )}
 
+        {/* Pause warning: the token rejects every transfer until it is unpaused */}
+        {paused && (
+          <div className="mb-4 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+            <div className="flex items-center gap-2 text-destructive">
+              <PauseCircle className="h-4 w-4" />
+              <p className="text-sm">
+                The token is paused. Transfers are disabled until it is
+                unpaused.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Balance Display */}
         <div className="mb-4 p-3 bg-muted/50 border border-border rounded-md">
           <div className="flex items-center justify-between">
@@ -552,6 +693,29 @@ export function TransferSharesForm({
               {userBalance ? formatTokenAmount(userBalance, decimals) : '—'}
             </span>
           </div>
+          {unvestedBalance && userBalance && (
+            <>
+              <div className="flex items-center justify-between mt-1">
+                <span className="text-xs text-muted-foreground">
+                  Unvested (locked):
+                </span>
+                <span className="text-xs font-mono text-muted-foreground">
+                  {formatTokenAmount(unvestedBalance, decimals)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  Transferable:
+                </span>
+                <span className="text-xs font-mono text-muted-foreground">
+                  {formatTokenAmount(
+                    BigInt(userBalance) - BigInt(unvestedBalance),
+                    decimals,
+                  )}
+                </span>
+              </div>
+            </>
+          )}
           {connectedAddress && (
             <p className="text-xs text-muted-foreground mt-1">
               From: {formatAddress(connectedAddress)}
@@ -559,6 +723,19 @@ export function TransferSharesForm({
           )}
         </div>
 
+        {/* Lock-up warning: the token rejects every transfer from this wallet until it ends */}
+        {lockup?.locked && (
+          <div className="mb-4 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+            <div className="flex items-center gap-2 text-yellow-600">
+              <Lock className="h-4 w-4" />
+              <span className="text-sm font-medium">Transfers locked up</span>
+            </div>
+            <p className="text-sm text-yellow-600 mt-1">
+              {describeLockup(lockup)}
+            </p>
+          </div>
+        )}
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
@@ -570,7 +747,7 @@ export function TransferSharesForm({
                   <Select
                     onValueChange={field.onChange}
                     value={field.value}
-                    disabled={isProcessing || investorsLoading}
+                    disabled={isProcessing || investorsLoading || paused}
                   >
                     <FormControl>
                       <SelectTrigger>
@@ -618,7 +795,7 @@ export function TransferSharesForm({
                     <Input
                       type="text"
                       placeholder="1000"
-                      disabled={isProcessing}
+                      disabled={isProcessing || paused}
                       {...field}
                     />
                   </FormControl>
@@ -630,14 +807,23 @@ export function TransferSharesForm({
             <Button
               type="submit"
               disabled={
-                isProcessing || !hasBalance || isSwitching || !isCorrectNetwork
+                isProcessing ||
+                !hasBalance ||
+                isSwitching ||
+                !isCorrectNetwork ||
+                isLockedUp ||
+                paused
               }
               className="w-full"
             >
               {isProcessing ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  {isPending ? 'Submitting...' : 'Confirming...'}
+                  {isPrechecking
+                    ? 'Checking transfer...'
+                    : isPending
+                      ? 'Submitting...'
+                      : 'Confirming...'}
                 </>
               ) : (
                 'Transfer Shares'
@@ -671,11 +857,13 @@ export function TransferSharesForm({
         )}
 
         {/* Error Message */}
-        {error && (
+        {userFriendlyError && (
           <div className="mt-4 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
             <div className="flex items-center gap-2 text-destructive">
               <XCircle className="h-4 w-4" />
-              <span className="text-sm font-medium">Transaction failed</span>
+              <span className="text-sm font-medium">
+                {error ? 'Transaction failed' : 'Transfer would be rejected'}
+              </span>
             </div>
             <p className="text-sm text-destructive mt-2">{userFriendlyError}</p>
             {userFriendlyError?.includes('not approved') && (
@@ -693,7 +881,8 @@ export function TransferSharesForm({
             <strong>Note:</strong> Both your address and the recipient address
             must be approved (on the allowlist) if transfer restrictions are
             enabled. The transaction will revert if either address is not
-            approved.
+            approved, while your wallet is locked up, or if the amount includes
+            unvested shares.
           </p>
         </div>
       </CardContent>
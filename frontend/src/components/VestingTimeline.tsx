@@ -0,0 +1,260 @@
+/**
+ * @file Vesting Timeline Component
+ * @notice Shows an investor's vesting grants: vested/unvested totals and each grant's schedule over time
+ */
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import { useVesting } from '@/hooks/useApi';
+import { formatTokenAmount } from '@/lib/utils';
+import type { VestingGrant } from '@/types/api';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+/**
+ * Format a unix timestamp (seconds) as a date
+ */
+function formatTimestamp(seconds: number): string {
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'medium' }).format(
+    new Date(seconds * 1000),
+  );
+}
+
+/**
+ * Describe a release interval, e.g. "Monthly" for 30 days
+ */
+function formatReleaseInterval(seconds: number): string {
+  const days = seconds / 86400;
+  if (seconds === 1) return 'Linear';
+  if (days === 30) return 'Monthly';
+  if (days === 90) return 'Quarterly';
+  if (days === 360 || days === 365) return 'Yearly';
+  return Number.isInteger(days) ? `Every ${days} days` : `Every ${seconds}s`;
+}
+
+/**
+ * Fraction of a grant (0 to 1) an amount represents
+ */
+function toFraction(amount: string, total: string): number {
+  if (BigInt(total) === 0n) return 0;
+  return Number((BigInt(amount) * 10000n) / BigInt(total)) / 10000;
+}
+
+/**
+ * VestingTimeline component
+ * Lists the address's vesting grants on the selected company's token; renders nothing without an address
+ */
+export function VestingTimeline({ address }: { address: string | null }) {
+  const { data, isLoading, isError, error } = useVesting(address);
+
+  if (!address) {
+    return null;
+  }
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <Card className="border-destructive">
+        <CardContent className="py-6">
+          <p className="text-sm text-destructive">
+            {error?.message || 'Could not load your vesting schedule'}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Vesting</CardTitle>
+        <CardDescription>
+          {data.grants.length === 0
+            ? 'You have no vesting grants. Shares issued to you are fully vested.'
+            : 'Unvested shares are locked in your wallet and become transferable as they vest.'}
+        </CardDescription>
+      </CardHeader>
+      {data.grants.length > 0 && (
+        <CardContent className="space-y-6">
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-muted-foreground">Granted</dt>
+              <dd className="text-lg font-semibold">
+                {formatTokenAmount(data.totalGranted)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Vested</dt>
+              <dd className="text-lg font-semibold">
+                {formatTokenAmount(data.totalVested)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Unvested</dt>
+              <dd className="text-lg font-semibold">
+                {formatTokenAmount(data.totalUnvested)}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-muted-foreground">Clawed back</dt>
+              <dd className="text-lg font-semibold">
+                {formatTokenAmount(data.totalClawedBack)}
+              </dd>
+            </div>
+          </dl>
+
+          {data.grants.map(grant => (
+            <VestingGrantChart
+              key={grant.grantId}
+              grant={grant}
+              asOf={data.asOf}
+            />
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+/**
+ * One grant's schedule: cumulative vested shares from start to end, with today and any revocation marked
+ */
+function VestingGrantChart({
+  grant,
+  asOf,
+}: {
+  grant: VestingGrant;
+  asOf: number;
+}) {
+  const span = Math.max(grant.endTime - grant.startTime, 1);
+  const x = (t: number) =>
+    (Math.min(Math.max(t - grant.startTime, 0), span) / span) * CHART_WIDTH;
+  const y = (vested: string) =>
+    CHART_HEIGHT - toFraction(vested, grant.amount) * CHART_HEIGHT;
+
+  const line = grant.timeline
+    .map(point => `${x(point.timestamp)},${y(point.vested)}`)
+    .join(' ');
+  const last = grant.timeline[grant.timeline.length - 1];
+  const area = last
+    ? `${x(grant.startTime)},${CHART_HEIGHT} ${line} ${x(last.timestamp)},${CHART_HEIGHT}`
+    : '';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="font-semibold">
+          Grant #{grant.grantId} · {formatTokenAmount(grant.amount)} shares
+        </span>
+        {grant.revokedAt !== null ? (
+          <Badge variant="destructive">
+            Terminated {formatTimestamp(grant.revokedAt)}
+          </Badge>
+        ) : (
+          <Badge variant="secondary">
+            {formatReleaseInterval(grant.releaseInterval)}
+          </Badge>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-40 rounded-md border bg-muted/30"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={`Vesting schedule of grant ${grant.grantId}`}
+      >
+        {/* Unvested ceiling */}
+        <line
+          x1={0}
+          y1={0}
+          x2={CHART_WIDTH}
+          y2={0}
+          className="stroke-muted-foreground"
+          strokeDasharray="4 4"
+          vectorEffect="non-scaling-stroke"
+        />
+        <polygon points={area} className="fill-primary/15" />
+        <polyline
+          points={line}
+          fill="none"
+          className="stroke-primary"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {grant.cliffTime > grant.startTime && (
+          <line
+            x1={x(grant.cliffTime)}
+            y1={0}
+            x2={x(grant.cliffTime)}
+            y2={CHART_HEIGHT}
+            className="stroke-muted-foreground"
+            strokeDasharray="2 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {grant.revokedAt !== null && (
+          <line
+            x1={x(grant.revokedAt)}
+            y1={0}
+            x2={x(grant.revokedAt)}
+            y2={CHART_HEIGHT}
+            className="stroke-destructive"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {asOf > grant.startTime && asOf < grant.endTime && (
+          <line
+            x1={x(asOf)}
+            y1={0}
+            x2={x(asOf)}
+            y2={CHART_HEIGHT}
+            className="stroke-foreground"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>Start {formatTimestamp(grant.startTime)}</span>
+        {grant.cliffTime > grant.startTime && (
+          <span>Cliff {formatTimestamp(grant.cliffTime)}</span>
+        )}
+        <span>Fully vested {formatTimestamp(grant.endTime)}</span>
+      </div>
+
+      <dl className="grid grid-cols-3 gap-2 text-sm">
+        <div>
+          <dt className="text-muted-foreground">Vested</dt>
+          <dd>{formatTokenAmount(grant.vested)}</dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">Unvested</dt>
+          <dd>{formatTokenAmount(grant.unvested)}</dd>
+        </div>
+        <div>
+          <dt className="text-muted-foreground">Clawed back</dt>
+          <dd>{formatTokenAmount(grant.clawedBack)}</dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
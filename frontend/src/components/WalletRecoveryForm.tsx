@@ -0,0 +1,176 @@
+/**
+ * @file Wallet Recovery Form Component
+ * @notice Lets investors who lost access to a wallet request the recovery of its shares to the
+ *         wallet they are signed in with
+ */
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { isAddress } from 'viem';
+import { useMutation } from '@tanstack/react-query';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Loader2, XCircle } from 'lucide-react';
+import { RecoveryStatusBadge } from '@/components/RecoveryStatusBadge';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
+import { submitRecoveryRequest, type APIError } from '@/lib/api';
+import { formatAddress } from '@/lib/utils';
+import type { RecoveryRequestResponse } from '@/types/api';
+
+/**
+ * Form validation schema (mirrors the POST /api/recovery/requests body schema)
+ */
+const recoverySchema = z.object({
+  lostWallet: z
+    .string()
+    .trim()
+    .refine(value => isAddress(value), 'Enter a valid wallet address'),
+  reason: z
+    .string()
+    .trim()
+    .min(1, 'Explain how you lost access to the wallet')
+    .max(1000),
+});
+
+type RecoveryFormValues = z.infer<typeof recoverySchema>;
+
+/**
+ * WalletRecoveryForm component
+ * @param newWallet - The signed-in investor's wallet, which receives the recovered shares
+ */
+export function WalletRecoveryForm({
+  newWallet,
+}: {
+  newWallet: string | null;
+}) {
+  const { companyId, company } = useSelectedCompany();
+
+  const form = useForm({
+    resolver: zodResolver(recoverySchema),
+    defaultValues: { lostWallet: '', reason: '' },
+  });
+
+  const submitMutation = useMutation<
+    RecoveryRequestResponse,
+    APIError,
+    RecoveryFormValues
+  >({
+    mutationFn: values =>
+      submitRecoveryRequest(companyId!, {
+        lostWallet: values.lostWallet,
+        newWallet: newWallet!,
+        reason: values.reason,
+      }),
+    onSuccess: () => form.reset(),
+  });
+
+  if (!newWallet || companyId === null) {
+    return null;
+  }
+
+  const submitted = submitMutation.data?.request;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recover a Lost Wallet</CardTitle>
+        <CardDescription>
+          Lost the keys to a wallet holding {company?.name ?? 'company'} shares?
+          Request their recovery to your current wallet (
+          {formatAddress(newWallet)}). An administrator verifies the request
+          before the issuer moves the shares, approval and vesting grants.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {submitted && (
+          <div className="mb-4 flex items-center gap-2 text-sm">
+            <span>
+              Request #{submitted.id} for {formatAddress(submitted.lostWallet)}:
+            </span>
+            <RecoveryStatusBadge status={submitted.status} />
+          </div>
+        )}
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(values =>
+              submitMutation.mutate(values),
+            )}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="lostWallet"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lost wallet address</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="0x..."
+                      className="font-mono"
+                      disabled={submitMutation.isPending}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>What happened</FormLabel>
+                  <FormControl>
+                    <Input disabled={submitMutation.isPending} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {submitMutation.error && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <XCircle className="h-4 w-4" />
+                <span>{submitMutation.error.message}</span>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={submitMutation.isPending}
+            >
+              {submitMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                'Request recovery'
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,22 @@
 /**
  * @file Contract configuration for ChainEquity frontend
- * @notice Simple contract config with ABI import for ChainEquityToken
+ * @notice Simple contract config with ABI imports for ChainEquityToken, CapTable, CapTableFactory
+ *         and the compliance contracts
  */
 
 import abiData from '../../../contracts/exports/abis/ChainEquityToken.json';
+import capTableAbiData from '../../../contracts/exports/abis/CapTable.json';
+import factoryAbiData from '../../../contracts/exports/abis/CapTableFactory.json';
+import complianceAbiData from '../../../contracts/exports/abis/ModularCompliance.json';
+import maxHoldersAbiData from '../../../contracts/exports/abis/MaxHoldersModule.json';
+import maxOwnershipAbiData from '../../../contracts/exports/abis/MaxOwnershipModule.json';
+import countryRestrictionAbiData from '../../../contracts/exports/abis/CountryRestrictionModule.json';
+import accreditedInvestorAbiData from '../../../contracts/exports/abis/AccreditedInvestorModule.json';
 import type { Abi } from 'viem';
 
 // Type assertion for JSON import
 const abi = abiData as Abi;
+const factoryAbi = factoryAbiData as Abi;
 
 /**
  * ChainEquityToken contract configuration
@@ -19,3 +28,42 @@ export const chainEquityToken = {
   // For demo: single token contract, address will be provided via props/hook
 } as const;
 
+/**
+ * CapTable contract configuration
+ * Address comes from GET /api/companies (capTableAddress), see useSelectedCompany()
+ */
+export const capTable = {
+  abi: capTableAbiData as Abi,
+} as const;
+
+/**
+ * CapTableFactory contract configuration
+ * Address comes from GET /api/companies (factoryAddress), see useSelectedCompany()
+ */
+export const capTableFactory = {
+  abi: factoryAbi,
+} as const;
+
+/**
+ * Compliance contract configurations
+ * Addresses come from GET /api/compliance (complianceAddress and module addresses)
+ */
+export const modularCompliance = {
+  abi: complianceAbiData as Abi,
+} as const;
+
+export const maxHoldersModule = {
+  abi: maxHoldersAbiData as Abi,
+} as const;
+
+export const maxOwnershipModule = {
+  abi: maxOwnershipAbiData as Abi,
+} as const;
+
+export const countryRestrictionModule = {
+  abi: countryRestrictionAbiData as Abi,
+} as const;
+
+export const accreditedInvestorModule = {
+  abi: accreditedInvestorAbiData as Abi,
+} as const;
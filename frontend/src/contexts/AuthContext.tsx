@@ -1,8 +1,9 @@
 /**
  * @file Authentication context for ChainEquity frontend
- * @notice Demo mode: Mock authentication with localStorage persistence
+ * @notice Sign-In With Ethereum (EIP-4361): signs a backend-issued nonce with the connected wagmi wallet
  *
- * @note Post-Demo: This will be replaced with Firebase Auth integration
+ * @dev The backend returns an opaque session token that is stored in localStorage and
+ *      sent as a Bearer token; the stored user is revalidated against the session on load.
  */
 
 import {
@@ -11,17 +12,25 @@ import {
   useEffect,
   type ReactNode,
 } from 'react';
-import { useDisconnect, useAccount } from 'wagmi';
+import { useDisconnect, useAccount, useConnect, useSignMessage } from 'wagmi';
 import { useQueryClient } from '@tanstack/react-query';
+import { createSiweMessage } from 'viem/siwe';
 import type { AuthContext as AuthContextType } from '../types/auth';
-import { getDemoUser } from '../types/auth';
 import {
+  getAuthToken,
   getAuthUser,
   setAuthUser,
   removeAuthUser,
   setAuthToken,
   removeAuthToken,
 } from '../lib/auth';
+import {
+  APIError,
+  getAuthNonce,
+  getAuthSession,
+  logoutSession,
+  verifySignIn,
+} from '../lib/api';
 
 /**
  * Auth context value interface
@@ -30,7 +39,7 @@ interface AuthContextValue {
   user: AuthContextType | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (emailOrUsername?: string) => Promise<void>;
+  login: () => Promise<void>;
   logout: () => void;
 }
 
@@ -54,25 +63,42 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<AuthContextType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { disconnect } = useDisconnect();
-  const { isConnected } = useAccount();
+  const { address, chainId, isConnected } = useAccount();
+  const { connectAsync, connectors } = useConnect();
+  const { signMessageAsync } = useSignMessage();
   const queryClient = useQueryClient();
 
   /**
-   * Load auth state from localStorage on mount
+   * Restore auth state from localStorage on mount and revalidate the session with the backend
    */
   useEffect(() => {
-    const loadAuthState = () => {
+    const clearAuthState = () => {
+      setUser(null);
+      removeAuthUser();
+      removeAuthToken();
+    };
+
+    const loadAuthState = async () => {
       try {
         const storedUser = getAuthUser();
-        if (storedUser) {
-          const parsedUser = JSON.parse(storedUser) as AuthContextType;
-          setUser(parsedUser);
+        if (!storedUser || !getAuthToken()) {
+          clearAuthState();
+          return;
         }
+        setUser(JSON.parse(storedUser) as AuthContextType);
+
+        // Role or linked wallet may have changed since the user was stored
+        const { user: sessionUser } = await getAuthSession();
+        setUser(sessionUser);
+        setAuthUser(JSON.stringify(sessionUser));
       } catch (error) {
-        console.error('Failed to load auth state from localStorage:', error);
-        // Clear invalid data
-        removeAuthUser();
-        removeAuthToken();
+        if (error instanceof APIError && error.status !== 401) {
+          // Backend unreachable: keep the stored user, requests will retry with the token
+          console.error('Failed to revalidate session:', error);
+        } else {
+          // Expired/invalid session or invalid stored data
+          clearAuthState();
+        }
       } finally {
         setIsLoading(false);
       }
@@ -96,39 +122,49 @@ export function AuthProvider({ children }: AuthProviderProps) {
   }, [user?.uid, queryClient]); // Only depend on user.uid to detect user changes
 
   /**
-   * Simulate login - sets demo user based on email or username
-   * @param emailOrUsername - Email address or username (admin, alice, bob, charlie)
-   * @note Post-Demo: Replace with Firebase Auth signIn
+   * Sign in with Ethereum
+   * Connects the injected wallet if needed, signs a SIWE message with a backend nonce
+   * and stores the returned session token
    */
-  const login = async (emailOrUsername?: string): Promise<void> => {
+  const login = async (): Promise<void> => {
     setIsLoading(true);
     try {
-      // Disconnect wallet if connected (ensure fresh state on login)
-      if (isConnected) {
-        disconnect();
-      }
-
-      // Simulate async operation (e.g., API call)
-      await new Promise(resolve => setTimeout(resolve, 300));
-
-      // Get demo user by email/username, or default to alice
-      const user = emailOrUsername
-        ? getDemoUser(emailOrUsername)
-        : getDemoUser('alice');
-
-      if (!user) {
-        throw new Error(
-          `User not found. Use: admin, alice, bob, or charlie (or their email addresses)`
-        );
+      let walletAddress = address;
+      let walletChainId = chainId;
+
+      if (!isConnected || !walletAddress) {
+        const connector = connectors[0];
+        if (!connector) {
+          throw new Error(
+            'No wallet found. Install MetaMask or another browser wallet.',
+          );
+        }
+        const result = await connectAsync({ connector });
+        walletAddress = result.accounts[0];
+        walletChainId = result.chainId;
       }
 
-      // Set demo user
-      setUser(user);
-
-      // Persist to localStorage
-      setAuthUser(JSON.stringify(user));
-      // Set a mock token for API calls
-      setAuthToken('demo-token');
+      const { nonce } = await getAuthNonce();
+      const message = createSiweMessage({
+        address: walletAddress,
+        chainId: walletChainId ?? 31337,
+        domain: window.location.host,
+        nonce,
+        uri: window.location.origin,
+        version: '1',
+        statement: 'Sign in to ChainEquity',
+        issuedAt: new Date(),
+      });
+      const signature = await signMessageAsync({
+        account: walletAddress,
+        message,
+      });
+
+      const session = await verifySignIn(message, signature);
+
+      setUser(session.user);
+      setAuthUser(JSON.stringify(session.user));
+      setAuthToken(session.token);
 
       // Invalidate user-specific queries to fetch fresh data for new user
       queryClient.invalidateQueries({ queryKey: ['wallet', 'status'] });
@@ -144,10 +180,14 @@ export function AuthProvider({ children }: AuthProviderProps) {
   };
 
   /**
-   * Logout - clears auth state and disconnects wallet
-   * @note Post-Demo: Replace with Firebase Auth signOut
+   * Logout - ends the backend session, clears auth state and disconnects wallet
    */
   const logout = (): void => {
+    // Best effort: the local token is discarded either way
+    logoutSession().catch(error => {
+      console.error('Failed to end session:', error);
+    });
+
     // Disconnect wallet if connected
     if (isConnected) {
       disconnect();
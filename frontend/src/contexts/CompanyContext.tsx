@@ -0,0 +1,86 @@
+/**
+ * @file Company context for ChainEquity frontend
+ * @notice Tracks which registered company the cap table pages are showing
+ *
+ * @dev Company-scoped React Query keys end with the company ID, so switching company
+ *      serves each company's cached data without invalidating the others.
+ */
+
+import { createContext, useCallback, useState, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getCompanies, type APIError } from '../lib/api';
+import { getSelectedCompanyId, setSelectedCompanyId } from '../lib/company';
+import type { CompaniesResponse, RegisteredCompany } from '../types/api';
+
+/**
+ * Company context value interface
+ */
+interface CompanyContextValue {
+  companies: RegisteredCompany[];
+  company: RegisteredCompany | null;
+  companyId: number | null;
+  factoryAddress: string | null;
+  isLoading: boolean;
+  selectCompany: (companyId: number) => void;
+}
+
+/**
+ * Create company context
+ */
+const CompanyContext = createContext<CompanyContextValue | undefined>(
+  undefined,
+);
+
+/**
+ * CompanyProvider component props
+ */
+interface CompanyProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * CompanyProvider component
+ * Loads the company registry and remembers the selected company across reloads
+ */
+export function CompanyProvider({ children }: CompanyProviderProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(
+    getSelectedCompanyId,
+  );
+  const { data, isLoading } = useQuery<CompaniesResponse, APIError>({
+    queryKey: ['companies'],
+    queryFn: () => getCompanies(),
+    staleTime: 5 * 60 * 1000, // 5 minutes - invalidated after creating a company
+  });
+
+  const companies = data?.companies ?? [];
+
+  // Fall back to the first company if the stored one is no longer registered
+  const company =
+    companies.find(c => c.id === selectedId) ?? companies[0] ?? null;
+
+  /**
+   * Switch the company shown by company-scoped pages
+   */
+  const selectCompany = useCallback((companyId: number): void => {
+    setSelectedId(companyId);
+    setSelectedCompanyId(companyId);
+  }, []);
+
+  const value: CompanyContextValue = {
+    companies,
+    company,
+    companyId: company?.id ?? null,
+    factoryAddress: data?.factoryAddress ?? null,
+    isLoading,
+    selectCompany,
+  };
+
+  return (
+    <CompanyContext.Provider value={value}>{children}</CompanyContext.Provider>
+  );
+}
+
+/**
+ * Export CompanyContext for use in useSelectedCompany hook
+ */
+export { CompanyContext };
@@ -8,24 +8,41 @@ import {
   getCompany,
   getCompanyMetadata,
   getCompanyStats,
+  getAuthorizedSharesHistory,
   getShareholders,
   getShareholder,
   getMyShareholder,
   getPendingApprovals,
   getApprovedUsers,
   getBlocksWithTransactions,
+  getAllowlist,
+  getAllowlistRoot,
+  getMyKycRequest,
+  getKycRequests,
+  getFractionalRemainders,
+  getSplitPreview,
+  getVesting,
+  getLockups,
+  getWalletLockup,
+  getCompliance,
+  getComplianceHistory,
+  getRecoveryRequests,
   getTransactions,
   getTransactionByHash,
   getWalletStatus,
   getInvestorsWithWallets,
+  getMyRoles,
   type APIError,
   type WalletStatus,
   type InvestorWithWallet,
 } from '../lib/api';
+import { useSelectedCompany } from './useSelectedCompany';
+import { useAuth } from './useAuth';
 import type {
   CompanyInfo,
   CompanyMetadata,
   CompanyStats,
+  AuthorizedSharesHistoryResponse,
   Shareholder,
   ShareholdersResponse,
   ShareholdersQueryParams,
@@ -34,6 +51,22 @@ import type {
   TransactionDetail,
   PendingApprovalsResponse,
   ApprovedUsersResponse,
+  AllowlistResponse,
+  AllowlistRootResponse,
+  KycRequestStatus,
+  KycRequestResponse,
+  KycRequestsResponse,
+  FractionalRemaindersResponse,
+  SplitPreviewResponse,
+  VestingResponse,
+  LockupsResponse,
+  WalletLockupStatus,
+  ComplianceResponse,
+  ComplianceHistoryResponse,
+  RecoveryRequestStatus,
+  RecoveryRequestsResponse,
+  MyRolesResponse,
+  OnchainRoleName,
 } from '../types/api';
 
 // ============================================================================
@@ -42,40 +75,74 @@ import type {
 
 /**
  * React Query hook for company information
- * GET /api/company
+ * GET /api/companies/:companyId/company
  *
  * @returns Query result with company info
  */
 export function useCompany(): UseQueryResult<CompanyInfo, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<CompanyInfo, APIError>({
-    queryKey: ['company'],
-    queryFn: () => getCompany(),
+    queryKey: ['company', companyId],
+    queryFn: () => getCompany(companyId!),
+    enabled: companyId !== null,
   });
 }
 
 /**
  * React Query hook for company metadata
- * GET /api/company/metadata
+ * GET /api/companies/:companyId/company/metadata
  *
  * @returns Query result with company metadata
  */
 export function useCompanyMetadata(): UseQueryResult<CompanyMetadata, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<CompanyMetadata, APIError>({
-    queryKey: ['company', 'metadata'],
-    queryFn: () => getCompanyMetadata(),
+    queryKey: ['company', 'metadata', companyId],
+    queryFn: () => getCompanyMetadata(companyId!),
+    enabled: companyId !== null,
   });
 }
 
 /**
  * React Query hook for company statistics (dashboard)
- * GET /api/company/stats
+ * GET /api/companies/:companyId/company/stats
  *
  * @returns Query result with comprehensive company statistics
  */
 export function useCompanyStats(): UseQueryResult<CompanyStats, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<CompanyStats, APIError>({
-    queryKey: ['company', 'stats'],
-    queryFn: () => getCompanyStats(),
+    queryKey: ['company', 'stats', companyId],
+    queryFn: () => getCompanyStats(companyId!),
+    enabled: companyId !== null,
+    staleTime: 30_000, // 30 seconds
+    retry: 1,
+  });
+}
+
+/**
+ * Hook to check whether the selected company's token is paused
+ * @returns True while the token is paused (mints, transfers and splits revert)
+ */
+export function useTokenPaused(): boolean {
+  return useCompanyStats().data?.paused ?? false;
+}
+
+/**
+ * Hook to fetch the authorized shares history with the outstanding supply at each change
+ * GET /api/companies/:companyId/company/authorized-shares
+ *
+ * @returns Query result with authorized shares changes in chronological order
+ */
+export function useAuthorizedSharesHistory(): UseQueryResult<
+  AuthorizedSharesHistoryResponse,
+  APIError
+> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<AuthorizedSharesHistoryResponse, APIError>({
+    queryKey: ['company', 'authorized-shares', companyId],
+    queryFn: () => getAuthorizedSharesHistory(companyId!),
+    enabled: companyId !== null,
     staleTime: 30_000, // 30 seconds
     retry: 1,
   });
@@ -87,7 +154,7 @@ export function useCompanyStats(): UseQueryResult<CompanyStats, APIError> {
 
 /**
  * React Query hook for paginated shareholders list
- * GET /api/shareholders
+ * GET /api/companies/:companyId/shareholders
  *
  * @param params - Query parameters (limit, offset)
  * @returns Query result with paginated shareholders response
@@ -95,9 +162,11 @@ export function useCompanyStats(): UseQueryResult<CompanyStats, APIError> {
 export function useShareholders(
   params?: ShareholdersQueryParams
 ): UseQueryResult<ShareholdersResponse, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<ShareholdersResponse, APIError>({
-    queryKey: ['shareholders', params],
-    queryFn: () => getShareholders(params),
+    queryKey: ['shareholders', params, companyId],
+    queryFn: () => getShareholders(companyId!, params),
+    enabled: companyId !== null,
   });
 }
 
@@ -123,7 +192,7 @@ export function useShareholdersData(params?: ShareholdersQueryParams) {
 
 /**
  * React Query hook for individual shareholder details
- * GET /api/shareholders/:address
+ * GET /api/companies/:companyId/shareholders/:address
  *
  * @param address - Shareholder Ethereum address
  * @param enabled - Whether the query should be enabled (default: true if address provided)
@@ -133,15 +202,16 @@ export function useShareholder(
   address: string | undefined,
   enabled: boolean = true
 ): UseQueryResult<Shareholder, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<Shareholder, APIError>({
-    queryKey: ['shareholder', address],
+    queryKey: ['shareholder', address, companyId],
     queryFn: () => {
       if (!address) {
         throw new Error('Address is required');
       }
-      return getShareholder(address);
+      return getShareholder(companyId!, address);
     },
-    enabled: enabled && !!address,
+    enabled: companyId !== null && enabled && !!address,
     // Don't use stale data if address changes or query is disabled
     staleTime: enabled && !!address ? 0 : Infinity,
     gcTime: enabled && !!address ? 5 * 60 * 1000 : 0, // 5 minutes if enabled, 0 if disabled
@@ -159,15 +229,17 @@ export function useShareholder(
 
 /**
  * React Query hook for current user's shareholder information
- * GET /api/shareholders/me
+ * GET /api/companies/:companyId/shareholders/me
  * Queries by user ID (foundational), not wallet address
  *
  * @returns Query result with shareholder details for authenticated user's linked wallet
  */
 export function useMyShareholder(): UseQueryResult<Shareholder, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<Shareholder, APIError>({
-    queryKey: ['shareholder', 'me'],
-    queryFn: () => getMyShareholder(),
+    queryKey: ['shareholder', 'me', companyId],
+    queryFn: () => getMyShareholder(companyId!),
+    enabled: companyId !== null,
     retry: (failureCount, error) => {
       // Don't retry on 404 (wallet not linked)
       if (error && typeof error === 'object' && 'status' in error && error.status === 404) {
@@ -180,40 +252,46 @@ export function useMyShareholder(): UseQueryResult<Shareholder, APIError> {
 
 /**
  * React Query hook for pending wallet approvals
- * GET /api/shareholders/pending
+ * GET /api/companies/:companyId/shareholders/pending
  *
  * @returns Query result with list of pending approvals
  */
 export function usePendingApprovals(): UseQueryResult<PendingApprovalsResponse, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<PendingApprovalsResponse, APIError>({
-    queryKey: ['shareholders', 'pending'],
-    queryFn: () => getPendingApprovals(),
+    queryKey: ['shareholders', 'pending', companyId],
+    queryFn: () => getPendingApprovals(companyId!),
+    enabled: companyId !== null,
   });
 }
 
 /**
  * React Query hook for approved wallet users
- * GET /api/shareholders/approved
+ * GET /api/companies/:companyId/shareholders/approved
  *
  * @returns Query result with list of approved users
  */
 export function useApprovedUsers(): UseQueryResult<ApprovedUsersResponse, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<ApprovedUsersResponse, APIError>({
-    queryKey: ['shareholders', 'approved'],
-    queryFn: () => getApprovedUsers(),
+    queryKey: ['shareholders', 'approved', companyId],
+    queryFn: () => getApprovedUsers(companyId!),
+    enabled: companyId !== null,
   });
 }
 
 /**
  * React Query hook for blocks with transactions
- * GET /api/shareholders/blocks
+ * GET /api/companies/:companyId/shareholders/blocks
  *
  * @returns Query result with list of block numbers that have transactions
  */
 export function useBlocksWithTransactions(): UseQueryResult<{ blocks: number[] }, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<{ blocks: number[] }, APIError>({
-    queryKey: ['shareholders', 'blocks'],
-    queryFn: () => getBlocksWithTransactions(),
+    queryKey: ['shareholders', 'blocks', companyId],
+    queryFn: () => getBlocksWithTransactions(companyId!),
+    enabled: companyId !== null,
     staleTime: 5 * 60 * 1000, // 5 minutes - blocks list doesn't change often
   });
 }
@@ -224,7 +302,7 @@ export function useBlocksWithTransactions(): UseQueryResult<{ blocks: number[] }
 
 /**
  * React Query hook for paginated transaction history
- * GET /api/transactions
+ * GET /api/companies/:companyId/transactions
  *
  * @param params - Query parameters (limit, offset, eventType, address, fromDate, toDate)
  * @returns Query result with paginated transactions response
@@ -232,9 +310,11 @@ export function useBlocksWithTransactions(): UseQueryResult<{ blocks: number[] }
 export function useTransactions(
   params?: TransactionsQueryParams
 ): UseQueryResult<TransactionsResponse, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<TransactionsResponse, APIError>({
-    queryKey: ['transactions', params],
-    queryFn: () => getTransactions(params),
+    queryKey: ['transactions', params, companyId],
+    queryFn: () => getTransactions(companyId!, params),
+    enabled: companyId !== null,
   });
 }
 
@@ -257,7 +337,7 @@ export function useTransactionsData(params?: TransactionsQueryParams) {
 
 /**
  * React Query hook for transaction details by hash
- * GET /api/transactions/:txHash
+ * GET /api/companies/:companyId/transactions/:txHash
  *
  * @param txHash - Transaction hash (0x-prefixed hex string)
  * @param enabled - Whether the query should be enabled (default: true if txHash provided)
@@ -267,15 +347,246 @@ export function useTransaction(
   txHash: string | undefined,
   enabled: boolean = true
 ): UseQueryResult<TransactionDetail, APIError> {
+  const { companyId } = useSelectedCompany();
   return useQuery<TransactionDetail, APIError>({
-    queryKey: ['transaction', txHash],
+    queryKey: ['transaction', txHash, companyId],
     queryFn: () => {
       if (!txHash) {
         throw new Error('Transaction hash is required');
       }
-      return getTransactionByHash(txHash);
+      return getTransactionByHash(companyId!, txHash);
     },
-    enabled: enabled && !!txHash,
+    enabled: companyId !== null && enabled && !!txHash,
+  });
+}
+
+/**
+ * React Query hook for wallets on the token allowlist
+ * GET /api/companies/:companyId/allowlist
+ *
+ * @returns Query result with approved wallets
+ */
+export function useAllowlist(): UseQueryResult<AllowlistResponse, APIError> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<AllowlistResponse, APIError>({
+    queryKey: ['allowlist', companyId],
+    queryFn: () => getAllowlist(companyId!),
+    enabled: companyId !== null,
+  });
+}
+
+/**
+ * React Query hook for the Merkle allowlist root
+ * GET /api/companies/:companyId/allowlist/root
+ *
+ * @returns Query result with the published root and the latest generated tree
+ */
+export function useAllowlistRoot(): UseQueryResult<
+  AllowlistRootResponse,
+  APIError
+> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<AllowlistRootResponse, APIError>({
+    queryKey: ['allowlist', 'root', companyId],
+    queryFn: () => getAllowlistRoot(companyId!),
+    enabled: companyId !== null,
+  });
+}
+
+// ============================================================================
+// KYC Hooks
+// ============================================================================
+
+/**
+ * React Query hook for the current user's KYC request
+ * GET /api/kyc/requests/me
+ *
+ * @returns Query result with the latest KYC request and its status history
+ */
+export function useMyKycRequest(): UseQueryResult<
+  KycRequestResponse,
+  APIError
+> {
+  return useQuery<KycRequestResponse, APIError>({
+    queryKey: ['kyc', 'me'],
+    queryFn: () => getMyKycRequest(),
+  });
+}
+
+/**
+ * React Query hook for the KYC review queue
+ * GET /api/kyc/requests (issuer/admin only)
+ *
+ * @param status - Optional status filter
+ * @param enabled - Fetch only when true (skip for users who cannot review)
+ * @returns Query result with KYC requests
+ */
+export function useKycRequests(
+  status?: KycRequestStatus,
+  enabled = true,
+): UseQueryResult<KycRequestsResponse, APIError> {
+  return useQuery<KycRequestsResponse, APIError>({
+    queryKey: ['kyc', 'requests', status],
+    queryFn: () => getKycRequests(status),
+    enabled,
+  });
+}
+
+// ============================================================================
+// Split Hooks
+// ============================================================================
+
+/**
+ * React Query hook for fractional share remainders under the current split factor
+ * GET /api/companies/:companyId/splits/fractional
+ *
+ * @returns Query result with per-holder fractional remainders
+ */
+export function useFractionalRemainders(): UseQueryResult<
+  FractionalRemaindersResponse,
+  APIError
+> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<FractionalRemaindersResponse, APIError>({
+    queryKey: ['splits', 'fractional', companyId],
+    queryFn: () => getFractionalRemainders(companyId!),
+    enabled: companyId !== null,
+  });
+}
+
+/**
+ * React Query hook for a split preview
+ * GET /api/companies/:companyId/splits/preview
+ *
+ * @param multiplier - Decimal multiplier; the query is disabled until one is provided
+ * @returns Query result with current and post-split positions
+ */
+export function useSplitPreview(
+  multiplier: string | undefined,
+): UseQueryResult<SplitPreviewResponse, APIError> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<SplitPreviewResponse, APIError>({
+    queryKey: ['splits', 'preview', multiplier, companyId],
+    queryFn: () => getSplitPreview(companyId!, multiplier!),
+    enabled: companyId !== null && !!multiplier,
+  });
+}
+
+// ============================================================================
+// Vesting Hooks
+// ============================================================================
+
+/**
+ * React Query hook for an address's vesting grants
+ * GET /api/companies/:companyId/vesting/:address
+ *
+ * @param address - Beneficiary address; the query is disabled until one is provided
+ * @returns Query result with vesting totals, grants and timelines
+ */
+export function useVesting(
+  address: string | null | undefined,
+): UseQueryResult<VestingResponse, APIError> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<VestingResponse, APIError>({
+    queryKey: ['vesting', address, companyId],
+    queryFn: () => getVesting(companyId!, address!),
+    enabled: companyId !== null && !!address,
+  });
+}
+
+// ============================================================================
+// Lockup Hooks
+// ============================================================================
+
+/**
+ * React Query hook for the company-wide lock-up, holding period and wallet lock-ups
+ * GET /api/companies/:companyId/lockups
+ *
+ * @returns Query result with lock-up settings
+ */
+export function useLockups(): UseQueryResult<LockupsResponse, APIError> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<LockupsResponse, APIError>({
+    queryKey: ['lockups', companyId],
+    queryFn: () => getLockups(companyId!),
+    enabled: companyId !== null,
+  });
+}
+
+/**
+ * React Query hook for a wallet's lock-up status
+ * GET /api/companies/:companyId/lockups/:address
+ *
+ * @param address - Wallet address; the query is disabled until one is provided
+ * @returns Query result with whether, why and until when transfers are blocked
+ */
+export function useWalletLockup(
+  address: string | null | undefined,
+): UseQueryResult<WalletLockupStatus, APIError> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<WalletLockupStatus, APIError>({
+    queryKey: ['lockups', address, companyId],
+    queryFn: () => getWalletLockup(companyId!, address!),
+    enabled: companyId !== null && !!address,
+  });
+}
+
+// ============================================================================
+// Compliance Hooks
+// ============================================================================
+
+/**
+ * React Query hook for the compliance settings of the active and share class tokens
+ * GET /api/companies/:companyId/compliance
+ *
+ * @returns Query result with compliance settings per token
+ */
+export function useCompliance(): UseQueryResult<ComplianceResponse, APIError> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<ComplianceResponse, APIError>({
+    queryKey: ['compliance', companyId],
+    queryFn: () => getCompliance(companyId!),
+    enabled: companyId !== null,
+  });
+}
+
+/**
+ * React Query hook for a token's compliance configuration history
+ * GET /api/companies/:companyId/compliance/history
+ *
+ * @param tokenAddress - Token address; the query is disabled until one is provided
+ * @returns Query result with configuration changes in chain order
+ */
+export function useComplianceHistory(
+  tokenAddress: string | null | undefined,
+): UseQueryResult<ComplianceHistoryResponse, APIError> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<ComplianceHistoryResponse, APIError>({
+    queryKey: ['compliance', 'history', tokenAddress, companyId],
+    queryFn: () => getComplianceHistory(companyId!, tokenAddress!),
+    enabled: companyId !== null && !!tokenAddress,
+  });
+}
+
+// ============================================================================
+// Recovery Hooks
+// ============================================================================
+
+/**
+ * React Query hook for the wallet recovery review queue
+ * GET /api/companies/:companyId/recovery/requests (issuer/admin only)
+ *
+ * @param status - Optional status filter
+ * @returns Query result with recovery requests
+ */
+export function useRecoveryRequests(
+  status?: RecoveryRequestStatus,
+): UseQueryResult<RecoveryRequestsResponse, APIError> {
+  const { companyId } = useSelectedCompany();
+  return useQuery<RecoveryRequestsResponse, APIError>({
+    queryKey: ['recovery', 'requests', status, companyId],
+    queryFn: () => getRecoveryRequests(companyId!, status),
+    enabled: companyId !== null,
   });
 }
 
@@ -298,14 +609,62 @@ export function useWalletStatus(): UseQueryResult<WalletStatus, APIError> {
 
 /**
  * React Query hook for investors with linked wallets
- * GET /api/wallet/investors
+ * GET /api/wallet/investors (issuer/admin only)
  *
+ * @param enabled - Fetch only when true (skip for on-chain role holders)
  * @returns Query result with list of investors
  */
-export function useInvestorsWithWallets(): UseQueryResult<{ investors: InvestorWithWallet[] }, APIError> {
+export function useInvestorsWithWallets(
+  enabled = true,
+): UseQueryResult<{ investors: InvestorWithWallet[] }, APIError> {
   return useQuery<{ investors: InvestorWithWallet[] }, APIError>({
     queryKey: ['wallet', 'investors'],
     queryFn: () => getInvestorsWithWallets(),
+    enabled,
   });
 }
 
+// ============================================================================
+// Role Hooks
+// ============================================================================
+
+/**
+ * React Query hook for the on-chain roles of the signed-in user on the selected company
+ * GET /api/companies/:companyId/roles/me
+ *
+ * @returns Query result with the linked wallet and its roles
+ */
+export function useMyRoles(): UseQueryResult<MyRolesResponse, APIError> {
+  const { companyId } = useSelectedCompany();
+  const { isAuthenticated } = useAuth();
+  return useQuery<MyRolesResponse, APIError>({
+    queryKey: ['roles', 'me', companyId],
+    queryFn: () => getMyRoles(companyId!),
+    enabled: companyId !== null && isAuthenticated,
+  });
+}
+
+/**
+ * Hook to check whether the signed-in user may use an issuer feature of the selected company
+ * Issuers and admins always may; other users need the on-chain role the backend accepts for
+ * the feature on this company (e.g. MINTER_ROLE for issuance, COMPLIANCE_ROLE for approvals)
+ *
+ * @param role - On-chain role that grants the feature (issuers and admins only without one)
+ * @returns allowed, and isLoading while the user's roles are being fetched
+ */
+export function useCompanyAccess(role?: OnchainRoleName): {
+  allowed: boolean;
+  isLoading: boolean;
+} {
+  const { user } = useAuth();
+  const { isLoading: isLoadingCompany } = useSelectedCompany();
+  const { data, isLoading } = useMyRoles();
+  if (user?.role === 'issuer' || user?.role === 'admin') {
+    return { allowed: true, isLoading: false };
+  }
+  return {
+    allowed: role !== undefined && (data?.roles.includes(role) ?? false),
+    isLoading: role !== undefined && (isLoadingCompany || isLoading),
+  };
+}
+
@@ -1,8 +1,6 @@
 /**
  * @file useAuth hook for accessing authentication context
- * @notice Demo mode: Hook for mock authentication
- *
- * @note Post-Demo: This will work with Firebase Auth integration
+ * @notice Hook for Sign-In With Ethereum authentication state
  */
 
 import { useContext } from 'react';
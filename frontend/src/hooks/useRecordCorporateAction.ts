@@ -0,0 +1,59 @@
+/**
+ * @file useRecordCorporateAction hook
+ * @notice Records a corporate action on the selected company's CapTable with
+ *         recordCorporateAction(), e.g. after a token-level change it documents
+ */
+
+import { useCallback } from 'react';
+import { useWaitForTransactionReceipt, useWriteContract } from 'wagmi';
+import type { Hex } from 'viem';
+import { capTable } from '@/config/contracts';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
+
+/**
+ * useRecordCorporateAction hook
+ * @returns record(actionType, data) plus the state of the recording transaction
+ */
+export function useRecordCorporateAction() {
+  const { company } = useSelectedCompany();
+
+  const {
+    data: txHash,
+    writeContract,
+    isPending,
+    error: writeError,
+    reset,
+  } = useWriteContract();
+
+  const {
+    isLoading: confirming,
+    isSuccess,
+    error: receiptError,
+  } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  const capTableAddress = company?.capTableAddress;
+  const record = useCallback(
+    (actionType: string, data: Hex) => {
+      if (!capTableAddress) return;
+      writeContract({
+        address: capTableAddress as `0x${string}`,
+        abi: capTable.abi,
+        functionName: 'recordCorporateAction',
+        args: [actionType, data],
+      });
+    },
+    [capTableAddress, writeContract],
+  );
+
+  return {
+    record,
+    txHash,
+    isPending,
+    confirming,
+    isSuccess,
+    error: writeError || receiptError,
+    reset,
+  };
+}
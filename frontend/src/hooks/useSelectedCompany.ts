@@ -0,0 +1,21 @@
+/**
+ * @file useSelectedCompany hook for accessing company context
+ * @notice Hook for the company chosen in the company switcher
+ */
+
+import { useContext } from 'react';
+import { CompanyContext } from '../contexts/CompanyContext';
+
+/**
+ * useSelectedCompany hook - provides access to company context
+ * @returns Company context value with companies, company, companyId, factoryAddress, isLoading,
+ *          selectCompany
+ * @throws Error if used outside CompanyProvider
+ */
+export function useSelectedCompany() {
+  const context = useContext(CompanyContext);
+  if (context === undefined) {
+    throw new Error('useSelectedCompany must be used within a CompanyProvider');
+  }
+  return context;
+}
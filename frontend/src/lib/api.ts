@@ -3,11 +3,14 @@
  * @notice Composable API client with centralized fetch logic, error handling, and token attachment
  */
 
-import { getAuthToken, getAuthUser } from './auth';
+import { getAuthToken } from './auth';
+import type { AuthContext } from '../types/auth';
 import type {
+  CompaniesResponse,
   CompanyInfo,
   CompanyMetadata,
   CompanyStats,
+  AuthorizedSharesHistoryResponse,
   Shareholder,
   ShareholdersResponse,
   ShareholdersQueryParams,
@@ -16,6 +19,30 @@ import type {
   TransactionDetail,
   PendingApprovalsResponse,
   ApprovedUsersResponse,
+  AllowlistResponse,
+  AllowlistRootResponse,
+  AllowlistTree,
+  AllowlistProofResponse,
+  KycRequestStatus,
+  KycRequestResponse,
+  KycRequestsResponse,
+  SubmitKycRequestInput,
+  FractionalRemaindersResponse,
+  SplitPreviewResponse,
+  VestingResponse,
+  LockupsResponse,
+  WalletLockupStatus,
+  TransferPrecheckInput,
+  TransferPrecheckResponse,
+  ComplianceResponse,
+  ComplianceHistoryResponse,
+  RecoveryRequestStatus,
+  RecoveryRequestResponse,
+  RecoveryRequestsResponse,
+  SubmitRecoveryRequestInput,
+  ValidateIssuanceInput,
+  ValidateIssuanceResponse,
+  MyRolesResponse,
 } from '../types/api';
 
 /**
@@ -38,6 +65,7 @@ export class APIError extends Error {
  */
 export type ApiClient = {
   apiRequest<T>(endpoint: string, options?: RequestInit): Promise<T>;
+  apiDownload(endpoint: string, options?: RequestInit): Promise<Blob>;
 };
 
 /**
@@ -46,21 +74,19 @@ export type ApiClient = {
  *
  * @param baseUrl - Base URL for API requests
  * @param tokenGetter - Function that returns the auth token (or null)
- * @returns API client instance with apiRequest method
+ * @returns API client instance with apiRequest and apiDownload methods
  */
 export function createApiClient(
   baseUrl: string,
   tokenGetter: () => string | null
 ): ApiClient {
   /**
-   * Centralized fetch wrapper with automatic JSON parsing for both success and error responses
+   * Build request headers with the session token attached
    *
-   * @param endpoint - API endpoint (e.g., '/api/company')
-   * @param options - Fetch options (method, body, etc.)
-   * @returns Typed response data
-   * @throws APIError for non-ok responses or network errors
+   * @param options - Fetch options whose headers are extended
+   * @returns Headers for the request
    */
-  async function apiRequest<T>(endpoint: string, options?: RequestInit): Promise<T> {
+  function buildHeaders(options?: RequestInit): Headers {
     const token = tokenGetter();
     const headers = new Headers(options?.headers);
     
@@ -74,19 +100,45 @@ export function createApiClient(
       headers.set('Authorization', `Bearer ${token}`);
     }
     
-    // In demo mode, send user info in custom headers so backend knows which user
-    const userStr = getAuthUser();
-    if (userStr) {
-      try {
-        const user = JSON.parse(userStr);
-        headers.set('X-User-Uid', user.uid || '');
-        headers.set('X-User-Email', user.email || '');
-        headers.set('X-User-Role', user.role || '');
-      } catch (err) {
-        // Ignore parsing errors
-      }
+    return headers;
+  }
+
+  /**
+   * Convert fetch failures into APIError
+   *
+   * @param error - Error thrown while fetching
+   * @throws APIError for network errors, otherwise the original error
+   */
+  function rethrowFetchError(error: unknown): never {
+    // Re-throw APIError as-is
+    if (error instanceof APIError) {
+      throw error;
     }
-    
+
+    // Handle network errors
+    if (error instanceof TypeError && error.message === 'Failed to fetch') {
+      throw new APIError(
+        0,
+        'Network error: Failed to connect to server',
+        error
+      );
+    }
+
+    // Re-throw other errors
+    throw error;
+  }
+
+  /**
+   * Centralized fetch wrapper with automatic JSON parsing for both success and error responses
+   *
+   * @param endpoint - API endpoint (e.g., '/api/companies')
+   * @param options - Fetch options (method, body, etc.)
+   * @returns Typed response data
+   * @throws APIError for non-ok responses or network errors
+   */
+  async function apiRequest<T>(endpoint: string, options?: RequestInit): Promise<T> {
+    const headers = buildHeaders(options);
+
     try {
       const res = await fetch(`${baseUrl}${endpoint}`, {
         ...options,
@@ -106,26 +158,45 @@ export function createApiClient(
       
       return data as T;
     } catch (error) {
-      // Re-throw APIError as-is
-      if (error instanceof APIError) {
-        throw error;
-      }
-      
-      // Handle network errors
-      if (error instanceof TypeError && error.message === 'Failed to fetch') {
-        throw new APIError(
-          0,
-          'Network error: Failed to connect to server',
-          error
-        );
+      rethrowFetchError(error);
+    }
+  }
+
+  /**
+   * Fetch wrapper for file downloads; returns the raw body instead of parsed JSON
+   *
+   * @param endpoint - API endpoint (e.g., '/api/companies/1/cap-table/export')
+   * @param options - Fetch options (method, body, etc.)
+   * @returns Response body as a Blob
+   * @throws APIError for non-ok responses (JSON error body) or network errors
+   */
+  async function apiDownload(
+    endpoint: string,
+    options?: RequestInit,
+  ): Promise<Blob> {
+    const headers = buildHeaders(options);
+
+    try {
+      const res = await fetch(`${baseUrl}${endpoint}`, {
+        ...options,
+        headers,
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => undefined);
+        const errorMessage =
+          data?.message ?? data?.error ?? res.statusText ?? 'Unknown error';
+
+        throw new APIError(res.status, errorMessage, data);
       }
-      
-      // Re-throw other errors
-      throw error;
+
+      return await res.blob();
+    } catch (error) {
+      rethrowFetchError(error);
     }
   }
-  
-  return { apiRequest };
+
+  return { apiRequest, apiDownload };
 }
 
 /**
@@ -137,41 +208,160 @@ export const api = createApiClient(
   getAuthToken
 );
 
+// ============================================================================
+// Auth API Functions
+// ============================================================================
+
+/**
+ * Sign-In With Ethereum verification response
+ */
+export interface SignInResponse {
+  token: string;
+  expiresAt: number;
+  user: AuthContext;
+}
+
+/**
+ * Get a single-use nonce for a Sign-In With Ethereum message
+ * GET /api/auth/nonce
+ *
+ * @returns Nonce and its expiry (unix seconds)
+ * @throws APIError on error
+ */
+export async function getAuthNonce(): Promise<{ nonce: string; expiresAt: number }> {
+  return api.apiRequest<{ nonce: string; expiresAt: number }>('/api/auth/nonce');
+}
+
+/**
+ * Verify a signed Sign-In With Ethereum (EIP-4361) message and start a session
+ * POST /api/auth/verify
+ *
+ * @param message - Prepared SIWE message
+ * @param signature - Wallet signature of the message
+ * @returns Session token and the signed-in user
+ * @throws APIError on error (401 for invalid signature, nonce, domain or chain)
+ */
+export async function verifySignIn(
+  message: string,
+  signature: string,
+): Promise<SignInResponse> {
+  return api.apiRequest<SignInResponse>('/api/auth/verify', {
+    method: 'POST',
+    body: JSON.stringify({ message, signature }),
+  });
+}
+
+/**
+ * Get the user for the current session
+ * GET /api/auth/session
+ *
+ * @returns Signed-in user
+ * @throws APIError on error (401 if the session is invalid or expired)
+ */
+export async function getAuthSession(): Promise<{ user: AuthContext }> {
+  return api.apiRequest<{ user: AuthContext }>('/api/auth/session');
+}
+
+/**
+ * End the current session
+ * POST /api/auth/logout
+ *
+ * @returns Success response
+ * @throws APIError on error
+ */
+export async function logoutSession(): Promise<{ success: boolean }> {
+  return api.apiRequest<{ success: boolean }>('/api/auth/logout', {
+    method: 'POST',
+    body: JSON.stringify({}),
+  });
+}
+
+// ============================================================================
+// Company Registry API Functions
+// ============================================================================
+
+/**
+ * Build the path of a company-scoped endpoint
+ *
+ * @param companyId - Registered company ID
+ * @param path - Endpoint path below the company scope (e.g., '/shareholders')
+ * @returns Full endpoint path (e.g., '/api/companies/1/shareholders')
+ */
+export function companyPath(companyId: number, path: string): string {
+  return `/api/companies/${companyId}${path}`;
+}
+
+/**
+ * Get every company indexed by the backend
+ * GET /api/companies
+ *
+ * @returns Registered companies, oldest first
+ * @throws APIError on error
+ */
+export async function getCompanies(): Promise<CompaniesResponse> {
+  return api.apiRequest<CompaniesResponse>('/api/companies');
+}
+
 // ============================================================================
 // Company API Functions
 // ============================================================================
 
 /**
  * Get company information
- * GET /api/company
+ * GET /api/companies/:companyId/company
  *
+ * @param companyId - Registered company ID
  * @returns Company information including name, symbol, issuer, token address, etc.
  * @throws APIError on error
  */
-export async function getCompany(): Promise<CompanyInfo> {
-  return api.apiRequest<CompanyInfo>('/api/company');
+export async function getCompany(companyId: number): Promise<CompanyInfo> {
+  return api.apiRequest<CompanyInfo>(companyPath(companyId, '/company'));
 }
 
 /**
  * Get company metadata
- * GET /api/company/metadata
+ * GET /api/companies/:companyId/company/metadata
  *
+ * @param companyId - Registered company ID
  * @returns Company metadata (name, symbol, issuer, creation timestamp, token link status)
  * @throws APIError on error
  */
-export async function getCompanyMetadata(): Promise<CompanyMetadata> {
-  return api.apiRequest<CompanyMetadata>('/api/company/metadata');
+export async function getCompanyMetadata(
+  companyId: number,
+): Promise<CompanyMetadata> {
+  return api.apiRequest<CompanyMetadata>(
+    companyPath(companyId, '/company/metadata'),
+  );
 }
 
 /**
  * Get company statistics for dashboard
- * GET /api/company/stats
+ * GET /api/companies/:companyId/company/stats
  *
+ * @param companyId - Registered company ID
  * @returns Comprehensive company statistics including totals, shareholders count, etc.
  * @throws APIError on error
  */
-export async function getCompanyStats(): Promise<CompanyStats> {
-  return api.apiRequest<CompanyStats>('/api/company/stats');
+export async function getCompanyStats(
+  companyId: number,
+): Promise<CompanyStats> {
+  return api.apiRequest<CompanyStats>(companyPath(companyId, '/company/stats'));
+}
+
+/**
+ * Get the authorized shares history with the outstanding supply at each change
+ * GET /api/companies/:companyId/company/authorized-shares
+ *
+ * @param companyId - Registered company ID
+ * @returns Authorized shares changes in chronological order
+ * @throws APIError on error
+ */
+export async function getAuthorizedSharesHistory(
+  companyId: number,
+): Promise<AuthorizedSharesHistoryResponse> {
+  return api.apiRequest<AuthorizedSharesHistoryResponse>(
+    companyPath(companyId, '/company/authorized-shares'),
+  );
 }
 
 // ============================================================================
@@ -180,13 +370,15 @@ export async function getCompanyStats(): Promise<CompanyStats> {
 
 /**
  * Get paginated list of shareholders (cap table)
- * GET /api/shareholders
+ * GET /api/companies/:companyId/shareholders
  *
+ * @param companyId - Registered company ID
  * @param params - Query parameters (limit, offset)
  * @returns Paginated shareholders response with pagination metadata and supply info
  * @throws APIError on error
  */
 export async function getShareholders(
+  companyId: number,
   params?: ShareholdersQueryParams
 ): Promise<ShareholdersResponse> {
   const searchParams = new URLSearchParams();
@@ -202,66 +394,535 @@ export async function getShareholders(
   }
   
   const queryString = searchParams.toString();
-  const endpoint = queryString ? `/api/shareholders?${queryString}` : '/api/shareholders';
+  const endpoint = queryString
+    ? `/shareholders?${queryString}`
+    : '/shareholders';
   
-  return api.apiRequest<ShareholdersResponse>(endpoint);
+  return api.apiRequest<ShareholdersResponse>(companyPath(companyId, endpoint));
 }
 
 /**
  * Get individual shareholder details
- * GET /api/shareholders/:address
+ * GET /api/companies/:companyId/shareholders/:address
  *
+ * @param companyId - Registered company ID
  * @param address - Shareholder Ethereum address
  * @returns Shareholder details including balance, effective balance, ownership percentage
  * @throws APIError on error (404 if shareholder not found)
  */
-export async function getShareholder(address: string): Promise<Shareholder> {
-  return api.apiRequest<Shareholder>(`/api/shareholders/${encodeURIComponent(address)}`);
+export async function getShareholder(
+  companyId: number,
+  address: string,
+): Promise<Shareholder> {
+  return api.apiRequest<Shareholder>(
+    companyPath(companyId, `/shareholders/${encodeURIComponent(address)}`),
+  );
 }
 
 /**
  * Get current user's shareholder information
- * GET /api/shareholders/me
+ * GET /api/companies/:companyId/shareholders/me
  * Queries by user ID (foundational), not wallet address
  *
+ * @param companyId - Registered company ID
  * @returns Shareholder details for authenticated user's linked wallet
  * @throws APIError on error (404 if wallet not linked)
  */
-export async function getMyShareholder(): Promise<Shareholder> {
-  return api.apiRequest<Shareholder>('/api/shareholders/me');
+export async function getMyShareholder(
+  companyId: number,
+): Promise<Shareholder> {
+  return api.apiRequest<Shareholder>(
+    companyPath(companyId, '/shareholders/me'),
+  );
 }
 
 /**
  * Get pending wallet approvals
- * GET /api/shareholders/pending
+ * GET /api/companies/:companyId/shareholders/pending
  *
+ * @param companyId - Registered company ID
  * @returns List of investors with linked wallets that are not approved on contract
  * @throws APIError on error
  */
-export async function getPendingApprovals(): Promise<PendingApprovalsResponse> {
-  return api.apiRequest<PendingApprovalsResponse>('/api/shareholders/pending');
+export async function getPendingApprovals(
+  companyId: number,
+): Promise<PendingApprovalsResponse> {
+  return api.apiRequest<PendingApprovalsResponse>(
+    companyPath(companyId, '/shareholders/pending'),
+  );
 }
 
 /**
  * Get approved wallet users
- * GET /api/shareholders/approved
+ * GET /api/companies/:companyId/shareholders/approved
  *
+ * @param companyId - Registered company ID
  * @returns List of investors with linked wallets that are approved on contract
  * @throws APIError on error
  */
-export async function getApprovedUsers(): Promise<ApprovedUsersResponse> {
-  return api.apiRequest<ApprovedUsersResponse>('/api/shareholders/approved');
+export async function getApprovedUsers(
+  companyId: number,
+): Promise<ApprovedUsersResponse> {
+  return api.apiRequest<ApprovedUsersResponse>(
+    companyPath(companyId, '/shareholders/approved'),
+  );
 }
 
 /**
  * Get list of blocks with transactions
- * GET /api/shareholders/blocks
+ * GET /api/companies/:companyId/shareholders/blocks
  *
+ * @param companyId - Registered company ID
  * @returns List of distinct block numbers that have transactions
  * @throws APIError on error
  */
-export async function getBlocksWithTransactions(): Promise<{ blocks: number[] }> {
-  return api.apiRequest<{ blocks: number[] }>('/api/shareholders/blocks');
+export async function getBlocksWithTransactions(
+  companyId: number,
+): Promise<{ blocks: number[] }> {
+  return api.apiRequest<{ blocks: number[] }>(
+    companyPath(companyId, '/shareholders/blocks'),
+  );
+}
+
+// ============================================================================
+// Cap Table Export API Functions
+// ============================================================================
+
+/**
+ * Supported cap table export formats
+ */
+export type CapTableExportFormat = 'csv' | 'json';
+
+/**
+ * Export the cap table as a downloadable file
+ * GET /api/companies/:companyId/cap-table/export
+ *
+ * @param companyId - Registered company ID
+ * @param format - File format (csv or json)
+ * @param blockNumber - Block to export (defaults to the last indexed block)
+ * @returns File contents as a Blob
+ * @throws APIError on error (400 for invalid format or a block not indexed yet, 403 unless issuer/admin)
+ */
+export async function exportCapTable(
+  companyId: number,
+  format: CapTableExportFormat,
+  blockNumber?: number,
+): Promise<Blob> {
+  const searchParams = new URLSearchParams({ format });
+
+  if (blockNumber !== undefined) {
+    searchParams.set('block', blockNumber.toString());
+  }
+
+  return api.apiDownload(
+    companyPath(companyId, `/cap-table/export?${searchParams.toString()}`),
+  );
+}
+
+/**
+ * Get wallets currently on the token allowlist
+ * GET /api/companies/:companyId/allowlist
+ *
+ * @param companyId - Registered company ID
+ * @returns Approved wallets with linked user display names where available
+ * @throws APIError on error
+ */
+export async function getAllowlist(
+  companyId: number,
+): Promise<AllowlistResponse> {
+  return api.apiRequest<AllowlistResponse>(
+    companyPath(companyId, '/allowlist'),
+  );
+}
+
+/**
+ * Get the Merkle allowlist root published on the token and the latest generated tree
+ * GET /api/companies/:companyId/allowlist/root
+ *
+ * @param companyId - Registered company ID
+ * @returns Published root and whether the latest tree still has to be published
+ * @throws APIError on error
+ */
+export async function getAllowlistRoot(
+  companyId: number,
+): Promise<AllowlistRootResponse> {
+  return api.apiRequest<AllowlistRootResponse>(
+    companyPath(companyId, '/allowlist/root'),
+  );
+}
+
+/**
+ * Regenerate the Merkle allowlist tree from the KYC-approved wallets
+ * POST /api/companies/:companyId/allowlist/tree (issuer/admin only)
+ *
+ * @param companyId - Registered company ID
+ * @returns Generated tree; publish its root with setAllowlistRoot()
+ * @throws APIError on error (400 if no wallet is KYC-approved)
+ */
+export async function regenerateAllowlistTree(
+  companyId: number,
+): Promise<AllowlistTree> {
+  return api.apiRequest<AllowlistTree>(
+    companyPath(companyId, '/allowlist/tree'),
+    {
+      method: 'POST',
+      body: JSON.stringify({}),
+    },
+  );
+}
+
+/**
+ * Get a wallet's Merkle proof against the published allowlist root
+ * GET /api/companies/:companyId/allowlist/proof/:address
+ *
+ * @param companyId - Registered company ID
+ * @param address - Wallet address
+ * @returns Proof for transferWithProof()/mintWithProof()
+ * @throws APIError on error (404 if no backend-generated root is published)
+ */
+export async function getAllowlistProof(
+  companyId: number,
+  address: string,
+): Promise<AllowlistProofResponse> {
+  return api.apiRequest<AllowlistProofResponse>(
+    companyPath(companyId, `/allowlist/proof/${address}`),
+  );
+}
+
+// ============================================================================
+// KYC API Functions
+// ============================================================================
+
+/**
+ * Review actions an issuer/admin can take on a KYC request
+ */
+export type KycReviewAction = 'review' | 'approve' | 'deny';
+
+/**
+ * Get the current user's most recent KYC request
+ * GET /api/kyc/requests/me
+ *
+ * @returns KYC request (null if none submitted) with its status history
+ * @throws APIError on error
+ */
+export async function getMyKycRequest(): Promise<KycRequestResponse> {
+  return api.apiRequest<KycRequestResponse>('/api/kyc/requests/me');
+}
+
+/**
+ * Submit a KYC request for the signed-in investor's linked wallet
+ * POST /api/kyc/requests
+ *
+ * @param input - Identity details and SHA-256 hashes of the supporting documents
+ * @returns Created KYC request with its status history
+ * @throws APIError on error (409 if a request is already open)
+ */
+export async function submitKycRequest(
+  input: SubmitKycRequestInput,
+): Promise<KycRequestResponse> {
+  return api.apiRequest<KycRequestResponse>('/api/kyc/requests', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Get the KYC review queue
+ * GET /api/kyc/requests (issuer/admin only)
+ *
+ * @param status - Optional status filter
+ * @returns KYC requests, oldest first
+ * @throws APIError on error
+ */
+export async function getKycRequests(
+  status?: KycRequestStatus,
+): Promise<KycRequestsResponse> {
+  const endpoint = status
+    ? `/api/kyc/requests?status=${encodeURIComponent(status)}`
+    : '/api/kyc/requests';
+  return api.apiRequest<KycRequestsResponse>(endpoint);
+}
+
+/**
+ * Move a KYC request through review
+ * POST /api/kyc/requests/:id/review | approve | deny (issuer/admin only)
+ *
+ * @param id - KYC request ID
+ * @param action - Review action
+ * @param reason - Decision reason (required to deny)
+ * @returns Updated KYC request with its status history
+ * @throws APIError on error (409 if the request's status does not allow the action)
+ */
+export async function reviewKycRequest(
+  id: number,
+  action: KycReviewAction,
+  reason?: string,
+): Promise<KycRequestResponse> {
+  return api.apiRequest<KycRequestResponse>(
+    `/api/kyc/requests/${id}/${action}`,
+    {
+      method: 'POST',
+      body: JSON.stringify(reason ? { reason } : {}),
+    },
+  );
+}
+
+// ============================================================================
+// Split API Functions
+// ============================================================================
+
+/**
+ * Get holders left with fractional shares under the current split factor
+ * GET /api/companies/:companyId/splits/fractional
+ *
+ * @param companyId - Registered company ID
+ * @returns Fractional remainders and cash-in-lieu amounts per holder
+ * @throws APIError on error
+ */
+export async function getFractionalRemainders(
+  companyId: number,
+): Promise<FractionalRemaindersResponse> {
+  return api.apiRequest<FractionalRemaindersResponse>(
+    companyPath(companyId, '/splits/fractional'),
+  );
+}
+
+/**
+ * Preview every holder's position for a proposed split multiplier
+ * GET /api/companies/:companyId/splits/preview
+ *
+ * @param companyId - Registered company ID
+ * @param multiplier - Decimal multiplier (e.g. '7' for 7-for-1, '0.1' for 1-for-10)
+ * @returns Current and post-split positions with fractional totals
+ * @throws APIError on error
+ */
+export async function getSplitPreview(
+  companyId: number,
+  multiplier: string,
+): Promise<SplitPreviewResponse> {
+  return api.apiRequest<SplitPreviewResponse>(
+    companyPath(
+      companyId,
+      `/splits/preview?multiplier=${encodeURIComponent(multiplier)}`,
+    ),
+  );
+}
+
+// ============================================================================
+// Vesting API Functions
+// ============================================================================
+
+/**
+ * Get an address's vesting grants with vested/unvested amounts and timelines
+ * GET /api/companies/:companyId/vesting/:address
+ *
+ * @param companyId - Registered company ID
+ * @param address - Beneficiary Ethereum address
+ * @returns Vesting totals and grants (empty if the address has none)
+ * @throws APIError on error
+ */
+export async function getVesting(
+  companyId: number,
+  address: string,
+): Promise<VestingResponse> {
+  return api.apiRequest<VestingResponse>(
+    companyPath(companyId, `/vesting/${encodeURIComponent(address)}`),
+  );
+}
+
+// ============================================================================
+// Lockup API Functions
+// ============================================================================
+
+/**
+ * Get the company-wide lock-up, holding period and wallet lock-ups
+ * GET /api/companies/:companyId/lockups
+ *
+ * @param companyId - Registered company ID
+ * @returns Lock-up settings and every wallet lock-up
+ * @throws APIError on error
+ */
+export async function getLockups(companyId: number): Promise<LockupsResponse> {
+  return api.apiRequest<LockupsResponse>(companyPath(companyId, '/lockups'));
+}
+
+/**
+ * Get whether transfers from a wallet are blocked by a lock-up
+ * GET /api/companies/:companyId/lockups/:address
+ *
+ * @param companyId - Registered company ID
+ * @param address - Wallet address
+ * @returns Lock-up status with the reason and end time
+ * @throws APIError on error
+ */
+export async function getWalletLockup(
+  companyId: number,
+  address: string,
+): Promise<WalletLockupStatus> {
+  return api.apiRequest<WalletLockupStatus>(
+    companyPath(companyId, `/lockups/${encodeURIComponent(address)}`),
+  );
+}
+
+/**
+ * Check whether the token would reject a transfer before it is signed
+ * POST /api/companies/:companyId/transfers/precheck
+ *
+ * @param companyId - Company to query
+ * @param input - Sender, recipient and amount (base units)
+ * @returns ERC-1404 restriction code and message, and whether the sender's balance suffices
+ * @throws APIError on error (400 for invalid addresses or amount)
+ */
+export async function precheckTransfer(
+  companyId: number,
+  input: TransferPrecheckInput,
+): Promise<TransferPrecheckResponse> {
+  return api.apiRequest<TransferPrecheckResponse>(
+    companyPath(companyId, '/transfers/precheck'),
+    {
+      method: 'POST',
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+/**
+ * Validate a batch issuance before submitting batchMint()
+ * POST /api/companies/:companyId/issuances/validate
+ *
+ * @param companyId - Company to query
+ * @param input - Recipients and amounts (base units), up to 500 rows
+ * @returns Per-row problems, wallets still to approve and the authorized headroom
+ * @throws APIError on error (400 for malformed rows, 403 for non issuer/admin)
+ */
+export async function validateIssuance(
+  companyId: number,
+  input: ValidateIssuanceInput,
+): Promise<ValidateIssuanceResponse> {
+  return api.apiRequest<ValidateIssuanceResponse>(
+    companyPath(companyId, '/issuances/validate'),
+    {
+      method: 'POST',
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+// ============================================================================
+// Compliance API Functions
+// ============================================================================
+
+/**
+ * Get the compliance and module settings of the active and share class tokens
+ * GET /api/companies/:companyId/compliance
+ *
+ * @param companyId - Registered company ID
+ * @returns Compliance settings per token
+ * @throws APIError on error
+ */
+export async function getCompliance(
+  companyId: number,
+): Promise<ComplianceResponse> {
+  return api.apiRequest<ComplianceResponse>(
+    companyPath(companyId, '/compliance'),
+  );
+}
+
+/**
+ * Get every indexed compliance configuration change of a token
+ * GET /api/companies/:companyId/compliance/history
+ *
+ * @param companyId - Registered company ID
+ * @param tokenAddress - Token address (defaults to the active token)
+ * @returns Configuration changes in chain order
+ * @throws APIError on error (400 for an invalid token address)
+ */
+export async function getComplianceHistory(
+  companyId: number,
+  tokenAddress?: string,
+): Promise<ComplianceHistoryResponse> {
+  const query = tokenAddress
+    ? `?tokenAddress=${encodeURIComponent(tokenAddress)}`
+    : '';
+  return api.apiRequest<ComplianceHistoryResponse>(
+    companyPath(companyId, `/compliance/history${query}`),
+  );
+}
+
+// ============================================================================
+// Recovery API Functions
+// ============================================================================
+
+/**
+ * Admin decisions on a wallet recovery request
+ */
+export type RecoveryDecision = 'approve' | 'reject';
+
+/**
+ * Request the recovery of a lost wallet's shares to a new wallet
+ * POST /api/companies/:companyId/recovery/requests
+ *
+ * @param companyId - Registered company ID
+ * @param input - Lost and new wallet (an investor's own session wallet) and why the key was lost
+ * @returns Created recovery request with its status history
+ * @throws APIError on error (409 if a request for the lost wallet is already open)
+ */
+export async function submitRecoveryRequest(
+  companyId: number,
+  input: SubmitRecoveryRequestInput,
+): Promise<RecoveryRequestResponse> {
+  return api.apiRequest<RecoveryRequestResponse>(
+    companyPath(companyId, '/recovery/requests'),
+    {
+      method: 'POST',
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+/**
+ * Get the wallet recovery review queue
+ * GET /api/companies/:companyId/recovery/requests (issuer/admin only)
+ *
+ * @param companyId - Registered company ID
+ * @param status - Optional status filter
+ * @returns Recovery requests, oldest first
+ * @throws APIError on error
+ */
+export async function getRecoveryRequests(
+  companyId: number,
+  status?: RecoveryRequestStatus,
+): Promise<RecoveryRequestsResponse> {
+  const path = status
+    ? `/recovery/requests?status=${encodeURIComponent(status)}`
+    : '/recovery/requests';
+  return api.apiRequest<RecoveryRequestsResponse>(companyPath(companyId, path));
+}
+
+/**
+ * Approve or reject a pending recovery request
+ * POST /api/companies/:companyId/recovery/requests/:id/approve | reject (admin only)
+ *
+ * @param companyId - Registered company ID
+ * @param id - Recovery request ID
+ * @param decision - Admin decision
+ * @param reason - Decision reason (required to reject)
+ * @returns Updated recovery request with its status history
+ * @throws APIError on error (409 if the request is no longer pending)
+ */
+export async function decideRecoveryRequest(
+  companyId: number,
+  id: number,
+  decision: RecoveryDecision,
+  reason?: string,
+): Promise<RecoveryRequestResponse> {
+  return api.apiRequest<RecoveryRequestResponse>(
+    companyPath(companyId, `/recovery/requests/${id}/${decision}`),
+    {
+      method: 'POST',
+      body: JSON.stringify(reason ? { reason } : {}),
+    },
+  );
 }
 
 // ============================================================================
@@ -270,13 +931,15 @@ export async function getBlocksWithTransactions(): Promise<{ blocks: number[] }>
 
 /**
  * Get paginated transaction history with optional filtering
- * GET /api/transactions
+ * GET /api/companies/:companyId/transactions
  *
+ * @param companyId - Registered company ID
  * @param params - Query parameters (limit, offset, eventType, address, fromDate, toDate)
  * @returns Paginated transactions response
  * @throws APIError on error
  */
 export async function getTransactions(
+  companyId: number,
   params?: TransactionsQueryParams
 ): Promise<TransactionsResponse> {
   const searchParams = new URLSearchParams();
@@ -301,25 +964,47 @@ export async function getTransactions(
   }
   
   const queryString = searchParams.toString();
-  const endpoint = queryString ? `/api/transactions?${queryString}` : '/api/transactions';
+  const endpoint = queryString
+    ? `/transactions?${queryString}`
+    : '/transactions';
   
-  return api.apiRequest<TransactionsResponse>(endpoint);
+  return api.apiRequest<TransactionsResponse>(companyPath(companyId, endpoint));
 }
 
 /**
  * Get transaction details by transaction hash
- * GET /api/transactions/:txHash
+ * GET /api/companies/:companyId/transactions/:txHash
  *
+ * @param companyId - Registered company ID
  * @param txHash - Transaction hash (0x-prefixed hex string)
  * @returns Transaction detail with all events in the transaction
  * @throws APIError on error (404 if transaction not found)
  */
-export async function getTransactionByHash(txHash: string): Promise<TransactionDetail> {
+export async function getTransactionByHash(
+  companyId: number,
+  txHash: string,
+): Promise<TransactionDetail> {
   return api.apiRequest<TransactionDetail>(
-    `/api/transactions/${encodeURIComponent(txHash)}`
+    companyPath(companyId, `/transactions/${encodeURIComponent(txHash)}`),
   );
 }
 
+// ============================================================================
+// Role API Functions
+// ============================================================================
+
+/**
+ * Get the on-chain roles the caller's linked wallet holds on a company
+ * GET /api/companies/:companyId/roles/me
+ *
+ * @param companyId - Registered company ID
+ * @returns Linked wallet and its roles on the company's token and cap table
+ * @throws APIError on error (401 without a session)
+ */
+export async function getMyRoles(companyId: number): Promise<MyRolesResponse> {
+  return api.apiRequest<MyRolesResponse>(companyPath(companyId, '/roles/me'));
+}
+
 // ============================================================================
 // Wallet API Functions
 // ============================================================================
@@ -393,7 +1078,7 @@ export interface InvestorWithWallet {
 
 /**
  * Get list of investors with linked wallets
- * GET /api/wallet/investors
+ * GET /api/wallet/investors (issuer/admin only)
  *
  * @returns List of investors with their linked wallet addresses
  * @throws APIError on error
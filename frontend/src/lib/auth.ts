@@ -1,8 +1,6 @@
 /**
  * @file Authentication utilities for ChainEquity frontend
- * @notice Demo mode: Mock token helpers for API integration
- *
- * @note Post-Demo: These will be replaced with real JWT token management
+ * @notice localStorage helpers for the Sign-In With Ethereum session token and user
  */
 
 /**
@@ -0,0 +1,27 @@
+/**
+ * @file Company selection utilities for ChainEquity frontend
+ * @notice localStorage helpers for the company selected in the company switcher
+ */
+
+/**
+ * Storage key for the selected company ID in localStorage
+ */
+const SELECTED_COMPANY_KEY = 'chain-equity-selected-company';
+
+/**
+ * Get the selected company ID from localStorage
+ * @returns Company ID or null if none is stored
+ */
+export function getSelectedCompanyId(): number | null {
+  const stored = localStorage.getItem(SELECTED_COMPANY_KEY);
+  const id = Number(stored);
+  return stored !== null && Number.isInteger(id) ? id : null;
+}
+
+/**
+ * Set the selected company ID in localStorage
+ * @param companyId - Registered company ID
+ */
+export function setSelectedCompanyId(companyId: number): void {
+  localStorage.setItem(SELECTED_COMPANY_KEY, companyId.toString());
+}
@@ -4,6 +4,7 @@ import { BrowserRouter } from 'react-router-dom';
 import './index.css';
 import App from './App.tsx';
 import { AuthProvider } from './contexts/AuthContext';
+import { CompanyProvider } from './contexts/CompanyContext';
 import { Providers } from './provider';
 
 createRoot(document.getElementById('root')!).render(
@@ -11,7 +12,9 @@ createRoot(document.getElementById('root')!).render(
     <BrowserRouter>
       <Providers>
         <AuthProvider>
-          <App />
+          <CompanyProvider>
+            <App />
+          </CompanyProvider>
         </AuthProvider>
       </Providers>
     </BrowserRouter>
@@ -1,13 +1,17 @@
 /**
  * @file Admin page for ChainEquity frontend
- * @notice Admin-only page with corporate actions: share splits and symbol changes
+ * @notice Admin-only page with corporate actions (share splits and symbol changes) and the
+ *         create company wizard
  */
 
 import { useAuth } from '@/hooks/useAuth';
 import { useCompanyStats } from '@/hooks/useApi';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ExecuteSplitForm } from '@/components/ExecuteSplitForm';
 import { ChangeSymbolForm } from '@/components/ChangeSymbolForm';
+import { AmendAuthorizedSharesForm } from '@/components/AmendAuthorizedSharesForm';
+import { CreateCompanyWizard } from '@/components/CreateCompanyWizard';
 import { Loader2, AlertCircle } from 'lucide-react';
 
 /**
@@ -16,6 +20,7 @@ import { Loader2, AlertCircle } from 'lucide-react';
  */
 export function Admin() {
   const { user } = useAuth();
+  const { companyId } = useSelectedCompany();
   const { data: companyStats, isLoading, isError, error } = useCompanyStats();
 
   if (isLoading) {
@@ -59,7 +64,7 @@ export function Admin() {
         </p>
       </div>
 
-      {!tokenAddress && (
+      {companyId !== null && !tokenAddress && (
         <Card className="border-yellow-200 dark:border-yellow-900">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -80,9 +85,12 @@ export function Admin() {
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <ExecuteSplitForm tokenAddress={tokenAddress} />
           <ChangeSymbolForm tokenAddress={tokenAddress} />
+          <AmendAuthorizedSharesForm tokenAddress={tokenAddress} />
         </div>
       )}
 
+      <CreateCompanyWizard />
+
       <Card>
         <CardHeader>
           <CardTitle>Admin Information</CardTitle>
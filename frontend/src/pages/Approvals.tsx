@@ -1,15 +1,25 @@
 /**
  * @file Approvals page
- * @notice Dashboard for issuer/admin users to approve investor wallets on the contract allowlist
+ * @notice Dashboard for issuer/admin users to review KYC requests, approve investor wallets
+ *         on the contract allowlist (one by one or with a Merkle root) and handle lost-wallet
+ *         recovery requests
  */
 
 import { useNavigate } from 'react-router-dom';
-import { usePendingApprovals, useApprovedUsers, useCompanyStats } from '@/hooks/useApi';
+import {
+  usePendingApprovals,
+  useApprovedUsers,
+  useCompanyAccess,
+  useCompanyStats,
+  useKycRequests,
+  useRecoveryRequests,
+} from '@/hooks/useApi';
 import { useAuth } from '@/hooks/useAuth';
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
-import { useQueryClient } from '@tanstack/react-query';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useEffect, useState } from 'react';
 import { useNetworkAutoSwitch } from '@/hooks/useNetworkAutoSwitch';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
 import {
   Card,
   CardContent,
@@ -18,9 +28,21 @@ import {
   CardDescription,
 } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { KycStatusBadge } from '@/components/KycStatusBadge';
+import { RecoveryStatusBadge } from '@/components/RecoveryStatusBadge';
+import { MerkleAllowlistCard } from '@/components/MerkleAllowlistCard';
 import { ArrowLeft, Loader2, CheckCircle2, XCircle, Copy, AlertCircle } from 'lucide-react';
 import { chainEquityToken } from '@/config/contracts';
 import { formatAddress } from '@/lib/utils';
+import {
+  decideRecoveryRequest,
+  reviewKycRequest,
+  type APIError,
+  type KycReviewAction,
+  type RecoveryDecision,
+} from '@/lib/api';
+import type { KycRequest, RecoveryRequest } from '@/types/api';
 
 /**
  * Approvals page component
@@ -34,12 +56,20 @@ export function Approvals() {
   const { data: stats } = useCompanyStats();
   const { data, isLoading, isError, error, refetch } = usePendingApprovals();
   const { data: approvedData, isLoading: isLoadingApproved } = useApprovedUsers();
+  // The KYC review queue is global and stays issuer/admin only
+  const isIssuer = user?.role === 'issuer' || user?.role === 'admin';
+  const { data: kycData, isLoading: isLoadingKyc } = useKycRequests(
+    undefined,
+    isIssuer,
+  );
+  const { data: recoveryData, isLoading: isLoadingRecovery } =
+    useRecoveryRequests();
   const queryClient = useQueryClient();
 
   const tokenAddress = stats?.tokenAddress;
 
-  // Check if user has issuer/admin role
-  const canApprove = user?.role === 'issuer' || user?.role === 'admin';
+  // Issuers/admins, or holders of COMPLIANCE_ROLE on this company
+  const { allowed: canApprove } = useCompanyAccess('COMPLIANCE_ROLE');
 
   if (!canApprove) {
     return (
@@ -48,12 +78,15 @@ export function Approvals() {
           <CardHeader>
             <CardTitle className="text-destructive">Access Denied</CardTitle>
             <CardDescription>
-              Only issuers and administrators can approve wallets
+              Only issuers, administrators and compliance officers can approve
+              wallets
             </CardDescription>
           </CardHeader>
           <CardContent>
             <p className="mb-4 text-muted-foreground">
-              Your role ({user?.role}) does not have permission to approve wallets.
+              Your role ({user?.role}) does not have permission to approve
+              wallets, and your wallet does not hold COMPLIANCE_ROLE on this
+              company.
             </p>
             <Button onClick={() => navigate('/')}>Go to Dashboard</Button>
           </CardContent>
@@ -88,6 +121,15 @@ export function Approvals() {
 
   const pending = data?.pending || [];
   const approved = approvedData?.approved || [];
+  // Review queue: everything not yet decided or not yet on the allowlist
+  const kycQueue = (kycData?.requests || []).filter(
+    request =>
+      request.status !== 'denied' && request.status !== 'on_chain_approved',
+  );
+  // Recovery queue: pending admin decision or approved but not yet executed on-chain
+  const recoveryQueue = (recoveryData?.requests || []).filter(
+    request => request.status === 'pending' || request.status === 'approved',
+  );
 
   return (
     <div className="max-w-6xl mx-auto p-6 space-y-6">
@@ -110,6 +152,121 @@ export function Approvals() {
         </div>
       </div>
 
+      {/* KYC Review Queue Card (the queue is global, issuer/admin only) */}
+      {isIssuer && (
+        <Card>
+          <CardHeader>
+            <CardTitle>KYC Review Queue</CardTitle>
+            <CardDescription>
+              Review identity submissions. Approved requests move to approved
+              on-chain once the wallet's approval transaction is indexed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingKyc ? (
+              <div className="text-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+                <p className="text-muted-foreground">Loading KYC requests...</p>
+              </div>
+            ) : kycQueue.length === 0 ? (
+              <div className="text-center py-8">
+                <p className="text-muted-foreground">
+                  No KYC requests waiting for review.
+                </p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-3 font-semibold">Name</th>
+                      <th className="text-left p-3 font-semibold">
+                        Jurisdiction
+                      </th>
+                      <th className="text-left p-3 font-semibold">
+                        Accreditation
+                      </th>
+                      <th className="text-left p-3 font-semibold">
+                        Wallet Address
+                      </th>
+                      <th className="text-left p-3 font-semibold">Status</th>
+                      <th className="text-right p-3 font-semibold">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {kycQueue.map(request => (
+                      <KycReviewRow
+                        key={request.id}
+                        request={request}
+                        tokenAddress={tokenAddress}
+                        canWrite={
+                          isConnected && isCorrectNetwork && !isSwitching
+                        }
+                        queryClient={queryClient}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Wallet Recovery Requests Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Wallet Recovery Requests</CardTitle>
+          <CardDescription>
+            Shareholders who lost a wallet request its recovery to a new one. An
+            administrator approves the request, then the issuer moves the shares
+            and allowlist approval on-chain.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoadingRecovery ? (
+            <div className="text-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+              <p className="text-muted-foreground">
+                Loading recovery requests...
+              </p>
+            </div>
+          ) : recoveryQueue.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-muted-foreground">
+                No wallet recovery requests waiting.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-3 font-semibold">Lost Wallet</th>
+                    <th className="text-left p-3 font-semibold">New Wallet</th>
+                    <th className="text-left p-3 font-semibold">Reason</th>
+                    <th className="text-left p-3 font-semibold">Status</th>
+                    <th className="text-right p-3 font-semibold">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recoveryQueue.map(request => (
+                    <RecoveryReviewRow
+                      key={request.id}
+                      request={request}
+                      tokenAddress={tokenAddress}
+                      canDecide={user?.role === 'admin'}
+                      canWrite={isConnected && isCorrectNetwork && !isSwitching}
+                      queryClient={queryClient}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Pending Approvals Card */}
       <Card>
         <CardHeader>
@@ -263,10 +420,318 @@ export function Approvals() {
           )}
         </CardContent>
       </Card>
+
+      <MerkleAllowlistCard
+        tokenAddress={tokenAddress}
+        isConnected={isConnected}
+        isCorrectNetwork={isCorrectNetwork}
+        isSwitching={isSwitching}
+      />
     </div>
   );
 }
 
+/**
+ * KYC review row component
+ * Review actions go through the backend; the final step is the on-chain approveWallet call
+ */
+function KycReviewRow({
+  request,
+  tokenAddress,
+  canWrite,
+  queryClient,
+}: {
+  request: KycRequest;
+  tokenAddress: string | null | undefined;
+  canWrite: boolean;
+  queryClient: ReturnType<typeof useQueryClient>;
+}) {
+  const [reason, setReason] = useState('');
+
+  const reviewMutation = useMutation<unknown, APIError, KycReviewAction>({
+    mutationFn: action => reviewKycRequest(request.id, action, reason),
+    onSuccess: () => {
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['kyc'] });
+    },
+  });
+
+  const {
+    data: txHash,
+    writeContract,
+    isPending,
+    error: writeError,
+  } = useWriteContract();
+
+  const { isLoading: confirming, isSuccess } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  // The indexer reconciles the request once WalletApproved is indexed
+  useEffect(() => {
+    if (isSuccess && txHash) {
+      queryClient.invalidateQueries({ queryKey: ['kyc'] });
+      queryClient.invalidateQueries({ queryKey: ['shareholders', 'pending'] });
+      queryClient.invalidateQueries({ queryKey: ['shareholders', 'approved'] });
+      queryClient.invalidateQueries({ queryKey: ['allowlist'] });
+    }
+  }, [isSuccess, txHash, queryClient]);
+
+  const handleApproveOnChain = () => {
+    if (!tokenAddress || !canWrite) {
+      return;
+    }
+    writeContract({
+      address: tokenAddress as `0x${string}`,
+      abi: chainEquityToken.abi,
+      functionName: 'approveWallet',
+      args: [request.walletAddress as `0x${string}`],
+    });
+  };
+
+  const isBusy = reviewMutation.isPending || isPending || confirming;
+  const error = reviewMutation.error || writeError;
+
+  return (
+    <tr className="border-b hover:bg-muted/50 align-top">
+      <td className="p-3">{request.fullName}</td>
+      <td className="p-3">{request.jurisdiction}</td>
+      <td className="p-3">
+        {request.accreditationStatus === 'accredited'
+          ? 'Accredited'
+          : 'Non-accredited'}
+      </td>
+      <td className="p-3 font-mono text-sm">
+        {formatAddress(request.walletAddress)}
+      </td>
+      <td className="p-3">
+        <KycStatusBadge status={request.status} />
+      </td>
+      <td className="p-3">
+        <div className="flex flex-col items-end gap-2">
+          {request.status === 'submitted' && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isBusy}
+              onClick={() => reviewMutation.mutate('review')}
+            >
+              Start review
+            </Button>
+          )}
+
+          {request.status === 'under_review' && (
+            <>
+              <Input
+                placeholder="Reason (required to deny)"
+                value={reason}
+                onChange={event => setReason(event.target.value)}
+                disabled={isBusy}
+                className="h-8 w-56"
+              />
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={isBusy}
+                  onClick={() => reviewMutation.mutate('approve')}
+                >
+                  Approve
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={isBusy || !reason.trim()}
+                  onClick={() => reviewMutation.mutate('deny')}
+                >
+                  Deny
+                </Button>
+              </div>
+            </>
+          )}
+
+          {request.status === 'approved' &&
+            (isSuccess ? (
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <span className="text-sm text-green-600">
+                  Waiting for indexer
+                </span>
+              </div>
+            ) : (
+              <Button
+                size="sm"
+                disabled={isBusy || !canWrite || !tokenAddress}
+                onClick={handleApproveOnChain}
+              >
+                {isPending || confirming ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  'Approve wallet on-chain'
+                )}
+              </Button>
+            ))}
+
+          {error && (
+            <span className="text-xs text-destructive">{error.message}</span>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Recovery review row component
+ * Admins decide in the backend; the issuer then calls recoverWallet on-chain
+ */
+function RecoveryReviewRow({
+  request,
+  tokenAddress,
+  canDecide,
+  canWrite,
+  queryClient,
+}: {
+  request: RecoveryRequest;
+  tokenAddress: string | null | undefined;
+  canDecide: boolean;
+  canWrite: boolean;
+  queryClient: ReturnType<typeof useQueryClient>;
+}) {
+  const { companyId } = useSelectedCompany();
+  const [reason, setReason] = useState('');
+
+  const decisionMutation = useMutation<unknown, APIError, RecoveryDecision>({
+    mutationFn: decision =>
+      decideRecoveryRequest(companyId!, request.id, decision, reason),
+    onSuccess: () => {
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['recovery'] });
+    },
+  });
+
+  const {
+    data: txHash,
+    writeContract,
+    isPending,
+    error: writeError,
+  } = useWriteContract();
+
+  const { isLoading: confirming, isSuccess } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  // The indexer executes the request once WalletRecovered is indexed
+  useEffect(() => {
+    if (isSuccess && txHash) {
+      queryClient.invalidateQueries({ queryKey: ['recovery'] });
+      queryClient.invalidateQueries({ queryKey: ['shareholders'] });
+      queryClient.invalidateQueries({ queryKey: ['allowlist'] });
+    }
+  }, [isSuccess, txHash, queryClient]);
+
+  const handleRecoverOnChain = () => {
+    if (!tokenAddress || !canWrite) {
+      return;
+    }
+    writeContract({
+      address: tokenAddress as `0x${string}`,
+      abi: chainEquityToken.abi,
+      functionName: 'recoverWallet',
+      args: [
+        request.lostWallet as `0x${string}`,
+        request.newWallet as `0x${string}`,
+      ],
+    });
+  };
+
+  const isBusy = decisionMutation.isPending || isPending || confirming;
+  const error = decisionMutation.error || writeError;
+
+  return (
+    <tr className="border-b hover:bg-muted/50 align-top">
+      <td className="p-3 font-mono text-sm">
+        {formatAddress(request.lostWallet)}
+      </td>
+      <td className="p-3 font-mono text-sm">
+        {formatAddress(request.newWallet)}
+      </td>
+      <td className="p-3 text-sm">{request.reason}</td>
+      <td className="p-3">
+        <RecoveryStatusBadge status={request.status} />
+      </td>
+      <td className="p-3">
+        <div className="flex flex-col items-end gap-2">
+          {request.status === 'pending' &&
+            (canDecide ? (
+              <>
+                <Input
+                  placeholder="Reason (required to reject)"
+                  value={reason}
+                  onChange={event => setReason(event.target.value)}
+                  disabled={isBusy}
+                  className="h-8 w-56"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => decisionMutation.mutate('approve')}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    disabled={isBusy || !reason.trim()}
+                    onClick={() => decisionMutation.mutate('reject')}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <span className="text-sm text-muted-foreground">
+                Awaiting admin approval
+              </span>
+            ))}
+
+          {request.status === 'approved' &&
+            (isSuccess ? (
+              <div className="flex items-center gap-2">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <span className="text-sm text-green-600">
+                  Waiting for indexer
+                </span>
+              </div>
+            ) : (
+              <Button
+                size="sm"
+                disabled={isBusy || !canWrite || !tokenAddress}
+                onClick={handleRecoverOnChain}
+              >
+                {isPending || confirming ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  'Recover wallet on-chain'
+                )}
+              </Button>
+            ))}
+
+          {error && (
+            <span className="text-xs text-destructive">{error.message}</span>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+}
+
 /**
  * Approval row component with approve button
  */
@@ -315,6 +780,7 @@ function ApprovalRow({
     if (isSuccess && txHash) {
       queryClient.invalidateQueries({ queryKey: ['shareholders', 'pending'] });
       queryClient.invalidateQueries({ queryKey: ['shareholders', 'approved'] });
+      queryClient.invalidateQueries({ queryKey: ['allowlist'] });
       queryClient.invalidateQueries({ queryKey: ['shareholders'] });
       queryClient.invalidateQueries({ queryKey: ['company-stats'] });
       
@@ -487,6 +953,7 @@ function RevokeRow({
     if (isSuccess && txHash) {
       queryClient.invalidateQueries({ queryKey: ['shareholders', 'pending'] });
       queryClient.invalidateQueries({ queryKey: ['shareholders', 'approved'] });
+      queryClient.invalidateQueries({ queryKey: ['allowlist'] });
       queryClient.invalidateQueries({ queryKey: ['shareholders'] });
       queryClient.invalidateQueries({ queryKey: ['company-stats'] });
       
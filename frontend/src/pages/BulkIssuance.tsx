@@ -0,0 +1,515 @@
+/**
+ * @file Bulk issuance page
+ * @notice Issuer/admin screen to issue shares to many wallets from a CSV: rows are validated by
+ *         the backend (linked wallets, approval status, authorized headroom), unapproved wallets
+ *         are approved with one batchApprove() and the shares are issued with one batchMint()
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { useEffect, useMemo, useState, type ChangeEvent } from 'react';
+import {
+  useAccount,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from 'wagmi';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { parseUnits } from 'viem';
+import {
+  useCompanyAccess,
+  useCompanyStats,
+  useTokenPaused,
+} from '@/hooks/useApi';
+import { useAuth } from '@/hooks/useAuth';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
+import { useNetworkAutoSwitch } from '@/hooks/useNetworkAutoSwitch';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  ArrowLeft,
+  Loader2,
+  AlertCircle,
+  CheckCircle2,
+  PauseCircle,
+  XCircle,
+} from 'lucide-react';
+import { chainEquityToken } from '@/config/contracts';
+import { validateIssuance, type APIError } from '@/lib/api';
+import { formatAddress, formatTokenAmount } from '@/lib/utils';
+import type { ValidateIssuanceResponse } from '@/types/api';
+
+/**
+ * Largest batch the backend validates
+ */
+const MAX_ROWS = 500;
+
+/**
+ * A CSV row that parsed
+ */
+interface CsvRow {
+  line: number;
+  walletAddress: string;
+  amount: string; // Base units
+}
+
+/**
+ * A CSV line that did not parse
+ */
+interface CsvError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Parse "wallet,amount" lines; amounts are whole or fractional shares
+ * A first line without a numeric amount is treated as the header
+ */
+function parseIssuanceCsv(text: string): {
+  rows: CsvRow[];
+  errors: CsvError[];
+} {
+  const rows: CsvRow[] = [];
+  const errors: CsvError[] = [];
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    if (!raw.trim()) return;
+
+    const [wallet = '', shares = '', ...rest] = raw
+      .split(',')
+      .map(cell => cell.trim());
+    const isAmount = /^\d+(\.\d{1,18})?$/.test(shares);
+
+    // Header row such as "wallet,amount"
+    if (
+      rows.length === 0 &&
+      errors.length === 0 &&
+      !isAmount &&
+      !/^0x/i.test(wallet)
+    ) {
+      return;
+    }
+    if (rest.some(cell => cell !== '')) {
+      errors.push({ line, message: 'Expected two columns: wallet,amount' });
+    } else if (!wallet || !shares) {
+      errors.push({ line, message: 'Missing wallet or amount' });
+    } else if (!isAmount) {
+      errors.push({ line, message: `Invalid amount "${shares}"` });
+    } else {
+      rows.push({
+        line,
+        walletAddress: wallet,
+        amount: parseUnits(shares, 18).toString(),
+      });
+    }
+  });
+
+  if (rows.length > MAX_ROWS) {
+    errors.push({
+      line: rows[MAX_ROWS].line,
+      message: `At most ${MAX_ROWS} rows can be issued in one batch`,
+    });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Bulk issuance page component
+ */
+export function BulkIssuance() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { companyId } = useSelectedCompany();
+  const { isConnected } = useAccount();
+  const { isCorrectNetwork, isSwitching, switchError } = useNetworkAutoSwitch();
+  const { data: stats } = useCompanyStats();
+  const paused = useTokenPaused();
+  // Issuers/admins, or holders of MINTER_ROLE on this company
+  const { allowed: canManage } = useCompanyAccess('MINTER_ROLE');
+  const queryClient = useQueryClient();
+  const [csv, setCsv] = useState('');
+
+  const tokenAddress = stats?.tokenAddress ?? null;
+  const { rows, errors: parseErrors } = useMemo(
+    () => parseIssuanceCsv(csv),
+    [csv],
+  );
+
+  const validation = useMutation<ValidateIssuanceResponse, APIError, CsvRow[]>({
+    mutationFn: csvRows =>
+      validateIssuance(companyId!, {
+        rows: csvRows.map(({ walletAddress, amount }) => ({
+          walletAddress,
+          amount,
+        })),
+      }),
+  });
+
+  const approveWrite = useWriteContract();
+  const approveReceipt = useWaitForTransactionReceipt({
+    hash: approveWrite.data,
+  });
+  const mintWrite = useWriteContract();
+  const mintReceipt = useWaitForTransactionReceipt({ hash: mintWrite.data });
+
+  // Validate again once the approvals are mined; the indexer may need a few seconds to catch up
+  const approvalsConfirmed = approveReceipt.isSuccess;
+  const { mutate: validate } = validation;
+  useEffect(() => {
+    if (approvalsConfirmed && rows.length > 0) {
+      validate(rows);
+    }
+  }, [approvalsConfirmed, rows, validate]);
+
+  // Refresh holdings once the batch is issued
+  const mintConfirmed = mintReceipt.isSuccess;
+  useEffect(() => {
+    if (mintConfirmed) {
+      queryClient.invalidateQueries({ queryKey: ['shareholders'] });
+      queryClient.invalidateQueries({ queryKey: ['company', 'stats'] });
+      queryClient.invalidateQueries({
+        queryKey: ['company', 'authorized-shares'],
+      });
+    }
+  }, [mintConfirmed, queryClient]);
+
+  if (!canManage) {
+    return (
+      <div className="max-w-6xl mx-auto p-6">
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">Access Denied</CardTitle>
+            <CardDescription>
+              Only issuers, administrators and minters can issue shares
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-muted-foreground">
+              Your role ({user?.role}) does not have permission to issue shares,
+              and your wallet does not hold MINTER_ROLE on this company.
+            </p>
+            <Button onClick={() => navigate('/')}>Go to Dashboard</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleCsvChange = (text: string) => {
+    setCsv(text);
+    validation.reset();
+    approveWrite.reset();
+    mintWrite.reset();
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    handleCsvChange(await file.text());
+  };
+
+  const handleApprove = () => {
+    if (!tokenAddress || !validation.data) return;
+    approveWrite.writeContract({
+      address: tokenAddress as `0x${string}`,
+      abi: chainEquityToken.abi,
+      functionName: 'batchApprove',
+      args: [validation.data.unapprovedWallets as `0x${string}`[]],
+    });
+  };
+
+  const handleMint = () => {
+    if (!tokenAddress || !validation.data?.valid) return;
+    mintWrite.writeContract({
+      address: tokenAddress as `0x${string}`,
+      abi: chainEquityToken.abi,
+      functionName: 'batchMint',
+      args: [
+        validation.data.rows.map(row => row.walletAddress as `0x${string}`),
+        validation.data.rows.map(row => BigInt(row.amount)),
+      ],
+    });
+  };
+
+  const result = validation.data;
+  const canWrite =
+    isConnected && isCorrectNetwork && !isSwitching && !!tokenAddress;
+  const approving = approveWrite.isPending || approveReceipt.isLoading;
+  const minting = mintWrite.isPending || mintReceipt.isLoading;
+  const busy = validation.isPending || approving || minting;
+  const rowErrors =
+    result?.rows.filter(row => row.errors.length > 0).length ?? 0;
+  const writeError =
+    approveWrite.error ??
+    approveReceipt.error ??
+    mintWrite.error ??
+    mintReceipt.error;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-2">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-1"
+        >
+          <ArrowLeft className="h-4 w-4" /> Back to Dashboard
+        </Button>
+        <div className="text-right">
+          <CardTitle className="text-xl font-semibold">Bulk Issuance</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Issue shares to many wallets in one transaction
+          </p>
+        </div>
+      </div>
+
+      {!isConnected && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+          <p className="text-sm text-yellow-600">
+            Please connect your wallet to issue shares.
+          </p>
+        </div>
+      )}
+
+      {/* Network validation warning */}
+      {isConnected && !isCorrectNetwork && !isSwitching && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+          <div className="flex items-center gap-2 text-yellow-600">
+            <AlertCircle className="h-4 w-4" />
+            <p className="text-sm">
+              Please switch to Localnet to interact with contracts
+              {switchError && `: ${switchError.message}`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {paused && (
+        <div className="flex items-center gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-md text-destructive">
+          <PauseCircle className="h-4 w-4 flex-shrink-0" />
+          <p className="text-sm">
+            The token is paused. Shares cannot be issued until it is unpaused.
+          </p>
+        </div>
+      )}
+
+      {/* CSV Input Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recipients</CardTitle>
+          <CardDescription>
+            One <code>wallet,amount</code> row per recipient, amounts in shares
+            (a header row is optional). Up to {MAX_ROWS} rows per batch.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            disabled={busy}
+            onChange={handleFile}
+          />
+          <textarea
+            className="flex min-h-40 w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            placeholder={'wallet,amount\n0x1234...abcd,1000'}
+            value={csv}
+            disabled={busy}
+            onChange={event => handleCsvChange(event.target.value)}
+          />
+
+          {parseErrors.length > 0 && (
+            <ul className="space-y-1 text-sm text-destructive">
+              {parseErrors.map(error => (
+                <li key={error.line} className="flex items-center gap-2">
+                  <XCircle className="h-4 w-4 flex-shrink-0" />
+                  Line {error.line}: {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {validation.error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <XCircle className="h-4 w-4" />
+              <span>{validation.error.message}</span>
+            </div>
+          )}
+
+          <Button
+            className="w-full"
+            disabled={
+              rows.length === 0 ||
+              parseErrors.length > 0 ||
+              companyId === null ||
+              busy
+            }
+            onClick={() => validate(rows)}
+          >
+            {validation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Validating...
+              </>
+            ) : result ? (
+              'Validate Again'
+            ) : (
+              `Validate ${rows.length} Row${rows.length === 1 ? '' : 's'}`
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Validation Results Card */}
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Validation</CardTitle>
+            <CardDescription>
+              {formatTokenAmount(result.totalAmount, 18, { compact: false })}{' '}
+              shares to {result.rows.length} wallet
+              {result.rows.length === 1 ? '' : 's'}
+              {result.headroom !== null &&
+                ` of ${formatTokenAmount(result.headroom, 18, {
+                  compact: false,
+                })} authorized shares still available`}
+              .
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Line</th>
+                    <th className="py-2 pr-4 font-medium">Wallet</th>
+                    <th className="py-2 pr-4 font-medium">Holder</th>
+                    <th className="py-2 pr-4 font-medium text-right">Shares</th>
+                    <th className="py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map(row => (
+                    <tr key={row.index} className="border-b last:border-0">
+                      <td className="py-2 pr-4">{rows[row.index]?.line}</td>
+                      <td className="py-2 pr-4 font-mono">
+                        {formatAddress(row.walletAddress)}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {row.displayName || row.email || '—'}
+                      </td>
+                      <td className="py-2 pr-4 text-right font-mono">
+                        {formatTokenAmount(row.amount, 18, { compact: false })}
+                      </td>
+                      <td className="py-2">
+                        {row.errors.length > 0 ? (
+                          <span className="text-destructive">
+                            {row.errors.join('; ')}
+                          </span>
+                        ) : row.approved ? (
+                          <Badge variant="default">Ready</Badge>
+                        ) : (
+                          <Badge variant="secondary">Needs approval</Badge>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {rowErrors > 0 && (
+              <p className="text-sm text-destructive">
+                Fix {rowErrors} row{rowErrors === 1 ? '' : 's'} in the CSV and
+                validate again.
+              </p>
+            )}
+            {!result.withinHeadroom && (
+              <p className="text-sm text-destructive">
+                The batch exceeds the authorized shares still available. Amend
+                the authorized shares or issue fewer shares.
+              </p>
+            )}
+
+            {approvalsConfirmed &&
+              !validation.isPending &&
+              result.unapprovedWallets.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  The approvals are confirmed. Validate again once the indexer
+                  has caught up.
+                </p>
+              )}
+
+            {writeError && (
+              <div className="flex items-start gap-2 p-3 bg-destructive/10 border border-destructive/20 rounded-md">
+                <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+                <p className="text-xs text-destructive/80">
+                  {writeError.message}
+                </p>
+              </div>
+            )}
+
+            {mintReceipt.isSuccess && mintWrite.data ? (
+              <div className="p-3 bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-900 rounded-md">
+                <div className="flex items-center gap-2">
+                  <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400 flex-shrink-0" />
+                  <p className="text-sm text-green-900 dark:text-green-100">
+                    Issued shares to {result.rows.length} wallet
+                    {result.rows.length === 1 ? '' : 's'} in{' '}
+                    <code className="text-xs">
+                      {formatAddress(mintWrite.data)}
+                    </code>
+                  </p>
+                </div>
+              </div>
+            ) : result.unapprovedWallets.length > 0 && rowErrors === 0 ? (
+              <Button
+                className="w-full"
+                disabled={!canWrite || paused || busy}
+                onClick={handleApprove}
+              >
+                {approving ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {approveWrite.isPending
+                      ? 'Confirm in wallet...'
+                      : 'Approving...'}
+                  </>
+                ) : (
+                  `Approve ${result.unapprovedWallets.length} Wallet${
+                    result.unapprovedWallets.length === 1 ? '' : 's'
+                  }`
+                )}
+              </Button>
+            ) : (
+              <Button
+                className="w-full"
+                disabled={!canWrite || !result.valid || paused || busy}
+                onClick={handleMint}
+              >
+                {minting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    {mintWrite.isPending
+                      ? 'Confirm in wallet...'
+                      : 'Issuing...'}
+                  </>
+                ) : (
+                  'Issue Shares'
+                )}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
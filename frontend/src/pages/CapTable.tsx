@@ -5,10 +5,25 @@
 
 import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useMutation } from '@tanstack/react-query';
 import { useShareholdersData, useCompanyStats, useBlocksWithTransactions } from '@/hooks/useApi';
+import { useSelectedCompany } from '@/hooks/useSelectedCompany';
+import { exportCapTable, type CapTableExportFormat } from '@/lib/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { ArrowLeft, ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Loader2,
+} from 'lucide-react';
 import { ShareholderTable } from '@/components/ShareholderTable';
 
 /**
@@ -40,6 +55,7 @@ export function CapTable() {
 
   // Fetch company stats for name, symbol, and total outstanding
   const { data: stats } = useCompanyStats();
+  const { companyId } = useSelectedCompany();
 
   // Navigation helpers - currentBlock is guaranteed to be defined here due to loading check
   // TypeScript doesn't narrow through early return, so we use non-null assertion
@@ -76,6 +92,24 @@ export function CapTable() {
     setBlockNumber(null);
   };
 
+  // Export the cap table at the block currently shown (latest: the last indexed block)
+  const exportMutation = useMutation({
+    mutationFn: async (format: CapTableExportFormat) => {
+      const blob = await exportCapTable(
+        companyId!,
+        format,
+        blockNumber ?? undefined,
+      );
+      // Content-Disposition is not exposed cross-origin, so name the file here
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `cap-table-block-${blockNumber ?? 'latest'}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    },
+  });
+
   if (isLoading || !responseBlockNumber) {
     return <SkeletonTable />;
   }
@@ -161,9 +195,43 @@ export function CapTable() {
                 >
                   Latest
                 </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={exportMutation.isPending}
+                      className="flex items-center gap-1"
+                    >
+                      {exportMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Download className="h-4 w-4" />
+                      )}
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem
+                      onClick={() => exportMutation.mutate('csv')}
+                    >
+                      CSV (Excel compatible)
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => exportMutation.mutate('json')}
+                    >
+                      JSON
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
               </div>
             </div>
           </div>
+          {exportMutation.isError && (
+            <p className="text-sm text-destructive">
+              Export failed: {exportMutation.error.message}
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <ShareholderTable
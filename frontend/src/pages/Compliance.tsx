@@ -0,0 +1,728 @@
+/**
+ * @file Compliance settings page
+ * @notice Issuer/admin view of each token's compliance modules, with forms to configure them and
+ *         the indexed history of configuration changes
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import {
+  useAccount,
+  useWriteContract,
+  useWaitForTransactionReceipt,
+} from 'wagmi';
+import { useQueryClient } from '@tanstack/react-query';
+import { isAddress, stringToHex, type Abi } from 'viem';
+import {
+  useCompanyAccess,
+  useCompliance,
+  useComplianceHistory,
+} from '@/hooks/useApi';
+import { useAuth } from '@/hooks/useAuth';
+import { useNetworkAutoSwitch } from '@/hooks/useNetworkAutoSwitch';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Loader2, AlertCircle } from 'lucide-react';
+import {
+  modularCompliance,
+  maxHoldersModule,
+  maxOwnershipModule,
+  countryRestrictionModule,
+  accreditedInvestorModule,
+} from '@/config/contracts';
+import { formatAddress, formatDate } from '@/lib/utils';
+import type {
+  ComplianceChange,
+  ComplianceModule,
+  TokenCompliance,
+} from '@/types/api';
+
+/**
+ * Compliance page component
+ * Lists the compliance of the active token and every share class token
+ */
+export function Compliance() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isConnected } = useAccount();
+  const { isCorrectNetwork, isSwitching, switchError } = useNetworkAutoSwitch();
+  const { data, isLoading, isError, error, refetch } = useCompliance();
+  const [historyToken, setHistoryToken] = useState<string | null>(null);
+
+  // Issuers/admins, or holders of COMPLIANCE_ROLE on this company
+  const { allowed: canManage } = useCompanyAccess('COMPLIANCE_ROLE');
+
+  if (!canManage) {
+    return (
+      <div className="max-w-6xl mx-auto p-6">
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">Access Denied</CardTitle>
+            <CardDescription>
+              Only issuers, administrators and compliance officers can manage
+              compliance
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-muted-foreground">
+              Your role ({user?.role}) does not have permission to manage
+              compliance, and your wallet does not hold COMPLIANCE_ROLE on this
+              company.
+            </p>
+            <Button onClick={() => navigate('/')}>Go to Dashboard</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="max-w-6xl mx-auto p-6 text-center">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+        <p className="text-muted-foreground">Loading compliance settings...</p>
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="max-w-6xl mx-auto p-6">
+        <Card className="border-destructive">
+          <CardHeader>
+            <CardTitle className="text-destructive">
+              Could not load compliance settings
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="mb-4 text-muted-foreground">
+              {error?.message || 'Please check your connection or try again.'}
+            </p>
+            <Button onClick={() => refetch()}>Retry</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const tokens = data?.tokens || [];
+  const canWrite = isConnected && isCorrectNetwork && !isSwitching;
+  const selectedHistoryToken = historyToken ?? tokens[0]?.tokenAddress ?? null;
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-2">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="flex items-center gap-1"
+        >
+          <ArrowLeft className="h-4 w-4" /> Back to Dashboard
+        </Button>
+        <div className="text-right">
+          <CardTitle className="text-xl font-semibold">
+            Compliance Settings
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Rules checked on every transfer and issuance
+          </p>
+        </div>
+      </div>
+
+      {!isConnected && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+          <p className="text-sm text-yellow-600">
+            Please connect your wallet to change compliance settings.
+          </p>
+        </div>
+      )}
+
+      {/* Network validation warning */}
+      {isConnected && !isCorrectNetwork && !isSwitching && (
+        <div className="p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-md">
+          <div className="flex items-center gap-2 text-yellow-600">
+            <AlertCircle className="h-4 w-4" />
+            <p className="text-sm">
+              Please switch to Localnet to interact with contracts
+              {switchError && `: ${switchError.message}`}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {tokens.map(token => (
+        <TokenComplianceCard
+          key={token.tokenAddress}
+          token={token}
+          canWrite={canWrite}
+        />
+      ))}
+
+      {/* Configuration History Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Configuration History</CardTitle>
+          <CardDescription>
+            Every indexed compliance change. Changes from contracts the token no
+            longer uses stay listed but no longer apply.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {tokens.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {tokens.map(token => (
+                <Button
+                  key={token.tokenAddress}
+                  size="sm"
+                  variant={
+                    token.tokenAddress === selectedHistoryToken
+                      ? 'default'
+                      : 'outline'
+                  }
+                  onClick={() => setHistoryToken(token.tokenAddress)}
+                >
+                  {token.shareClass ? token.shareClass.name : 'Active token'}
+                </Button>
+              ))}
+            </div>
+          )}
+          <ComplianceHistoryTable tokenAddress={selectedHistoryToken} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+/**
+ * Write to a compliance contract and refresh the compliance queries once mined
+ */
+function useComplianceWrite() {
+  const queryClient = useQueryClient();
+  const {
+    data: txHash,
+    writeContract,
+    isPending,
+    error: writeError,
+  } = useWriteContract();
+
+  const {
+    isLoading: confirming,
+    isSuccess,
+    error: receiptError,
+  } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  // Changes show up once the indexer has picked up the configuration event
+  useEffect(() => {
+    if (isSuccess && txHash) {
+      queryClient.invalidateQueries({ queryKey: ['compliance'] });
+    }
+  }, [isSuccess, txHash, queryClient]);
+
+  const write = (
+    address: string,
+    abi: Abi,
+    functionName: string,
+    args: readonly unknown[],
+  ) => {
+    writeContract({
+      address: address as `0x${string}`,
+      abi,
+      functionName,
+      args,
+    });
+  };
+
+  return {
+    write,
+    isBusy: isPending || confirming,
+    isSuccess,
+    error: writeError || receiptError,
+  };
+}
+
+/**
+ * Encode an ISO 3166-1 alpha-2 country code as bytes2 (empty clears the country)
+ */
+function toCountryBytes(country: string): `0x${string}` {
+  return stringToHex(country.trim().toUpperCase(), { size: 2 });
+}
+
+/**
+ * Transaction status line shown under a form
+ */
+function WriteStatus({
+  isBusy,
+  isSuccess,
+  error,
+}: {
+  isBusy: boolean;
+  isSuccess: boolean;
+  error: Error | null;
+}) {
+  if (isBusy) {
+    return (
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <Loader2 className="h-3 w-3 animate-spin" /> Processing...
+      </p>
+    );
+  }
+  if (error) {
+    return <p className="text-xs text-destructive">{error.message}</p>;
+  }
+  if (isSuccess) {
+    return (
+      <p className="text-xs text-green-600">Confirmed. Waiting for indexer.</p>
+    );
+  }
+  return null;
+}
+
+/**
+ * Compliance card of a single token: its modules and the form to add one
+ */
+function TokenComplianceCard({
+  token,
+  canWrite,
+}: {
+  token: TokenCompliance;
+  canWrite: boolean;
+}) {
+  const [moduleAddress, setModuleAddress] = useState('');
+  const { write, isBusy, isSuccess, error } = useComplianceWrite();
+  const complianceAddress = token.complianceAddress;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {token.shareClass
+            ? `${token.shareClass.name} (class #${token.shareClass.classId})`
+            : 'Active Token'}
+        </CardTitle>
+        <CardDescription>
+          Token <span className="font-mono">{token.tokenAddress}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!complianceAddress ? (
+          <p className="text-sm text-muted-foreground">
+            No compliance set. Deploy a ModularCompliance for this token and
+            point the token at it with setCompliance.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm">
+              Compliance <span className="font-mono">{complianceAddress}</span>
+            </p>
+
+            {token.modules.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No modules plugged in. Every transfer is allowed.
+              </p>
+            ) : (
+              token.modules.map(module => (
+                <ModuleSettings
+                  key={module.address}
+                  module={module}
+                  complianceAddress={complianceAddress}
+                  canWrite={canWrite}
+                />
+              ))
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                placeholder="Module address (0x...)"
+                value={moduleAddress}
+                onChange={event => setModuleAddress(event.target.value)}
+                disabled={isBusy}
+                className="h-8 w-96 font-mono"
+              />
+              <Button
+                size="sm"
+                disabled={!canWrite || isBusy || !isAddress(moduleAddress)}
+                onClick={() =>
+                  write(complianceAddress, modularCompliance.abi, 'addModule', [
+                    moduleAddress,
+                  ])
+                }
+              >
+                Add module
+              </Button>
+            </div>
+            <WriteStatus isBusy={isBusy} isSuccess={isSuccess} error={error} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Settings and configuration forms of a plugged-in module
+ */
+function ModuleSettings({
+  module,
+  complianceAddress,
+  canWrite,
+}: {
+  module: ComplianceModule;
+  complianceAddress: string;
+  canWrite: boolean;
+}) {
+  const [value, setValue] = useState('');
+  const [wallet, setWallet] = useState('');
+  const [country, setCountry] = useState('');
+  const { write, isBusy, isSuccess, error } = useComplianceWrite();
+
+  const disabled = !canWrite || isBusy;
+  const validCountry = /^[A-Za-z]{2}$/.test(country.trim());
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">{module.name || 'Custom'}</Badge>
+          <span className="font-mono text-sm">
+            {formatAddress(module.address)}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            added at block {module.addedAtBlock}
+          </span>
+        </div>
+        <Button
+          size="sm"
+          variant="destructive"
+          disabled={disabled}
+          onClick={() =>
+            write(complianceAddress, modularCompliance.abi, 'removeModule', [
+              module.address,
+            ])
+          }
+        >
+          Remove
+        </Button>
+      </div>
+
+      {module.maxHolders !== undefined && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            Max holders: <strong>{module.maxHolders || 'No limit'}</strong>
+          </p>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              placeholder="New limit (0 = none)"
+              value={value}
+              onChange={event => setValue(event.target.value)}
+              disabled={isBusy}
+              className="h-8 w-48"
+            />
+            <Button
+              size="sm"
+              disabled={disabled || !/^\d+$/.test(value)}
+              onClick={() =>
+                write(module.address, maxHoldersModule.abi, 'setMaxHolders', [
+                  BigInt(value),
+                ])
+              }
+            >
+              Set limit
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {module.maxOwnershipBps !== undefined && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            Max ownership per investor:{' '}
+            <strong>
+              {module.maxOwnershipBps
+                ? `${module.maxOwnershipBps / 100}% of authorized shares`
+                : 'No limit'}
+            </strong>
+          </p>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              max="10000"
+              placeholder="Basis points (0 = none)"
+              value={value}
+              onChange={event => setValue(event.target.value)}
+              disabled={isBusy}
+              className="h-8 w-48"
+            />
+            <Button
+              size="sm"
+              disabled={
+                disabled || !/^\d+$/.test(value) || Number(value) > 10000
+              }
+              onClick={() =>
+                write(
+                  module.address,
+                  maxOwnershipModule.abi,
+                  'setMaxOwnership',
+                  [BigInt(value)],
+                )
+              }
+            >
+              Set limit
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {module.restrictedCountries !== undefined && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            Restricted countries:{' '}
+            <strong>
+              {module.restrictedCountries.length > 0
+                ? module.restrictedCountries.join(', ')
+                : 'None'}
+            </strong>
+          </p>
+          <p className="text-sm">
+            Investors with a country:{' '}
+            <strong>{module.investorCountries?.length ?? 0}</strong>
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Country (e.g. US)"
+              value={country}
+              onChange={event => setCountry(event.target.value)}
+              disabled={isBusy}
+              className="h-8 w-36"
+            />
+            <Button
+              size="sm"
+              disabled={disabled || !validCountry}
+              onClick={() =>
+                write(
+                  module.address,
+                  countryRestrictionModule.abi,
+                  'setCountryRestricted',
+                  [toCountryBytes(country), true],
+                )
+              }
+            >
+              Restrict
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={disabled || !validCountry}
+              onClick={() =>
+                write(
+                  module.address,
+                  countryRestrictionModule.abi,
+                  'setCountryRestricted',
+                  [toCountryBytes(country), false],
+                )
+              }
+            >
+              Lift restriction
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Investor wallet (0x...)"
+              value={wallet}
+              onChange={event => setWallet(event.target.value)}
+              disabled={isBusy}
+              className="h-8 w-96 font-mono"
+            />
+            <Button
+              size="sm"
+              disabled={disabled || !isAddress(wallet) || !validCountry}
+              onClick={() =>
+                write(
+                  module.address,
+                  countryRestrictionModule.abi,
+                  'setInvestorCountry',
+                  [wallet, toCountryBytes(country)],
+                )
+              }
+            >
+              Set investor country
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {module.accreditedWallets !== undefined && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            Accredited wallets:{' '}
+            <strong>{module.accreditedWallets.length}</strong>
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Investor wallet (0x...)"
+              value={wallet}
+              onChange={event => setWallet(event.target.value)}
+              disabled={isBusy}
+              className="h-8 w-96 font-mono"
+            />
+            <Button
+              size="sm"
+              disabled={disabled || !isAddress(wallet)}
+              onClick={() =>
+                write(
+                  module.address,
+                  accreditedInvestorModule.abi,
+                  'setAccredited',
+                  [wallet, true],
+                )
+              }
+            >
+              Accredit
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={disabled || !isAddress(wallet)}
+              onClick={() =>
+                write(
+                  module.address,
+                  accreditedInvestorModule.abi,
+                  'setAccredited',
+                  [wallet, false],
+                )
+              }
+            >
+              Remove accreditation
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <WriteStatus isBusy={isBusy} isSuccess={isSuccess} error={error} />
+    </div>
+  );
+}
+
+/**
+ * Human-readable description of a configuration change
+ */
+function describeChange(change: ComplianceChange): string {
+  switch (change.configType) {
+    case 'COMPLIANCE_SET':
+      return change.complianceAddress
+        ? `Compliance set to ${formatAddress(change.complianceAddress)}`
+        : 'Compliance removed';
+    case 'MODULE_ADDED':
+      return `${change.moduleName || 'Module'} ${formatAddress(change.moduleAddress ?? '')} added`;
+    case 'MODULE_REMOVED':
+      return `Module ${formatAddress(change.moduleAddress ?? '')} removed`;
+    case 'MAX_HOLDERS':
+      return `Max holders set to ${change.value || 'no limit'}`;
+    case 'MAX_OWNERSHIP':
+      return change.value
+        ? `Max ownership set to ${change.value / 100}%`
+        : 'Max ownership limit removed';
+    case 'INVESTOR_COUNTRY':
+      return change.country
+        ? `${formatAddress(change.wallet ?? '')} country set to ${change.country}`
+        : `${formatAddress(change.wallet ?? '')} country cleared`;
+    case 'COUNTRY_RESTRICTION':
+      return change.value
+        ? `${change.country} restricted`
+        : `${change.country} restriction lifted`;
+    case 'ACCREDITATION':
+      return change.value
+        ? `${formatAddress(change.wallet ?? '')} accredited`
+        : `${formatAddress(change.wallet ?? '')} accreditation removed`;
+  }
+}
+
+/**
+ * Configuration history table of a token
+ */
+function ComplianceHistoryTable({
+  tokenAddress,
+}: {
+  tokenAddress: string | null;
+}) {
+  const { data, isLoading, isError, error } =
+    useComplianceHistory(tokenAddress);
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+        <p className="text-muted-foreground">Loading history...</p>
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <p className="text-sm text-destructive">
+        {error?.message || 'Could not load compliance history'}
+      </p>
+    );
+  }
+
+  const changes = data?.changes || [];
+
+  if (changes.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-muted-foreground">
+          No compliance changes indexed yet.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-3 font-semibold">Block</th>
+            <th className="text-left p-3 font-semibold">Date</th>
+            <th className="text-left p-3 font-semibold">Change</th>
+            <th className="text-left p-3 font-semibold">Emitted by</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...changes].reverse().map(change => (
+            <tr
+              key={`${change.blockNumber}-${change.logIndex}`}
+              className="border-b hover:bg-muted/50"
+            >
+              <td className="p-3">{change.blockNumber}</td>
+              <td className="p-3">
+                {change.blockTimestamp
+                  ? formatDate(
+                      new Date(change.blockTimestamp * 1000).toISOString(),
+                    )
+                  : '—'}
+              </td>
+              <td className="p-3">{describeChange(change)}</td>
+              <td className="p-3 font-mono text-sm">
+                {formatAddress(change.contractAddress)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
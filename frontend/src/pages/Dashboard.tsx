@@ -4,7 +4,11 @@
  */
 
 import { Link } from 'react-router-dom';
-import { useCompanyStats, useMyShareholder } from '@/hooks/useApi';
+import {
+  useCompanyAccess,
+  useCompanyStats,
+  useMyShareholder,
+} from '@/hooks/useApi';
 import { useAuth } from '@/hooks/useAuth';
 import type { Shareholder } from '@/types/api';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -27,8 +31,11 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { IssueSharesForm } from '@/components/IssueSharesForm';
+import { RedeemSharesForm } from '@/components/RedeemSharesForm';
 import { TransferSharesForm } from '@/components/TransferSharesForm';
+import { AuthorizedSharesHistory } from '@/components/AuthorizedSharesHistory';
 import { ProfileMenu } from '@/components/ProfileMenu';
+import { CompanySwitcher } from '@/components/CompanySwitcher';
 import { useAccount } from 'wagmi';
 
 /**
@@ -43,6 +50,9 @@ export function Dashboard() {
   const { data, isLoading, isError, error, refetch } = useCompanyStats();
   const { user } = useAuth();
   const { isConnected } = useAccount();
+  // Issuers/admins, or holders of the matching on-chain role on this company
+  const { allowed: canIssue } = useCompanyAccess('MINTER_ROLE');
+  const { allowed: canManageCompliance } = useCompanyAccess('COMPLIANCE_ROLE');
 
   // Fetch investor holdings data (only for investors)
   const {
@@ -98,10 +108,13 @@ export function Dashboard() {
 
   return (
     <div className="mx-auto max-w-6xl p-4 md:p-6 space-y-6">
-      {/* Top Bar with Title and Profile Menu */}
+      {/* Top Bar with Title, Company Switcher and Profile Menu */}
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">{getDashboardTitle()}</h1>
-        <ProfileMenu />
+        <div className="flex items-center gap-2">
+          <CompanySwitcher />
+          <ProfileMenu />
+        </div>
       </div>
 
       {/* Header Card */}
@@ -170,7 +183,7 @@ export function Dashboard() {
         />
         <StatCard
           title="Authorized"
-          description="Maximum number of shares that can be issued (set at token creation)"
+          description="Maximum number of shares that can be issued (set at token creation, amended by charter amendments)"
           value={
             totalAuthorized
               ? formatTokenAmount(totalAuthorized, decimals, {
@@ -184,14 +197,24 @@ export function Dashboard() {
         />
       </div>
 
+      {/* Authorized vs Outstanding History */}
+      {tokenLinked && totalAuthorized && totalOutstanding && (
+        <AuthorizedSharesHistory
+          totalAuthorized={totalAuthorized}
+          totalOutstanding={totalOutstanding}
+          decimals={decimals}
+        />
+      )}
+
       {/* Issuer Actions Section */}
-      {(user?.role === 'issuer' || user?.role === 'admin') && tokenAddress && (
+      {canIssue && tokenAddress && (
         <Card>
           <CardHeader>
             <CardTitle>Issuer Actions</CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="grid gap-4 lg:grid-cols-2">
             <IssueSharesForm tokenAddress={tokenAddress} />
+            <RedeemSharesForm tokenAddress={tokenAddress} />
           </CardContent>
         </Card>
       )}
@@ -223,13 +246,27 @@ export function Dashboard() {
           title="Transactions"
           description="Transfers & mints"
         />
-        {(user?.role === 'issuer' || user?.role === 'admin') && (
+        {canManageCompliance && (
           <NavCard
             to="/approvals"
             title="Wallet Management"
             description="Approve or revoke investor wallets"
           />
         )}
+        {canManageCompliance && (
+          <NavCard
+            to="/compliance"
+            title="Compliance"
+            description="Transfer rules & modules"
+          />
+        )}
+        {canIssue && (
+          <NavCard
+            to="/bulk-issuance"
+            title="Bulk Issuance"
+            description="Issue shares from a CSV"
+          />
+        )}
         <NavCard
           to="/instructions"
           title="Setup Instructions"
@@ -1,10 +1,15 @@
 /**
  * @file Investor page for ChainEquity frontend
- * @notice Investor-only page demonstrating role-based route protection
+ * @notice Investor-only page: account details, KYC onboarding, the vesting timeline of the
+ *         linked wallet in the selected company and lost-wallet recovery requests
  */
 
 import { useAuth } from '@/hooks/useAuth';
+import { useWalletStatus } from '@/hooks/useApi';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { KycForm } from '@/components/KycForm';
+import { VestingTimeline } from '@/components/VestingTimeline';
+import { WalletRecoveryForm } from '@/components/WalletRecoveryForm';
 
 /**
  * Investor page component
@@ -12,9 +17,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
  */
 export function Investor() {
   const { user } = useAuth();
+  const { data: walletStatus } = useWalletStatus();
 
   return (
-    <div className="max-w-4xl mx-auto p-8">
+    <div className="max-w-4xl mx-auto p-8 space-y-6">
       <h1 className="text-4xl font-bold mb-8 text-center">Investor Dashboard</h1>
 
       <Card>
@@ -35,6 +41,12 @@ export function Investor() {
           </div>
         </CardContent>
       </Card>
+
+      <KycForm />
+
+      <VestingTimeline address={walletStatus?.walletAddress ?? null} />
+
+      <WalletRecoveryForm newWallet={walletStatus?.walletAddress ?? null} />
     </div>
   );
 }
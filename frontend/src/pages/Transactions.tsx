@@ -322,7 +322,15 @@ function TransactionsTable({ transactions, decimals }: { transactions: Transacti
                 </td>
                 <td className="py-2 px-4">
                   <Badge
-                    variant={tx.eventType === 'ISSUED' ? 'default' : 'secondary'}
+                    variant={
+                      tx.eventType === 'ISSUED'
+                        ? 'default'
+                        : tx.eventType === 'REDEEMED'
+                          ? 'destructive'
+                          : tx.eventType === 'TRANSFER'
+                            ? 'secondary'
+                            : 'outline'
+                    }
                   >
                     {tx.eventType}
                   </Badge>
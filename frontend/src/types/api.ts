@@ -12,6 +12,27 @@ export interface Pagination {
   total: number;
 }
 
+/**
+ * Registered company from GET /api/companies
+ * tokenAddress is the token the CapTable currently points at
+ */
+export interface RegisteredCompany {
+  id: number;
+  name: string;
+  chainId: number;
+  capTableAddress: string;
+  tokenAddress: string;
+  lastIndexedBlock: number | null;
+}
+
+/**
+ * Company registry response from GET /api/companies
+ */
+export interface CompaniesResponse {
+  companies: RegisteredCompany[];
+  factoryAddress: string | null;
+}
+
 /**
  * Company information response from GET /api/company
  */
@@ -23,6 +44,19 @@ export interface CompanyInfo {
   capTableAddress: string;
   createdAt: number;
   isTokenLinked: boolean;
+  symbolHistory: SymbolHistoryEntry[];
+}
+
+/**
+ * Token symbol change indexed from Deployed/SymbolChanged events
+ * oldSymbol is null for the symbol the token was deployed with
+ */
+export interface SymbolHistoryEntry {
+  oldSymbol: string | null;
+  newSymbol: string;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  txHash: string | null;
 }
 
 /**
@@ -53,6 +87,30 @@ export interface CompanyStats {
   totalOutstanding: string; // wei as string
   decimals: number;
   splitFactor?: string; // optional, wei as string
+  paused: boolean; // emergency pause of all token movements
+  pausedAt: number | null; // unix seconds of the Paused event, null when active
+  pausedBy: string | null; // account that paused the token
+}
+
+/**
+ * Authorized shares change indexed from Deployed/AuthorizedSharesChanged events
+ * oldAuthorized is null for the amount the token was deployed with
+ */
+export interface AuthorizedSharesHistoryEntry {
+  tokenAddress: string;
+  oldAuthorized: string | null; // wei as string
+  newAuthorized: string; // wei as string
+  outstanding: string; // wei as string, total supply right after the change
+  blockNumber: number;
+  blockTimestamp: number | null;
+  txHash: string | null;
+}
+
+/**
+ * Authorized shares history response from GET /api/company/authorized-shares
+ */
+export interface AuthorizedSharesHistoryResponse {
+  history: AuthorizedSharesHistoryEntry[];
 }
 
 /**
@@ -66,6 +124,34 @@ export interface Shareholder {
   lastUpdatedBlock: number | null;
   email?: string | null;
   displayName?: string | null;
+  classHoldings: ShareClassHolding[];
+  fullyDilutedBalance: string; // effective common + as-converted class shares
+  fullyDilutedPercentage: number;
+  recoveryTrail?: RecoveryTrail; // GET /api/shareholders/:address only
+}
+
+/**
+ * A shareholder's balance in a share class other than common
+ */
+export interface ShareClassHolding {
+  classId: number;
+  balance: string; // wei as string
+  asConvertedBalance: string; // common shares the balance converts into
+}
+
+/**
+ * Share class other than common (e.g., a preferred series) registered on the CapTable
+ */
+export interface ShareClass {
+  classId: number;
+  name: string;
+  tokenAddress: string;
+  authorizedShares: string; // wei as string
+  outstandingShares: string; // wei as string
+  asConvertedShares: string; // wei as string
+  liquidationPreference: string; // 1e18 = 1x
+  conversionRatio: string; // common shares per class share, 1e18 = 1:1
+  seniority: number;
 }
 
 /**
@@ -76,13 +162,20 @@ export interface ShareholdersResponse {
   pagination: Pagination;
   totalSupply: string;
   totalEffectiveSupply: string;
+  shareClasses: ShareClass[];
+  totalFullyDiluted: string;
   blockNumber: number;
 }
 
 /**
- * Transaction event type
+ * Transaction event type (FORCED_TRANSFER and WALLET_RECOVERY are issuer moves)
  */
-export type TransactionEventType = 'ISSUED' | 'TRANSFER';
+export type TransactionEventType =
+  | 'ISSUED'
+  | 'TRANSFER'
+  | 'REDEEMED'
+  | 'FORCED_TRANSFER'
+  | 'WALLET_RECOVERY';
 
 /**
  * Transaction object
@@ -185,3 +278,490 @@ export interface ApprovedUsersResponse {
   approved: PendingApproval[];
 }
 
+/**
+ * Allowlisted wallet object
+ */
+export interface AllowlistWallet {
+  walletAddress: string;
+  approvedAtBlock: number;
+  approvedAtTimestamp: number | null;
+  email: string | null;
+  displayName: string | null;
+}
+
+/**
+ * Allowlist response from GET /api/allowlist
+ */
+export interface AllowlistResponse {
+  blockNumber: number | null;
+  wallets: AllowlistWallet[];
+  total: number;
+}
+
+/**
+ * Merkle allowlist tree generated from the KYC-approved wallets
+ */
+export interface AllowlistTree {
+  root: string;
+  wallets: string[]; // Lowercase, sorted ascending
+  walletCount: number;
+  createdAt: number; // Unix seconds
+}
+
+/**
+ * Merkle allowlist state from GET /api/allowlist/root
+ * upToDate means the latest generated tree is the published one
+ */
+export interface AllowlistRootResponse {
+  tokenAddress: string;
+  root: string | null; // Published root, null while the Merkle allowlist is off
+  blockNumber: number | null;
+  txHash: string | null;
+  latestTree: AllowlistTree | null;
+  upToDate: boolean;
+}
+
+/**
+ * Wallet proof against the published root from GET /api/allowlist/proof/:address
+ */
+export interface AllowlistProofResponse {
+  walletAddress: string;
+  root: string;
+  included: boolean;
+  proof: string[]; // Empty when the wallet is not in the tree
+}
+
+/**
+ * KYC request status
+ * submitted -> under_review -> approved | denied; approved -> on_chain_approved once indexed
+ */
+export type KycRequestStatus =
+  | 'submitted'
+  | 'under_review'
+  | 'approved'
+  | 'denied'
+  | 'on_chain_approved';
+
+/**
+ * Accreditation status declared on a KYC request
+ */
+export type AccreditationStatus = 'accredited' | 'non_accredited';
+
+/**
+ * KYC request object
+ */
+export interface KycRequest {
+  id: number;
+  uid: string;
+  walletAddress: string;
+  fullName: string;
+  jurisdiction: string;
+  accreditationStatus: AccreditationStatus;
+  documentHashes: string[];
+  status: KycRequestStatus;
+  reviewerUid: string | null;
+  decisionReason: string | null;
+  onChainBlockNumber: number | null;
+  onChainTxHash: string | null;
+  createdAt: number; // Unix seconds
+  updatedAt: number; // Unix seconds
+}
+
+/**
+ * KYC request status change (actorUid is null for on-chain reconciliation)
+ */
+export interface KycRequestTransition {
+  id: number;
+  requestId: number;
+  fromStatus: KycRequestStatus | null;
+  toStatus: KycRequestStatus;
+  actorUid: string | null;
+  reason: string | null;
+  createdAt: number; // Unix seconds
+}
+
+/**
+ * KYC request with audit trail from GET /api/kyc/requests/me and /api/kyc/requests/:id
+ */
+export interface KycRequestResponse {
+  request: KycRequest | null;
+  transitions: KycRequestTransition[];
+}
+
+/**
+ * KYC review queue response from GET /api/kyc/requests
+ */
+export interface KycRequestsResponse {
+  requests: KycRequest[];
+  total: number;
+}
+
+/**
+ * Body for POST /api/kyc/requests
+ */
+export interface SubmitKycRequestInput {
+  fullName: string;
+  jurisdiction: string;
+  accreditationStatus: AccreditationStatus;
+  documentHashes: string[];
+}
+
+/**
+ * A holder's whole-share and fractional position under a split factor
+ * Amounts are token units (wei) as strings
+ */
+export interface SplitPosition {
+  address: string;
+  balance: string;
+  effectiveBalance: string;
+  wholeShares: string;
+  fractionalRemainder: string;
+  cashInLieuAmount: string; // base units the issuer redeems to settle the fraction
+}
+
+/**
+ * Fractional remainders response from GET /api/splits/fractional
+ */
+export interface FractionalRemaindersResponse {
+  splitFactor: string;
+  holders: SplitPosition[];
+  totalFractionalRemainder: string;
+  totalCashInLieuAmount: string;
+}
+
+/**
+ * Split preview response from GET /api/splits/preview
+ */
+export interface SplitPreviewResponse {
+  currentFactor: string;
+  proposedFactor: string;
+  positions: (SplitPosition & { currentEffectiveBalance: string })[];
+  totalFractionalRemainder: string;
+  totalCashInLieuAmount: string;
+  holdersWithFractions: number;
+}
+
+/**
+ * Cumulative vested amount at a time; a jump is two points at the same timestamp
+ */
+export interface VestingTimelinePoint {
+  timestamp: number;
+  vested: string;
+}
+
+/**
+ * A vesting grant with its vested and unvested amounts
+ * Amounts are token units (wei) as strings; times are Unix seconds
+ */
+export interface VestingGrant {
+  grantId: number;
+  amount: string;
+  startTime: number;
+  cliffTime: number;
+  endTime: number;
+  releaseInterval: number; // seconds per vesting step (1 = linear)
+  revokedAt: number | null;
+  vested: string;
+  unvested: string;
+  clawedBack: string;
+  timeline: VestingTimelinePoint[];
+}
+
+/**
+ * Vesting response from GET /api/vesting/:address
+ */
+export interface VestingResponse {
+  address: string;
+  tokenAddress: string;
+  asOf: number;
+  totalGranted: string;
+  totalVested: string;
+  totalUnvested: string;
+  totalClawedBack: string;
+  grants: VestingGrant[];
+}
+
+/**
+ * A wallet's transfer lock-up status from GET /api/lockups/:address
+ * Times are Unix seconds (0 = none); holdingPeriod is in seconds
+ */
+export interface WalletLockupStatus {
+  tokenAddress: string;
+  asOf: number;
+  wallet: string;
+  globalLockupUntil: number;
+  holdingPeriod: number;
+  walletLockupUntil: number;
+  lockedUntil: number;
+  locked: boolean;
+  reason: 'GLOBAL' | 'WALLET' | null;
+}
+
+/**
+ * Lock-ups response from GET /api/lockups
+ */
+export interface LockupsResponse {
+  tokenAddress: string;
+  asOf: number;
+  globalLockupUntil: number;
+  globalLockupActive: boolean;
+  holdingPeriod: number;
+  wallets: {
+    wallet: string;
+    lockupUntil: number;
+    active: boolean;
+    blockNumber: number;
+    txHash: string | null;
+  }[];
+}
+
+/**
+ * A module plugged into a token's compliance, from GET /api/compliance
+ * Only the settings of the module's type are present (none for custom modules)
+ */
+export interface ComplianceModule {
+  address: string;
+  name: string; // e.g. MaxHolders, MaxOwnership, CountryRestriction, AccreditedInvestor
+  addedAtBlock: number;
+  maxHolders?: number; // 0 = no limit
+  maxOwnershipBps?: number; // Basis points of authorized shares, 0 = no limit
+  restrictedCountries?: string[];
+  investorCountries?: { wallet: string; country: string }[];
+  accreditedWallets?: string[];
+}
+
+/**
+ * Compliance of the active token (shareClass = null) or a share class token
+ */
+export interface TokenCompliance {
+  tokenAddress: string;
+  complianceAddress: string | null;
+  shareClass: { classId: number; name: string } | null;
+  modules: ComplianceModule[];
+}
+
+/**
+ * Compliance response from GET /api/compliance
+ */
+export interface ComplianceResponse {
+  tokens: TokenCompliance[];
+}
+
+/**
+ * An indexed compliance configuration change from GET /api/compliance/history
+ */
+export interface ComplianceChange {
+  tokenAddress: string;
+  contractAddress: string;
+  configType:
+    | 'COMPLIANCE_SET'
+    | 'MODULE_ADDED'
+    | 'MODULE_REMOVED'
+    | 'MAX_HOLDERS'
+    | 'MAX_OWNERSHIP'
+    | 'INVESTOR_COUNTRY'
+    | 'COUNTRY_RESTRICTION'
+    | 'ACCREDITATION';
+  complianceAddress: string | null;
+  moduleAddress: string | null;
+  moduleName: string | null;
+  wallet: string | null;
+  country: string | null;
+  value: number | null;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * Compliance history response from GET /api/compliance/history
+ */
+export interface ComplianceHistoryResponse {
+  tokenAddress: string;
+  changes: ComplianceChange[];
+}
+
+/**
+ * Proposed transfer for POST /api/transfers/precheck (amount in base units)
+ */
+export interface TransferPrecheckInput {
+  from: string;
+  to: string;
+  amount: string;
+}
+
+/**
+ * Transfer pre-check response from POST /api/transfers/precheck
+ * code and message are the token's ERC-1404 restriction (0 = not restricted)
+ */
+export interface TransferPrecheckResponse {
+  tokenAddress: string;
+  from: string;
+  to: string;
+  amount: string;
+  asOf: number;
+  code: number;
+  restricted: boolean;
+  message: string;
+  balance: string;
+  sufficientBalance: boolean;
+}
+
+/**
+ * Wallet recovery request status
+ * approved -> executed happens when the WalletRecovered event is indexed
+ */
+export type RecoveryRequestStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'executed';
+
+/**
+ * Wallet recovery request object
+ */
+export interface RecoveryRequest {
+  id: number;
+  requesterUid: string;
+  lostWallet: string;
+  newWallet: string;
+  reason: string;
+  status: RecoveryRequestStatus;
+  reviewerUid: string | null;
+  decisionReason: string | null;
+  executedBlockNumber: number | null;
+  executedTxHash: string | null;
+  createdAt: number; // Unix seconds
+  updatedAt: number; // Unix seconds
+}
+
+/**
+ * Recovery request status change (actorUid is null for on-chain reconciliation)
+ */
+export interface RecoveryRequestTransition {
+  id: number;
+  requestId: number;
+  fromStatus: RecoveryRequestStatus | null;
+  toStatus: RecoveryRequestStatus;
+  actorUid: string | null;
+  reason: string | null;
+  createdAt: number; // Unix seconds
+}
+
+/**
+ * Recovery request with audit trail from /api/recovery/requests endpoints
+ */
+export interface RecoveryRequestResponse {
+  request: RecoveryRequest;
+  transitions: RecoveryRequestTransition[];
+}
+
+/**
+ * Recovery review queue response from GET /api/recovery/requests
+ */
+export interface RecoveryRequestsResponse {
+  requests: RecoveryRequest[];
+  total: number;
+}
+
+/**
+ * Body for POST /api/recovery/requests
+ */
+export interface SubmitRecoveryRequestInput {
+  lostWallet: string;
+  newWallet: string;
+  reason: string;
+}
+
+/**
+ * Indexed ForcedTransfer or WalletRecovered event
+ * reasonCode is the token's REASON_* constant (1 lost wallet, 2 court order,
+ * 3 regulatory action, 4 error correction)
+ */
+export interface ForcedTransfer {
+  tokenAddress: string;
+  transferType: 'FORCED_TRANSFER' | 'WALLET_RECOVERY';
+  fromAddress: string;
+  toAddress: string;
+  amount: string; // wei as string
+  reasonCode: number;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  logIndex: number;
+  txHash: string | null;
+}
+
+/**
+ * A shareholder's recovery trail from GET /api/shareholders/:address
+ */
+export interface RecoveryTrail {
+  requests: (RecoveryRequest & { transitions: RecoveryRequestTransition[] })[];
+  forcedTransfers: ForcedTransfer[];
+}
+
+/**
+ * One row of a batch issuance for POST /api/issuances/validate (amount in base units)
+ */
+export interface IssuanceRowInput {
+  walletAddress: string;
+  amount: string;
+}
+
+/**
+ * Body for POST /api/issuances/validate
+ */
+export interface ValidateIssuanceInput {
+  rows: IssuanceRowInput[];
+}
+
+/**
+ * Validation result of one batch issuance row
+ * errors are problems approving the wallet cannot fix
+ */
+export interface IssuanceRowValidation {
+  index: number;
+  walletAddress: string;
+  amount: string; // wei as string
+  linked: boolean;
+  email: string | null;
+  displayName: string | null;
+  approved: boolean;
+  errors: string[];
+}
+
+/**
+ * Batch issuance validation from POST /api/issuances/validate
+ * valid means batchMint() would succeed as of the indexed state
+ */
+export interface ValidateIssuanceResponse {
+  tokenAddress: string;
+  rows: IssuanceRowValidation[];
+  totalAmount: string; // wei as string
+  totalAuthorized: string | null;
+  totalOutstanding: string;
+  headroom: string | null;
+  withinHeadroom: boolean;
+  paused: boolean;
+  unapprovedWallets: string[]; // Wallets to batchApprove() before minting
+  valid: boolean;
+}
+
+/**
+ * AccessControl role of the token or cap table (IRoles.sol), by name
+ */
+export type OnchainRoleName =
+  | 'DEFAULT_ADMIN_ROLE'
+  | 'MINTER_ROLE'
+  | 'COMPLIANCE_ROLE'
+  | 'CORPORATE_ACTIONS_ROLE'
+  | 'PAUSER_ROLE';
+
+/**
+ * The caller's on-chain roles on a company from GET /api/roles/me
+ * account is the linked wallet (null without one)
+ */
+export interface MyRolesResponse {
+  account: string | null;
+  roles: OnchainRoleName[];
+}